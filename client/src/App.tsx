@@ -1,5 +1,5 @@
 import React, { useEffect } from "react";
-import { Switch, Route, useLocation } from "wouter";
+import { Switch, Route, Router, useLocation } from "wouter";
 import { queryClient } from "./lib/queryClient";
 import Checkout from "@/pages/checkout";
 import PaymentSuccess from "@/pages/payment-success";
@@ -20,15 +20,21 @@ import Reports from "@/pages/Reports";
 import ChatbotSettings from "@/pages/ChatbotSettings";
 import Integrations from "@/pages/Integrations";
 import Search from "@/pages/Search";
+import Trash from "@/pages/Trash";
 import LandingPage from "@/pages/LandingPage";
 import Login from "@/pages/Login";
 import Register from "@/pages/Register";
+import AcceptInvite from "@/pages/AcceptInvite";
+import ForgotPassword from "@/pages/ForgotPassword";
+import ResetPassword from "@/pages/ResetPassword";
+import TwoFactorSetup from "@/pages/TwoFactorSetup";
 import SuperAdmin from "@/pages/admin";
 import { useAuth, AuthProvider } from "./contexts/AuthContext";
 import { SidebarProvider } from "./contexts/SidebarContext";
 import { SettingsProvider } from "./contexts/SettingsContext";
 import { AnimatePresence, motion } from "framer-motion";
 import { transitions } from "./lib/animations";
+import { tenantBase } from "./lib/tenant";
 
 // Componente de transição de página
 function PageTransition({ children }: { children: React.ReactNode }) {
@@ -47,17 +53,20 @@ function PageTransition({ children }: { children: React.ReactNode }) {
 function AppRoutes() {
   const [location, setLocation] = useLocation();
   const { isAuthenticated, isLoading } = useAuth();
-  const publicPaths = ["/", "/login", "/register", "/checkout", "/payment-success"];
+  const publicPaths = ["/", "/login", "/register", "/forgot-password", "/checkout", "/payment-success"];
+  // Rotas públicas com parâmetros (ex.: links de convite e de redefinição de senha enviados por email)
+  const publicPrefixes = ["/invite/", "/reset-password/"];
+  const isPublicPath = publicPaths.includes(location) || publicPrefixes.some((prefix) => location.startsWith(prefix));
   
   // Usar useEffect para redirecionamentos para evitar alterações de estado durante a renderização
   useEffect(() => {
     // Redirecionamento baseado na autenticação
     if (isAuthenticated && (location === "/" || location === "/login" || location === "/register")) {
       setLocation("/dashboard");
-    } else if (!isAuthenticated && !publicPaths.includes(location)) {
+    } else if (!isAuthenticated && !isPublicPath) {
       setLocation("/login");
     }
-  }, [isAuthenticated, location, publicPaths, setLocation]);
+  }, [isAuthenticated, location, isPublicPath, setLocation]);
 
   // Se estiver carregando, não faz nada ainda
   if (isLoading) {
@@ -69,7 +78,7 @@ function AppRoutes() {
   }
 
   // Renderizar páginas públicas
-  if (publicPaths.includes(location)) {
+  if (isPublicPath) {
     return (
       <AnimatePresence mode="wait">
         <Switch location={location} key={location}>
@@ -98,6 +107,21 @@ function AppRoutes() {
               <PaymentSuccess />
             </PageTransition>
           </Route>
+          <Route path="/invite/:token">
+            <PageTransition>
+              <AcceptInvite />
+            </PageTransition>
+          </Route>
+          <Route path="/forgot-password">
+            <PageTransition>
+              <ForgotPassword />
+            </PageTransition>
+          </Route>
+          <Route path="/reset-password/:token">
+            <PageTransition>
+              <ResetPassword />
+            </PageTransition>
+          </Route>
           <Route>
             <PageTransition>
               <NotFound />
@@ -110,7 +134,14 @@ function AppRoutes() {
 
   // Renderizar páginas protegidas
   const { user } = useAuth();
-  const isAdmin = user?.role === 'admin';
+  const isSuperAdmin = !!user?.isSuperAdmin;
+  const canManageIntegrations = !!user?.permissions?.includes('integration.manage');
+  const canManageTrash = !!user?.permissions?.includes('trash.manage');
+  
+  // A organização exige verificação em duas etapas e o usuário ainda não a ativou
+  if (user?.twoFactorSetupRequired) {
+    return <TwoFactorSetup />;
+  }
   
   const AccessDeniedScreen = () => (
     <div className="min-h-screen bg-gradient-to-b from-slate-900 to-slate-800 flex flex-col items-center justify-center p-4">
@@ -189,8 +220,8 @@ function AppRoutes() {
           </Route>
           <Route path="/integrations">
             <PageTransition>
-              {/* Protegendo a rota de Integrações, permitindo apenas usuários com função 'admin' */}
-              {isAdmin ? (
+              {/* Integrações exigem a permissão "integration.manage" na organização */}
+              {canManageIntegrations ? (
                 <Integrations />
               ) : (
                 <AccessDeniedScreen />
@@ -202,10 +233,20 @@ function AppRoutes() {
               <Search />
             </PageTransition>
           </Route>
+          <Route path="/trash">
+            <PageTransition>
+              {/* A lixeira exige a permissão "trash.manage" na organização */}
+              {canManageTrash ? (
+                <Trash />
+              ) : (
+                <AccessDeniedScreen />
+              )}
+            </PageTransition>
+          </Route>
           <Route path="/admin">
             <PageTransition>
-              {/* Protegendo a rota SuperAdmin, permitindo apenas usuários com função 'admin' */}
-              {isAdmin ? (
+              {/* Protegendo a rota SuperAdmin, permitindo apenas usuários com acesso Super Admin */}
+              {isSuperAdmin ? (
                 <SuperAdmin />
               ) : (
                 <AccessDeniedScreen />
@@ -229,7 +270,10 @@ function App() {
       <AuthProvider>
         <SettingsProvider>
           <SidebarProvider>
-            <AppRoutes />
+            {/* Rotas relativas a /o/:slug quando a organização vem do caminho */}
+            <Router base={tenantBase}>
+              <AppRoutes />
+            </Router>
             <Toaster />
           </SidebarProvider>
         </SettingsProvider>
@@ -0,0 +1,261 @@
+import { useState } from "react";
+import { useQuery } from "@tanstack/react-query";
+import { format } from "date-fns";
+import { ptBR } from "date-fns/locale";
+import { ChevronLeft, ChevronRight, Download, Loader2 } from "lucide-react";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { Badge } from "@/components/ui/badge";
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from "@/components/ui/select";
+import {
+  Table,
+  TableBody,
+  TableCell,
+  TableHead,
+  TableHeader,
+  TableRow,
+} from "@/components/ui/table";
+import { useAuth } from "@/contexts/AuthContext";
+import { tenantUrl } from "@/lib/tenant";
+import { AUDIT_ACTIONS, AuditAction, AuditChanges } from "@shared/audit";
+
+interface AuditLogRecord {
+  id: number;
+  organizationId: number | null;
+  organizationName?: string | null;
+  actorId: number | null;
+  actorName: string | null;
+  action: string;
+  targetType: string | null;
+  targetId: number | null;
+  targetLabel: string | null;
+  changes: AuditChanges | null;
+  details: Record<string, unknown> | null;
+  ipAddress: string | null;
+  createdAt: string;
+}
+
+interface AuditLogResponse {
+  logs: AuditLogRecord[];
+  retentionDays?: number;
+}
+
+interface OrganizationOption {
+  id: number;
+  name: string;
+}
+
+const PAGE_SIZE = 50;
+const ALL = "all";
+
+function formatValue(value: unknown) {
+  if (value === null || value === undefined || value === "") return "—";
+  return typeof value === "object" ? JSON.stringify(value) : String(value);
+}
+
+/**
+ * Registro de auditoria com filtros e exportação.
+ * Na área Super Admin (`platform`) mostra todas as organizações; caso contrário, a organização ativa.
+ */
+export default function AuditLogViewer({ scope }: { scope: "platform" | "organization" }) {
+  const { user } = useAuth();
+  const organizationId = user?.organization?.id;
+  const baseUrl = scope === "platform"
+    ? "/api/admin/audit-logs"
+    : `/api/organizations/${organizationId}/audit-logs`;
+
+  const [action, setAction] = useState(ALL);
+  const [organizationFilter, setOrganizationFilter] = useState(ALL);
+  const [from, setFrom] = useState("");
+  const [to, setTo] = useState("");
+  const [page, setPage] = useState(0);
+
+  const params = new URLSearchParams();
+  if (action !== ALL) params.set("action", action);
+  if (scope === "platform" && organizationFilter !== ALL) params.set("organizationId", organizationFilter);
+  if (from) params.set("from", new Date(`${from}T00:00:00`).toISOString());
+  if (to) params.set("to", new Date(`${to}T23:59:59.999`).toISOString());
+  const filters = params.toString();
+
+  const { data, isLoading } = useQuery<AuditLogResponse>({
+    queryKey: [`${baseUrl}?${filters}${filters ? "&" : ""}limit=${PAGE_SIZE}&offset=${page * PAGE_SIZE}`],
+    enabled: scope === "platform" || !!organizationId,
+  });
+
+  const { data: organizations } = useQuery<OrganizationOption[]>({
+    queryKey: ["/api/admin/organizations/usage"],
+    enabled: scope === "platform",
+  });
+
+  // Qualquer mudança de filtro volta para a primeira página
+  const updateFilter = (setter: (value: string) => void) => (value: string) => {
+    setter(value);
+    setPage(0);
+  };
+
+  const exportLogs = (type: "csv" | "json") => {
+    window.location.href = tenantUrl(`${baseUrl}/export?${filters}${filters ? "&" : ""}format=${type}`);
+  };
+
+  const logs = data?.logs || [];
+
+  return (
+    <div className="space-y-4">
+      <div className="flex flex-wrap items-end gap-3">
+        <div className="space-y-1">
+          <Label>Ação</Label>
+          <Select value={action} onValueChange={updateFilter(setAction)}>
+            <SelectTrigger className="w-[240px]">
+              <SelectValue />
+            </SelectTrigger>
+            <SelectContent>
+              <SelectItem value={ALL}>Todas as ações</SelectItem>
+              {Object.entries(AUDIT_ACTIONS).map(([key, label]) => (
+                <SelectItem key={key} value={key}>{label}</SelectItem>
+              ))}
+            </SelectContent>
+          </Select>
+        </div>
+
+        {scope === "platform" && (
+          <div className="space-y-1">
+            <Label>Organização</Label>
+            <Select value={organizationFilter} onValueChange={updateFilter(setOrganizationFilter)}>
+              <SelectTrigger className="w-[200px]">
+                <SelectValue />
+              </SelectTrigger>
+              <SelectContent>
+                <SelectItem value={ALL}>Todas</SelectItem>
+                <SelectItem value="platform">Plataforma (Super Admin)</SelectItem>
+                {organizations?.map((org) => (
+                  <SelectItem key={org.id} value={String(org.id)}>{org.name}</SelectItem>
+                ))}
+              </SelectContent>
+            </Select>
+          </div>
+        )}
+
+        <div className="space-y-1">
+          <Label htmlFor={`audit-from-${scope}`}>De</Label>
+          <Input
+            id={`audit-from-${scope}`}
+            type="date"
+            className="w-[160px]"
+            value={from}
+            onChange={(e) => updateFilter(setFrom)(e.target.value)}
+          />
+        </div>
+        <div className="space-y-1">
+          <Label htmlFor={`audit-to-${scope}`}>Até</Label>
+          <Input
+            id={`audit-to-${scope}`}
+            type="date"
+            className="w-[160px]"
+            value={to}
+            onChange={(e) => updateFilter(setTo)(e.target.value)}
+          />
+        </div>
+
+        <div className="ml-auto flex gap-2">
+          <Button variant="outline" size="sm" onClick={() => exportLogs("csv")}>
+            <Download className="mr-2 h-4 w-4" />
+            CSV
+          </Button>
+          <Button variant="outline" size="sm" onClick={() => exportLogs("json")}>
+            <Download className="mr-2 h-4 w-4" />
+            JSON
+          </Button>
+        </div>
+      </div>
+
+      {data?.retentionDays && (
+        <p className="text-xs text-gray-500">
+          Os registros são mantidos por {data.retentionDays} dias, conforme o plano da organização.
+        </p>
+      )}
+
+      {isLoading ? (
+        <div className="flex justify-center py-6">
+          <Loader2 className="h-6 w-6 animate-spin text-primary" />
+        </div>
+      ) : logs.length === 0 ? (
+        <p className="py-4 text-sm text-gray-500">Nenhum registro encontrado.</p>
+      ) : (
+        <Table>
+          <TableHeader>
+            <TableRow>
+              <TableHead className="w-[140px]">Data</TableHead>
+              {scope === "platform" && <TableHead>Organização</TableHead>}
+              <TableHead>Autor</TableHead>
+              <TableHead>Ação</TableHead>
+              <TableHead>Alvo</TableHead>
+              <TableHead>Alterações</TableHead>
+              <TableHead>IP</TableHead>
+            </TableRow>
+          </TableHeader>
+          <TableBody>
+            {logs.map((log) => (
+              <TableRow key={log.id}>
+                <TableCell className="whitespace-nowrap text-sm">
+                  {format(new Date(log.createdAt), "dd/MM/yyyy HH:mm:ss", { locale: ptBR })}
+                </TableCell>
+                {scope === "platform" && (
+                  <TableCell className="text-sm">
+                    {log.organizationName || <Badge variant="outline">Plataforma</Badge>}
+                  </TableCell>
+                )}
+                <TableCell className="text-sm">
+                  {log.actorName || "—"}
+                  {typeof log.details?.impersonatorId === "number" && (
+                    <div className="text-xs text-amber-600">via Super Admin #{log.details.impersonatorId}</div>
+                  )}
+                </TableCell>
+                <TableCell>
+                  <div className="text-sm">{AUDIT_ACTIONS[log.action as AuditAction] || log.action}</div>
+                  <div className="font-mono text-xs text-gray-500">{log.action}</div>
+                </TableCell>
+                <TableCell className="text-sm">
+                  {log.targetLabel || (log.targetId ? `#${log.targetId}` : "—")}
+                  {log.targetType && <div className="text-xs text-gray-500">{log.targetType}</div>}
+                </TableCell>
+                <TableCell className="max-w-[320px] text-xs">
+                  {log.changes ? (
+                    <ul className="space-y-0.5">
+                      {Object.entries(log.changes).map(([field, change]) => (
+                        <li key={field} className="break-all">
+                          <span className="font-mono">{field}</span>: {formatValue(change.from)} → {formatValue(change.to)}
+                        </li>
+                      ))}
+                    </ul>
+                  ) : log.details ? (
+                    <span className="break-all text-gray-500">{formatValue(log.details)}</span>
+                  ) : (
+                    "—"
+                  )}
+                </TableCell>
+                <TableCell className="font-mono text-xs">{log.ipAddress || "—"}</TableCell>
+              </TableRow>
+            ))}
+          </TableBody>
+        </Table>
+      )}
+
+      <div className="flex items-center justify-end gap-2">
+        <Button variant="outline" size="sm" disabled={page === 0} onClick={() => setPage(page - 1)}>
+          <ChevronLeft className="h-4 w-4" />
+        </Button>
+        <span className="text-sm text-gray-500">Página {page + 1}</span>
+        <Button variant="outline" size="sm" disabled={logs.length < PAGE_SIZE} onClick={() => setPage(page + 1)}>
+          <ChevronRight className="h-4 w-4" />
+        </Button>
+      </div>
+    </div>
+  );
+}
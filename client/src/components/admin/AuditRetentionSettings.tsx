@@ -0,0 +1,100 @@
+import { useEffect, useState } from "react";
+import { useQuery, useMutation } from "@tanstack/react-query";
+import { Loader2, Save } from "lucide-react";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { useToast } from "@/hooks/use-toast";
+import { apiRequest, getApiErrorMessage, queryClient } from "@/lib/queryClient";
+import { AUDIT_RETENTION_KEYS, AuditRetention, AuditRetentionKey } from "@shared/audit";
+
+const retentionLabels: Record<AuditRetentionKey, string> = {
+  free: "Gratuito",
+  starter: "Starter",
+  professional: "Profissional",
+  enterprise: "Enterprise",
+  custom: "Personalizado",
+  partner_trial: "Teste de agência parceira",
+  platform: "Ações da área Super Admin",
+};
+
+const retentionKey = ["/api/admin/audit-retention"];
+
+/**
+ * Dias de retenção do registro de auditoria por plano.
+ */
+export default function AuditRetentionSettings() {
+  const { toast } = useToast();
+  const [draft, setDraft] = useState<Record<string, string>>({});
+
+  const { data: retention, isLoading } = useQuery<AuditRetention>({
+    queryKey: retentionKey,
+  });
+
+  useEffect(() => {
+    if (!retention) return;
+    setDraft(Object.fromEntries(Object.entries(retention).map(([key, days]) => [key, String(days)])));
+  }, [retention]);
+
+  const saveMutation = useMutation<AuditRetention, Error>({
+    mutationFn: () =>
+      apiRequest("PUT", "/api/admin/audit-retention",
+        Object.fromEntries(Object.entries(draft).map(([key, days]) => [key, Number(days)]))),
+    onSuccess: (data) => {
+      queryClient.setQueryData(retentionKey, data);
+      toast({ title: "Retenção da auditoria salva" });
+    },
+    onError: (error) => {
+      toast({
+        title: "Erro ao salvar a retenção",
+        description: getApiErrorMessage(error, "Verifique os valores e tente novamente"),
+        variant: "destructive",
+      });
+    },
+  });
+
+  return (
+    <div className="rounded-lg border p-4 space-y-4">
+      <div>
+        <h3 className="text-base font-medium">Retenção por plano</h3>
+        <p className="text-sm text-gray-500">
+          Registros mais antigos que o período do plano são removidos automaticamente (de 7 a 3650 dias)
+        </p>
+      </div>
+
+      {isLoading ? (
+        <div className="flex justify-center py-4">
+          <Loader2 className="h-5 w-5 animate-spin text-primary" />
+        </div>
+      ) : (
+        <>
+          <div className="grid gap-4 md:grid-cols-4">
+            {AUDIT_RETENTION_KEYS.map((key) => (
+              <div key={key} className="space-y-2">
+                <Label htmlFor={`audit-retention-${key}`}>{retentionLabels[key]}</Label>
+                <Input
+                  id={`audit-retention-${key}`}
+                  type="number"
+                  min={7}
+                  max={3650}
+                  value={draft[key] ?? ""}
+                  onChange={(e) => setDraft({ ...draft, [key]: e.target.value })}
+                />
+              </div>
+            ))}
+          </div>
+          <div className="flex justify-end">
+            <Button onClick={() => saveMutation.mutate()} disabled={saveMutation.isPending}>
+              {saveMutation.isPending ? (
+                <Loader2 className="mr-2 h-4 w-4 animate-spin" />
+              ) : (
+                <Save className="mr-2 h-4 w-4" />
+              )}
+              Salvar
+            </Button>
+          </div>
+        </>
+      )}
+    </div>
+  );
+}
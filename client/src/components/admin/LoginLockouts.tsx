@@ -0,0 +1,126 @@
+import { useQuery, useMutation } from "@tanstack/react-query";
+import { format } from "date-fns";
+import { ptBR } from "date-fns/locale";
+import { Loader2, Unlock } from "lucide-react";
+import { Button } from "@/components/ui/button";
+import { Badge } from "@/components/ui/badge";
+import {
+  Table,
+  TableBody,
+  TableCell,
+  TableHead,
+  TableHeader,
+  TableRow,
+} from "@/components/ui/table";
+import { useToast } from "@/hooks/use-toast";
+import { apiRequest, getApiErrorMessage, queryClient } from "@/lib/queryClient";
+
+interface LoginThrottle {
+  id: number;
+  scope: "account" | "ip" | "phone";
+  identifier: string;
+  failures: number;
+  lockouts: number;
+  lastFailureAt: string | null;
+  lockedUntil: string | null;
+  locked: boolean;
+}
+
+const scopeLabels: Record<string, string> = {
+  account: "Conta",
+  ip: "IP",
+  phone: "Telefone",
+};
+
+const throttlesKey = ["/api/admin/login-throttles"];
+
+function formatDateTime(value: string | null) {
+  return value ? format(new Date(value), "dd/MM/yyyy HH:mm", { locale: ptBR }) : "-";
+}
+
+/**
+ * Contas, IPs e telefones com tentativas de login recusadas ou bloqueadas.
+ */
+export default function LoginLockouts() {
+  const { toast } = useToast();
+
+  const { data: throttles, isLoading } = useQuery<LoginThrottle[]>({
+    queryKey: throttlesKey,
+  });
+
+  const clearMutation = useMutation<unknown, Error, number>({
+    mutationFn: (id) => apiRequest("DELETE", `/api/admin/login-throttles/${id}`),
+    onSuccess: () => {
+      toast({ title: "Bloqueio removido" });
+      queryClient.invalidateQueries({ queryKey: throttlesKey });
+    },
+    onError: (error) => {
+      toast({
+        title: "Erro ao remover bloqueio",
+        description: getApiErrorMessage(error, "Tente novamente"),
+        variant: "destructive",
+      });
+    },
+  });
+
+  return (
+    <div className="rounded-lg border p-4 space-y-4">
+      <div>
+        <h3 className="text-base font-medium">Bloqueios de login</h3>
+        <p className="text-sm text-gray-500">
+          Tentativas de login sem sucesso recentes no site e no chatbot do WhatsApp
+        </p>
+      </div>
+
+      {isLoading ? (
+        <div className="flex justify-center py-4">
+          <Loader2 className="h-5 w-5 animate-spin text-primary" />
+        </div>
+      ) : !throttles || throttles.length === 0 ? (
+        <p className="text-sm text-gray-500">Nenhuma tentativa suspeita no momento.</p>
+      ) : (
+        <Table>
+          <TableHeader>
+            <TableRow>
+              <TableHead>Origem</TableHead>
+              <TableHead>Falhas</TableHead>
+              <TableHead>Última falha</TableHead>
+              <TableHead>Situação</TableHead>
+              <TableHead className="w-[120px]"></TableHead>
+            </TableRow>
+          </TableHeader>
+          <TableBody>
+            {throttles.map((throttle) => (
+              <TableRow key={throttle.id}>
+                <TableCell>
+                  <div className="text-xs text-gray-500">{scopeLabels[throttle.scope] || throttle.scope}</div>
+                  <div className="font-mono text-sm">{throttle.identifier}</div>
+                </TableCell>
+                <TableCell>{throttle.failures}</TableCell>
+                <TableCell>{formatDateTime(throttle.lastFailureAt)}</TableCell>
+                <TableCell>
+                  {throttle.locked ? (
+                    <Badge variant="destructive">Bloqueado até {formatDateTime(throttle.lockedUntil)}</Badge>
+                  ) : (
+                    <Badge variant="outline">Em observação</Badge>
+                  )}
+                </TableCell>
+                <TableCell>
+                  <Button
+                    variant="outline"
+                    size="sm"
+                    disabled={clearMutation.isPending}
+                    onClick={() => clearMutation.mutate(throttle.id)}
+                  >
+                    <Unlock className="mr-2 h-4 w-4" />
+                    Liberar
+                  </Button>
+                </TableCell>
+              </TableRow>
+            ))}
+          </TableBody>
+        </Table>
+      )}
+    </div>
+  );
+}
@@ -0,0 +1,92 @@
+import { useQuery, useMutation } from "@tanstack/react-query";
+import { Loader2, LogOut } from "lucide-react";
+import { Button } from "@/components/ui/button";
+import { useToast } from "@/hooks/use-toast";
+import { useAuth } from "@/contexts/AuthContext";
+import { apiRequest, getApiErrorMessage, queryClient } from "@/lib/queryClient";
+
+interface SecurityMembers {
+  members: {
+    id: number;
+    name: string;
+    email: string;
+    activeSessions: number;
+  }[];
+}
+
+/**
+ * Sessões ativas dos membros da organização, com logout forçado.
+ */
+export default function MemberSessions() {
+  const { toast } = useToast();
+  const { user } = useAuth();
+  const organizationId = user?.organization?.id;
+  const canManage = !!user?.permissions?.includes("security.manage");
+  const queryKey = [`/api/organizations/${organizationId}/security`];
+
+  const { data, isLoading } = useQuery<SecurityMembers>({
+    queryKey,
+    enabled: !!organizationId && canManage,
+  });
+
+  const forceLogoutMutation = useMutation<{ revoked: number }, Error, number>({
+    mutationFn: (userId) =>
+      apiRequest("DELETE", `/api/organizations/${organizationId}/members/${userId}/sessions`),
+    onSuccess: (result) => {
+      queryClient.invalidateQueries({ queryKey });
+      toast({
+        title: "Sessões encerradas",
+        description: `${result.revoked} ${result.revoked === 1 ? "sessão encerrada" : "sessões encerradas"}`,
+      });
+    },
+    onError: (error) => {
+      toast({
+        title: "Erro ao encerrar sessões",
+        description: getApiErrorMessage(error, "Tente novamente"),
+        variant: "destructive",
+      });
+    },
+  });
+
+  if (!canManage) return null;
+
+  return (
+    <div className="rounded-lg border p-4 space-y-4">
+      <div>
+        <h3 className="text-base font-medium">Sessões dos membros</h3>
+        <p className="text-sm text-gray-500">
+          Encerre as sessões de um membro para exigir um novo login em todos os dispositivos
+        </p>
+      </div>
+
+      {isLoading ? (
+        <div className="flex justify-center py-4">
+          <Loader2 className="h-5 w-5 animate-spin text-primary" />
+        </div>
+      ) : (
+        <div className="divide-y">
+          {data?.members.map((member) => (
+            <div key={member.id} className="flex items-center justify-between py-2">
+              <div>
+                <div className="text-sm font-medium">{member.name}</div>
+                <div className="text-xs text-gray-500">
+                  {member.email} · {member.activeSessions}{" "}
+                  {member.activeSessions === 1 ? "sessão ativa" : "sessões ativas"}
+                </div>
+              </div>
+              <Button
+                variant="outline"
+                size="sm"
+                disabled={member.activeSessions === 0 || forceLogoutMutation.isPending}
+                onClick={() => forceLogoutMutation.mutate(member.id)}
+              >
+                <LogOut className="mr-2 h-4 w-4" />
+                Encerrar sessões
+              </Button>
+            </div>
+          ))}
+        </div>
+      )}
+    </div>
+  );
+}
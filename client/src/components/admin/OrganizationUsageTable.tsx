@@ -0,0 +1,111 @@
+import { useQuery } from "@tanstack/react-query";
+import { Loader2 } from "lucide-react";
+import { Badge } from "@/components/ui/badge";
+import { Progress } from "@/components/ui/progress";
+import {
+  Table,
+  TableBody,
+  TableCell,
+  TableHead,
+  TableHeader,
+  TableRow,
+} from "@/components/ui/table";
+
+interface QuotaUsage {
+  used: number;
+  limit: number | null;
+}
+
+interface OrganizationUsage {
+  id: number;
+  name: string;
+  slug: string;
+  active: boolean;
+  plan: string;
+  subscriptionStatus: string;
+  projects: QuotaUsage;
+  users: QuotaUsage;
+  storage: QuotaUsage;
+}
+
+const GB = 1024 * 1024 * 1024;
+
+function UsageCell({ usage, format = (value) => value.toString() }: {
+  usage: QuotaUsage;
+  format?: (value: number) => string;
+}) {
+  const percent = usage.limit ? Math.min(100, (usage.used / usage.limit) * 100) : 0;
+
+  return (
+    <div className="min-w-[120px] space-y-1">
+      <div className="text-sm">
+        {format(usage.used)} / {usage.limit === null ? "Ilimitado" : format(usage.limit)}
+      </div>
+      {usage.limit !== null && (
+        <Progress value={percent} className={percent >= 100 ? "h-2 bg-red-100" : "h-2"} />
+      )}
+    </div>
+  );
+}
+
+/**
+ * Resumo de uso de cada organização em relação aos limites do plano.
+ */
+export default function OrganizationUsageTable() {
+  const { data: organizations, isLoading } = useQuery<OrganizationUsage[]>({
+    queryKey: ["/api/admin/organizations/usage"],
+  });
+
+  if (isLoading) {
+    return (
+      <div className="flex justify-center py-8">
+        <Loader2 className="h-8 w-8 animate-spin text-primary" />
+      </div>
+    );
+  }
+
+  if (!organizations || organizations.length === 0) {
+    return <p className="text-sm text-gray-500 text-center py-8">Nenhuma organização cadastrada</p>;
+  }
+
+  return (
+    <Table>
+      <TableHeader>
+        <TableRow>
+          <TableHead>Organização</TableHead>
+          <TableHead>Plano</TableHead>
+          <TableHead>Projetos</TableHead>
+          <TableHead>Usuários</TableHead>
+          <TableHead>Armazenamento</TableHead>
+        </TableRow>
+      </TableHeader>
+      <TableBody>
+        {organizations.map((org) => (
+          <TableRow key={org.id}>
+            <TableCell>
+              <div className="font-medium">{org.name}</div>
+              <div className="text-xs text-gray-500">{org.slug}</div>
+            </TableCell>
+            <TableCell>
+              <div className="flex flex-col items-start gap-1">
+                <Badge variant="outline" className="capitalize">{org.plan}</Badge>
+                {org.subscriptionStatus !== "active" && (
+                  <Badge variant="destructive">{org.subscriptionStatus}</Badge>
+                )}
+              </div>
+            </TableCell>
+            <TableCell>
+              <UsageCell usage={org.projects} />
+            </TableCell>
+            <TableCell>
+              <UsageCell usage={org.users} />
+            </TableCell>
+            <TableCell>
+              <UsageCell usage={org.storage} format={(value) => `${(value / GB).toFixed(2)} GB`} />
+            </TableCell>
+          </TableRow>
+        ))}
+      </TableBody>
+    </Table>
+  );
+}
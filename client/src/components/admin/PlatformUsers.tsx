@@ -0,0 +1,179 @@
+import { useState } from "react";
+import { useQuery, useMutation } from "@tanstack/react-query";
+import { format } from "date-fns";
+import { ptBR } from "date-fns/locale";
+import { Loader2, LogIn, Search, ShieldCheck, ShieldOff } from "lucide-react";
+import { Button } from "@/components/ui/button";
+import { Badge } from "@/components/ui/badge";
+import { Input } from "@/components/ui/input";
+import {
+  Table,
+  TableBody,
+  TableCell,
+  TableHead,
+  TableHeader,
+  TableRow,
+} from "@/components/ui/table";
+import { useToast } from "@/hooks/use-toast";
+import { useAuth } from "@/contexts/AuthContext";
+import { apiRequest, getApiErrorMessage, queryClient } from "@/lib/queryClient";
+
+interface PlatformUser {
+  id: number;
+  username: string;
+  name: string;
+  email: string;
+  role: string;
+  isSuperAdmin: boolean;
+  createdAt: string | null;
+}
+
+const usersKey = ["/api/admin/users"];
+
+/**
+ * Usuários de todas as organizações, com o acesso Super Admin e o "entrar como" do suporte.
+ */
+export default function PlatformUsers() {
+  const { toast } = useToast();
+  const { user: currentUser, impersonate } = useAuth();
+  const [search, setSearch] = useState("");
+  const [impersonatingId, setImpersonatingId] = useState<number | null>(null);
+
+  const { data: users, isLoading } = useQuery<PlatformUser[]>({
+    queryKey: usersKey,
+  });
+
+  const superAdminMutation = useMutation<PlatformUser, Error, { id: number; grant: boolean }>({
+    mutationFn: ({ id, grant }) => apiRequest(grant ? "POST" : "DELETE", `/api/admin/super-admins/${id}`),
+    onSuccess: (updated) => {
+      toast({
+        title: updated.isSuperAdmin ? "Acesso Super Admin concedido" : "Acesso Super Admin removido",
+        description: updated.name,
+      });
+      queryClient.invalidateQueries({ queryKey: usersKey });
+    },
+    onError: (error) => {
+      toast({
+        title: "Erro ao alterar o acesso Super Admin",
+        description: getApiErrorMessage(error, "Tente novamente"),
+        variant: "destructive",
+      });
+    },
+  });
+
+  const handleImpersonate = async (target: PlatformUser) => {
+    if (!confirm(`Acessar a conta de ${target.name}? O acesso será registrado na auditoria.`)) return;
+
+    setImpersonatingId(target.id);
+    try {
+      await impersonate(target.id);
+    } catch {
+      setImpersonatingId(null);
+    }
+  };
+
+  const term = search.trim().toLowerCase();
+  const filtered = (users || []).filter((user) =>
+    !term ||
+    user.name.toLowerCase().includes(term) ||
+    user.username.toLowerCase().includes(term) ||
+    user.email.toLowerCase().includes(term)
+  );
+
+  return (
+    <div className="space-y-4">
+      <div className="relative max-w-sm">
+        <Search className="absolute left-3 top-1/2 h-4 w-4 -translate-y-1/2 text-gray-400" />
+        <Input
+          placeholder="Buscar por nome, usuário ou email"
+          value={search}
+          onChange={(e) => setSearch(e.target.value)}
+          className="pl-9"
+        />
+      </div>
+
+      {isLoading ? (
+        <div className="flex justify-center py-4">
+          <Loader2 className="h-5 w-5 animate-spin text-primary" />
+        </div>
+      ) : filtered.length === 0 ? (
+        <p className="text-sm text-gray-500">Nenhum usuário encontrado.</p>
+      ) : (
+        <Table>
+          <TableHeader>
+            <TableRow>
+              <TableHead>Usuário</TableHead>
+              <TableHead>Email</TableHead>
+              <TableHead>Cadastro</TableHead>
+              <TableHead>Acesso</TableHead>
+              <TableHead className="w-[320px]"></TableHead>
+            </TableRow>
+          </TableHeader>
+          <TableBody>
+            {filtered.map((user) => {
+              const isCurrent = user.id === currentUser?.id;
+              return (
+                <TableRow key={user.id}>
+                  <TableCell>
+                    <div className="text-sm font-medium">{user.name}</div>
+                    <div className="font-mono text-xs text-gray-500">{user.username}</div>
+                  </TableCell>
+                  <TableCell className="text-sm">{user.email}</TableCell>
+                  <TableCell className="text-sm">
+                    {user.createdAt ? format(new Date(user.createdAt), "dd/MM/yyyy", { locale: ptBR }) : "-"}
+                  </TableCell>
+                  <TableCell>
+                    {user.isSuperAdmin ? (
+                      <Badge>Super Admin</Badge>
+                    ) : (
+                      <Badge variant="outline">{user.role === "admin" ? "Administrador" : "Membro"}</Badge>
+                    )}
+                  </TableCell>
+                  <TableCell>
+                    <div className="flex justify-end gap-2">
+                      {user.isSuperAdmin ? (
+                        <Button
+                          variant="outline"
+                          size="sm"
+                          disabled={isCurrent || superAdminMutation.isPending}
+                          onClick={() => superAdminMutation.mutate({ id: user.id, grant: false })}
+                        >
+                          <ShieldOff className="mr-2 h-4 w-4" />
+                          Remover Super Admin
+                        </Button>
+                      ) : (
+                        <>
+                          <Button
+                            variant="outline"
+                            size="sm"
+                            disabled={superAdminMutation.isPending}
+                            onClick={() => superAdminMutation.mutate({ id: user.id, grant: true })}
+                          >
+                            <ShieldCheck className="mr-2 h-4 w-4" />
+                            Tornar Super Admin
+                          </Button>
+                          <Button
+                            size="sm"
+                            disabled={impersonatingId !== null}
+                            onClick={() => handleImpersonate(user)}
+                          >
+                            {impersonatingId === user.id ? (
+                              <Loader2 className="mr-2 h-4 w-4 animate-spin" />
+                            ) : (
+                              <LogIn className="mr-2 h-4 w-4" />
+                            )}
+                            Entrar como
+                          </Button>
+                        </>
+                      )}
+                    </div>
+                  </TableCell>
+                </TableRow>
+              );
+            })}
+          </TableBody>
+        </Table>
+      )}
+    </div>
+  );
+}
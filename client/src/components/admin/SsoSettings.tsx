@@ -0,0 +1,310 @@
+import { useEffect, useState } from "react";
+import { useQuery, useMutation } from "@tanstack/react-query";
+import { CheckCircle2, Copy, Loader2, Plus, Save, X } from "lucide-react";
+import { Badge } from "@/components/ui/badge";
+import { Button } from "@/components/ui/button";
+import { Checkbox } from "@/components/ui/checkbox";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { Switch } from "@/components/ui/switch";
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from "@/components/ui/select";
+import { useToast } from "@/hooks/use-toast";
+import { useAuth } from "@/contexts/AuthContext";
+import { apiRequest, getApiErrorMessage, queryClient } from "@/lib/queryClient";
+
+interface SsoConfig {
+  enabled: boolean;
+  issuer: string;
+  clientId: string;
+  hasClientSecret: boolean;
+  allowedDomains: string[];
+  defaultRole: "admin" | "member";
+  redirectUri: string;
+}
+
+interface OrganizationDomain {
+  id: number;
+  domain: string;
+  verified: boolean;
+  verifiedAt: string | null;
+  record: { name: string; value: string };
+}
+
+/**
+ * Login único (OpenID Connect) da organização ativa. Os domínios de email liberados
+ * são escolhidos entre os domínios que a organização verificou no DNS.
+ */
+export default function SsoSettings() {
+  const { toast } = useToast();
+  const { user } = useAuth();
+  const organizationId = user?.organization?.id;
+  const canManage = !!user?.permissions?.includes("security.manage");
+  const queryKey = [`/api/organizations/${organizationId}/sso`];
+  const domainsQueryKey = [`/api/organizations/${organizationId}/domains`];
+
+  const [enabled, setEnabled] = useState(false);
+  const [issuer, setIssuer] = useState("");
+  const [clientId, setClientId] = useState("");
+  const [clientSecret, setClientSecret] = useState("");
+  const [allowedDomains, setAllowedDomains] = useState<string[]>([]);
+  const [newDomain, setNewDomain] = useState("");
+  const [defaultRole, setDefaultRole] = useState<"admin" | "member">("member");
+
+  const { data: config, isLoading } = useQuery<SsoConfig>({
+    queryKey,
+    enabled: !!organizationId && canManage,
+  });
+
+  const { data: domains = [] } = useQuery<OrganizationDomain[]>({
+    queryKey: domainsQueryKey,
+    enabled: !!organizationId && canManage,
+  });
+
+  useEffect(() => {
+    if (!config) return;
+    setEnabled(config.enabled);
+    setIssuer(config.issuer);
+    setClientId(config.clientId);
+    setClientSecret("");
+    setAllowedDomains(config.allowedDomains);
+    setDefaultRole(config.defaultRole);
+  }, [config]);
+
+  const saveMutation = useMutation<SsoConfig, Error>({
+    mutationFn: () =>
+      apiRequest("PUT", `/api/organizations/${organizationId}/sso`, {
+        enabled,
+        issuer,
+        clientId,
+        clientSecret: clientSecret || undefined,
+        allowedDomains,
+        defaultRole,
+      }),
+    onSuccess: (data) => {
+      queryClient.setQueryData(queryKey, data);
+      queryClient.invalidateQueries({ queryKey: ["/api/settings"] });
+      toast({
+        title: "Login único salvo",
+        description: data.enabled
+          ? "Os membros já podem entrar pelo provedor de identidade"
+          : "O login pelo provedor de identidade está desativado",
+      });
+    },
+    onError: (error) => {
+      toast({
+        title: "Erro ao salvar o login único",
+        description: getApiErrorMessage(error, "Verifique os dados e tente novamente"),
+        variant: "destructive",
+      });
+    },
+  });
+
+  const domainError = (title: string) => (error: Error) => {
+    toast({ title, description: getApiErrorMessage(error, "Tente novamente"), variant: "destructive" });
+  };
+
+  const addDomainMutation = useMutation<OrganizationDomain, Error>({
+    mutationFn: () => apiRequest("POST", `/api/organizations/${organizationId}/domains`, { domain: newDomain }),
+    onSuccess: () => {
+      setNewDomain("");
+      queryClient.invalidateQueries({ queryKey: domainsQueryKey });
+    },
+    onError: domainError("Erro ao cadastrar o domínio"),
+  });
+
+  const verifyDomainMutation = useMutation<OrganizationDomain, Error, OrganizationDomain>({
+    mutationFn: (domain) => apiRequest("POST", `/api/organizations/${organizationId}/domains/${domain.id}/verify`),
+    onSuccess: (domain) => {
+      queryClient.invalidateQueries({ queryKey: domainsQueryKey });
+      toast({ title: "Domínio verificado", description: `${domain.domain} já pode ser liberado no login único` });
+    },
+    onError: domainError("Domínio não verificado"),
+  });
+
+  const removeDomainMutation = useMutation<unknown, Error, OrganizationDomain>({
+    mutationFn: (domain) => apiRequest("DELETE", `/api/organizations/${organizationId}/domains/${domain.id}`),
+    onSuccess: (_, domain) => {
+      setAllowedDomains((current) => current.filter((allowed) => allowed !== domain.domain));
+      queryClient.invalidateQueries({ queryKey: domainsQueryKey });
+      queryClient.invalidateQueries({ queryKey });
+    },
+    onError: domainError("Erro ao remover o domínio"),
+  });
+
+  const toggleAllowedDomain = (domain: string, allowed: boolean) => {
+    setAllowedDomains((current) => allowed ? [...current, domain] : current.filter((item) => item !== domain));
+  };
+
+  const copyRedirectUri = () => {
+    if (!config) return;
+    navigator.clipboard.writeText(config.redirectUri);
+    toast({ title: "URL copiada" });
+  };
+
+  if (!canManage) return null;
+
+  return (
+    <div className="rounded-lg border p-4 space-y-4">
+      <div className="flex items-center justify-between">
+        <div>
+          <h3 className="text-base font-medium">Login único (SSO)</h3>
+          <p className="text-sm text-gray-500">
+            Permitir que os membros entrem pelo provedor de identidade da empresa (OpenID Connect)
+          </p>
+        </div>
+        <Switch checked={enabled} disabled={isLoading} onCheckedChange={setEnabled} />
+      </div>
+
+      {isLoading ? (
+        <div className="flex justify-center py-4">
+          <Loader2 className="h-5 w-5 animate-spin text-primary" />
+        </div>
+      ) : (
+        <div className="space-y-4">
+          <div className="space-y-2">
+            <Label htmlFor="sso-redirect-uri">URL de retorno</Label>
+            <div className="flex gap-2">
+              <Input id="sso-redirect-uri" value={config?.redirectUri || ""} readOnly className="font-mono text-sm" />
+              <Button type="button" variant="outline" size="icon" onClick={copyRedirectUri}>
+                <Copy className="h-4 w-4" />
+              </Button>
+            </div>
+            <p className="text-xs text-gray-500">Cadastre esta URL no aplicativo criado no provedor de identidade</p>
+          </div>
+
+          <div className="space-y-2">
+            <Label htmlFor="sso-issuer">Emissor (issuer)</Label>
+            <Input
+              id="sso-issuer"
+              placeholder="https://login.suaempresa.com"
+              value={issuer}
+              onChange={(e) => setIssuer(e.target.value)}
+            />
+          </div>
+
+          <div className="grid gap-4 md:grid-cols-2">
+            <div className="space-y-2">
+              <Label htmlFor="sso-client-id">Client ID</Label>
+              <Input id="sso-client-id" value={clientId} onChange={(e) => setClientId(e.target.value)} />
+            </div>
+            <div className="space-y-2">
+              <Label htmlFor="sso-client-secret">Client secret</Label>
+              <Input
+                id="sso-client-secret"
+                type="password"
+                placeholder={config?.hasClientSecret ? "Mantido (preencha para trocar)" : "Opcional"}
+                value={clientSecret}
+                onChange={(e) => setClientSecret(e.target.value)}
+              />
+            </div>
+          </div>
+
+          <div className="space-y-2">
+            <Label htmlFor="sso-new-domain">Domínios de email permitidos</Label>
+            <p className="text-xs text-gray-500">
+              Comprove a posse de cada domínio com um registro TXT no DNS antes de liberá-lo no login único
+            </p>
+            {domains.map((domain) => (
+              <div key={domain.id} className="rounded-md border p-3 space-y-2">
+                <div className="flex items-center gap-2">
+                  {domain.verified ? (
+                    <Checkbox
+                      id={`sso-domain-${domain.id}`}
+                      checked={allowedDomains.includes(domain.domain)}
+                      onCheckedChange={(checked) => toggleAllowedDomain(domain.domain, checked === true)}
+                    />
+                  ) : null}
+                  <Label htmlFor={`sso-domain-${domain.id}`} className="flex-1 font-mono text-sm">{domain.domain}</Label>
+                  {domain.verified ? (
+                    <Badge variant="outline" className="text-green-700">
+                      <CheckCircle2 className="mr-1 h-3 w-3" />
+                      Verificado
+                    </Badge>
+                  ) : (
+                    <Button
+                      type="button"
+                      variant="outline"
+                      size="sm"
+                      onClick={() => verifyDomainMutation.mutate(domain)}
+                      disabled={verifyDomainMutation.isPending}
+                    >
+                      Verificar
+                    </Button>
+                  )}
+                  <Button
+                    type="button"
+                    variant="ghost"
+                    size="sm"
+                    className="h-8 w-8 p-0"
+                    onClick={() => removeDomainMutation.mutate(domain)}
+                    disabled={removeDomainMutation.isPending}
+                  >
+                    <X className="h-4 w-4 text-gray-400" />
+                  </Button>
+                </div>
+                {!domain.verified && (
+                  <div className="text-xs text-gray-500 space-y-1">
+                    <p>Crie um registro TXT no DNS do domínio:</p>
+                    <p className="font-mono break-all">{domain.record.name}</p>
+                    <p className="font-mono break-all">{domain.record.value}</p>
+                  </div>
+                )}
+              </div>
+            ))}
+            <div className="flex gap-2">
+              <Input
+                id="sso-new-domain"
+                placeholder="suaempresa.com"
+                value={newDomain}
+                onChange={(e) => setNewDomain(e.target.value)}
+              />
+              <Button
+                type="button"
+                variant="outline"
+                onClick={() => addDomainMutation.mutate()}
+                disabled={!newDomain.trim() || addDomainMutation.isPending}
+              >
+                {addDomainMutation.isPending ? <Loader2 className="h-4 w-4 animate-spin" /> : <Plus className="h-4 w-4" />}
+              </Button>
+            </div>
+          </div>
+
+          <div className="grid gap-4 md:grid-cols-2">
+            <div className="space-y-2">
+              <Label>Papel dos novos membros</Label>
+              <Select value={defaultRole} onValueChange={(value) => setDefaultRole(value as "admin" | "member")}>
+                <SelectTrigger>
+                  <SelectValue />
+                </SelectTrigger>
+                <SelectContent>
+                  <SelectItem value="member">Membro</SelectItem>
+                  <SelectItem value="admin">Administrador</SelectItem>
+                </SelectContent>
+              </Select>
+            </div>
+          </div>
+
+          <div className="flex justify-end">
+            <Button
+              onClick={() => saveMutation.mutate()}
+              disabled={saveMutation.isPending || !issuer.trim() || !clientId.trim()}
+            >
+              {saveMutation.isPending ? (
+                <Loader2 className="mr-2 h-4 w-4 animate-spin" />
+              ) : (
+                <Save className="mr-2 h-4 w-4" />
+              )}
+              Salvar
+            </Button>
+          </div>
+        </div>
+      )}
+    </div>
+  );
+}
@@ -0,0 +1,143 @@
+import { useRef } from "react";
+import { useQuery, useMutation } from "@tanstack/react-query";
+import { format } from "date-fns";
+import { ptBR } from "date-fns/locale";
+import { Download, Loader2, Upload } from "lucide-react";
+import { Button } from "@/components/ui/button";
+import { Badge } from "@/components/ui/badge";
+import { useToast } from "@/hooks/use-toast";
+import { getApiErrorMessage } from "@/lib/queryClient";
+import { tenantUrl } from "@/lib/tenant";
+
+interface SnapshotStatus {
+  driver: "memory" | "database";
+  version: number;
+  file: string | null;
+  lastSavedAt: string | null;
+}
+
+/**
+ * Exportação e importação dos dados do armazenamento em memória (snapshot JSON).
+ */
+export default function StorageSnapshot() {
+  const { toast } = useToast();
+  const fileInputRef = useRef<HTMLInputElement>(null);
+
+  const { data: status, isLoading } = useQuery<SnapshotStatus>({
+    queryKey: ["/api/admin/snapshot/status"],
+  });
+
+  const importMutation = useMutation<{ message: string }, Error, File>({
+    mutationFn: async (file) => {
+      // Nota: Para FormData, não usamos apiRequest pois ele define o Content-Type como application/json
+      const formData = new FormData();
+      formData.append("snapshot", file);
+      const response = await fetch(tenantUrl("/api/admin/snapshot"), {
+        method: "POST",
+        body: formData,
+        credentials: "include",
+      });
+
+      if (!response.ok) {
+        const text = await response.text();
+        throw new Error(`${response.status}: ${text || response.statusText}`);
+      }
+
+      return response.json();
+    },
+    onSuccess: (data) => {
+      toast({ title: "Snapshot importado", description: data.message });
+      // A sessão foi encerrada e os dados mudaram: recarrega o app na tela de login
+      window.location.assign("/login");
+    },
+    onError: (error) => {
+      toast({
+        title: "Erro ao importar o snapshot",
+        description: getApiErrorMessage(error, "Verifique o arquivo e tente novamente"),
+        variant: "destructive",
+      });
+    },
+  });
+
+  const handleFileChange = (e: React.ChangeEvent<HTMLInputElement>) => {
+    const file = e.target.files?.[0];
+    e.target.value = "";
+    if (!file) return;
+    if (!confirm("Importar este snapshot? Todos os dados atuais serão substituídos e você precisará entrar novamente.")) return;
+    importMutation.mutate(file);
+  };
+
+  const isMemory = status?.driver === "memory";
+
+  return (
+    <div className="rounded-lg border p-4 space-y-4">
+      <div>
+        <h3 className="text-base font-medium">Snapshot dos dados</h3>
+        <p className="text-sm text-gray-500">
+          Salve ou restaure todos os dados do armazenamento em memória em um arquivo JSON
+        </p>
+      </div>
+
+      {isLoading ? (
+        <div className="flex justify-center py-4">
+          <Loader2 className="h-5 w-5 animate-spin text-primary" />
+        </div>
+      ) : !isMemory ? (
+        <p className="text-sm text-gray-500">
+          Disponível apenas com STORAGE_DRIVER=memory. Com o banco de dados, use o backup do PostgreSQL.
+        </p>
+      ) : (
+        <>
+          <div className="space-y-1 text-sm">
+            <div className="flex items-center gap-2">
+              <span className="text-gray-500">Formato:</span>
+              <Badge variant="outline">versão {status.version}</Badge>
+            </div>
+            <div>
+              <span className="text-gray-500">Arquivo: </span>
+              {status.file ? (
+                <span className="font-mono text-xs">{status.file}</span>
+              ) : (
+                "não configurado (defina STORAGE_SNAPSHOT_FILE para gravar automaticamente)"
+              )}
+            </div>
+            {status.file && (
+              <div>
+                <span className="text-gray-500">Última gravação: </span>
+                {status.lastSavedAt
+                  ? format(new Date(status.lastSavedAt), "dd/MM/yyyy HH:mm:ss", { locale: ptBR })
+                  : "nenhuma alteração desde a inicialização"}
+              </div>
+            )}
+          </div>
+
+          <div className="flex justify-end gap-2">
+            <Button variant="outline" onClick={() => { window.location.href = tenantUrl("/api/admin/snapshot"); }}>
+              <Download className="mr-2 h-4 w-4" />
+              Exportar
+            </Button>
+            <Button
+              variant="outline"
+              onClick={() => fileInputRef.current?.click()}
+              disabled={importMutation.isPending}
+            >
+              {importMutation.isPending ? (
+                <Loader2 className="mr-2 h-4 w-4 animate-spin" />
+              ) : (
+                <Upload className="mr-2 h-4 w-4" />
+              )}
+              Importar
+            </Button>
+            <input
+              ref={fileInputRef}
+              type="file"
+              accept="application/json,.json"
+              className="hidden"
+              onChange={handleFileChange}
+            />
+          </div>
+        </>
+      )}
+    </div>
+  );
+}
@@ -0,0 +1,105 @@
+import { useQuery, useMutation } from "@tanstack/react-query";
+import { Loader2 } from "lucide-react";
+import { Switch } from "@/components/ui/switch";
+import { Badge } from "@/components/ui/badge";
+import { useToast } from "@/hooks/use-toast";
+import { useAuth } from "@/contexts/AuthContext";
+import { apiRequest, queryClient } from "@/lib/queryClient";
+
+interface SecurityPolicy {
+  requireTwoFactor: boolean;
+  members: {
+    id: number;
+    name: string;
+    email: string;
+    twoFactorEnabled: boolean;
+  }[];
+}
+
+/**
+ * Política de verificação em duas etapas da organização ativa.
+ */
+export default function TwoFactorPolicy() {
+  const { toast } = useToast();
+  const { user } = useAuth();
+  const organizationId = user?.organization?.id;
+  const canManage = !!user?.permissions?.includes("security.manage");
+  const queryKey = [`/api/organizations/${organizationId}/security`];
+
+  const { data: policy, isLoading } = useQuery<SecurityPolicy>({
+    queryKey,
+    enabled: !!organizationId && canManage,
+  });
+
+  const updateMutation = useMutation<{ requireTwoFactor: boolean }, Error, boolean>({
+    mutationFn: (requireTwoFactor) =>
+      apiRequest("PUT", `/api/organizations/${organizationId}/security`, { requireTwoFactor }),
+    onSuccess: (data) => {
+      queryClient.invalidateQueries({ queryKey });
+      queryClient.invalidateQueries({ queryKey: ["/api/auth/2fa"] });
+      toast({
+        title: data.requireTwoFactor
+          ? "Verificação em duas etapas exigida"
+          : "Verificação em duas etapas opcional",
+        description: data.requireTwoFactor
+          ? "Membros sem a verificação ativa precisarão configurá-la no próximo acesso"
+          : "Os membros podem escolher se usam a verificação em duas etapas",
+      });
+    },
+    onError: (error) => {
+      toast({
+        title: "Erro ao atualizar a política",
+        description: error.message.includes("Ative a verificação")
+          ? "Ative a verificação em duas etapas na sua conta (Configurações > Segurança) antes de exigi-la"
+          : "Não foi possível atualizar a política de segurança",
+        variant: "destructive",
+      });
+    },
+  });
+
+  const pendingMembers = policy?.members.filter((member) => !member.twoFactorEnabled) || [];
+
+  return (
+    <div className="rounded-lg border p-4 space-y-4">
+      <div className="flex items-center justify-between">
+        <div>
+          <h3 className="text-base font-medium">Verificação em duas etapas</h3>
+          <p className="text-sm text-gray-500">
+            Exigir verificação em duas etapas de todos os membros da organização
+            {user?.organization?.name ? ` ${user.organization.name}` : ""}
+          </p>
+        </div>
+        {isLoading || updateMutation.isPending ? (
+          <Loader2 className="h-5 w-5 animate-spin text-primary" />
+        ) : (
+          <Switch
+            checked={!!policy?.requireTwoFactor}
+            disabled={!canManage}
+            onCheckedChange={(checked) => updateMutation.mutate(checked)}
+          />
+        )}
+      </div>
+
+      {!canManage && (
+        <p className="text-sm text-gray-500">Apenas administradores da organização podem alterar esta política.</p>
+      )}
+
+      {policy && (
+        <div className="space-y-2">
+          <p className="text-sm text-gray-600">
+            {policy.members.length - pendingMembers.length} de {policy.members.length} membros com a verificação ativa
+          </p>
+          {pendingMembers.length > 0 && (
+            <div className="flex flex-wrap gap-2">
+              {pendingMembers.map((member) => (
+                <Badge key={member.id} variant="outline" title={member.email}>
+                  {member.name}
+                </Badge>
+              ))}
+            </div>
+          )}
+        </div>
+      )}
+    </div>
+  );
+}
@@ -0,0 +1,155 @@
+import { useQuery, useMutation } from "@tanstack/react-query";
+import { format, formatDistanceToNow } from "date-fns";
+import { ptBR } from "date-fns/locale";
+import { Laptop, Loader2, LogOut, Smartphone } from "lucide-react";
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/ui/card";
+import { Button } from "@/components/ui/button";
+import { Badge } from "@/components/ui/badge";
+import { useToast } from "@/hooks/use-toast";
+import { apiRequest, getApiErrorMessage, queryClient } from "@/lib/queryClient";
+
+interface ActiveSession {
+  id: string;
+  userAgent: string | null;
+  ipAddress: string | null;
+  createdAt: string;
+  lastSeenAt: string;
+  expiresAt: string;
+  current: boolean;
+}
+
+const sessionsKey = ["/api/auth/sessions"];
+
+// Descrição resumida do dispositivo a partir do User-Agent (ex: "Chrome no Windows")
+function describeDevice(userAgent: string | null) {
+  if (!userAgent) return { label: "Dispositivo desconhecido", mobile: false };
+
+  const browser =
+    /Edg\//.test(userAgent) ? "Edge" :
+    /OPR\/|Opera/.test(userAgent) ? "Opera" :
+    /Firefox\//.test(userAgent) ? "Firefox" :
+    /Chrome\//.test(userAgent) ? "Chrome" :
+    /Safari\//.test(userAgent) ? "Safari" :
+    null;
+
+  const system =
+    /Android/.test(userAgent) ? "Android" :
+    /iPhone|iPad|iPod/.test(userAgent) ? "iOS" :
+    /Windows/.test(userAgent) ? "Windows" :
+    /Mac OS X|Macintosh/.test(userAgent) ? "macOS" :
+    /Linux/.test(userAgent) ? "Linux" :
+    null;
+
+  const label = browser && system
+    ? `${browser} no ${system}`
+    : browser || system || userAgent.slice(0, 40);
+
+  return { label, mobile: /Mobile|Android|iPhone|iPad/.test(userAgent) };
+}
+
+/**
+ * Sessões ativas do usuário logado, com opção de encerrar uma ou todas as outras.
+ */
+export default function ActiveSessions() {
+  const { toast } = useToast();
+
+  const { data: sessions, isLoading } = useQuery<ActiveSession[]>({
+    queryKey: sessionsKey,
+  });
+
+  const onError = (title: string) => (error: Error) => {
+    toast({ title, description: getApiErrorMessage(error, "Tente novamente"), variant: "destructive" });
+  };
+
+  const revokeMutation = useMutation<unknown, Error, string>({
+    mutationFn: (id) => apiRequest("DELETE", `/api/auth/sessions/${id}`),
+    onSuccess: () => {
+      toast({ title: "Sessão encerrada" });
+      queryClient.invalidateQueries({ queryKey: sessionsKey });
+    },
+    onError: onError("Erro ao encerrar sessão"),
+  });
+
+  const revokeOthersMutation = useMutation<{ revoked: number }, Error>({
+    mutationFn: () => apiRequest("DELETE", "/api/auth/sessions"),
+    onSuccess: (data) => {
+      toast({
+        title: "Sessões encerradas",
+        description: `${data.revoked} ${data.revoked === 1 ? "sessão encerrada" : "sessões encerradas"}`,
+      });
+      queryClient.invalidateQueries({ queryKey: sessionsKey });
+    },
+    onError: onError("Erro ao encerrar sessões"),
+  });
+
+  const otherSessions = sessions?.filter((session) => !session.current) || [];
+
+  return (
+    <Card>
+      <CardHeader className="flex flex-row items-start justify-between space-y-0">
+        <div className="space-y-1.5">
+          <CardTitle>Sessões ativas</CardTitle>
+          <CardDescription>Dispositivos conectados à sua conta</CardDescription>
+        </div>
+        <Button
+          variant="outline"
+          size="sm"
+          disabled={otherSessions.length === 0 || revokeOthersMutation.isPending}
+          onClick={() => revokeOthersMutation.mutate()}
+        >
+          {revokeOthersMutation.isPending ? (
+            <Loader2 className="mr-2 h-4 w-4 animate-spin" />
+          ) : (
+            <LogOut className="mr-2 h-4 w-4" />
+          )}
+          Encerrar todas as outras
+        </Button>
+      </CardHeader>
+      <CardContent>
+        {isLoading ? (
+          <div className="flex justify-center py-6">
+            <Loader2 className="h-6 w-6 animate-spin text-primary" />
+          </div>
+        ) : (
+          <div className="divide-y">
+            {sessions?.map((session) => {
+              const device = describeDevice(session.userAgent);
+              const DeviceIcon = device.mobile ? Smartphone : Laptop;
+
+              return (
+                <div key={session.id} className="flex items-center justify-between gap-4 py-3">
+                  <div className="flex items-center gap-3">
+                    <DeviceIcon className="h-5 w-5 text-gray-400" />
+                    <div>
+                      <div className="flex items-center gap-2 font-medium" title={session.userAgent || undefined}>
+                        {device.label}
+                        {session.current && (
+                          <Badge className="bg-green-100 text-green-800 hover:bg-green-100">Esta sessão</Badge>
+                        )}
+                      </div>
+                      <div className="text-sm text-gray-500">
+                        {session.ipAddress || "IP desconhecido"}
+                        {" · "}Entrou em {format(new Date(session.createdAt), "dd/MM/yyyy HH:mm", { locale: ptBR })}
+                        {" · "}Ativa {formatDistanceToNow(new Date(session.lastSeenAt), { addSuffix: true, locale: ptBR })}
+                      </div>
+                    </div>
+                  </div>
+                  {!session.current && (
+                    <Button
+                      variant="ghost"
+                      size="sm"
+                      disabled={revokeMutation.isPending}
+                      onClick={() => revokeMutation.mutate(session.id)}
+                    >
+                      Encerrar
+                    </Button>
+                  )}
+                </div>
+              );
+            })}
+          </div>
+        )}
+      </CardContent>
+    </Card>
+  );
+}
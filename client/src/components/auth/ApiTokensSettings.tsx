@@ -0,0 +1,326 @@
+import { useState } from "react";
+import { useQuery, useMutation } from "@tanstack/react-query";
+import { format, formatDistanceToNow } from "date-fns";
+import { ptBR } from "date-fns/locale";
+import { Copy, KeyRound, Loader2, Plus, Trash2 } from "lucide-react";
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/ui/card";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { Badge } from "@/components/ui/badge";
+import { Checkbox } from "@/components/ui/checkbox";
+import {
+  Table,
+  TableBody,
+  TableCell,
+  TableHead,
+  TableHeader,
+  TableRow,
+} from "@/components/ui/table";
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogFooter,
+  DialogHeader,
+  DialogTitle,
+} from "@/components/ui/dialog";
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from "@/components/ui/select";
+import { useToast } from "@/hooks/use-toast";
+import { apiRequest, getApiErrorMessage, queryClient } from "@/lib/queryClient";
+
+type ApiTokenScope = "read" | "write" | "admin";
+
+interface ApiToken {
+  id: number;
+  name: string;
+  tokenPrefix: string;
+  scopes: ApiTokenScope[];
+  expiresAt: string | null;
+  revokedAt: string | null;
+  lastUsedAt: string | null;
+  lastUsedIp: string | null;
+  createdAt: string;
+}
+
+const scopeOptions: { value: ApiTokenScope; label: string; description: string }[] = [
+  { value: "read", label: "Leitura", description: "Consultar dados (GET)" },
+  { value: "write", label: "Escrita", description: "Criar, alterar e excluir dados" },
+  { value: "admin", label: "Administração", description: "Operações restritas a administradores" },
+];
+
+const expirationOptions = [
+  { value: "30", label: "30 dias" },
+  { value: "90", label: "90 dias" },
+  { value: "365", label: "1 ano" },
+  { value: "never", label: "Sem expiração" },
+];
+
+const tokensKey = ["/api/auth/tokens"];
+
+function formatDate(value: string) {
+  return format(new Date(value), "dd/MM/yyyy", { locale: ptBR });
+}
+
+/**
+ * Tokens de acesso pessoal do usuário para a API REST (Authorization: Bearer).
+ */
+export default function ApiTokensSettings() {
+  const { toast } = useToast();
+  const [isDialogOpen, setIsDialogOpen] = useState(false);
+  const [name, setName] = useState("");
+  const [scopes, setScopes] = useState<ApiTokenScope[]>(["read"]);
+  const [expiration, setExpiration] = useState("90");
+  const [createdToken, setCreatedToken] = useState<string | null>(null);
+
+  const { data: tokens, isLoading } = useQuery<ApiToken[]>({
+    queryKey: tokensKey,
+  });
+
+  const resetForm = () => {
+    setName("");
+    setScopes(["read"]);
+    setExpiration("90");
+  };
+
+  const createMutation = useMutation<ApiToken & { token: string }, Error>({
+    mutationFn: () =>
+      apiRequest("POST", "/api/auth/tokens", {
+        name,
+        scopes,
+        expiresInDays: expiration === "never" ? null : parseInt(expiration),
+      }),
+    onSuccess: (data) => {
+      setIsDialogOpen(false);
+      resetForm();
+      setCreatedToken(data.token);
+      queryClient.invalidateQueries({ queryKey: tokensKey });
+    },
+    onError: (error) => {
+      toast({
+        title: "Erro ao criar token",
+        description: getApiErrorMessage(error, "Tente novamente"),
+        variant: "destructive",
+      });
+    },
+  });
+
+  const revokeMutation = useMutation<unknown, Error, number>({
+    mutationFn: (id) => apiRequest("DELETE", `/api/auth/tokens/${id}`),
+    onSuccess: () => {
+      toast({ title: "Token revogado" });
+      queryClient.invalidateQueries({ queryKey: tokensKey });
+    },
+    onError: (error) => {
+      toast({
+        title: "Erro ao revogar token",
+        description: getApiErrorMessage(error, "Tente novamente"),
+        variant: "destructive",
+      });
+    },
+  });
+
+  const toggleScope = (scope: ApiTokenScope, checked: boolean) => {
+    setScopes((current) => (checked ? [...current, scope] : current.filter((s) => s !== scope)));
+  };
+
+  const copyToken = () => {
+    if (!createdToken) return;
+    navigator.clipboard?.writeText(createdToken);
+    toast({ title: "Token copiado" });
+  };
+
+  const renderStatus = (token: ApiToken) => {
+    if (token.revokedAt) {
+      return <Badge variant="secondary">Revogado</Badge>;
+    }
+    if (token.expiresAt && new Date(token.expiresAt) < new Date()) {
+      return <Badge variant="secondary">Expirado</Badge>;
+    }
+    return <Badge className="bg-green-100 text-green-800 hover:bg-green-100">Ativo</Badge>;
+  };
+
+  return (
+    <Card>
+      <CardHeader className="flex flex-row items-start justify-between space-y-0">
+        <div className="space-y-1.5">
+          <CardTitle>Tokens de API</CardTitle>
+          <CardDescription>
+            Acesse a API REST em seu nome usando o cabeçalho <code>Authorization: Bearer</code>
+          </CardDescription>
+        </div>
+        <Button size="sm" onClick={() => setIsDialogOpen(true)}>
+          <Plus className="mr-2 h-4 w-4" />
+          Novo token
+        </Button>
+      </CardHeader>
+      <CardContent className="space-y-4">
+        {createdToken && (
+          <div className="rounded-lg border border-amber-200 bg-amber-50 p-4 space-y-3">
+            <p className="text-sm text-amber-800">
+              Copie o token agora. Por segurança, ele não será exibido novamente.
+            </p>
+            <code className="block break-all rounded bg-white px-2 py-1 text-sm">{createdToken}</code>
+            <div className="flex gap-2">
+              <Button variant="outline" size="sm" onClick={copyToken}>
+                <Copy className="mr-2 h-4 w-4" />
+                Copiar
+              </Button>
+              <Button size="sm" onClick={() => setCreatedToken(null)}>
+                Já copiei o token
+              </Button>
+            </div>
+          </div>
+        )}
+
+        {isLoading ? (
+          <div className="flex justify-center py-6">
+            <Loader2 className="h-6 w-6 animate-spin text-primary" />
+          </div>
+        ) : !tokens || tokens.length === 0 ? (
+          <div className="flex flex-col items-center py-6 text-center text-sm text-gray-500">
+            <KeyRound className="mb-2 h-8 w-8 text-gray-300" />
+            Nenhum token criado
+          </div>
+        ) : (
+          <Table>
+            <TableHeader>
+              <TableRow>
+                <TableHead>Nome</TableHead>
+                <TableHead>Escopos</TableHead>
+                <TableHead>Expira em</TableHead>
+                <TableHead>Último uso</TableHead>
+                <TableHead>Status</TableHead>
+                <TableHead className="w-[60px]"></TableHead>
+              </TableRow>
+            </TableHeader>
+            <TableBody>
+              {tokens.map((token) => (
+                <TableRow key={token.id}>
+                  <TableCell>
+                    <div className="font-medium">{token.name}</div>
+                    <div className="font-mono text-xs text-gray-500">{token.tokenPrefix}…</div>
+                  </TableCell>
+                  <TableCell>
+                    <div className="flex flex-wrap gap-1">
+                      {token.scopes.map((scope) => (
+                        <Badge key={scope} variant="outline">
+                          {scopeOptions.find((option) => option.value === scope)?.label || scope}
+                        </Badge>
+                      ))}
+                    </div>
+                  </TableCell>
+                  <TableCell>{token.expiresAt ? formatDate(token.expiresAt) : "Nunca"}</TableCell>
+                  <TableCell>
+                    {token.lastUsedAt ? (
+                      <span title={token.lastUsedIp || undefined}>
+                        {formatDistanceToNow(new Date(token.lastUsedAt), { addSuffix: true, locale: ptBR })}
+                      </span>
+                    ) : (
+                      <span className="text-gray-400">Nunca usado</span>
+                    )}
+                  </TableCell>
+                  <TableCell>{renderStatus(token)}</TableCell>
+                  <TableCell>
+                    {!token.revokedAt && (
+                      <Button
+                        variant="ghost"
+                        size="icon"
+                        title="Revogar token"
+                        disabled={revokeMutation.isPending}
+                        onClick={() => revokeMutation.mutate(token.id)}
+                      >
+                        <Trash2 className="h-4 w-4 text-red-500" />
+                      </Button>
+                    )}
+                  </TableCell>
+                </TableRow>
+              ))}
+            </TableBody>
+          </Table>
+        )}
+      </CardContent>
+
+      <Dialog
+        open={isDialogOpen}
+        onOpenChange={(open) => {
+          setIsDialogOpen(open);
+          if (!open) resetForm();
+        }}
+      >
+        <DialogContent>
+          <DialogHeader>
+            <DialogTitle>Novo token de API</DialogTitle>
+            <DialogDescription>
+              O token terá acesso apenas à organização atual e aos escopos selecionados.
+            </DialogDescription>
+          </DialogHeader>
+
+          <div className="space-y-4">
+            <div className="space-y-2">
+              <Label htmlFor="api-token-name">Nome</Label>
+              <Input
+                id="api-token-name"
+                value={name}
+                onChange={(e) => setName(e.target.value)}
+                placeholder="Ex: Integração com o CRM"
+              />
+            </div>
+
+            <div className="space-y-2">
+              <Label>Escopos</Label>
+              {scopeOptions.map((option) => (
+                <div key={option.value} className="flex items-start gap-2">
+                  <Checkbox
+                    id={`api-token-scope-${option.value}`}
+                    checked={scopes.includes(option.value)}
+                    onCheckedChange={(checked) => toggleScope(option.value, checked === true)}
+                  />
+                  <label htmlFor={`api-token-scope-${option.value}`} className="text-sm leading-none">
+                    <span className="font-medium">{option.label}</span>
+                    <span className="block text-gray-500 mt-1">{option.description}</span>
+                  </label>
+                </div>
+              ))}
+            </div>
+
+            <div className="space-y-2">
+              <Label>Validade</Label>
+              <Select value={expiration} onValueChange={setExpiration}>
+                <SelectTrigger>
+                  <SelectValue />
+                </SelectTrigger>
+                <SelectContent>
+                  {expirationOptions.map((option) => (
+                    <SelectItem key={option.value} value={option.value}>
+                      {option.label}
+                    </SelectItem>
+                  ))}
+                </SelectContent>
+              </Select>
+            </div>
+          </div>
+
+          <DialogFooter>
+            <Button variant="outline" onClick={() => setIsDialogOpen(false)}>
+              Cancelar
+            </Button>
+            <Button
+              disabled={!name.trim() || scopes.length === 0 || createMutation.isPending}
+              onClick={() => createMutation.mutate()}
+            >
+              {createMutation.isPending && <Loader2 className="mr-2 h-4 w-4 animate-spin" />}
+              Criar token
+            </Button>
+          </DialogFooter>
+        </DialogContent>
+      </Dialog>
+    </Card>
+  );
+}
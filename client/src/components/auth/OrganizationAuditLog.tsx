@@ -0,0 +1,26 @@
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/ui/card";
+import { useAuth } from "@/contexts/AuthContext";
+import AuditLogViewer from "@/components/admin/AuditLogViewer";
+
+/**
+ * Registro de auditoria da organização ativa, para quem tem a permissão "audit.view".
+ */
+export default function OrganizationAuditLog() {
+  const { user } = useAuth();
+
+  if (!user?.permissions?.includes("audit.view")) return null;
+
+  return (
+    <Card>
+      <CardHeader>
+        <CardTitle>Auditoria</CardTitle>
+        <CardDescription>
+          Logins, alterações de segurança, permissões, membros e integrações da organização
+        </CardDescription>
+      </CardHeader>
+      <CardContent>
+        <AuditLogViewer scope="organization" />
+      </CardContent>
+    </Card>
+  );
+}
@@ -0,0 +1,192 @@
+import { useEffect, useState } from "react";
+import { useQuery, useMutation } from "@tanstack/react-query";
+import { Loader2, RotateCcw, Save } from "lucide-react";
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/ui/card";
+import { Button } from "@/components/ui/button";
+import { Badge } from "@/components/ui/badge";
+import { Checkbox } from "@/components/ui/checkbox";
+import {
+  Table,
+  TableBody,
+  TableCell,
+  TableHead,
+  TableHeader,
+  TableRow,
+} from "@/components/ui/table";
+import { useToast } from "@/hooks/use-toast";
+import { useAuth } from "@/contexts/AuthContext";
+import { apiRequest, getApiErrorMessage, queryClient } from "@/lib/queryClient";
+import {
+  ORGANIZATION_PERMISSIONS,
+  PROJECT_PERMISSIONS,
+  PermissionMatrix as Matrix,
+} from "@shared/permissions";
+
+interface PermissionMatrixResponse {
+  matrix: Matrix;
+  customized: boolean;
+}
+
+const organizationRoleLabels = { owner: "Owner", admin: "Administrador", member: "Membro" };
+const projectRoleLabels = { admin: "Administrador", manager: "Gerente", member: "Membro" };
+
+/**
+ * Matriz de permissões da organização, editável pelo owner.
+ */
+export default function PermissionMatrix() {
+  const { toast } = useToast();
+  const { user } = useAuth();
+  const organizationId = user?.organization?.id;
+  const canManage = !!user?.permissions?.includes("permission.manage");
+  const queryKey = [`/api/organizations/${organizationId}/permissions`];
+  const [draft, setDraft] = useState<Matrix | null>(null);
+
+  const { data, isLoading } = useQuery<PermissionMatrixResponse>({
+    queryKey,
+    enabled: !!organizationId && canManage,
+  });
+
+  useEffect(() => {
+    if (data) setDraft(data.matrix);
+  }, [data]);
+
+  const onSuccess = (title: string) => (result: PermissionMatrixResponse) => {
+    queryClient.setQueryData(queryKey, result);
+    queryClient.invalidateQueries({ queryKey: ["/api/auth/me"] });
+    toast({ title });
+  };
+
+  const onError = (error: Error) => {
+    toast({
+      title: "Erro ao salvar permissões",
+      description: getApiErrorMessage(error, "Tente novamente"),
+      variant: "destructive",
+    });
+  };
+
+  const saveMutation = useMutation<PermissionMatrixResponse, Error, Matrix>({
+    mutationFn: (matrix) =>
+      apiRequest("PUT", `/api/organizations/${organizationId}/permissions`, {
+        organization: { admin: matrix.organization.admin, member: matrix.organization.member },
+        project: matrix.project,
+      }),
+    onSuccess: onSuccess("Permissões salvas"),
+    onError,
+  });
+
+  const resetMutation = useMutation<PermissionMatrixResponse, Error>({
+    mutationFn: () => apiRequest("DELETE", `/api/organizations/${organizationId}/permissions`),
+    onSuccess: onSuccess("Permissões padrão restauradas"),
+    onError,
+  });
+
+  if (!canManage) return null;
+
+  const toggle = <S extends keyof Matrix>(scope: S, role: keyof Matrix[S], permission: string, checked: boolean) => {
+    if (!draft) return;
+    const current = draft[scope][role] as unknown as string[];
+    const next = checked ? [...current, permission] : current.filter((item) => item !== permission);
+    setDraft({ ...draft, [scope]: { ...draft[scope], [role]: next } });
+  };
+
+  const renderTable = <S extends keyof Matrix>(
+    scope: S,
+    permissions: Record<string, string>,
+    roleLabels: Record<string, string>
+  ) => (
+    <Table>
+      <TableHeader>
+        <TableRow>
+          <TableHead>Permissão</TableHead>
+          {Object.entries(roleLabels).map(([role, label]) => (
+            <TableHead key={role} className="w-[120px] text-center">{label}</TableHead>
+          ))}
+        </TableRow>
+      </TableHeader>
+      <TableBody>
+        {Object.entries(permissions).map(([permission, description]) => (
+          <TableRow key={permission}>
+            <TableCell>
+              <div className="text-sm">{description}</div>
+              <div className="font-mono text-xs text-gray-500">{permission}</div>
+            </TableCell>
+            {Object.keys(roleLabels).map((role) => {
+              const granted = draft?.[scope]?.[role as keyof Matrix[S]] as unknown as string[] | undefined;
+              // Owner e "Alterar a matriz" são fixos
+              const fixed = role === "owner" || permission === "permission.manage";
+              return (
+                <TableCell key={role} className="text-center">
+                  <Checkbox
+                    checked={!!granted?.includes(permission)}
+                    disabled={fixed}
+                    onCheckedChange={(checked) => toggle(scope, role as keyof Matrix[S], permission, checked === true)}
+                  />
+                </TableCell>
+              );
+            })}
+          </TableRow>
+        ))}
+      </TableBody>
+    </Table>
+  );
+
+  return (
+    <Card>
+      <CardHeader className="flex flex-row items-start justify-between space-y-0">
+        <div className="space-y-1.5">
+          <CardTitle className="flex items-center gap-2">
+            Permissões
+            {data?.customized && <Badge variant="outline">Personalizada</Badge>}
+          </CardTitle>
+          <CardDescription>
+            Defina o que cada papel pode fazer na organização e nos projetos
+          </CardDescription>
+        </div>
+        <div className="flex gap-2">
+          <Button
+            variant="outline"
+            size="sm"
+            disabled={!data?.customized || resetMutation.isPending}
+            onClick={() => resetMutation.mutate()}
+          >
+            <RotateCcw className="mr-2 h-4 w-4" />
+            Restaurar padrão
+          </Button>
+          <Button
+            size="sm"
+            disabled={!draft || saveMutation.isPending}
+            onClick={() => draft && saveMutation.mutate(draft)}
+          >
+            {saveMutation.isPending ? (
+              <Loader2 className="mr-2 h-4 w-4 animate-spin" />
+            ) : (
+              <Save className="mr-2 h-4 w-4" />
+            )}
+            Salvar
+          </Button>
+        </div>
+      </CardHeader>
+      <CardContent className="space-y-6">
+        {isLoading || !draft ? (
+          <div className="flex justify-center py-6">
+            <Loader2 className="h-6 w-6 animate-spin text-primary" />
+          </div>
+        ) : (
+          <>
+            <div className="space-y-2">
+              <h3 className="text-sm font-medium">Organização</h3>
+              {renderTable("organization", ORGANIZATION_PERMISSIONS, organizationRoleLabels)}
+            </div>
+            <div className="space-y-2">
+              <h3 className="text-sm font-medium">Projetos</h3>
+              <p className="text-xs text-gray-500">
+                O criador do projeto atua como administrador dele
+              </p>
+              {renderTable("project", PROJECT_PERMISSIONS, projectRoleLabels)}
+            </div>
+          </>
+        )}
+      </CardContent>
+    </Card>
+  );
+}
@@ -0,0 +1,31 @@
+import { InputOTP, InputOTPGroup, InputOTPSlot } from "@/components/ui/input-otp";
+
+interface TwoFactorCodeInputProps {
+  value: string;
+  onChange: (value: string) => void;
+  onComplete?: (value: string) => void;
+  disabled?: boolean;
+}
+
+/**
+ * Campo de 6 dígitos para o código do aplicativo autenticador.
+ */
+export default function TwoFactorCodeInput({ value, onChange, onComplete, disabled }: TwoFactorCodeInputProps) {
+  return (
+    <InputOTP
+      maxLength={6}
+      value={value}
+      onChange={(next) => onChange(next.replace(/\D/g, ""))}
+      onComplete={onComplete}
+      disabled={disabled}
+      autoFocus
+      containerClassName="justify-center"
+    >
+      <InputOTPGroup>
+        {Array.from({ length: 6 }, (_, index) => (
+          <InputOTPSlot key={index} index={index} />
+        ))}
+      </InputOTPGroup>
+    </InputOTP>
+  );
+}
@@ -0,0 +1,262 @@
+import { useState } from "react";
+import { useQuery, useMutation } from "@tanstack/react-query";
+import { Copy, Loader2, ShieldCheck, ShieldOff } from "lucide-react";
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/ui/card";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { Badge } from "@/components/ui/badge";
+import { Separator } from "@/components/ui/separator";
+import { useToast } from "@/hooks/use-toast";
+import { apiRequest, getApiErrorMessage, queryClient } from "@/lib/queryClient";
+import TwoFactorCodeInput from "./TwoFactorCodeInput";
+
+interface TwoFactorStatus {
+  enabled: boolean;
+  pending: boolean;
+  recoveryCodesRemaining: number;
+  requiredByOrganization: boolean;
+}
+
+interface TwoFactorSetup {
+  secret: string;
+  otpauthUrl: string;
+  qrCode: string;
+}
+
+/**
+ * Cadastro e gerenciamento da verificação em duas etapas do usuário logado.
+ */
+export default function TwoFactorSettings() {
+  const { toast } = useToast();
+  const [setup, setSetup] = useState<TwoFactorSetup | null>(null);
+  const [code, setCode] = useState("");
+  const [password, setPassword] = useState("");
+  const [recoveryCodes, setRecoveryCodes] = useState<string[] | null>(null);
+
+  const { data: status, isLoading } = useQuery<TwoFactorStatus>({
+    queryKey: ["/api/auth/2fa"],
+  });
+
+  const refresh = () => {
+    queryClient.invalidateQueries({ queryKey: ["/api/auth/2fa"] });
+    queryClient.invalidateQueries({ queryKey: ["/api/auth/me"] });
+  };
+
+  const onError = (title: string) => (error: Error) => {
+    toast({ title, description: getApiErrorMessage(error, "Tente novamente"), variant: "destructive" });
+    setCode("");
+  };
+
+  const setupMutation = useMutation<TwoFactorSetup, Error>({
+    mutationFn: () => apiRequest("POST", "/api/auth/2fa/setup"),
+    onSuccess: (data) => {
+      setSetup(data);
+      setCode("");
+    },
+    onError: onError("Erro ao iniciar a configuração"),
+  });
+
+  const enableMutation = useMutation<{ recoveryCodes: string[] }, Error, string>({
+    mutationFn: (value) => apiRequest("POST", "/api/auth/2fa/enable", { code: value }),
+    onSuccess: (data) => {
+      setSetup(null);
+      setCode("");
+      setRecoveryCodes(data.recoveryCodes);
+      toast({ title: "Verificação em duas etapas ativada" });
+      refresh();
+    },
+    onError: onError("Código inválido"),
+  });
+
+  const regenerateMutation = useMutation<{ recoveryCodes: string[] }, Error, string>({
+    mutationFn: (value) => apiRequest("POST", "/api/auth/2fa/recovery-codes", { code: value }),
+    onSuccess: (data) => {
+      setCode("");
+      setRecoveryCodes(data.recoveryCodes);
+      refresh();
+    },
+    onError: onError("Erro ao gerar novos códigos"),
+  });
+
+  const disableMutation = useMutation<unknown, Error>({
+    mutationFn: () => apiRequest("POST", "/api/auth/2fa/disable", { password, code }),
+    onSuccess: () => {
+      setCode("");
+      setPassword("");
+      setRecoveryCodes(null);
+      toast({ title: "Verificação em duas etapas desativada" });
+      refresh();
+    },
+    onError: onError("Erro ao desativar"),
+  });
+
+  const copyRecoveryCodes = () => {
+    if (!recoveryCodes) return;
+    navigator.clipboard?.writeText(recoveryCodes.join("\n"));
+    toast({ title: "Códigos copiados" });
+  };
+
+  const renderRecoveryCodes = () => recoveryCodes && (
+    <div className="rounded-lg border border-amber-200 bg-amber-50 p-4 space-y-3">
+      <p className="text-sm text-amber-800">
+        Guarde estes códigos de recuperação em um local seguro. Cada código pode ser usado uma única vez
+        caso você perca acesso ao aplicativo autenticador. Eles não serão exibidos novamente.
+      </p>
+      <div className="grid grid-cols-2 gap-2 font-mono text-sm">
+        {recoveryCodes.map((recoveryCode) => (
+          <span key={recoveryCode}>{recoveryCode}</span>
+        ))}
+      </div>
+      <div className="flex gap-2">
+        <Button variant="outline" size="sm" onClick={copyRecoveryCodes}>
+          <Copy className="mr-2 h-4 w-4" />
+          Copiar
+        </Button>
+        <Button size="sm" onClick={() => setRecoveryCodes(null)}>
+          Já guardei os códigos
+        </Button>
+      </div>
+    </div>
+  );
+
+  const renderBody = () => {
+    if (isLoading || !status) {
+      return (
+        <div className="flex justify-center py-6">
+          <Loader2 className="h-6 w-6 animate-spin text-primary" />
+        </div>
+      );
+    }
+
+    if (setup) {
+      return (
+        <div className="space-y-4">
+          <p className="text-sm text-gray-600">
+            Escaneie o QR Code com um aplicativo autenticador (Google Authenticator, Authy, 1Password etc.)
+            e informe o código gerado para confirmar.
+          </p>
+          <div className="flex flex-col md:flex-row gap-6 items-center">
+            <img src={setup.qrCode} alt="QR Code da verificação em duas etapas" className="h-44 w-44 border rounded" />
+            <div className="space-y-2 text-sm">
+              <p className="text-gray-500">Não consegue escanear? Digite esta chave no aplicativo:</p>
+              <code className="block break-all rounded bg-gray-100 px-2 py-1">{setup.secret}</code>
+            </div>
+          </div>
+          <div className="space-y-3">
+            <Label>Código de verificação</Label>
+            <TwoFactorCodeInput
+              value={code}
+              onChange={setCode}
+              onComplete={(value) => enableMutation.mutate(value)}
+              disabled={enableMutation.isPending}
+            />
+          </div>
+          <div className="flex gap-2">
+            <Button disabled={code.length !== 6 || enableMutation.isPending} onClick={() => enableMutation.mutate(code)}>
+              {enableMutation.isPending && <Loader2 className="mr-2 h-4 w-4 animate-spin" />}
+              Confirmar e ativar
+            </Button>
+            <Button variant="ghost" onClick={() => setSetup(null)}>
+              Cancelar
+            </Button>
+          </div>
+        </div>
+      );
+    }
+
+    if (!status.enabled) {
+      return (
+        <div className="space-y-4">
+          {status.requiredByOrganization && (
+            <p className="text-sm text-amber-700">
+              Sua organização exige a verificação em duas etapas. Ative-a para continuar usando o sistema.
+            </p>
+          )}
+          <Button onClick={() => setupMutation.mutate()} disabled={setupMutation.isPending}>
+            {setupMutation.isPending ? (
+              <Loader2 className="mr-2 h-4 w-4 animate-spin" />
+            ) : (
+              <ShieldCheck className="mr-2 h-4 w-4" />
+            )}
+            Ativar verificação em duas etapas
+          </Button>
+        </div>
+      );
+    }
+
+    return (
+      <div className="space-y-6">
+        <div className="flex items-center gap-3">
+          <Badge className="bg-green-100 text-green-800 hover:bg-green-100">Ativa</Badge>
+          <span className="text-sm text-gray-500">
+            {status.recoveryCodesRemaining} códigos de recuperação disponíveis
+          </span>
+        </div>
+
+        <div className="space-y-2 max-w-sm">
+          <Label htmlFor="two-factor-code">Código do autenticador ou de recuperação</Label>
+          <Input
+            id="two-factor-code"
+            value={code}
+            onChange={(e) => setCode(e.target.value)}
+            placeholder="123456"
+          />
+        </div>
+
+        <div className="flex flex-wrap gap-2">
+          <Button
+            variant="outline"
+            disabled={!code.trim() || regenerateMutation.isPending}
+            onClick={() => regenerateMutation.mutate(code)}
+          >
+            {regenerateMutation.isPending && <Loader2 className="mr-2 h-4 w-4 animate-spin" />}
+            Gerar novos códigos de recuperação
+          </Button>
+        </div>
+
+        {!status.requiredByOrganization && (
+          <>
+            <Separator />
+            <div className="space-y-2 max-w-sm">
+              <Label htmlFor="two-factor-password">Senha atual (para desativar)</Label>
+              <Input
+                id="two-factor-password"
+                type="password"
+                value={password}
+                onChange={(e) => setPassword(e.target.value)}
+              />
+            </div>
+            <Button
+              variant="destructive"
+              disabled={!code.trim() || !password || disableMutation.isPending}
+              onClick={() => disableMutation.mutate()}
+            >
+              {disableMutation.isPending ? (
+                <Loader2 className="mr-2 h-4 w-4 animate-spin" />
+              ) : (
+                <ShieldOff className="mr-2 h-4 w-4" />
+              )}
+              Desativar verificação em duas etapas
+            </Button>
+          </>
+        )}
+      </div>
+    );
+  };
+
+  return (
+    <Card>
+      <CardHeader>
+        <CardTitle>Verificação em duas etapas</CardTitle>
+        <CardDescription>
+          Proteja sua conta exigindo um código do aplicativo autenticador além da senha
+        </CardDescription>
+      </CardHeader>
+      <CardContent className="space-y-6">
+        {renderRecoveryCodes()}
+        {renderBody()}
+      </CardContent>
+    </Card>
+  );
+}
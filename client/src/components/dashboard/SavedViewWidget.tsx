@@ -0,0 +1,103 @@
+import { useQuery } from "@tanstack/react-query";
+import { Link } from "wouter";
+import { Bookmark, Loader2 } from "lucide-react";
+import { motion } from "framer-motion";
+import { Card } from "@/components/ui/card";
+import { Button } from "@/components/ui/button";
+import { Progress } from "@/components/ui/progress";
+import TaskItem from "@/components/dashboard/TaskItem";
+import { apiRequest } from "@/lib/queryClient";
+import { listUrl } from "@/lib/pagination";
+import { transitions } from "@/lib/animations";
+import type { Page } from "@shared/pagination";
+import type { SavedViewSummary } from "@shared/views";
+
+const WIDGET_SIZE = 5;
+
+interface SavedViewWidgetProps {
+  view: SavedViewSummary;
+  projectNames: Map<number, string>;
+  onTaskStatusChange: (id: number, completed: boolean) => void;
+}
+
+/**
+ * Widget do dashboard com os primeiros resultados de uma visão salva.
+ * A chave começa por "/api/views", então alterar as visões também recarrega os widgets.
+ */
+export default function SavedViewWidget({ view, projectNames, onTaskStatusChange }: SavedViewWidgetProps) {
+  const resultsUrl = `/api/views/${view.id}/results`;
+  const { data: items = [], isLoading } = useQuery<any[]>({
+    queryKey: ["/api/views", view.id, "results"],
+    queryFn: async () => {
+      if (view.target === "projects") {
+        const projects = await apiRequest<any[]>("GET", resultsUrl);
+        return projects.slice(0, WIDGET_SIZE);
+      }
+      const page = await apiRequest<Page<any>>("GET", listUrl(resultsUrl, { limit: WIDGET_SIZE, sort: "dueDate" }));
+      return page.items;
+    },
+  });
+
+  return (
+    <Card className="overflow-hidden shadow-md border-0 bg-white dark:bg-gray-800">
+      <div className="py-4 px-5 border-b border-gray-100 dark:border-gray-700 bg-gray-50 dark:bg-gray-900 flex items-center justify-between">
+        <div className="flex items-center min-w-0">
+          <div className="h-8 w-1 bg-gradient-to-b from-primary to-indigo-500 rounded-full mr-3 shrink-0"></div>
+          <h3 className="text-lg font-semibold text-gray-800 dark:text-gray-200 truncate">{view.name}</h3>
+        </div>
+        <Button variant="link" size="sm" className="text-primary hover:text-indigo-700" asChild>
+          <Link href={`/${view.target}?view=${view.id}`}>Abrir visão</Link>
+        </Button>
+      </div>
+      <div className="p-5">
+        {isLoading ? (
+          <div className="flex justify-center items-center py-8">
+            <Loader2 className="h-8 w-8 animate-spin text-primary" />
+          </div>
+        ) : items.length === 0 ? (
+          <div className="text-center py-8">
+            <Bookmark className="h-8 w-8 mx-auto text-gray-400 mb-3" />
+            <p className="text-gray-500 dark:text-gray-400">
+              {view.target === "tasks" ? "Nenhuma tarefa nesta visão" : "Nenhum projeto nesta visão"}
+            </p>
+          </div>
+        ) : (
+          <div className="space-y-3">
+            {items.map((item: any, index: number) => (
+              <motion.div
+                key={item.id}
+                initial={{ opacity: 0, x: -10 }}
+                animate={{ opacity: 1, x: 0 }}
+                transition={{ delay: index * 0.1, ...transitions.default }}
+              >
+                {view.target === "tasks" ? (
+                  <TaskItem
+                    id={item.id}
+                    name={item.name}
+                    priority={item.priority}
+                    project={projectNames.get(item.projectId) || "Projeto"}
+                    dueDate={item.dueDate || new Date().toISOString()}
+                    completed={item.status === "completed"}
+                    tagIds={item.tagIds}
+                    onStatusChange={onTaskStatusChange}
+                  />
+                ) : (
+                  <Link
+                    href={`/projects/${item.id}`}
+                    className="block rounded-lg p-3 hover:bg-gray-50 dark:hover:bg-gray-700"
+                  >
+                    <div className="flex items-center justify-between mb-2">
+                      <span className="font-medium text-gray-800 dark:text-gray-200 truncate">{item.name}</span>
+                      <span className="text-xs text-gray-500 ml-2">{item.progress ?? 0}%</span>
+                    </div>
+                    <Progress value={item.progress ?? 0} className="h-1.5" />
+                  </Link>
+                )}
+              </motion.div>
+            ))}
+          </div>
+        )}
+      </div>
+    </Card>
+  );
+}
@@ -12,6 +12,7 @@ import { format } from "date-fns";
 import { ptBR } from "date-fns/locale";
 import { motion } from "framer-motion";
 import { transitions } from "@/lib/animations";
+import TaskTags from "@/components/tasks/TaskTags";
 
 interface TaskItemProps {
   id: number;
@@ -20,6 +21,7 @@ interface TaskItemProps {
   project: string;
   dueDate: string | Date;
   completed?: boolean;
+  tagIds?: number[];
   onStatusChange: (id: number, completed: boolean) => void;
   onEdit?: () => void;
   onDelete?: () => void;
@@ -33,6 +35,7 @@ export default function TaskItem({
   project,
   dueDate,
   completed = false,
+  tagIds = [],
   onStatusChange,
   onEdit,
   onDelete,
@@ -171,6 +174,7 @@ export default function TaskItem({
           <span className="mx-1 text-gray-300">•</span>
           <p className="text-xs text-gray-500">{formatDueDate(dueDate)}</p>
         </motion.div>
+        {tagIds.length > 0 && <TaskTags value={tagIds} readonly className="mt-1 gap-1" />}
       </div>
       <motion.div 
         className="flex-shrink-0 ml-3" 
@@ -2,7 +2,9 @@ import { useState } from "react";
 import { useQuery } from "@tanstack/react-query";
 import { useMutation } from "@tanstack/react-query";
 import { apiRequest, queryClient } from "@/lib/queryClient";
+import { usePaginatedList } from "@/lib/pagination";
 import { useToast } from "@/hooks/use-toast";
+import { useDebouncedValue } from "@/hooks/use-debounced-value";
 import { format } from "date-fns";
 import { ptBR } from "date-fns/locale";
 import {
@@ -15,6 +17,7 @@ import {
 } from "@/components/ui/table";
 import { Button } from "@/components/ui/button";
 import { Input } from "@/components/ui/input";
+import { LoadMore } from "@/components/ui/load-more";
 import {
   DropdownMenu,
   DropdownMenuContent,
@@ -35,12 +38,24 @@ export default function FileList({ projectId, taskId }: FileListProps) {
   const [fileToDelete, setFileToDelete] = useState<number | null>(null);
   const { toast } = useToast();
 
-  const { data: files, isLoading } = useQuery({
-    queryKey: taskId
-      ? [`/api/tasks/${taskId}/files`]
-      : [`/api/projects/${projectId}/files`],
+  const debouncedSearch = useDebouncedValue(searchTerm.trim());
+
+  // Arquivos da tarefa: lista completa, filtrada aqui
+  const taskFiles = useQuery<any[]>({
+    queryKey: [`/api/tasks/${taskId}/files`],
+    enabled: !!taskId,
   });
 
+  // Arquivos do projeto: paginados e filtrados no servidor
+  const projectFiles = usePaginatedList<any>(
+    `/api/projects/${projectId}/files`,
+    { filter: { search: debouncedSearch } },
+    { enabled: !taskId }
+  );
+
+  const files = taskId ? taskFiles.data : projectFiles.items;
+  const isLoading = taskId ? taskFiles.isLoading : projectFiles.isLoading;
+
   const deleteFileMutation = useMutation({
     mutationFn: async (fileId: number) => {
       const response = await apiRequest("DELETE", `/api/files/${fileId}`, undefined);
@@ -49,7 +64,7 @@ export default function FileList({ projectId, taskId }: FileListProps) {
     onSuccess: () => {
       toast({
         title: "Arquivo excluído",
-        description: "O arquivo foi removido com sucesso.",
+        description: "O arquivo foi movido para a lixeira.",
       });
       queryClient.invalidateQueries({
         queryKey: taskId
@@ -107,9 +122,9 @@ export default function FileList({ projectId, taskId }: FileListProps) {
     }
   };
 
-  const filteredFiles = files?.filter((file: any) => 
-    file.name.toLowerCase().includes(searchTerm.toLowerCase())
-  );
+  const filteredFiles = taskId
+    ? files?.filter((file: any) => file.name.toLowerCase().includes(searchTerm.toLowerCase()))
+    : files;
 
   if (isLoading) {
     return (
@@ -119,7 +134,7 @@ export default function FileList({ projectId, taskId }: FileListProps) {
     );
   }
 
-  if (!files || files.length === 0) {
+  if (!searchTerm && (!files || files.length === 0)) {
     return (
       <div className="text-center py-8 border-2 border-dashed rounded-lg border-gray-300">
         <FileText className="h-12 w-12 text-gray-400 mx-auto mb-3" />
@@ -196,12 +211,20 @@ export default function FileList({ projectId, taskId }: FileListProps) {
         </Table>
       </div>
 
+      {!taskId && (
+        <LoadMore
+          hasNextPage={projectFiles.hasNextPage}
+          isFetchingNextPage={projectFiles.isFetchingNextPage}
+          onLoadMore={() => projectFiles.fetchNextPage()}
+        />
+      )}
+
       <AlertDialog open={fileToDelete !== null} onOpenChange={(open) => !open && cancelDelete()}>
         <AlertDialogContent>
           <AlertDialogHeader>
             <AlertDialogTitle>Confirmar exclusão</AlertDialogTitle>
             <AlertDialogDescription>
-              Tem certeza que deseja excluir este arquivo? Esta ação não pode ser desfeita.
+              Tem certeza que deseja excluir este arquivo? Ele irá para a lixeira e poderá ser restaurado até o fim do prazo de retenção.
             </AlertDialogDescription>
           </AlertDialogHeader>
           <AlertDialogFooter>
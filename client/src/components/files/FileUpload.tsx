@@ -6,6 +6,7 @@ import { Progress } from "@/components/ui/progress";
 import { useToast } from "@/hooks/use-toast";
 import { useMutation } from "@tanstack/react-query";
 import { queryClient } from "@/lib/queryClient";
+import { tenantUrl } from "@/lib/tenant";
 import { UploadCloud, File, X, FileText, FileImage, FileArchive, FileCode } from "lucide-react";
 import { cn } from "@/lib/utils";
 
@@ -28,7 +29,7 @@ export default function FileUpload({ projectId, taskId, onSuccess }: FileUploadP
       
       // Create a promise to track the upload
       return new Promise((resolve, reject) => {
-        xhr.open("POST", `/api/projects/${projectId}/files`, true);
+        xhr.open("POST", tenantUrl(`/api/projects/${projectId}/files`), true);
         
         // Track upload progress
         xhr.upload.onprogress = (event) => {
@@ -42,7 +43,7 @@ export default function FileUpload({ projectId, taskId, onSuccess }: FileUploadP
           if (xhr.status >= 200 && xhr.status < 300) {
             resolve(JSON.parse(xhr.responseText));
           } else {
-            reject(new Error(`Upload failed with status ${xhr.status}: ${xhr.responseText}`));
+            reject(new Error(`${xhr.status}: ${xhr.responseText}`));
           }
         };
         
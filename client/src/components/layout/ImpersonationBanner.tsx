@@ -0,0 +1,46 @@
+import { useState } from "react";
+import { Loader2, LogOut, UserCheck } from "lucide-react";
+import { Button } from "@/components/ui/button";
+import { useAuth } from "@/contexts/AuthContext";
+
+/**
+ * Aviso fixo exibido enquanto um Super Admin acessa a conta de outro usuário.
+ */
+export default function ImpersonationBanner() {
+  const { user, endImpersonation } = useAuth();
+  const [isEnding, setIsEnding] = useState(false);
+
+  if (!user?.impersonator) return null;
+
+  const handleEnd = async () => {
+    setIsEnding(true);
+    try {
+      await endImpersonation();
+    } catch {
+      setIsEnding(false);
+    }
+  };
+
+  return (
+    <div className="sticky top-0 z-30 flex flex-wrap items-center justify-between gap-2 bg-amber-500 px-4 py-2 text-sm text-white shadow">
+      <div className="flex items-center gap-2">
+        <UserCheck className="h-4 w-4 shrink-0" />
+        <span>
+          Você está acessando a conta de <strong>{user.name}</strong> ({user.username})
+          {user.organization && <> em {user.organization.name}</>} como {user.impersonator.name}.
+          Todas as ações ficam registradas.
+        </span>
+      </div>
+      <Button
+        size="sm"
+        variant="secondary"
+        className="bg-white text-amber-700 hover:bg-amber-50"
+        disabled={isEnding}
+        onClick={handleEnd}
+      >
+        {isEnding ? <Loader2 className="mr-2 h-4 w-4 animate-spin" /> : <LogOut className="mr-2 h-4 w-4" />}
+        Voltar à minha conta
+      </Button>
+    </div>
+  );
+}
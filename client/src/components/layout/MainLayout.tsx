@@ -4,6 +4,8 @@ import { useLocation, useRouter } from "wouter";
 import Sidebar from "./Sidebar";
 import MobileNavbar from "./MobileNavbar";
 import Footer from "./Footer";
+import UpgradePlanDialog from "./UpgradePlanDialog";
+import ImpersonationBanner from "./ImpersonationBanner";
 import { useSidebar } from "@/contexts/SidebarContext";
 import { cn } from "@/lib/utils";
 import { Dialog, DialogContent, DialogHeader, DialogTitle, DialogDescription } from "@/components/ui/dialog";
@@ -220,14 +222,6 @@ function LoginForm({ onSubmit, isLoading }: LoginFormProps) {
             className="pl-10 bg-slate-50 border-slate-200 focus:border-blue-400"
           />
         </div>
-        <motion.p 
-          className="text-xs text-gray-500 ml-1"
-          initial={{ opacity: 0 }}
-          animate={{ opacity: 0.8 }}
-          transition={{ delay: 0.5 }}
-        >
-          Use admin/admin123 para o usuário padrão
-        </motion.p>
       </motion.div>
       
       <motion.div
@@ -263,6 +257,14 @@ export default function MainLayout({ children }: MainLayoutProps) {
   const { mobile, collapsed } = useSidebar();
   const [location, setLocation] = useLocation();
 
+  const handleModalLogin = async (username: string, password: string) => {
+    const result = await login(username, password);
+    if (result.twoFactorRequired) {
+      // A segunda etapa (código do autenticador) é feita na tela de login
+      setLocation("/login");
+    }
+  };
+
   // Protected routes logic
   useEffect(() => {
     if (!isLoading && !isAuthenticated) {
@@ -360,7 +362,7 @@ export default function MainLayout({ children }: MainLayoutProps) {
               </DialogHeader>
               
               <div className="mt-6 bg-white rounded-lg p-6 backdrop-blur-lg shadow-lg bg-opacity-10 border border-white border-opacity-20">
-                <LoginForm onSubmit={login} isLoading={isLoading} />
+                <LoginForm onSubmit={handleModalLogin} isLoading={isLoading} />
               </div>
             </motion.div>
           </div>
@@ -380,10 +382,12 @@ export default function MainLayout({ children }: MainLayoutProps) {
         >
           {isAuthenticated && (
             <>
+              <ImpersonationBanner />
               <div className="flex-grow">
                 {children}
               </div>
               <Footer />
+              <UpgradePlanDialog />
             </>
           )}
         </main>
@@ -0,0 +1,90 @@
+import { useQuery } from "@tanstack/react-query";
+import { Building2, Check, ChevronsUpDown } from "lucide-react";
+import { useAuth } from "@/contexts/AuthContext";
+import { cn } from "@/lib/utils";
+import {
+  DropdownMenu,
+  DropdownMenuContent,
+  DropdownMenuItem,
+  DropdownMenuLabel,
+  DropdownMenuSeparator,
+  DropdownMenuTrigger,
+} from "@/components/ui/dropdown-menu";
+
+interface UserOrganization {
+  id: number;
+  name: string;
+  slug: string;
+  logo?: string | null;
+  primaryColor?: string | null;
+  role: "owner" | "admin" | "member";
+  active: boolean;
+}
+
+const roleLabels: Record<UserOrganization["role"], string> = {
+  owner: "Proprietário",
+  admin: "Administrador",
+  member: "Membro",
+};
+
+interface OrganizationSwitcherProps {
+  collapsed?: boolean;
+}
+
+export default function OrganizationSwitcher({ collapsed }: OrganizationSwitcherProps) {
+  const { user, switchOrganization } = useAuth();
+
+  const { data: organizations } = useQuery<UserOrganization[]>({
+    queryKey: ["/api/auth/organizations"],
+    enabled: !!user,
+  });
+
+  // Só exibe o seletor quando o usuário participa de mais de uma organização
+  if (!organizations || organizations.length < 2) {
+    return null;
+  }
+
+  const activeOrganization = organizations.find((org) => org.active);
+
+  return (
+    <DropdownMenu>
+      <DropdownMenuTrigger asChild>
+        <button
+          className={cn(
+            "w-full flex items-center rounded-lg text-gray-300 hover:bg-gray-800 transition-colors",
+            collapsed ? "justify-center p-2" : "px-3 py-2"
+          )}
+          aria-label="Alternar organização"
+        >
+          <Building2 className="h-5 w-5 text-blue-400 flex-shrink-0" />
+          {!collapsed && (
+            <>
+              <span className="ml-3 text-sm truncate flex-grow text-left">
+                {activeOrganization?.name || "Selecionar organização"}
+              </span>
+              <ChevronsUpDown className="h-4 w-4 text-gray-500 flex-shrink-0" />
+            </>
+          )}
+        </button>
+      </DropdownMenuTrigger>
+      <DropdownMenuContent align="start" className="w-56">
+        <DropdownMenuLabel>Organizações</DropdownMenuLabel>
+        <DropdownMenuSeparator />
+        {organizations.map((org) => (
+          <DropdownMenuItem
+            key={org.id}
+            disabled={org.active}
+            onClick={() => switchOrganization(org.id)}
+            className="flex items-center"
+          >
+            <div className="flex flex-col flex-grow min-w-0">
+              <span className="truncate">{org.name}</span>
+              <span className="text-xs text-muted-foreground">{roleLabels[org.role]}</span>
+            </div>
+            {org.active && <Check className="h-4 w-4 ml-2 text-blue-500" />}
+          </DropdownMenuItem>
+        ))}
+      </DropdownMenuContent>
+    </DropdownMenu>
+  );
+}
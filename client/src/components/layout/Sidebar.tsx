@@ -20,8 +20,12 @@ import {
   Link2,
   Search,
   Shield,
+  Trash2,
+  Bookmark,
 } from "lucide-react";
 import { Avatar, AvatarFallback, AvatarImage } from "@/components/ui/avatar";
+import OrganizationSwitcher from "./OrganizationSwitcher";
+import type { SavedViewSummary } from "@shared/views";
 
 interface NavItemProps {
   href: string;
@@ -89,9 +93,8 @@ export default function Sidebar() {
   const [location] = useLocation();
   const { user } = useAuth();
   const { collapsed, mobile, mobileOpen, toggleCollapsed, setMobileOpen } = useSidebar();
-  // Usar dados hardcoded para simplificar
-  const organizationName = "LaunchRocket";
-  const organizationLogo = null;
+  const organizationName = user?.organization?.name || "LaunchRocket";
+  const organizationLogo = user?.organization?.logo || null;
 
   // Fetch recent projects
   const { data: projects, isLoading } = useQuery<any[]>({
@@ -101,6 +104,13 @@ export default function Sidebar() {
 
   const recentProjects = Array.isArray(projects) ? projects.slice(0, 3) : [];
 
+  // Visões salvas que o usuário fixou como atalho
+  const { data: views } = useQuery<SavedViewSummary[]>({
+    queryKey: ["/api/views"],
+    enabled: !!user,
+  });
+  const pinnedViews = (views ?? []).filter((view) => view.pinned && view.userId === user?.id);
+
   return (
     <>
       {/* Overlay for mobile */}
@@ -235,6 +245,9 @@ export default function Sidebar() {
         </div>
 
         <div className="py-4 h-[calc(100%-8rem)] overflow-y-auto">
+          <div className="px-4 pb-2">
+            <OrganizationSwitcher collapsed={collapsed} />
+          </div>
           <div className="px-4 py-2">
             {!collapsed && (
               <p className="text-xs uppercase tracking-wider text-gray-500 mb-2">Menu</p>
@@ -320,28 +333,59 @@ export default function Sidebar() {
               >
                 WhatsApp ChatBot
               </NavItem>
-              {user?.role === 'admin' && (
-                <>
-                  <NavItem
-                    href="/integrations"
-                    icon={<Link2 className="h-5 w-5" />}
-                    active={location.startsWith("/integrations")}
-                    collapsed={collapsed}
-                  >
-                    Integrações
-                  </NavItem>
+              {user?.permissions?.includes('integration.manage') && (
+                <NavItem
+                  href="/integrations"
+                  icon={<Link2 className="h-5 w-5" />}
+                  active={location.startsWith("/integrations")}
+                  collapsed={collapsed}
+                >
+                  Integrações
+                </NavItem>
+              )}
+              {user?.permissions?.includes('trash.manage') && (
+                <NavItem
+                  href="/trash"
+                  icon={<Trash2 className="h-5 w-5" />}
+                  active={location.startsWith("/trash")}
+                  collapsed={collapsed}
+                >
+                  Lixeira
+                </NavItem>
+              )}
+              {user?.isSuperAdmin && (
+                <NavItem
+                  href="/admin"
+                  icon={<Shield className="h-5 w-5" />}
+                  active={location.startsWith("/admin")}
+                  collapsed={collapsed}
+                >
+                  Super Admin
+                </NavItem>
+              )}
+            </nav>
+          </div>
+
+          {pinnedViews.length > 0 && (
+            <div className="px-4 py-2">
+              {!collapsed && (
+                <p className="text-xs uppercase tracking-wider text-gray-500 mb-2">Visões</p>
+              )}
+              <nav>
+                {pinnedViews.map((view) => (
                   <NavItem
-                    href="/admin"
-                    icon={<Shield className="h-5 w-5" />}
-                    active={location.startsWith("/admin")}
+                    key={view.id}
+                    href={`/${view.target}?view=${view.id}`}
+                    icon={<Bookmark className="h-5 w-5" />}
+                    active={false}
                     collapsed={collapsed}
                   >
-                    Super Admin
+                    {view.name}
                   </NavItem>
-                </>
-              )}
-            </nav>
-          </div>
+                ))}
+              </nav>
+            </div>
+          )}
 
           {!collapsed && (
             <div className="px-4 py-2 mt-6">
@@ -0,0 +1,81 @@
+import { useEffect, useState } from "react";
+import { useLocation } from "wouter";
+import { Rocket } from "lucide-react";
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogFooter,
+  DialogHeader,
+  DialogTitle,
+} from "@/components/ui/dialog";
+import { Button } from "@/components/ui/button";
+import { Progress } from "@/components/ui/progress";
+import { onPlanLimitError, PlanLimitError } from "@/lib/planLimits";
+
+const resourceLabels: Record<PlanLimitError["resource"], string> = {
+  projects: "Projetos",
+  users: "Usuários",
+  storage: "Armazenamento",
+};
+
+function formatUsage(error: PlanLimitError, value: number) {
+  if (error.resource === "storage") {
+    return `${(value / (1024 * 1024 * 1024)).toFixed(2)} GB`;
+  }
+  return value.toString();
+}
+
+/**
+ * Convite de upgrade exibido quando a API recusa uma operação por limite do plano.
+ */
+export default function UpgradePlanDialog() {
+  const [error, setError] = useState<PlanLimitError | null>(null);
+  const [, setLocation] = useLocation();
+
+  useEffect(() => onPlanLimitError(setError), []);
+
+  if (!error) return null;
+
+  const isInactive = error.code === "SUBSCRIPTION_INACTIVE";
+
+  return (
+    <Dialog open={!!error} onOpenChange={(open) => !open && setError(null)}>
+      <DialogContent className="sm:max-w-[425px]">
+        <DialogHeader>
+          <DialogTitle className="flex items-center gap-2">
+            <Rocket className="h-5 w-5 text-primary" />
+            {isInactive ? "Assinatura inativa" : "Limite do plano atingido"}
+          </DialogTitle>
+          <DialogDescription>{error.message}</DialogDescription>
+        </DialogHeader>
+
+        {!isInactive && error.limit !== null && (
+          <div className="space-y-2 py-2">
+            <div className="flex justify-between text-sm">
+              <span className="font-medium">{resourceLabels[error.resource]}</span>
+              <span className="text-gray-500">
+                {formatUsage(error, error.used)} de {formatUsage(error, error.limit)}
+              </span>
+            </div>
+            <Progress value={Math.min(100, (error.used / error.limit) * 100)} />
+          </div>
+        )}
+
+        <DialogFooter>
+          <Button variant="outline" onClick={() => setError(null)}>
+            Agora não
+          </Button>
+          <Button
+            onClick={() => {
+              setError(null);
+              setLocation(error.upgradeUrl);
+            }}
+          >
+            {isInactive ? "Regularizar assinatura" : "Fazer upgrade"}
+          </Button>
+        </DialogFooter>
+      </DialogContent>
+    </Dialog>
+  );
+}
@@ -0,0 +1,246 @@
+import { useState } from "react";
+import { useQuery, useMutation } from "@tanstack/react-query";
+import { Loader2, Merge, Trash2 } from "lucide-react";
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/ui/card";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from "@/components/ui/select";
+import {
+  Table,
+  TableBody,
+  TableCell,
+  TableHead,
+  TableHeader,
+  TableRow,
+} from "@/components/ui/table";
+import {
+  AlertDialog,
+  AlertDialogAction,
+  AlertDialogCancel,
+  AlertDialogContent,
+  AlertDialogDescription,
+  AlertDialogFooter,
+  AlertDialogHeader,
+  AlertDialogTitle,
+} from "@/components/ui/alert-dialog";
+import { useToast } from "@/hooks/use-toast";
+import { useAuth } from "@/contexts/AuthContext";
+import { apiRequest, getApiErrorMessage, queryClient } from "@/lib/queryClient";
+import { cn } from "@/lib/utils";
+import { MAX_TAG_NAME_LENGTH, TAG_COLORS, type TagColor, type TagSummary } from "@shared/tags";
+import { TagBadge, tagColorClasses } from "./TaskTags";
+
+const colorLabels: Record<TagColor, string> = {
+  blue: "Azul",
+  green: "Verde",
+  yellow: "Amarelo",
+  purple: "Roxo",
+  pink: "Rosa",
+  indigo: "Índigo",
+  red: "Vermelho",
+  orange: "Laranja",
+};
+
+/**
+ * Tags da organização: renomear, trocar a cor, mesclar e excluir.
+ * Visível para quem tem a permissão "tag.manage".
+ */
+export default function TagManager() {
+  const { toast } = useToast();
+  const { user } = useAuth();
+  const canManage = !!user?.permissions?.includes("tag.manage");
+  const [names, setNames] = useState<Record<number, string>>({});
+  const [merging, setMerging] = useState<{ source: TagSummary; target: TagSummary } | null>(null);
+  const [tagToDelete, setTagToDelete] = useState<TagSummary | null>(null);
+
+  const { data: tags = [], isLoading } = useQuery<TagSummary[]>({
+    queryKey: ["/api/tags"],
+    enabled: canManage,
+  });
+
+  const onSuccess = (title: string) => () => {
+    queryClient.invalidateQueries({ queryKey: ["/api/tags"] });
+    queryClient.invalidateQueries({ queryKey: ["/api/tasks"] });
+    toast({ title });
+  };
+
+  const onError = (title: string) => (error: Error) => {
+    toast({ title, description: getApiErrorMessage(error, "Tente novamente"), variant: "destructive" });
+  };
+
+  const updateTagMutation = useMutation<TagSummary, Error, { id: number; name?: string; color?: TagColor }>({
+    mutationFn: ({ id, ...data }) => apiRequest("PUT", `/api/tags/${id}`, data),
+    onSuccess: (tag) => {
+      setNames(({ [tag.id]: _, ...rest }) => rest);
+      onSuccess("Tag atualizada")();
+    },
+    onError: onError("Erro ao atualizar tag"),
+  });
+
+  const mergeTagsMutation = useMutation<TagSummary, Error, { source: TagSummary; target: TagSummary }>({
+    mutationFn: ({ source, target }) => apiRequest("POST", `/api/tags/${source.id}/merge`, { targetId: target.id }),
+    onSuccess: onSuccess("Tags mescladas"),
+    onError: onError("Erro ao mesclar tags"),
+    onSettled: () => setMerging(null),
+  });
+
+  const deleteTagMutation = useMutation<unknown, Error, TagSummary>({
+    mutationFn: (tag) => apiRequest("DELETE", `/api/tags/${tag.id}`),
+    onSuccess: onSuccess("Tag excluída"),
+    onError: onError("Erro ao excluir tag"),
+    onSettled: () => setTagToDelete(null),
+  });
+
+  const saveName = (tag: TagSummary) => {
+    const name = names[tag.id]?.trim();
+    if (name && name !== tag.name) {
+      updateTagMutation.mutate({ id: tag.id, name });
+    } else {
+      setNames(({ [tag.id]: _, ...rest }) => rest);
+    }
+  };
+
+  if (!canManage) return null;
+
+  return (
+    <Card>
+      <CardHeader>
+        <CardTitle>Tags de tarefas</CardTitle>
+        <CardDescription>
+          As tags valem para todas as tarefas da organização. Renomear ou mesclar altera as tarefas já classificadas.
+        </CardDescription>
+      </CardHeader>
+      <CardContent>
+        {isLoading ? (
+          <div className="flex justify-center py-6">
+            <Loader2 className="h-6 w-6 animate-spin text-primary" />
+          </div>
+        ) : tags.length === 0 ? (
+          <p className="text-sm text-gray-500">Nenhuma tag criada. As tags são criadas ao classificar as tarefas.</p>
+        ) : (
+          <Table>
+            <TableHeader>
+              <TableRow>
+                <TableHead>Nome</TableHead>
+                <TableHead>Cor</TableHead>
+                <TableHead className="text-right">Tarefas</TableHead>
+                <TableHead>Mesclar em</TableHead>
+                <TableHead />
+              </TableRow>
+            </TableHeader>
+            <TableBody>
+              {tags.map((tag) => (
+                <TableRow key={tag.id}>
+                  <TableCell>
+                    <Input
+                      value={names[tag.id] ?? tag.name}
+                      maxLength={MAX_TAG_NAME_LENGTH}
+                      className="h-8"
+                      onChange={(e) => setNames({ ...names, [tag.id]: e.target.value })}
+                      onBlur={() => saveName(tag)}
+                      onKeyDown={(e) => e.key === "Enter" && saveName(tag)}
+                    />
+                  </TableCell>
+                  <TableCell>
+                    <Select value={tag.color} onValueChange={(color) => updateTagMutation.mutate({ id: tag.id, color: color as TagColor })}>
+                      <SelectTrigger className="h-8 w-32">
+                        <SelectValue />
+                      </SelectTrigger>
+                      <SelectContent>
+                        {TAG_COLORS.map((color) => (
+                          <SelectItem key={color} value={color}>
+                            <span className={cn("inline-block h-3 w-3 rounded-full mr-2 align-middle", tagColorClasses[color])} />
+                            {colorLabels[color]}
+                          </SelectItem>
+                        ))}
+                      </SelectContent>
+                    </Select>
+                  </TableCell>
+                  <TableCell className="text-right">{tag.taskCount}</TableCell>
+                  <TableCell>
+                    <Select
+                      value=""
+                      onValueChange={(targetId) => {
+                        const target = tags.find((other) => String(other.id) === targetId);
+                        if (target) setMerging({ source: tag, target });
+                      }}
+                    >
+                      <SelectTrigger className="h-8 w-40">
+                        <Merge className="h-3.5 w-3.5 mr-1 text-gray-400" />
+                        <SelectValue placeholder="Escolher tag" />
+                      </SelectTrigger>
+                      <SelectContent>
+                        {tags.filter((other) => other.id !== tag.id).map((other) => (
+                          <SelectItem key={other.id} value={String(other.id)}>{other.name}</SelectItem>
+                        ))}
+                      </SelectContent>
+                    </Select>
+                  </TableCell>
+                  <TableCell className="text-right">
+                    <Button variant="ghost" size="sm" onClick={() => setTagToDelete(tag)}>
+                      <Trash2 className="h-4 w-4 text-red-500" />
+                    </Button>
+                  </TableCell>
+                </TableRow>
+              ))}
+            </TableBody>
+          </Table>
+        )}
+      </CardContent>
+
+      <AlertDialog open={!!merging} onOpenChange={(open) => !open && setMerging(null)}>
+        <AlertDialogContent>
+          <AlertDialogHeader>
+            <AlertDialogTitle>Mesclar tags</AlertDialogTitle>
+            <AlertDialogDescription asChild>
+              <div className="space-y-2">
+                <p>
+                  As tarefas com a tag abaixo passam a usar a tag de destino, e a tag de origem é excluída.
+                </p>
+                {merging && (
+                  <div className="flex items-center gap-2">
+                    <TagBadge tag={merging.source} />
+                    <span>→</span>
+                    <TagBadge tag={merging.target} />
+                  </div>
+                )}
+              </div>
+            </AlertDialogDescription>
+          </AlertDialogHeader>
+          <AlertDialogFooter>
+            <AlertDialogCancel>Cancelar</AlertDialogCancel>
+            <AlertDialogAction onClick={() => merging && mergeTagsMutation.mutate(merging)}>
+              Mesclar
+            </AlertDialogAction>
+          </AlertDialogFooter>
+        </AlertDialogContent>
+      </AlertDialog>
+
+      <AlertDialog open={!!tagToDelete} onOpenChange={(open) => !open && setTagToDelete(null)}>
+        <AlertDialogContent>
+          <AlertDialogHeader>
+            <AlertDialogTitle>Excluir tag</AlertDialogTitle>
+            <AlertDialogDescription>
+              A tag "{tagToDelete?.name}" será removida de {tagToDelete?.taskCount ?? 0} tarefa(s). Esta ação não pode ser desfeita.
+            </AlertDialogDescription>
+          </AlertDialogHeader>
+          <AlertDialogFooter>
+            <AlertDialogCancel>Cancelar</AlertDialogCancel>
+            <AlertDialogAction
+              className="bg-red-600 hover:bg-red-700"
+              onClick={() => tagToDelete && deleteTagMutation.mutate(tagToDelete)}
+            >
+              Excluir
+            </AlertDialogAction>
+          </AlertDialogFooter>
+        </AlertDialogContent>
+      </AlertDialog>
+    </Card>
+  );
+}
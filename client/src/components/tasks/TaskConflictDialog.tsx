@@ -0,0 +1,105 @@
+import { format } from "date-fns";
+import { ptBR } from "date-fns/locale";
+import { Loader2 } from "lucide-react";
+import { Button } from "@/components/ui/button";
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogFooter,
+  DialogHeader,
+  DialogTitle,
+} from "@/components/ui/dialog";
+import type { TaskFormValues } from "./TaskForm";
+
+// Campos comparados; as tags não fazem parte da versão da tarefa
+type ComparedField = Exclude<keyof TaskFormValues, "tagIds">;
+
+const fieldLabels: Record<ComparedField, string> = {
+  name: "Nome",
+  description: "Descrição",
+  priority: "Prioridade",
+  status: "Status",
+  projectId: "Projeto",
+  phaseId: "Fase",
+  assignedTo: "Responsável",
+  dueDate: "Prazo",
+  estimatedHours: "Horas estimadas",
+};
+
+const valueLabels: Record<string, string> = {
+  high: "Alta",
+  medium: "Média",
+  low: "Baixa",
+  todo: "A fazer",
+  in_progress: "Em andamento",
+  review: "Em revisão",
+  completed: "Concluído",
+};
+
+function formatValue(field: keyof TaskFormValues, value: unknown): string {
+  if (value === undefined || value === null || value === "") return "—";
+  if (field === "dueDate") return format(new Date(value as string | Date), "dd/MM/yyyy", { locale: ptBR });
+  if (field === "phaseId" || field === "assignedTo" || field === "projectId") return `#${value}`;
+  return valueLabels[String(value)] ?? String(value);
+}
+
+interface TaskConflictDialogProps {
+  changes: Partial<TaskFormValues> | null;
+  current: Record<string, any> | null;
+  onDiscard: () => void;
+  onOverwrite: () => void;
+  isLoading?: boolean;
+}
+
+/**
+ * Conflito de edição (409): compara as alterações do usuário com a versão salva por outra pessoa
+ * e permite descartar as próprias alterações ou sobrescrever a versão atual.
+ */
+export function TaskConflictDialog({ changes, current, onDiscard, onOverwrite, isLoading = false }: TaskConflictDialogProps) {
+  const fields = (Object.keys(changes || {}) as ComparedField[]).filter(
+    (field) => field in fieldLabels && formatValue(field, changes?.[field]) !== formatValue(field, current?.[field]),
+  );
+
+  return (
+    <Dialog open={!!changes && !!current} onOpenChange={(open) => !open && onDiscard()}>
+      <DialogContent className="sm:max-w-[600px]">
+        <DialogHeader>
+          <DialogTitle>A tarefa foi alterada por outra pessoa</DialogTitle>
+          <DialogDescription>
+            Enquanto você editava, uma nova versão foi salva. Compare as diferenças e escolha qual manter.
+          </DialogDescription>
+        </DialogHeader>
+
+        {fields.length ? (
+          <div className="rounded-md border text-sm">
+            <div className="grid grid-cols-3 gap-2 border-b bg-gray-50 px-3 py-2 font-medium">
+              <span>Campo</span>
+              <span>Suas alterações</span>
+              <span>Versão atual</span>
+            </div>
+            {fields.map((field) => (
+              <div key={field} className="grid grid-cols-3 gap-2 border-b px-3 py-2 last:border-b-0">
+                <span className="text-gray-500">{fieldLabels[field]}</span>
+                <span className="break-words">{formatValue(field, changes?.[field])}</span>
+                <span className="break-words">{formatValue(field, current?.[field])}</span>
+              </div>
+            ))}
+          </div>
+        ) : (
+          <p className="text-sm text-gray-500">Os campos que você alterou têm o mesmo valor na versão atual.</p>
+        )}
+
+        <DialogFooter>
+          <Button variant="outline" onClick={onDiscard} disabled={isLoading}>
+            Descartar minhas alterações
+          </Button>
+          <Button onClick={onOverwrite} disabled={isLoading}>
+            {isLoading && <Loader2 className="mr-2 h-4 w-4 animate-spin" />}
+            Sobrescrever com as minhas
+          </Button>
+        </DialogFooter>
+      </DialogContent>
+    </Dialog>
+  );
+}
@@ -0,0 +1,193 @@
+import { useState } from "react";
+import { Link } from "wouter";
+import { useMutation, useQuery } from "@tanstack/react-query";
+import { Loader2, Lock, Plus, X } from "lucide-react";
+import { Button } from "@/components/ui/button";
+import { Badge } from "@/components/ui/badge";
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from "@/components/ui/select";
+import { useToast } from "@/hooks/use-toast";
+import { apiRequest, getApiErrorMessage, queryClient } from "@/lib/queryClient";
+import {
+  DEPENDENCY_TYPES,
+  dependencyTypeLabels,
+  isDependencyBlocking,
+  type DependencyLink,
+  type DependencyType,
+  type TaskDependencies as TaskDependencyLinks,
+} from "@shared/dependencies";
+import type { Task } from "@shared/schema";
+
+const statusLabels: Record<Task["status"], string> = {
+  todo: "A fazer",
+  in_progress: "Em andamento",
+  review: "Em revisão",
+  completed: "Concluída",
+};
+
+// Dependências abertas em um erro 409 de mudança de status lançado por apiRequest
+export function getOpenBlockers(error: Error): DependencyLink[] | null {
+  const match = error.message.match(/^409: ([\s\S]*)$/);
+  if (!match) return null;
+  try {
+    return JSON.parse(match[1]).blockers ?? null;
+  } catch {
+    return null;
+  }
+}
+
+interface TaskDependenciesProps {
+  task: Task;
+}
+
+function DependencyRow({ link, open, onRemove, isRemoving }: {
+  link: DependencyLink;
+  open: boolean; // Ainda segura a tarefa bloqueada
+  onRemove: () => void;
+  isRemoving: boolean;
+}) {
+  return (
+    <div className="flex items-center gap-2 py-1.5">
+      {open && <Lock className="h-3.5 w-3.5 shrink-0 text-amber-500" />}
+      <Link href={`/tasks/${link.task.id}`} className="min-w-0 flex-1 truncate text-sm text-gray-700 hover:underline">
+        {link.task.name}
+      </Link>
+      <span className="text-xs text-gray-500">{dependencyTypeLabels[link.type]}</span>
+      <Badge variant="outline" className="text-xs">{statusLabels[link.task.status]}</Badge>
+      <Button variant="ghost" size="sm" className="h-6 w-6 p-0" onClick={onRemove} disabled={isRemoving}>
+        <X className="h-3.5 w-3.5 text-gray-400" />
+      </Button>
+    </div>
+  );
+}
+
+/**
+ * Bloqueadoras (de que a tarefa depende) e tarefas bloqueadas por ela, com o formulário
+ * para adicionar uma bloqueadora do mesmo projeto.
+ */
+export default function TaskDependencies({ task }: TaskDependenciesProps) {
+  const { toast } = useToast();
+  const [blockerTaskId, setBlockerTaskId] = useState("");
+  const [type, setType] = useState<DependencyType>("finish_to_start");
+
+  const { data: dependencies, isLoading } = useQuery<TaskDependencyLinks>({
+    queryKey: [`/api/tasks/${task.id}/dependencies`],
+  });
+
+  const { data: projectTasks = [] } = useQuery<Task[]>({
+    queryKey: [`/api/projects/${task.projectId}/tasks`],
+  });
+
+  const blockers = dependencies?.blockers ?? [];
+  const blocking = dependencies?.blocking ?? [];
+  const linkedIds = new Set([...blockers, ...blocking].map((link) => link.task.id));
+  const candidates = projectTasks.filter((other) => other.id !== task.id && !linkedIds.has(other.id));
+
+  // O vínculo aparece nas duas tarefas
+  const onChanged = () => {
+    queryClient.invalidateQueries({ predicate: (query) => String(query.queryKey[0]).endsWith("/dependencies") });
+  };
+
+  const addDependencyMutation = useMutation<DependencyLink, Error>({
+    mutationFn: () => apiRequest("POST", `/api/tasks/${task.id}/dependencies`, { blockerTaskId: Number(blockerTaskId), type }),
+    onSuccess: () => {
+      setBlockerTaskId("");
+      onChanged();
+    },
+    onError: (error) => {
+      toast({ title: "Erro ao adicionar dependência", description: getApiErrorMessage(error, "Tente novamente"), variant: "destructive" });
+    },
+  });
+
+  const removeDependencyMutation = useMutation<unknown, Error, DependencyLink>({
+    mutationFn: (link) => apiRequest("DELETE", `/api/tasks/${task.id}/dependencies/${link.id}`),
+    onSuccess: onChanged,
+    onError: (error) => {
+      toast({ title: "Erro ao remover dependência", description: getApiErrorMessage(error, "Tente novamente"), variant: "destructive" });
+    },
+  });
+
+  if (isLoading) {
+    return (
+      <div className="flex justify-center py-4">
+        <Loader2 className="h-5 w-5 animate-spin text-gray-400" />
+      </div>
+    );
+  }
+
+  return (
+    <div className="space-y-4">
+      <div>
+        <h3 className="text-sm font-medium text-gray-500 mb-1">Depende de</h3>
+        {blockers.length === 0 ? (
+          <p className="text-sm text-gray-500">Nenhuma tarefa bloqueadora</p>
+        ) : (
+          blockers.map((link) => (
+            <DependencyRow
+              key={link.id}
+              link={link}
+              open={isDependencyBlocking(link.type, link.task.status, "completed")}
+              onRemove={() => removeDependencyMutation.mutate(link)}
+              isRemoving={removeDependencyMutation.isPending}
+            />
+          ))
+        )}
+      </div>
+
+      <div>
+        <h3 className="text-sm font-medium text-gray-500 mb-1">Bloqueia</h3>
+        {blocking.length === 0 ? (
+          <p className="text-sm text-gray-500">Nenhuma tarefa depende desta</p>
+        ) : (
+          blocking.map((link) => (
+            <DependencyRow
+              key={link.id}
+              link={link}
+              open={isDependencyBlocking(link.type, task.status, "completed")}
+              onRemove={() => removeDependencyMutation.mutate(link)}
+              isRemoving={removeDependencyMutation.isPending}
+            />
+          ))
+        )}
+      </div>
+
+      <div className="flex flex-wrap items-center gap-2">
+        <Select value={blockerTaskId} onValueChange={setBlockerTaskId}>
+          <SelectTrigger className="h-8 min-w-[180px] flex-1">
+            <SelectValue placeholder="Adicionar bloqueadora..." />
+          </SelectTrigger>
+          <SelectContent>
+            {candidates.length === 0 && (
+              <p className="px-2 py-1.5 text-sm text-gray-500">Nenhuma outra tarefa no projeto</p>
+            )}
+            {candidates.map((other) => (
+              <SelectItem key={other.id} value={String(other.id)}>{other.name}</SelectItem>
+            ))}
+          </SelectContent>
+        </Select>
+        <Select value={type} onValueChange={(value) => setType(value as DependencyType)}>
+          <SelectTrigger className="h-8 w-44">
+            <SelectValue />
+          </SelectTrigger>
+          <SelectContent>
+            {DEPENDENCY_TYPES.map((dependencyType) => (
+              <SelectItem key={dependencyType} value={dependencyType}>{dependencyTypeLabels[dependencyType]}</SelectItem>
+            ))}
+          </SelectContent>
+        </Select>
+        <Button
+          size="sm"
+          onClick={() => addDependencyMutation.mutate()}
+          disabled={!blockerTaskId || addDependencyMutation.isPending}
+        >
+          {addDependencyMutation.isPending ? <Loader2 className="h-4 w-4 animate-spin" /> : <Plus className="h-4 w-4" />}
+        </Button>
+      </div>
+    </div>
+  );
+}
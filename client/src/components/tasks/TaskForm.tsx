@@ -5,7 +5,7 @@ import { Form, FormControl, FormField, FormItem, FormLabel, FormMessage } from "
 import { Input } from "@/components/ui/input";
 import { Textarea } from "@/components/ui/textarea";
 import { Button } from "@/components/ui/button";
-import { Loader2, CalendarIcon, Tag } from "lucide-react";
+import { Loader2, CalendarIcon } from "lucide-react";
 import {
   Select,
   SelectContent,
@@ -19,7 +19,7 @@ import { format } from "date-fns";
 import { ptBR } from "date-fns/locale";
 import { cn } from "@/lib/utils";
 import { useQuery } from "@tanstack/react-query";
-import { useState, useEffect } from "react";
+import { fetchAllPages } from "@/lib/pagination";
 import TaskTags from "./TaskTags";
 
 const priorityOptions = [
@@ -45,6 +45,8 @@ const formSchema = z.object({
   phaseId: z.number().optional().nullable(),
   assignedTo: z.number().optional().nullable(),
   dueDate: z.date().optional(),
+  estimatedHours: z.number().int().min(0, { message: "Informe um número de horas válido" }).optional().nullable(),
+  tagIds: z.array(z.number()).optional(),
 });
 
 export type TaskFormValues = z.infer<typeof formSchema>;
@@ -57,9 +59,6 @@ interface TaskFormProps {
 }
 
 export function TaskForm({ defaultValues, onSubmit, projectId, isLoading = false }: TaskFormProps) {
-  // Estado para as tags
-  const [tags, setTags] = useState<string[]>([]);
-  
   // Initialize the form with default values
   const form = useForm<TaskFormValues>({
     resolver: zodResolver(formSchema),
@@ -72,19 +71,11 @@ export function TaskForm({ defaultValues, onSubmit, projectId, isLoading = false
       phaseId: defaultValues?.phaseId || null,
       assignedTo: defaultValues?.assignedTo || null,
       dueDate: defaultValues?.dueDate,
+      estimatedHours: defaultValues?.estimatedHours ?? null,
+      tagIds: defaultValues?.tagIds || [],
     },
   });
   
-  // Função customizada de submissão para incluir as tags
-  const handleSubmit = (values: TaskFormValues) => {
-    // Em um ambiente de produção, você enviaria as tags junto com os valores
-    // Para a demo, vamos apenas mostrar como seria a integração
-    console.log("Tags selecionadas:", tags);
-    
-    // Chamar a função onSubmit original
-    onSubmit(values);
-  };
-
   // Fetch all projects
   const { data: projectsData } = useQuery({
     queryKey: ["/api/projects"],
@@ -105,7 +96,8 @@ export function TaskForm({ defaultValues, onSubmit, projectId, isLoading = false
 
   // Fetch team members
   const { data: usersData } = useQuery({
-    queryKey: ["/api/users"],
+    queryKey: ["/api/users", "all"],
+    queryFn: () => fetchAllPages<any>("/api/users"),
     enabled: true,
   });
   
@@ -114,7 +106,7 @@ export function TaskForm({ defaultValues, onSubmit, projectId, isLoading = false
 
   return (
     <Form {...form}>
-      <form onSubmit={form.handleSubmit(handleSubmit)} className="space-y-6">
+      <form onSubmit={form.handleSubmit(onSubmit)} className="space-y-6">
         <FormField
           control={form.control}
           name="name"
@@ -303,60 +295,86 @@ export function TaskForm({ defaultValues, onSubmit, projectId, isLoading = false
           )}
         </div>
 
+        <div className="grid grid-cols-1 md:grid-cols-2 gap-4">
+          <FormField
+            control={form.control}
+            name="dueDate"
+            render={({ field }) => (
+              <FormItem className="flex flex-col">
+                <FormLabel>Data de Conclusão</FormLabel>
+                <Popover>
+                  <PopoverTrigger asChild>
+                    <FormControl>
+                      <Button
+                        variant={"outline"}
+                        className={cn(
+                          "w-full pl-3 text-left font-normal",
+                          !field.value && "text-muted-foreground"
+                        )}
+                      >
+                        {field.value ? (
+                          format(field.value, "PPP", { locale: ptBR })
+                        ) : (
+                          <span>Selecione uma data</span>
+                        )}
+                        <CalendarIcon className="ml-auto h-4 w-4 opacity-50" />
+                      </Button>
+                    </FormControl>
+                  </PopoverTrigger>
+                  <PopoverContent className="w-auto p-0" align="start">
+                    <Calendar
+                      mode="single"
+                      selected={field.value}
+                      onSelect={field.onChange}
+                      initialFocus
+                      locale={ptBR}
+                    />
+                  </PopoverContent>
+                </Popover>
+                <FormMessage />
+              </FormItem>
+            )}
+          />
+
+          <FormField
+            control={form.control}
+            name="estimatedHours"
+            render={({ field }) => (
+              <FormItem>
+                <FormLabel>Horas Estimadas</FormLabel>
+                <FormControl>
+                  <Input
+                    type="number"
+                    min={0}
+                    placeholder="Ex: 8"
+                    value={field.value ?? ""}
+                    onChange={(e) => field.onChange(e.target.value === "" ? null : parseInt(e.target.value))}
+                    disabled={isLoading}
+                  />
+                </FormControl>
+                <FormMessage />
+              </FormItem>
+            )}
+          />
+        </div>
+
         <FormField
           control={form.control}
-          name="dueDate"
+          name="tagIds"
           render={({ field }) => (
-            <FormItem className="flex flex-col">
-              <FormLabel>Data de Conclusão</FormLabel>
-              <Popover>
-                <PopoverTrigger asChild>
-                  <FormControl>
-                    <Button
-                      variant={"outline"}
-                      className={cn(
-                        "w-full pl-3 text-left font-normal",
-                        !field.value && "text-muted-foreground"
-                      )}
-                    >
-                      {field.value ? (
-                        format(field.value, "PPP", { locale: ptBR })
-                      ) : (
-                        <span>Selecione uma data</span>
-                      )}
-                      <CalendarIcon className="ml-auto h-4 w-4 opacity-50" />
-                    </Button>
-                  </FormControl>
-                </PopoverTrigger>
-                <PopoverContent className="w-auto p-0" align="start">
-                  <Calendar
-                    mode="single"
-                    selected={field.value}
-                    onSelect={field.onChange}
-                    initialFocus
-                    locale={ptBR}
-                  />
-                </PopoverContent>
-              </Popover>
+            <FormItem>
+              <FormLabel>Tags</FormLabel>
+              <div className="bg-white border rounded-md p-3">
+                <TaskTags value={field.value ?? []} onChange={field.onChange} />
+                <p className="text-xs text-muted-foreground mt-2">
+                  Adicione tags para categorizar e facilitar a busca da tarefa.
+                </p>
+              </div>
               <FormMessage />
             </FormItem>
           )}
         />
 
-        <div className="space-y-2">
-          <FormLabel>Tags</FormLabel>
-          <div className="bg-white border rounded-md p-3">
-            <TaskTags
-              initialTags={[]}
-              onChange={setTags}
-              maxTags={8}
-            />
-            <p className="text-xs text-muted-foreground mt-2">
-              Adicione tags para categorizar e facilitar a busca da tarefa.
-            </p>
-          </div>
-        </div>
-
         <Button type="submit" className="w-full" disabled={isLoading}>
           {isLoading && <Loader2 className="mr-2 h-4 w-4 animate-spin" />}
           {defaultValues?.name ? "Atualizar Tarefa" : "Criar Tarefa"}
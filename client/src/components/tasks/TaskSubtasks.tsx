@@ -0,0 +1,127 @@
+import { useState } from "react";
+import { Link } from "wouter";
+import { useMutation, useQuery } from "@tanstack/react-query";
+import { Clock, Loader2, Plus } from "lucide-react";
+import { Button } from "@/components/ui/button";
+import { Badge } from "@/components/ui/badge";
+import { Input } from "@/components/ui/input";
+import { Progress } from "@/components/ui/progress";
+import { useToast } from "@/hooks/use-toast";
+import { apiRequest, getApiErrorMessage, queryClient } from "@/lib/queryClient";
+import type { Task } from "@shared/schema";
+import type { TaskRollup } from "@shared/subtasks";
+
+type TaskWithRollup = Task & { rollup?: TaskRollup };
+
+const statusLabels: Record<Task["status"], string> = {
+  todo: "A fazer",
+  in_progress: "Em andamento",
+  review: "Em revisão",
+  completed: "Concluída",
+};
+
+// Atualiza a tarefa, as subtarefas e as listas depois de mudar a hierarquia
+export function invalidateSubtasks(task: Task) {
+  queryClient.invalidateQueries({ queryKey: [`/api/tasks/${task.id}`] });
+  queryClient.invalidateQueries({ queryKey: [`/api/tasks/${task.id}/subtasks`] });
+  queryClient.invalidateQueries({ queryKey: [`/api/projects/${task.projectId}/tasks`] });
+  queryClient.invalidateQueries({ queryKey: ["/api/tasks"] });
+}
+
+interface TaskSubtasksProps {
+  task: TaskWithRollup;
+}
+
+/**
+ * Subtarefas diretas da tarefa, com o consolidado de todos os níveis e o campo
+ * para criar uma subtarefa na mesma fase.
+ */
+export default function TaskSubtasks({ task }: TaskSubtasksProps) {
+  const { toast } = useToast();
+  const [name, setName] = useState("");
+
+  const { data: subtasks = [], isLoading } = useQuery<TaskWithRollup[]>({
+    queryKey: [`/api/tasks/${task.id}/subtasks`],
+  });
+
+  const createSubtaskMutation = useMutation<Task, Error, string>({
+    mutationFn: (subtaskName) => apiRequest("POST", `/api/projects/${task.projectId}/tasks`, {
+      name: subtaskName,
+      parentTaskId: task.id,
+      phaseId: task.phaseId,
+    }),
+    onSuccess: () => {
+      setName("");
+      invalidateSubtasks(task);
+    },
+    onError: (error) => {
+      toast({ title: "Erro ao criar subtarefa", description: getApiErrorMessage(error, "Tente novamente"), variant: "destructive" });
+    },
+  });
+
+  const handleCreate = () => {
+    if (name.trim()) createSubtaskMutation.mutate(name.trim());
+  };
+
+  const rollup = task.rollup;
+
+  return (
+    <div className="space-y-4">
+      {rollup && rollup.subtaskCount > 0 && (
+        <div>
+          <div className="flex justify-between text-sm mb-1">
+            <span>{rollup.completedSubtasks} de {rollup.subtaskCount} subtarefas concluídas</span>
+            <Badge variant="outline">{statusLabels[rollup.status]}</Badge>
+          </div>
+          <Progress value={(rollup.completedSubtasks / rollup.subtaskCount) * 100} className="h-2" />
+          {rollup.estimatedHours !== null && (
+            <p className="flex items-center text-xs text-gray-500 mt-2">
+              <Clock className="h-3 w-3 mr-1" />
+              {rollup.estimatedHours}h estimadas nas subtarefas
+            </p>
+          )}
+        </div>
+      )}
+
+      {isLoading ? (
+        <div className="flex justify-center py-4">
+          <Loader2 className="h-5 w-5 animate-spin text-gray-400" />
+        </div>
+      ) : subtasks.length === 0 ? (
+        <p className="text-sm text-gray-500">Nenhuma subtarefa</p>
+      ) : (
+        <div className="divide-y">
+          {subtasks.map((subtask) => (
+            <div key={subtask.id} className="flex items-center gap-2 py-2">
+              <Link href={`/tasks/${subtask.id}`} className="min-w-0 flex-1 truncate text-sm text-gray-700 hover:underline">
+                {subtask.name}
+              </Link>
+              {!!subtask.rollup?.subtaskCount && (
+                <span className="text-xs text-gray-500">
+                  {subtask.rollup.completedSubtasks}/{subtask.rollup.subtaskCount}
+                </span>
+              )}
+              <Badge variant="outline" className="text-xs">{statusLabels[subtask.status]}</Badge>
+            </div>
+          ))}
+        </div>
+      )}
+
+      <div className="flex items-center space-x-2">
+        <Input
+          placeholder="Nova subtarefa..."
+          value={name}
+          onChange={(e) => setName(e.target.value)}
+          onKeyDown={(e) => {
+            if (e.key === "Enter") {
+              handleCreate();
+            }
+          }}
+        />
+        <Button size="sm" onClick={handleCreate} disabled={!name.trim() || createSubtaskMutation.isPending}>
+          {createSubtaskMutation.isPending ? <Loader2 className="h-4 w-4 animate-spin" /> : <Plus className="h-4 w-4" />}
+        </Button>
+      </div>
+    </div>
+  );
+}
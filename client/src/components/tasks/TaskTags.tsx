@@ -1,64 +1,105 @@
 import React, { useState } from "react";
+import { useMutation, useQuery } from "@tanstack/react-query";
 import { Badge } from "@/components/ui/badge";
 import { Input } from "@/components/ui/input";
 import { Button } from "@/components/ui/button";
-import { XCircle, Plus, Tag } from "lucide-react";
+import { XCircle, Plus, Tag, Loader2 } from "lucide-react";
 import { motion, AnimatePresence } from "framer-motion";
 import { transitions } from "@/lib/animations";
 import { cn } from "@/lib/utils";
+import { useToast } from "@/hooks/use-toast";
+import { apiRequest, getApiErrorMessage, queryClient } from "@/lib/queryClient";
+import { MAX_TASK_TAGS, tagNameKey, type TagColor, type TagSummary } from "@shared/tags";
 
 interface TaskTagsProps {
-  initialTags?: string[];
-  onChange?: (tags: string[]) => void;
+  value?: number[]; // Ids das tags da tarefa
+  onChange?: (tagIds: number[]) => void;
   readonly?: boolean;
   className?: string;
   maxTags?: number;
 }
 
-const tagColors = [
-  "bg-blue-100 text-blue-800",
-  "bg-green-100 text-green-800",
-  "bg-yellow-100 text-yellow-800",
-  "bg-purple-100 text-purple-800",
-  "bg-pink-100 text-pink-800",
-  "bg-indigo-100 text-indigo-800",
-  "bg-red-100 text-red-800",
-  "bg-orange-100 text-orange-800",
-];
+// Classes de cada cor salva na tag (TAG_COLORS)
+export const tagColorClasses: Record<TagColor, string> = {
+  blue: "bg-blue-100 text-blue-800",
+  green: "bg-green-100 text-green-800",
+  yellow: "bg-yellow-100 text-yellow-800",
+  purple: "bg-purple-100 text-purple-800",
+  pink: "bg-pink-100 text-pink-800",
+  indigo: "bg-indigo-100 text-indigo-800",
+  red: "bg-red-100 text-red-800",
+  orange: "bg-orange-100 text-orange-800",
+};
 
+export function TagBadge({ tag, className, children }: { tag: TagSummary; className?: string; children?: React.ReactNode }) {
+  return (
+    <Badge className={cn("py-1 px-2 hover:opacity-90", tagColorClasses[tag.color] ?? tagColorClasses.blue, className)}>
+      <Tag className="h-3 w-3 mr-1" />
+      {tag.name}
+      {children}
+    </Badge>
+  );
+}
+
+/**
+ * Tags de uma tarefa, escolhidas entre as tags da organização. Um nome que ainda
+ * não existe cria a tag ao ser adicionado.
+ */
 export default function TaskTags({
-  initialTags = [],
+  value = [],
   onChange,
   readonly = false,
   className,
-  maxTags = 10
+  maxTags = MAX_TASK_TAGS
 }: TaskTagsProps) {
-  const [tags, setTags] = useState<string[]>(initialTags);
+  const { toast } = useToast();
   const [inputValue, setInputValue] = useState("");
   const [showInput, setShowInput] = useState(false);
 
-  const getTagColor = (tag: string) => {
-    // Generate a consistent color based on the tag name
-    const index = tag.split("").reduce((acc, char) => acc + char.charCodeAt(0), 0) % tagColors.length;
-    return tagColors[index];
-  };
+  const { data: allTags = [] } = useQuery<TagSummary[]>({
+    queryKey: ["/api/tags"],
+  });
+  const tagsById = new Map(allTags.map((tag) => [tag.id, tag]));
+  const selectedTags = value.map((id) => tagsById.get(id)).filter((tag): tag is TagSummary => !!tag);
 
-  const handleAddTag = () => {
-    if (inputValue.trim() === "" || tags.length >= maxTags) return;
-    
-    const newTag = inputValue.trim();
-    if (!tags.includes(newTag)) {
-      const updatedTags = [...tags, newTag];
-      setTags(updatedTags);
-      if (onChange) onChange(updatedTags);
+  const key = tagNameKey(inputValue);
+  const suggestions = key
+    ? allTags.filter((tag) => !value.includes(tag.id) && tagNameKey(tag.name).includes(key)).slice(0, 6)
+    : [];
+
+  const addTag = (tag: TagSummary) => {
+    if (!value.includes(tag.id) && value.length < maxTags) {
+      onChange?.([...value, tag.id]);
     }
-    
     setInputValue("");
-    if (tags.length + 1 >= maxTags) {
+    if (value.length + 1 >= maxTags) {
       setShowInput(false);
     }
   };
 
+  const createTagMutation = useMutation<TagSummary, Error, string>({
+    mutationFn: (name) => apiRequest("POST", "/api/tags", { name }),
+    onSuccess: (tag) => {
+      queryClient.setQueryData<TagSummary[]>(["/api/tags"], (tags = []) => [...tags, tag]);
+      queryClient.invalidateQueries({ queryKey: ["/api/tags"] });
+      addTag(tag);
+    },
+    onError: (error) => {
+      toast({ title: "Erro ao criar tag", description: getApiErrorMessage(error, "Tente novamente"), variant: "destructive" });
+    },
+  });
+
+  const handleAddTag = () => {
+    if (key === "" || value.length >= maxTags) return;
+
+    const existing = allTags.find((tag) => tagNameKey(tag.name) === key);
+    if (existing) {
+      addTag(existing);
+    } else {
+      createTagMutation.mutate(inputValue.trim());
+    }
+  };
+
   const handleKeyDown = (e: React.KeyboardEvent) => {
     if (e.key === "Enter") {
       e.preventDefault();
@@ -70,37 +111,34 @@ export default function TaskTags({
     }
   };
 
-  const handleRemoveTag = (tagToRemove: string) => {
-    const updatedTags = tags.filter(tag => tag !== tagToRemove);
-    setTags(updatedTags);
-    if (onChange) onChange(updatedTags);
+  const handleRemoveTag = (tagId: number) => {
+    onChange?.(value.filter((id) => id !== tagId));
   };
 
   return (
     <div className={cn("flex flex-wrap gap-2 items-center", className)}>
       <AnimatePresence>
-        {tags.map(tag => (
+        {selectedTags.map(tag => (
           <motion.div
-            key={tag}
+            key={tag.id}
             initial={{ opacity: 0, scale: 0.8 }}
             animate={{ opacity: 1, scale: 1 }}
             exit={{ opacity: 0, scale: 0.8 }}
             transition={transitions.quick}
           >
-            <Badge className={cn("py-1 px-2", getTagColor(tag))}>
-              <Tag className="h-3 w-3 mr-1" />
-              {tag}
+            <TagBadge tag={tag}>
               {!readonly && (
                 <Button
+                  type="button"
                   variant="ghost"
                   size="sm"
                   className="h-4 w-4 p-0 ml-1 text-gray-600 hover:text-gray-900"
-                  onClick={() => handleRemoveTag(tag)}
+                  onClick={() => handleRemoveTag(tag.id)}
                 >
                   <XCircle className="h-3 w-3" />
                 </Button>
               )}
-            </Badge>
+            </TagBadge>
           </motion.div>
         ))}
       </AnimatePresence>
@@ -113,7 +151,7 @@ export default function TaskTags({
               animate={{ width: "auto", opacity: 1 }}
               exit={{ width: 0, opacity: 0 }}
               transition={transitions.quick}
-              className="flex items-center gap-1"
+              className="flex flex-wrap items-center gap-1"
             >
               <Input
                 value={inputValue}
@@ -125,21 +163,29 @@ export default function TaskTags({
                 autoFocus
               />
               <Button
+                type="button"
                 size="sm"
                 variant="ghost"
                 onClick={handleAddTag}
+                disabled={createTagMutation.isPending}
                 className="h-8 px-2"
               >
-                <Plus className="h-4 w-4" />
+                {createTagMutation.isPending ? <Loader2 className="h-4 w-4 animate-spin" /> : <Plus className="h-4 w-4" />}
               </Button>
+              {suggestions.map((tag) => (
+                <button key={tag.id} type="button" onMouseDown={(e) => e.preventDefault()} onClick={() => addTag(tag)}>
+                  <TagBadge tag={tag} className="cursor-pointer" />
+                </button>
+              ))}
             </motion.div>
           ) : (
-            tags.length < maxTags && (
+            value.length < maxTags && (
               <motion.div
                 whileHover={{ scale: 1.05 }}
                 whileTap={{ scale: 0.95 }}
               >
                 <Button
+                  type="button"
                   variant="outline"
                   size="sm"
                   onClick={() => setShowInput(true)}
@@ -155,4 +201,4 @@ export default function TaskTags({
       )}
     </div>
   );
-}
\ No newline at end of file
+}
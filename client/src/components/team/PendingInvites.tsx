@@ -0,0 +1,279 @@
+import { useState } from "react";
+import { useQuery, useMutation } from "@tanstack/react-query";
+import { zodResolver } from "@hookform/resolvers/zod";
+import { useForm } from "react-hook-form";
+import { z } from "zod";
+import { format } from "date-fns";
+import { ptBR } from "date-fns/locale";
+import { apiRequest, queryClient } from "@/lib/queryClient";
+import { useToast } from "@/hooks/use-toast";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Card } from "@/components/ui/card";
+import {
+  Table,
+  TableBody,
+  TableCell,
+  TableHead,
+  TableHeader,
+  TableRow,
+} from "@/components/ui/table";
+import {
+  Dialog,
+  DialogContent,
+  DialogHeader,
+  DialogTitle,
+} from "@/components/ui/dialog";
+import {
+  Form,
+  FormControl,
+  FormField,
+  FormItem,
+  FormLabel,
+  FormMessage,
+} from "@/components/ui/form";
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from "@/components/ui/select";
+import { Loader2, Mail, RefreshCw, X } from "lucide-react";
+
+interface Invitation {
+  id: number;
+  inviteEmail: string;
+  role: "owner" | "admin" | "member";
+  inviteStatus: string;
+  inviteExpiresAt: string | null;
+  expired: boolean;
+}
+
+const inviteFormSchema = z.object({
+  email: z.string().email("Email inválido"),
+  role: z.enum(["admin", "member"]),
+});
+
+type InviteFormValues = z.infer<typeof inviteFormSchema>;
+
+const orgRoleLabels: Record<string, string> = {
+  owner: "Proprietário",
+  admin: "Administrador",
+  member: "Membro",
+};
+
+interface PendingInvitesProps {
+  organizationId: number;
+}
+
+/**
+ * Lista de convites pendentes da organização, com envio, reenvio e revogação.
+ */
+export default function PendingInvites({ organizationId }: PendingInvitesProps) {
+  const [isInviteDialogOpen, setIsInviteDialogOpen] = useState(false);
+  const { toast } = useToast();
+  const invitesKey = [`/api/organizations/${organizationId}/invites`];
+
+  const { data: invites, isLoading } = useQuery<Invitation[]>({
+    queryKey: invitesKey,
+  });
+
+  const form = useForm<InviteFormValues>({
+    resolver: zodResolver(inviteFormSchema),
+    defaultValues: {
+      email: "",
+      role: "member",
+    },
+  });
+
+  const inviteMutation = useMutation({
+    mutationFn: (data: InviteFormValues) =>
+      apiRequest("POST", `/api/organizations/${organizationId}/invites`, data),
+    onSuccess: () => {
+      setIsInviteDialogOpen(false);
+      form.reset();
+      queryClient.invalidateQueries({ queryKey: invitesKey });
+      toast({
+        title: "Convite enviado",
+        description: "O convite foi enviado por email",
+      });
+    },
+    onError: (error: Error) => {
+      toast({
+        title: "Erro ao enviar convite",
+        description: error.message || "Ocorreu um erro ao enviar o convite",
+        variant: "destructive",
+      });
+    },
+  });
+
+  const resendMutation = useMutation({
+    mutationFn: (inviteId: number) =>
+      apiRequest("POST", `/api/organizations/${organizationId}/invites/${inviteId}/resend`),
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: invitesKey });
+      toast({
+        title: "Convite reenviado",
+        description: "Um novo link foi enviado e o anterior deixou de valer",
+      });
+    },
+    onError: (error: Error) => {
+      toast({
+        title: "Erro ao reenviar convite",
+        description: error.message,
+        variant: "destructive",
+      });
+    },
+  });
+
+  const revokeMutation = useMutation({
+    mutationFn: (inviteId: number) =>
+      apiRequest("DELETE", `/api/organizations/${organizationId}/invites/${inviteId}`),
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: invitesKey });
+      toast({
+        title: "Convite revogado",
+        description: "O link do convite não pode mais ser utilizado",
+      });
+    },
+    onError: (error: Error) => {
+      toast({
+        title: "Erro ao revogar convite",
+        description: error.message,
+        variant: "destructive",
+      });
+    },
+  });
+
+  return (
+    <Card className="p-6 mb-6">
+      <div className="flex justify-between items-center mb-4">
+        <div>
+          <h3 className="text-lg font-semibold text-gray-800">Convites pendentes</h3>
+          <p className="text-sm text-gray-500">
+            Pessoas convidadas que ainda não aceitaram o convite
+          </p>
+        </div>
+        <Button variant="outline" onClick={() => setIsInviteDialogOpen(true)}>
+          <Mail className="h-4 w-4 mr-2" />
+          Convidar por email
+        </Button>
+      </div>
+
+      {isLoading ? (
+        <div className="flex justify-center py-6">
+          <Loader2 className="h-6 w-6 animate-spin text-primary" />
+        </div>
+      ) : !invites || invites.length === 0 ? (
+        <p className="text-sm text-gray-500 text-center py-6">Nenhum convite pendente</p>
+      ) : (
+        <Table>
+          <TableHeader>
+            <TableRow>
+              <TableHead>Email</TableHead>
+              <TableHead>Função</TableHead>
+              <TableHead>Expira em</TableHead>
+              <TableHead className="text-right">Ações</TableHead>
+            </TableRow>
+          </TableHeader>
+          <TableBody>
+            {invites.map((invite) => (
+              <TableRow key={invite.id}>
+                <TableCell className="font-medium">{invite.inviteEmail}</TableCell>
+                <TableCell>{orgRoleLabels[invite.role] || invite.role}</TableCell>
+                <TableCell>
+                  {invite.expired ? (
+                    <span className="text-red-600 text-sm">Expirado</span>
+                  ) : invite.inviteExpiresAt ? (
+                    format(new Date(invite.inviteExpiresAt), "dd/MM/yyyy HH:mm", { locale: ptBR })
+                  ) : (
+                    "-"
+                  )}
+                </TableCell>
+                <TableCell className="text-right">
+                  <div className="flex justify-end space-x-2">
+                    <Button
+                      variant="ghost"
+                      size="icon"
+                      title="Reenviar convite"
+                      disabled={resendMutation.isPending}
+                      onClick={() => resendMutation.mutate(invite.id)}
+                    >
+                      <RefreshCw className="h-4 w-4" />
+                    </Button>
+                    <Button
+                      variant="ghost"
+                      size="icon"
+                      title="Revogar convite"
+                      className="text-red-600 hover:text-red-800"
+                      disabled={revokeMutation.isPending}
+                      onClick={() => revokeMutation.mutate(invite.id)}
+                    >
+                      <X className="h-4 w-4" />
+                    </Button>
+                  </div>
+                </TableCell>
+              </TableRow>
+            ))}
+          </TableBody>
+        </Table>
+      )}
+
+      <Dialog open={isInviteDialogOpen} onOpenChange={setIsInviteDialogOpen}>
+        <DialogContent className="sm:max-w-[425px]">
+          <DialogHeader>
+            <DialogTitle>Convidar Membro</DialogTitle>
+          </DialogHeader>
+          <Form {...form}>
+            <form onSubmit={form.handleSubmit((data) => inviteMutation.mutate(data))} className="space-y-4">
+              <FormField
+                control={form.control}
+                name="email"
+                render={({ field }) => (
+                  <FormItem>
+                    <FormLabel>Email</FormLabel>
+                    <FormControl>
+                      <Input type="email" placeholder="email@exemplo.com" {...field} />
+                    </FormControl>
+                    <FormMessage />
+                  </FormItem>
+                )}
+              />
+              <FormField
+                control={form.control}
+                name="role"
+                render={({ field }) => (
+                  <FormItem>
+                    <FormLabel>Função</FormLabel>
+                    <Select onValueChange={field.onChange} defaultValue={field.value}>
+                      <FormControl>
+                        <SelectTrigger>
+                          <SelectValue placeholder="Selecione uma função" />
+                        </SelectTrigger>
+                      </FormControl>
+                      <SelectContent>
+                        <SelectItem value="admin">Administrador</SelectItem>
+                        <SelectItem value="member">Membro</SelectItem>
+                      </SelectContent>
+                    </Select>
+                    <FormMessage />
+                  </FormItem>
+                )}
+              />
+              <div className="flex justify-end space-x-2 pt-4">
+                <Button type="button" variant="outline" onClick={() => setIsInviteDialogOpen(false)}>
+                  Cancelar
+                </Button>
+                <Button type="submit" disabled={inviteMutation.isPending}>
+                  {inviteMutation.isPending && <Loader2 className="mr-2 h-4 w-4 animate-spin" />}
+                  Enviar convite
+                </Button>
+              </div>
+            </form>
+          </Form>
+        </DialogContent>
+      </Dialog>
+    </Card>
+  );
+}
@@ -0,0 +1,24 @@
+import { Loader2 } from "lucide-react";
+import { Button } from "@/components/ui/button";
+import { cn } from "@/lib/utils";
+
+interface LoadMoreProps {
+  hasNextPage: boolean;
+  isFetchingNextPage: boolean;
+  onLoadMore: () => void;
+  className?: string;
+}
+
+// Botão "Carregar mais" das listagens paginadas (usePaginatedList)
+export function LoadMore({ hasNextPage, isFetchingNextPage, onLoadMore, className }: LoadMoreProps) {
+  if (!hasNextPage) return null;
+
+  return (
+    <div className={cn("flex justify-center py-4", className)}>
+      <Button variant="outline" size="sm" onClick={onLoadMore} disabled={isFetchingNextPage}>
+        {isFetchingNextPage && <Loader2 className="mr-2 h-4 w-4 animate-spin" />}
+        Carregar mais
+      </Button>
+    </div>
+  );
+}
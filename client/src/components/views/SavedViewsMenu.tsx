@@ -0,0 +1,224 @@
+import { useState } from "react";
+import { useMutation, useQuery } from "@tanstack/react-query";
+import { Bookmark, LayoutDashboard, Loader2, Pin, PinOff, Plus, Share2, X } from "lucide-react";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { Checkbox } from "@/components/ui/checkbox";
+import {
+  DropdownMenu,
+  DropdownMenuContent,
+  DropdownMenuItem,
+  DropdownMenuLabel,
+  DropdownMenuSeparator,
+  DropdownMenuTrigger,
+} from "@/components/ui/dropdown-menu";
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogFooter,
+  DialogHeader,
+  DialogTitle,
+} from "@/components/ui/dialog";
+import { useToast } from "@/hooks/use-toast";
+import { useAuth } from "@/contexts/AuthContext";
+import { apiRequest, getApiErrorMessage, queryClient } from "@/lib/queryClient";
+import {
+  MAX_SAVED_VIEW_NAME_LENGTH,
+  type SavedViewFilters,
+  type SavedViewSummary,
+  type SavedViewTarget,
+} from "@shared/views";
+
+interface SavedViewsMenuProps {
+  target: SavedViewTarget;
+  filters: SavedViewFilters; // Filtros atuais da tela, usados ao salvar
+  onApply: (view: SavedViewSummary) => void;
+}
+
+/**
+ * Menu de visões salvas de tarefas ou projetos: aplicar, salvar os filtros atuais,
+ * fixar na barra lateral, mostrar como widget no dashboard e excluir as próprias visões.
+ */
+export function SavedViewsMenu({ target, filters, onApply }: SavedViewsMenuProps) {
+  const { toast } = useToast();
+  const { user } = useAuth();
+  const [isSaveDialogOpen, setIsSaveDialogOpen] = useState(false);
+  const [name, setName] = useState("");
+  const [shared, setShared] = useState(false);
+  const [pinned, setPinned] = useState(false);
+  const [onDashboard, setOnDashboard] = useState(false);
+
+  const { data: views = [] } = useQuery<SavedViewSummary[]>({
+    queryKey: ["/api/views"],
+  });
+  const targetViews = views.filter((view) => view.target === target);
+
+  const onError = (title: string) => (error: Error) => {
+    toast({ title, description: getApiErrorMessage(error, "Tente novamente"), variant: "destructive" });
+  };
+
+  const createViewMutation = useMutation<SavedViewSummary, Error>({
+    mutationFn: () => apiRequest("POST", "/api/views", { name, target, filters, shared, pinned, onDashboard }),
+    onSuccess: (view) => {
+      setIsSaveDialogOpen(false);
+      queryClient.invalidateQueries({ queryKey: ["/api/views"] });
+      toast({ title: "Visão salva", description: view.name });
+    },
+    onError: onError("Erro ao salvar visão"),
+  });
+
+  const togglePinMutation = useMutation<SavedViewSummary, Error, SavedViewSummary>({
+    mutationFn: (view) => apiRequest("PUT", `/api/views/${view.id}`, { pinned: !view.pinned }),
+    onSuccess: () => queryClient.invalidateQueries({ queryKey: ["/api/views"] }),
+    onError: onError("Erro ao atualizar visão"),
+  });
+
+  const toggleDashboardMutation = useMutation<SavedViewSummary, Error, SavedViewSummary>({
+    mutationFn: (view) => apiRequest("PUT", `/api/views/${view.id}`, { onDashboard: !view.onDashboard }),
+    onSuccess: () => queryClient.invalidateQueries({ queryKey: ["/api/views"] }),
+    onError: onError("Erro ao atualizar visão"),
+  });
+
+  const deleteViewMutation = useMutation<unknown, Error, SavedViewSummary>({
+    mutationFn: (view) => apiRequest("DELETE", `/api/views/${view.id}`),
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: ["/api/views"] });
+      toast({ title: "Visão excluída" });
+    },
+    onError: onError("Erro ao excluir visão"),
+  });
+
+  const openSaveDialog = () => {
+    setName("");
+    setShared(false);
+    setPinned(false);
+    setOnDashboard(false);
+    setIsSaveDialogOpen(true);
+  };
+
+  return (
+    <>
+      <DropdownMenu>
+        <DropdownMenuTrigger asChild>
+          <Button variant="outline">
+            <Bookmark className="h-4 w-4 mr-2" />
+            Visões
+          </Button>
+        </DropdownMenuTrigger>
+        <DropdownMenuContent align="end" className="w-72">
+          <DropdownMenuLabel>Visões salvas</DropdownMenuLabel>
+          {targetViews.length === 0 && (
+            <p className="px-2 py-1.5 text-sm text-gray-500">Nenhuma visão salva</p>
+          )}
+          {targetViews.map((view) => {
+            const isOwner = view.userId === user?.id;
+            return (
+              <DropdownMenuItem key={view.id} onClick={() => onApply(view)} className="flex items-center gap-2">
+                <div className="min-w-0 flex-1">
+                  <div className="flex items-center gap-1 truncate">
+                    {view.shared && <Share2 className="h-3 w-3 shrink-0 text-gray-400" />}
+                    <span className="truncate">{view.name}</span>
+                  </div>
+                  {!isOwner && view.ownerName && (
+                    <div className="text-xs text-gray-500">por {view.ownerName}</div>
+                  )}
+                </div>
+                {isOwner && (
+                  <>
+                    <button
+                      type="button"
+                      className="text-gray-400 hover:text-gray-700"
+                      title={view.pinned ? "Remover da barra lateral" : "Fixar na barra lateral"}
+                      onClick={(event) => {
+                        event.stopPropagation();
+                        togglePinMutation.mutate(view);
+                      }}
+                    >
+                      {view.pinned ? <PinOff className="h-3.5 w-3.5" /> : <Pin className="h-3.5 w-3.5" />}
+                    </button>
+                    <button
+                      type="button"
+                      className={view.onDashboard ? "text-primary hover:text-indigo-700" : "text-gray-400 hover:text-gray-700"}
+                      title={view.onDashboard ? "Remover do dashboard" : "Mostrar no dashboard"}
+                      onClick={(event) => {
+                        event.stopPropagation();
+                        toggleDashboardMutation.mutate(view);
+                      }}
+                    >
+                      <LayoutDashboard className="h-3.5 w-3.5" />
+                    </button>
+                    <button
+                      type="button"
+                      className="text-gray-400 hover:text-red-600"
+                      title="Excluir visão"
+                      onClick={(event) => {
+                        event.stopPropagation();
+                        deleteViewMutation.mutate(view);
+                      }}
+                    >
+                      <X className="h-3.5 w-3.5" />
+                    </button>
+                  </>
+                )}
+              </DropdownMenuItem>
+            );
+          })}
+          <DropdownMenuSeparator />
+          <DropdownMenuItem onClick={openSaveDialog}>
+            <Plus className="h-4 w-4 mr-2" />
+            Salvar filtros atuais
+          </DropdownMenuItem>
+        </DropdownMenuContent>
+      </DropdownMenu>
+
+      <Dialog open={isSaveDialogOpen} onOpenChange={setIsSaveDialogOpen}>
+        <DialogContent className="sm:max-w-[440px]">
+          <DialogHeader>
+            <DialogTitle>Salvar visão</DialogTitle>
+            <DialogDescription>
+              Os filtros atuais ficam salvos com um nome. Períodos como "este mês" são recalculados sempre que a visão é aberta.
+            </DialogDescription>
+          </DialogHeader>
+          <form
+            className="space-y-4"
+            onSubmit={(event) => {
+              event.preventDefault();
+              createViewMutation.mutate();
+            }}
+          >
+            <div className="space-y-2">
+              <Label htmlFor="saved-view-name">Nome</Label>
+              <Input
+                id="saved-view-name"
+                value={name}
+                maxLength={MAX_SAVED_VIEW_NAME_LENGTH}
+                placeholder="Ex: Minhas tarefas atrasadas de alta prioridade"
+                onChange={(event) => setName(event.target.value)}
+              />
+            </div>
+            <div className="flex items-center gap-2">
+              <Checkbox id="saved-view-shared" checked={shared} onCheckedChange={(checked) => setShared(checked === true)} />
+              <Label htmlFor="saved-view-shared" className="font-normal">Compartilhar com a organização</Label>
+            </div>
+            <div className="flex items-center gap-2">
+              <Checkbox id="saved-view-pinned" checked={pinned} onCheckedChange={(checked) => setPinned(checked === true)} />
+              <Label htmlFor="saved-view-pinned" className="font-normal">Mostrar como atalho na barra lateral</Label>
+            </div>
+            <div className="flex items-center gap-2">
+              <Checkbox id="saved-view-dashboard" checked={onDashboard} onCheckedChange={(checked) => setOnDashboard(checked === true)} />
+              <Label htmlFor="saved-view-dashboard" className="font-normal">Mostrar como widget no dashboard</Label>
+            </div>
+            <DialogFooter>
+              <Button type="submit" disabled={!name.trim() || createViewMutation.isPending}>
+                {createViewMutation.isPending && <Loader2 className="mr-2 h-4 w-4 animate-spin" />}
+                Salvar
+              </Button>
+            </DialogFooter>
+          </form>
+        </DialogContent>
+      </Dialog>
+    </>
+  );
+}
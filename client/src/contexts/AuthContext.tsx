@@ -2,6 +2,24 @@ import { createContext, useContext, useState, useEffect, ReactNode } from "react
 import { useQuery, useMutation } from "@tanstack/react-query";
 import { useToast } from "@/hooks/use-toast";
 import { useLocation } from "wouter";
+import { apiRequest, getApiErrorMessage, queryClient } from "@/lib/queryClient";
+import { tenantBase, tenantUrl } from "@/lib/tenant";
+import type { OrganizationPermission } from "@shared/permissions";
+
+export interface ActiveOrganization {
+  id: number;
+  name: string;
+  slug: string;
+  logo?: string | null;
+  primaryColor?: string | null;
+}
+
+// Super Admin que está acessando a conta de outro usuário (suporte)
+export interface Impersonator {
+  id: number;
+  name: string;
+  username: string;
+}
 
 interface User {
   id: number;
@@ -10,22 +28,52 @@ interface User {
   email: string;
   role: string;
   avatar?: string;
+  organization?: ActiveOrganization | null;
+  organizationRole?: "owner" | "admin" | "member" | null;
+  // Permissões do papel na organização ativa (matriz da organização)
+  permissions?: OrganizationPermission[];
+  twoFactorEnabled?: boolean;
+  twoFactorSetupRequired?: boolean;
+  isSuperAdmin?: boolean;
+  impersonator?: Impersonator | null;
+}
+
+interface ImpersonationResponse {
+  message: string;
+  organization: ActiveOrganization | null;
+}
+
+// Resposta do login quando a conta exige o código do segundo fator
+interface TwoFactorChallenge {
+  twoFactorRequired: true;
+}
+
+export interface LoginResult {
+  twoFactorRequired: boolean;
 }
 
 interface AuthContextType {
   user: User | null;
   isLoading: boolean;
   isAuthenticated: boolean;
-  login: (username: string, password: string) => Promise<void>;
+  login: (username: string, password: string) => Promise<LoginResult>;
+  verifyTwoFactor: (code: string) => Promise<void>;
   logout: () => Promise<void>;
+  switchOrganization: (organizationId: number) => Promise<void>;
+  impersonate: (userId: number) => Promise<void>;
+  endImpersonation: () => Promise<void>;
 }
 
 const AuthContext = createContext<AuthContextType>({
   user: null,
   isLoading: true,
   isAuthenticated: false,
-  login: async () => {},
+  login: async () => ({ twoFactorRequired: false }),
+  verifyTwoFactor: async () => {},
   logout: async () => {},
+  switchOrganization: async () => {},
+  impersonate: async () => {},
+  endImpersonation: async () => {},
 });
 
 export const useAuth = () => useContext(AuthContext);
@@ -40,7 +88,7 @@ export const AuthProvider = ({ children }: { children: ReactNode }) => {
     queryKey: ["/api/auth/me"],
     queryFn: async () => {
       try {
-        const response = await fetch("/api/auth/me", {
+        const response = await fetch(tenantUrl("/api/auth/me"), {
           method: "GET",
           credentials: "include"
         });
@@ -63,14 +111,24 @@ export const AuthProvider = ({ children }: { children: ReactNode }) => {
     }
   }, [data]);
 
+  const handleLoginSuccess = (data: User) => {
+    setUser(data);
+    // Recarregar o usuário com o contexto da organização ativa
+    queryClient.invalidateQueries({ queryKey: ["/api/auth/me"] });
+    toast({
+      title: "Login realizado com sucesso",
+      description: `Bem-vindo, ${data.name}!`,
+    });
+  };
+
   // Login mutation
   const loginMutation = useMutation<
-    User, 
+    User | TwoFactorChallenge, 
     Error, 
     { username: string; password: string }
   >({
     mutationFn: async ({ username, password }) => {
-      const response = await fetch("/api/auth/login", {
+      const response = await fetch(tenantUrl("/api/auth/login"), {
         method: "POST",
         headers: { "Content-Type": "application/json" },
         body: JSON.stringify({ username, password }),
@@ -83,11 +141,11 @@ export const AuthProvider = ({ children }: { children: ReactNode }) => {
       return response.json();
     },
     onSuccess: (data) => {
-      setUser(data);
-      toast({
-        title: "Login realizado com sucesso",
-        description: `Bem-vindo, ${data.name}!`,
-      });
+      // Com verificação em duas etapas o login só termina após o código
+      if ("twoFactorRequired" in data) {
+        return;
+      }
+      handleLoginSuccess(data);
     },
     onError: (error: Error) => {
       toast({
@@ -98,11 +156,17 @@ export const AuthProvider = ({ children }: { children: ReactNode }) => {
     },
   });
 
+  // Segunda etapa do login (código do autenticador ou de recuperação)
+  const twoFactorMutation = useMutation<User, Error, string>({
+    mutationFn: (code) => apiRequest("POST", "/api/auth/login/2fa", { code }),
+    onSuccess: handleLoginSuccess,
+  });
+
   // Logout mutation
   const logoutMutation = useMutation<any, Error, void>({
     mutationFn: async () => {
       try {
-        const response = await fetch("/api/auth/logout", {
+        const response = await fetch(tenantUrl("/api/auth/logout"), {
           method: "POST",
           credentials: "include"
         });
@@ -147,20 +211,98 @@ export const AuthProvider = ({ children }: { children: ReactNode }) => {
     },
   });
 
-  const login = async (username: string, password: string) => {
-    await loginMutation.mutateAsync({ username, password });
+  // Alternar organização ativa
+  const switchOrganizationMutation = useMutation<
+    { organization: ActiveOrganization },
+    Error,
+    number
+  >({
+    mutationFn: (organizationId) =>
+      apiRequest("POST", "/api/auth/organizations/switch", { organizationId }),
+    onSuccess: async (data) => {
+      // Todos os dados em cache pertencem ao tenant anterior
+      await queryClient.resetQueries();
+      setLocation("/");
+      toast({
+        title: "Organização alterada",
+        description: `Você está trabalhando em ${data.organization.name}`,
+      });
+    },
+    onError: (error: Error) => {
+      toast({
+        title: "Erro ao alternar organização",
+        description: error.message,
+        variant: "destructive",
+      });
+    },
+  });
+
+  // Acesso como outro usuário: o app é recarregado no endereço da organização da conta,
+  // pois o tenant do cliente é definido no carregamento da página
+  const reloadInOrganization = (data: ImpersonationResponse, path: string) => {
+    const base = tenantBase && data.organization ? `/o/${data.organization.slug}` : tenantBase;
+    window.location.assign(`${base}${path}`);
+  };
+
+  const impersonateMutation = useMutation<ImpersonationResponse, Error, number>({
+    mutationFn: (userId) => apiRequest("POST", `/api/admin/users/${userId}/impersonate`),
+    onSuccess: (data) => reloadInOrganization(data, "/"),
+    onError: (error: Error) => {
+      toast({
+        title: "Erro ao acessar a conta",
+        description: getApiErrorMessage(error, "Tente novamente"),
+        variant: "destructive",
+      });
+    },
+  });
+
+  const endImpersonationMutation = useMutation<ImpersonationResponse, Error, void>({
+    mutationFn: () => apiRequest("POST", "/api/auth/impersonation/end"),
+    onSuccess: (data) => reloadInOrganization(data, "/admin"),
+    onError: (error: Error) => {
+      toast({
+        title: "Erro ao voltar para a sua conta",
+        description: getApiErrorMessage(error, "Tente novamente"),
+        variant: "destructive",
+      });
+    },
+  });
+
+  const login = async (username: string, password: string): Promise<LoginResult> => {
+    const data = await loginMutation.mutateAsync({ username, password });
+    return { twoFactorRequired: "twoFactorRequired" in data };
+  };
+
+  const verifyTwoFactor = async (code: string) => {
+    await twoFactorMutation.mutateAsync(code);
   };
 
   const logout = async () => {
     await logoutMutation.mutateAsync();
   };
 
+  const switchOrganization = async (organizationId: number) => {
+    await switchOrganizationMutation.mutateAsync(organizationId);
+  };
+
+  const impersonate = async (userId: number) => {
+    await impersonateMutation.mutateAsync(userId);
+  };
+
+  const endImpersonation = async () => {
+    await endImpersonationMutation.mutateAsync();
+  };
+
   const value = {
     user,
     isLoading: isLoading,
     isAuthenticated: !!user,
     login,
+    verifyTwoFactor,
     logout,
+    switchOrganization,
+    impersonate,
+    endImpersonation,
   };
 
   return <AuthContext.Provider value={value}>{children}</AuthContext.Provider>;
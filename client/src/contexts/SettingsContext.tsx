@@ -1,21 +1,20 @@
 import React, { createContext, useContext, useState, useEffect, ReactNode } from 'react';
 import { useQuery, useQueryClient } from '@tanstack/react-query';
 import { apiRequest } from '@/lib/queryClient';
+import { applyTheme, ThemeSettings } from '@/lib/theme';
+import { useAuth } from '@/contexts/AuthContext';
 
 // Definir tipos
-interface ThemeSettings {
-  primary: string;
-  variant: string;
-  appearance: string;
-  radius: string;
-}
-
 interface OrganizationSettings {
+  id?: number | null;
+  slug?: string | null;
   name: string;
   logo: string | null;
+  allowSelfRegistration?: boolean;
+  ssoEnabled?: boolean;
 }
 
-interface Settings {
+export interface Settings {
   theme: ThemeSettings;
   organization: OrganizationSettings;
 }
@@ -42,6 +41,8 @@ export const useSettings = () => {
 // Provedor do contexto
 export const SettingsProvider = ({ children }: { children: ReactNode }) => {
   const queryClient = useQueryClient();
+  const { user } = useAuth();
+  const organizationId = user?.organization?.id ?? null;
   
   // Configurações padrão
   const defaultSettings: Settings = {
@@ -72,10 +73,16 @@ export const SettingsProvider = ({ children }: { children: ReactNode }) => {
     }
   });
 
-  // Atualizar o estado local quando os dados são carregados
+  // Recarregar a identidade visual quando a organização ativa muda (login ou troca)
+  useEffect(() => {
+    queryClient.invalidateQueries({ queryKey: ['/api/settings'] });
+  }, [organizationId, queryClient]);
+
+  // Atualizar o estado local e aplicar o tema quando os dados são carregados
   useEffect(() => {
     if (fetchedSettings) {
       setLocalSettings(fetchedSettings);
+      applyTheme(fetchedSettings.theme);
     }
   }, [fetchedSettings]);
 
@@ -0,0 +1,13 @@
+import { useEffect, useState } from "react";
+
+// Valor atualizado somente após `delay` ms sem mudanças (ex: buscas digitadas)
+export function useDebouncedValue<T>(value: T, delay = 300): T {
+  const [debounced, setDebounced] = useState(value);
+
+  useEffect(() => {
+    const timer = setTimeout(() => setDebounced(value), delay);
+    return () => clearTimeout(timer);
+  }, [value, delay]);
+
+  return debounced;
+}
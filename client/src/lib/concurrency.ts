@@ -0,0 +1,20 @@
+/**
+ * Controle de concorrência otimista: as atualizações enviam a versão lida (If-Match)
+ * e o servidor responde 409 com a cópia atual quando outra pessoa salvou antes.
+ */
+
+// Cabeçalho If-Match para a versão do registro carregado
+export function ifMatch(version: number | undefined): Record<string, string> {
+  return version ? { "If-Match": `"${version}"` } : {};
+}
+
+// Cópia atual do servidor em um erro 409 de versão lançado por apiRequest
+export function getConflictCurrent<T>(error: Error): T | null {
+  const match = error.message.match(/^409: ([\s\S]*)$/);
+  if (!match) return null;
+  try {
+    return JSON.parse(match[1]).current ?? null;
+  } catch {
+    return null;
+  }
+}
@@ -0,0 +1,62 @@
+import { keepPreviousData, useInfiniteQuery } from "@tanstack/react-query";
+import { apiRequest } from "./queryClient";
+import { MAX_PAGE_LIMIT, type Page } from "@shared/pagination";
+
+export interface ListParams {
+  limit?: number;
+  sort?: string;
+  filter?: Record<string, string | number | (string | number)[] | undefined | null>;
+}
+
+/**
+ * Monta a URL de uma rota de listagem (?cursor=&limit=&sort=&filter[campo]=).
+ * Filtros vazios são omitidos; listas viram valores separados por vírgula.
+ */
+export function listUrl(url: string, params: ListParams = {}, cursor?: string | null): string {
+  const search = new URLSearchParams();
+  if (cursor) search.set("cursor", cursor);
+  if (params.limit) search.set("limit", String(params.limit));
+  if (params.sort) search.set("sort", params.sort);
+  Object.entries(params.filter || {}).forEach(([key, value]) => {
+    const text = Array.isArray(value) ? value.join(",") : value;
+    if (text !== undefined && text !== null && text !== "") search.set(`filter[${key}]`, String(text));
+  });
+  const query = search.toString();
+  return query ? `${url}?${query}` : url;
+}
+
+/**
+ * Busca todas as páginas de uma listagem, para telas que precisam do conjunto completo
+ * (relatórios e seletores de membros).
+ */
+export async function fetchAllPages<T>(url: string, params: ListParams = {}): Promise<T[]> {
+  const items: T[] = [];
+  let cursor: string | null = null;
+  do {
+    const page: Page<T> = await apiRequest("GET", listUrl(url, { limit: MAX_PAGE_LIMIT, ...params }, cursor));
+    items.push(...page.items);
+    cursor = page.nextCursor;
+  } while (cursor);
+  return items;
+}
+
+/**
+ * Listagem paginada com "carregar mais". A chave começa pela URL da rota,
+ * então `invalidateQueries({ queryKey: [url] })` também recarrega estas listas.
+ */
+export function usePaginatedList<T>(url: string, params: ListParams = {}, options: { enabled?: boolean } = {}) {
+  const query = useInfiniteQuery<Page<T>, Error>({
+    queryKey: [url, "list", params],
+    queryFn: ({ pageParam }) => apiRequest("GET", listUrl(url, params, pageParam as string | null)),
+    initialPageParam: null,
+    getNextPageParam: (lastPage) => lastPage.nextCursor,
+    // Mantém a lista anterior na tela enquanto filtros novos são buscados
+    placeholderData: keepPreviousData,
+    enabled: options.enabled,
+  });
+
+  return {
+    ...query,
+    items: query.data?.pages.flatMap((page) => page.items) ?? [],
+  };
+}
@@ -0,0 +1,51 @@
+// Erros de limite de plano devolvidos pela API (HTTP 402/403 com corpo estruturado)
+export interface PlanLimitError {
+  code: "PLAN_LIMIT_REACHED" | "SUBSCRIPTION_INACTIVE";
+  message: string;
+  resource: "projects" | "users" | "storage";
+  plan: string;
+  used: number;
+  limit: number | null;
+  upgradeUrl: string;
+}
+
+type PlanLimitListener = (error: PlanLimitError) => void;
+
+const listeners = new Set<PlanLimitListener>();
+
+/**
+ * Extrai o erro de limite de plano de um Error lançado por apiRequest
+ * (mensagem no formato "402: {json}").
+ */
+export function getPlanLimitError(error: unknown): PlanLimitError | null {
+  if (!(error instanceof Error)) return null;
+
+  const match = error.message.match(/(402|403): (\{[\s\S]*\})$/);
+  if (!match) return null;
+
+  try {
+    const body = JSON.parse(match[2]);
+    if (body.code === "PLAN_LIMIT_REACHED" || body.code === "SUBSCRIPTION_INACTIVE") {
+      return body as PlanLimitError;
+    }
+  } catch {
+    // Corpo não é JSON; não é um erro de plano
+  }
+  return null;
+}
+
+// Notifica os ouvintes (ex.: UpgradePlanDialog) quando o erro é de limite de plano
+export function reportPlanLimitError(error: unknown): boolean {
+  const planError = getPlanLimitError(error);
+  if (!planError) return false;
+
+  listeners.forEach((listener) => listener(planError));
+  return true;
+}
+
+export function onPlanLimitError(listener: PlanLimitListener): () => void {
+  listeners.add(listener);
+  return () => {
+    listeners.delete(listener);
+  };
+}
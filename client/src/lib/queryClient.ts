@@ -1,4 +1,6 @@
-import { QueryClient, QueryFunction } from "@tanstack/react-query";
+import { MutationCache, QueryClient, QueryFunction } from "@tanstack/react-query";
+import { reportPlanLimitError } from "./planLimits";
+import { tenantUrl } from "./tenant";
 
 async function throwIfResNotOk(res: Response) {
   if (!res.ok) {
@@ -7,20 +9,32 @@ async function throwIfResNotOk(res: Response) {
   }
 }
 
+// Extrai a mensagem do corpo JSON de um erro lançado por apiRequest
+export function getApiErrorMessage(error: Error, fallback: string): string {
+  const match = error.message.match(/^\d+: ([\s\S]*)$/);
+  try {
+    return match ? JSON.parse(match[1]).message || fallback : fallback;
+  } catch {
+    return fallback;
+  }
+}
+
 export async function apiRequest<T = any>(
   method: string = "GET",
   url: string,
   data?: unknown | undefined,
+  headers: Record<string, string> = {},
 ): Promise<T> {
-  const res = await fetch(url, {
+  const res = await fetch(tenantUrl(url), {
     method,
-    headers: data ? { "Content-Type": "application/json" } : {},
+    headers: data ? { "Content-Type": "application/json", ...headers } : headers,
     body: data ? JSON.stringify(data) : undefined,
     credentials: "include",
   });
 
   await throwIfResNotOk(res);
-  return res.json();
+  // 204 (ex: exclusões) não tem corpo
+  return res.status === 204 ? (undefined as T) : res.json();
 }
 
 type UnauthorizedBehavior = "returnNull" | "throw";
@@ -29,7 +43,7 @@ export const getQueryFn: <T>(options: {
 }) => QueryFunction<T> =
   ({ on401: unauthorizedBehavior }) =>
   async ({ queryKey }) => {
-    const res = await fetch(queryKey[0] as string, {
+    const res = await fetch(tenantUrl(queryKey[0] as string), {
       credentials: "include",
     });
 
@@ -42,6 +56,12 @@ export const getQueryFn: <T>(options: {
   };
 
 export const queryClient = new QueryClient({
+  // Erros de limite de plano abrem o convite de upgrade em qualquer tela
+  mutationCache: new MutationCache({
+    onError: (error) => {
+      reportPlanLimitError(error);
+    },
+  }),
   defaultOptions: {
     queries: {
       queryFn: getQueryFn({ on401: "throw" }),
@@ -0,0 +1,14 @@
+// Organização selecionada pelo prefixo de caminho /o/:slug (quando usado)
+const prefixMatch = window.location.pathname.match(/^\/o\/([a-z0-9-]+)(?=\/|$)/);
+
+export const tenantSlug: string | null = prefixMatch ? prefixMatch[1] : null;
+
+// Base das rotas do cliente; vazia quando a organização vem do domínio
+export const tenantBase = tenantSlug ? `/o/${tenantSlug}` : "";
+
+/**
+ * Prefixa chamadas à API com /o/:slug para que o servidor resolva o mesmo tenant.
+ */
+export function tenantUrl(url: string): string {
+  return tenantBase && url.startsWith("/api") ? `${tenantBase}${url}` : url;
+}
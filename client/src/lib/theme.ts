@@ -0,0 +1,65 @@
+export interface ThemeSettings {
+  primary: string;
+  variant: string;
+  appearance: string;
+  radius: string;
+}
+
+// Converte "#rrggbb" para o formato "H S% L%" usado pelas variáveis CSS do tema
+export function hexToHsl(hex: string): string | null {
+  const match = hex.trim().match(/^#?([0-9a-f]{2})([0-9a-f]{2})([0-9a-f]{2})$/i);
+  if (!match) return null;
+
+  const [r, g, b] = match.slice(1).map((value) => parseInt(value, 16) / 255);
+  const max = Math.max(r, g, b);
+  const min = Math.min(r, g, b);
+  const lightness = (max + min) / 2;
+  let hue = 0;
+  let saturation = 0;
+
+  if (max !== min) {
+    const delta = max - min;
+    saturation = lightness > 0.5 ? delta / (2 - max - min) : delta / (max + min);
+    switch (max) {
+      case r:
+        hue = (g - b) / delta + (g < b ? 6 : 0);
+        break;
+      case g:
+        hue = (b - r) / delta + 2;
+        break;
+      default:
+        hue = (r - g) / delta + 4;
+    }
+    hue /= 6;
+  }
+
+  return `${Math.round(hue * 360)} ${Math.round(saturation * 100)}% ${Math.round(lightness * 100)}%`;
+}
+
+/**
+ * Aplica o tema da organização nas variáveis CSS do documento.
+ */
+export function applyTheme(theme: Partial<ThemeSettings>) {
+  const root = document.documentElement;
+
+  if (theme.primary) {
+    const hsl = hexToHsl(theme.primary);
+    if (hsl) {
+      root.style.setProperty("--primary", hsl);
+    }
+  }
+
+  if (theme.radius !== undefined) {
+    root.style.setProperty("--radius", `${theme.radius}rem`);
+  }
+
+  if (theme.variant) {
+    root.dataset.variant = theme.variant;
+  }
+
+  if (theme.appearance) {
+    const prefersDark = window.matchMedia?.("(prefers-color-scheme: dark)").matches;
+    const dark = theme.appearance === "dark" || (theme.appearance === "system" && prefersDark);
+    root.classList.toggle("dark", dark);
+  }
+}
@@ -0,0 +1,285 @@
+import { useState } from "react";
+import { Link, useLocation, useRoute } from "wouter";
+import { useQuery } from "@tanstack/react-query";
+import { z } from "zod";
+import { useForm } from "react-hook-form";
+import { zodResolver } from "@hookform/resolvers/zod";
+import { LucideRocket, Loader2, MailOpen } from "lucide-react";
+
+import { Button } from "@/components/ui/button";
+import {
+  Form,
+  FormControl,
+  FormField,
+  FormItem,
+  FormLabel,
+  FormMessage,
+} from "@/components/ui/form";
+import { Input } from "@/components/ui/input";
+import { useToast } from "@/hooks/use-toast";
+import { useAuth } from "@/contexts/AuthContext";
+import { apiRequest, queryClient } from "@/lib/queryClient";
+
+interface InvitationDetails {
+  email: string;
+  role: "owner" | "admin" | "member";
+  organizationName: string;
+  expiresAt: string;
+  hasAccount: boolean;
+}
+
+const roleLabels: Record<string, string> = {
+  owner: "Proprietário",
+  admin: "Administrador",
+  member: "Membro",
+};
+
+const accountSchema = z.object({
+  name: z.string().min(2, "Nome deve ter pelo menos 2 caracteres"),
+  username: z.string().min(3, "Username deve ter pelo menos 3 caracteres"),
+  password: z.string().min(6, "Senha deve ter pelo menos 6 caracteres"),
+});
+
+const loginSchema = z.object({
+  username: z.string().min(1, "Por favor, digite seu nome de usuário"),
+  password: z.string().min(1, "Por favor, digite sua senha"),
+});
+
+type AccountValues = z.infer<typeof accountSchema>;
+type LoginValues = z.infer<typeof loginSchema>;
+
+export default function AcceptInvite() {
+  const [, params] = useRoute("/invite/:token");
+  const token = params?.token || "";
+  const [, setLocation] = useLocation();
+  const { user, login } = useAuth();
+  const { toast } = useToast();
+  const [isSubmitting, setIsSubmitting] = useState(false);
+
+  const { data: invite, isLoading, error } = useQuery<InvitationDetails>({
+    queryKey: [`/api/invites/${encodeURIComponent(token)}`],
+    enabled: !!token,
+  });
+
+  const accountForm = useForm<AccountValues>({
+    resolver: zodResolver(accountSchema),
+    defaultValues: { name: "", username: "", password: "" },
+  });
+
+  const loginForm = useForm<LoginValues>({
+    resolver: zodResolver(loginSchema),
+    defaultValues: { username: "", password: "" },
+  });
+
+  const isInvitedUser = !!user && !!invite && user.email.toLowerCase() === invite.email.toLowerCase();
+
+  const accept = async (account?: AccountValues) => {
+    setIsSubmitting(true);
+    try {
+      await apiRequest("POST", `/api/invites/${encodeURIComponent(token)}/accept`, account);
+      // A organização do convite passa a ser a ativa; descartar o cache anterior
+      await queryClient.resetQueries();
+      toast({
+        title: "Convite aceito",
+        description: `Bem-vindo à ${invite?.organizationName}!`,
+      });
+      setLocation("/dashboard");
+    } catch (err: any) {
+      toast({
+        title: "Erro ao aceitar convite",
+        description: err.message || "Não foi possível aceitar o convite",
+        variant: "destructive",
+      });
+    } finally {
+      setIsSubmitting(false);
+    }
+  };
+
+  const loginAndAccept = async (data: LoginValues) => {
+    setIsSubmitting(true);
+    try {
+      const result = await login(data.username, data.password);
+      if (result.twoFactorRequired) {
+        // O código do segundo fator é informado na tela de login; depois basta voltar a este link
+        toast({
+          title: "Verificação em duas etapas",
+          description: "Entre pela tela de login e abra o link do convite novamente para aceitá-lo.",
+        });
+        setIsSubmitting(false);
+        return;
+      }
+    } catch {
+      setIsSubmitting(false);
+      return;
+    }
+    await accept();
+  };
+
+  const decline = async () => {
+    setIsSubmitting(true);
+    try {
+      await apiRequest("POST", `/api/invites/${encodeURIComponent(token)}/decline`);
+      toast({
+        title: "Convite recusado",
+        description: "Você não fará parte desta organização",
+      });
+      setLocation(user ? "/dashboard" : "/");
+    } catch (err: any) {
+      toast({
+        title: "Erro ao recusar convite",
+        description: err.message,
+        variant: "destructive",
+      });
+    } finally {
+      setIsSubmitting(false);
+    }
+  };
+
+  const renderBody = () => {
+    if (isLoading) {
+      return (
+        <div className="flex justify-center py-8">
+          <Loader2 className="h-8 w-8 animate-spin text-primary" />
+        </div>
+      );
+    }
+
+    if (error || !invite) {
+      return (
+        <div className="text-center space-y-4">
+          <p className="text-slate-300">Este convite é inválido, já foi utilizado ou expirou.</p>
+          <Link href="/" className="text-primary hover:text-primary/80 text-sm">
+            Voltar para Home
+          </Link>
+        </div>
+      );
+    }
+
+    return (
+      <div className="space-y-6">
+        <div className="text-center">
+          <MailOpen className="h-10 w-10 text-primary mx-auto mb-3" />
+          <p className="text-slate-300">
+            Você foi convidado para participar de <strong className="text-white">{invite.organizationName}</strong> como{" "}
+            <strong className="text-white">{roleLabels[invite.role] || invite.role}</strong>.
+          </p>
+          <p className="text-slate-400 text-sm mt-1">{invite.email}</p>
+        </div>
+
+        {user && !isInvitedUser ? (
+          <p className="text-sm text-amber-400 text-center">
+            Você está conectado como {user.email}. Saia e entre com a conta convidada para aceitar.
+          </p>
+        ) : isInvitedUser ? (
+          <Button className="w-full" disabled={isSubmitting} onClick={() => accept()}>
+            {isSubmitting && <Loader2 className="mr-2 h-4 w-4 animate-spin" />}
+            Aceitar convite
+          </Button>
+        ) : invite.hasAccount ? (
+          <Form {...loginForm}>
+            <form onSubmit={loginForm.handleSubmit(loginAndAccept)} className="space-y-4">
+              <p className="text-sm text-slate-400">Entre com sua conta para aceitar o convite.</p>
+              <FormField
+                control={loginForm.control}
+                name="username"
+                render={({ field }) => (
+                  <FormItem>
+                    <FormLabel>Nome de Usuário</FormLabel>
+                    <FormControl>
+                      <Input className="bg-slate-700 border-slate-600" {...field} />
+                    </FormControl>
+                    <FormMessage />
+                  </FormItem>
+                )}
+              />
+              <FormField
+                control={loginForm.control}
+                name="password"
+                render={({ field }) => (
+                  <FormItem>
+                    <FormLabel>Senha</FormLabel>
+                    <FormControl>
+                      <Input type="password" className="bg-slate-700 border-slate-600" {...field} />
+                    </FormControl>
+                    <FormMessage />
+                  </FormItem>
+                )}
+              />
+              <Button type="submit" className="w-full" disabled={isSubmitting}>
+                {isSubmitting && <Loader2 className="mr-2 h-4 w-4 animate-spin" />}
+                Entrar e aceitar
+              </Button>
+            </form>
+          </Form>
+        ) : (
+          <Form {...accountForm}>
+            <form onSubmit={accountForm.handleSubmit((data) => accept(data))} className="space-y-4">
+              <p className="text-sm text-slate-400">Crie sua conta para aceitar o convite.</p>
+              <FormField
+                control={accountForm.control}
+                name="name"
+                render={({ field }) => (
+                  <FormItem>
+                    <FormLabel>Nome Completo</FormLabel>
+                    <FormControl>
+                      <Input className="bg-slate-700 border-slate-600" {...field} />
+                    </FormControl>
+                    <FormMessage />
+                  </FormItem>
+                )}
+              />
+              <FormField
+                control={accountForm.control}
+                name="username"
+                render={({ field }) => (
+                  <FormItem>
+                    <FormLabel>Nome de Usuário</FormLabel>
+                    <FormControl>
+                      <Input className="bg-slate-700 border-slate-600" {...field} />
+                    </FormControl>
+                    <FormMessage />
+                  </FormItem>
+                )}
+              />
+              <FormField
+                control={accountForm.control}
+                name="password"
+                render={({ field }) => (
+                  <FormItem>
+                    <FormLabel>Senha</FormLabel>
+                    <FormControl>
+                      <Input type="password" className="bg-slate-700 border-slate-600" {...field} />
+                    </FormControl>
+                    <FormMessage />
+                  </FormItem>
+                )}
+              />
+              <Button type="submit" className="w-full" disabled={isSubmitting}>
+                {isSubmitting && <Loader2 className="mr-2 h-4 w-4 animate-spin" />}
+                Criar conta e aceitar
+              </Button>
+            </form>
+          </Form>
+        )}
+
+        <Button variant="ghost" className="w-full text-slate-400" disabled={isSubmitting} onClick={decline}>
+          Recusar convite
+        </Button>
+      </div>
+    );
+  };
+
+  return (
+    <div className="min-h-screen bg-gradient-to-b from-slate-950 to-slate-900 flex flex-col items-center justify-center p-4 text-white">
+      <div className="w-full max-w-md">
+        <div className="flex items-center justify-center gap-2 mb-8">
+          <LucideRocket className="text-primary h-8 w-8" />
+          <span className="text-2xl font-bold bg-gradient-to-r from-primary to-purple-500 bg-clip-text text-transparent">
+            LaunchRocket
+          </span>
+        </div>
+        <div className="bg-slate-800 rounded-lg p-8 shadow-lg">{renderBody()}</div>
+      </div>
+    </div>
+  );
+}
@@ -78,7 +78,7 @@ export default function Communication() {
       queryClient.invalidateQueries({ queryKey: [`/api/projects/${selectedProjectId}/comments`] });
       toast({
         title: "Mensagem excluída",
-        description: "A mensagem foi excluída com sucesso",
+        description: "A mensagem foi movida para a lixeira",
       });
     },
     onError: (error: Error) => {
@@ -260,7 +260,7 @@ export default function Communication() {
           <AlertDialogHeader>
             <AlertDialogTitle>Confirmar exclusão</AlertDialogTitle>
             <AlertDialogDescription>
-              Tem certeza que deseja excluir esta mensagem? Esta ação não pode ser desfeita.
+              Tem certeza que deseja excluir esta mensagem? Ela irá para a lixeira e poderá ser restaurada.
             </AlertDialogDescription>
           </AlertDialogHeader>
           <AlertDialogFooter>
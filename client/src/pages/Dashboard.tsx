@@ -1,6 +1,7 @@
 import { useQuery, useMutation } from "@tanstack/react-query";
 import { queryClient } from "@/lib/queryClient";
-import { apiRequest } from "@/lib/queryClient";
+import { apiRequest, getApiErrorMessage } from "@/lib/queryClient";
+import { usePaginatedList } from "@/lib/pagination";
 import { useAuth } from "@/contexts/AuthContext";
 import { Button } from "@/components/ui/button";
 import { Card } from "@/components/ui/card";
@@ -10,6 +11,7 @@ import ProjectCard from "@/components/dashboard/ProjectCard";
 import ActivityItem from "@/components/dashboard/ActivityItem";
 import TaskItem from "@/components/dashboard/TaskItem";
 import RocketAnimation from "@/components/dashboard/RocketAnimation";
+import SavedViewWidget from "@/components/dashboard/SavedViewWidget";
 import { transitions } from "@/lib/animations";
 import { ProjectForm, type ProjectFormValues } from "@/components/projects/ProjectForm";
 import { Link } from "wouter";
@@ -27,6 +29,9 @@ import {
   ListChecks,
 } from "lucide-react";
 import { motion } from "framer-motion";
+import type { SavedViewSummary } from "@shared/views";
+
+const ACTIVITY_PAGE_SIZE = 5;
 
 export default function Dashboard() {
   const [isNewProjectDialogOpen, setIsNewProjectDialogOpen] = useState(false);
@@ -51,14 +56,21 @@ export default function Dashboard() {
     enabled: !!user,
   });
 
-  // Fetch recent activities
+  // Fetch recent activities (de todos os projetos do usuário, 5 por vez)
   const {
-    data: activities,
+    items: activitiesArray,
     isLoading: activitiesLoading,
-  } = useQuery<any[]>({
-    queryKey: projects && Array.isArray(projects) && projects.length > 0 ? [`/api/projects/${projects[0].id}/activities`, { limit: 5 }] : ['/api/activities'],
+    hasNextPage: hasMoreActivities,
+    isFetchingNextPage: fetchingMoreActivities,
+    fetchNextPage: fetchMoreActivities,
+  } = usePaginatedList<any>("/api/activities", { limit: ACTIVITY_PAGE_SIZE }, { enabled: !!user });
+
+  // Visões salvas que o usuário escolheu mostrar como widgets
+  const { data: views } = useQuery<SavedViewSummary[]>({
+    queryKey: ["/api/views"],
     enabled: !!user,
   });
+  const widgetViews = (views ?? []).filter((view) => view.onDashboard && view.userId === user?.id);
 
   // Create project mutation
   const createProjectMutation = useMutation({
@@ -89,11 +101,12 @@ export default function Dashboard() {
     },
     onSuccess: () => {
       queryClient.invalidateQueries({ queryKey: ["/api/tasks/user/me"] });
+      queryClient.invalidateQueries({ queryKey: ["/api/views"] });
     },
     onError: (error: Error) => {
       toast({
         title: "Erro ao atualizar tarefa",
-        description: error.message || "Ocorreu um erro ao atualizar a tarefa",
+        description: getApiErrorMessage(error, "Ocorreu um erro ao atualizar a tarefa"),
         variant: "destructive",
       });
     },
@@ -113,7 +126,7 @@ export default function Dashboard() {
   // Coerção de tipos para evitar problemas de tipagem
   const projectsArray = Array.isArray(projects) ? projects : [];
   const tasksArray = Array.isArray(tasks) ? tasks : [];
-  const activitiesArray = Array.isArray(activities) ? activities : [];
+  const projectNames = new Map<number, string>(projectsArray.map((p: any) => [p.id, p.name]));
 
   // Calculate stats
   const stats = {
@@ -240,6 +253,26 @@ export default function Dashboard() {
         )}
       </div>
 
+      {/* Widgets das visões salvas */}
+      {widgetViews.length > 0 && (
+        <div className="grid grid-cols-1 lg:grid-cols-2 gap-6 mb-8">
+          {widgetViews.map((view, index) => (
+            <motion.div
+              key={view.id}
+              initial={{ opacity: 0, y: 10 }}
+              animate={{ opacity: 1, y: 0 }}
+              transition={{ delay: 0.1 * index, ...transitions.default }}
+            >
+              <SavedViewWidget
+                view={view}
+                projectNames={projectNames}
+                onTaskStatusChange={handleTaskStatusChange}
+              />
+            </motion.div>
+          ))}
+        </div>
+      )}
+
       {/* Recent Activity and Tasks */}
       <div className="grid grid-cols-1 lg:grid-cols-2 gap-6">
         {/* Recent Activity */}
@@ -283,7 +316,7 @@ export default function Dashboard() {
                       key={activity.id}
                       initial={{ opacity: 0, x: -10 }}
                       animate={{ opacity: 1, x: 0 }}
-                      transition={{ delay: index * 0.1, ...transitions.default }}
+                      transition={{ delay: (index % ACTIVITY_PAGE_SIZE) * 0.1, ...transitions.default }}
                     >
                       <ActivityItem
                         user={{
@@ -301,14 +334,21 @@ export default function Dashboard() {
                 </div>
               )}
 
-              {!activitiesLoading && activitiesArray && activitiesArray.length > 0 && (
+              {!activitiesLoading && hasMoreActivities && (
                 <motion.div 
                   className="mt-4 text-center"
                   initial={{ opacity: 0 }}
                   animate={{ opacity: 1 }}
                   transition={{ delay: 0.5, ...transitions.default }}
                 >
-                  <Button variant="link" size="sm" className="text-primary hover:text-indigo-700">
+                  <Button
+                    variant="link"
+                    size="sm"
+                    className="text-primary hover:text-indigo-700"
+                    onClick={() => fetchMoreActivities()}
+                    disabled={fetchingMoreActivities}
+                  >
+                    {fetchingMoreActivities && <Loader2 className="mr-2 h-4 w-4 animate-spin" />}
                     Ver mais atividades
                   </Button>
                 </motion.div>
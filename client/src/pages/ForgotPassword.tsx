@@ -0,0 +1,120 @@
+import { useState } from "react";
+import { Link } from "wouter";
+import { z } from "zod";
+import { useForm } from "react-hook-form";
+import { zodResolver } from "@hookform/resolvers/zod";
+import { LucideRocket, Loader2, Mail, MailCheck, ArrowLeft } from "lucide-react";
+
+import { Button } from "@/components/ui/button";
+import {
+  Form,
+  FormControl,
+  FormField,
+  FormItem,
+  FormLabel,
+  FormMessage,
+} from "@/components/ui/form";
+import { Input } from "@/components/ui/input";
+import { useToast } from "@/hooks/use-toast";
+import { useSettings } from "@/contexts/SettingsContext";
+import { apiRequest } from "@/lib/queryClient";
+
+const formSchema = z.object({
+  email: z.string().email("Por favor, digite um email válido"),
+});
+
+type FormValues = z.infer<typeof formSchema>;
+
+export default function ForgotPassword() {
+  const { settings } = useSettings();
+  const organizationName = settings?.organization?.name || "LaunchRocket";
+  const { toast } = useToast();
+  const [isSubmitting, setIsSubmitting] = useState(false);
+  const [sentTo, setSentTo] = useState<string | null>(null);
+
+  const form = useForm<FormValues>({
+    resolver: zodResolver(formSchema),
+    defaultValues: { email: "" },
+  });
+
+  const onSubmit = async (data: FormValues) => {
+    setIsSubmitting(true);
+    try {
+      await apiRequest("POST", "/api/auth/forgot-password", data);
+      setSentTo(data.email);
+    } catch (err: any) {
+      toast({
+        title: "Erro ao solicitar redefinição",
+        description: err.message || "Não foi possível enviar o email de redefinição",
+        variant: "destructive",
+      });
+    } finally {
+      setIsSubmitting(false);
+    }
+  };
+
+  return (
+    <div className="min-h-screen bg-gradient-to-b from-slate-950 to-slate-900 flex flex-col items-center justify-center p-4 text-white">
+      <Link href="/login" className="absolute top-4 left-4 flex items-center gap-2 text-slate-400 hover:text-primary transition-colors">
+        <ArrowLeft className="h-4 w-4" />
+        Voltar para o login
+      </Link>
+
+      <div className="w-full max-w-md">
+        <div className="flex items-center justify-center gap-2 mb-8">
+          <LucideRocket className="text-primary h-8 w-8" />
+          <span className="text-2xl font-bold bg-gradient-to-r from-primary to-purple-500 bg-clip-text text-transparent">
+            {organizationName}
+          </span>
+        </div>
+
+        <div className="bg-slate-800 rounded-lg p-8 shadow-lg">
+          {sentTo ? (
+            <div className="text-center space-y-4">
+              <MailCheck className="h-10 w-10 text-primary mx-auto" />
+              <h1 className="text-xl font-semibold">Verifique seu email</h1>
+              <p className="text-slate-300 text-sm">
+                Se houver uma conta com <strong className="text-white">{sentTo}</strong>, você receberá
+                um link para escolher uma nova senha. O link expira em 1 hora.
+              </p>
+              <Link href="/login" className="text-primary hover:text-primary/80 text-sm">
+                Voltar para o login
+              </Link>
+            </div>
+          ) : (
+            <Form {...form}>
+              <form onSubmit={form.handleSubmit(onSubmit)} className="space-y-6">
+                <div>
+                  <h1 className="text-xl font-semibold">Esqueci minha senha</h1>
+                  <p className="text-slate-400 text-sm mt-1">
+                    Informe o email da sua conta e enviaremos um link para redefinir a senha.
+                  </p>
+                </div>
+                <FormField
+                  control={form.control}
+                  name="email"
+                  render={({ field }) => (
+                    <FormItem>
+                      <FormLabel>Email</FormLabel>
+                      <FormControl>
+                        <div className="relative">
+                          <Mail className="absolute left-3 top-3 h-4 w-4 text-slate-500" />
+                          <Input className="pl-10 bg-slate-700 border-slate-600" placeholder="seu@email.com" {...field} />
+                        </div>
+                      </FormControl>
+                      <FormMessage />
+                    </FormItem>
+                  )}
+                />
+                <Button type="submit" className="w-full" disabled={isSubmitting}>
+                  {isSubmitting && <Loader2 className="mr-2 h-4 w-4 animate-spin" />}
+                  Enviar link de redefinição
+                </Button>
+              </form>
+            </Form>
+          )}
+        </div>
+      </div>
+    </div>
+  );
+}
@@ -87,7 +87,7 @@ export default function Integrations() {
   const { data: whatsappWebData, isLoading: isLoadingWhatsappWeb, refetch: refetchWhatsappWeb } = useQuery({
     queryKey: ['/api/whatsapp-web/status'],
     queryFn: getQueryFn({ on401: 'returnNull' }),
-    enabled: user?.role === 'admin',
+    enabled: !!user?.permissions?.includes('integration.manage'),
     refetchInterval: whatsappWebStatus && !whatsappWebStatus.authenticated ? 5000 : false
   });
   
@@ -247,7 +247,7 @@ export default function Integrations() {
   const { data: integrations = [], isLoading: isLoadingIntegrations } = useQuery({
     queryKey: ['/api/integrations'],
     queryFn: getQueryFn({ on401: 'returnNull' }),
-    enabled: user?.role === 'admin'
+    enabled: !!user?.permissions?.includes('integration.manage')
   });
 
   // Formulário para configuração do WhatsApp
@@ -1,10 +1,10 @@
-import { useState } from "react";
+import { useEffect, useState } from "react";
 import { Link, useLocation } from "wouter";
 import { z } from "zod";
 import { useForm } from "react-hook-form";
 import { zodResolver } from "@hookform/resolvers/zod";
 import { motion } from "framer-motion";
-import { LucideRocket, User, Lock, ArrowLeft } from "lucide-react";
+import { LucideRocket, User, Lock, ArrowLeft, ShieldCheck, Loader2, KeyRound } from "lucide-react";
 
 import { Button } from "@/components/ui/button";
 import {
@@ -18,6 +18,9 @@ import {
 import { Input } from "@/components/ui/input";
 import { useToast } from "@/hooks/use-toast";
 import { useAuth } from "@/contexts/AuthContext";
+import { useSettings } from "@/contexts/SettingsContext";
+import TwoFactorCodeInput from "@/components/auth/TwoFactorCodeInput";
+import { tenantUrl } from "@/lib/tenant";
 
 const formSchema = z.object({
   username: z.string().min(1, {
@@ -30,11 +33,71 @@ const formSchema = z.object({
 
 type FormValues = z.infer<typeof formSchema>;
 
+// Mensagem do servidor quando o login foi atrasado ou bloqueado por tentativas repetidas
+function getThrottleMessage(errorBody: string): string | null {
+  try {
+    const body = JSON.parse(errorBody);
+    return body.code === "LOGIN_THROTTLED" ? body.message : null;
+  } catch {
+    return null;
+  }
+}
+
+// Motivos de falha do login único, recebidos em ?sso_error= no retorno do provedor
+const ssoErrorMessages: Record<string, string> = {
+  sso_unavailable: "O login único não está disponível para esta organização.",
+  sso_failed: "Não foi possível concluir o login pelo provedor de identidade.",
+  sso_expired: "O login pelo provedor expirou. Tente novamente.",
+  sso_denied: "O login foi cancelado no provedor de identidade.",
+  email_missing: "O provedor de identidade não informou o seu email.",
+  email_not_verified: "O seu email não está verificado no provedor de identidade.",
+  domain_not_allowed: "O domínio do seu email não tem permissão para acessar esta organização.",
+  account_exists: "Já existe uma conta com o seu email. Entre com a sua senha ou peça um convite ao administrador da organização.",
+  user_limit_reached: "A organização atingiu o limite de usuários do plano.",
+};
+
 export default function Login() {
   const [, setLocation] = useLocation();
-  const { login } = useAuth();
+  const { login, verifyTwoFactor } = useAuth();
+  const { settings } = useSettings();
+  const organizationName = settings?.organization?.name || "LaunchRocket";
+  const organizationLogo = settings?.organization?.logo;
   const [isLoading, setIsLoading] = useState(false);
   const { toast } = useToast();
+  // Segunda etapa do login quando a conta usa verificação em duas etapas
+  const [twoFactorStep, setTwoFactorStep] = useState(false);
+  const [useRecoveryCode, setUseRecoveryCode] = useState(false);
+  const [twoFactorCode, setTwoFactorCode] = useState("");
+  // Fora do endereço de uma organização, o login único pede o identificador dela
+  const [ssoFormOpen, setSsoFormOpen] = useState(false);
+  const [ssoOrganization, setSsoOrganization] = useState("");
+  const ssoEnabled = !!settings?.organization?.ssoEnabled;
+  const isTenantLogin = !!settings?.organization?.id;
+
+  // Retorno do login único: erro do provedor ou segunda etapa pendente
+  useEffect(() => {
+    const params = new URLSearchParams(window.location.search);
+    const ssoError = params.get("sso_error");
+
+    if (ssoError) {
+      toast({
+        title: "Erro no login único",
+        description: ssoErrorMessages[ssoError] || ssoErrorMessages.sso_failed,
+        variant: "destructive",
+      });
+    }
+    if (params.get("two_factor") === "1") {
+      setTwoFactorStep(true);
+    }
+    if (ssoError || params.has("two_factor")) {
+      window.history.replaceState(null, "", window.location.pathname);
+    }
+  }, []);
+
+  const startSsoLogin = (organizationSlug?: string) => {
+    const query = organizationSlug ? `?organization=${encodeURIComponent(organizationSlug)}` : "";
+    window.location.href = tenantUrl(`/api/auth/sso/start${query}`);
+  };
 
   const form = useForm<FormValues>({
     resolver: zodResolver(formSchema),
@@ -47,17 +110,21 @@ export default function Login() {
   const onSubmit = async (data: FormValues) => {
     setIsLoading(true);
     try {
-      await login(data.username, data.password);
+      const result = await login(data.username, data.password);
+      if (result.twoFactorRequired) {
+        setTwoFactorStep(true);
+        return;
+      }
       toast({
         title: "Login realizado com sucesso!",
-        description: "Bem-vindo de volta ao LaunchRocket.",
+        description: `Bem-vindo de volta ao ${organizationName}.`,
       });
       setLocation("/dashboard");
-    } catch (error) {
+    } catch (error: any) {
       console.error(error);
       toast({
         title: "Erro ao fazer login",
-        description: "Nome de usuário ou senha incorretos",
+        description: getThrottleMessage(error?.message || "") || "Nome de usuário ou senha incorretos",
         variant: "destructive",
       });
     } finally {
@@ -65,6 +132,95 @@ export default function Login() {
     }
   };
 
+  const onVerifyTwoFactor = async (code: string = twoFactorCode) => {
+    if (!code.trim()) return;
+
+    setIsLoading(true);
+    try {
+      await verifyTwoFactor(code);
+      setLocation("/dashboard");
+    } catch (error: any) {
+      const message: string = error?.message || "";
+      toast({
+        title: "Erro na verificação",
+        description: message.includes("Faça login novamente")
+          ? "A verificação expirou. Faça login novamente."
+          : "Código de verificação inválido",
+        variant: "destructive",
+      });
+      setTwoFactorCode("");
+      if (message.includes("Faça login novamente")) {
+        setTwoFactorStep(false);
+        form.setValue("password", "");
+      }
+    } finally {
+      setIsLoading(false);
+    }
+  };
+
+  const renderTwoFactorStep = () => (
+    <div className="space-y-6">
+      <div className="text-center">
+        <ShieldCheck className="h-10 w-10 text-primary mx-auto mb-3" />
+        <h2 className="text-lg font-semibold">Verificação em duas etapas</h2>
+        <p className="text-slate-400 text-sm mt-1">
+          {useRecoveryCode
+            ? "Digite um dos seus códigos de recuperação"
+            : "Digite o código de 6 dígitos do seu aplicativo autenticador"}
+        </p>
+      </div>
+
+      {useRecoveryCode ? (
+        <Input
+          className="bg-slate-700 border-slate-600 text-center tracking-widest"
+          placeholder="xxxxx-xxxxx"
+          value={twoFactorCode}
+          onChange={(e) => setTwoFactorCode(e.target.value)}
+          autoFocus
+        />
+      ) : (
+        <TwoFactorCodeInput
+          value={twoFactorCode}
+          onChange={setTwoFactorCode}
+          onComplete={onVerifyTwoFactor}
+          disabled={isLoading}
+        />
+      )}
+
+      <Button
+        className="w-full bg-gradient-to-r from-primary to-purple-500 hover:from-primary/80 hover:to-purple-400"
+        disabled={isLoading || !twoFactorCode.trim()}
+        onClick={() => onVerifyTwoFactor()}
+      >
+        {isLoading && <Loader2 className="mr-2 h-4 w-4 animate-spin" />}
+        Verificar
+      </Button>
+
+      <div className="flex justify-between text-sm">
+        <button
+          type="button"
+          className="text-primary hover:text-primary/80"
+          onClick={() => {
+            setUseRecoveryCode(!useRecoveryCode);
+            setTwoFactorCode("");
+          }}
+        >
+          {useRecoveryCode ? "Usar o aplicativo autenticador" : "Usar um código de recuperação"}
+        </button>
+        <button
+          type="button"
+          className="text-slate-400 hover:text-slate-300"
+          onClick={() => {
+            setTwoFactorStep(false);
+            setTwoFactorCode("");
+          }}
+        >
+          Voltar
+        </button>
+      </div>
+    </div>
+  );
+
   return (
     <div className="min-h-screen bg-gradient-to-b from-slate-950 to-slate-900 flex flex-col items-center justify-center p-4 text-white">
       <Link href="/" className="absolute top-4 left-4 flex items-center gap-2 text-slate-400 hover:text-primary transition-colors">
@@ -80,14 +236,18 @@ export default function Login() {
             animate={{ y: 0, opacity: 1 }}
             transition={{ duration: 0.5 }}
           >
-            <div className="relative">
-              <div className="absolute -inset-1 rounded-full bg-gradient-to-r from-primary to-purple-500 opacity-75 blur"></div>
-              <div className="relative bg-slate-800 p-2 rounded-full">
-                <LucideRocket className="text-primary h-10 w-10" />
+            {organizationLogo ? (
+              <img src={organizationLogo} alt={organizationName} className="h-14 max-w-[160px] object-contain" />
+            ) : (
+              <div className="relative">
+                <div className="absolute -inset-1 rounded-full bg-gradient-to-r from-primary to-purple-500 opacity-75 blur"></div>
+                <div className="relative bg-slate-800 p-2 rounded-full">
+                  <LucideRocket className="text-primary h-10 w-10" />
+                </div>
               </div>
-            </div>
+            )}
             <span className="text-3xl font-bold bg-gradient-to-r from-primary to-purple-500 bg-clip-text text-transparent">
-              LaunchRocket
+              {organizationName}
             </span>
           </motion.div>
           <motion.h1 
@@ -114,6 +274,7 @@ export default function Login() {
           animate={{ scale: 1, opacity: 1 }}
           transition={{ duration: 0.5, delay: 0.3 }}
         >
+          {twoFactorStep ? renderTwoFactorStep() : (
           <Form {...form}>
             <form onSubmit={form.handleSubmit(onSubmit)} className="space-y-6">
               <FormField
@@ -137,7 +298,12 @@ export default function Login() {
                 name="password"
                 render={({ field }) => (
                   <FormItem>
-                    <FormLabel>Senha</FormLabel>
+                    <div className="flex items-center justify-between">
+                      <FormLabel>Senha</FormLabel>
+                      <Link href="/forgot-password" className="text-primary hover:text-primary/80 text-xs">
+                        Esqueci minha senha
+                      </Link>
+                    </div>
                     <FormControl>
                       <div className="relative">
                         <Lock className="absolute left-3 top-3 h-4 w-4 text-slate-500" />
@@ -168,6 +334,49 @@ export default function Login() {
                   )}
                 </Button>
 
+                {isTenantLogin ? (
+                  ssoEnabled && (
+                    <Button
+                      type="button"
+                      variant="outline"
+                      className="w-full border-slate-600 bg-transparent hover:bg-slate-700"
+                      onClick={() => startSsoLogin()}
+                    >
+                      <KeyRound className="mr-2 h-4 w-4" />
+                      Entrar com SSO corporativo
+                    </Button>
+                  )
+                ) : ssoFormOpen ? (
+                  <div className="flex gap-2">
+                    <Input
+                      className="bg-slate-700 border-slate-600"
+                      placeholder="Identificador da organização"
+                      value={ssoOrganization}
+                      onChange={(e) => setSsoOrganization(e.target.value)}
+                      autoFocus
+                    />
+                    <Button
+                      type="button"
+                      variant="outline"
+                      className="border-slate-600 bg-transparent hover:bg-slate-700"
+                      disabled={!ssoOrganization.trim()}
+                      onClick={() => startSsoLogin(ssoOrganization.trim())}
+                    >
+                      Continuar
+                    </Button>
+                  </div>
+                ) : (
+                  <div className="text-center">
+                    <button
+                      type="button"
+                      className="text-slate-400 hover:text-slate-300 text-sm"
+                      onClick={() => setSsoFormOpen(true)}
+                    >
+                      Entrar com SSO corporativo
+                    </button>
+                  </div>
+                )}
+
                 <div className="text-center">
                   <Link href="/register" className="text-primary hover:text-primary/80 text-sm">
                     Não tem uma conta? Registre-se
@@ -176,6 +385,7 @@ export default function Login() {
               </div>
             </form>
           </Form>
+          )}
         </motion.div>
 
         <RocketAnimation />
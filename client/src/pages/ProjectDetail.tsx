@@ -1,6 +1,7 @@
 import { useQuery, useMutation } from "@tanstack/react-query";
 import { useState } from "react";
 import { apiRequest, queryClient } from "@/lib/queryClient";
+import { fetchAllPages } from "@/lib/pagination";
 import { useToast } from "@/hooks/use-toast";
 import { Button } from "@/components/ui/button";
 import { Card } from "@/components/ui/card";
@@ -189,7 +190,7 @@ export default function ProjectDetail() {
     onSuccess: () => {
       toast({
         title: "Projeto excluído",
-        description: "O projeto foi excluído com sucesso",
+        description: "O projeto foi movido para a lixeira",
       });
       setLocation("/projects");
     },
@@ -265,7 +266,8 @@ export default function ProjectDetail() {
 
   // Fetch all users for add member form
   const { data: allUsers, isLoading: usersLoading } = useQuery({
-    queryKey: ["/api/users"],
+    queryKey: ["/api/users", "all"],
+    queryFn: () => fetchAllPages<any>("/api/users"),
     enabled: isAddMemberDialogOpen, // Only fetch when dialog is open
   });
 
@@ -816,9 +818,9 @@ export default function ProjectDetail() {
             </AlertDialogTitle>
             <AlertDialogDescription>
               {deleteConfirmationStep === 1 ? (
-                <>Tem certeza que deseja excluir o projeto "{project.name}"? Esta ação não pode ser desfeita e todos os dados relacionados serão perdidos.</>
+                <>Tem certeza que deseja excluir o projeto "{project.name}"? Ele irá para a lixeira junto com as tarefas, arquivos e comentários.</>
               ) : (
-                <>Esta é a última etapa de confirmação. Ao confirmar, o projeto "{project.name}" será permanentemente excluído junto com todas as suas tarefas, arquivos e histórico de atividades.</>
+                <>Esta é a última etapa de confirmação. O projeto "{project.name}" poderá ser restaurado na lixeira até o fim do prazo de retenção; depois disso, será excluído definitivamente.</>
               )}
             </AlertDialogDescription>
           </AlertDialogHeader>
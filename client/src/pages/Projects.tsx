@@ -1,8 +1,8 @@
 import { useQuery, useMutation } from "@tanstack/react-query";
-import { useState } from "react";
+import { useEffect, useRef, useState } from "react";
 import { apiRequest, queryClient } from "@/lib/queryClient";
 import { useToast } from "@/hooks/use-toast";
-import { Link } from "wouter";
+import { Link, useSearch } from "wouter";
 import { Button } from "@/components/ui/button";
 import { Input } from "@/components/ui/input";
 import {
@@ -25,22 +25,53 @@ import {
   DropdownMenu,
   DropdownMenuContent,
   DropdownMenuItem,
+  DropdownMenuLabel,
+  DropdownMenuSeparator,
   DropdownMenuTrigger,
 } from "@/components/ui/dropdown-menu";
 import { Tabs, TabsContent, TabsList, TabsTrigger } from "@/components/ui/tabs";
 import { ProjectForm, type ProjectFormValues } from "@/components/projects/ProjectForm";
 import ProjectCard from "@/components/dashboard/ProjectCard";
+import { SavedViewsMenu } from "@/components/views/SavedViewsMenu";
 import { Plus, Filter, Loader2, Search, MoreHorizontal } from "lucide-react";
+import {
+  DATE_RANGES,
+  DATE_RANGE_LABELS,
+  matchesProjectView,
+  type ProjectViewFilters,
+  type SavedViewSummary,
+} from "@shared/views";
 
 export default function Projects() {
   const [searchTerm, setSearchTerm] = useState("");
-  const [statusFilter, setStatusFilter] = useState("all");
+  const [filters, setFilters] = useState<ProjectViewFilters>({});
   const [isNewProjectDialogOpen, setIsNewProjectDialogOpen] = useState(false);
   const [projectToEdit, setProjectToEdit] = useState<any>(null);
   const [projectToDelete, setProjectToDelete] = useState<number | null>(null);
 
   const { toast } = useToast();
 
+  const applyView = (view: SavedViewSummary) => {
+    const { search, ...viewFilters } = view.filters as ProjectViewFilters;
+    setSearchTerm(search ?? "");
+    setFilters(viewFilters);
+  };
+
+  // Visão aberta pela barra lateral (?view=ID), aplicada uma vez por visão
+  const viewId = new URLSearchParams(useSearch()).get("view");
+  const appliedViewId = useRef<string | null>(null);
+  const { data: views } = useQuery<SavedViewSummary[]>({
+    queryKey: ["/api/views"],
+    enabled: !!viewId,
+  });
+  useEffect(() => {
+    const view = views?.find((view) => String(view.id) === viewId && view.target === "projects");
+    if (view && appliedViewId.current !== viewId) {
+      appliedViewId.current = viewId;
+      applyView(view);
+    }
+  }, [views, viewId]);
+
   // Fetch projects
   const { data: projects, isLoading } = useQuery({
     queryKey: ["/api/projects"],
@@ -99,7 +130,7 @@ export default function Projects() {
       queryClient.invalidateQueries({ queryKey: ["/api/projects"] });
       toast({
         title: "Projeto excluído",
-        description: "O projeto foi excluído com sucesso",
+        description: "O projeto foi movido para a lixeira",
       });
     },
     onError: (error: Error) => {
@@ -111,14 +142,9 @@ export default function Projects() {
     },
   });
 
-  // Filter projects by search term and status
+  // Filter projects by search term, status and deadline
   const filteredProjects = Array.isArray(projects)
-    ? projects.filter((project: any) => {
-        const matchesSearch = project.name.toLowerCase().includes(searchTerm.toLowerCase()) || 
-                            (project.description && project.description.toLowerCase().includes(searchTerm.toLowerCase()));
-        const matchesStatus = statusFilter === "all" || project.status === statusFilter;
-        return matchesSearch && matchesStatus;
-      })
+    ? projects.filter((project: any) => matchesProjectView(project, { ...filters, search: searchTerm }))
     : [];
 
   const handleCreateProject = (data: ProjectFormValues) => {
@@ -168,26 +194,42 @@ export default function Projects() {
               </Button>
             </DropdownMenuTrigger>
             <DropdownMenuContent align="end">
-              <DropdownMenuItem onClick={() => setStatusFilter("all")}>
+              <DropdownMenuItem onClick={() => setFilters({ ...filters, status: undefined })}>
                 Todos
               </DropdownMenuItem>
-              <DropdownMenuItem onClick={() => setStatusFilter("planning")}>
+              <DropdownMenuItem onClick={() => setFilters({ ...filters, status: ["planning"] })}>
                 Em planejamento
               </DropdownMenuItem>
-              <DropdownMenuItem onClick={() => setStatusFilter("in_progress")}>
+              <DropdownMenuItem onClick={() => setFilters({ ...filters, status: ["in_progress"] })}>
                 Em progresso
               </DropdownMenuItem>
-              <DropdownMenuItem onClick={() => setStatusFilter("testing")}>
+              <DropdownMenuItem onClick={() => setFilters({ ...filters, status: ["testing"] })}>
                 Em testes
               </DropdownMenuItem>
-              <DropdownMenuItem onClick={() => setStatusFilter("completed")}>
+              <DropdownMenuItem onClick={() => setFilters({ ...filters, status: ["completed"] })}>
                 Concluídos
               </DropdownMenuItem>
-              <DropdownMenuItem onClick={() => setStatusFilter("on_hold")}>
+              <DropdownMenuItem onClick={() => setFilters({ ...filters, status: ["on_hold"] })}>
                 Em pausa
               </DropdownMenuItem>
+
+              <DropdownMenuSeparator />
+              <DropdownMenuLabel>Prazo</DropdownMenuLabel>
+              <DropdownMenuItem onClick={() => setFilters({ ...filters, deadline: undefined })}>
+                Qualquer prazo
+              </DropdownMenuItem>
+              {DATE_RANGES.map((range) => (
+                <DropdownMenuItem key={range} onClick={() => setFilters({ ...filters, deadline: range })}>
+                  {DATE_RANGE_LABELS[range]}
+                </DropdownMenuItem>
+              ))}
             </DropdownMenuContent>
           </DropdownMenu>
+          <SavedViewsMenu
+            target="projects"
+            filters={{ ...filters, search: searchTerm.trim() || undefined }}
+            onApply={applyView}
+          />
           <Button onClick={() => setIsNewProjectDialogOpen(true)}>
             <Plus className="h-4 w-4 mr-2" />
             Novo Projeto
@@ -433,8 +475,8 @@ export default function Projects() {
           <AlertDialogHeader>
             <AlertDialogTitle>Confirmar exclusão</AlertDialogTitle>
             <AlertDialogDescription>
-              Tem certeza que deseja excluir este projeto? Esta ação não pode ser desfeita e todos os
-              dados relacionados (tarefas, arquivos, etc.) serão perdidos.
+              Tem certeza que deseja excluir este projeto? Ele irá para a lixeira junto com as tarefas,
+              arquivos e comentários, e poderá ser restaurado até o fim do prazo de retenção.
             </AlertDialogDescription>
           </AlertDialogHeader>
           <AlertDialogFooter>
@@ -1,4 +1,4 @@
-import { useState } from "react";
+import { useEffect, useState } from "react";
 import { Link, useLocation } from "wouter";
 import { z } from "zod";
 import { useForm } from "react-hook-form";
@@ -27,6 +27,7 @@ import {
 import { Input } from "@/components/ui/input";
 import { useToast } from "@/hooks/use-toast";
 import { apiRequest } from "@/lib/queryClient";
+import { useSettings } from "@/contexts/SettingsContext";
 
 // Schemas específicos para cada etapa
 const step1Schema = z.object({
@@ -93,6 +94,11 @@ export default function Register() {
   const [isLoading, setIsLoading] = useState(false);
   const [currentStep, setCurrentStep] = useState(1);
   const { toast } = useToast();
+  const { settings } = useSettings();
+  
+  // No endereço de uma organização (domínio ou /o/:slug) o cadastro entra nela
+  const tenantOrganization = settings?.organization?.id ? settings.organization : null;
+  const isSignupClosed = !!tenantOrganization && !tenantOrganization.allowSelfRegistration;
 
   const form = useForm<FormValues>({
     resolver: zodResolver(formSchema),
@@ -107,6 +113,12 @@ export default function Register() {
     },
   });
 
+  useEffect(() => {
+    if (tenantOrganization) {
+      form.setValue("organizationName", tenantOrganization.name);
+    }
+  }, [tenantOrganization?.name]);
+
   const validateStep = () => {
     switch (currentStep) {
       case 1:
@@ -149,22 +161,33 @@ export default function Register() {
 
     setIsLoading(true);
     try {
-      // Primeiro, criar a organização
-      const orgData = await apiRequest<any>("POST", "/api/organizations", {
-        name: data.organizationName,
-      });
+      if (tenantOrganization) {
+        // Cadastro como membro da organização do endereço
+        await apiRequest<any>("POST", "/api/users", {
+          name: data.name,
+          email: data.email,
+          phone: data.phone,
+          username: data.username,
+          password: data.password,
+          role: "member"
+        });
+      } else {
+        // Primeiro, criar a organização
+        const orgData = await apiRequest<any>("POST", "/api/organizations", {
+          name: data.organizationName,
+        });
 
-      // Em seguida, criar o usuário admin
-      const userData = await apiRequest<any>("POST", "/api/users", {
-        name: data.name,
-        email: data.email,
-        phone: data.phone,
-        username: data.username,
-        password: data.password,
-        role: "admin",
-        organizationId: orgData.id,
-        orgRole: "owner"
-      });
+        // Em seguida, criar o usuário admin
+        await apiRequest<any>("POST", "/api/users", {
+          name: data.name,
+          email: data.email,
+          phone: data.phone,
+          username: data.username,
+          password: data.password,
+          role: "admin",
+          ownerToken: orgData.ownerToken
+        });
+      }
 
       // Fazer login automaticamente
       try {
@@ -226,13 +249,18 @@ export default function Register() {
                   <FormControl>
                     <div className="relative">
                       <Building className="absolute left-3 top-3 h-4 w-4 text-slate-500" />
-                      <Input className="pl-10" placeholder="Sua Empresa Ltda." {...field} />
+                      <Input className="pl-10" placeholder="Sua Empresa Ltda." disabled={!!tenantOrganization} {...field} />
                     </div>
                   </FormControl>
                   <FormMessage />
                 </FormItem>
               )}
             />
+            {isSignupClosed && (
+              <p className="text-sm text-amber-400">
+                O cadastro nesta organização é feito apenas por convite. Peça um convite a um administrador.
+              </p>
+            )}
           </div>
         );
       case 2:
@@ -432,6 +460,7 @@ export default function Register() {
                   <Button
                     type="button"
                     onClick={handleNext}
+                    disabled={isSignupClosed}
                     className="bg-gradient-to-r from-primary to-purple-500 hover:from-primary/80 hover:to-purple-400 w-full sm:w-auto"
                   >
                     Próximo
@@ -1,5 +1,6 @@
 import React, { useState } from "react";
 import { useQuery } from "@tanstack/react-query";
+import { fetchAllPages } from "@/lib/pagination";
 import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/ui/card";
 import { Tabs, TabsContent, TabsList, TabsTrigger } from "@/components/ui/tabs";
 import { Button } from "@/components/ui/button";
@@ -311,14 +312,16 @@ export default function Reports() {
     queryKey: ["/api/projects"],
   });
   
-  // Buscar todas as tarefas
+  // Buscar todas as tarefas (todas as páginas)
   const { data: tasks, isLoading: tasksLoading } = useQuery({
-    queryKey: ["/api/tasks"],
+    queryKey: ["/api/tasks", "all"],
+    queryFn: () => fetchAllPages<any>("/api/tasks"),
   });
   
   // Buscar atividades
   const { data: activities, isLoading: activitiesLoading } = useQuery({
-    queryKey: ["/api/activities"],
+    queryKey: ["/api/activities", "all"],
+    queryFn: () => fetchAllPages<any>("/api/activities"),
   });
   
   // Filtrar dados por data
@@ -0,0 +1,157 @@
+import { useState } from "react";
+import { Link, useLocation, useRoute } from "wouter";
+import { useQuery } from "@tanstack/react-query";
+import { z } from "zod";
+import { useForm } from "react-hook-form";
+import { zodResolver } from "@hookform/resolvers/zod";
+import { LucideRocket, Loader2, Lock, KeyRound } from "lucide-react";
+
+import { Button } from "@/components/ui/button";
+import {
+  Form,
+  FormControl,
+  FormField,
+  FormItem,
+  FormLabel,
+  FormMessage,
+} from "@/components/ui/form";
+import { Input } from "@/components/ui/input";
+import { useToast } from "@/hooks/use-toast";
+import { useSettings } from "@/contexts/SettingsContext";
+import { apiRequest } from "@/lib/queryClient";
+
+const formSchema = z.object({
+  password: z.string().min(6, "Senha deve ter pelo menos 6 caracteres"),
+  confirmPassword: z.string(),
+}).refine((data) => data.password === data.confirmPassword, {
+  message: "As senhas não coincidem",
+  path: ["confirmPassword"],
+});
+
+type FormValues = z.infer<typeof formSchema>;
+
+export default function ResetPassword() {
+  const [, params] = useRoute("/reset-password/:token");
+  const token = params?.token || "";
+  const [, setLocation] = useLocation();
+  const { settings } = useSettings();
+  const organizationName = settings?.organization?.name || "LaunchRocket";
+  const { toast } = useToast();
+  const [isSubmitting, setIsSubmitting] = useState(false);
+
+  // Validar o link antes de exibir o formulário
+  const { isLoading, error } = useQuery<{ expiresAt: string }>({
+    queryKey: [`/api/auth/reset-password/${encodeURIComponent(token)}`],
+    enabled: !!token,
+  });
+
+  const form = useForm<FormValues>({
+    resolver: zodResolver(formSchema),
+    defaultValues: { password: "", confirmPassword: "" },
+  });
+
+  const onSubmit = async (data: FormValues) => {
+    setIsSubmitting(true);
+    try {
+      await apiRequest("POST", "/api/auth/reset-password", { token, password: data.password });
+      toast({
+        title: "Senha redefinida",
+        description: "Faça login com a nova senha",
+      });
+      setLocation("/login");
+    } catch (err: any) {
+      toast({
+        title: "Erro ao redefinir senha",
+        description: err.message || "Não foi possível redefinir a senha",
+        variant: "destructive",
+      });
+    } finally {
+      setIsSubmitting(false);
+    }
+  };
+
+  const renderBody = () => {
+    if (isLoading) {
+      return (
+        <div className="flex justify-center py-8">
+          <Loader2 className="h-8 w-8 animate-spin text-primary" />
+        </div>
+      );
+    }
+
+    if (error || !token) {
+      return (
+        <div className="text-center space-y-4">
+          <p className="text-slate-300">Este link de redefinição é inválido, já foi utilizado ou expirou.</p>
+          <Link href="/forgot-password" className="text-primary hover:text-primary/80 text-sm">
+            Solicitar um novo link
+          </Link>
+        </div>
+      );
+    }
+
+    return (
+      <Form {...form}>
+        <form onSubmit={form.handleSubmit(onSubmit)} className="space-y-6">
+          <div className="text-center">
+            <KeyRound className="h-10 w-10 text-primary mx-auto mb-3" />
+            <h1 className="text-xl font-semibold">Nova senha</h1>
+            <p className="text-slate-400 text-sm mt-1">
+              Ao salvar, você será desconectado dos outros dispositivos.
+            </p>
+          </div>
+          <FormField
+            control={form.control}
+            name="password"
+            render={({ field }) => (
+              <FormItem>
+                <FormLabel>Nova senha</FormLabel>
+                <FormControl>
+                  <div className="relative">
+                    <Lock className="absolute left-3 top-3 h-4 w-4 text-slate-500" />
+                    <Input type="password" className="pl-10 bg-slate-700 border-slate-600" {...field} />
+                  </div>
+                </FormControl>
+                <FormMessage />
+              </FormItem>
+            )}
+          />
+          <FormField
+            control={form.control}
+            name="confirmPassword"
+            render={({ field }) => (
+              <FormItem>
+                <FormLabel>Confirmar nova senha</FormLabel>
+                <FormControl>
+                  <div className="relative">
+                    <Lock className="absolute left-3 top-3 h-4 w-4 text-slate-500" />
+                    <Input type="password" className="pl-10 bg-slate-700 border-slate-600" {...field} />
+                  </div>
+                </FormControl>
+                <FormMessage />
+              </FormItem>
+            )}
+          />
+          <Button type="submit" className="w-full" disabled={isSubmitting}>
+            {isSubmitting && <Loader2 className="mr-2 h-4 w-4 animate-spin" />}
+            Salvar nova senha
+          </Button>
+        </form>
+      </Form>
+    );
+  };
+
+  return (
+    <div className="min-h-screen bg-gradient-to-b from-slate-950 to-slate-900 flex flex-col items-center justify-center p-4 text-white">
+      <div className="w-full max-w-md">
+        <div className="flex items-center justify-center gap-2 mb-8">
+          <LucideRocket className="text-primary h-8 w-8" />
+          <span className="text-2xl font-bold bg-gradient-to-r from-primary to-purple-500 bg-clip-text text-transparent">
+            {organizationName}
+          </span>
+        </div>
+        <div className="bg-slate-800 rounded-lg p-8 shadow-lg">{renderBody()}</div>
+      </div>
+    </div>
+  );
+}
@@ -1,72 +1,127 @@
-import React, { useState, useEffect } from "react";
-import { useQuery } from "@tanstack/react-query";
+import React, { useState } from "react";
+import { keepPreviousData, useQuery } from "@tanstack/react-query";
+import { apiRequest } from "@/lib/queryClient";
+import { fetchAllPages, listUrl } from "@/lib/pagination";
+import { useDebouncedValue } from "@/hooks/use-debounced-value";
 import { motion } from "framer-motion";
 import { Input } from "@/components/ui/input";
 import { Button } from "@/components/ui/button";
+import { Badge } from "@/components/ui/badge";
 import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/ui/card";
-import { Tabs, TabsContent, TabsList, TabsTrigger } from "@/components/ui/tabs";
-import { Search as SearchIcon, Filter, Tag, Clock, CalendarDays, BarChart, FileDown, ArrowUpDown } from "lucide-react";
+import { Tabs, TabsList, TabsTrigger } from "@/components/ui/tabs";
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from "@/components/ui/select";
+import { Search as SearchIcon, Filter, Tag, CalendarDays, Loader2 } from "lucide-react";
 import { transitions } from "@/lib/animations";
-import ProjectFilter, { ProjectFilterState } from "@/components/projects/ProjectFilter";
 import ReportExporter from "@/components/reports/ReportExporter";
-import TaskTags from "@/components/tasks/TaskTags";
 import { format } from "date-fns";
 import { ptBR } from "date-fns/locale";
 import { Link } from "wouter";
+import {
+  MAX_SEARCH_LIMIT,
+  SEARCH_RESULT_LABELS,
+  SEARCH_RESULT_TYPES,
+  type SearchHighlight,
+  type SearchResponse,
+  type SearchResult,
+  type SearchResultType,
+} from "@shared/search";
+import type { TagSummary } from "@shared/tags";
+
+const statusOptions = [
+  { value: "planning", label: "Planejamento" },
+  { value: "todo", label: "A fazer" },
+  { value: "in_progress", label: "Em andamento" },
+  { value: "review", label: "Em revisão" },
+  { value: "testing", label: "Em teste" },
+  { value: "on_hold", label: "Em espera" },
+  { value: "completed", label: "Concluído" },
+];
+
+const statusLabels: Record<string, string> = Object.fromEntries(statusOptions.map(option => [option.value, option.label]));
+
+// Texto com os trechos encontrados destacados
+function Highlighted({ text, ranges }: { text: string; ranges: SearchHighlight[] }) {
+  const parts: React.ReactNode[] = [];
+  let position = 0;
+  ranges.forEach(([start, end], index) => {
+    if (start > position) parts.push(text.slice(position, start));
+    parts.push(<mark key={index} className="bg-yellow-100 text-inherit rounded px-0.5">{text.slice(start, end)}</mark>);
+    position = end;
+  });
+  parts.push(text.slice(position));
+  return <>{parts}</>;
+}
+
+// Página de destino de cada tipo de resultado
+function resultHref(result: SearchResult): string {
+  switch (result.type) {
+    case "project":
+      return `/projects/${result.id}`;
+    case "task":
+      return `/tasks/${result.id}`;
+    default:
+      return result.taskId ? `/tasks/${result.taskId}` : `/projects/${result.projectId}`;
+  }
+}
 
 export default function Search() {
   const [searchQuery, setSearchQuery] = useState("");
-  const [projectFilters, setProjectFilters] = useState<ProjectFilterState>({
-    search: "",
-    status: [],
-    sortBy: "recent",
-    sortOrder: "desc"
+  const [searchType, setSearchType] = useState<"all" | SearchResultType>("all");
+  const [status, setStatus] = useState("all");
+  const [assignedTo, setAssignedTo] = useState("all");
+  const [tagId, setTagId] = useState("all");
+  const [from, setFrom] = useState("");
+  const [to, setTo] = useState("");
+  const debouncedQuery = useDebouncedValue(searchQuery.trim());
+
+  const filter = {
+    type: searchType === "all" ? undefined : searchType,
+    status: status === "all" ? undefined : status,
+    assignedTo: assignedTo === "all" ? undefined : assignedTo,
+    tagIds: tagId === "all" ? undefined : tagId,
+    // Datas do formulário valem pelo dia inteiro, no fuso do navegador
+    from: from ? new Date(`${from}T00:00:00`).toISOString() : undefined,
+    to: to ? new Date(`${to}T23:59:59.999`).toISOString() : undefined,
+  };
+  const url = listUrl("/api/search", { limit: MAX_SEARCH_LIMIT, filter });
+
+  const { data, isLoading, isFetching } = useQuery<SearchResponse>({
+    queryKey: ["/api/search", debouncedQuery, filter],
+    queryFn: () => apiRequest("GET", `${url}${url.includes("?") ? "&" : "?"}q=${encodeURIComponent(debouncedQuery)}`),
+    enabled: debouncedQuery.length >= 2,
+    placeholderData: keepPreviousData,
   });
-  const [selectedTags, setSelectedTags] = useState<string[]>([]);
-  const [searchType, setSearchType] = useState<"projects" | "tasks" | "files">("projects");
 
-  // Fetch projects with filters
-  const { data: projects, isLoading: projectsLoading } = useQuery({
-    queryKey: ["/api/projects", projectFilters],
-    enabled: searchType === "projects",
+  const { data: users = [] } = useQuery({
+    queryKey: ["/api/users", "all"],
+    queryFn: () => fetchAllPages<any>("/api/users"),
   });
 
-  // Fetch tasks with filters
-  const { data: tasks, isLoading: tasksLoading } = useQuery({
-    queryKey: ["/api/tasks", searchQuery, selectedTags],
-    enabled: searchType === "tasks",
+  const { data: tags = [] } = useQuery<TagSummary[]>({
+    queryKey: ["/api/tags"],
   });
 
-  // Fetch files with filters
-  const { data: files, isLoading: filesLoading } = useQuery({
-    queryKey: ["/api/files", searchQuery],
-    enabled: searchType === "files",
+  const { data: projects } = useQuery({
+    queryKey: ["/api/projects"],
   });
 
-  // Handle search input change
-  const handleSearchInputChange = (e: React.ChangeEvent<HTMLInputElement>) => {
-    const value = e.target.value;
-    setSearchQuery(value);
-    
-    // If searching projects, update project filter
-    if (searchType === "projects") {
-      setProjectFilters(prev => ({
-        ...prev,
-        search: value
-      }));
-    }
-  };
+  const results = debouncedQuery.length >= 2 ? data?.results ?? [] : [];
+  const hasFilters = status !== "all" || assignedTo !== "all" || tagId !== "all" || from !== "" || to !== "";
 
   // Clear all filters
   const clearFilters = () => {
     setSearchQuery("");
-    setProjectFilters({
-      search: "",
-      status: [],
-      sortBy: "recent",
-      sortOrder: "desc"
-    });
-    setSelectedTags([]);
+    setStatus("all");
+    setAssignedTo("all");
+    setTagId("all");
+    setFrom("");
+    setTo("");
   };
 
   return (
@@ -81,7 +136,7 @@ export default function Search() {
           <div>
             <h1 className="text-2xl font-bold tracking-tight">Busca Avançada</h1>
             <p className="text-muted-foreground">
-              Encontre projetos, tarefas e arquivos facilmente
+              Encontre projetos, tarefas, comentários, arquivos e fases facilmente
             </p>
           </div>
         </div>
@@ -93,224 +148,145 @@ export default function Search() {
               Buscar
             </CardTitle>
             <CardDescription>
-              Filtre e encontre informações em todo o sistema
+              Acentos e maiúsculas são ignorados; os resultados trazem todas as palavras digitadas
             </CardDescription>
           </CardHeader>
           <CardContent>
             <div className="space-y-4">
-              <Tabs 
-                defaultValue={searchType} 
-                onValueChange={(value) => setSearchType(value as "projects" | "tasks" | "files")}
-                className="w-full"
-              >
-                <TabsList className="grid grid-cols-3 mb-4">
-                  <TabsTrigger value="projects" className="flex items-center gap-1">
-                    <BarChart className="h-4 w-4" />
-                    <span>Projetos</span>
-                  </TabsTrigger>
-                  <TabsTrigger value="tasks" className="flex items-center gap-1">
-                    <Clock className="h-4 w-4" /> 
-                    <span>Tarefas</span>
-                  </TabsTrigger>
-                  <TabsTrigger value="files" className="flex items-center gap-1">
-                    <FileDown className="h-4 w-4" />
-                    <span>Arquivos</span>
-                  </TabsTrigger>
-                </TabsList>
-
-                <div className="relative mb-4">
-                  <SearchIcon className="absolute left-3 top-1/2 transform -translate-y-1/2 text-gray-400 h-4 w-4" />
-                  <Input
-                    placeholder={`Buscar ${searchType === "projects" ? "projetos" : searchType === "tasks" ? "tarefas" : "arquivos"}...`}
-                    className="pl-10 w-full"
-                    value={searchQuery}
-                    onChange={handleSearchInputChange}
-                  />
-                  {(searchQuery !== "" || selectedTags.length > 0 || 
-                      (searchType === "projects" && (projectFilters.status.length > 0 || projectFilters.sortBy !== "recent"))) && (
-                    <Button
-                      variant="ghost"
-                      size="sm"
-                      onClick={clearFilters}
-                      className="absolute right-2 top-1/2 transform -translate-y-1/2 h-7 px-2 text-xs"
-                    >
-                      Limpar
-                    </Button>
-                  )}
-                </div>
-
-                <TabsContent value="projects" className="mt-0">
-                  <ProjectFilter onFilterChange={setProjectFilters} />
-                  
-                  <div className="mt-4">
-                    {projectsLoading ? (
-                      <div className="text-center py-8">
-                        <div className="animate-spin h-8 w-8 border-2 border-primary border-t-transparent rounded-full mx-auto"></div>
-                        <p className="mt-2 text-sm text-gray-500">Carregando projetos...</p>
-                      </div>
-                    ) : projects && Array.isArray(projects) && projects.length > 0 ? (
-                      <div className="space-y-4">
-                        {projects.map((project: any) => (
-                          <Card key={project.id} className="overflow-hidden transition-all hover:shadow-md">
-                            <Link href={`/projects/${project.id}`}>
-                              <a className="block p-4">
-                                <div className="flex justify-between">
-                                  <div>
-                                    <h3 className="text-lg font-semibold text-gray-900">{project.name}</h3>
-                                    <p className="text-sm text-gray-500 mt-1 line-clamp-1">{project.description}</p>
-                                  </div>
-                                  <div className="flex flex-col items-end">
-                                    <div className="text-xs font-medium text-gray-400 mb-1">
-                                      <CalendarDays className="h-3 w-3 inline mr-1" />
-                                      {format(new Date(project.deadline), "dd MMM yyyy", { locale: ptBR })}
-                                    </div>
-                                    <div className={`text-xs font-medium px-2 py-0.5 rounded-full ${
-                                      project.status === 'planning' ? 'bg-blue-100 text-blue-800' :
-                                      project.status === 'in_progress' ? 'bg-amber-100 text-amber-800' :
-                                      project.status === 'testing' ? 'bg-purple-100 text-purple-800' :
-                                      project.status === 'completed' ? 'bg-green-100 text-green-800' :
-                                      'bg-red-100 text-red-800'
-                                    }`}>
-                                      {project.status === 'planning' ? 'Planejamento' :
-                                      project.status === 'in_progress' ? 'Em andamento' :
-                                      project.status === 'testing' ? 'Em teste' :
-                                      project.status === 'completed' ? 'Concluído' :
-                                      'Em espera'}
-                                    </div>
-                                  </div>
-                                </div>
-                              </a>
-                            </Link>
-                          </Card>
-                        ))}
-                      </div>
-                    ) : (
-                      <div className="text-center py-8">
-                        <SearchIcon className="h-8 w-8 text-gray-300 mx-auto mb-2" />
-                        <h3 className="text-lg font-medium text-gray-900">Nenhum projeto encontrado</h3>
-                        <p className="text-gray-500 mt-1">Tente alterar os filtros ou criar um novo projeto</p>
-                      </div>
-                    )}
-                  </div>
-                </TabsContent>
-
-                <TabsContent value="tasks" className="mt-0">
-                  <div className="space-y-4">
-                    <div className="bg-gray-50 p-4 rounded-md">
-                      <div className="flex items-center gap-2 mb-2">
-                        <Tag className="h-4 w-4 text-gray-500" />
-                        <h3 className="text-sm font-medium">Filtrar por tags</h3>
-                      </div>
-                      <TaskTags 
-                        initialTags={selectedTags}
-                        onChange={setSelectedTags}
-                      />
-                    </div>
+              <div className="relative">
+                <SearchIcon className="absolute left-3 top-1/2 transform -translate-y-1/2 text-gray-400 h-4 w-4" />
+                <Input
+                  placeholder="Buscar em todo o sistema..."
+                  className="pl-10 w-full"
+                  value={searchQuery}
+                  onChange={(e) => setSearchQuery(e.target.value)}
+                />
+                {(searchQuery !== "" || hasFilters) && (
+                  <Button
+                    variant="ghost"
+                    size="sm"
+                    onClick={clearFilters}
+                    className="absolute right-2 top-1/2 transform -translate-y-1/2 h-7 px-2 text-xs"
+                  >
+                    Limpar
+                  </Button>
+                )}
+              </div>
 
-                    <div className="flex justify-between items-center">
-                      <div className="text-sm text-gray-500">
-                        Resultados: {tasks ? (Array.isArray(tasks) ? tasks.length : 0) : 0}
-                      </div>
-                      <Button variant="outline" size="sm" className="h-8 gap-1">
-                        <ArrowUpDown className="h-3.5 w-3.5" />
-                        <span>Ordenar</span>
-                      </Button>
-                    </div>
+              <div className="grid grid-cols-1 sm:grid-cols-2 lg:grid-cols-5 gap-3">
+                <Select value={status} onValueChange={setStatus}>
+                  <SelectTrigger>
+                    <SelectValue placeholder="Status" />
+                  </SelectTrigger>
+                  <SelectContent>
+                    <SelectItem value="all">Todos os status</SelectItem>
+                    {statusOptions.map((option) => (
+                      <SelectItem key={option.value} value={option.value}>{option.label}</SelectItem>
+                    ))}
+                  </SelectContent>
+                </Select>
+                <Select value={assignedTo} onValueChange={setAssignedTo}>
+                  <SelectTrigger>
+                    <SelectValue placeholder="Responsável" />
+                  </SelectTrigger>
+                  <SelectContent>
+                    <SelectItem value="all">Qualquer responsável</SelectItem>
+                    {users.map((user: any) => (
+                      <SelectItem key={user.id} value={String(user.id)}>{user.name}</SelectItem>
+                    ))}
+                  </SelectContent>
+                </Select>
+                <Select value={tagId} onValueChange={setTagId}>
+                  <SelectTrigger>
+                    <SelectValue placeholder="Tag" />
+                  </SelectTrigger>
+                  <SelectContent>
+                    <SelectItem value="all">Qualquer tag</SelectItem>
+                    {tags.map((tag) => (
+                      <SelectItem key={tag.id} value={String(tag.id)}>{tag.name}</SelectItem>
+                    ))}
+                  </SelectContent>
+                </Select>
+                <Input type="date" aria-label="Criado a partir de" value={from} onChange={(e) => setFrom(e.target.value)} />
+                <Input type="date" aria-label="Criado até" value={to} onChange={(e) => setTo(e.target.value)} />
+              </div>
 
-                    {tasksLoading ? (
-                      <div className="text-center py-8">
-                        <div className="animate-spin h-8 w-8 border-2 border-primary border-t-transparent rounded-full mx-auto"></div>
-                        <p className="mt-2 text-sm text-gray-500">Carregando tarefas...</p>
-                      </div>
-                    ) : tasks && Array.isArray(tasks) && tasks.length > 0 ? (
-                      <div className="space-y-3">
-                        {tasks.map((task: any) => (
-                          <Card key={task.id} className="overflow-hidden">
-                            <Link href={`/tasks/${task.id}`}>
-                              <a className="block p-4">
-                                <div className="flex justify-between">
-                                  <div>
-                                    <h3 className="font-medium text-gray-900">{task.name}</h3>
-                                    <p className="text-xs text-gray-500 mt-1">
-                                      Projeto: {task.projectName || "Sem projeto"}
-                                    </p>
-                                  </div>
-                                  <div className="flex flex-col items-end">
-                                    {task.dueDate && (
-                                      <div className="text-xs text-gray-400 mb-1">
-                                        {format(new Date(task.dueDate), "dd MMM", { locale: ptBR })}
-                                      </div>
-                                    )}
-                                    <div className={`text-xs px-2 py-0.5 rounded-full ${
-                                      task.priority === 'high' ? 'bg-red-100 text-red-800' :
-                                      task.priority === 'medium' ? 'bg-amber-100 text-amber-800' :
-                                      'bg-green-100 text-green-800'
-                                    }`}>
-                                      {task.priority === 'high' ? 'Alta' :
-                                      task.priority === 'medium' ? 'Média' : 'Baixa'}
-                                    </div>
-                                  </div>
-                                </div>
-                              </a>
-                            </Link>
-                          </Card>
-                        ))}
-                      </div>
-                    ) : (
-                      <div className="text-center py-8">
-                        <SearchIcon className="h-8 w-8 text-gray-300 mx-auto mb-2" />
-                        <h3 className="text-lg font-medium text-gray-900">Nenhuma tarefa encontrada</h3>
-                        <p className="text-gray-500 mt-1">Tente alterar os filtros ou criar uma nova tarefa</p>
-                      </div>
-                    )}
-                  </div>
-                </TabsContent>
+              <Tabs value={searchType} onValueChange={(value) => setSearchType(value as "all" | SearchResultType)}>
+                <TabsList className="flex flex-wrap h-auto">
+                  <TabsTrigger value="all">Todos</TabsTrigger>
+                  {SEARCH_RESULT_TYPES.map((type) => (
+                    <TabsTrigger key={type} value={type}>
+                      {SEARCH_RESULT_LABELS[type]}
+                      {data && searchType === "all" && debouncedQuery.length >= 2 && (
+                        <span className="ml-1 text-xs text-gray-400">{data.counts[type]}</span>
+                      )}
+                    </TabsTrigger>
+                  ))}
+                </TabsList>
+              </Tabs>
 
-                <TabsContent value="files" className="mt-0">
-                  {filesLoading ? (
-                    <div className="text-center py-8">
-                      <div className="animate-spin h-8 w-8 border-2 border-primary border-t-transparent rounded-full mx-auto"></div>
-                      <p className="mt-2 text-sm text-gray-500">Carregando arquivos...</p>
-                    </div>
-                  ) : files && Array.isArray(files) && files.length > 0 ? (
-                    <div className="space-y-3">
-                      {files.map((file: any) => (
-                        <Card key={file.id} className="overflow-hidden">
-                          <div className="p-4">
-                            <div className="flex justify-between">
-                              <div className="flex items-start gap-3">
-                                <div className="bg-gray-100 p-2 rounded">
-                                  <FileDown className="h-5 w-5 text-gray-500" />
-                                </div>
-                                <div>
-                                  <h3 className="font-medium text-gray-900">{file.name}</h3>
-                                  <p className="text-xs text-gray-500 mt-1">
-                                    {file.size ? `${(file.size / 1024).toFixed(2)} KB` : "Tamanho desconhecido"} • 
-                                    {file.uploadedAt ? format(new Date(file.uploadedAt), " dd MMM yyyy", { locale: ptBR }) : ""}
-                                  </p>
-                                </div>
-                              </div>
-                              <div>
-                                <Button variant="ghost" size="sm" asChild>
-                                  <Link href={`/api/files/${file.id}/download`}>
-                                    <a>Baixar</a>
-                                  </Link>
-                                </Button>
+              {debouncedQuery.length < 2 ? (
+                <div className="text-center py-8">
+                  <SearchIcon className="h-8 w-8 text-gray-300 mx-auto mb-2" />
+                  <p className="text-gray-500">Digite ao menos 2 caracteres para buscar</p>
+                </div>
+              ) : isLoading ? (
+                <div className="text-center py-8">
+                  <Loader2 className="h-8 w-8 animate-spin text-primary mx-auto" />
+                  <p className="mt-2 text-sm text-gray-500">Buscando...</p>
+                </div>
+              ) : results.length > 0 ? (
+                <div className={`space-y-3 ${isFetching ? "opacity-60" : ""}`}>
+                  {results.map((result) => (
+                    <Card key={`${result.type}-${result.id}`} className="overflow-hidden transition-all hover:shadow-md">
+                      <Link href={resultHref(result)}>
+                        <a className="block p-4">
+                          <div className="flex justify-between gap-4">
+                            <div className="min-w-0">
+                              <div className="flex items-center gap-2">
+                                <Badge variant="outline">{SEARCH_RESULT_LABELS[result.type]}</Badge>
+                                <h3 className="font-medium text-gray-900 truncate">
+                                  <Highlighted text={result.title} ranges={result.highlights.title} />
+                                </h3>
                               </div>
+                              {result.snippet && (
+                                <p className="text-sm text-gray-600 mt-1 line-clamp-2">
+                                  <Highlighted text={result.snippet} ranges={result.highlights.snippet} />
+                                </p>
+                              )}
+                              <p className="text-xs text-gray-500 mt-1">
+                                {[
+                                  result.type !== "project" && result.projectName && `Projeto: ${result.projectName}`,
+                                  result.type !== "task" && result.taskName && `Tarefa: ${result.taskName}`,
+                                ].filter(Boolean).join(" • ")}
+                              </p>
+                            </div>
+                            <div className="flex flex-col items-end shrink-0">
+                              {result.date && (
+                                <div className="text-xs text-gray-400 mb-1">
+                                  <CalendarDays className="h-3 w-3 inline mr-1" />
+                                  {format(new Date(result.date), "dd MMM yyyy", { locale: ptBR })}
+                                </div>
+                              )}
+                              {result.status && (
+                                <Badge variant="secondary" className="text-xs">
+                                  {statusLabels[result.status] ?? result.status}
+                                </Badge>
+                              )}
                             </div>
                           </div>
-                        </Card>
-                      ))}
-                    </div>
-                  ) : (
-                    <div className="text-center py-8">
-                      <SearchIcon className="h-8 w-8 text-gray-300 mx-auto mb-2" />
-                      <h3 className="text-lg font-medium text-gray-900">Nenhum arquivo encontrado</h3>
-                      <p className="text-gray-500 mt-1">Tente alterar os termos da busca</p>
-                    </div>
-                  )}
-                </TabsContent>
-              </Tabs>
+                        </a>
+                      </Link>
+                    </Card>
+                  ))}
+                </div>
+              ) : (
+                <div className="text-center py-8">
+                  <SearchIcon className="h-8 w-8 text-gray-300 mx-auto mb-2" />
+                  <h3 className="text-lg font-medium text-gray-900">Nenhum resultado encontrado</h3>
+                  <p className="text-gray-500 mt-1">Tente outras palavras ou altere os filtros</p>
+                </div>
+              )}
             </div>
           </CardContent>
         </Card>
@@ -320,7 +296,7 @@ export default function Search() {
             type="overview"
             data={projects || []}
           />
-          
+
           <Card>
             <CardHeader>
               <CardTitle className="text-lg flex items-center">
@@ -359,4 +335,4 @@ export default function Search() {
       </div>
     </motion.div>
   );
-}
\ No newline at end of file
+}
@@ -1,8 +1,10 @@
 import React, { useState, useRef, useEffect } from "react";
-import { useQuery, useMutation } from "@tanstack/react-query";
+import { useMutation } from "@tanstack/react-query";
 import { apiRequest, queryClient } from "@/lib/queryClient";
 import { useToast } from "@/hooks/use-toast";
-import { useSettings } from "@/contexts/SettingsContext";
+import { useSettings, Settings as BrandingSettings } from "@/contexts/SettingsContext";
+import { applyTheme } from "@/lib/theme";
+import { tenantUrl } from "@/lib/tenant";
 import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/ui/card";
 import { Button } from "@/components/ui/button";
 import { Input } from "@/components/ui/input";
@@ -12,6 +14,12 @@ import { Switch } from "@/components/ui/switch";
 import { Tabs, TabsContent, TabsList, TabsTrigger } from "@/components/ui/tabs";
 import { Separator } from "@/components/ui/separator";
 import { Loader2, Upload, Save, RefreshCw, Image } from "lucide-react";
+import TwoFactorSettings from "@/components/auth/TwoFactorSettings";
+import ApiTokensSettings from "@/components/auth/ApiTokensSettings";
+import ActiveSessions from "@/components/auth/ActiveSessions";
+import PermissionMatrix from "@/components/auth/PermissionMatrix";
+import OrganizationAuditLog from "@/components/auth/OrganizationAuditLog";
+import TagManager from "@/components/tasks/TagManager";
 
 // Lista de cores primárias para escolha
 const COLOR_OPTIONS = [
@@ -55,34 +63,9 @@ export default function Settings() {
   const fileInputRef = useRef<HTMLInputElement>(null);
   const { toast } = useToast();
 
-  // Configurações padrão
-  const defaultSettings = {
-    theme: {
-      primary: "#0ea5e9",
-      variant: "professional",
-      appearance: "light",
-      radius: "0.5",
-    },
-    organization: {
-      name: "LaunchRocket",
-      logo: null as string | null,
-    }
-  };
-
-  // Buscar configurações atuais
-  const { data: settings, isLoading } = useQuery<typeof defaultSettings>({
-    queryKey: ["/api/settings"],
-    queryFn: async () => {
-      try {
-        const response = await apiRequest("GET", "/api/settings");
-        const data = await response.json();
-        return data;
-      } catch (error) {
-        // Se a API falhar, retorne as configurações padrão
-        return defaultSettings;
-      }
-    }
-  });
+  // Configurações atuais da organização (carregadas pelo SettingsContext)
+  const settingsContext = useSettings();
+  const { settings } = settingsContext;
 
   // Estado local para as configurações de tema
   const [themeSettings, setThemeSettings] = useState({
@@ -95,7 +78,8 @@ export default function Settings() {
   // Estado local para as configurações da organização
   const [orgSettings, setOrgSettings] = useState({
     name: "Sistema de Gestão de Projetos",
-    logo: null as string | null
+    logo: null as string | null,
+    allowSelfRegistration: false
   });
 
   // Atualizar estados locais quando os dados são carregados
@@ -105,25 +89,34 @@ export default function Settings() {
         setThemeSettings(settings.theme);
       }
       if (settings.organization) {
-        setOrgSettings(settings.organization);
+        setOrgSettings({
+          name: settings.organization.name,
+          logo: settings.organization.logo,
+          allowSelfRegistration: !!settings.organization.allowSelfRegistration,
+        });
       }
     }
   }, [settings]);
 
   // Mutation para salvar configurações
-  const saveSettingsMutation = useMutation<any, Error, typeof defaultSettings>({
-    mutationFn: async (data) => {
-      const response = await apiRequest("PUT", "/api/settings", data);
-      return response.json();
-    },
-    onSuccess: () => {
+  const saveSettingsMutation = useMutation<BrandingSettings, Error, Pick<BrandingSettings, "theme" | "organization">>({
+    mutationFn: (data) =>
+      apiRequest("PUT", "/api/settings", {
+        theme: data.theme,
+        organization: {
+          name: data.organization.name,
+          allowSelfRegistration: !!data.organization.allowSelfRegistration,
+        },
+      }),
+    onSuccess: (data) => {
       toast({
         title: "Configurações salvas",
         description: "As configurações foram atualizadas com sucesso",
       });
       
       // Atualizar o cache de query para refletir as novas configurações
-      queryClient.invalidateQueries({ queryKey: ["/api/settings"] });
+      queryClient.setQueryData(["/api/settings"], data);
+      queryClient.invalidateQueries({ queryKey: ["/api/auth/me"] });
       
       // Não recarregar a página, já aplicamos as mudanças em tempo real
     },
@@ -140,7 +133,7 @@ export default function Settings() {
   const uploadLogoMutation = useMutation<any, Error, FormData>({
     mutationFn: async (formData: FormData) => {
       // Nota: Para FormData, não usamos apiRequest diretamente pois ele define o Content-Type como application/json
-      const response = await fetch("/api/settings/logo", {
+      const response = await fetch(tenantUrl("/api/settings/logo"), {
         method: "POST",
         body: formData,
         credentials: "include"
@@ -153,12 +146,15 @@ export default function Settings() {
       
       return response.json();
     },
-    onSuccess: () => {
+    onSuccess: (data: { logo: string }) => {
       toast({
         title: "Logo enviado",
         description: "O logo foi enviado com sucesso",
       });
-      queryClient.invalidateQueries({ queryKey: ["/api/settings"] });
+      setLogoFile(null);
+      setLogoPreview(null);
+      settingsContext.updateOrganizationLogo(data.logo);
+      queryClient.invalidateQueries({ queryKey: ["/api/auth/me"] });
     },
     onError: (error: Error) => {
       toast({
@@ -177,7 +173,7 @@ export default function Settings() {
     });
     
     // Aplica a mudança em tempo real
-    document.documentElement.style.setProperty('--primary', color);
+    applyTheme({ primary: color });
   };
 
   // Manipular mudança de variante
@@ -188,7 +184,7 @@ export default function Settings() {
     });
     
     // Aplica a mudança em tempo real
-    document.documentElement.dataset.variant = variant;
+    applyTheme({ variant });
   };
 
   // Manipular mudança de aparência
@@ -199,11 +195,7 @@ export default function Settings() {
     });
     
     // Aplica a mudança em tempo real
-    if (appearance === 'dark') {
-      document.documentElement.classList.add('dark');
-    } else if (appearance === 'light') {
-      document.documentElement.classList.remove('dark');
-    }
+    applyTheme({ appearance });
   };
 
   // Manipular mudança de arredondamento
@@ -214,12 +206,9 @@ export default function Settings() {
     });
     
     // Aplica a mudança em tempo real
-    document.documentElement.style.setProperty('--radius', radius + 'rem');
+    applyTheme({ radius });
   };
 
-  // Acessar o contexto de configurações
-  const settingsContext = useSettings();
-  
   // Manipular mudança de nome da organização
   const handleOrgNameChange = (e: React.ChangeEvent<HTMLInputElement>) => {
     const newName = e.target.value;
@@ -298,6 +287,7 @@ export default function Settings() {
           <TabsTrigger value="visual">Personalização Visual</TabsTrigger>
           <TabsTrigger value="org">Organização</TabsTrigger>
           <TabsTrigger value="notifications">Notificações</TabsTrigger>
+          <TabsTrigger value="security">Segurança</TabsTrigger>
         </TabsList>
         
         <TabsContent value="visual">
@@ -413,6 +403,22 @@ export default function Settings() {
                     />
                   </div>
                   
+                  <div className="flex items-center justify-between">
+                    <div>
+                      <Label htmlFor="allow-self-registration">Permitir cadastro pelo endereço da organização</Label>
+                      <p className="text-sm text-gray-500">
+                        Quando desativado, novos membros só entram por convite
+                      </p>
+                    </div>
+                    <Switch
+                      id="allow-self-registration"
+                      checked={orgSettings.allowSelfRegistration}
+                      onCheckedChange={(checked) =>
+                        setOrgSettings({ ...orgSettings, allowSelfRegistration: checked })
+                      }
+                    />
+                  </div>
+                  
                   <Separator />
                   
                   <div>
@@ -479,6 +485,7 @@ export default function Settings() {
                 </div>
               </CardContent>
             </Card>
+            <TagManager />
           </div>
         </TabsContent>
         
@@ -543,6 +550,14 @@ export default function Settings() {
             </Card>
           </div>
         </TabsContent>
+
+        <TabsContent value="security" className="space-y-6">
+          <TwoFactorSettings />
+          <ActiveSessions />
+          <ApiTokensSettings />
+          <PermissionMatrix />
+          <OrganizationAuditLog />
+        </TabsContent>
       </Tabs>
     </div>
   );
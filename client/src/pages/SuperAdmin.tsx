@@ -2,6 +2,7 @@ import { useState, useEffect } from "react";
 import { useQuery, useMutation } from "@tanstack/react-query";
 import { useLocation } from "wouter";
 import { queryClient, apiRequest } from "@/lib/queryClient";
+import { fetchAllPages } from "@/lib/pagination";
 import { useAuth } from "@/contexts/AuthContext";
 import { useToast } from "@/hooks/use-toast";
 import { zodResolver } from "@hookform/resolvers/zod";
@@ -391,7 +392,7 @@ export default function SuperAdmin() {
   const fetchAgencyUser = async (agencyId: number) => {
     try {
       // Buscar todos os usuários (idealmente deveria ter um endpoint específico getUsersByPartnerAgencyId)
-      const users = await apiRequest<any[]>("GET", "/api/users");
+      const users = await fetchAllPages<any>("/api/users");
       // Encontrar o usuário que tem o partnerAgencyId correspondente
       const agencyUser = users.find(user => user.partnerAgencyId === agencyId);
       return agencyUser;
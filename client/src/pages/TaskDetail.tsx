@@ -1,7 +1,8 @@
 import { useState, useRef } from "react";
-import { useRoute, useLocation } from "wouter";
+import { Link, useRoute, useLocation } from "wouter";
 import { useQuery, useMutation } from "@tanstack/react-query";
-import { apiRequest, queryClient } from "@/lib/queryClient";
+import { apiRequest, getApiErrorMessage, queryClient } from "@/lib/queryClient";
+import { getConflictCurrent, ifMatch } from "@/lib/concurrency";
 import { useToast } from "@/hooks/use-toast";
 import { Card, CardContent, CardHeader, CardTitle, CardDescription, CardFooter } from "@/components/ui/card";
 import { Button } from "@/components/ui/button";
@@ -29,10 +30,17 @@ import {
 } from "@/components/ui/alert-dialog";
 import { Separator } from "@/components/ui/separator";
 import { Progress } from "@/components/ui/progress";
-import { Loader2, Plus, ArrowLeft, Calendar, Edit, Trash, CheckCircle, Clock, ArrowRight, ListChecks, Send, XCircle } from "lucide-react";
+import { Loader2, Plus, ArrowLeft, Calendar, Edit, Trash, CheckCircle, Clock, ArrowRight, ListChecks, ListTree, Send, XCircle } from "lucide-react";
 import { format } from "date-fns";
 import { ptBR } from "date-fns/locale";
 import { TaskForm, type TaskFormValues } from "@/components/tasks/TaskForm";
+import { TaskConflictDialog } from "@/components/tasks/TaskConflictDialog";
+import TaskTags from "@/components/tasks/TaskTags";
+import TaskDependencies, { getOpenBlockers } from "@/components/tasks/TaskDependencies";
+import TaskSubtasks, { invalidateSubtasks } from "@/components/tasks/TaskSubtasks";
+import { dependencyTypeLabels, type DependencyLink } from "@shared/dependencies";
+import type { TaskRollup } from "@shared/subtasks";
+import type { Task } from "@shared/schema";
 import FileUpload from "@/components/files/FileUpload";
 import FileList from "@/components/files/FileList";
 
@@ -102,16 +110,26 @@ export default function TaskDetail() {
   const [isDeleteAlertOpen, setIsDeleteAlertOpen] = useState(false);
   const [newChecklistItem, setNewChecklistItem] = useState("");
   const [newComment, setNewComment] = useState("");
+  // Alterações recusadas por conflito de versão (409), com a cópia atual do servidor
+  const [conflict, setConflict] = useState<{ changes: Partial<TaskFormValues>; current: Task } | null>(null);
+  // Mudança de status recusada por dependências abertas, à espera da confirmação
+  const [blocked, setBlocked] = useState<{ changes: Partial<TaskFormValues>; blockers: DependencyLink[] } | null>(null);
   
   const commentInputRef = useRef<HTMLTextAreaElement>(null);
   const { toast } = useToast();
   
   // Fetch task details
-  const { data: task, isLoading: taskLoading } = useQuery({
+  const { data: task, isLoading: taskLoading } = useQuery<Task & { tagIds?: number[]; rollup?: TaskRollup }>({
     queryKey: [`/api/tasks/${taskId}`],
     enabled: taskId > 0,
   });
   
+  // Tarefa pai, quando esta é uma subtarefa
+  const { data: parentTask } = useQuery<Task>({
+    queryKey: [`/api/tasks/${task?.parentTaskId}`],
+    enabled: !!task?.parentTaskId,
+  });
+  
   // Fetch project details for this task
   const { data: project } = useQuery({
     queryKey: [`/api/projects/${task?.projectId}`],
@@ -138,13 +156,33 @@ export default function TaskDetail() {
     enabled: taskId > 0,
   });
   
+  // Conflito de versão: mostra a comparação em vez do erro
+  const handleConflict = (error: Error, changes: Partial<TaskFormValues>) => {
+    const current = getConflictCurrent<Task>(error);
+    if (!current) return false;
+    setIsEditDialogOpen(false);
+    setConflict({ changes, current });
+    return true;
+  };
+  
+  // Dependências abertas: pede confirmação para alterar o status mesmo assim
+  const handleBlocked = (error: Error, changes: Partial<TaskFormValues>) => {
+    const blockers = getOpenBlockers(error);
+    if (!blockers) return false;
+    setIsEditDialogOpen(false);
+    setBlocked({ changes, blockers });
+    return true;
+  };
+  
   // Update task mutation
   const updateTaskMutation = useMutation({
-    mutationFn: async (data: TaskFormValues) => {
-      return apiRequest("PUT", `/api/tasks/${taskId}`, data);
+    mutationFn: async ({ data, version }: { data: Partial<TaskFormValues> & { overrideDependencies?: boolean }; version?: number }) => {
+      return apiRequest("PUT", `/api/tasks/${taskId}`, data, ifMatch(version));
     },
     onSuccess: () => {
       setIsEditDialogOpen(false);
+      setConflict(null);
+      setBlocked(null);
       queryClient.invalidateQueries({ queryKey: [`/api/tasks/${taskId}`] });
       queryClient.invalidateQueries({ queryKey: ["/api/tasks/user/me"] });
       toast({
@@ -152,7 +190,8 @@ export default function TaskDetail() {
         description: "A tarefa foi atualizada com sucesso",
       });
     },
-    onError: (error: Error) => {
+    onError: (error: Error, { data }) => {
+      if (handleConflict(error, data) || handleBlocked(error, data)) return;
       toast({
         title: "Erro ao atualizar tarefa",
         description: error.message || "Ocorreu um erro ao atualizar a tarefa",
@@ -169,7 +208,7 @@ export default function TaskDetail() {
     onSuccess: () => {
       toast({
         title: "Tarefa excluída",
-        description: "A tarefa foi excluída com sucesso",
+        description: "A tarefa foi movida para a lixeira",
       });
       setLocation("/tasks");
     },
@@ -186,7 +225,7 @@ export default function TaskDetail() {
   const updateTaskStatusMutation = useMutation({
     mutationFn: async (newStatus: string) => {
       // Enviando apenas o status, não todo o objeto task
-      return apiRequest("PUT", `/api/tasks/${taskId}`, { status: newStatus });
+      return apiRequest("PUT", `/api/tasks/${taskId}`, { status: newStatus }, ifMatch(task?.version));
     },
     onSuccess: () => {
       queryClient.invalidateQueries({ queryKey: [`/api/tasks/${taskId}`] });
@@ -196,7 +235,9 @@ export default function TaskDetail() {
         description: "O status da tarefa foi atualizado com sucesso",
       });
     },
-    onError: (error: Error) => {
+    onError: (error: Error, newStatus) => {
+      const changes = { status: newStatus as TaskFormValues["status"] };
+      if (handleConflict(error, changes) || handleBlocked(error, changes)) return;
       toast({
         title: "Erro ao atualizar status",
         description: error.message || "Ocorreu um erro ao atualizar o status da tarefa",
@@ -249,6 +290,28 @@ export default function TaskDetail() {
     },
   });
   
+  // Converte o item da checklist em subtarefa desta tarefa
+  const convertChecklistItemMutation = useMutation({
+    mutationFn: async (id: number) => {
+      return apiRequest("POST", `/api/checklist/${id}/subtask`);
+    },
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: [`/api/tasks/${taskId}/checklist`] });
+      if (task) invalidateSubtasks(task);
+      toast({
+        title: "Subtarefa criada",
+        description: "O item da lista agora é uma subtarefa",
+      });
+    },
+    onError: (error: Error) => {
+      toast({
+        title: "Erro ao converter item",
+        description: getApiErrorMessage(error, "Ocorreu um erro ao converter o item em subtarefa"),
+        variant: "destructive",
+      });
+    },
+  });
+  
   // Add comment mutation
   const addCommentMutation = useMutation({
     mutationFn: async (content: string) => {
@@ -276,7 +339,23 @@ export default function TaskDetail() {
   });
   
   const handleUpdateTask = (data: TaskFormValues) => {
-    updateTaskMutation.mutate(data);
+    updateTaskMutation.mutate({ data, version: task?.version });
+  };
+  
+  // Fica com a versão do servidor e descarta as alterações locais
+  const handleDiscardConflict = () => {
+    if (conflict) queryClient.setQueryData([`/api/tasks/${taskId}`], conflict.current);
+    setConflict(null);
+  };
+  
+  // Reenvia as alterações sobre a versão atual
+  const handleOverwriteConflict = () => {
+    if (conflict) updateTaskMutation.mutate({ data: conflict.changes, version: conflict.current.version });
+  };
+  
+  // Reenvia a mudança de status ignorando as dependências abertas
+  const handleOverrideDependencies = () => {
+    if (blocked) updateTaskMutation.mutate({ data: { ...blocked.changes, overrideDependencies: true }, version: task?.version });
   };
   
   const handleDeleteTask = () => {
@@ -328,7 +407,14 @@ export default function TaskDetail() {
           <ArrowLeft className="h-4 w-4 mr-1" />
           Voltar
         </Button>
-        <h2 className="text-2xl font-semibold text-gray-800">{task.name}</h2>
+        <div>
+          {parentTask && (
+            <Link href={`/tasks/${parentTask.id}`} className="text-sm text-gray-500 hover:underline">
+              Subtarefa de {parentTask.name}
+            </Link>
+          )}
+          <h2 className="text-2xl font-semibold text-gray-800">{task.name}</h2>
+        </div>
       </div>
       
       <div className="grid grid-cols-1 lg:grid-cols-3 gap-6">
@@ -349,6 +435,13 @@ export default function TaskDetail() {
                       <p className="text-gray-700">{task.description || "Sem descrição"}</p>
                     </div>
                     
+                    {!!task.tagIds?.length && (
+                      <div>
+                        <h3 className="text-sm font-medium text-gray-500 mb-1">Tags</h3>
+                        <TaskTags value={task.tagIds} readonly />
+                      </div>
+                    )}
+                    
                     <Separator />
                     
                     <div className="grid grid-cols-1 md:grid-cols-2 gap-4">
@@ -415,6 +508,26 @@ export default function TaskDetail() {
                   </div>
                 </CardContent>
               </Card>
+              
+              <Card className="mt-4">
+                <CardHeader>
+                  <CardTitle className="text-lg">Subtarefas</CardTitle>
+                  <CardDescription>O status e as horas estimadas das subtarefas somam nesta tarefa</CardDescription>
+                </CardHeader>
+                <CardContent>
+                  <TaskSubtasks task={task} />
+                </CardContent>
+              </Card>
+              
+              <Card className="mt-4">
+                <CardHeader>
+                  <CardTitle className="text-lg">Dependências</CardTitle>
+                  <CardDescription>Tarefas do projeto que precisam andar antes desta</CardDescription>
+                </CardHeader>
+                <CardContent>
+                  <TaskDependencies task={task} />
+                </CardContent>
+              </Card>
             </TabsContent>
             
             <TabsContent value="arquivos">
@@ -659,12 +772,22 @@ export default function TaskDetail() {
                       />
                       <label
                         htmlFor={`item-${item.id}`}
-                        className={`text-sm ${
+                        className={`flex-1 text-sm ${
                           item.isCompleted ? "line-through text-gray-400" : "text-gray-700"
                         }`}
                       >
                         {item.text}
                       </label>
+                      <Button
+                        variant="ghost"
+                        size="sm"
+                        className="h-6 w-6 p-0"
+                        title="Converter em subtarefa"
+                        onClick={() => convertChecklistItemMutation.mutate(item.id)}
+                        disabled={convertChecklistItemMutation.isPending}
+                      >
+                        <ListTree className="h-3.5 w-3.5 text-gray-400" />
+                      </Button>
                     </div>
                   ))}
                 </div>
@@ -727,14 +850,49 @@ export default function TaskDetail() {
         </DialogContent>
       </Dialog>
       
+      <TaskConflictDialog
+        changes={conflict?.changes ?? null}
+        current={conflict?.current ?? null}
+        onDiscard={handleDiscardConflict}
+        onOverwrite={handleOverwriteConflict}
+        isLoading={updateTaskMutation.isPending}
+      />
+      
+      <AlertDialog open={!!blocked} onOpenChange={(open) => !open && setBlocked(null)}>
+        <AlertDialogContent>
+          <AlertDialogHeader>
+            <AlertDialogTitle>Tarefa bloqueada</AlertDialogTitle>
+            <AlertDialogDescription asChild>
+              <div className="space-y-2">
+                <p>Esta tarefa depende de tarefas que ainda não chegaram à etapa necessária:</p>
+                <ul className="list-disc pl-5">
+                  {blocked?.blockers.map((link) => (
+                    <li key={link.id}>
+                      {link.task.name} <span className="text-xs">({dependencyTypeLabels[link.type]})</span>
+                    </li>
+                  ))}
+                </ul>
+                <p>Deseja alterar o status mesmo assim?</p>
+              </div>
+            </AlertDialogDescription>
+          </AlertDialogHeader>
+          <AlertDialogFooter>
+            <AlertDialogCancel>Cancelar</AlertDialogCancel>
+            <AlertDialogAction onClick={handleOverrideDependencies}>
+              Alterar mesmo assim
+            </AlertDialogAction>
+          </AlertDialogFooter>
+        </AlertDialogContent>
+      </AlertDialog>
+      
       {/* Delete Confirmation Dialog */}
       <AlertDialog open={isDeleteAlertOpen} onOpenChange={setIsDeleteAlertOpen}>
         <AlertDialogContent>
           <AlertDialogHeader>
             <AlertDialogTitle>Você tem certeza?</AlertDialogTitle>
             <AlertDialogDescription>
-              Esta ação não pode ser desfeita. Isso excluirá permanentemente a tarefa
-              e todos os dados associados a ela.
+              A tarefa irá para a lixeira junto com os arquivos e comentários,
+              e poderá ser restaurada até o fim do prazo de retenção.
             </AlertDialogDescription>
           </AlertDialogHeader>
           <AlertDialogFooter>
@@ -1,7 +1,10 @@
 import { useQuery, useMutation } from "@tanstack/react-query";
-import { useState } from "react";
-import { apiRequest, queryClient } from "@/lib/queryClient";
+import { useEffect, useRef, useState } from "react";
+import { useSearch } from "wouter";
+import { apiRequest, getApiErrorMessage, queryClient } from "@/lib/queryClient";
+import { usePaginatedList } from "@/lib/pagination";
 import { useToast } from "@/hooks/use-toast";
+import { useDebouncedValue } from "@/hooks/use-debounced-value";
 import { Button } from "@/components/ui/button";
 import { Input } from "@/components/ui/input";
 import {
@@ -24,29 +27,90 @@ import {
   DropdownMenu,
   DropdownMenuContent,
   DropdownMenuItem,
+  DropdownMenuLabel,
+  DropdownMenuSeparator,
   DropdownMenuTrigger,
 } from "@/components/ui/dropdown-menu";
 import { Card } from "@/components/ui/card";
+import { LoadMore } from "@/components/ui/load-more";
 import { Tabs, TabsContent, TabsList, TabsTrigger } from "@/components/ui/tabs";
 import { TaskForm, type TaskFormValues } from "@/components/tasks/TaskForm";
 import TaskItem from "@/components/dashboard/TaskItem";
 import TaskCard from "@/components/tasks/TaskCard";
-import { Plus, Search, Filter, Loader2 } from "lucide-react";
+import { SavedViewsMenu } from "@/components/views/SavedViewsMenu";
+import { TagBadge } from "@/components/tasks/TaskTags";
+import { Plus, Search, Filter, Loader2, ChevronDown, ChevronRight } from "lucide-react";
+import { DATE_RANGES, DATE_RANGE_LABELS, type SavedViewSummary, type TaskViewFilters } from "@shared/views";
+import type { TagSummary } from "@shared/tags";
+
+const statusOptions = [
+  { value: "todo", label: "A fazer" },
+  { value: "in_progress", label: "Em andamento" },
+  { value: "review", label: "Em revisão" },
+  { value: "completed", label: "Concluídas" },
+];
+
+const priorityOptions = [
+  { value: "high", label: "Alta prioridade" },
+  { value: "medium", label: "Média prioridade" },
+  { value: "low", label: "Baixa prioridade" },
+];
 
 export default function Tasks() {
   const [searchTerm, setSearchTerm] = useState("");
-  const [statusFilter, setStatusFilter] = useState("all");
-  const [priorityFilter, setPriorityFilter] = useState("all");
+  const [filters, setFilters] = useState<TaskViewFilters>({});
   const [isNewTaskDialogOpen, setIsNewTaskDialogOpen] = useState(false);
   const [taskToEdit, setTaskToEdit] = useState<any>(null);
   const [taskToDelete, setTaskToDelete] = useState<number | null>(null);
   const [selectedProjectId, setSelectedProjectId] = useState<number | null>(null);
+  const [collapsedTaskIds, setCollapsedTaskIds] = useState<Set<number>>(new Set()); // Tarefas com as subtarefas ocultas
 
   const { toast } = useToast();
+  const debouncedSearch = useDebouncedValue(searchTerm.trim());
+  const hasFilters = Boolean(searchTerm || filters.status || filters.priority || filters.due || filters.assignedTo || filters.projectId || filters.tagIds);
+
+  const applyView = (view: SavedViewSummary) => {
+    const { search, ...viewFilters } = view.filters as TaskViewFilters;
+    setSearchTerm(search ?? "");
+    setFilters(viewFilters);
+  };
+
+  // Visão aberta pela barra lateral (?view=ID), aplicada uma vez por visão
+  const viewId = new URLSearchParams(useSearch()).get("view");
+  const appliedViewId = useRef<string | null>(null);
+  const { data: views } = useQuery<SavedViewSummary[]>({
+    queryKey: ["/api/views"],
+    enabled: !!viewId,
+  });
+  useEffect(() => {
+    const view = views?.find((view) => String(view.id) === viewId && view.target === "tasks");
+    if (view && appliedViewId.current !== viewId) {
+      appliedViewId.current = viewId;
+      applyView(view);
+    }
+  }, [views, viewId]);
+
+  // Tarefas atribuídas ao usuário e as dos seus projetos, filtradas no servidor
+  const {
+    items: filteredTasks,
+    isLoading: tasksLoading,
+    hasNextPage,
+    isFetchingNextPage,
+    fetchNextPage,
+  } = usePaginatedList<any>("/api/tasks", {
+    filter: {
+      search: debouncedSearch,
+      status: filters.status,
+      priority: filters.priority,
+      projectId: filters.projectId,
+      assignedTo: filters.assignedTo,
+      due: filters.due,
+      tagIds: filters.tagIds,
+    },
+  });
 
-  // Fetch all tasks (assigned to user + all project tasks)
-  const { data: tasks, isLoading: tasksLoading } = useQuery({
-    queryKey: ["/api/tasks"],
+  const { data: tags = [] } = useQuery<TagSummary[]>({
+    queryKey: ["/api/tags"],
   });
 
   // Fetch projects for project selection
@@ -96,7 +160,7 @@ export default function Tasks() {
     onError: (error: Error) => {
       toast({
         title: "Erro ao atualizar tarefa",
-        description: error.message || "Ocorreu um erro ao atualizar a tarefa",
+        description: getApiErrorMessage(error, "Ocorreu um erro ao atualizar a tarefa"),
         variant: "destructive",
       });
     },
@@ -111,7 +175,7 @@ export default function Tasks() {
       queryClient.invalidateQueries({ queryKey: ["/api/tasks"] });
       toast({
         title: "Tarefa excluída",
-        description: "A tarefa foi excluída com sucesso",
+        description: "A tarefa foi movida para a lixeira",
       });
     },
     onError: (error: Error) => {
@@ -171,16 +235,72 @@ export default function Tasks() {
     });
   };
 
-  // Filter tasks
-  const filteredTasks = tasks
-    ? tasks.filter((task: any) => {
-        const matchesSearch = task.name.toLowerCase().includes(searchTerm.toLowerCase()) || 
-                            (task.description && task.description.toLowerCase().includes(searchTerm.toLowerCase()));
-        const matchesStatus = statusFilter === "all" || task.status === statusFilter;
-        const matchesPriority = priorityFilter === "all" || task.priority === priorityFilter;
-        return matchesSearch && matchesStatus && matchesPriority;
-      })
-    : [];
+  const loadMore = (
+    <LoadMore
+      hasNextPage={hasNextPage}
+      isFetchingNextPage={isFetchingNextPage}
+      onLoadMore={() => fetchNextPage()}
+    />
+  );
+
+  // Subtarefas ficam sob a tarefa pai quando ela também está na lista
+  const listedTaskIds = new Set(filteredTasks.map((task: any) => task.id));
+  const subtasksByParent = new Map<number, any[]>();
+  filteredTasks.forEach((task: any) => {
+    if (task.parentTaskId && listedTaskIds.has(task.parentTaskId)) {
+      subtasksByParent.set(task.parentTaskId, [...(subtasksByParent.get(task.parentTaskId) ?? []), task]);
+    }
+  });
+  const rootTasks = filteredTasks.filter((task: any) => !task.parentTaskId || !listedTaskIds.has(task.parentTaskId));
+
+  const toggleSubtasks = (taskId: number) => {
+    setCollapsedTaskIds((current) => {
+      const next = new Set(current);
+      if (next.has(taskId)) next.delete(taskId); else next.add(taskId);
+      return next;
+    });
+  };
+
+  const renderTaskRow = (task: any, depth: number): JSX.Element => {
+    const subtasks = subtasksByParent.get(task.id) ?? [];
+    const collapsed = collapsedTaskIds.has(task.id);
+    return (
+      <div key={task.id}>
+        <div className="flex items-center" style={{ paddingLeft: depth * 24 }}>
+          {subtasks.length > 0 ? (
+            <Button
+              variant="ghost"
+              size="sm"
+              className="h-6 px-1 text-xs text-gray-500"
+              title={collapsed ? "Mostrar subtarefas" : "Ocultar subtarefas"}
+              onClick={() => toggleSubtasks(task.id)}
+            >
+              {collapsed ? <ChevronRight className="h-4 w-4" /> : <ChevronDown className="h-4 w-4" />}
+              {task.rollup ? `${task.rollup.completedSubtasks}/${task.rollup.subtaskCount}` : subtasks.length}
+            </Button>
+          ) : (
+            <span className="w-6 shrink-0" />
+          )}
+          <div className="flex-1 min-w-0">
+            <TaskItem
+              id={task.id}
+              name={task.name}
+              priority={task.priority}
+              project={task.projectId ? task.projectId.toString() : ""}
+              dueDate={task.dueDate || new Date().toISOString()}
+              completed={task.status === "completed"}
+              tagIds={task.tagIds}
+              onStatusChange={handleTaskStatusChange}
+              onEdit={() => handleEditTask(task)}
+              onDelete={() => handleDeleteTask(task.id)}
+              onViewDetails={() => window.location.href = `/tasks/${task.id}`}
+            />
+          </div>
+        </div>
+        {!collapsed && subtasks.map((subtask) => renderTaskRow(subtask, depth + 1))}
+      </div>
+    );
+  };
 
   // Group tasks by status
   const groupedTasks = {
@@ -212,36 +332,65 @@ export default function Tasks() {
               </Button>
             </DropdownMenuTrigger>
             <DropdownMenuContent align="end">
-              <DropdownMenuItem onClick={() => setStatusFilter("all")}>
+              <DropdownMenuItem onClick={() => setFilters({ ...filters, status: undefined })}>
                 Todos os status
               </DropdownMenuItem>
-              <DropdownMenuItem onClick={() => setStatusFilter("todo")}>
-                A fazer
-              </DropdownMenuItem>
-              <DropdownMenuItem onClick={() => setStatusFilter("in_progress")}>
-                Em andamento
-              </DropdownMenuItem>
-              <DropdownMenuItem onClick={() => setStatusFilter("review")}>
-                Em revisão
-              </DropdownMenuItem>
-              <DropdownMenuItem onClick={() => setStatusFilter("completed")}>
-                Concluídas
-              </DropdownMenuItem>
+              {statusOptions.map((option) => (
+                <DropdownMenuItem key={option.value} onClick={() => setFilters({ ...filters, status: [option.value] })}>
+                  {option.label}
+                </DropdownMenuItem>
+              ))}
 
-              <DropdownMenuItem onClick={() => setPriorityFilter("all")}>
+              <DropdownMenuItem onClick={() => setFilters({ ...filters, priority: undefined })}>
                 Todas as prioridades
               </DropdownMenuItem>
-              <DropdownMenuItem onClick={() => setPriorityFilter("high")}>
-                Alta prioridade
+              {priorityOptions.map((option) => (
+                <DropdownMenuItem key={option.value} onClick={() => setFilters({ ...filters, priority: [option.value] })}>
+                  {option.label}
+                </DropdownMenuItem>
+              ))}
+
+              <DropdownMenuSeparator />
+              <DropdownMenuLabel>Prazo</DropdownMenuLabel>
+              <DropdownMenuItem onClick={() => setFilters({ ...filters, due: undefined })}>
+                Qualquer prazo
               </DropdownMenuItem>
-              <DropdownMenuItem onClick={() => setPriorityFilter("medium")}>
-                Média prioridade
+              {DATE_RANGES.map((range) => (
+                <DropdownMenuItem key={range} onClick={() => setFilters({ ...filters, due: range })}>
+                  {DATE_RANGE_LABELS[range]}
+                </DropdownMenuItem>
+              ))}
+
+              <DropdownMenuSeparator />
+              <DropdownMenuLabel>Responsável</DropdownMenuLabel>
+              <DropdownMenuItem onClick={() => setFilters({ ...filters, assignedTo: undefined })}>
+                Todas as tarefas
               </DropdownMenuItem>
-              <DropdownMenuItem onClick={() => setPriorityFilter("low")}>
-                Baixa prioridade
+              <DropdownMenuItem onClick={() => setFilters({ ...filters, assignedTo: "me" })}>
+                Minhas tarefas
               </DropdownMenuItem>
+
+              {tags.length > 0 && (
+                <>
+                  <DropdownMenuSeparator />
+                  <DropdownMenuLabel>Tags</DropdownMenuLabel>
+                  <DropdownMenuItem onClick={() => setFilters({ ...filters, tagIds: undefined })}>
+                    Qualquer tag
+                  </DropdownMenuItem>
+                  {tags.map((tag) => (
+                    <DropdownMenuItem key={tag.id} onClick={() => setFilters({ ...filters, tagIds: [tag.id] })}>
+                      <TagBadge tag={tag} />
+                    </DropdownMenuItem>
+                  ))}
+                </>
+              )}
             </DropdownMenuContent>
           </DropdownMenu>
+          <SavedViewsMenu
+            target="tasks"
+            filters={{ ...filters, search: searchTerm.trim() || undefined }}
+            onApply={applyView}
+          />
           <Button onClick={() => handleOpenNewTaskDialog()}>
             <Plus className="h-4 w-4 mr-2" />
             Nova Tarefa
@@ -252,7 +401,7 @@ export default function Tasks() {
       <Tabs defaultValue="all" className="mb-6">
         <div className="flex justify-between items-center">
           <h3 className="text-sm font-medium text-gray-500">
-            {filteredTasks.length} tarefa{filteredTasks.length !== 1 ? "s" : ""} encontrada{filteredTasks.length !== 1 ? "s" : ""}
+            {filteredTasks.length}{hasNextPage ? "+" : ""} tarefa{filteredTasks.length !== 1 ? "s" : ""} encontrada{filteredTasks.length !== 1 ? "s" : ""}
           </h3>
           <TabsList>
             <TabsTrigger value="all">Todas</TabsTrigger>
@@ -270,11 +419,11 @@ export default function Tasks() {
               <div className="text-center py-12">
                 <h3 className="text-lg font-semibold text-gray-700">Nenhuma tarefa encontrada</h3>
                 <p className="text-gray-500 mt-2 mb-4">
-                  {searchTerm || statusFilter !== "all" || priorityFilter !== "all"
+                  {hasFilters
                     ? "Tente usar filtros diferentes"
                     : "Comece criando sua primeira tarefa"}
                 </p>
-                {!searchTerm && statusFilter === "all" && priorityFilter === "all" && (
+                {!hasFilters && (
                   <Button onClick={() => handleOpenNewTaskDialog()}>
                     <Plus className="h-4 w-4 mr-2" />
                     Criar Tarefa
@@ -283,21 +432,8 @@ export default function Tasks() {
               </div>
             ) : (
               <div className="divide-y">
-                {filteredTasks.map((task: any) => (
-                  <TaskItem
-                    key={task.id}
-                    id={task.id}
-                    name={task.name}
-                    priority={task.priority}
-                    project={task.projectId ? task.projectId.toString() : ""}
-                    dueDate={task.dueDate || new Date().toISOString()}
-                    completed={task.status === "completed"}
-                    onStatusChange={handleTaskStatusChange}
-                    onEdit={() => handleEditTask(task)}
-                    onDelete={() => handleDeleteTask(task.id)}
-                    onViewDetails={() => window.location.href = `/tasks/${task.id}`}
-                  />
-                ))}
+                {rootTasks.map((task: any) => renderTaskRow(task, 0))}
+                {loadMore}
               </div>
             )}
           </Card>
@@ -421,6 +557,7 @@ export default function Tasks() {
               )}
             </div>
           </div>
+          {loadMore}
         </TabsContent>
       </Tabs>
 
@@ -458,6 +595,8 @@ export default function Tasks() {
                 phaseId: taskToEdit.phaseId,
                 assignedTo: taskToEdit.assignedTo,
                 dueDate: taskToEdit.dueDate ? new Date(taskToEdit.dueDate) : undefined,
+                estimatedHours: taskToEdit.estimatedHours,
+                tagIds: taskToEdit.tagIds,
               }}
               onSubmit={handleUpdateTask}
               isLoading={updateTaskMutation.isPending}
@@ -475,7 +614,7 @@ export default function Tasks() {
           <AlertDialogHeader>
             <AlertDialogTitle>Confirmar exclusão</AlertDialogTitle>
             <AlertDialogDescription>
-              Tem certeza que deseja excluir esta tarefa? Esta ação não pode ser desfeita.
+              Tem certeza que deseja excluir esta tarefa? Ela irá para a lixeira junto com os arquivos e comentários.
             </AlertDialogDescription>
           </AlertDialogHeader>
           <AlertDialogFooter>
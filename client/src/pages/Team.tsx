@@ -1,7 +1,9 @@
-import { useQuery, useMutation } from "@tanstack/react-query";
+import { useMutation } from "@tanstack/react-query";
 import { useState } from "react";
 import { apiRequest, queryClient } from "@/lib/queryClient";
+import { usePaginatedList } from "@/lib/pagination";
 import { useToast } from "@/hooks/use-toast";
+import { useDebouncedValue } from "@/hooks/use-debounced-value";
 import { useAuth } from "@/contexts/AuthContext";
 import { zodResolver } from "@hookform/resolvers/zod";
 import { useForm } from "react-hook-form";
@@ -9,6 +11,7 @@ import { z } from "zod";
 import { Button } from "@/components/ui/button";
 import { Input } from "@/components/ui/input";
 import { Card } from "@/components/ui/card";
+import { LoadMore } from "@/components/ui/load-more";
 import {
   Table,
   TableBody,
@@ -51,6 +54,7 @@ import {
 import { Avatar, AvatarFallback, AvatarImage } from "@/components/ui/avatar";
 import { Tabs, TabsContent, TabsList, TabsTrigger } from "@/components/ui/tabs";
 import { Search, Plus, Edit, Trash2, UserCog, Loader2 } from "lucide-react";
+import PendingInvites from "@/components/team/PendingInvites";
 
 // Form schema for creating/editing users
 const userFormSchema = z.object({
@@ -78,11 +82,26 @@ export default function Team() {
   
   const { toast } = useToast();
   const { user: currentUser } = useAuth();
-
-  // Fetch team members
-  const { data: users, isLoading } = useQuery({
-    queryKey: ["/api/users"],
-  });
+  const canInvite = !!currentUser?.permissions?.includes("member.invite");
+
+  const debouncedSearch = useDebouncedValue(searchTerm.trim());
+
+  // Fetch team members (busca por nome, email ou usuário feita no servidor)
+  const {
+    items: filteredUsers,
+    isLoading,
+    hasNextPage,
+    isFetchingNextPage,
+    fetchNextPage,
+  } = usePaginatedList<any>("/api/users", { filter: { search: debouncedSearch } });
+
+  const loadMore = (
+    <LoadMore
+      hasNextPage={hasNextPage}
+      isFetchingNextPage={isFetchingNextPage}
+      onLoadMore={() => fetchNextPage()}
+    />
+  );
 
   // Create user mutation
   const createUserMutation = useMutation({
@@ -147,17 +166,6 @@ export default function Team() {
     setUserToDelete(null);
   };
 
-  // Filter users based on search term
-  const filteredUsers = users
-    ? users.filter((user: any) => {
-        return (
-          user.name.toLowerCase().includes(searchTerm.toLowerCase()) ||
-          user.email.toLowerCase().includes(searchTerm.toLowerCase()) ||
-          user.username.toLowerCase().includes(searchTerm.toLowerCase())
-        );
-      })
-    : [];
-
   return (
     <div className="py-6 px-4 md:px-8">
       <div className="flex flex-col md:flex-row md:items-center justify-between mb-6 gap-4">
@@ -181,10 +189,14 @@ export default function Team() {
         </div>
       </div>
 
+      {canInvite && currentUser?.organization && (
+        <PendingInvites organizationId={currentUser.organization.id} />
+      )}
+
       <Tabs defaultValue="grid" className="mb-6">
         <div className="flex justify-between items-center">
           <h3 className="text-sm font-medium text-gray-500">
-            {filteredUsers.length} membro{filteredUsers.length !== 1 ? "s" : ""} encontrado{filteredUsers.length !== 1 ? "s" : ""}
+            {filteredUsers.length}{hasNextPage ? "+" : ""} membro{filteredUsers.length !== 1 ? "s" : ""} encontrado{filteredUsers.length !== 1 ? "s" : ""}
           </h3>
           <TabsList>
             <TabsTrigger value="grid">Cards</TabsTrigger>
@@ -260,6 +272,7 @@ export default function Team() {
               ))}
             </div>
           )}
+          {loadMore}
         </TabsContent>
 
         <TabsContent value="table" className="mt-6">
@@ -345,6 +358,7 @@ export default function Team() {
                 </TableBody>
               </Table>
             )}
+            {loadMore}
           </Card>
         </TabsContent>
       </Tabs>
@@ -0,0 +1,247 @@
+import { useEffect, useState } from "react";
+import { useQuery, useMutation } from "@tanstack/react-query";
+import { format, formatDistanceToNow } from "date-fns";
+import { ptBR } from "date-fns/locale";
+import { Loader2, RotateCcw, Save, Trash2 } from "lucide-react";
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/ui/card";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { Badge } from "@/components/ui/badge";
+import {
+  Table,
+  TableBody,
+  TableCell,
+  TableHead,
+  TableHeader,
+  TableRow,
+} from "@/components/ui/table";
+import {
+  AlertDialog,
+  AlertDialogAction,
+  AlertDialogCancel,
+  AlertDialogContent,
+  AlertDialogDescription,
+  AlertDialogFooter,
+  AlertDialogHeader,
+  AlertDialogTitle,
+} from "@/components/ui/alert-dialog";
+import { useToast } from "@/hooks/use-toast";
+import { useAuth } from "@/contexts/AuthContext";
+import { apiRequest, getApiErrorMessage, queryClient } from "@/lib/queryClient";
+import { MAX_TRASH_RETENTION_DAYS, TRASH_ITEM_LABELS, type TrashItemType } from "@shared/trash";
+
+interface TrashEntry {
+  type: TrashItemType;
+  id: number;
+  name: string;
+  projectId: number | null;
+  projectName: string | null;
+  deletedAt: string;
+  deletedByName: string | null;
+  purgeAt: string;
+}
+
+interface TrashResponse {
+  items: TrashEntry[];
+  retentionDays: number;
+}
+
+// Consultas que podem ganhar de volta um item restaurado
+const restoredQueryPrefixes = ["/api/projects", "/api/tasks", "/api/activities"];
+
+/**
+ * Lixeira da organização: restauração e exclusão definitiva, para quem tem a permissão "trash.manage".
+ */
+export default function Trash() {
+  const { toast } = useToast();
+  const { user } = useAuth();
+  const organizationId = user?.organization?.id;
+  const queryKey = [`/api/organizations/${organizationId}/trash`];
+  const [retentionDays, setRetentionDays] = useState("");
+  const [purgeTarget, setPurgeTarget] = useState<TrashEntry | null>(null);
+
+  const { data, isLoading } = useQuery<TrashResponse>({
+    queryKey,
+    enabled: !!organizationId,
+  });
+
+  useEffect(() => {
+    if (data) setRetentionDays(String(data.retentionDays));
+  }, [data]);
+
+  const onError = (title: string) => (error: Error) => {
+    toast({
+      title,
+      description: getApiErrorMessage(error, "Tente novamente"),
+      variant: "destructive",
+    });
+  };
+
+  const restoreMutation = useMutation<unknown, Error, TrashEntry>({
+    mutationFn: (item) => apiRequest("POST", `/api/organizations/${organizationId}/trash/${item.type}/${item.id}/restore`),
+    onSuccess: (_, item) => {
+      toast({ title: "Item restaurado", description: item.name });
+      queryClient.invalidateQueries({ queryKey });
+      queryClient.invalidateQueries({
+        predicate: (query) =>
+          restoredQueryPrefixes.some((prefix) => String(query.queryKey[0]).startsWith(prefix)),
+      });
+    },
+    onError: onError("Erro ao restaurar item"),
+  });
+
+  const purgeMutation = useMutation<unknown, Error, TrashEntry>({
+    mutationFn: (item) => apiRequest("DELETE", `/api/organizations/${organizationId}/trash/${item.type}/${item.id}`),
+    onSuccess: () => {
+      toast({ title: "Item excluído definitivamente" });
+      setPurgeTarget(null);
+      queryClient.invalidateQueries({ queryKey });
+    },
+    onError: onError("Erro ao excluir item"),
+  });
+
+  const retentionMutation = useMutation<{ retentionDays: number }, Error, number>({
+    mutationFn: (days) => apiRequest("PUT", `/api/organizations/${organizationId}/trash/settings`, { retentionDays: days }),
+    onSuccess: () => {
+      toast({ title: "Retenção da lixeira salva" });
+      queryClient.invalidateQueries({ queryKey });
+    },
+    onError: onError("Erro ao salvar retenção"),
+  });
+
+  return (
+    <div className="container mx-auto p-6 space-y-6">
+      <div>
+        <h1 className="text-3xl font-bold">Lixeira</h1>
+        <p className="text-muted-foreground">
+          Projetos, tarefas, arquivos e comentários excluídos. Itens restaurados voltam com tudo o que foi excluído junto.
+        </p>
+      </div>
+
+      <Card>
+        <CardHeader>
+          <CardTitle>Retenção</CardTitle>
+          <CardDescription>
+            Itens na lixeira há mais tempo que o prazo são excluídos definitivamente, com os arquivos enviados
+          </CardDescription>
+        </CardHeader>
+        <CardContent>
+          <form
+            className="flex items-end gap-3"
+            onSubmit={(event) => {
+              event.preventDefault();
+              retentionMutation.mutate(Number(retentionDays));
+            }}
+          >
+            <div className="space-y-2">
+              <Label htmlFor="trash-retention">Dias na lixeira</Label>
+              <Input
+                id="trash-retention"
+                type="number"
+                min={1}
+                max={MAX_TRASH_RETENTION_DAYS}
+                className="w-32"
+                value={retentionDays}
+                onChange={(event) => setRetentionDays(event.target.value)}
+              />
+            </div>
+            <Button
+              type="submit"
+              disabled={retentionMutation.isPending || !retentionDays || retentionDays === String(data?.retentionDays)}
+            >
+              {retentionMutation.isPending ? <Loader2 className="mr-2 h-4 w-4 animate-spin" /> : <Save className="mr-2 h-4 w-4" />}
+              Salvar
+            </Button>
+          </form>
+        </CardContent>
+      </Card>
+
+      <Card>
+        <CardHeader>
+          <CardTitle>Itens excluídos</CardTitle>
+        </CardHeader>
+        <CardContent>
+          {isLoading ? (
+            <div className="flex justify-center py-8">
+              <Loader2 className="h-6 w-6 animate-spin text-gray-400" />
+            </div>
+          ) : !data?.items.length ? (
+            <p className="py-8 text-center text-sm text-gray-500">A lixeira está vazia</p>
+          ) : (
+            <Table>
+              <TableHeader>
+                <TableRow>
+                  <TableHead>Item</TableHead>
+                  <TableHead>Projeto</TableHead>
+                  <TableHead>Excluído</TableHead>
+                  <TableHead>Exclusão definitiva</TableHead>
+                  <TableHead className="w-[220px]" />
+                </TableRow>
+              </TableHeader>
+              <TableBody>
+                {data.items.map((item) => (
+                  <TableRow key={`${item.type}-${item.id}`}>
+                    <TableCell>
+                      <div className="flex items-center gap-2">
+                        <Badge variant="outline">{TRASH_ITEM_LABELS[item.type]}</Badge>
+                        <span className="font-medium">{item.name}</span>
+                      </div>
+                    </TableCell>
+                    <TableCell className="text-sm text-gray-500">{item.projectName || "—"}</TableCell>
+                    <TableCell className="text-sm">
+                      <div>{format(new Date(item.deletedAt), "dd/MM/yyyy HH:mm", { locale: ptBR })}</div>
+                      {item.deletedByName && <div className="text-xs text-gray-500">por {item.deletedByName}</div>}
+                    </TableCell>
+                    <TableCell className="text-sm text-gray-500">
+                      {formatDistanceToNow(new Date(item.purgeAt), { addSuffix: true, locale: ptBR })}
+                    </TableCell>
+                    <TableCell className="text-right space-x-2">
+                      <Button
+                        variant="outline"
+                        size="sm"
+                        disabled={restoreMutation.isPending}
+                        onClick={() => restoreMutation.mutate(item)}
+                      >
+                        <RotateCcw className="mr-1 h-4 w-4" />
+                        Restaurar
+                      </Button>
+                      <Button variant="ghost" size="sm" onClick={() => setPurgeTarget(item)}>
+                        <Trash2 className="h-4 w-4 text-red-500" />
+                      </Button>
+                    </TableCell>
+                  </TableRow>
+                ))}
+              </TableBody>
+            </Table>
+          )}
+        </CardContent>
+      </Card>
+
+      <AlertDialog open={!!purgeTarget} onOpenChange={(open) => !open && setPurgeTarget(null)}>
+        <AlertDialogContent>
+          <AlertDialogHeader>
+            <AlertDialogTitle>Excluir definitivamente?</AlertDialogTitle>
+            <AlertDialogDescription>
+              "{purgeTarget?.name}" e tudo o que foi excluído junto com ele serão apagados, incluindo os arquivos enviados.
+              Esta ação não pode ser desfeita.
+            </AlertDialogDescription>
+          </AlertDialogHeader>
+          <AlertDialogFooter>
+            <AlertDialogCancel>Cancelar</AlertDialogCancel>
+            <AlertDialogAction
+              className="bg-red-600 hover:bg-red-700"
+              disabled={purgeMutation.isPending}
+              onClick={(event) => {
+                event.preventDefault();
+                if (purgeTarget) purgeMutation.mutate(purgeTarget);
+              }}
+            >
+              Excluir definitivamente
+            </AlertDialogAction>
+          </AlertDialogFooter>
+        </AlertDialogContent>
+      </AlertDialog>
+    </div>
+  );
+}
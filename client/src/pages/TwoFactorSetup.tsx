@@ -0,0 +1,36 @@
+import { LogOut, ShieldAlert } from "lucide-react";
+import { Button } from "@/components/ui/button";
+import { useAuth } from "@/contexts/AuthContext";
+import TwoFactorSettings from "@/components/auth/TwoFactorSettings";
+
+/**
+ * Exibida quando a organização exige verificação em duas etapas
+ * e o usuário ainda não a ativou.
+ */
+export default function TwoFactorSetup() {
+  const { user, logout } = useAuth();
+
+  return (
+    <div className="min-h-screen bg-gray-50 flex items-center justify-center p-4">
+      <div className="w-full max-w-2xl space-y-6">
+        <div className="flex items-start justify-between gap-4">
+          <div className="flex items-start gap-3">
+            <ShieldAlert className="h-8 w-8 text-amber-500 shrink-0" />
+            <div>
+              <h1 className="text-2xl font-bold">Verificação em duas etapas obrigatória</h1>
+              <p className="text-gray-500 text-sm mt-1">
+                {user?.organization?.name || "Sua organização"} exige a verificação em duas etapas.
+                Ative-a para continuar.
+              </p>
+            </div>
+          </div>
+          <Button variant="ghost" onClick={() => logout()}>
+            <LogOut className="mr-2 h-4 w-4" />
+            Sair
+          </Button>
+        </div>
+        <TwoFactorSettings />
+      </div>
+    </div>
+  );
+}
@@ -17,10 +17,19 @@ import { Textarea } from "@/components/ui/textarea";
 import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
 import { Form, FormControl, FormDescription, FormField, FormItem, FormLabel, FormMessage } from "@/components/ui/form";
 import { Badge } from "@/components/ui/badge";
-import { AlertCircle, Check, CreditCard, DollarSign, ExternalLink, Loader2, RefreshCcw, Settings, Shield, ShieldAlert, Users } from "lucide-react";
+import { AlertCircle, BarChart3, Check, CreditCard, DollarSign, ExternalLink, FileClock, Loader2, RefreshCcw, Settings, Shield, ShieldAlert, UserCog, Users } from "lucide-react";
 import { motion } from "framer-motion";
 import { Alert, AlertDescription, AlertTitle } from "@/components/ui/alert";
 import { ApiConnectionStatus } from "@/components/ui/api-connection-status";
+import OrganizationUsageTable from "@/components/admin/OrganizationUsageTable";
+import TwoFactorPolicy from "@/components/admin/TwoFactorPolicy";
+import MemberSessions from "@/components/admin/MemberSessions";
+import LoginLockouts from "@/components/admin/LoginLockouts";
+import SsoSettings from "@/components/admin/SsoSettings";
+import PlatformUsers from "@/components/admin/PlatformUsers";
+import AuditLogViewer from "@/components/admin/AuditLogViewer";
+import AuditRetentionSettings from "@/components/admin/AuditRetentionSettings";
+import StorageSnapshot from "@/components/admin/StorageSnapshot";
 import React from "react";
 
 // Schemas para validação de formulários
@@ -93,10 +102,10 @@ export default function SuperAdmin() {
       return;
     }
     
-    if (user.role !== "admin" || user.username !== "admin") {
+    if (!user.isSuperAdmin) {
       toast({
         title: "Acesso restrito",
-        description: "Apenas o administrador principal tem acesso a esta área",
+        description: "Apenas Super Admins têm acesso a esta área",
         variant: "destructive"
       });
       navigate("/dashboard");
@@ -104,7 +113,7 @@ export default function SuperAdmin() {
   }, [user, navigate, toast]);
   
   // Se não tiver permissão, não renderizar o conteúdo
-  if (!user || user.role !== "admin" || user.username !== "admin") {
+  if (!user || !user.isSuperAdmin) {
     return null;
   }
 
@@ -482,7 +491,10 @@ export default function SuperAdmin() {
     payments: <CreditCard className="h-4 w-4 mr-2" />,
     pricing: <DollarSign className="h-4 w-4 mr-2" />,
     partners: <Users className="h-4 w-4 mr-2" />,
+    usage: <BarChart3 className="h-4 w-4 mr-2" />,
     security: <ShieldAlert className="h-4 w-4 mr-2" />,
+    users: <UserCog className="h-4 w-4 mr-2" />,
+    audit: <FileClock className="h-4 w-4 mr-2" />,
   };
 
   return (
@@ -528,9 +540,18 @@ export default function SuperAdmin() {
             <TabsTrigger value="partners" className="flex items-center">
               {tabIcons.partners} Agências Parceiras
             </TabsTrigger>
+            <TabsTrigger value="usage" className="flex items-center">
+              {tabIcons.usage} Uso por Organização
+            </TabsTrigger>
+            <TabsTrigger value="users" className="flex items-center">
+              {tabIcons.users} Usuários
+            </TabsTrigger>
             <TabsTrigger value="security" className="flex items-center">
               {tabIcons.security} Segurança
             </TabsTrigger>
+            <TabsTrigger value="audit" className="flex items-center">
+              {tabIcons.audit} Auditoria
+            </TabsTrigger>
           </TabsList>
         </div>
 
@@ -681,6 +702,17 @@ export default function SuperAdmin() {
               </Form>
             </CardContent>
           </Card>
+          <Card>
+            <CardHeader>
+              <CardTitle>Armazenamento</CardTitle>
+              <CardDescription>
+                Backup e restauração dos dados quando o sistema roda sem banco de dados
+              </CardDescription>
+            </CardHeader>
+            <CardContent>
+              <StorageSnapshot />
+            </CardContent>
+          </Card>
         </TabsContent>
 
         {/* Tab: Pagamentos */}
@@ -1471,6 +1503,52 @@ export default function SuperAdmin() {
           </div>
         </TabsContent>
 
+        {/* Tab: Uso por Organização */}
+        <TabsContent value="usage" className="space-y-4">
+          <Card>
+            <CardHeader>
+              <CardTitle>Uso por Organização</CardTitle>
+              <CardDescription>
+                Consumo de projetos, usuários e armazenamento em relação aos limites de cada plano
+              </CardDescription>
+            </CardHeader>
+            <CardContent>
+              <OrganizationUsageTable />
+            </CardContent>
+          </Card>
+        </TabsContent>
+
+        {/* Tab: Usuários */}
+        <TabsContent value="users" className="space-y-4">
+          <Card>
+            <CardHeader>
+              <CardTitle>Usuários da Plataforma</CardTitle>
+              <CardDescription>
+                Conceda o acesso Super Admin e acesse a conta de um usuário para prestar suporte
+              </CardDescription>
+            </CardHeader>
+            <CardContent>
+              <PlatformUsers />
+            </CardContent>
+          </Card>
+        </TabsContent>
+
+        {/* Tab: Auditoria */}
+        <TabsContent value="audit" className="space-y-4">
+          <Card>
+            <CardHeader>
+              <CardTitle>Registro de Auditoria</CardTitle>
+              <CardDescription>
+                Eventos de segurança e ações administrativas de todas as organizações
+              </CardDescription>
+            </CardHeader>
+            <CardContent className="space-y-6">
+              <AuditLogViewer scope="platform" />
+              <AuditRetentionSettings />
+            </CardContent>
+          </Card>
+        </TabsContent>
+
         {/* Tab: Segurança */}
         <TabsContent value="security" className="space-y-4">
           <Card>
@@ -1492,17 +1570,13 @@ export default function SuperAdmin() {
               </div>
 
               <div className="space-y-6">
-                <div className="rounded-lg border p-4">
-                  <div className="flex items-center justify-between">
-                    <div>
-                      <h3 className="text-base font-medium">Verificação em duas etapas</h3>
-                      <p className="text-sm text-gray-500">
-                        Exigir verificação em duas etapas para todos os usuários administrativos
-                      </p>
-                    </div>
-                    <Switch defaultChecked={false} />
-                  </div>
-                </div>
+                <TwoFactorPolicy />
+
+                <MemberSessions />
+
+                <SsoSettings />
+
+                <LoginLockouts />
 
                 <div className="rounded-lg border p-4">
                   <div className="flex items-center justify-between">
@@ -0,0 +1,405 @@
+CREATE TYPE "public"."budget_category" AS ENUM('marketing', 'development', 'design', 'operations', 'legal', 'hr', 'infrastructure', 'other');--> statement-breakpoint
+CREATE TYPE "public"."expense_status" AS ENUM('planned', 'approved', 'rejected', 'paid', 'cancelled');--> statement-breakpoint
+CREATE TYPE "public"."integration_type" AS ENUM('whatsapp', 'whatsapp_web', 'email', 'sms', 'other');--> statement-breakpoint
+CREATE TYPE "public"."org_role" AS ENUM('owner', 'admin', 'member');--> statement-breakpoint
+CREATE TYPE "public"."partner_level" AS ENUM('basic', 'silver', 'gold', 'platinum');--> statement-breakpoint
+CREATE TYPE "public"."payment_method" AS ENUM('credit_card', 'bank_transfer', 'mercado_pago', 'free_trial', 'partner_offer');--> statement-breakpoint
+CREATE TYPE "public"."profession" AS ENUM('developer', 'designer', 'social_media', 'marketing', 'content_writer', 'project_manager', 'qa_tester', 'devops', 'product_owner', 'data_analyst', 'ui_ux', 'business_analyst', 'other');--> statement-breakpoint
+CREATE TYPE "public"."project_status" AS ENUM('planning', 'in_progress', 'testing', 'completed', 'on_hold');--> statement-breakpoint
+CREATE TYPE "public"."role" AS ENUM('admin', 'manager', 'member');--> statement-breakpoint
+CREATE TYPE "public"."subscription_plan" AS ENUM('free', 'starter', 'professional', 'enterprise', 'custom', 'partner_trial');--> statement-breakpoint
+CREATE TYPE "public"."subscription_status" AS ENUM('active', 'trialing', 'past_due', 'canceled', 'unpaid');--> statement-breakpoint
+CREATE TYPE "public"."task_priority" AS ENUM('low', 'medium', 'high');--> statement-breakpoint
+CREATE TYPE "public"."task_status" AS ENUM('todo', 'in_progress', 'review', 'completed');--> statement-breakpoint
+CREATE TABLE "activities" (
+	"id" serial PRIMARY KEY NOT NULL,
+	"organization_id" integer NOT NULL,
+	"user_id" integer NOT NULL,
+	"project_id" integer,
+	"task_id" integer,
+	"action" text NOT NULL,
+	"subject" text NOT NULL,
+	"details" text,
+	"created_at" timestamp DEFAULT now()
+);
+--> statement-breakpoint
+CREATE TABLE "admin_settings" (
+	"id" serial PRIMARY KEY NOT NULL,
+	"setting_key" text NOT NULL,
+	"setting_value" jsonb,
+	"description" text,
+	"category" text DEFAULT 'general',
+	"updated_by" integer,
+	"updated_at" timestamp DEFAULT now(),
+	CONSTRAINT "admin_settings_setting_key_unique" UNIQUE("setting_key")
+);
+--> statement-breakpoint
+CREATE TABLE "budget_categories" (
+	"id" serial PRIMARY KEY NOT NULL,
+	"organization_id" integer NOT NULL,
+	"project_id" integer NOT NULL,
+	"name" text NOT NULL,
+	"category" "budget_category" DEFAULT 'other' NOT NULL,
+	"description" text,
+	"planned_amount" integer DEFAULT 0 NOT NULL,
+	"actual_amount" integer DEFAULT 0 NOT NULL,
+	"created_by" integer NOT NULL,
+	"created_at" timestamp DEFAULT now(),
+	"updated_at" timestamp DEFAULT now(),
+	CONSTRAINT "unique_budget_category" UNIQUE("project_id","name")
+);
+--> statement-breakpoint
+CREATE TABLE "budget_forecasts" (
+	"id" serial PRIMARY KEY NOT NULL,
+	"organization_id" integer NOT NULL,
+	"project_id" integer NOT NULL,
+	"name" text NOT NULL,
+	"description" text,
+	"start_date" timestamp NOT NULL,
+	"end_date" timestamp NOT NULL,
+	"forecast_amount" integer NOT NULL,
+	"actual_amount" integer DEFAULT 0,
+	"variance" integer DEFAULT 0,
+	"created_by" integer NOT NULL,
+	"created_at" timestamp DEFAULT now(),
+	"updated_at" timestamp DEFAULT now()
+);
+--> statement-breakpoint
+CREATE TABLE "checklist_items" (
+	"id" serial PRIMARY KEY NOT NULL,
+	"task_id" integer NOT NULL,
+	"text" text NOT NULL,
+	"is_completed" boolean DEFAULT false NOT NULL,
+	"completed_by" integer,
+	"completed_at" timestamp,
+	"order" integer NOT NULL,
+	"created_at" timestamp DEFAULT now(),
+	"updated_at" timestamp DEFAULT now()
+);
+--> statement-breakpoint
+CREATE TABLE "comments" (
+	"id" serial PRIMARY KEY NOT NULL,
+	"organization_id" integer NOT NULL,
+	"project_id" integer,
+	"task_id" integer,
+	"user_id" integer NOT NULL,
+	"content" text NOT NULL,
+	"parent_id" integer,
+	"created_at" timestamp DEFAULT now(),
+	"updated_at" timestamp DEFAULT now()
+);
+--> statement-breakpoint
+CREATE TABLE "expenses" (
+	"id" serial PRIMARY KEY NOT NULL,
+	"organization_id" integer NOT NULL,
+	"project_id" integer NOT NULL,
+	"category_id" integer,
+	"name" text NOT NULL,
+	"description" text,
+	"amount" integer NOT NULL,
+	"date" timestamp NOT NULL,
+	"status" "expense_status" DEFAULT 'planned' NOT NULL,
+	"receipt_url" text,
+	"vendor_name" text,
+	"created_by" integer NOT NULL,
+	"approved_by" integer,
+	"approved_at" timestamp,
+	"task_id" integer,
+	"created_at" timestamp DEFAULT now(),
+	"updated_at" timestamp DEFAULT now(),
+	"metadata" jsonb
+);
+--> statement-breakpoint
+CREATE TABLE "files" (
+	"id" serial PRIMARY KEY NOT NULL,
+	"organization_id" integer NOT NULL,
+	"project_id" integer NOT NULL,
+	"task_id" integer,
+	"name" text NOT NULL,
+	"path" text NOT NULL,
+	"mime_type" text NOT NULL,
+	"size" integer NOT NULL,
+	"uploaded_by" integer NOT NULL,
+	"uploaded_at" timestamp DEFAULT now(),
+	"updated_at" timestamp DEFAULT now()
+);
+--> statement-breakpoint
+CREATE TABLE "integrations" (
+	"id" serial PRIMARY KEY NOT NULL,
+	"organization_id" integer NOT NULL,
+	"type" "integration_type" NOT NULL,
+	"name" text NOT NULL,
+	"enabled" boolean DEFAULT false NOT NULL,
+	"credentials" jsonb,
+	"configured_by" integer NOT NULL,
+	"created_at" timestamp DEFAULT now(),
+	"updated_at" timestamp DEFAULT now()
+);
+--> statement-breakpoint
+CREATE TABLE "organization_members" (
+	"id" serial PRIMARY KEY NOT NULL,
+	"organization_id" integer NOT NULL,
+	"user_id" integer NOT NULL,
+	"role" "org_role" DEFAULT 'member' NOT NULL,
+	"joined_at" timestamp DEFAULT now(),
+	"invited_by" integer,
+	"invite_status" text DEFAULT 'accepted',
+	"invite_token" text,
+	"invite_expires_at" timestamp,
+	"active_organization" boolean DEFAULT true,
+	"updated_at" timestamp DEFAULT now(),
+	CONSTRAINT "unique_org_member" UNIQUE("organization_id","user_id")
+);
+--> statement-breakpoint
+CREATE TABLE "organization_settings" (
+	"id" serial PRIMARY KEY NOT NULL,
+	"organization_id" integer NOT NULL,
+	"default_time_zone" text DEFAULT 'UTC',
+	"date_format" text DEFAULT 'DD/MM/YYYY',
+	"time_format" text DEFAULT 'HH:mm',
+	"logo_url" text,
+	"whatsapp_enabled" boolean DEFAULT false,
+	"email_notifications_enabled" boolean DEFAULT true,
+	"max_storage_gb" integer DEFAULT 5,
+	"max_users" integer DEFAULT 5,
+	"max_projects" integer DEFAULT 10,
+	"settings" jsonb DEFAULT '{}'::jsonb,
+	"updated_at" timestamp DEFAULT now()
+);
+--> statement-breakpoint
+CREATE TABLE "organizations" (
+	"id" serial PRIMARY KEY NOT NULL,
+	"name" text NOT NULL,
+	"slug" text NOT NULL,
+	"domain" text,
+	"logo" text,
+	"primary_color" text DEFAULT '#0EA5E9',
+	"active" boolean DEFAULT true NOT NULL,
+	"created_at" timestamp DEFAULT now(),
+	"updated_at" timestamp DEFAULT now(),
+	CONSTRAINT "organizations_slug_unique" UNIQUE("slug"),
+	CONSTRAINT "organizations_domain_unique" UNIQUE("domain")
+);
+--> statement-breakpoint
+CREATE TABLE "partner_agencies" (
+	"id" serial PRIMARY KEY NOT NULL,
+	"name" text NOT NULL,
+	"contact_name" text,
+	"contact_person" text,
+	"email" text NOT NULL,
+	"phone" text,
+	"website" text,
+	"address" text,
+	"partner_level" "partner_level" DEFAULT 'basic',
+	"commission" integer DEFAULT 0,
+	"access_level" text DEFAULT 'trial',
+	"trial_start_date" timestamp DEFAULT now(),
+	"trial_end_date" timestamp,
+	"max_organizations" integer DEFAULT 1,
+	"status" text DEFAULT 'active',
+	"notes" text,
+	"created_by" integer NOT NULL,
+	"created_at" timestamp DEFAULT now(),
+	"updated_at" timestamp DEFAULT now(),
+	CONSTRAINT "partner_agencies_email_unique" UNIQUE("email")
+);
+--> statement-breakpoint
+CREATE TABLE "payment_integrations" (
+	"id" serial PRIMARY KEY NOT NULL,
+	"organization_id" integer NOT NULL,
+	"provider" text NOT NULL,
+	"name" text NOT NULL,
+	"enabled" boolean DEFAULT false NOT NULL,
+	"is_default" boolean DEFAULT false,
+	"credentials" jsonb,
+	"webhook_url" text,
+	"webhook_secret" text,
+	"configured_by" integer NOT NULL,
+	"settings" jsonb DEFAULT '{}'::jsonb,
+	"test_mode" boolean DEFAULT true,
+	"created_at" timestamp DEFAULT now(),
+	"updated_at" timestamp DEFAULT now()
+);
+--> statement-breakpoint
+CREATE TABLE "phases" (
+	"id" serial PRIMARY KEY NOT NULL,
+	"project_id" integer NOT NULL,
+	"name" text NOT NULL,
+	"description" text,
+	"order" integer NOT NULL,
+	"created_at" timestamp DEFAULT now(),
+	"updated_at" timestamp DEFAULT now()
+);
+--> statement-breakpoint
+CREATE TABLE "project_members" (
+	"id" serial PRIMARY KEY NOT NULL,
+	"project_id" integer NOT NULL,
+	"user_id" integer NOT NULL,
+	"role" "role" DEFAULT 'member' NOT NULL,
+	"profession" "profession" DEFAULT 'other',
+	"added_at" timestamp DEFAULT now(),
+	"added_by" integer,
+	CONSTRAINT "unique_project_member" UNIQUE("project_id","user_id")
+);
+--> statement-breakpoint
+CREATE TABLE "projects" (
+	"id" serial PRIMARY KEY NOT NULL,
+	"organization_id" integer NOT NULL,
+	"name" text NOT NULL,
+	"description" text,
+	"status" "project_status" DEFAULT 'planning' NOT NULL,
+	"progress" integer DEFAULT 0 NOT NULL,
+	"start_date" timestamp,
+	"deadline" timestamp,
+	"budget" integer,
+	"created_at" timestamp DEFAULT now(),
+	"created_by" integer NOT NULL,
+	"updated_at" timestamp DEFAULT now()
+);
+--> statement-breakpoint
+CREATE TABLE "stripe_customers" (
+	"id" serial PRIMARY KEY NOT NULL,
+	"organization_id" integer NOT NULL,
+	"stripe_id" text NOT NULL,
+	"email" text NOT NULL,
+	"name" text,
+	"phone" text,
+	"metadata" jsonb,
+	"created_at" timestamp DEFAULT now(),
+	"updated_at" timestamp DEFAULT now(),
+	CONSTRAINT "stripe_customers_stripe_id_unique" UNIQUE("stripe_id")
+);
+--> statement-breakpoint
+CREATE TABLE "stripe_prices" (
+	"id" serial PRIMARY KEY NOT NULL,
+	"stripe_id" text NOT NULL,
+	"product_id" integer NOT NULL,
+	"type" text DEFAULT 'recurring' NOT NULL,
+	"recurring" jsonb,
+	"unit_amount" integer NOT NULL,
+	"currency" text DEFAULT 'usd' NOT NULL,
+	"active" boolean DEFAULT true NOT NULL,
+	"metadata" jsonb,
+	"created_at" timestamp DEFAULT now(),
+	"updated_at" timestamp DEFAULT now(),
+	CONSTRAINT "stripe_prices_stripe_id_unique" UNIQUE("stripe_id")
+);
+--> statement-breakpoint
+CREATE TABLE "stripe_products" (
+	"id" serial PRIMARY KEY NOT NULL,
+	"stripe_id" text NOT NULL,
+	"name" text NOT NULL,
+	"description" text,
+	"active" boolean DEFAULT true NOT NULL,
+	"metadata" jsonb,
+	"created_at" timestamp DEFAULT now(),
+	"updated_at" timestamp DEFAULT now(),
+	CONSTRAINT "stripe_products_stripe_id_unique" UNIQUE("stripe_id")
+);
+--> statement-breakpoint
+CREATE TABLE "subscriptions" (
+	"id" serial PRIMARY KEY NOT NULL,
+	"organization_id" integer NOT NULL,
+	"plan" "subscription_plan" DEFAULT 'free' NOT NULL,
+	"status" "subscription_status" DEFAULT 'active' NOT NULL,
+	"start_date" date NOT NULL,
+	"end_date" date,
+	"trial_ends_at" timestamp,
+	"payment_provider" text,
+	"payment_provider_id" text,
+	"quantity" integer DEFAULT 1,
+	"price_per_unit" integer,
+	"billing_cycle" text DEFAULT 'monthly',
+	"canceled_at" timestamp,
+	"cancel_reason" text,
+	"metadata" jsonb,
+	"created_at" timestamp DEFAULT now(),
+	"updated_at" timestamp DEFAULT now()
+);
+--> statement-breakpoint
+CREATE TABLE "tasks" (
+	"id" serial PRIMARY KEY NOT NULL,
+	"organization_id" integer NOT NULL,
+	"project_id" integer NOT NULL,
+	"phase_id" integer,
+	"name" text NOT NULL,
+	"description" text,
+	"assigned_to" integer,
+	"priority" "task_priority" DEFAULT 'medium' NOT NULL,
+	"status" "task_status" DEFAULT 'todo' NOT NULL,
+	"due_date" timestamp,
+	"estimated_hours" integer,
+	"completed_at" timestamp,
+	"created_at" timestamp DEFAULT now(),
+	"created_by" integer,
+	"updated_at" timestamp DEFAULT now()
+);
+--> statement-breakpoint
+CREATE TABLE "users" (
+	"id" serial PRIMARY KEY NOT NULL,
+	"username" text NOT NULL,
+	"password" text NOT NULL,
+	"name" text NOT NULL,
+	"email" text NOT NULL,
+	"role" "role" DEFAULT 'member' NOT NULL,
+	"profession" "profession" DEFAULT 'other',
+	"avatar" text,
+	"partner_agency_id" integer,
+	"stripe_customer_id" text,
+	"stripe_subscription_id" text,
+	"created_at" timestamp DEFAULT now(),
+	CONSTRAINT "users_username_unique" UNIQUE("username"),
+	CONSTRAINT "users_email_unique" UNIQUE("email")
+);
+--> statement-breakpoint
+ALTER TABLE "activities" ADD CONSTRAINT "activities_organization_id_organizations_id_fk" FOREIGN KEY ("organization_id") REFERENCES "public"."organizations"("id") ON DELETE cascade ON UPDATE no action;--> statement-breakpoint
+ALTER TABLE "activities" ADD CONSTRAINT "activities_user_id_users_id_fk" FOREIGN KEY ("user_id") REFERENCES "public"."users"("id") ON DELETE no action ON UPDATE no action;--> statement-breakpoint
+ALTER TABLE "activities" ADD CONSTRAINT "activities_project_id_projects_id_fk" FOREIGN KEY ("project_id") REFERENCES "public"."projects"("id") ON DELETE cascade ON UPDATE no action;--> statement-breakpoint
+ALTER TABLE "activities" ADD CONSTRAINT "activities_task_id_tasks_id_fk" FOREIGN KEY ("task_id") REFERENCES "public"."tasks"("id") ON DELETE set null ON UPDATE no action;--> statement-breakpoint
+ALTER TABLE "admin_settings" ADD CONSTRAINT "admin_settings_updated_by_users_id_fk" FOREIGN KEY ("updated_by") REFERENCES "public"."users"("id") ON DELETE no action ON UPDATE no action;--> statement-breakpoint
+ALTER TABLE "budget_categories" ADD CONSTRAINT "budget_categories_organization_id_organizations_id_fk" FOREIGN KEY ("organization_id") REFERENCES "public"."organizations"("id") ON DELETE cascade ON UPDATE no action;--> statement-breakpoint
+ALTER TABLE "budget_categories" ADD CONSTRAINT "budget_categories_project_id_projects_id_fk" FOREIGN KEY ("project_id") REFERENCES "public"."projects"("id") ON DELETE cascade ON UPDATE no action;--> statement-breakpoint
+ALTER TABLE "budget_categories" ADD CONSTRAINT "budget_categories_created_by_users_id_fk" FOREIGN KEY ("created_by") REFERENCES "public"."users"("id") ON DELETE no action ON UPDATE no action;--> statement-breakpoint
+ALTER TABLE "budget_forecasts" ADD CONSTRAINT "budget_forecasts_organization_id_organizations_id_fk" FOREIGN KEY ("organization_id") REFERENCES "public"."organizations"("id") ON DELETE cascade ON UPDATE no action;--> statement-breakpoint
+ALTER TABLE "budget_forecasts" ADD CONSTRAINT "budget_forecasts_project_id_projects_id_fk" FOREIGN KEY ("project_id") REFERENCES "public"."projects"("id") ON DELETE cascade ON UPDATE no action;--> statement-breakpoint
+ALTER TABLE "budget_forecasts" ADD CONSTRAINT "budget_forecasts_created_by_users_id_fk" FOREIGN KEY ("created_by") REFERENCES "public"."users"("id") ON DELETE no action ON UPDATE no action;--> statement-breakpoint
+ALTER TABLE "checklist_items" ADD CONSTRAINT "checklist_items_task_id_tasks_id_fk" FOREIGN KEY ("task_id") REFERENCES "public"."tasks"("id") ON DELETE cascade ON UPDATE no action;--> statement-breakpoint
+ALTER TABLE "checklist_items" ADD CONSTRAINT "checklist_items_completed_by_users_id_fk" FOREIGN KEY ("completed_by") REFERENCES "public"."users"("id") ON DELETE no action ON UPDATE no action;--> statement-breakpoint
+ALTER TABLE "comments" ADD CONSTRAINT "comments_organization_id_organizations_id_fk" FOREIGN KEY ("organization_id") REFERENCES "public"."organizations"("id") ON DELETE cascade ON UPDATE no action;--> statement-breakpoint
+ALTER TABLE "comments" ADD CONSTRAINT "comments_project_id_projects_id_fk" FOREIGN KEY ("project_id") REFERENCES "public"."projects"("id") ON DELETE cascade ON UPDATE no action;--> statement-breakpoint
+ALTER TABLE "comments" ADD CONSTRAINT "comments_task_id_tasks_id_fk" FOREIGN KEY ("task_id") REFERENCES "public"."tasks"("id") ON DELETE set null ON UPDATE no action;--> statement-breakpoint
+ALTER TABLE "comments" ADD CONSTRAINT "comments_user_id_users_id_fk" FOREIGN KEY ("user_id") REFERENCES "public"."users"("id") ON DELETE no action ON UPDATE no action;--> statement-breakpoint
+ALTER TABLE "expenses" ADD CONSTRAINT "expenses_organization_id_organizations_id_fk" FOREIGN KEY ("organization_id") REFERENCES "public"."organizations"("id") ON DELETE cascade ON UPDATE no action;--> statement-breakpoint
+ALTER TABLE "expenses" ADD CONSTRAINT "expenses_project_id_projects_id_fk" FOREIGN KEY ("project_id") REFERENCES "public"."projects"("id") ON DELETE cascade ON UPDATE no action;--> statement-breakpoint
+ALTER TABLE "expenses" ADD CONSTRAINT "expenses_category_id_budget_categories_id_fk" FOREIGN KEY ("category_id") REFERENCES "public"."budget_categories"("id") ON DELETE no action ON UPDATE no action;--> statement-breakpoint
+ALTER TABLE "expenses" ADD CONSTRAINT "expenses_created_by_users_id_fk" FOREIGN KEY ("created_by") REFERENCES "public"."users"("id") ON DELETE no action ON UPDATE no action;--> statement-breakpoint
+ALTER TABLE "expenses" ADD CONSTRAINT "expenses_approved_by_users_id_fk" FOREIGN KEY ("approved_by") REFERENCES "public"."users"("id") ON DELETE no action ON UPDATE no action;--> statement-breakpoint
+ALTER TABLE "expenses" ADD CONSTRAINT "expenses_task_id_tasks_id_fk" FOREIGN KEY ("task_id") REFERENCES "public"."tasks"("id") ON DELETE set null ON UPDATE no action;--> statement-breakpoint
+ALTER TABLE "files" ADD CONSTRAINT "files_organization_id_organizations_id_fk" FOREIGN KEY ("organization_id") REFERENCES "public"."organizations"("id") ON DELETE cascade ON UPDATE no action;--> statement-breakpoint
+ALTER TABLE "files" ADD CONSTRAINT "files_project_id_projects_id_fk" FOREIGN KEY ("project_id") REFERENCES "public"."projects"("id") ON DELETE cascade ON UPDATE no action;--> statement-breakpoint
+ALTER TABLE "files" ADD CONSTRAINT "files_task_id_tasks_id_fk" FOREIGN KEY ("task_id") REFERENCES "public"."tasks"("id") ON DELETE set null ON UPDATE no action;--> statement-breakpoint
+ALTER TABLE "files" ADD CONSTRAINT "files_uploaded_by_users_id_fk" FOREIGN KEY ("uploaded_by") REFERENCES "public"."users"("id") ON DELETE no action ON UPDATE no action;--> statement-breakpoint
+ALTER TABLE "integrations" ADD CONSTRAINT "integrations_organization_id_organizations_id_fk" FOREIGN KEY ("organization_id") REFERENCES "public"."organizations"("id") ON DELETE cascade ON UPDATE no action;--> statement-breakpoint
+ALTER TABLE "integrations" ADD CONSTRAINT "integrations_configured_by_users_id_fk" FOREIGN KEY ("configured_by") REFERENCES "public"."users"("id") ON DELETE no action ON UPDATE no action;--> statement-breakpoint
+ALTER TABLE "organization_members" ADD CONSTRAINT "organization_members_organization_id_organizations_id_fk" FOREIGN KEY ("organization_id") REFERENCES "public"."organizations"("id") ON DELETE cascade ON UPDATE no action;--> statement-breakpoint
+ALTER TABLE "organization_members" ADD CONSTRAINT "organization_members_user_id_users_id_fk" FOREIGN KEY ("user_id") REFERENCES "public"."users"("id") ON DELETE cascade ON UPDATE no action;--> statement-breakpoint
+ALTER TABLE "organization_members" ADD CONSTRAINT "organization_members_invited_by_users_id_fk" FOREIGN KEY ("invited_by") REFERENCES "public"."users"("id") ON DELETE no action ON UPDATE no action;--> statement-breakpoint
+ALTER TABLE "organization_settings" ADD CONSTRAINT "organization_settings_organization_id_organizations_id_fk" FOREIGN KEY ("organization_id") REFERENCES "public"."organizations"("id") ON DELETE cascade ON UPDATE no action;--> statement-breakpoint
+ALTER TABLE "partner_agencies" ADD CONSTRAINT "partner_agencies_created_by_users_id_fk" FOREIGN KEY ("created_by") REFERENCES "public"."users"("id") ON DELETE no action ON UPDATE no action;--> statement-breakpoint
+ALTER TABLE "payment_integrations" ADD CONSTRAINT "payment_integrations_organization_id_organizations_id_fk" FOREIGN KEY ("organization_id") REFERENCES "public"."organizations"("id") ON DELETE cascade ON UPDATE no action;--> statement-breakpoint
+ALTER TABLE "payment_integrations" ADD CONSTRAINT "payment_integrations_configured_by_users_id_fk" FOREIGN KEY ("configured_by") REFERENCES "public"."users"("id") ON DELETE no action ON UPDATE no action;--> statement-breakpoint
+ALTER TABLE "phases" ADD CONSTRAINT "phases_project_id_projects_id_fk" FOREIGN KEY ("project_id") REFERENCES "public"."projects"("id") ON DELETE cascade ON UPDATE no action;--> statement-breakpoint
+ALTER TABLE "project_members" ADD CONSTRAINT "project_members_project_id_projects_id_fk" FOREIGN KEY ("project_id") REFERENCES "public"."projects"("id") ON DELETE cascade ON UPDATE no action;--> statement-breakpoint
+ALTER TABLE "project_members" ADD CONSTRAINT "project_members_user_id_users_id_fk" FOREIGN KEY ("user_id") REFERENCES "public"."users"("id") ON DELETE cascade ON UPDATE no action;--> statement-breakpoint
+ALTER TABLE "project_members" ADD CONSTRAINT "project_members_added_by_users_id_fk" FOREIGN KEY ("added_by") REFERENCES "public"."users"("id") ON DELETE no action ON UPDATE no action;--> statement-breakpoint
+ALTER TABLE "projects" ADD CONSTRAINT "projects_organization_id_organizations_id_fk" FOREIGN KEY ("organization_id") REFERENCES "public"."organizations"("id") ON DELETE cascade ON UPDATE no action;--> statement-breakpoint
+ALTER TABLE "projects" ADD CONSTRAINT "projects_created_by_users_id_fk" FOREIGN KEY ("created_by") REFERENCES "public"."users"("id") ON DELETE no action ON UPDATE no action;--> statement-breakpoint
+ALTER TABLE "stripe_customers" ADD CONSTRAINT "stripe_customers_organization_id_organizations_id_fk" FOREIGN KEY ("organization_id") REFERENCES "public"."organizations"("id") ON DELETE cascade ON UPDATE no action;--> statement-breakpoint
+ALTER TABLE "stripe_prices" ADD CONSTRAINT "stripe_prices_product_id_stripe_products_id_fk" FOREIGN KEY ("product_id") REFERENCES "public"."stripe_products"("id") ON DELETE cascade ON UPDATE no action;--> statement-breakpoint
+ALTER TABLE "subscriptions" ADD CONSTRAINT "subscriptions_organization_id_organizations_id_fk" FOREIGN KEY ("organization_id") REFERENCES "public"."organizations"("id") ON DELETE cascade ON UPDATE no action;--> statement-breakpoint
+ALTER TABLE "tasks" ADD CONSTRAINT "tasks_organization_id_organizations_id_fk" FOREIGN KEY ("organization_id") REFERENCES "public"."organizations"("id") ON DELETE cascade ON UPDATE no action;--> statement-breakpoint
+ALTER TABLE "tasks" ADD CONSTRAINT "tasks_project_id_projects_id_fk" FOREIGN KEY ("project_id") REFERENCES "public"."projects"("id") ON DELETE cascade ON UPDATE no action;--> statement-breakpoint
+ALTER TABLE "tasks" ADD CONSTRAINT "tasks_phase_id_phases_id_fk" FOREIGN KEY ("phase_id") REFERENCES "public"."phases"("id") ON DELETE set null ON UPDATE no action;--> statement-breakpoint
+ALTER TABLE "tasks" ADD CONSTRAINT "tasks_assigned_to_users_id_fk" FOREIGN KEY ("assigned_to") REFERENCES "public"."users"("id") ON DELETE set null ON UPDATE no action;--> statement-breakpoint
+ALTER TABLE "tasks" ADD CONSTRAINT "tasks_created_by_users_id_fk" FOREIGN KEY ("created_by") REFERENCES "public"."users"("id") ON DELETE no action ON UPDATE no action;--> statement-breakpoint
+ALTER TABLE "users" ADD CONSTRAINT "users_partner_agency_id_partner_agencies_id_fk" FOREIGN KEY ("partner_agency_id") REFERENCES "public"."partner_agencies"("id") ON DELETE no action ON UPDATE no action;
\ No newline at end of file
@@ -0,0 +1,117 @@
+CREATE TABLE "api_tokens" (
+	"id" serial PRIMARY KEY NOT NULL,
+	"user_id" integer NOT NULL,
+	"organization_id" integer NOT NULL,
+	"name" text NOT NULL,
+	"token_hash" text NOT NULL,
+	"token_prefix" text NOT NULL,
+	"scopes" jsonb DEFAULT '[]'::jsonb,
+	"expires_at" timestamp,
+	"revoked_at" timestamp,
+	"last_used_at" timestamp,
+	"last_used_ip" text,
+	"created_at" timestamp DEFAULT now(),
+	CONSTRAINT "api_tokens_token_hash_unique" UNIQUE("token_hash")
+);
+--> statement-breakpoint
+CREATE TABLE "audit_logs" (
+	"id" serial PRIMARY KEY NOT NULL,
+	"organization_id" integer,
+	"actor_id" integer,
+	"actor_name" text,
+	"action" text NOT NULL,
+	"target_type" text,
+	"target_id" integer,
+	"target_label" text,
+	"changes" jsonb,
+	"details" jsonb,
+	"ip_address" text,
+	"created_at" timestamp DEFAULT now() NOT NULL
+);
+--> statement-breakpoint
+CREATE TABLE "login_throttles" (
+	"id" serial PRIMARY KEY NOT NULL,
+	"key" text NOT NULL,
+	"scope" text NOT NULL,
+	"identifier" text NOT NULL,
+	"failures" integer DEFAULT 0 NOT NULL,
+	"lockouts" integer DEFAULT 0 NOT NULL,
+	"last_failure_at" timestamp,
+	"locked_until" timestamp,
+	"updated_at" timestamp DEFAULT now(),
+	CONSTRAINT "login_throttles_key_unique" UNIQUE("key")
+);
+--> statement-breakpoint
+CREATE TABLE "organization_sso" (
+	"id" serial PRIMARY KEY NOT NULL,
+	"organization_id" integer NOT NULL,
+	"enabled" boolean DEFAULT false NOT NULL,
+	"issuer" text NOT NULL,
+	"client_id" text NOT NULL,
+	"client_secret" text,
+	"allowed_domains" jsonb DEFAULT '[]'::jsonb,
+	"default_role" "org_role" DEFAULT 'member' NOT NULL,
+	"created_at" timestamp DEFAULT now(),
+	"updated_at" timestamp DEFAULT now(),
+	CONSTRAINT "organization_sso_organization_id_unique" UNIQUE("organization_id")
+);
+--> statement-breakpoint
+CREATE TABLE "password_reset_tokens" (
+	"id" serial PRIMARY KEY NOT NULL,
+	"user_id" integer NOT NULL,
+	"token_hash" text NOT NULL,
+	"expires_at" timestamp NOT NULL,
+	"used_at" timestamp,
+	"requested_ip" text,
+	"created_at" timestamp DEFAULT now(),
+	CONSTRAINT "password_reset_tokens_token_hash_unique" UNIQUE("token_hash")
+);
+--> statement-breakpoint
+CREATE TABLE "sso_identities" (
+	"id" serial PRIMARY KEY NOT NULL,
+	"user_id" integer NOT NULL,
+	"organization_id" integer NOT NULL,
+	"issuer" text NOT NULL,
+	"subject" text NOT NULL,
+	"email" text,
+	"created_at" timestamp DEFAULT now(),
+	"last_login_at" timestamp,
+	CONSTRAINT "unique_sso_identity" UNIQUE("issuer","subject")
+);
+--> statement-breakpoint
+CREATE TABLE "user_sessions" (
+	"sid" varchar(255) PRIMARY KEY NOT NULL,
+	"user_id" integer,
+	"data" jsonb NOT NULL,
+	"expires_at" timestamp NOT NULL,
+	"user_agent" text,
+	"ip_address" text,
+	"created_at" timestamp DEFAULT now(),
+	"last_seen_at" timestamp DEFAULT now()
+);
+--> statement-breakpoint
+CREATE TABLE "user_two_factor" (
+	"id" serial PRIMARY KEY NOT NULL,
+	"user_id" integer NOT NULL,
+	"secret" text NOT NULL,
+	"enabled_at" timestamp,
+	"recovery_codes" jsonb DEFAULT '[]'::jsonb,
+	"last_used_step" integer,
+	"created_at" timestamp DEFAULT now(),
+	"updated_at" timestamp DEFAULT now(),
+	CONSTRAINT "user_two_factor_user_id_unique" UNIQUE("user_id")
+);
+--> statement-breakpoint
+ALTER TABLE "organization_members" ALTER COLUMN "user_id" DROP NOT NULL;--> statement-breakpoint
+ALTER TABLE "organization_members" ADD COLUMN "invite_email" text;--> statement-breakpoint
+ALTER TABLE "organization_settings" ADD COLUMN "require_two_factor" boolean DEFAULT false;--> statement-breakpoint
+ALTER TABLE "organization_settings" ADD COLUMN "permissions" jsonb;--> statement-breakpoint
+ALTER TABLE "users" ADD COLUMN "is_super_admin" boolean DEFAULT false NOT NULL;--> statement-breakpoint
+ALTER TABLE "api_tokens" ADD CONSTRAINT "api_tokens_user_id_users_id_fk" FOREIGN KEY ("user_id") REFERENCES "public"."users"("id") ON DELETE cascade ON UPDATE no action;--> statement-breakpoint
+ALTER TABLE "api_tokens" ADD CONSTRAINT "api_tokens_organization_id_organizations_id_fk" FOREIGN KEY ("organization_id") REFERENCES "public"."organizations"("id") ON DELETE cascade ON UPDATE no action;--> statement-breakpoint
+ALTER TABLE "organization_sso" ADD CONSTRAINT "organization_sso_organization_id_organizations_id_fk" FOREIGN KEY ("organization_id") REFERENCES "public"."organizations"("id") ON DELETE cascade ON UPDATE no action;--> statement-breakpoint
+ALTER TABLE "password_reset_tokens" ADD CONSTRAINT "password_reset_tokens_user_id_users_id_fk" FOREIGN KEY ("user_id") REFERENCES "public"."users"("id") ON DELETE cascade ON UPDATE no action;--> statement-breakpoint
+ALTER TABLE "sso_identities" ADD CONSTRAINT "sso_identities_user_id_users_id_fk" FOREIGN KEY ("user_id") REFERENCES "public"."users"("id") ON DELETE cascade ON UPDATE no action;--> statement-breakpoint
+ALTER TABLE "sso_identities" ADD CONSTRAINT "sso_identities_organization_id_organizations_id_fk" FOREIGN KEY ("organization_id") REFERENCES "public"."organizations"("id") ON DELETE cascade ON UPDATE no action;--> statement-breakpoint
+ALTER TABLE "user_sessions" ADD CONSTRAINT "user_sessions_user_id_users_id_fk" FOREIGN KEY ("user_id") REFERENCES "public"."users"("id") ON DELETE cascade ON UPDATE no action;--> statement-breakpoint
+ALTER TABLE "user_two_factor" ADD CONSTRAINT "user_two_factor_user_id_users_id_fk" FOREIGN KEY ("user_id") REFERENCES "public"."users"("id") ON DELETE cascade ON UPDATE no action;
\ No newline at end of file
@@ -0,0 +1,13 @@
+ALTER TABLE "comments" ADD COLUMN "deleted_at" timestamp;--> statement-breakpoint
+ALTER TABLE "comments" ADD COLUMN "deleted_by" integer;--> statement-breakpoint
+ALTER TABLE "files" ADD COLUMN "deleted_at" timestamp;--> statement-breakpoint
+ALTER TABLE "files" ADD COLUMN "deleted_by" integer;--> statement-breakpoint
+ALTER TABLE "organization_settings" ADD COLUMN "trash_retention_days" integer DEFAULT 30 NOT NULL;--> statement-breakpoint
+ALTER TABLE "projects" ADD COLUMN "deleted_at" timestamp;--> statement-breakpoint
+ALTER TABLE "projects" ADD COLUMN "deleted_by" integer;--> statement-breakpoint
+ALTER TABLE "tasks" ADD COLUMN "deleted_at" timestamp;--> statement-breakpoint
+ALTER TABLE "tasks" ADD COLUMN "deleted_by" integer;--> statement-breakpoint
+ALTER TABLE "comments" ADD CONSTRAINT "comments_deleted_by_users_id_fk" FOREIGN KEY ("deleted_by") REFERENCES "public"."users"("id") ON DELETE set null ON UPDATE no action;--> statement-breakpoint
+ALTER TABLE "files" ADD CONSTRAINT "files_deleted_by_users_id_fk" FOREIGN KEY ("deleted_by") REFERENCES "public"."users"("id") ON DELETE set null ON UPDATE no action;--> statement-breakpoint
+ALTER TABLE "projects" ADD CONSTRAINT "projects_deleted_by_users_id_fk" FOREIGN KEY ("deleted_by") REFERENCES "public"."users"("id") ON DELETE set null ON UPDATE no action;--> statement-breakpoint
+ALTER TABLE "tasks" ADD CONSTRAINT "tasks_deleted_by_users_id_fk" FOREIGN KEY ("deleted_by") REFERENCES "public"."users"("id") ON DELETE set null ON UPDATE no action;
\ No newline at end of file
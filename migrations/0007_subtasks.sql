@@ -0,0 +1,2 @@
+ALTER TABLE "tasks" ADD COLUMN "parent_task_id" integer;--> statement-breakpoint
+ALTER TABLE "tasks" ADD CONSTRAINT "tasks_parent_task_id_tasks_id_fk" FOREIGN KEY ("parent_task_id") REFERENCES "public"."tasks"("id") ON DELETE set null ON UPDATE no action;
\ No newline at end of file
@@ -0,0 +1,11 @@
+CREATE TABLE "organization_domains" (
+	"id" serial PRIMARY KEY NOT NULL,
+	"organization_id" integer NOT NULL,
+	"domain" text NOT NULL,
+	"verification_token" text NOT NULL,
+	"verified_at" timestamp,
+	"created_at" timestamp DEFAULT now(),
+	CONSTRAINT "unique_organization_domain" UNIQUE("organization_id","domain")
+);
+--> statement-breakpoint
+ALTER TABLE "organization_domains" ADD CONSTRAINT "organization_domains_organization_id_organizations_id_fk" FOREIGN KEY ("organization_id") REFERENCES "public"."organizations"("id") ON DELETE cascade ON UPDATE no action;
\ No newline at end of file
@@ -0,0 +1 @@
+ALTER TABLE "saved_views" ADD COLUMN "on_dashboard" boolean DEFAULT false NOT NULL;
\ No newline at end of file
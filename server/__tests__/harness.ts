@@ -0,0 +1,150 @@
+/**
+ * Servidor de teste: as rotas da aplicação sobre o armazenamento em memória,
+ * em uma porta livre, e um cliente HTTP que guarda o cookie de sessão.
+ */
+import express, { type Express } from "express";
+import type { Server } from "http";
+import type { AddressInfo } from "net";
+import { registerRoutes } from "../routes";
+import { storage } from "../storage";
+import { hashPassword } from "../auth-utils";
+import type { OrganizationRole, ProjectRole } from "@shared/permissions";
+import type { Organization, Project, User } from "@shared/schema";
+
+export const TEST_PASSWORD = "senha-de-teste-123";
+
+export interface TestServer {
+  url: string;
+  // Rotas registradas, como "GET /api/tasks/:id"
+  routes: string[];
+  close(): Promise<void>;
+}
+
+export async function startTestServer(): Promise<TestServer> {
+  const app = express();
+  app.use(express.json());
+  app.use(express.urlencoded({ extended: false }));
+  const server: Server = await registerRoutes(app);
+  await new Promise<void>(resolve => server.listen(0, "127.0.0.1", resolve));
+  const { port } = server.address() as AddressInfo;
+  return {
+    url: `http://127.0.0.1:${port}`,
+    routes: listRoutes(app),
+    close: () => new Promise<void>(resolve => {
+      server.closeAllConnections();
+      server.close(() => resolve());
+    }),
+  };
+}
+
+// Percorre a pilha do Express, incluindo os routers montados com app.use(caminho, router)
+function listRoutes(app: Express): string[] {
+  const routes: string[] = [];
+  const visit = (stack: any[], prefix: string) => {
+    for (const layer of stack) {
+      if (layer.route) {
+        for (const method of Object.keys(layer.route.methods)) {
+          routes.push(`${method.toUpperCase()} ${prefix}${layer.route.path}`);
+        }
+      } else if (layer.name === "router" && layer.handle.stack) {
+        // Caminho da montagem a partir da expressão regular do Express 4 (ex.: ^\/api\/chatbot\/?(?=\/|$))
+        const mount = layer.regexp.source.replace(/^\^/, "").replace("\\/?(?=\\/|$)", "").replace(/\\\//g, "/");
+        visit(layer.handle.stack, prefix + mount);
+      }
+    }
+  };
+  visit((app as any)._router.stack, "");
+  return routes;
+}
+
+export interface TestResponse<T = any> {
+  status: number;
+  body: T;
+  headers: Headers;
+}
+
+// Cliente com a sessão de um usuário (cookie connect.sid)
+export class TestClient {
+  private cookie: string | null = null;
+
+  constructor(private readonly server: TestServer) {}
+
+  async request<T = any>(method: string, path: string, body?: unknown, headers: Record<string, string> = {}): Promise<TestResponse<T>> {
+    const response = await fetch(`${this.server.url}${path}`, {
+      method,
+      headers: {
+        ...(body !== undefined ? { "Content-Type": "application/json" } : {}),
+        ...(this.cookie ? { Cookie: this.cookie } : {}),
+        ...headers,
+      },
+      body: body !== undefined ? JSON.stringify(body) : undefined,
+      // Redirecionamentos (login único) são conferidos pelo teste
+      redirect: "manual",
+    });
+    const setCookie = response.headers.get("set-cookie");
+    if (setCookie) this.cookie = setCookie.split(";")[0];
+    const text = await response.text();
+    let parsed: unknown = text;
+    try {
+      parsed = text ? JSON.parse(text) : null;
+    } catch {
+      // Resposta que não é JSON (CSV, HTML)
+    }
+    return { status: response.status, body: parsed as T, headers: response.headers };
+  }
+
+  get = <T = any>(path: string) => this.request<T>("GET", path);
+  post = <T = any>(path: string, body?: unknown) => this.request<T>("POST", path, body ?? {});
+  put = <T = any>(path: string, body?: unknown) => this.request<T>("PUT", path, body ?? {});
+  delete = <T = any>(path: string) => this.request<T>("DELETE", path);
+
+  async login(username: string, password = TEST_PASSWORD): Promise<TestResponse> {
+    return this.post("/api/auth/login", { username, password });
+  }
+}
+
+let userSequence = 0;
+
+export async function createTestUser(prefix = "usuario"): Promise<User> {
+  userSequence += 1;
+  const username = `${prefix}-${userSequence}-${Date.now().toString(36)}`;
+  return storage.createUser({
+    username,
+    password: await hashPassword(TEST_PASSWORD),
+    name: `Usuário ${username}`,
+    email: `${username}@teste.example`,
+    role: "member",
+  });
+}
+
+export async function createTestOrganization(name: string): Promise<Organization> {
+  const organization = await storage.createOrganization({
+    name,
+    slug: `${name.toLowerCase().replace(/[^a-z0-9]+/g, "-")}-${Date.now().toString(36)}-${userSequence++}`,
+  });
+  // Sem limites de plano; os testes de cota definem os seus
+  await storage.createOrganizationSettings({ organizationId: organization.id, maxProjects: 0, maxUsers: 0, maxStorageGb: 0 });
+  await storage.createSubscription({
+    organizationId: organization.id,
+    plan: "enterprise",
+    status: "active",
+    startDate: new Date().toISOString().slice(0, 10),
+    endDate: null,
+  });
+  return organization;
+}
+
+export async function addTestMember(organization: Organization, role: OrganizationRole, prefix: string = role): Promise<User> {
+  const user = await createTestUser(prefix);
+  await storage.addOrganizationMember({ organizationId: organization.id, userId: user.id, role });
+  return user;
+}
+
+// Projeto criado por owner; os demais usuários entram com o papel informado
+export async function createTestProject(organization: Organization, owner: User, members: [User, ProjectRole][] = []): Promise<Project> {
+  const project = await storage.createProject(organization.id, { name: `Projeto de ${organization.name}`, createdBy: owner.id });
+  for (const [user, role] of members) {
+    await storage.addProjectMember(organization.id, { projectId: project.id, userId: user.id, role });
+  }
+  return project;
+}
@@ -0,0 +1,49 @@
+import { afterEach, describe, expect, it, vi } from "vitest";
+import { ConsoleMailTransport, SmtpMailTransport, createDefaultTransport } from "../mail/transport";
+
+const message = {
+  to: "pessoa@teste.example",
+  subject: "Redefinição de senha",
+  text: "Acesse https://app.example/reset-password/token-secreto",
+};
+
+afterEach(() => {
+  vi.unstubAllEnvs();
+  vi.restoreAllMocks();
+});
+
+describe("transporte de emails", () => {
+  it("usa SMTP quando SMTP_HOST está definido", () => {
+    vi.stubEnv("SMTP_HOST", "smtp.teste.example");
+    vi.stubEnv("MAIL_FROM", "LaunchRocket <nao-responda@teste.example>");
+    expect(createDefaultTransport()).toBeInstanceOf(SmtpMailTransport);
+  });
+
+  it("exige o remetente para enviar por SMTP", () => {
+    vi.stubEnv("MAIL_TRANSPORT", "smtp");
+    vi.stubEnv("SMTP_HOST", "smtp.teste.example");
+    vi.stubEnv("MAIL_FROM", "");
+    expect(() => createDefaultTransport()).toThrow("MAIL_FROM");
+  });
+
+  it("não mostra o conteúdo dos emails no console em produção", async () => {
+    vi.stubEnv("NODE_ENV", "production");
+    vi.stubEnv("SMTP_HOST", "");
+    vi.spyOn(console, "warn").mockImplementation(() => {});
+    const log = vi.spyOn(console, "log").mockImplementation(() => {});
+
+    const transport = createDefaultTransport();
+    expect(transport).toBeInstanceOf(ConsoleMailTransport);
+    await transport.send(message);
+
+    const output = log.mock.calls.flat().join("\n");
+    expect(output).toContain(message.to);
+    expect(output).not.toContain("token-secreto");
+  });
+
+  it("mostra o conteúdo no console fora de produção", async () => {
+    const log = vi.spyOn(console, "log").mockImplementation(() => {});
+    await new ConsoleMailTransport().send(message);
+    expect(log.mock.calls.flat().join("\n")).toContain("token-secreto");
+  });
+});
@@ -0,0 +1,800 @@
+import crypto from "crypto";
+import dns from "dns";
+import { afterAll, beforeAll, describe, expect, it, vi } from "vitest";
+import { storage } from "../storage";
+import { generateSignedToken, hashToken } from "../auth-utils";
+import { getSessionPublicId } from "../sessions";
+import {
+  TEST_PASSWORD,
+  TestClient,
+  addTestMember,
+  createTestOrganization,
+  createTestProject,
+  startTestServer,
+  type TestResponse,
+  type TestServer,
+} from "./harness";
+import {
+  DEFAULT_PERMISSION_MATRIX,
+  type OrganizationPermission,
+  type OrganizationRole,
+  type ProjectPermission,
+  type ProjectRole,
+} from "@shared/permissions";
+import type {
+  BudgetCategory,
+  BudgetForecast,
+  ChecklistItem,
+  Comment,
+  Expense,
+  File,
+  Integration,
+  LoginThrottle,
+  Organization,
+  OrganizationDomain,
+  OrganizationMember,
+  Phase,
+  Project,
+  SavedView,
+  Tag,
+  Task,
+  TaskDependency,
+  User,
+  ApiToken,
+} from "@shared/schema";
+
+// Nenhuma rota pode chamar o Stripe ou abrir o navegador do WhatsApp Web durante os testes
+vi.mock("stripe", () => ({
+  default: class {
+    paymentIntents = { create: async () => ({ client_secret: "pi_teste_secret" }) };
+    customers = { create: async () => ({ id: "cus_teste" }) };
+    subscriptions = {
+      create: async () => ({ id: "sub_teste", latest_invoice: null }),
+      retrieve: async () => ({ id: "sub_teste", status: "active" }),
+    };
+    webhooks = {
+      constructEvent: () => {
+        throw new Error("Assinatura inválida");
+      },
+    };
+  },
+}));
+
+vi.mock("../chatbot/whatsapp-web", async importOriginal => ({
+  ...(await importOriginal<typeof import("../chatbot/whatsapp-web")>()),
+  initWhatsAppWebClient: async () => {},
+  restartWhatsAppWeb: async () => {},
+  disconnectWhatsAppWeb: async () => true,
+}));
+
+let server: TestServer;
+let organization: Organization;
+let otherOrganization: Organization;
+const orgUsers = {} as Record<OrganizationRole, User>;
+const clients = {} as Record<OrganizationRole, TestClient>;
+
+async function loggedClient(user: User): Promise<TestClient> {
+  const client = new TestClient(server);
+  expect((await client.login(user.username)).status).toBe(200);
+  return client;
+}
+
+beforeAll(async () => {
+  server = await startTestServer();
+  organization = await createTestOrganization("Matriz");
+  otherOrganization = await createTestOrganization("Outra");
+  for (const role of ["owner", "admin", "member"] as OrganizationRole[]) {
+    orgUsers[role] = await addTestMember(organization, role);
+    clients[role] = await loggedClient(orgUsers[role]);
+  }
+});
+
+afterAll(async () => {
+  await server.close();
+});
+
+// Como a rota decide o acesso: o que a tabela abaixo declara para cada rota registrada
+type Access =
+  | { kind: "public" }
+  | { kind: "authenticated" }
+  | { kind: "organization"; permission: OrganizationPermission }
+  | { kind: "project"; permission?: ProjectPermission } // Sem permissão: basta participar do projeto
+  | { kind: "superAdmin" };
+
+const publicRoute: Access = { kind: "public" };
+const authenticated: Access = { kind: "authenticated" };
+const superAdmin: Access = { kind: "superAdmin" };
+const organizationPermission = (permission: OrganizationPermission): Access => ({ kind: "organization", permission });
+const projectPermission = (permission?: ProjectPermission): Access => ({ kind: "project", permission });
+
+type Actor =
+  | "anônimo"
+  | OrganizationRole
+  | "super admin"
+  | `${ProjectRole} do projeto`
+  | "fora do projeto";
+
+const ACTORS: Record<Access["kind"], Actor[]> = {
+  public: ["anônimo"],
+  authenticated: ["anônimo", "owner", "admin", "member"],
+  organization: ["anônimo", "owner", "admin", "member"],
+  project: ["anônimo", "admin do projeto", "manager do projeto", "member do projeto", "fora do projeto"],
+  superAdmin: ["anônimo", "owner", "admin", "member", "super admin"],
+};
+
+// Resultado esperado pela matriz padrão de permissões
+function isAllowed(access: Access, actor: Actor): boolean {
+  if (actor === "anônimo") return access.kind === "public";
+  switch (access.kind) {
+    case "public":
+    case "authenticated":
+      return true;
+    case "organization":
+      return DEFAULT_PERMISSION_MATRIX.organization[actor as OrganizationRole].includes(access.permission);
+    case "project": {
+      if (actor === "fora do projeto") return false;
+      const role = actor.replace(" do projeto", "") as ProjectRole;
+      return !access.permission || DEFAULT_PERMISSION_MATRIX.project[role].includes(access.permission);
+    }
+    case "superAdmin":
+      return actor === "super admin";
+  }
+}
+
+// Registros de cada caso, criados de novo para que rotas de exclusão não afetem os seguintes
+interface Fixture {
+  self: User; // Quem faz a requisição (o dono das visões, tokens e sessões abaixo)
+  project: Project;
+  phase: Phase;
+  task: Task;
+  blocker: Task;
+  freeTask: Task; // Sem dependências, para criar uma
+  dependency: TaskDependency;
+  checklistItem: ChecklistItem;
+  comment: Comment;
+  file: File;
+  category: BudgetCategory;
+  expense: Expense;
+  forecast: BudgetForecast;
+  tag: Tag;
+  mergeTarget: Tag;
+  view: SavedView;
+  apiToken: ApiToken;
+  sessionId: string; // Outra sessão de self
+  invite: OrganizationMember;
+  inviteToken: string;
+  domain: OrganizationDomain;
+  trashedProject: Project;
+  integration: Integration;
+  throttle: LoginThrottle;
+}
+
+interface RouteCase {
+  route: string; // Como registrada no Express, ex.: "PUT /api/tasks/:id"
+  access: Access;
+  path?: (fx: Fixture) => string; // Caminho com os parâmetros preenchidos; sem ele, o da rota
+  body?: (fx: Fixture) => unknown;
+  fresh?: boolean; // A rota troca a sessão de quem chama: usa um login só para o caso
+}
+
+const org = () => `/api/organizations/${organization.id}`;
+let sequence = 0;
+const unique = (prefix: string) => `${prefix}-${++sequence}-${Date.now().toString(36)}`;
+
+const ROUTES: RouteCase[] = [
+  // Cadastro e autenticação
+  { route: "POST /api/organizations", access: publicRoute, body: () => ({ name: unique("Nova organização") }) },
+  { route: "POST /api/auth/login", access: publicRoute, body: fx => ({ username: fx.self.username, password: TEST_PASSWORD }) },
+  { route: "POST /api/auth/login/2fa", access: publicRoute, body: () => ({ code: "000000" }) },
+  { route: "POST /api/auth/logout", access: publicRoute },
+  { route: "POST /api/auth/impersonation/end", access: publicRoute },
+  { route: "POST /api/auth/forgot-password", access: publicRoute, body: fx => ({ email: fx.self.email }) },
+  { route: "GET /api/auth/reset-password/:token", access: publicRoute, path: () => "/api/auth/reset-password/token-invalido" },
+  { route: "POST /api/auth/reset-password", access: publicRoute, body: () => ({ token: "token-invalido", password: "nova-senha-123" }) },
+  { route: "GET /api/auth/sso/start", access: publicRoute, path: () => `/api/auth/sso/start?organization=${organization.slug}` },
+  { route: "GET /api/auth/sso/callback", access: publicRoute, path: () => "/api/auth/sso/callback?state=invalido&code=invalido" },
+  { route: "GET /api/auth/me", access: authenticated },
+  { route: "GET /api/auth/2fa", access: authenticated },
+  { route: "POST /api/auth/2fa/setup", access: authenticated },
+  { route: "POST /api/auth/2fa/enable", access: authenticated, body: () => ({ code: "000000" }) },
+  { route: "POST /api/auth/2fa/recovery-codes", access: authenticated, body: () => ({ code: "000000" }) },
+  { route: "POST /api/auth/2fa/disable", access: authenticated, body: () => ({ password: TEST_PASSWORD, code: "000000" }) },
+  { route: "GET /api/auth/tokens", access: authenticated },
+  { route: "POST /api/auth/tokens", access: authenticated, body: () => ({ name: "Integração", scopes: ["read"] }) },
+  { route: "DELETE /api/auth/tokens/:id", access: authenticated, path: fx => `/api/auth/tokens/${fx.apiToken.id}` },
+  { route: "GET /api/auth/sessions", access: authenticated },
+  { route: "DELETE /api/auth/sessions", access: authenticated },
+  { route: "DELETE /api/auth/sessions/:sessionId", access: authenticated, path: fx => `/api/auth/sessions/${fx.sessionId}` },
+  { route: "GET /api/auth/organizations", access: authenticated },
+  { route: "POST /api/auth/organizations/switch", access: authenticated, body: () => ({ organizationId: organization.id }) },
+
+  // Usuários (as regras por usuário alvo estão em "cadastro e alteração de usuários")
+  { route: "GET /api/users", access: authenticated },
+  {
+    route: "POST /api/users",
+    access: publicRoute,
+    body: () => {
+      const username = unique("cadastro");
+      return { username, password: TEST_PASSWORD, name: "Cadastro", email: `${username}@teste.example` };
+    },
+  },
+  { route: "PUT /api/users/:id", access: authenticated, path: fx => `/api/users/${fx.self.id}`, body: () => ({ name: "Próprio nome" }) },
+
+  // Organização
+  { route: "GET /api/organizations/:id/usage", access: organizationPermission("organization.manage"), path: () => `${org()}/usage` },
+  { route: "GET /api/organizations/:id/security", access: organizationPermission("security.manage"), path: () => `${org()}/security` },
+  {
+    route: "PUT /api/organizations/:id/security",
+    access: organizationPermission("security.manage"),
+    path: () => `${org()}/security`,
+    body: () => ({ requireTwoFactor: false }),
+  },
+  {
+    route: "DELETE /api/organizations/:id/members/:userId/sessions",
+    access: organizationPermission("security.manage"),
+    path: () => `${org()}/members/${target.id}/sessions`,
+  },
+  { route: "GET /api/organizations/:id/sso", access: organizationPermission("security.manage"), path: () => `${org()}/sso` },
+  {
+    route: "PUT /api/organizations/:id/sso",
+    access: organizationPermission("security.manage"),
+    path: () => `${org()}/sso`,
+    body: () => ({ enabled: false, issuer: "https://sso.teste.example", clientId: "cliente" }),
+  },
+  { route: "GET /api/organizations/:id/domains", access: organizationPermission("security.manage"), path: () => `${org()}/domains` },
+  {
+    route: "POST /api/organizations/:id/domains",
+    access: organizationPermission("security.manage"),
+    path: () => `${org()}/domains`,
+    body: () => ({ domain: `${unique("dominio")}.teste.example` }),
+  },
+  {
+    route: "POST /api/organizations/:id/domains/:domainId/verify",
+    access: organizationPermission("security.manage"),
+    path: fx => `${org()}/domains/${fx.domain.id}/verify`,
+  },
+  {
+    route: "DELETE /api/organizations/:id/domains/:domainId",
+    access: organizationPermission("security.manage"),
+    path: fx => `${org()}/domains/${fx.domain.id}`,
+  },
+  { route: "GET /api/organizations/:id/permissions", access: organizationPermission("permission.manage"), path: () => `${org()}/permissions` },
+  {
+    route: "PUT /api/organizations/:id/permissions",
+    access: organizationPermission("permission.manage"),
+    path: () => `${org()}/permissions`,
+    body: () => ({
+      organization: { admin: DEFAULT_PERMISSION_MATRIX.organization.admin, member: DEFAULT_PERMISSION_MATRIX.organization.member },
+      project: DEFAULT_PERMISSION_MATRIX.project,
+    }),
+  },
+  { route: "DELETE /api/organizations/:id/permissions", access: organizationPermission("permission.manage"), path: () => `${org()}/permissions` },
+  { route: "GET /api/organizations/:id/audit-logs", access: organizationPermission("audit.view"), path: () => `${org()}/audit-logs` },
+  { route: "GET /api/organizations/:id/audit-logs/export", access: organizationPermission("audit.view"), path: () => `${org()}/audit-logs/export` },
+  { route: "GET /api/organizations/:id/trash", access: organizationPermission("trash.manage"), path: () => `${org()}/trash` },
+  {
+    route: "PUT /api/organizations/:id/trash/settings",
+    access: organizationPermission("trash.manage"),
+    path: () => `${org()}/trash/settings`,
+    body: () => ({ retentionDays: 30 }),
+  },
+  {
+    route: "POST /api/organizations/:id/trash/:type/:itemId/restore",
+    access: organizationPermission("trash.manage"),
+    path: fx => `${org()}/trash/project/${fx.trashedProject.id}/restore`,
+  },
+  {
+    route: "DELETE /api/organizations/:id/trash/:type/:itemId",
+    access: organizationPermission("trash.manage"),
+    path: fx => `${org()}/trash/project/${fx.trashedProject.id}`,
+  },
+  { route: "GET /api/organizations/:id/invites", access: organizationPermission("member.invite"), path: () => `${org()}/invites` },
+  {
+    route: "POST /api/organizations/:id/invites",
+    access: organizationPermission("member.invite"),
+    path: () => `${org()}/invites`,
+    body: () => ({ email: `${unique("convidado")}@teste.example`, role: "member" }),
+  },
+  {
+    route: "POST /api/organizations/:id/invites/:inviteId/resend",
+    access: organizationPermission("member.invite"),
+    path: fx => `${org()}/invites/${fx.invite.id}/resend`,
+  },
+  {
+    route: "DELETE /api/organizations/:id/invites/:inviteId",
+    access: organizationPermission("member.invite"),
+    path: fx => `${org()}/invites/${fx.invite.id}`,
+  },
+  { route: "GET /api/invites/:token", access: publicRoute, path: fx => `/api/invites/${encodeURIComponent(fx.inviteToken)}` },
+  {
+    route: "POST /api/invites/:token/accept",
+    access: publicRoute,
+    path: fx => `/api/invites/${encodeURIComponent(fx.inviteToken)}/accept`,
+    body: () => ({ username: unique("aceite"), name: "Convidado", password: TEST_PASSWORD }),
+  },
+  { route: "POST /api/invites/:token/decline", access: publicRoute, path: fx => `/api/invites/${encodeURIComponent(fx.inviteToken)}/decline` },
+
+  // Projetos e membros
+  { route: "GET /api/projects", access: authenticated },
+  { route: "GET /api/projects/:id", access: projectPermission(), path: fx => `/api/projects/${fx.project.id}` },
+  { route: "POST /api/projects", access: organizationPermission("project.create"), body: () => ({ name: unique("Projeto") }) },
+  { route: "PUT /api/projects/:id", access: projectPermission("project.update"), path: fx => `/api/projects/${fx.project.id}`, body: () => ({ name: "Novo nome" }) },
+  { route: "DELETE /api/projects/:id", access: projectPermission("project.delete"), path: fx => `/api/projects/${fx.project.id}` },
+  { route: "GET /api/projects/:projectId/members", access: projectPermission(), path: fx => `/api/projects/${fx.project.id}/members` },
+  {
+    route: "POST /api/projects/:projectId/members",
+    access: projectPermission("project.members.manage"),
+    path: fx => `/api/projects/${fx.project.id}/members`,
+    body: () => ({ userId: spare.id, role: "member" }),
+  },
+  {
+    route: "DELETE /api/projects/:projectId/members/:userId",
+    access: projectPermission("project.members.manage"),
+    path: fx => `/api/projects/${fx.project.id}/members/${target.id}`,
+  },
+  {
+    route: "PUT /api/projects/:projectId/members/:userId/role",
+    access: projectPermission("project.roles.manage"),
+    path: fx => `/api/projects/${fx.project.id}/members/${target.id}/role`,
+    body: () => ({ role: "manager" }),
+  },
+
+  // Fases, tarefas e checklists
+  { route: "GET /api/projects/:projectId/phases", access: projectPermission(), path: fx => `/api/projects/${fx.project.id}/phases` },
+  {
+    route: "POST /api/projects/:projectId/phases",
+    access: projectPermission("phase.manage"),
+    path: fx => `/api/projects/${fx.project.id}/phases`,
+    body: () => ({ name: "Fase", order: 2 }),
+  },
+  { route: "PUT /api/phases/:id", access: projectPermission("phase.manage"), path: fx => `/api/phases/${fx.phase.id}`, body: () => ({ name: "Fase renomeada" }) },
+  { route: "DELETE /api/phases/:id", access: projectPermission("phase.manage"), path: fx => `/api/phases/${fx.phase.id}` },
+  { route: "GET /api/projects/:projectId/tasks", access: projectPermission(), path: fx => `/api/projects/${fx.project.id}/tasks` },
+  { route: "GET /api/phases/:phaseId/tasks", access: projectPermission(), path: fx => `/api/phases/${fx.phase.id}/tasks` },
+  { route: "GET /api/tasks/:id", access: projectPermission(), path: fx => `/api/tasks/${fx.task.id}` },
+  { route: "GET /api/tasks/:id/subtasks", access: projectPermission(), path: fx => `/api/tasks/${fx.task.id}/subtasks` },
+  { route: "GET /api/tasks", access: authenticated },
+  { route: "GET /api/tasks/user/me", access: authenticated },
+  {
+    route: "POST /api/projects/:projectId/tasks",
+    access: projectPermission("task.create"),
+    path: fx => `/api/projects/${fx.project.id}/tasks`,
+    body: () => ({ name: "Tarefa nova" }),
+  },
+  { route: "PUT /api/tasks/:id", access: projectPermission("task.update"), path: fx => `/api/tasks/${fx.task.id}`, body: () => ({ name: "Tarefa renomeada" }) },
+  { route: "DELETE /api/tasks/:id", access: projectPermission("task.delete"), path: fx => `/api/tasks/${fx.task.id}` },
+  { route: "GET /api/tasks/:id/dependencies", access: projectPermission(), path: fx => `/api/tasks/${fx.task.id}/dependencies` },
+  {
+    route: "POST /api/tasks/:id/dependencies",
+    access: projectPermission("task.update"),
+    path: fx => `/api/tasks/${fx.task.id}/dependencies`,
+    body: fx => ({ blockerTaskId: fx.freeTask.id, type: "start_to_start" }),
+  },
+  {
+    route: "DELETE /api/tasks/:id/dependencies/:dependencyId",
+    access: projectPermission("task.update"),
+    path: fx => `/api/tasks/${fx.task.id}/dependencies/${fx.dependency.id}`,
+  },
+  { route: "GET /api/tasks/:taskId/checklist", access: projectPermission(), path: fx => `/api/tasks/${fx.task.id}/checklist` },
+  {
+    route: "POST /api/tasks/:taskId/checklist",
+    access: projectPermission("task.update"),
+    path: fx => `/api/tasks/${fx.task.id}/checklist`,
+    body: () => ({ text: "Novo item", order: 2 }),
+  },
+  { route: "PUT /api/checklist/:id", access: projectPermission("task.update"), path: fx => `/api/checklist/${fx.checklistItem.id}`, body: () => ({ completed: true }) },
+  { route: "DELETE /api/checklist/:id", access: projectPermission("task.update"), path: fx => `/api/checklist/${fx.checklistItem.id}` },
+  { route: "POST /api/checklist/:id/subtask", access: projectPermission("task.create"), path: fx => `/api/checklist/${fx.checklistItem.id}/subtask` },
+
+  // Arquivos
+  { route: "GET /api/projects/:projectId/files", access: projectPermission(), path: fx => `/api/projects/${fx.project.id}/files` },
+  { route: "GET /api/tasks/:taskId/files", access: projectPermission(), path: fx => `/api/tasks/${fx.task.id}/files` },
+  { route: "POST /api/projects/:projectId/files", access: projectPermission("file.upload"), path: fx => `/api/projects/${fx.project.id}/files` },
+  { route: "GET /api/files/:id/download", access: projectPermission(), path: fx => `/api/files/${fx.file.id}/download` },
+  { route: "DELETE /api/files/:id", access: projectPermission("file.delete"), path: fx => `/api/files/${fx.file.id}` },
+
+  // Atividades, busca, tags e visões salvas
+  { route: "GET /api/activities", access: authenticated },
+  { route: "GET /api/search", access: authenticated, path: () => "/api/search?q=tarefa" },
+  { route: "GET /api/tags", access: authenticated },
+  { route: "POST /api/tags", access: authenticated, body: () => ({ name: unique("tag") }) },
+  { route: "PUT /api/tags/:id", access: organizationPermission("tag.manage"), path: fx => `/api/tags/${fx.tag.id}`, body: () => ({ name: unique("renomeada") }) },
+  {
+    route: "POST /api/tags/:id/merge",
+    access: organizationPermission("tag.manage"),
+    path: fx => `/api/tags/${fx.tag.id}/merge`,
+    body: fx => ({ targetId: fx.mergeTarget.id }),
+  },
+  { route: "DELETE /api/tags/:id", access: organizationPermission("tag.manage"), path: fx => `/api/tags/${fx.tag.id}` },
+  { route: "GET /api/views", access: authenticated },
+  { route: "GET /api/views/:id", access: authenticated, path: fx => `/api/views/${fx.view.id}` },
+  { route: "POST /api/views", access: authenticated, body: () => ({ name: "Visão", target: "tasks", filters: {} }) },
+  { route: "PUT /api/views/:id", access: authenticated, path: fx => `/api/views/${fx.view.id}`, body: () => ({ pinned: true }) },
+  { route: "DELETE /api/views/:id", access: authenticated, path: fx => `/api/views/${fx.view.id}` },
+  { route: "GET /api/views/:id/results", access: authenticated, path: fx => `/api/views/${fx.view.id}/results` },
+  { route: "GET /api/projects/:projectId/activities", access: projectPermission(), path: fx => `/api/projects/${fx.project.id}/activities` },
+
+  // Comentários
+  { route: "GET /api/projects/:projectId/comments", access: projectPermission(), path: fx => `/api/projects/${fx.project.id}/comments` },
+  { route: "GET /api/tasks/:taskId/comments", access: projectPermission(), path: fx => `/api/tasks/${fx.task.id}/comments` },
+  {
+    route: "POST /api/projects/:projectId/comments",
+    access: projectPermission("comment.create"),
+    path: fx => `/api/projects/${fx.project.id}/comments`,
+    body: fx => ({ content: "Comentário", taskId: fx.task.id }),
+  },
+  { route: "DELETE /api/comments/:id", access: projectPermission("comment.delete"), path: fx => `/api/comments/${fx.comment.id}` },
+
+  // Identidade visual e integrações
+  { route: "GET /api/settings", access: publicRoute },
+  { route: "PUT /api/settings", access: organizationPermission("organization.manage"), body: () => ({ appName: "Matriz" }) },
+  { route: "POST /api/settings/logo", access: organizationPermission("organization.manage") },
+  { route: "DELETE /api/settings/logo", access: organizationPermission("organization.manage") },
+  { route: "GET /api/integrations", access: organizationPermission("integration.manage") },
+  { route: "GET /api/integrations/:id", access: organizationPermission("integration.manage"), path: fx => `/api/integrations/${fx.integration.id}` },
+  { route: "POST /api/integrations", access: organizationPermission("integration.manage"), body: () => ({ type: "email", name: "Email", enabled: false }) },
+  {
+    route: "PUT /api/integrations/:id",
+    access: organizationPermission("integration.manage"),
+    path: fx => `/api/integrations/${fx.integration.id}`,
+    body: () => ({ name: "SMS", enabled: false }),
+  },
+  { route: "DELETE /api/integrations/:id", access: organizationPermission("integration.manage"), path: fx => `/api/integrations/${fx.integration.id}` },
+  { route: "POST /api/integrations/whatsapp/test", access: organizationPermission("integration.manage") },
+  { route: "GET /api/chatbot/settings", access: authenticated },
+  { route: "PUT /api/chatbot/settings", access: authenticated, body: () => ({ phoneNumber: "5511999999999", enabled: false }) },
+  { route: "POST /api/chatbot/test-message", access: authenticated, body: () => ({ phoneNumber: "5511999999999" }) },
+  { route: "GET /api/chatbot/webhook", access: publicRoute },
+  { route: "POST /api/chatbot/webhook", access: publicRoute },
+  { route: "GET /api/whatsapp-web/status", access: organizationPermission("integration.manage") },
+  { route: "GET /api/whatsapp-web/qr-code", access: organizationPermission("integration.manage") },
+  { route: "POST /api/whatsapp-web/connect", access: organizationPermission("integration.manage") },
+  { route: "POST /api/whatsapp-web/disconnect", access: organizationPermission("integration.manage") },
+  { route: "POST /api/whatsapp-web/restart", access: organizationPermission("integration.manage") },
+
+  // Super Admin
+  { route: "GET /api/admin/settings", access: superAdmin },
+  { route: "PUT /api/admin/settings", access: superAdmin, body: () => ({}) },
+  { route: "GET /api/admin/settings/pricing", access: superAdmin },
+  { route: "PUT /api/admin/settings/pricing", access: superAdmin, body: () => ({}) },
+  { route: "GET /api/admin/organizations/usage", access: superAdmin },
+  { route: "GET /api/admin/login-throttles", access: superAdmin },
+  { route: "DELETE /api/admin/login-throttles/:id", access: superAdmin, path: fx => `/api/admin/login-throttles/${fx.throttle.id}` },
+  { route: "GET /api/admin/users", access: superAdmin },
+  { route: "POST /api/admin/super-admins/:userId", access: superAdmin, path: () => `/api/admin/super-admins/${target.id}` },
+  { route: "DELETE /api/admin/super-admins/:userId", access: superAdmin, path: () => `/api/admin/super-admins/${target.id}` },
+  { route: "POST /api/admin/users/:userId/impersonate", access: superAdmin, path: () => `/api/admin/users/${target.id}/impersonate`, fresh: true },
+  { route: "GET /api/admin/audit-logs", access: superAdmin },
+  { route: "GET /api/admin/audit-logs/export", access: superAdmin },
+  { route: "GET /api/admin/audit-retention", access: superAdmin },
+  { route: "PUT /api/admin/audit-retention", access: superAdmin, body: () => ({}) },
+  { route: "GET /api/admin/snapshot/status", access: superAdmin },
+  { route: "GET /api/admin/snapshot", access: superAdmin },
+  { route: "POST /api/admin/snapshot", access: superAdmin }, // Sem arquivo: não substitui os dados
+  { route: "GET /api/admin/partner-agencies", access: superAdmin },
+  { route: "GET /api/admin/partner-agencies/:id", access: superAdmin, path: () => "/api/admin/partner-agencies/999999" },
+  { route: "POST /api/admin/partner-agencies", access: superAdmin, body: () => ({}) },
+  { route: "PUT /api/admin/partner-agencies/:id", access: superAdmin, path: () => "/api/admin/partner-agencies/999999", body: () => ({}) },
+  { route: "DELETE /api/admin/partner-agencies/:id", access: superAdmin, path: () => "/api/admin/partner-agencies/999999" },
+  { route: "GET /api/admin/payment-integrations/mercado-pago", access: superAdmin },
+  { route: "PUT /api/admin/payment-integrations/mercado-pago", access: superAdmin, body: () => ({}) },
+  { route: "GET /api/admin/payment-integrations/stripe", access: superAdmin },
+  { route: "PUT /api/admin/payment-integrations/stripe", access: superAdmin, body: () => ({}) },
+
+  // Pagamentos
+  { route: "POST /api/create-payment-intent", access: authenticated, body: () => ({ amount: 10 }) },
+  { route: "POST /api/get-or-create-subscription", access: authenticated },
+  { route: "POST /api/stripe-webhook", access: publicRoute },
+
+  // Orçamento
+  { route: "GET /api/projects/:projectId/budget-categories", access: projectPermission(), path: fx => `/api/projects/${fx.project.id}/budget-categories` },
+  { route: "GET /api/budget-categories/:id", access: projectPermission(), path: fx => `/api/budget-categories/${fx.category.id}` },
+  {
+    route: "POST /api/projects/:projectId/budget-categories",
+    access: projectPermission("budget.manage"),
+    path: fx => `/api/projects/${fx.project.id}/budget-categories`,
+    body: () => ({ name: "Categoria nova", category: "other", plannedAmount: 1000 }),
+  },
+  {
+    route: "PUT /api/budget-categories/:id",
+    access: projectPermission("budget.manage"),
+    path: fx => `/api/budget-categories/${fx.category.id}`,
+    body: () => ({ name: "Categoria renomeada" }),
+  },
+  { route: "DELETE /api/budget-categories/:id", access: projectPermission("budget.delete"), path: fx => `/api/budget-categories/${fx.category.id}` },
+  { route: "GET /api/projects/:projectId/expenses", access: projectPermission(), path: fx => `/api/projects/${fx.project.id}/expenses` },
+  { route: "GET /api/expenses/:id", access: projectPermission(), path: fx => `/api/expenses/${fx.expense.id}` },
+  {
+    route: "POST /api/projects/:projectId/expenses",
+    access: projectPermission("expense.create"),
+    path: fx => `/api/projects/${fx.project.id}/expenses`,
+    body: fx => ({ name: "Despesa nova", categoryId: fx.category.id, amount: 500, date: new Date().toISOString() }),
+  },
+  { route: "PUT /api/expenses/:id", access: projectPermission("expense.update"), path: fx => `/api/expenses/${fx.expense.id}`, body: () => ({ name: "Despesa renomeada" }) },
+  {
+    route: "POST /api/expenses/:id/approve",
+    access: projectPermission("expense.approve"),
+    path: fx => `/api/expenses/${fx.expense.id}/approve`,
+    body: () => ({ status: "approved" }),
+  },
+  { route: "DELETE /api/expenses/:id", access: projectPermission("expense.delete"), path: fx => `/api/expenses/${fx.expense.id}` },
+  { route: "GET /api/projects/:projectId/budget-forecasts", access: projectPermission(), path: fx => `/api/projects/${fx.project.id}/budget-forecasts` },
+  { route: "GET /api/budget-forecasts/:id", access: projectPermission(), path: fx => `/api/budget-forecasts/${fx.forecast.id}` },
+  {
+    route: "POST /api/projects/:projectId/budget-forecasts",
+    access: projectPermission("budget.manage"),
+    path: fx => `/api/projects/${fx.project.id}/budget-forecasts`,
+    body: () => ({ name: "Previsão nova", startDate: "2030-01-01", endDate: "2030-12-31", forecastAmount: 1000 }),
+  },
+  {
+    route: "PUT /api/budget-forecasts/:id",
+    access: projectPermission("budget.manage"),
+    path: fx => `/api/budget-forecasts/${fx.forecast.id}`,
+    body: () => ({ name: "Previsão renomeada" }),
+  },
+  { route: "DELETE /api/budget-forecasts/:id", access: projectPermission("budget.delete"), path: fx => `/api/budget-forecasts/${fx.forecast.id}` },
+  { route: "GET /api/projects/:projectId/budget-summary", access: projectPermission(), path: fx => `/api/projects/${fx.project.id}/budget-summary` },
+];
+
+// Usuários dos casos da tabela
+const actorUsers = {} as Record<Exclude<Actor, "anônimo">, User>;
+const actorClients = {} as Record<Exclude<Actor, "anônimo">, TestClient>;
+let target: User; // Alvo das rotas sobre outro usuário (membro do projeto dos casos)
+let spare: User; // Membro da organização fora do projeto, para ser adicionado a ele
+
+async function createFixture(self: User): Promise<Fixture> {
+  const orgId = organization.id;
+  const owner = orgUsers.owner;
+  const project = await createTestProject(organization, owner, [
+    [actorUsers["admin do projeto"], "admin"],
+    [actorUsers["manager do projeto"], "manager"],
+    [actorUsers["member do projeto"], "member"],
+    [target, "member"],
+  ]);
+  const phase = await storage.createPhase(orgId, { projectId: project.id, name: "Fase", order: 1 });
+  const task = await storage.createTask(orgId, { projectId: project.id, phaseId: phase.id, name: "Tarefa" });
+  const blocker = await storage.createTask(orgId, { projectId: project.id, name: "Bloqueadora" });
+  const freeTask = await storage.createTask(orgId, { projectId: project.id, name: "Independente" });
+  const dependency = await storage.createTaskDependency(orgId, {
+    blockerTaskId: blocker.id,
+    blockedTaskId: task.id,
+    type: "finish_to_start",
+    createdBy: owner.id,
+  });
+  const checklistItem = await storage.createChecklistItem(orgId, { taskId: task.id, text: "Item" });
+  const comment = await storage.createComment(orgId, { projectId: project.id, taskId: task.id, userId: owner.id, content: "Comentário" });
+  const file = await storage.createFile(orgId, {
+    projectId: project.id,
+    taskId: task.id,
+    name: "arquivo.txt",
+    path: "uploads/inexistente.txt",
+    mimeType: "text/plain",
+    size: 1,
+    uploadedBy: owner.id,
+  });
+  const category = await storage.createBudgetCategory(orgId, { projectId: project.id, name: "Categoria", plannedAmount: 1000, createdBy: owner.id });
+  const expense = await storage.createExpense(orgId, {
+    projectId: project.id,
+    categoryId: category.id,
+    name: "Despesa",
+    amount: 100,
+    date: new Date(),
+    createdBy: owner.id,
+  });
+  const forecast = await storage.createBudgetForecast(orgId, {
+    projectId: project.id,
+    name: "Previsão",
+    startDate: new Date("2030-01-01"),
+    endDate: new Date("2030-12-31"),
+    forecastAmount: 1000,
+    createdBy: owner.id,
+  });
+
+  const tag = await storage.createTag(orgId, { name: unique("tag") });
+  const mergeTarget = await storage.createTag(orgId, { name: unique("destino") });
+  const view = await storage.createSavedView(orgId, { userId: self.id, name: "Visão", target: "tasks", filters: {} });
+  const apiToken = await storage.createApiToken({
+    userId: self.id,
+    organizationId: orgId,
+    name: "Token",
+    tokenHash: hashToken(crypto.randomBytes(16).toString("hex")),
+    tokenPrefix: "teste",
+    scopes: ["read"],
+  });
+  const sid = unique("outra-sessao");
+  await storage.saveUserSession({ sid, userId: self.id, data: {}, expiresAt: new Date(Date.now() + 60 * 60 * 1000) });
+
+  const inviteToken = generateSignedToken();
+  const invite = await storage.addOrganizationMember({
+    organizationId: orgId,
+    userId: null,
+    role: "member",
+    inviteEmail: `${unique("convite")}@teste.example`,
+    inviteStatus: "pending",
+    inviteToken: hashToken(inviteToken),
+    inviteExpiresAt: new Date(Date.now() + 60 * 60 * 1000),
+  });
+  const domain = await storage.createOrganizationDomain({
+    organizationId: orgId,
+    domain: `${unique("verificar")}.teste.example`,
+    verificationToken: "valor-esperado",
+  });
+  const trashedProject = await createTestProject(organization, owner);
+  await storage.moveToTrash(orgId, "project", trashedProject.id, owner.id);
+  const integration = await storage.createIntegration(orgId, { type: "sms", name: "SMS", enabled: false, configuredBy: owner.id });
+  const identifier = unique("bloqueado");
+  const throttle = await storage.saveLoginThrottle({ key: `account:${identifier}`, scope: "account", identifier, failures: 1, lockouts: 0 });
+
+  return {
+    self,
+    project,
+    phase,
+    task,
+    blocker,
+    freeTask,
+    dependency,
+    checklistItem,
+    comment,
+    file,
+    category,
+    expense,
+    forecast,
+    tag,
+    mergeTarget,
+    view,
+    apiToken,
+    sessionId: getSessionPublicId(sid),
+    invite,
+    inviteToken,
+    domain,
+    trashedProject,
+    integration,
+    throttle,
+  };
+}
+
+function send(client: TestClient, routeCase: RouteCase, fx: Fixture): Promise<TestResponse> {
+  const [method, route] = routeCase.route.split(" ");
+  const path = routeCase.path ? routeCase.path(fx) : route;
+  const body = routeCase.body?.(fx);
+  return client.request(method, path, method === "GET" || method === "DELETE" ? body : body ?? {});
+}
+
+// Rotas × papéis: cada rota registrada é chamada por cada papel que a regra de acesso dela distingue
+describe("matriz de rotas", () => {
+  beforeAll(async () => {
+    vi.spyOn(dns.promises, "resolveTxt").mockResolvedValue([]);
+    actorUsers.owner = orgUsers.owner;
+    actorUsers.admin = orgUsers.admin;
+    actorUsers.member = orgUsers.member;
+    actorUsers["fora do projeto"] = await addTestMember(organization, "member", "fora-do-projeto");
+    actorUsers["super admin"] = await addTestMember(organization, "member", "super-admin");
+    await storage.setUserSuperAdmin(actorUsers["super admin"].id, true);
+    for (const role of ["admin", "manager", "member"] as ProjectRole[]) {
+      actorUsers[`${role} do projeto`] = await addTestMember(organization, "member", `projeto-${role}`);
+    }
+    target = await addTestMember(organization, "member", "alvo");
+    spare = await addTestMember(organization, "member", "avulso");
+
+    for (const [actor, user] of Object.entries(actorUsers) as [Exclude<Actor, "anônimo">, User][]) {
+      actorClients[actor] = actor in clients ? clients[actor as OrganizationRole] : await loggedClient(user);
+    }
+  });
+
+  afterAll(() => {
+    vi.restoreAllMocks();
+  });
+
+  it("cobre todas as rotas registradas", () => {
+    expect(ROUTES.map(routeCase => routeCase.route).sort()).toEqual([...server.routes].sort());
+  });
+
+  for (const routeCase of ROUTES) {
+    for (const actor of ACTORS[routeCase.access.kind]) {
+      const allowed = isAllowed(routeCase.access, actor);
+      it(`${routeCase.route} como ${actor} → ${allowed ? "permitido" : "negado"}`, async () => {
+        const user = actor === "anônimo" ? spare : actorUsers[actor];
+        const fx = await createFixture(user);
+        const client = actor === "anônimo"
+          ? new TestClient(server)
+          : routeCase.fresh ? await loggedClient(user) : actorClients[actor];
+
+        const response = await send(client, routeCase, fx);
+        const unauthenticated = response.status === 401 && response.body?.message === "Não autenticado";
+        if (allowed) {
+          expect(unauthenticated).toBe(false);
+          if (actor !== "anônimo") expect([401, 403]).not.toContain(response.status);
+        } else if (actor === "anônimo") {
+          expect(unauthenticated).toBe(true);
+        } else {
+          expect(response.status).toBe(403);
+        }
+      });
+    }
+  }
+});
+
+describe("permissões de organização", () => {
+  it("não opera sobre outra organização pelo :id da rota", async () => {
+    const response = await clients.owner.get(`/api/organizations/${otherOrganization.id}/usage`);
+    expect(response.status).toBe(403);
+  });
+
+  it("aplica a matriz personalizada pelo owner", async () => {
+    const auditRoute = `/api/organizations/${organization.id}/audit-logs`;
+    expect((await clients.member.get(auditRoute)).status).toBe(403);
+
+    const custom = {
+      organization: { admin: DEFAULT_PERMISSION_MATRIX.organization.admin, member: ["project.create", "audit.view"] },
+      project: DEFAULT_PERMISSION_MATRIX.project,
+    };
+    expect((await clients.admin.put(`/api/organizations/${organization.id}/permissions`, custom)).status).toBe(403);
+    expect((await clients.owner.put(`/api/organizations/${organization.id}/permissions`, custom)).status).toBe(200);
+    expect((await clients.member.get(auditRoute)).status).toBe(200);
+
+    expect((await clients.owner.delete(`/api/organizations/${organization.id}/permissions`)).status).toBe(200);
+    expect((await clients.member.get(auditRoute)).status).toBe(403);
+  });
+});
+
+describe("cadastro e alteração de usuários", () => {
+  it("ignora o papel enviado no cadastro de uma organização", async () => {
+    const response = await new TestClient(server).post("/api/users", {
+      username: `registro-${Date.now()}`,
+      password: TEST_PASSWORD,
+      name: "Novo Owner",
+      email: `registro-${Date.now()}@teste.example`,
+      role: "admin",
+      orgRole: "owner",
+      organizationId: otherOrganization.id,
+    });
+    expect(response.status).toBe(201);
+    expect(response.body.role).toBe("member");
+    expect((await storage.getUser(response.body.id))?.role).toBe("member");
+  });
+
+  it("ignora o papel enviado por um usuário sem acesso de administrador da plataforma", async () => {
+    const response = await clients.owner.post("/api/users", {
+      username: `criado-${Date.now()}`,
+      password: TEST_PASSWORD,
+      name: "Criado pelo owner",
+      email: `criado-${Date.now()}@teste.example`,
+      role: "admin",
+    });
+    expect(response.status).toBe(201);
+    expect(response.body.role).toBe("member");
+  });
+
+  it("não permite que o usuário altere o próprio papel global", async () => {
+    const response = await clients.member.put(`/api/users/${orgUsers.member.id}`, { role: "admin", name: "Membro" });
+    expect(response.status).toBe(200);
+    expect(response.body.role).toBe("member");
+    expect(response.body.name).toBe("Membro");
+  });
+
+  it("não permite que um membro altere outro usuário", async () => {
+    const response = await clients.member.put(`/api/users/${orgUsers.admin.id}`, { name: "Alterado" });
+    expect(response.status).toBe(403);
+  });
+
+  it("permite que o admin da organização altere o perfil de um membro, sem login, email ou senha", async () => {
+    const target = await addTestMember(organization, "member", "perfil");
+    const response = await clients.admin.put(`/api/users/${target.id}`, {
+      name: "Nome pelo admin",
+      email: "tomado@teste.example",
+      password: "outra-senha-123",
+      role: "admin",
+    });
+    expect(response.status).toBe(200);
+    expect(response.body.name).toBe("Nome pelo admin");
+    expect(response.body.email).toBe(target.email);
+    expect(response.body.role).toBe("member");
+    expect((await new TestClient(server).login(target.username)).status).toBe(200);
+  });
+
+  it("não permite que o admin de uma organização altere usuários de outra", async () => {
+    const outsider = await addTestMember(otherOrganization, "member", "externo");
+    const response = await clients.owner.put(`/api/users/${outsider.id}`, { name: "Alterado" });
+    expect(response.status).toBe(403);
+  });
+});
@@ -0,0 +1,47 @@
+import { afterAll, beforeAll, describe, expect, it } from "vitest";
+import { storage } from "../storage";
+import {
+  TestClient,
+  addTestMember,
+  createTestOrganization,
+  createTestProject,
+  startTestServer,
+  type TestServer,
+} from "./harness";
+import type { Organization, User } from "@shared/schema";
+
+let server: TestServer;
+let organization: Organization;
+let owner: User;
+let client: TestClient;
+
+beforeAll(async () => {
+  server = await startTestServer();
+  organization = await createTestOrganization("Limites");
+  owner = await addTestMember(organization, "owner");
+  client = new TestClient(server);
+  expect((await client.login(owner.username)).status).toBe(200);
+});
+
+afterAll(async () => {
+  await server.close();
+});
+
+describe("limites do plano", () => {
+  it("não restaura da lixeira um projeto além do limite", async () => {
+    await storage.updateOrganizationSettings(organization.id, { maxProjects: 1 });
+    const trashed = await createTestProject(organization, owner);
+    expect((await client.delete(`/api/projects/${trashed.id}`)).status).toBeLessThan(300);
+    await createTestProject(organization, owner);
+
+    const restoreRoute = `/api/organizations/${organization.id}/trash/project/${trashed.id}/restore`;
+    const refused = await client.post(restoreRoute);
+    expect(refused.status).toBe(402);
+    expect(refused.body.code).toBe("PLAN_LIMIT_REACHED");
+    expect(await storage.getProject(organization.id, trashed.id)).toBeUndefined();
+
+    await storage.updateOrganizationSettings(organization.id, { maxProjects: 2 });
+    expect((await client.post(restoreRoute)).status).toBe(200);
+    expect(await storage.getProject(organization.id, trashed.id)).toBeDefined();
+  });
+});
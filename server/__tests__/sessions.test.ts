@@ -0,0 +1,75 @@
+import { afterAll, beforeAll, describe, expect, it } from "vitest";
+import { storage } from "../storage";
+import { generateSignedToken, hashToken } from "../auth-utils";
+import { resetPassword } from "../password-reset";
+import { processMessage } from "../chatbot/whatsapp";
+import {
+  TEST_PASSWORD,
+  TestClient,
+  addTestMember,
+  createTestOrganization,
+  startTestServer,
+  type TestServer,
+} from "./harness";
+import type { Organization, User } from "@shared/schema";
+
+let server: TestServer;
+let organization: Organization;
+
+// Entra pelo chatbot e confirma que os comandos estão liberados
+async function chatLogin(phone: string, user: User) {
+  await processMessage(phone, "login");
+  await processMessage(phone, user.username);
+  expect(await processMessage(phone, TEST_PASSWORD)).toContain(`Olá, ${user.name}`);
+}
+
+const isChatAuthenticated = async (phone: string) =>
+  !(await processMessage(phone, "ajuda")).includes("faça login");
+
+beforeAll(async () => {
+  server = await startTestServer();
+  organization = await createTestOrganization("Sessões");
+});
+
+afterAll(async () => {
+  await server.close();
+});
+
+describe("encerramento de sessões", () => {
+  it("encerra as conversas do chatbot na redefinição de senha", async () => {
+    const user = await addTestMember(organization, "member");
+    const phone = "5511900000101";
+    await chatLogin(phone, user);
+    expect(await isChatAuthenticated(phone)).toBe(true);
+
+    const token = generateSignedToken();
+    await storage.createPasswordResetToken({
+      userId: user.id,
+      tokenHash: hashToken(token),
+      expiresAt: new Date(Date.now() + 60000),
+      requestedIp: null,
+    });
+    expect(await resetPassword(token, "nova-senha-segura-123")).toBeDefined();
+
+    expect(await isChatAuthenticated(phone)).toBe(false);
+  });
+
+  it("encerra as conversas do chatbot ao encerrar as outras sessões", async () => {
+    const user = await addTestMember(organization, "member");
+    const other = await addTestMember(organization, "member");
+    const phone = "5511900000102";
+    const otherPhone = "5511900000103";
+    await chatLogin(phone, user);
+    await chatLogin(otherPhone, other);
+
+    const client = new TestClient(server);
+    expect((await client.login(user.username)).status).toBe(200);
+    const response = await client.delete("/api/auth/sessions");
+    expect(response.status).toBe(200);
+    expect(response.body.revoked).toBe(1);
+
+    expect(await isChatAuthenticated(phone)).toBe(false);
+    expect(await isChatAuthenticated(otherPhone)).toBe(true);
+    expect((await client.get("/api/auth/me")).status).toBe(200);
+  });
+});
@@ -0,0 +1,32 @@
+import fs from "fs";
+import os from "os";
+import path from "path";
+import { afterAll, describe, expect, it } from "vitest";
+import { MemStorage } from "../storage";
+import { enableSnapshotPersistence } from "../snapshot";
+
+const directory = fs.mkdtempSync(path.join(os.tmpdir(), "snapshot-"));
+const file = path.join(directory, "storage.json");
+
+// Espera passar o intervalo de gravação do snapshot
+const waitForSave = () => new Promise(resolve => setTimeout(resolve, 1300));
+
+afterAll(() => {
+  fs.rmSync(directory, { recursive: true, force: true });
+});
+
+describe("gravação do snapshot", () => {
+  it("grava após alterações, mas não a cada acesso registrado", async () => {
+    const storage = new MemStorage();
+    await enableSnapshotPersistence(storage, file);
+
+    await storage.touchUserSession("sessao", new Date(Date.now() + 60000));
+    await storage.getAllUsers();
+    await waitForSave();
+    expect(fs.existsSync(file)).toBe(false);
+
+    const organization = await storage.createOrganization({ name: "Snapshot", slug: `snapshot-${Date.now()}` });
+    await waitForSave();
+    expect(fs.readFileSync(file, "utf-8")).toContain(organization.slug);
+  });
+});
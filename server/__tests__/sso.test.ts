@@ -0,0 +1,262 @@
+import crypto from "crypto";
+import dns from "dns";
+import express from "express";
+import type { Server } from "http";
+import type { AddressInfo } from "net";
+import { afterAll, afterEach, beforeAll, describe, expect, it, vi } from "vitest";
+import { storage } from "../storage";
+import { encryptSecret } from "../auth-utils";
+import {
+  TestClient,
+  addTestMember,
+  createTestOrganization,
+  createTestUser,
+  startTestServer,
+  type TestServer,
+} from "./harness";
+import type { Organization, User } from "@shared/schema";
+
+const CLIENT_ID = "launchrocket-test";
+const DOMAIN = "empresa-sso.example";
+
+/**
+ * Provedor OpenID Connect falso: discovery, chaves públicas e token endpoint.
+ * O id_token emitido usa as claims definidas pelo teste e o nonce do login em andamento.
+ */
+class MockOidcProvider {
+  issuer = "";
+  claims: Record<string, unknown> = {};
+  nonce = "";
+  private server?: Server;
+  private readonly keys = crypto.generateKeyPairSync("rsa", { modulusLength: 2048 });
+
+  async start() {
+    const app = express();
+    app.use(express.urlencoded({ extended: false }));
+    app.get("/.well-known/openid-configuration", (_req, res) => {
+      res.json({
+        issuer: this.issuer,
+        authorization_endpoint: `${this.issuer}/authorize`,
+        token_endpoint: `${this.issuer}/token`,
+        jwks_uri: `${this.issuer}/jwks`,
+      });
+    });
+    app.get("/jwks", (_req, res) => {
+      res.json({ keys: [{ ...this.keys.publicKey.export({ format: "jwk" }), kid: "test", use: "sig", alg: "RS256" }] });
+    });
+    app.post("/token", (req, res) => {
+      if (req.body.code !== "codigo-valido" || !req.body.code_verifier) {
+        return res.status(400).json({ error: "invalid_grant" });
+      }
+      res.json({ id_token: this.signIdToken(), token_type: "Bearer" });
+    });
+
+    this.server = await new Promise<Server>(resolve => {
+      const server = app.listen(0, "127.0.0.1", () => resolve(server));
+    });
+    this.issuer = `http://127.0.0.1:${(this.server.address() as AddressInfo).port}`;
+  }
+
+  stop() {
+    return new Promise<void>(resolve => this.server ? this.server.close(() => resolve()) : resolve());
+  }
+
+  private signIdToken(): string {
+    const encode = (value: unknown) => Buffer.from(JSON.stringify(value)).toString("base64url");
+    const header = encode({ alg: "RS256", kid: "test", typ: "JWT" });
+    const payload = encode({
+      iss: this.issuer,
+      aud: CLIENT_ID,
+      exp: Math.floor(Date.now() / 1000) + 300,
+      nonce: this.nonce,
+      email_verified: true,
+      ...this.claims,
+    });
+    const signature = crypto.sign("sha256", Buffer.from(`${header}.${payload}`), this.keys.privateKey).toString("base64url");
+    return `${header}.${payload}.${signature}`;
+  }
+}
+
+let server: TestServer;
+let provider: MockOidcProvider;
+let organization: Organization;
+let owner: User;
+let ownerClient: TestClient;
+
+async function verifyDomain(organizationId: number, domain: string) {
+  const record = await storage.createOrganizationDomain({ organizationId, domain, verificationToken: "token" });
+  await storage.markOrganizationDomainVerified(organizationId, record.id);
+}
+
+// Percorre o login único como o navegador: início, provedor (simulado) e retorno
+async function ssoLogin(claims: Record<string, unknown>): Promise<{ location: string; client: TestClient }> {
+  const client = new TestClient(server);
+  const start = await client.get(`/api/auth/sso/start?organization=${organization.slug}`);
+  expect(start.status).toBe(302);
+  const authorizationUrl = new URL(start.headers.get("location")!);
+  expect(authorizationUrl.origin).toBe(provider.issuer);
+
+  provider.nonce = authorizationUrl.searchParams.get("nonce")!;
+  provider.claims = claims;
+  const state = authorizationUrl.searchParams.get("state")!;
+  const callback = await client.get(`/api/auth/sso/callback?code=codigo-valido&state=${encodeURIComponent(state)}`);
+  expect(callback.status).toBe(302);
+  return { location: callback.headers.get("location")!, client };
+}
+
+beforeAll(async () => {
+  provider = new MockOidcProvider();
+  await provider.start();
+  // O provedor falso roda na própria máquina
+  process.env.SSO_ALLOWED_PRIVATE_HOSTS = "127.0.0.1";
+
+  server = await startTestServer();
+  organization = await createTestOrganization("Empresa SSO");
+  owner = await addTestMember(organization, "owner");
+  ownerClient = new TestClient(server);
+  expect((await ownerClient.login(owner.username)).status).toBe(200);
+
+  await verifyDomain(organization.id, DOMAIN);
+  await storage.saveOrganizationSso({
+    organizationId: organization.id,
+    enabled: true,
+    issuer: provider.issuer,
+    clientId: CLIENT_ID,
+    clientSecret: encryptSecret("segredo"),
+    allowedDomains: [DOMAIN],
+    defaultRole: "member",
+  });
+});
+
+afterAll(async () => {
+  delete process.env.SSO_ALLOWED_PRIVATE_HOSTS;
+  await server.close();
+  await provider.stop();
+});
+
+afterEach(() => {
+  vi.restoreAllMocks();
+});
+
+describe("login único com provedor OpenID Connect", () => {
+  it("cria o usuário no primeiro acesso e o adiciona à organização", async () => {
+    const { location, client } = await ssoLogin({ sub: "novo-1", email: `novo@${DOMAIN}`, name: "Novo Usuário" });
+    expect(location).toBe("/dashboard");
+
+    const me = await client.get("/api/auth/me");
+    expect(me.status).toBe(200);
+    expect(me.body.email).toBe(`novo@${DOMAIN}`);
+    expect(me.body.organization.id).toBe(organization.id);
+
+    const user = await storage.getUserByEmail(`novo@${DOMAIN}`);
+    expect(user?.role).toBe("member");
+    expect(await storage.getSsoIdentity(provider.issuer, "novo-1")).toBeDefined();
+  });
+
+  it("entra na mesma conta pela identidade já vinculada", async () => {
+    const { location } = await ssoLogin({ sub: "novo-1", email: `novo@${DOMAIN}` });
+    expect(location).toBe("/dashboard");
+  });
+
+  it("vincula pelo email a conta que já é membro da organização", async () => {
+    const member = await createTestUser("membro-sso");
+    await storage.updateUser(member.id, { email: `membro@${DOMAIN}` });
+    await storage.addOrganizationMember({ organizationId: organization.id, userId: member.id, role: "member" });
+
+    const { location, client } = await ssoLogin({ sub: "membro-1", email: `membro@${DOMAIN}` });
+    expect(location).toBe("/dashboard");
+    expect((await client.get("/api/auth/me")).body.id).toBe(member.id);
+    expect((await storage.getSsoIdentity(provider.issuer, "membro-1"))?.userId).toBe(member.id);
+  });
+
+  it("não vincula a conta de quem não é membro da organização", async () => {
+    const outsider = await createTestUser("externo-sso");
+    await storage.updateUser(outsider.id, { email: `externo@${DOMAIN}` });
+
+    const { location, client } = await ssoLogin({ sub: "externo-1", email: `externo@${DOMAIN}` });
+    expect(location).toBe("/login?sso_error=account_exists");
+    expect((await client.get("/api/auth/me")).status).toBe(401);
+    expect(await storage.getSsoIdentity(provider.issuer, "externo-1")).toBeUndefined();
+    expect((await storage.getOrganizationsByUser(outsider.id)).some(m => m.organizationId === organization.id)).toBe(false);
+  });
+
+  it("não vincula a conta de um Super Admin, mesmo membro da organização", async () => {
+    const superAdmin = await createTestUser("super-sso");
+    await storage.updateUser(superAdmin.id, { email: `super@${DOMAIN}` });
+    await storage.setUserSuperAdmin(superAdmin.id, true);
+    await storage.addOrganizationMember({ organizationId: organization.id, userId: superAdmin.id, role: "member" });
+
+    const { location } = await ssoLogin({ sub: "super-1", email: `super@${DOMAIN}` });
+    expect(location).toBe("/login?sso_error=account_exists");
+  });
+
+  it("recusa emails de domínios não liberados", async () => {
+    const { location } = await ssoLogin({ sub: "outro-1", email: "alguem@outro-dominio.example" });
+    expect(location).toBe("/login?sso_error=domain_not_allowed");
+  });
+
+  it("recusa id_token com nonce diferente", async () => {
+    const client = new TestClient(server);
+    const start = await client.get(`/api/auth/sso/start?organization=${organization.slug}`);
+    const authorizationUrl = new URL(start.headers.get("location")!);
+    provider.nonce = "nonce-de-outro-login";
+    provider.claims = { sub: "nonce-1", email: `nonce@${DOMAIN}` };
+    const callback = await client.get(`/api/auth/sso/callback?code=codigo-valido&state=${authorizationUrl.searchParams.get("state")}`);
+    expect(callback.headers.get("location")).toBe("/login?sso_error=sso_failed");
+  });
+});
+
+describe("configuração do login único", () => {
+  const ssoRoute = () => `/api/organizations/${organization.id}/sso`;
+  const settings = (overrides: Record<string, unknown>) => ({
+    enabled: true,
+    issuer: provider.issuer,
+    clientId: CLIENT_ID,
+    allowedDomains: [DOMAIN],
+    defaultRole: "member",
+    ...overrides,
+  });
+
+  it("só permite domínios verificados", async () => {
+    const response = await ownerClient.put(ssoRoute(), settings({ allowedDomains: [DOMAIN, "nao-verificado.example"] }));
+    expect(response.status).toBe(400);
+    expect(response.body.message).toContain("nao-verificado.example");
+
+    expect((await ownerClient.put(ssoRoute(), settings({}))).status).toBe(200);
+  });
+
+  it("recusa emissores em endereços internos", async () => {
+    for (const issuer of ["http://localhost:8080", "https://127.0.0.2", "https://169.254.169.254", "https://10.0.0.5", "https://[::1]"]) {
+      const response = await ownerClient.put(ssoRoute(), settings({ issuer }));
+      expect(response.status, issuer).toBe(400);
+    }
+  });
+
+  it("verifica o domínio pelo registro TXT", async () => {
+    const created = await ownerClient.post(`/api/organizations/${organization.id}/domains`, { domain: "Verificar.Example" });
+    expect(created.status).toBe(201);
+    expect(created.body.domain).toBe("verificar.example");
+    expect(created.body.verified).toBe(false);
+
+    const resolveTxt = vi.spyOn(dns.promises, "resolveTxt").mockResolvedValue([["outro-valor"]]);
+    const failed = await ownerClient.post(`/api/organizations/${organization.id}/domains/${created.body.id}/verify`);
+    expect(failed.status).toBe(400);
+
+    resolveTxt.mockResolvedValue([["v=spf1 -all"], [created.body.record.value.slice(0, 20), created.body.record.value.slice(20)]]);
+    const verified = await ownerClient.post(`/api/organizations/${organization.id}/domains/${created.body.id}/verify`);
+    expect(verified.status).toBe(200);
+    expect(verified.body.verified).toBe(true);
+    expect(resolveTxt).toHaveBeenLastCalledWith("_launchrocket-verification.verificar.example");
+
+    expect((await ownerClient.put(ssoRoute(), settings({ allowedDomains: [DOMAIN, "verificar.example"] }))).status).toBe(200);
+  });
+
+  it("deixa de aceitar o domínio removido", async () => {
+    const domains = await ownerClient.get(`/api/organizations/${organization.id}/domains`);
+    const domain = domains.body.find((record: { domain: string }) => record.domain === "verificar.example");
+    expect((await ownerClient.delete(`/api/organizations/${organization.id}/domains/${domain.id}`)).status).toBe(204);
+
+    const config = await ownerClient.get(ssoRoute());
+    expect(config.body.allowedDomains).toEqual([DOMAIN]);
+  });
+});
@@ -0,0 +1,213 @@
+/**
+ * Contrato do IStorage: o mesmo comportamento na memória e no PostgreSQL.
+ * O DatabaseStorage só é testado com um banco de teste em DATABASE_URL
+ * (as migrações são aplicadas antes; use um banco descartável).
+ */
+import { beforeAll, describe, expect, it } from "vitest";
+import { DatabaseStorage, MemStorage, type IStorage } from "../storage";
+import { runMigrations } from "../db";
+import { taskListQuerySchema } from "../pagination";
+import type { Task, User } from "@shared/schema";
+
+function describeStorageContract(name: string, createStorage: () => Promise<IStorage>) {
+  describe(`contrato do IStorage: ${name}`, () => {
+    let storage: IStorage;
+    let user: User;
+    let sequence = 0;
+
+    const unique = (prefix: string) => `${prefix}-${Date.now().toString(36)}-${++sequence}`;
+
+    async function createOrganization() {
+      return storage.createOrganization({ name: "Contrato", slug: unique("contrato") });
+    }
+
+    async function createProject(organizationId: number) {
+      return storage.createProject(organizationId, { name: unique("Projeto"), createdBy: user.id });
+    }
+
+    // Percorre todas as páginas de tarefas do projeto, ordenadas pelo nome
+    async function listAllTaskNames(organizationId: number, projectId: number): Promise<string[]> {
+      const names: string[] = [];
+      let cursor: string | undefined;
+      do {
+        const query = taskListQuerySchema.parse({ limit: "2", sort: "name", ...(cursor ? { cursor } : {}) });
+        const page = await storage.listTasks(organizationId, { ...query, filter: { projectId } });
+        names.push(...page.items.map(task => task.name));
+        cursor = page.nextCursor ?? undefined;
+      } while (cursor);
+      return names;
+    }
+
+    beforeAll(async () => {
+      storage = await createStorage();
+      const username = unique("contrato");
+      user = await storage.createUser({
+        username,
+        password: "hash",
+        name: "Usuário do contrato",
+        email: `${username}@teste.example`,
+      });
+    });
+
+    it("aplica os valores padrão das colunas", async () => {
+      const organization = await createOrganization();
+      expect(organization.active).toBe(true);
+      expect(organization.primaryColor).toBe("#0EA5E9");
+      expect(user.role).toBe("member");
+
+      const project = await createProject(organization.id);
+      expect(project).toMatchObject({ organizationId: organization.id, status: "planning", progress: 0, version: 1, deletedAt: null });
+
+      const task = await storage.createTask(organization.id, { projectId: project.id, name: "Tarefa" });
+      expect(task).toMatchObject({ organizationId: organization.id, priority: "medium", status: "todo", parentTaskId: null, version: 1 });
+    });
+
+    it("trata registros de outra organização como inexistentes", async () => {
+      const organization = await createOrganization();
+      const other = await createOrganization();
+      const project = await createProject(organization.id);
+      const task = await storage.createTask(organization.id, { projectId: project.id, name: "Tarefa" });
+
+      expect(await storage.getProject(other.id, project.id)).toBeUndefined();
+      expect(await storage.getTask(other.id, task.id)).toBeUndefined();
+      expect(await storage.getAllProjects(other.id)).toEqual([]);
+      expect(await storage.getTasksByProject(other.id, project.id)).toEqual([]);
+      expect(await storage.updateProject(other.id, project.id, { name: "Outro" })).toBeUndefined();
+      expect(await storage.updateTask(other.id, task.id, { name: "Outra" })).toBeUndefined();
+      expect(await storage.deleteTask(other.id, task.id)).toBe(false);
+      expect(await storage.deleteProject(other.id, project.id)).toBe(false);
+      expect((await storage.getProject(organization.id, project.id))?.name).toBe(project.name);
+    });
+
+    it("incrementa a versão e recusa a atualização de uma versão antiga", async () => {
+      const organization = await createOrganization();
+      const project = await createProject(organization.id);
+
+      const updated = await storage.updateProject(organization.id, project.id, { name: "Versão 2" }, 1);
+      expect(updated?.version).toBe(2);
+      expect(updated!.updatedAt!.getTime()).toBeGreaterThanOrEqual(project.updatedAt!.getTime());
+
+      expect(await storage.updateProject(organization.id, project.id, { name: "Conflito" }, 1)).toBeUndefined();
+      expect((await storage.getProject(organization.id, project.id))?.name).toBe("Versão 2");
+    });
+
+    it("ignora a troca de organização, autoria e projeto nas atualizações", async () => {
+      const organization = await createOrganization();
+      const other = await createOrganization();
+      const project = await createProject(organization.id);
+      const otherProject = await createProject(other.id);
+      const task = await storage.createTask(organization.id, { projectId: project.id, name: "Tarefa" });
+
+      const updatedProject = await storage.updateProject(organization.id, project.id, {
+        organizationId: other.id,
+        version: 10,
+        name: "Renomeado",
+      } as Parameters<IStorage["updateProject"]>[2]);
+      expect(updatedProject).toMatchObject({ organizationId: organization.id, version: 2, name: "Renomeado" });
+
+      const updatedTask = await storage.updateTask(organization.id, task.id, {
+        projectId: otherProject.id,
+        organizationId: other.id,
+      } as Partial<Task>);
+      expect(updatedTask).toMatchObject({ organizationId: organization.id, projectId: project.id });
+    });
+
+    it("pagina as tarefas sem repetir nem pular registros", async () => {
+      const organization = await createOrganization();
+      const project = await createProject(organization.id);
+      for (const name of ["E", "B", "D", "A", "C"]) {
+        await storage.createTask(organization.id, { projectId: project.id, name });
+      }
+
+      expect(await listAllTaskNames(organization.id, project.id)).toEqual(["A", "B", "C", "D", "E"]);
+
+      const query = taskListQuerySchema.parse({ sort: "name" });
+      const completed = await storage.createTask(organization.id, { projectId: project.id, name: "F", status: "completed" });
+      const page = await storage.listTasks(organization.id, { ...query, filter: { projectId: project.id, status: ["completed"] } });
+      expect(page.items.map(task => task.id)).toEqual([completed.id]);
+    });
+
+    it("move para a lixeira e restaura o projeto com suas tarefas", async () => {
+      const organization = await createOrganization();
+      const project = await createProject(organization.id);
+      const task = await storage.createTask(organization.id, { projectId: project.id, name: "Tarefa" });
+
+      expect(await storage.moveToTrash(organization.id, "project", project.id, user.id)).toBe(true);
+      expect(await storage.getProject(organization.id, project.id)).toBeUndefined();
+      expect(await storage.getTask(organization.id, task.id)).toBeUndefined();
+
+      const trash = await storage.getTrash(organization.id);
+      expect(trash.map(item => [item.type, item.id])).toEqual([["project", project.id]]);
+      expect(trash[0].deletedBy).toBe(user.id);
+
+      expect(await storage.restoreFromTrash(organization.id, "project", project.id)).toBe(true);
+      expect((await storage.getProject(organization.id, project.id))?.deletedAt).toBeNull();
+      expect(await storage.getTask(organization.id, task.id)).toBeDefined();
+      expect(await storage.getTrash(organization.id)).toEqual([]);
+    });
+
+    it("lista as tags pelo nome com a contagem de tarefas", async () => {
+      const organization = await createOrganization();
+      const project = await createProject(organization.id);
+      const task = await storage.createTask(organization.id, { projectId: project.id, name: "Tarefa" });
+      const beta = await storage.createTag(organization.id, { name: "beta" });
+      const alpha = await storage.createTag(organization.id, { name: "alfa" });
+
+      await storage.setTaskTags(organization.id, task.id, [alpha.id, beta.id]);
+      await storage.setTaskTags(organization.id, task.id, [alpha.id]);
+
+      const tags = await storage.getTags(organization.id);
+      expect(tags.map(tag => [tag.name, tag.taskCount])).toEqual([["alfa", 1], ["beta", 0]]);
+      expect((await storage.getTaskTagIds(organization.id, [task.id])).get(task.id)).toEqual([alpha.id]);
+    });
+
+    it("substitui a sessão preservando a data de criação e remove as expiradas", async () => {
+      const sid = unique("sessao");
+      const first = await storage.saveUserSession({ sid, userId: user.id, data: {}, expiresAt: new Date(Date.now() + 60000) });
+      const second = await storage.saveUserSession({ sid, userId: user.id, data: { atualizada: true }, expiresAt: new Date(Date.now() + 120000) });
+      expect(second.createdAt?.getTime()).toBe(first.createdAt?.getTime());
+      expect(second.data).toEqual({ atualizada: true });
+
+      const expired = unique("expirada");
+      await storage.saveUserSession({ sid: expired, userId: user.id, data: {}, expiresAt: new Date(Date.now() - 1000) });
+      expect(await storage.deleteExpiredUserSessions()).toBeGreaterThanOrEqual(1);
+      expect((await storage.getUserSessionsByUser(user.id)).map(session => session.sid)).toEqual([sid]);
+    });
+
+    it("guarda um único registro de bloqueio de login por chave", async () => {
+      const key = `account:${unique("conta")}`;
+      const first = await storage.saveLoginThrottle({ key, scope: "account", identifier: key, failures: 1 });
+      const second = await storage.saveLoginThrottle({ key, scope: "account", identifier: key, failures: 2 });
+      expect(second.id).toBe(first.id);
+      expect((await storage.getLoginThrottle(key))?.failures).toBe(2);
+
+      expect(await storage.deleteLoginThrottle(first.id)).toBe(true);
+      expect(await storage.getLoginThrottle(key)).toBeUndefined();
+    });
+
+    it("mantém a data da primeira verificação de um domínio", async () => {
+      const organization = await createOrganization();
+      const other = await createOrganization();
+      await storage.createOrganizationDomain({ organizationId: organization.id, domain: "zeta.example", verificationToken: "a" });
+      const domain = await storage.createOrganizationDomain({ organizationId: organization.id, domain: "alfa.example", verificationToken: "b" });
+
+      expect(await storage.markOrganizationDomainVerified(other.id, domain.id)).toBeUndefined();
+      const verified = await storage.markOrganizationDomainVerified(organization.id, domain.id);
+      const again = await storage.markOrganizationDomainVerified(organization.id, domain.id);
+      expect(verified?.verifiedAt).toBeInstanceOf(Date);
+      expect(again?.verifiedAt?.getTime()).toBe(verified?.verifiedAt?.getTime());
+
+      const domains = await storage.getOrganizationDomains(organization.id);
+      expect(domains.map(record => record.domain)).toEqual(["alfa.example", "zeta.example"]);
+    });
+  });
+}
+
+describeStorageContract("MemStorage", async () => new MemStorage());
+
+describe.skipIf(!process.env.DATABASE_URL)("PostgreSQL", () => {
+  describeStorageContract("DatabaseStorage", async () => {
+    await runMigrations();
+    return new DatabaseStorage();
+  });
+});
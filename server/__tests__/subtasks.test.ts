@@ -0,0 +1,92 @@
+import { afterAll, afterEach, beforeAll, describe, expect, it, vi } from "vitest";
+import { storage } from "../storage";
+import { withRollups } from "../subtasks";
+import { SNAPSHOT_FORMAT, parseSnapshot } from "../snapshot";
+import { buildRollups } from "@shared/subtasks";
+import {
+  TestClient,
+  addTestMember,
+  createTestOrganization,
+  createTestProject,
+  startTestServer,
+  type TestServer,
+} from "./harness";
+import type { Organization, Project, User } from "@shared/schema";
+
+let server: TestServer;
+let organization: Organization;
+let owner: User;
+let project: Project;
+let client: TestClient;
+
+beforeAll(async () => {
+  server = await startTestServer();
+  organization = await createTestOrganization("Subtarefas");
+  owner = await addTestMember(organization, "owner");
+  project = await createTestProject(organization, owner);
+  client = new TestClient(server);
+  expect((await client.login(owner.username)).status).toBe(200);
+});
+
+afterAll(async () => {
+  await server.close();
+});
+
+afterEach(() => {
+  vi.restoreAllMocks();
+});
+
+describe("consolidado das subtarefas", () => {
+  const task = (id: number, parentTaskId: number | null, estimatedHours: number | null) =>
+    ({ id, parentTaskId, estimatedHours, status: "todo" as const });
+
+  it("soma apenas as horas das subtarefas finais", () => {
+    const rollups = buildRollups([
+      task(1, null, 40),
+      task(2, 1, 10),
+      task(3, 2, 4),
+      task(4, 2, 3),
+      task(5, 1, null),
+    ]);
+    expect(rollups.get(1)?.estimatedHours).toBe(7);
+    expect(rollups.get(2)?.estimatedHours).toBe(7);
+    expect(rollups.get(3)?.estimatedHours).toBe(4);
+    expect(rollups.get(5)?.estimatedHours).toBeNull();
+  });
+
+  it("carrega apenas as subtarefas das tarefas devolvidas", async () => {
+    const parent = await storage.createTask(organization.id, { projectId: project.id, name: "Pai" });
+    const child = await storage.createTask(organization.id, { projectId: project.id, name: "Filha", parentTaskId: parent.id, estimatedHours: 5 });
+    await storage.createTask(organization.id, { projectId: project.id, name: "Neta", parentTaskId: child.id, estimatedHours: 2, status: "completed" });
+    await storage.createTask(organization.id, { projectId: project.id, name: "Outra", estimatedHours: 8 });
+
+    const getTasksByProject = vi.spyOn(storage, "getTasksByProject");
+    const [result] = await withRollups(organization.id, [parent]);
+    expect(getTasksByProject).not.toHaveBeenCalled();
+    expect(result.rollup).toMatchObject({ subtaskCount: 2, completedSubtasks: 1, estimatedHours: 2, status: "in_progress" });
+  });
+});
+
+describe("horas estimadas da tarefa", () => {
+  it("guarda as horas informadas ao criar e ao editar", async () => {
+    const created = await client.post(`/api/projects/${project.id}/tasks`, { name: "Com estimativa", estimatedHours: 6 });
+    expect(created.status).toBe(201);
+    expect(created.body.estimatedHours).toBe(6);
+
+    const updated = await client.put(`/api/tasks/${created.body.id}`, { estimatedHours: 9 });
+    expect(updated.status).toBe(200);
+    expect(updated.body.estimatedHours).toBe(9);
+  });
+});
+
+describe("snapshot", () => {
+  it("converte tarefas de snapshots anteriores às subtarefas", () => {
+    const snapshot = parseSnapshot({
+      format: SNAPSHOT_FORMAT,
+      version: 3,
+      savedAt: new Date().toISOString(),
+      data: { tasks: [[1, { id: 1, name: "Antiga", version: 1, deletedAt: null }]] },
+    });
+    expect(snapshot.data.tasks).toEqual([[1, { id: 1, name: "Antiga", version: 1, deletedAt: null, parentTaskId: null }]]);
+  });
+});
@@ -0,0 +1,208 @@
+import { afterAll, beforeAll, describe, expect, it } from "vitest";
+import { storage } from "../storage";
+import {
+  TEST_PASSWORD,
+  TestClient,
+  addTestMember,
+  createTestOrganization,
+  createTestProject,
+  startTestServer,
+  type TestServer,
+} from "./harness";
+import type { Organization, Project, Task, User } from "@shared/schema";
+
+// Duas organizações com um projeto e uma tarefa cada; o owner de A tenta alcançar os dados de B
+describe("isolamento entre organizações", () => {
+  let server: TestServer;
+  let orgA: Organization;
+  let orgB: Organization;
+  let ownerA: User;
+  let ownerB: User;
+  let projectA: Project;
+  let projectB: Project;
+  let taskA: Task;
+  let taskB: Task;
+  let client: TestClient;
+
+  beforeAll(async () => {
+    server = await startTestServer();
+    orgA = await createTestOrganization("Org A");
+    orgB = await createTestOrganization("Org B");
+    ownerA = await addTestMember(orgA, "owner");
+    ownerB = await addTestMember(orgB, "owner");
+    projectA = await createTestProject(orgA, ownerA);
+    projectB = await createTestProject(orgB, ownerB);
+    taskA = await storage.createTask(orgA.id, { projectId: projectA.id, name: "Tarefa de A" });
+    taskB = await storage.createTask(orgB.id, { projectId: projectB.id, name: "Tarefa confidencial de B" });
+
+    client = new TestClient(server);
+    expect((await client.login(ownerA.username)).status).toBe(200);
+  });
+
+  afterAll(async () => {
+    await server.close();
+  });
+
+  describe("storage", () => {
+    it("não encontra registros de outra organização", async () => {
+      expect(await storage.getProject(orgA.id, projectB.id)).toBeUndefined();
+      expect(await storage.getTask(orgA.id, taskB.id)).toBeUndefined();
+      expect((await storage.getAllProjects(orgA.id)).map(project => project.id)).not.toContain(projectB.id);
+      expect((await storage.getTasksByProject(orgA.id, projectB.id))).toEqual([]);
+    });
+
+    it("não atualiza registros de outra organização", async () => {
+      expect(await storage.updateProject(orgA.id, projectB.id, { name: "Invadido" })).toBeUndefined();
+      expect(await storage.updateTask(orgA.id, taskB.id, { name: "Invadida" })).toBeUndefined();
+      expect((await storage.getProject(orgB.id, projectB.id))?.name).toBe(projectB.name);
+    });
+
+    it("ignora a troca de organização, autoria e projeto em atualizações", async () => {
+      const project = await storage.updateProject(orgA.id, projectA.id, {
+        organizationId: orgB.id,
+        createdBy: ownerB.id,
+      } as Partial<Project>);
+      expect(project?.organizationId).toBe(orgA.id);
+      expect(project?.createdBy).toBe(ownerA.id);
+
+      const task = await storage.updateTask(orgA.id, taskA.id, {
+        organizationId: orgB.id,
+        projectId: projectB.id,
+      } as Partial<Task>);
+      expect(task?.organizationId).toBe(orgA.id);
+      expect(task?.projectId).toBe(projectA.id);
+    });
+  });
+
+  describe("rotas", () => {
+    it("lista apenas os projetos da organização ativa", async () => {
+      const response = await client.get("/api/projects");
+      expect(response.status).toBe(200);
+      const ids = response.body.map((project: Project) => project.id);
+      expect(ids).toContain(projectA.id);
+      expect(ids).not.toContain(projectB.id);
+    });
+
+    it("trata projetos e tarefas de outra organização como inexistentes", async () => {
+      expect((await client.get(`/api/projects/${projectB.id}`)).status).toBe(404);
+      expect((await client.put(`/api/projects/${projectB.id}`, { name: "Invadido" })).status).toBe(404);
+      expect((await client.delete(`/api/projects/${projectB.id}`)).status).toBe(404);
+      expect((await client.get(`/api/tasks/${taskB.id}`)).status).toBe(404);
+      expect((await client.put(`/api/tasks/${taskB.id}`, { name: "Invadida" })).status).toBe(404);
+      expect((await client.delete(`/api/tasks/${taskB.id}`)).status).toBe(404);
+      expect((await client.post(`/api/projects/${projectB.id}/tasks`, { name: "Intrusa" })).status).toBe(404);
+
+      expect((await storage.getTask(orgB.id, taskB.id))?.name).toBe(taskB.name);
+    });
+
+    it("não move projetos para outra organização pelo corpo do PUT", async () => {
+      const response = await client.put(`/api/projects/${projectA.id}`, {
+        name: "Projeto renomeado",
+        organizationId: orgB.id,
+        createdBy: ownerB.id,
+      });
+      expect(response.status).toBe(200);
+      expect(response.body.organizationId).toBe(orgA.id);
+      expect(response.body.createdBy).toBe(ownerA.id);
+      expect(await storage.getProject(orgB.id, projectA.id)).toBeUndefined();
+    });
+
+    it("não move tarefas para outro projeto ou organização pelo corpo do PUT", async () => {
+      const response = await client.put(`/api/tasks/${taskA.id}`, {
+        name: "Tarefa renomeada",
+        organizationId: orgB.id,
+        projectId: projectB.id,
+      });
+      expect(response.status).toBe(200);
+      expect(response.body.organizationId).toBe(orgA.id);
+      expect(response.body.projectId).toBe(projectA.id);
+      expect(await storage.getTask(orgB.id, taskA.id)).toBeUndefined();
+    });
+
+    it("não move fases nem itens de checklist pelo corpo do PUT", async () => {
+      const phase = await storage.createPhase(orgA.id, { projectId: projectA.id, name: "Fase de A" });
+      const phaseResponse = await client.put(`/api/phases/${phase.id}`, {
+        name: "Fase renomeada",
+        id: phase.id + 1000,
+        organizationId: orgB.id,
+        projectId: projectB.id,
+      });
+      expect(phaseResponse.status).toBe(200);
+      expect(phaseResponse.body).toMatchObject({ id: phase.id, projectId: projectA.id, name: "Fase renomeada" });
+      expect(await storage.getPhase(orgA.id, phase.id)).toBeDefined();
+
+      const item = await storage.createChecklistItem(orgA.id, { taskId: taskA.id, text: "Item de A" });
+      const itemResponse = await client.put(`/api/checklist/${item.id}`, {
+        isCompleted: true,
+        id: item.id + 1000,
+        organizationId: orgB.id,
+        taskId: taskB.id,
+      });
+      expect(itemResponse.status).toBe(200);
+      expect(itemResponse.body).toMatchObject({ id: item.id, taskId: taskA.id, isCompleted: true });
+      expect(await storage.getChecklistItem(orgA.id, item.id)).toBeDefined();
+
+      expect((await client.put(`/api/phases/${phase.id}`, { order: "primeira" })).status).toBe(400);
+    });
+
+    it("não aceita tarefa pai de outra organização", async () => {
+      const response = await client.put(`/api/tasks/${taskA.id}`, { parentTaskId: taskB.id });
+      expect(response.status).toBe(400);
+    });
+
+    it("não troca para uma organização da qual o usuário não é membro", async () => {
+      const response = await client.post("/api/auth/organizations/switch", { organizationId: orgB.id });
+      expect(response.status).toBe(403);
+    });
+
+    it("não devolve registros de outra organização na busca", async () => {
+      const response = await client.get("/api/search?q=confidencial");
+      expect(response.status).toBe(200);
+      expect(JSON.stringify(response.body)).not.toContain("confidencial");
+    });
+
+  });
+
+  describe("cadastro de usuários", () => {
+    const newUser = (prefix: string) => {
+      const username = `${prefix}-${Date.now().toString(36)}`;
+      return { username, password: TEST_PASSWORD, name: "Novo usuário", email: `${username}@teste.example` };
+    };
+
+    it("não concede owner de uma organização informada no corpo", async () => {
+      const empty = await createTestOrganization("Sem membros");
+      const response = await new TestClient(server).post("/api/users", {
+        ...newUser("intruso"),
+        orgRole: "owner",
+        organizationId: empty.id,
+      });
+      expect(response.status).toBe(201);
+      expect(await storage.getOrganizationMembers(empty.id)).toEqual([]);
+    });
+
+    it("concede owner apenas com o token devolvido na criação da organização, uma vez", async () => {
+      const anonymous = new TestClient(server);
+      const organization = await anonymous.post("/api/organizations", { name: "Nova organização" });
+      expect(organization.status).toBe(201);
+      const { ownerToken } = organization.body;
+
+      const owner = await anonymous.post("/api/users", { ...newUser("owner"), ownerToken });
+      expect(owner.status).toBe(201);
+      const members = await storage.getOrganizationMembers(organization.body.id);
+      expect(members.map(member => [member.userId, member.role])).toEqual([[owner.body.id, "owner"]]);
+
+      const reused = await anonymous.post("/api/users", { ...newUser("outro"), ownerToken });
+      expect(reused.status).toBe(400);
+    });
+
+    it("exige a permissão de convidar membros para criar contas na organização", async () => {
+      const member = await addTestMember(orgA, "member");
+      const memberClient = new TestClient(server);
+      expect((await memberClient.login(member.username)).status).toBe(200);
+
+      const response = await memberClient.post("/api/users", newUser("criado"));
+      expect(response.status).toBe(403);
+      expect((await client.post("/api/users", newUser("convidado"))).status).toBe(201);
+    });
+  });
+});
@@ -0,0 +1,119 @@
+import { afterAll, beforeAll, describe, expect, it } from "vitest";
+import { storage } from "../storage";
+import { beginTwoFactorEnrollment, regenerateRecoveryCodes } from "../two-factor";
+import { registerLoginFailure } from "../login-throttle";
+import { processMessage } from "../chatbot/whatsapp";
+import {
+  TEST_PASSWORD,
+  TestClient,
+  addTestMember,
+  createTestOrganization,
+  startTestServer,
+  type TestServer,
+} from "./harness";
+import type { Organization, User } from "@shared/schema";
+
+let server: TestServer;
+let organization: Organization;
+
+// Ativa a verificação em duas etapas e devolve códigos de recuperação válidos
+async function enableTwoFactor(user: User): Promise<string[]> {
+  await beginTwoFactorEnrollment(user);
+  await storage.updateUserTwoFactor(user.id, { enabledAt: new Date() });
+  return regenerateRecoveryCodes(user.id);
+}
+
+const accountFailures = async (user: User) =>
+  (await storage.getLoginThrottle(`account:${user.username.toLowerCase()}`))?.failures ?? 0;
+
+beforeAll(async () => {
+  server = await startTestServer();
+  organization = await createTestOrganization("Duas Etapas");
+});
+
+afterAll(async () => {
+  await server.close();
+});
+
+describe("login com verificação em duas etapas", () => {
+  it("troca a sessão no login", async () => {
+    const user = await addTestMember(organization, "member");
+    const client = new TestClient(server);
+    const first = await client.login(user.username);
+    const firstCookie = first.headers.get("set-cookie")!.split(";")[0];
+
+    const second = await client.login(user.username);
+    const secondCookie = second.headers.get("set-cookie")!.split(";")[0];
+    expect(secondCookie).not.toBe(firstCookie);
+
+    expect((await client.request("GET", "/api/auth/me", undefined, { Cookie: firstCookie })).status).toBe(401);
+    expect((await client.get("/api/auth/me")).status).toBe(200);
+  });
+
+  it("só zera as falhas da conta depois do código", async () => {
+    const user = await addTestMember(organization, "member");
+    const [recoveryCode] = await enableTwoFactor(user);
+    await registerLoginFailure({ username: user.username }, { source: "teste" });
+
+    const client = new TestClient(server);
+    const login = await client.login(user.username);
+    expect(login.body.twoFactorRequired).toBe(true);
+    const pendingCookie = login.headers.get("set-cookie")!.split(";")[0];
+    expect(await accountFailures(user)).toBe(1);
+
+    expect((await client.post("/api/auth/login/2fa", { code: "000000" })).status).toBe(401);
+    expect(await accountFailures(user)).toBe(2);
+
+    const verified = await client.post("/api/auth/login/2fa", { code: recoveryCode });
+    expect(verified.status).toBe(200);
+    expect(verified.headers.get("set-cookie")!.split(";")[0]).not.toBe(pendingCookie);
+    expect(await accountFailures(user)).toBe(0);
+    expect((await client.get("/api/auth/me")).body.id).toBe(user.id);
+  });
+
+  it("recusa o código quando a conta está bloqueada", async () => {
+    const user = await addTestMember(organization, "member");
+    const [recoveryCode] = await enableTwoFactor(user);
+
+    const client = new TestClient(server);
+    expect((await client.login(user.username)).body.twoFactorRequired).toBe(true);
+    for (let i = 0; i < 10; i++) {
+      await registerLoginFailure({ username: user.username }, { source: "teste" });
+    }
+
+    const response = await client.post("/api/auth/login/2fa", { code: recoveryCode });
+    expect(response.status).toBe(429);
+    expect((await client.get("/api/auth/me")).status).toBe(401);
+  });
+});
+
+describe("login pelo chatbot do WhatsApp", () => {
+  const chatLogin = async (phone: string, user: User) => {
+    await processMessage(phone, "login");
+    await processMessage(phone, user.username);
+    return processMessage(phone, TEST_PASSWORD);
+  };
+
+  it("pede o código do autenticador antes de liberar o acesso", async () => {
+    const user = await addTestMember(organization, "member");
+    const [recoveryCode] = await enableTwoFactor(user);
+    const phone = "5511900000001";
+
+    expect(await chatLogin(phone, user)).toContain("código");
+    expect(await processMessage(phone, "status")).toContain("inválido");
+    expect(await accountFailures(user)).toBe(1);
+
+    expect(await processMessage(phone, recoveryCode)).toContain(`Olá, ${user.name}`);
+    expect(await accountFailures(user)).toBe(0);
+  });
+
+  it("recusa o login de quem não ativou a verificação exigida pela organização", async () => {
+    const strict = await createTestOrganization("Exige Duas Etapas");
+    await storage.updateOrganizationSettings(strict.id, { requireTwoFactor: true });
+    const user = await addTestMember(strict, "member");
+    const phone = "5511900000002";
+
+    expect(await chatLogin(phone, user)).toContain("exige a verificação em duas etapas");
+    expect(await processMessage(phone, "projetos")).toContain("faça login");
+  });
+});
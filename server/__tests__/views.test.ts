@@ -0,0 +1,65 @@
+import { afterAll, beforeAll, describe, expect, it } from "vitest";
+import { storage } from "../storage";
+import { SNAPSHOT_FORMAT, parseSnapshot } from "../snapshot";
+import {
+  TestClient,
+  addTestMember,
+  createTestOrganization,
+  createTestProject,
+  startTestServer,
+  type TestServer,
+} from "./harness";
+import type { Organization, Project, User } from "@shared/schema";
+
+let server: TestServer;
+let organization: Organization;
+let owner: User;
+let project: Project;
+let client: TestClient;
+
+beforeAll(async () => {
+  server = await startTestServer();
+  organization = await createTestOrganization("Visões");
+  owner = await addTestMember(organization, "owner");
+  project = await createTestProject(organization, owner);
+  client = new TestClient(server);
+  expect((await client.login(owner.username)).status).toBe(200);
+});
+
+afterAll(async () => {
+  await server.close();
+});
+
+describe("visões salvas no dashboard", () => {
+  it("marca a visão como widget e devolve os primeiros resultados", async () => {
+    await storage.createTask(organization.id, { projectId: project.id, name: "Urgente", priority: "high" });
+    await storage.createTask(organization.id, { projectId: project.id, name: "Depois", priority: "low" });
+
+    const created = await client.post("/api/views", {
+      name: "Alta prioridade",
+      target: "tasks",
+      filters: { priority: ["high"] },
+      onDashboard: true,
+    });
+    expect(created.status).toBe(201);
+    expect(created.body).toMatchObject({ onDashboard: true, pinned: false });
+
+    const results = await client.get(`/api/views/${created.body.id}/results?limit=5`);
+    expect(results.status).toBe(200);
+    expect(results.body.items.map((task: { name: string }) => task.name)).toEqual(["Urgente"]);
+
+    const updated = await client.put(`/api/views/${created.body.id}`, { onDashboard: false });
+    expect(updated.status).toBe(200);
+    expect(updated.body.onDashboard).toBe(false);
+  });
+
+  it("não mostra visões de snapshots anteriores no dashboard", () => {
+    const snapshot = parseSnapshot({
+      format: SNAPSHOT_FORMAT,
+      version: 4,
+      savedAt: new Date().toISOString(),
+      data: { savedViews: [[1, { id: 1, name: "Antiga", pinned: true }]] },
+    });
+    expect(snapshot.data.savedViews).toEqual([[1, { id: 1, name: "Antiga", pinned: true, onDashboard: false }]]);
+  });
+});
@@ -0,0 +1,94 @@
+/**
+ * Tokens de acesso pessoal para a API REST (Authorization: Bearer).
+ * O token completo só é exibido na criação; guardamos apenas o hash e um prefixo.
+ */
+import crypto from 'crypto';
+import { z } from 'zod';
+import { storage } from './storage';
+import { hashToken } from './auth-utils';
+import { ApiToken } from '@shared/schema';
+
+const TOKEN_PREFIX = 'lrpat_';
+// Quantidade de caracteres exibidos para identificar o token na interface
+const DISPLAY_PREFIX_LENGTH = TOKEN_PREFIX.length + 6;
+// Intervalo mínimo entre atualizações de "último uso" de um mesmo token
+const LAST_USED_UPDATE_INTERVAL_MS = 60 * 1000;
+
+export const API_TOKEN_SCOPES = ['read', 'write', 'admin'] as const;
+export type ApiTokenScope = typeof API_TOKEN_SCOPES[number];
+
+export const createApiTokenSchema = z.object({
+  name: z.string().trim().min(1, "Nome do token é obrigatório").max(100),
+  scopes: z.array(z.enum(API_TOKEN_SCOPES)).min(1, "Selecione ao menos um escopo"),
+  // Validade em dias; nulo para um token sem expiração
+  expiresInDays: z.number().int().min(1).max(365).nullable().optional(),
+});
+
+export function getApiTokenScopes(token: ApiToken): ApiTokenScope[] {
+  return (token.scopes as ApiTokenScope[] | null) || [];
+}
+
+export function hasApiTokenScope(token: ApiToken, scope: ApiTokenScope): boolean {
+  return getApiTokenScopes(token).includes(scope);
+}
+
+/**
+ * Escopo exigido pelo método HTTP: leitura para GET/HEAD, escrita para os demais.
+ */
+export function getRequiredScope(method: string): ApiTokenScope {
+  return ['GET', 'HEAD', 'OPTIONS'].includes(method.toUpperCase()) ? 'read' : 'write';
+}
+
+/**
+ * Extrai o token do cabeçalho Authorization, se for um token de acesso pessoal.
+ */
+export function getBearerToken(authorization?: string): string | undefined {
+  const match = authorization?.match(/^Bearer\s+(\S+)$/i);
+  return match && match[1].startsWith(TOKEN_PREFIX) ? match[1] : undefined;
+}
+
+/**
+ * Cria um token para o usuário na organização informada.
+ * Retorna o registro e o valor do token, que não poderá ser recuperado depois.
+ */
+export async function issueApiToken(
+  userId: number,
+  organizationId: number,
+  data: z.infer<typeof createApiTokenSchema>
+): Promise<{ token: string; record: ApiToken }> {
+  const token = TOKEN_PREFIX + crypto.randomBytes(32).toString('base64url');
+  const record = await storage.createApiToken({
+    userId,
+    organizationId,
+    name: data.name,
+    tokenHash: hashToken(token),
+    tokenPrefix: token.slice(0, DISPLAY_PREFIX_LENGTH),
+    scopes: data.scopes,
+    expiresAt: data.expiresInDays ? new Date(Date.now() + data.expiresInDays * 24 * 60 * 60 * 1000) : null
+  });
+  return { token, record };
+}
+
+/**
+ * Localiza um token válido (não revogado e não expirado) e registra seu uso.
+ */
+export async function findActiveApiToken(token: string, ip?: string): Promise<ApiToken | undefined> {
+  const record = await storage.getApiTokenByHash(hashToken(token));
+  if (!record || record.revokedAt) return undefined;
+  if (record.expiresAt && record.expiresAt.getTime() < Date.now()) return undefined;
+
+  if (!record.lastUsedAt || Date.now() - record.lastUsedAt.getTime() > LAST_USED_UPDATE_INTERVAL_MS) {
+    storage.touchApiToken(record.id, ip || null).catch(error => {
+      console.error("Erro ao registrar uso do token de API:", error);
+    });
+  }
+  return record;
+}
+
+/**
+ * Dados do token exibidos ao usuário (sem o hash).
+ */
+export function serializeApiToken(token: ApiToken) {
+  const { tokenHash, ...rest } = token;
+  return { ...rest, scopes: getApiTokenScopes(token) };
+}
@@ -0,0 +1,231 @@
+/**
+ * Auditoria dos eventos de segurança e administrativos.
+ * Os registros são apenas incluídos: não há alteração nem exclusão avulsa,
+ * e os antigos saem somente pela retenção configurada por plano.
+ */
+import { Request } from 'express';
+import { z } from 'zod';
+import { storage, AuditLogFilter } from './storage';
+import { AuditLog } from '@shared/schema';
+import {
+  AUDIT_ACTIONS,
+  AUDIT_RETENTION_KEYS,
+  AuditAction,
+  AuditChanges,
+  AuditRetention,
+  DEFAULT_AUDIT_RETENTION,
+} from '@shared/audit';
+
+export interface AuditEntry {
+  organizationId?: number | null;
+  actorId?: number | null;
+  actorName?: string | null; // Por padrão, o username do autor
+  action: AuditAction;
+  targetType?: string;
+  targetId?: number | null;
+  targetLabel?: string | null;
+  changes?: AuditChanges | null;
+  details?: Record<string, unknown> | null;
+}
+
+// Chave em admin_settings com os dias de retenção por plano
+const RETENTION_SETTING_KEY = 'audit_retention';
+// Intervalo da remoção dos registros fora da retenção
+const PURGE_INTERVAL_MS = 86400000;
+// Limite de registros por exportação
+export const MAX_EXPORT_ROWS = 10000;
+
+// Campos que não entram nas alterações registradas
+const IGNORED_FIELDS = ['id', 'createdAt', 'updatedAt', 'password'];
+// Campos com credenciais: o registro mostra apenas que o valor mudou
+const SECRET_FIELD = /secret|token|password|key|credential/i;
+const MASKED_VALUE = '********';
+
+/**
+ * Registra a ação com o IP da requisição.
+ * Durante o acesso como outro usuário, o Super Admin responsável fica nos detalhes.
+ * Falhas são propagadas: a ação auditada não deve prosseguir sem o registro.
+ */
+export async function recordAuditLog(req: Request, entry: AuditEntry): Promise<AuditLog> {
+  const impersonator = req.session?.impersonator;
+  const details = impersonator && !entry.action.startsWith('impersonation.')
+    ? { ...entry.details, impersonatorId: impersonator.userId }
+    : entry.details;
+
+  let actorName = entry.actorName;
+  if (actorName === undefined && entry.actorId) {
+    actorName = (await storage.getUser(entry.actorId))?.username;
+  }
+
+  return storage.createAuditLog({
+    organizationId: entry.organizationId ?? null,
+    actorId: entry.actorId ?? null,
+    actorName: actorName ?? null,
+    action: entry.action,
+    targetType: entry.targetType ?? null,
+    targetId: entry.targetId ?? null,
+    targetLabel: entry.targetLabel ?? null,
+    changes: entry.changes ?? null,
+    details: details ?? null,
+    ipAddress: req.ip ?? null
+  });
+}
+
+function flattenFields(value: unknown, prefix: string, out: Record<string, unknown>): Record<string, unknown> {
+  if (value && typeof value === 'object' && !Array.isArray(value) && !(value instanceof Date)) {
+    Object.entries(value).forEach(([key, nested]) => {
+      if (!prefix && IGNORED_FIELDS.includes(key)) return;
+      flattenFields(nested, prefix ? `${prefix}.${key}` : key, out);
+    });
+  } else if (prefix) {
+    out[prefix] = value instanceof Date ? value.toISOString() : value ?? null;
+  }
+  return out;
+}
+
+function maskValue(field: string, value: unknown): unknown {
+  return SECRET_FIELD.test(field) && value !== null && value !== '' ? MASKED_VALUE : value;
+}
+
+/**
+ * Campos alterados entre duas versões de um registro (objetos aninhados viram "campo.subcampo").
+ * Retorna null quando nada mudou.
+ */
+export function diffChanges(before: object | null | undefined, after: object | null | undefined): AuditChanges | null {
+  const from = flattenFields(before, '', {});
+  const to = flattenFields(after, '', {});
+  const changes: AuditChanges = {};
+
+  Array.from(new Set([...Object.keys(from), ...Object.keys(to)])).forEach(field => {
+    const previous = from[field] ?? null;
+    const next = to[field] ?? null;
+    if (JSON.stringify(previous) !== JSON.stringify(next)) {
+      changes[field] = { from: maskValue(field, previous), to: maskValue(field, next) };
+    }
+  });
+
+  return Object.keys(changes).length > 0 ? changes : null;
+}
+
+export const auditLogQuerySchema = z.object({
+  action: z.string().trim().optional(),
+  actorId: z.coerce.number().int().positive().optional(),
+  targetType: z.string().trim().optional(),
+  // Apenas na área Super Admin: id da organização ou "platform"
+  organizationId: z.union([z.literal('platform'), z.coerce.number().int().positive()]).optional(),
+  from: z.coerce.date().optional(),
+  to: z.coerce.date().optional(),
+  limit: z.coerce.number().int().min(1).max(500).default(100),
+  offset: z.coerce.number().int().min(0).default(0),
+});
+
+export type AuditLogQuery = z.infer<typeof auditLogQuerySchema>;
+
+/**
+ * Converte os filtros da requisição; `organizationId` restringe a consulta a uma organização.
+ */
+export function toAuditLogFilter(query: AuditLogQuery, organizationId?: number): AuditLogFilter {
+  return {
+    organizationId: organizationId ?? (query.organizationId === 'platform' ? null : query.organizationId),
+    actorId: query.actorId,
+    action: query.action || undefined,
+    targetType: query.targetType || undefined,
+    from: query.from,
+    to: query.to,
+    limit: query.limit,
+    offset: query.offset,
+  };
+}
+
+function escapeCsv(value: unknown): string {
+  if (value === null || value === undefined) return '';
+  const text = typeof value === 'object' ? JSON.stringify(value) : String(value);
+  return /[",\n\r;]/.test(text) ? `"${text.replace(/"/g, '""')}"` : text;
+}
+
+/**
+ * Exportação em CSV (separador vírgula, UTF-8 com BOM para abrir corretamente em planilhas).
+ */
+export function auditLogsToCsv(records: AuditLog[]): string {
+  const header = ['data', 'organizacao', 'autor', 'acao', 'descricao', 'alvo', 'alvo_id', 'alvo_descricao', 'alteracoes', 'detalhes', 'ip'];
+  const rows = records.map(record => [
+    record.createdAt.toISOString(),
+    record.organizationId,
+    record.actorName,
+    record.action,
+    AUDIT_ACTIONS[record.action as AuditAction] || '',
+    record.targetType,
+    record.targetId,
+    record.targetLabel,
+    record.changes,
+    record.details,
+    record.ipAddress,
+  ].map(escapeCsv).join(','));
+
+  return '﻿' + [header.join(','), ...rows].join('\r\n');
+}
+
+export const auditRetentionSchema = z.record(
+  z.enum(AUDIT_RETENTION_KEYS),
+  z.coerce.number().int().min(7, 'A retenção mínima é de 7 dias').max(3650, 'A retenção máxima é de 10 anos')
+);
+
+/**
+ * Dias de retenção por plano em vigor: os configurados sobre os padrões.
+ */
+export async function getAuditRetention(): Promise<AuditRetention> {
+  const setting = await storage.getAdminSetting(RETENTION_SETTING_KEY);
+  return { ...DEFAULT_AUDIT_RETENTION, ...(setting?.settingValue as Partial<AuditRetention> | null) };
+}
+
+export async function saveAuditRetention(data: z.infer<typeof auditRetentionSchema>): Promise<AuditRetention> {
+  const retention = { ...(await getAuditRetention()), ...data };
+  await storage.updateAdminSetting(RETENTION_SETTING_KEY, retention);
+  return retention;
+}
+
+/**
+ * Dias de retenção da organização, conforme o plano da assinatura.
+ */
+export async function getOrganizationAuditRetentionDays(organizationId: number): Promise<number> {
+  const [retention, subscription] = await Promise.all([
+    getAuditRetention(),
+    storage.getSubscription(organizationId),
+  ]);
+  const plan = (subscription?.plan || 'free') as keyof AuditRetention;
+  return retention[plan] ?? retention.free;
+}
+
+const daysAgo = (days: number) => new Date(Date.now() - days * 86400000);
+
+/**
+ * Remove os registros fora da retenção de cada organização e da plataforma.
+ * Retorna a quantidade de registros removidos.
+ */
+export async function purgeExpiredAuditLogs(): Promise<number> {
+  const retention = await getAuditRetention();
+  let removed = await storage.deleteAuditLogsBefore(null, daysAgo(retention.platform));
+
+  const organizations = await storage.getAllOrganizations();
+  for (const organization of organizations) {
+    const days = await getOrganizationAuditRetentionDays(organization.id);
+    removed += await storage.deleteAuditLogsBefore(organization.id, daysAgo(days));
+  }
+  return removed;
+}
+
+/**
+ * Agenda a remoção diária dos registros fora da retenção.
+ */
+export function scheduleAuditLogPurge() {
+  const purge = () => {
+    purgeExpiredAuditLogs()
+      .then(removed => {
+        if (removed > 0) console.log(`Auditoria: ${removed} registros fora da retenção removidos`);
+      })
+      .catch(error => console.error("Erro ao remover registros de auditoria antigos:", error));
+  };
+
+  purge();
+  setInterval(purge, PURGE_INTERVAL_MS).unref();
+}
@@ -38,4 +38,60 @@ export async function verifyPassword(plainPassword: string, hashedPassword: stri
     console.error('Erro ao verificar senha:', error);
     return false;
   }
-}
\ No newline at end of file
+}
+const TOKEN_SECRET = process.env.SESSION_SECRET || 'launchpro-secret-key';
+
+function signTokenValue(value: string): string {
+  return crypto.createHmac('sha256', TOKEN_SECRET).update(value).digest('base64url');
+}
+
+/**
+ * Gera um token aleatório assinado (convites, redefinição de senha etc.).
+ * Apenas o hash do token deve ser persistido.
+ */
+export function generateSignedToken(): string {
+  const value = crypto.randomBytes(32).toString('base64url');
+  return `${value}.${signTokenValue(value)}`;
+}
+
+/**
+ * Verifica a assinatura de um token antes de qualquer consulta ao armazenamento.
+ */
+export function isTokenSignatureValid(token: string): boolean {
+  const [value, signature] = token.split('.');
+  if (!value || !signature) return false;
+  
+  const expected = Buffer.from(signTokenValue(value));
+  const received = Buffer.from(signature);
+  return expected.length === received.length && crypto.timingSafeEqual(expected, received);
+}
+
+/**
+ * Hash determinístico de um token para armazenamento e busca.
+ */
+export function hashToken(token: string): string {
+  return crypto.createHash('sha256').update(token).digest('hex');
+}
+
+// Chave de criptografia de segredos guardados (TOTP, credenciais de SSO), derivada do segredo da aplicação
+const ENCRYPTION_KEY = crypto
+  .createHash('sha256')
+  .update(process.env.TWO_FACTOR_SECRET || process.env.SESSION_SECRET || 'launchpro-secret-key')
+  .digest();
+
+/**
+ * Criptografa um segredo com AES-256-GCM para armazenamento.
+ */
+export function encryptSecret(secret: string): string {
+  const iv = crypto.randomBytes(12);
+  const cipher = crypto.createCipheriv('aes-256-gcm', ENCRYPTION_KEY, iv);
+  const encrypted = Buffer.concat([cipher.update(secret, 'utf8'), cipher.final()]);
+  return [iv, cipher.getAuthTag(), encrypted].map(part => part.toString('base64url')).join('.');
+}
+
+export function decryptSecret(payload: string): string {
+  const [iv, tag, encrypted] = payload.split('.').map(part => Buffer.from(part, 'base64url'));
+  const decipher = crypto.createDecipheriv('aes-256-gcm', ENCRYPTION_KEY, iv);
+  decipher.setAuthTag(tag);
+  return Buffer.concat([decipher.update(encrypted), decipher.final()]).toString('utf8');
+}
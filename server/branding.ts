@@ -0,0 +1,164 @@
+/**
+ * Identidade visual por organização (tema, nome e logo).
+ * O nome, o logo e a cor primária ficam em organizations; variante, aparência
+ * e arredondamento ficam em organizationSettings.settings.theme.
+ */
+import { Request } from 'express';
+import { z } from 'zod';
+import { storage } from './storage';
+import { resolveOrganizationId } from './middleware/tenant';
+import { Organization } from '@shared/schema';
+
+export const themeSchema = z.object({
+  primary: z.string().regex(/^#[0-9a-fA-F]{6}$/, "Cor inválida"),
+  variant: z.enum(["professional", "vibrant", "tint"]),
+  appearance: z.enum(["light", "dark", "system"]),
+  radius: z.coerce.string().regex(/^(0|0\.25|0\.5|0\.75|1)$/, "Arredondamento inválido"),
+});
+
+export const brandingSchema = z.object({
+  theme: themeSchema.partial().optional(),
+  organization: z.object({
+    name: z.string().trim().min(1, "Nome da organização é obrigatório").optional(),
+    allowSelfRegistration: z.boolean().optional(),
+  }).optional(),
+});
+
+export type ThemeSettings = z.infer<typeof themeSchema>;
+
+export interface Branding {
+  theme: ThemeSettings;
+  organization: {
+    id: number | null;
+    name: string;
+    slug: string | null;
+    logo: string | null;
+    allowSelfRegistration: boolean;
+    ssoEnabled: boolean;
+  };
+}
+
+export const DEFAULT_THEME: ThemeSettings = {
+  primary: "#0ea5e9",
+  variant: "professional",
+  appearance: "light",
+  radius: "0.5",
+};
+
+const DEFAULT_BRANDING: Branding = {
+  theme: DEFAULT_THEME,
+  organization: {
+    id: null,
+    name: "LaunchRocket",
+    slug: null,
+    logo: null,
+    allowSelfRegistration: false,
+    ssoEnabled: false,
+  },
+};
+
+// Configurações adicionais guardadas em organizationSettings.settings
+interface StoredSettings {
+  theme?: Partial<ThemeSettings>;
+  allowSelfRegistration?: boolean;
+  [key: string]: unknown;
+}
+
+/**
+ * Define de qual organização é a identidade visual da requisição:
+ * o tenant do endereço (domínio, subdomínio ou /o/:slug) ou a organização do usuário.
+ */
+export async function resolveBrandingOrganizationId(req: Request, tenant?: Organization): Promise<number | undefined> {
+  if (tenant) return tenant.id;
+
+  if (req.session?.userId) {
+    return resolveOrganizationId(req.session.userId, req.session.organizationId);
+  }
+
+  return undefined;
+}
+
+export async function isSelfRegistrationAllowed(organizationId: number): Promise<boolean> {
+  const settings = await storage.getOrganizationSettings(organizationId);
+  return (settings?.settings as StoredSettings | null)?.allowSelfRegistration === true;
+}
+
+export async function getOrganizationBranding(organizationId?: number): Promise<Branding> {
+  if (!organizationId) return DEFAULT_BRANDING;
+
+  const organization = await storage.getOrganization(organizationId);
+  if (!organization) return DEFAULT_BRANDING;
+
+  const settings = await storage.getOrganizationSettings(organizationId);
+  const stored = (settings?.settings as StoredSettings | null) || {};
+  const storedTheme = stored.theme || {};
+  const sso = await storage.getOrganizationSso(organizationId);
+
+  return {
+    theme: {
+      ...DEFAULT_THEME,
+      ...storedTheme,
+      primary: organization.primaryColor || storedTheme.primary || DEFAULT_THEME.primary,
+    },
+    organization: {
+      id: organization.id,
+      name: organization.name,
+      slug: organization.slug,
+      logo: organization.logo || settings?.logoUrl || null,
+      allowSelfRegistration: stored.allowSelfRegistration === true,
+      ssoEnabled: !!sso?.enabled,
+    },
+  };
+}
+
+export async function updateOrganizationBranding(
+  organizationId: number,
+  data: z.infer<typeof brandingSchema>
+): Promise<Branding> {
+  const { primary, ...theme } = data.theme || {};
+
+  if (primary || data.organization?.name) {
+    await storage.updateOrganization(organizationId, {
+      ...(primary ? { primaryColor: primary } : {}),
+      ...(data.organization?.name ? { name: data.organization.name } : {}),
+    });
+  }
+
+  const allowSelfRegistration = data.organization?.allowSelfRegistration;
+
+  if (Object.keys(theme).length > 0 || allowSelfRegistration !== undefined) {
+    const settings = await storage.getOrganizationSettings(organizationId);
+    const current = (settings?.settings as StoredSettings | null) || {};
+    const merged: StoredSettings = { ...current, theme: { ...current.theme, ...theme } };
+    if (allowSelfRegistration !== undefined) {
+      merged.allowSelfRegistration = allowSelfRegistration;
+    }
+
+    if (settings) {
+      await storage.updateOrganizationSettings(organizationId, { settings: merged });
+    } else {
+      await storage.createOrganizationSettings({ organizationId, settings: merged });
+    }
+  }
+
+  return getOrganizationBranding(organizationId);
+}
+
+/**
+ * Salva o novo logo e devolve o caminho do logo anterior (para remoção do arquivo).
+ */
+export async function setOrganizationLogo(organizationId: number, logoUrl: string | null): Promise<string | null> {
+  const organization = await storage.getOrganization(organizationId);
+  const previous = organization?.logo || null;
+
+  await storage.updateOrganization(organizationId, { logo: logoUrl });
+
+  const settings = await storage.getOrganizationSettings(organizationId);
+  if (settings) {
+    await storage.updateOrganizationSettings(organizationId, { logoUrl });
+  } else {
+    await storage.createOrganizationSettings({ organizationId, logoUrl });
+  }
+
+  return previous;
+}
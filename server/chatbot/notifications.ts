@@ -1,4 +1,5 @@
 import { storage } from '../storage';
+import { resolveOrganizationId } from '../middleware/tenant';
 import { Activity, ProjectMember, User } from '@shared/schema';
 
 // Interface para armazenar as preferências de notificação dos usuários
@@ -60,8 +61,14 @@ export async function processNotifications(): Promise<void> {
   try {
     // Para cada usuário com preferências de notificação
     for (const [userId, preference] of notificationPreferences.entries()) {
+      // Notificações sempre no contexto da organização ativa do usuário
+      const organizationId = await resolveOrganizationId(userId);
+      if (!organizationId) {
+        continue;
+      }
+      
       // Buscar projetos do usuário
-      const projects = await storage.getProjectsByUser(userId);
+      const projects = await storage.getProjectsByUser(organizationId, userId);
       
       if (!projects || projects.length === 0) {
         continue;
@@ -70,7 +77,7 @@ export async function processNotifications(): Promise<void> {
       // Para cada projeto, verificar atividades recentes
       for (const project of projects) {
         // Buscar atividades recentes (desde a última notificação)
-        const activities = await storage.getActivitiesByProject(project.id);
+        const activities = await storage.getActivitiesByProject(organizationId, project.id);
         
         if (!activities || activities.length === 0) {
           continue;
@@ -128,10 +135,15 @@ export async function processDailySummaries(): Promise<void> {
           continue;
         }
         
+        const organizationId = await resolveOrganizationId(userId);
+        if (!organizationId) {
+          continue;
+        }
+        
         // Buscar dados para o relatório diário
         const user = await storage.getUser(userId);
-        const tasks = await storage.getTasksByUser(userId);
-        const projects = await storage.getProjectsByUser(userId);
+        const tasks = await storage.getTasksByUser(organizationId, userId);
+        const projects = await storage.getProjectsByUser(organizationId, userId);
         
         if (!user) {
           continue;
@@ -36,7 +36,7 @@ const userChatbotSettings = new Map<number, any>();
 
 // Rota para obter configurações do chatbot do usuário
 router.get('/settings', isAuthenticated, (req: Request, res: Response) => {
-  const userId = req.session.userId!;
+  const userId = res.locals.user.id;
   
   // Verificar se o usuário já tem configurações salvas
   const settings = userChatbotSettings.get(userId) || {
@@ -59,7 +59,7 @@ router.put(
   isAuthenticated, 
   validateRequest(chatbotSettingsSchema), 
   (req: Request, res: Response) => {
-    const userId = req.session.userId!;
+    const userId = res.locals.user.id;
     const settings = req.body;
     
     // Salvar as configurações
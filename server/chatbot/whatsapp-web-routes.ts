@@ -1,25 +1,21 @@
 import { Router, Request, Response } from 'express';
-import { getWhatsAppWebStatus, getLastQRCode, initWhatsAppWebClient, disconnectWhatsAppWeb, restartWhatsAppWeb } from './whatsapp-web';
+import { getWhatsAppWebStatus, getLastQRCode, initWhatsAppWebClient, disconnectWhatsAppWeb, restartWhatsAppWeb, getWhatsAppWebOrganizationId } from './whatsapp-web';
 import { storage } from '../storage';
-import { isAuthenticated } from '../middleware/auth';
+import { isAuthenticated, requirePermission } from '../middleware/auth';
+import { recordAuditLog } from '../audit';
 
 const router = Router();
 
 // Obter status da conexão WhatsApp Web
-router.get('/status', isAuthenticated, async (req: Request, res: Response) => {
+router.get('/status', isAuthenticated, requirePermission('integration.manage'), async (req: Request, res: Response) => {
   try {
-    // Verificar se o usuário é administrador
-    if (res.locals.user.role !== 'admin') {
-      return res.status(403).json({
-        message: 'Apenas administradores podem acessar configurações do WhatsApp'
-      });
-    }
-    
     // Obter integração whatsapp_web do banco de dados
-    const integration = await storage.getIntegrationByType('whatsapp_web');
+    const integration = await storage.getIntegrationByType(res.locals.organizationId, 'whatsapp_web');
     
-    // Obter status do cliente
-    const status = getWhatsAppWebStatus();
+    // Obter status do cliente (a sessão só é visível para a organização dona dela)
+    const status = getWhatsAppWebOrganizationId() === res.locals.organizationId
+      ? getWhatsAppWebStatus()
+      : { ready: false, authenticated: false };
     
     return res.json({
       status,
@@ -32,16 +28,9 @@ router.get('/status', isAuthenticated, async (req: Request, res: Response) => {
 });
 
 // Obter QR Code para conexão
-router.get('/qr-code', isAuthenticated, (req: Request, res: Response) => {
+router.get('/qr-code', isAuthenticated, requirePermission('integration.manage'), (req: Request, res: Response) => {
   try {
-    // Verificar se o usuário é administrador
-    if (res.locals.user.role !== 'admin') {
-      return res.status(403).json({
-        message: 'Apenas administradores podem acessar configurações do WhatsApp'
-      });
-    }
-    
-    const qrCode = getLastQRCode();
+    const qrCode = getWhatsAppWebOrganizationId() === res.locals.organizationId ? getLastQRCode() : '';
     
     if (!qrCode) {
       return res.status(404).json({ message: 'QR Code não disponível' });
@@ -55,21 +44,22 @@ router.get('/qr-code', isAuthenticated, (req: Request, res: Response) => {
 });
 
 // Configurar e iniciar WhatsApp Web
-router.post('/connect', isAuthenticated, async (req: Request, res: Response) => {
+router.post('/connect', isAuthenticated, requirePermission('integration.manage'), async (req: Request, res: Response) => {
   try {
-    // Verificar se o usuário é administrador
-    if (res.locals.user.role !== 'admin') {
-      return res.status(403).json({
-        message: 'Apenas administradores podem acessar configurações do WhatsApp'
+    // Apenas uma sessão WhatsApp Web por instância
+    const ownerOrganizationId = getWhatsAppWebOrganizationId();
+    if (ownerOrganizationId && ownerOrganizationId !== res.locals.organizationId) {
+      return res.status(409).json({
+        message: 'O WhatsApp Web já está em uso por outra organização'
       });
     }
     
     // Verificar se já existe uma integração
-    let integration = await storage.getIntegrationByType('whatsapp_web');
+    let integration = await storage.getIntegrationByType(res.locals.organizationId, 'whatsapp_web');
     
     if (!integration) {
       // Criar uma nova integração
-      integration = await storage.createIntegration({
+      integration = await storage.createIntegration(res.locals.organizationId, {
         type: 'whatsapp_web',
         name: 'WhatsApp Web (QR Code)',
         enabled: true,
@@ -81,7 +71,7 @@ router.post('/connect', isAuthenticated, async (req: Request, res: Response) =>
       });
     } else {
       // Atualizar integração existente
-      integration = await storage.updateIntegration(integration.id, {
+      integration = await storage.updateIntegration(res.locals.organizationId, integration.id, {
         enabled: true,
         credentials: {
           ...(integration.credentials || {}),
@@ -92,7 +82,16 @@ router.post('/connect', isAuthenticated, async (req: Request, res: Response) =>
     }
     
     // Iniciar cliente
-    await initWhatsAppWebClient();
+    await initWhatsAppWebClient(res.locals.organizationId);
+    
+    await recordAuditLog(req, {
+      organizationId: res.locals.organizationId,
+      actorId: res.locals.user.id,
+      action: 'integration.connected',
+      targetType: 'integration',
+      targetId: integration?.id,
+      targetLabel: 'whatsapp_web'
+    });
     
     return res.json({
       message: 'Iniciando conexão WhatsApp Web, aguarde o QR Code',
@@ -105,28 +104,31 @@ router.post('/connect', isAuthenticated, async (req: Request, res: Response) =>
 });
 
 // Desconectar WhatsApp Web
-router.post('/disconnect', isAuthenticated, async (req: Request, res: Response) => {
+router.post('/disconnect', isAuthenticated, requirePermission('integration.manage'), async (req: Request, res: Response) => {
   try {
-    // Verificar se o usuário é administrador
-    if (res.locals.user.role !== 'admin') {
-      return res.status(403).json({
-        message: 'Apenas administradores podem acessar configurações do WhatsApp'
-      });
-    }
-    
     // Desativar integração no banco de dados
-    const integration = await storage.getIntegrationByType('whatsapp_web');
+    const integration = await storage.getIntegrationByType(res.locals.organizationId, 'whatsapp_web');
     
     if (integration) {
-      await storage.updateIntegration(integration.id, {
+      await storage.updateIntegration(res.locals.organizationId, integration.id, {
         enabled: false
       });
     }
     
-    // Desconectar cliente
-    const success = await disconnectWhatsAppWeb();
+    // Desconectar cliente (somente se a sessão pertencer a esta organização)
+    const success = getWhatsAppWebOrganizationId() === res.locals.organizationId
+      ? await disconnectWhatsAppWeb()
+      : true;
     
     if (success) {
+      await recordAuditLog(req, {
+        organizationId: res.locals.organizationId,
+        actorId: res.locals.user.id,
+        action: 'integration.disconnected',
+        targetType: 'integration',
+        targetId: integration?.id,
+        targetLabel: 'whatsapp_web'
+      });
       return res.json({ message: 'WhatsApp Web desconectado com sucesso' });
     } else {
       return res.status(500).json({ message: 'Erro ao desconectar WhatsApp Web' });
@@ -138,16 +140,16 @@ router.post('/disconnect', isAuthenticated, async (req: Request, res: Response)
 });
 
 // Reiniciar conexão
-router.post('/restart', isAuthenticated, async (req: Request, res: Response) => {
+router.post('/restart', isAuthenticated, requirePermission('integration.manage'), async (req: Request, res: Response) => {
   try {
-    // Verificar se o usuário é administrador
-    if (res.locals.user.role !== 'admin') {
-      return res.status(403).json({
-        message: 'Apenas administradores podem acessar configurações do WhatsApp'
+    const ownerOrganizationId = getWhatsAppWebOrganizationId();
+    if (ownerOrganizationId && ownerOrganizationId !== res.locals.organizationId) {
+      return res.status(409).json({
+        message: 'O WhatsApp Web já está em uso por outra organização'
       });
     }
     
-    await restartWhatsAppWeb();
+    await restartWhatsAppWeb(res.locals.organizationId);
     
     return res.json({ message: 'Conexão WhatsApp Web reiniciada, aguarde o QR Code' });
   } catch (error) {
@@ -29,13 +29,15 @@ try {
 let client: any = null;
 let isClientReady = false;
 let lastQRCode = '';
+// Organização dona da sessão WhatsApp Web atual (apenas uma sessão por instância)
+let clientOrganizationId: number | null = null;
 
 // Handler para mensagens
 type MessageHandler = (message: string, from: string) => Promise<string>;
 let messageHandlers: MessageHandler[] = [];
 
 // Iniciar o cliente WhatsApp Web
-export async function initWhatsAppWebClient(): Promise<void> {
+export async function initWhatsAppWebClient(organizationId: number): Promise<void> {
   try {
     // Verificar se as dependências foram carregadas corretamente
     if (!WAWebJS || !qrcode) {
@@ -44,13 +46,15 @@ export async function initWhatsAppWebClient(): Promise<void> {
     }
     
     // Verificar se já existe uma integração WhatsApp Web configurada e ativa
-    const integration = await storage.getIntegrationByType('whatsapp_web');
+    const integration = await storage.getIntegrationByType(organizationId, 'whatsapp_web');
     
     if (!integration || !integration.enabled) {
       log('Integração WhatsApp Web não configurada ou não ativa', 'whatsapp-web');
       return;
     }
     
+    clientOrganizationId = organizationId;
+    
     // Configurar cliente com opções básicas
     client = new WAWebJS.default.Client({
       puppeteer: {
@@ -134,6 +138,11 @@ export function getWhatsAppWebStatus(): { ready: boolean; authenticated: boolean
   };
 }
 
+// Obter a organização dona da sessão atual
+export function getWhatsAppWebOrganizationId(): number | null {
+  return clientOrganizationId;
+}
+
 // Obter o último QR Code gerado
 export function getLastQRCode(): string {
   return lastQRCode;
@@ -148,6 +157,7 @@ export async function disconnectWhatsAppWeb(): Promise<boolean> {
     client = null;
     isClientReady = false;
     lastQRCode = '';
+    clientOrganizationId = null;
     return true;
   } catch (error) {
     log(`Erro ao desconectar cliente WhatsApp Web: ${error}`, 'whatsapp-web');
@@ -156,7 +166,7 @@ export async function disconnectWhatsAppWeb(): Promise<boolean> {
 }
 
 // Reiniciar o cliente
-export async function restartWhatsAppWeb(): Promise<void> {
+export async function restartWhatsAppWeb(organizationId: number): Promise<void> {
   await disconnectWhatsAppWeb();
-  await initWhatsAppWebClient();
+  await initWhatsAppWebClient(organizationId);
 }
\ No newline at end of file
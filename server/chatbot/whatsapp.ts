@@ -1,15 +1,26 @@
 import { Request, Response } from 'express';
 import { storage } from '../storage';
-import crypto from 'crypto';
+import { resolveOrganizationId } from '../middleware/tenant';
+import { verifyPassword } from '../auth-utils';
+import { isTwoFactorEnabled, isTwoFactorRequired, verifyTwoFactorCode } from '../two-factor';
+import {
+  checkLoginAttempt,
+  getLoginThrottleMessage,
+  registerLoginFailure,
+  registerLoginSuccess
+} from '../login-throttle';
 
 // Armazenamento temporário de sessões de usuários no chatbot
 interface ChatSession {
   userId?: number;
+  organizationId?: number;
   authenticated: boolean;
   username?: string;
   pendingAuth: boolean;
   lastActivity: Date;
-  conversationState: 'initial' | 'awaiting_username' | 'awaiting_password' | 'authenticated' | 'viewing_project' | 'viewing_task';
+  conversationState: 'initial' | 'awaiting_username' | 'awaiting_password' | 'awaiting_two_factor' | 'authenticated' | 'viewing_project' | 'viewing_task';
+  // Senha já validada, aguardando o código do autenticador
+  pendingTwoFactor?: { userId: number; organizationId: number };
   currentProjectId?: number;
   currentTaskId?: number;
 }
@@ -48,62 +59,111 @@ function getSession(phoneNumber: string): ChatSession {
   return session;
 }
 
+/**
+ * Encerra as conversas do chatbot autenticadas (ou aguardando o código) como o usuário.
+ * Retorna a quantidade de conversas encerradas.
+ */
+export function endUserChatSessions(userId: number): number {
+  let ended = 0;
+  Array.from(chatSessions.entries()).forEach(([phoneNumber, session]) => {
+    if (session.userId === userId || session.pendingTwoFactor?.userId === userId) {
+      chatSessions.delete(phoneNumber);
+      ended += 1;
+    }
+  });
+  return ended;
+}
+
 // Processa a mensagem do usuário e retorna uma resposta apropriada
-async function processMessage(phoneNumber: string, message: string): Promise<string> {
+export async function processMessage(phoneNumber: string, message: string): Promise<string> {
   const session = getSession(phoneNumber);
-  message = message.trim().toLowerCase();
+  // Usuário e senha diferenciam maiúsculas; os comandos não
+  const text = message.trim();
+  message = text.toLowerCase();
 
   // Se o usuário não está autenticado, inicia o fluxo de autenticação
   if (!session.authenticated) {
-    return await handleAuthFlow(session, message);
+    return await handleAuthFlow(session, phoneNumber, message, text);
   }
 
   // Usuário está autenticado, processar comandos
   return await handleAuthenticatedCommands(session, message);
 }
 
+// Mensagem após o login, com os comandos disponíveis
+function getWelcomeMessage(name: string) {
+  return `Olá, ${name}! Você está logado no LaunchRocket. Você pode usar os seguintes comandos:\n\n- *projetos*: Listar seus projetos\n- *tarefas*: Listar suas tarefas\n- *pendente*: Ver tarefas pendentes\n- *relatorio X*: Gerar relatório do projeto X\n- *status*: Ver seu status atual\n- *ajuda*: Ver lista de comandos`;
+}
+
+// Origem exibida no alerta de bloqueio de login enviado ao usuário
+function getLoginSource(phoneNumber: string) {
+  return `chatbot do WhatsApp, telefone terminado em ${phoneNumber.replace(/\D/g, '').slice(-4)}`;
+}
+
 // Gerencia o fluxo de autenticação
-async function handleAuthFlow(session: ChatSession, message: string): Promise<string> {
+async function handleAuthFlow(session: ChatSession, phoneNumber: string, message: string, text: string): Promise<string> {
   if (session.conversationState === 'initial' || message === 'login') {
+    delete session.pendingTwoFactor;
     session.conversationState = 'awaiting_username';
     return 'Bem-vindo ao LaunchRocket! Para acessar informações sobre seus projetos, por favor faça login.\n\nDigite seu nome de usuário:';
   } 
   
   if (session.conversationState === 'awaiting_username') {
-    session.username = message;
+    session.username = text;
     session.conversationState = 'awaiting_password';
     return 'Digite sua senha:';
   }
   
   if (session.conversationState === 'awaiting_password') {
     const username = session.username!;
-    const password = message;
+    const password = text;
     
     // Verificar autenticação com o sistema
     try {
+      // Tentativas repetidas são atrasadas e, no limite, bloqueadas por conta e por telefone
+      const attempt = { username, phone: phoneNumber };
+      const throttle = await checkLoginAttempt(attempt);
+      if (!throttle.allowed) {
+        session.conversationState = 'initial';
+        return `${getLoginThrottleMessage(throttle)} Depois, digite "login" para tentar novamente.`;
+      }
+      
       const user = await storage.getUserByUsername(username);
       
-      if (!user) {
+      if (!user || !(await verifyPassword(password, user.password))) {
+        await registerLoginFailure(attempt, { source: getLoginSource(phoneNumber), baseUrl: process.env.APP_URL });
         session.conversationState = 'awaiting_username';
-        return 'Usuário não encontrado. Por favor, digite seu nome de usuário novamente:';
+        return 'Usuário ou senha incorretos. Por favor, digite seu nome de usuário novamente:';
       }
       
-      // Normalmente você teria uma função para verificar a senha
-      // Isso é apenas uma simulação básica
-      const passwordHash = crypto.createHash('sha256').update(password).digest('hex');
+      const organizationId = await resolveOrganizationId(user.id);
+      if (!organizationId) {
+        session.conversationState = 'initial';
+        return 'Sua conta não está vinculada a nenhuma organização. Fale com o administrador.';
+      }
       
-      // Simulação da verificação - na implementação real, isso viria de um middleware de autenticação
-      if (passwordHash !== user.password) {
-        session.conversationState = 'awaiting_password';
-        return 'Senha incorreta. Por favor, tente novamente:';
+      // Com a verificação em duas etapas ativa, o login só é concluído após o código
+      if (isTwoFactorEnabled(await storage.getUserTwoFactor(user.id))) {
+        session.pendingTwoFactor = { userId: user.id, organizationId };
+        session.conversationState = 'awaiting_two_factor';
+        return 'Digite o código do seu aplicativo autenticador (ou um código de recuperação):';
       }
       
+      // Sem o segundo fator ativo, a exigência da organização impede o acesso pelo chat
+      if (await isTwoFactorRequired(organizationId)) {
+        session.conversationState = 'initial';
+        return 'Sua organização exige a verificação em duas etapas. Ative-a no LaunchRocket pelo navegador e depois digite "login" para entrar.';
+      }
+      
+      await registerLoginSuccess(attempt);
+      
       // Autenticação bem-sucedida
       session.authenticated = true;
       session.userId = user.id;
+      session.organizationId = organizationId;
       session.conversationState = 'authenticated';
       
-      return `Olá, ${user.name}! Você está logado no LaunchRocket. Você pode usar os seguintes comandos:\n\n- *projetos*: Listar seus projetos\n- *tarefas*: Listar suas tarefas\n- *pendente*: Ver tarefas pendentes\n- *relatorio X*: Gerar relatório do projeto X\n- *status*: Ver seu status atual\n- *ajuda*: Ver lista de comandos`;
+      return getWelcomeMessage(user.name);
     } catch (error) {
       console.error('Erro na autenticação:', error);
       session.conversationState = 'initial';
@@ -111,6 +171,48 @@ async function handleAuthFlow(session: ChatSession, message: string): Promise<st
     }
   }
   
+  if (session.conversationState === 'awaiting_two_factor' && session.pendingTwoFactor) {
+    const { userId, organizationId } = session.pendingTwoFactor;
+    
+    try {
+      const user = await storage.getUser(userId);
+      if (!user) {
+        delete session.pendingTwoFactor;
+        session.conversationState = 'initial';
+        return 'Digite "login" para iniciar o processo de autenticação.';
+      }
+      
+      // Códigos errados contam no mesmo bloqueio da senha
+      const attempt = { username: user.username, phone: phoneNumber };
+      const throttle = await checkLoginAttempt(attempt);
+      if (!throttle.allowed) {
+        delete session.pendingTwoFactor;
+        session.conversationState = 'initial';
+        return `${getLoginThrottleMessage(throttle)} Depois, digite "login" para tentar novamente.`;
+      }
+      
+      if (!(await verifyTwoFactorCode(userId, text))) {
+        await registerLoginFailure(attempt, { source: getLoginSource(phoneNumber), baseUrl: process.env.APP_URL });
+        return 'Código de verificação inválido. Digite o código novamente:';
+      }
+      
+      await registerLoginSuccess(attempt);
+      
+      delete session.pendingTwoFactor;
+      session.authenticated = true;
+      session.userId = userId;
+      session.organizationId = organizationId;
+      session.conversationState = 'authenticated';
+      
+      return getWelcomeMessage(user.name);
+    } catch (error) {
+      console.error('Erro na verificação em duas etapas:', error);
+      delete session.pendingTwoFactor;
+      session.conversationState = 'initial';
+      return 'Ocorreu um erro durante a autenticação. Por favor, tente novamente digitando "login".';
+    }
+  }
+  
   return 'Digite "login" para iniciar o processo de autenticação.';
 }
 
@@ -119,6 +221,7 @@ async function handleAuthenticatedCommands(session: ChatSession, message: string
   if (message === 'logout') {
     session.authenticated = false;
     session.userId = undefined;
+    session.organizationId = undefined;
     session.conversationState = 'initial';
     return 'Você saiu da sua conta. Digite "login" para entrar novamente.';
   }
@@ -129,7 +232,7 @@ async function handleAuthenticatedCommands(session: ChatSession, message: string
   
   if (message === 'projetos') {
     try {
-      const projects = await storage.getProjectsByUser(session.userId!);
+      const projects = await storage.getProjectsByUser(session.organizationId!, session.userId!);
       
       if (!projects || projects.length === 0) {
         return 'Você não tem projetos atribuídos. Para ver todos os projetos, peça ao administrador.';
@@ -151,7 +254,7 @@ async function handleAuthenticatedCommands(session: ChatSession, message: string
   
   if (message === 'tarefas') {
     try {
-      const tasks = await storage.getTasksByUser(session.userId!);
+      const tasks = await storage.getTasksByUser(session.organizationId!, session.userId!);
       
       if (!tasks || tasks.length === 0) {
         return 'Você não tem tarefas atribuídas.';
@@ -173,7 +276,7 @@ async function handleAuthenticatedCommands(session: ChatSession, message: string
   
   if (message === 'pendente') {
     try {
-      const tasks = await storage.getTasksByUser(session.userId!);
+      const tasks = await storage.getTasksByUser(session.organizationId!, session.userId!);
       
       const pendingTasks = tasks.filter(task => 
         task.status === 'todo' || task.status === 'in_progress' || task.status === 'review'
@@ -202,7 +305,7 @@ async function handleAuthenticatedCommands(session: ChatSession, message: string
     }
     
     try {
-      const projects = await storage.getProjectsByUser(session.userId!);
+      const projects = await storage.getProjectsByUser(session.organizationId!, session.userId!);
       
       if (!projects || projectIndex >= projects.length) {
         return 'Projeto não encontrado. Por favor, digite "projetos" para ver a lista numerada.';
@@ -213,10 +316,10 @@ async function handleAuthenticatedCommands(session: ChatSession, message: string
       session.conversationState = 'viewing_project';
       
       // Buscar membros do projeto
-      const members = await storage.getProjectMembers(project.id);
+      const members = await storage.getProjectMembers(session.organizationId!, project.id);
       
       // Buscar tarefas do projeto
-      const tasks = await storage.getTasksByProject(project.id);
+      const tasks = await storage.getTasksByProject(session.organizationId!, project.id);
       
       // Preparar contador de status de tarefas
       const taskStatusCounts = {
@@ -263,7 +366,7 @@ async function handleAuthenticatedCommands(session: ChatSession, message: string
     }
     
     try {
-      const tasks = await storage.getTasksByUser(session.userId!);
+      const tasks = await storage.getTasksByUser(session.organizationId!, session.userId!);
       
       if (!tasks || taskIndex >= tasks.length) {
         return 'Tarefa não encontrada. Por favor, digite "tarefas" para ver a lista numerada.';
@@ -274,10 +377,10 @@ async function handleAuthenticatedCommands(session: ChatSession, message: string
       session.conversationState = 'viewing_task';
       
       // Buscar o projeto da tarefa
-      const project = await storage.getProject(task.projectId);
+      const project = await storage.getProject(session.organizationId!, task.projectId);
       
       // Buscar itens da checklist
-      const checklistItems = await storage.getChecklistItems(task.id);
+      const checklistItems = await storage.getChecklistItems(session.organizationId!, task.id);
       
       let response = `*Detalhes da Tarefa: ${task.name}*\n\n`;
       response += `*Projeto:* ${project ? project.name : 'Desconhecido'}\n`;
@@ -309,7 +412,7 @@ async function handleAuthenticatedCommands(session: ChatSession, message: string
     }
     
     try {
-      const projects = await storage.getProjectsByUser(session.userId!);
+      const projects = await storage.getProjectsByUser(session.organizationId!, session.userId!);
       
       if (!projects || projectIndex >= projects.length) {
         return 'Projeto não encontrado. Por favor, digite "projetos" para ver a lista numerada.';
@@ -318,13 +421,13 @@ async function handleAuthenticatedCommands(session: ChatSession, message: string
       const project = projects[projectIndex];
       
       // Buscar tarefas do projeto
-      const tasks = await storage.getTasksByProject(project.id);
+      const tasks = await storage.getTasksByProject(session.organizationId!, project.id);
       
       // Buscar membros do projeto
-      const members = await storage.getProjectMembers(project.id);
+      const members = await storage.getProjectMembers(session.organizationId!, project.id);
       
       // Buscar atividades recentes
-      const activities = await storage.getActivitiesByProject(project.id, 5);
+      const activities = await storage.getActivitiesByProject(session.organizationId!, project.id, 5);
       
       let response = `*Relatório do Projeto: ${project.name}*\n\n`;
       response += `*Status:* ${getProjectStatusText(project.status)}\n`;
@@ -385,8 +488,8 @@ async function handleAuthenticatedCommands(session: ChatSession, message: string
         return 'Erro ao recuperar informações do usuário.';
       }
       
-      const projects = await storage.getProjectsByUser(session.userId!);
-      const tasks = await storage.getTasksByUser(session.userId!);
+      const projects = await storage.getProjectsByUser(session.organizationId!, session.userId!);
+      const tasks = await storage.getTasksByUser(session.organizationId!, session.userId!);
       
       const pendingTasks = tasks.filter(task => 
         task.status === 'todo' || task.status === 'in_progress' || task.status === 'review'
@@ -427,7 +530,7 @@ async function handleAuthenticatedCommands(session: ChatSession, message: string
   
   if (session.conversationState === 'viewing_project' && message === 'tarefas projeto') {
     try {
-      const tasks = await storage.getTasksByProject(session.currentProjectId!);
+      const tasks = await storage.getTasksByProject(session.organizationId!, session.currentProjectId!);
       
       if (!tasks || tasks.length === 0) {
         return 'Este projeto não tem tarefas cadastradas.';
@@ -0,0 +1,49 @@
+/**
+ * Controle de concorrência otimista das atualizações.
+ * Registros versionados (projetos, fases, tarefas, categorias de orçamento e despesas) têm `version`,
+ * enviado no ETag. Uma atualização com If-Match só é aplicada se a versão ainda for a mesma;
+ * caso contrário a resposta é 409 com a cópia atual do servidor, para o cliente resolver o conflito.
+ * Sem If-Match (ou com "*"), a atualização é aplicada sobre qualquer versão.
+ */
+import { Request, Response } from 'express';
+
+export interface Versioned {
+  version: number;
+}
+
+export function setEtag(res: Response, record: Versioned) {
+  res.setHeader('ETag', `"${record.version}"`);
+}
+
+// Versão do If-Match ('"3"' ou 'W/"3"'); undefined sem o cabeçalho ou com "*", null se inválido
+function parseIfMatch(req: Request): number | undefined | null {
+  const header = req.get('If-Match')?.trim();
+  if (!header || header === '*') return undefined;
+  const match = header.match(/^(?:W\/)?"(\d+)"$/);
+  return match ? parseInt(match[1]) : null;
+}
+
+export function sendVersionConflict(res: Response, current: Versioned) {
+  setEtag(res, current);
+  res.status(409).json({
+    message: "Este registro foi alterado por outra pessoa. Revise a versão atual antes de salvar.",
+    current
+  });
+}
+
+/**
+ * Confere o If-Match com a versão atual do registro.
+ * Retorna a versão esperada (para repassar ao storage) ou false depois de responder 400 ou 409.
+ */
+export function checkIfMatch(req: Request, res: Response, current: Versioned): number | undefined | false {
+  const expectedVersion = parseIfMatch(req);
+  if (expectedVersion === null) {
+    res.status(400).json({ message: "Cabeçalho If-Match inválido" });
+    return false;
+  }
+  if (expectedVersion !== undefined && expectedVersion !== current.version) {
+    sendVersionConflict(res, current);
+    return false;
+  }
+  return expectedVersion;
+}
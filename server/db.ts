@@ -1,15 +1,96 @@
 import { Pool, neonConfig } from '@neondatabase/serverless';
 import { drizzle } from 'drizzle-orm/neon-serverless';
+import { migrate } from 'drizzle-orm/neon-serverless/migrator';
+import { readMigrationFiles } from 'drizzle-orm/migrator';
+import { sql } from 'drizzle-orm';
 import ws from "ws";
+import path, { dirname } from "path";
+import { readFile } from "fs/promises";
+import { fileURLToPath } from "url";
 import * as schema from "@shared/schema";
 
 neonConfig.webSocketConstructor = ws;
 
-if (!process.env.DATABASE_URL) {
-  throw new Error(
-    "DATABASE_URL must be set. Did you forget to provision a database?",
+// A conexão só é aberta na primeira consulta; com STORAGE_DRIVER=memory o banco não é usado
+export const pool = new Pool({ connectionString: process.env.DATABASE_URL });
+export const db = drizzle({ client: pool, schema });
+
+// Migrações geradas com "npm run db:generate" a partir de shared/schema.ts
+const MIGRATIONS_FOLDER = path.resolve(dirname(fileURLToPath(import.meta.url)), "..", "migrations");
+
+// Colunas ("tabela.coluna") do snapshot da 0000 que não existem no banco
+async function findMissingInitialColumns(): Promise<string[]> {
+  const snapshot: { tables: Record<string, { name: string; columns: Record<string, unknown> }> } = JSON.parse(
+    await readFile(path.join(MIGRATIONS_FOLDER, "meta", "0000_snapshot.json"), "utf8"),
+  );
+  const { rows } = await db.execute<{ table: string; column: string }>(sql`
+    select table_name as "table", column_name as "column"
+    from information_schema.columns
+    where table_schema = 'public'
+  `);
+  const existing = new Set(rows.map(row => `${row.table}.${row.column}`));
+  return Object.values(snapshot.tables).flatMap(table =>
+    Object.keys(table.columns)
+      .map(column => `${table.name}.${column}`)
+      .filter(name => !existing.has(name)),
   );
 }
 
-export const pool = new Pool({ connectionString: process.env.DATABASE_URL });
-export const db = drizzle({ client: pool, schema });
+/**
+ * Bancos criados antes das migrações, com "npm run db:push", têm o esquema da
+ * migração inicial (0000, anterior às sessões, tokens, SSO e 2FA) mas nenhum
+ * registro em drizzle.__drizzle_migrations. Nesse caso a 0000 é registrada como
+ * aplicada, sem executá-la, e as migrações seguintes criam o que falta.
+ * Bancos vazios ou já migrados não são alterados.
+ */
+async function baselineExistingSchema() {
+  const { rows: [state] } = await db.execute<{ hasSchema: boolean; hasJournal: boolean }>(sql`
+    select to_regclass('public.users') is not null as "hasSchema",
+           to_regclass('drizzle.__drizzle_migrations') is not null as "hasJournal"
+  `);
+  if (!state.hasSchema) return;
+
+  if (state.hasJournal) {
+    const { rows: [applied] } = await db.execute<{ count: number }>(
+      sql`select count(*)::int as count from drizzle.__drizzle_migrations`
+    );
+    if (applied.count > 0) return;
+  }
+
+  // Sem todas as tabelas e colunas da 0000 as migrações seguintes falhariam no meio
+  const missing = await findMissingInitialColumns();
+  if (missing.length > 0) {
+    throw new Error(
+      `O banco não corresponde à migração inicial; ajuste-o antes de migrar. Faltam: ${missing.join(", ")}`,
+    );
+  }
+
+  const [initial] = readMigrationFiles({ migrationsFolder: MIGRATIONS_FOLDER });
+  // Mesma tabela que o migrator do drizzle cria
+  await db.execute(sql`create schema if not exists drizzle`);
+  await db.execute(sql`
+    create table if not exists drizzle.__drizzle_migrations (
+      id serial primary key,
+      hash text not null,
+      created_at bigint
+    )
+  `);
+  await db.execute(sql`
+    insert into drizzle.__drizzle_migrations (hash, created_at)
+    values (${initial.hash}, ${initial.folderMillis})
+  `);
+  console.log("Banco criado com db:push: migração inicial registrada como aplicada");
+}
+
+/**
+ * Aplica as migrações pendentes (as já aplicadas ficam em drizzle.__drizzle_migrations).
+ */
+export async function runMigrations() {
+  if (!process.env.DATABASE_URL) {
+    throw new Error(
+      "DATABASE_URL must be set. Did you forget to provision a database?",
+    );
+  }
+  await baselineExistingSchema();
+  await migrate(db, { migrationsFolder: MIGRATIONS_FOLDER });
+}
@@ -0,0 +1,72 @@
+/**
+ * Dependências entre tarefas (shared/dependencies.ts): validação dos vínculos, detecção
+ * de ciclos e as dependências que ainda impedem uma mudança de status.
+ */
+import { z } from 'zod';
+import type { Task, TaskDependency } from '@shared/schema';
+import {
+  DEPENDENCY_TYPES,
+  isDependencyBlocking,
+  type DependencyLink,
+  type DependencyType,
+  type TaskDependencies,
+} from '@shared/dependencies';
+import { storage } from './storage';
+
+export const createDependencySchema = z.object({
+  blockerTaskId: z.number().int().positive(), // Tarefa de que a tarefa do endereço passa a depender
+  type: z.enum(DEPENDENCY_TYPES).default('finish_to_start'),
+});
+
+/**
+ * Se o vínculo bloqueadora → bloqueada fecharia um ciclo: a bloqueadora já depende,
+ * direta ou indiretamente, da tarefa bloqueada. O tipo não importa, qualquer ciclo trava as tarefas.
+ */
+export function createsCycle(links: TaskDependency[], blockerTaskId: number, blockedTaskId: number): boolean {
+  const blockedBy = new Map<number, number[]>();
+  links.forEach(link => {
+    blockedBy.set(link.blockedTaskId, [...(blockedBy.get(link.blockedTaskId) ?? []), link.blockerTaskId]);
+  });
+
+  const visited = new Set<number>();
+  const pending = [blockerTaskId];
+  while (pending.length > 0) {
+    const taskId = pending.pop()!;
+    if (taskId === blockedTaskId) return true;
+    if (visited.has(taskId)) continue;
+    visited.add(taskId);
+    pending.push(...(blockedBy.get(taskId) ?? []));
+  }
+  return false;
+}
+
+export function toLink(dependency: TaskDependency, task: Task): DependencyLink {
+  return {
+    id: dependency.id,
+    type: dependency.type as DependencyType,
+    task: { id: task.id, name: task.name, status: task.status, phaseId: task.phaseId },
+  };
+}
+
+// Bloqueadoras e bloqueadas da tarefa, sem as tarefas que estão na lixeira
+export async function getDependencyLinks(organizationId: number, task: Task): Promise<TaskDependencies> {
+  const [dependencies, projectTasks] = await Promise.all([
+    storage.getTaskDependencies(organizationId, task.id),
+    storage.getTasksByProject(organizationId, task.projectId),
+  ]);
+  const tasksById = new Map(projectTasks.map(projectTask => [projectTask.id, projectTask]));
+
+  const result: TaskDependencies = { blockers: [], blocking: [] };
+  dependencies.forEach(dependency => {
+    const isBlocked = dependency.blockedTaskId === task.id;
+    const other = tasksById.get(isBlocked ? dependency.blockerTaskId : dependency.blockedTaskId);
+    if (other) (isBlocked ? result.blockers : result.blocking).push(toLink(dependency, other));
+  });
+  return result;
+}
+
+// Dependências que impedem a tarefa de passar para o status
+export async function findOpenBlockers(organizationId: number, task: Task, nextStatus: Task['status']): Promise<DependencyLink[]> {
+  const { blockers } = await getDependencyLinks(organizationId, task);
+  return blockers.filter(link => isDependencyBlocking(link.type, link.task.status, nextStatus));
+}
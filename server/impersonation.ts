@@ -0,0 +1,82 @@
+/**
+ * Acesso de um Super Admin como outro usuário ("entrar como"), usado pelo suporte.
+ * A sessão passa a ser do usuário acessado e guarda a conta original em `impersonator`;
+ * o início e o fim do acesso ficam registrados na auditoria.
+ */
+import { Request } from 'express';
+import { storage } from './storage';
+import { recordAuditLog } from './audit';
+import { resolveOrganizationId } from './middleware/tenant';
+import { User } from '@shared/schema';
+
+export interface ImpersonationSession {
+  userId: number; // Super Admin que iniciou o acesso
+  organizationId?: number; // Organização ativa do Super Admin, restaurada ao final
+  startedAt: number;
+}
+
+export type ImpersonationEndReason = 'manual' | 'logout';
+
+/**
+ * Inicia o acesso como `target` na sessão atual.
+ * Retorna a organização ativa do usuário acessado, ou undefined se ele não pertencer a nenhuma.
+ */
+export async function startImpersonation(req: Request, admin: User, target: User): Promise<number | undefined> {
+  const organizationId = await resolveOrganizationId(target.id);
+  if (!organizationId) return undefined;
+
+  await recordAuditLog(req, {
+    organizationId,
+    actorId: admin.id,
+    action: 'impersonation.start',
+    targetType: 'user',
+    targetId: target.id,
+    targetLabel: target.username
+  });
+
+  req.session.impersonator = {
+    userId: admin.id,
+    organizationId: req.session.organizationId,
+    startedAt: Date.now()
+  };
+  req.session.userId = target.id;
+  req.session.organizationId = organizationId;
+  return organizationId;
+}
+
+/**
+ * Encerra o acesso e devolve a sessão ao Super Admin.
+ * Retorna a conta restaurada, ou undefined se ela não existir mais (a sessão deve ser encerrada).
+ */
+export async function endImpersonation(req: Request, reason: ImpersonationEndReason): Promise<User | undefined> {
+  const impersonator = req.session.impersonator;
+  if (!impersonator) return undefined;
+
+  await recordAuditLog(req, {
+    organizationId: req.session.organizationId ?? null,
+    actorId: impersonator.userId,
+    action: 'impersonation.end',
+    targetType: 'user',
+    targetId: req.session.userId ?? null,
+    details: { reason, durationSeconds: Math.round((Date.now() - impersonator.startedAt) / 1000) }
+  });
+
+  delete req.session.impersonator;
+  const admin = await storage.getUser(impersonator.userId);
+  if (!admin) return undefined;
+
+  req.session.userId = admin.id;
+  req.session.organizationId = impersonator.organizationId;
+  return admin;
+}
+
+/**
+ * Dados do Super Admin exibidos no aviso de acesso como outro usuário.
+ */
+export async function getImpersonator(req: Request): Promise<{ id: number; name: string; username: string } | null> {
+  const impersonator = req.session.impersonator;
+  if (!impersonator) return null;
+
+  const admin = await storage.getUser(impersonator.userId);
+  return admin ? { id: admin.id, name: admin.name, username: admin.username } : null;
+}
@@ -0,0 +1,111 @@
+/**
+ * Ciclo de vida dos convites de organização.
+ * O convite é um registro pendente em organizationMembers; o token enviado
+ * por email é assinado e apenas seu hash fica armazenado.
+ */
+import { storage } from './storage';
+import { generateSignedToken, hashToken, isTokenSignatureValid } from './auth-utils';
+import { sendMail } from './mail/transport';
+import { invitationEmail } from './mail/templates';
+import { OrganizationMember, User } from '@shared/schema';
+
+// Convites expiram em 7 dias
+export const INVITE_TTL_MS = 7 * 24 * 60 * 60 * 1000;
+
+// O convite de owner da organização recém-criada vale apenas para o cadastro seguinte
+export const OWNER_INVITE_TTL_MS = 60 * 60 * 1000;
+
+/**
+ * Gera um novo token para o convite (invalidando o anterior) e envia o email.
+ */
+export async function issueInvitation(
+  invite: OrganizationMember,
+  inviter: User,
+  baseUrl: string
+): Promise<OrganizationMember> {
+  const organization = await storage.getOrganization(invite.organizationId);
+  if (!organization) {
+    throw new Error('Organization not found');
+  }
+  
+  const token = generateSignedToken();
+  const expiresAt = new Date(Date.now() + INVITE_TTL_MS);
+  
+  const updated = await storage.updateOrganizationMember(invite.organizationId, invite.id, {
+    inviteToken: hashToken(token),
+    inviteExpiresAt: expiresAt,
+    inviteStatus: 'pending',
+    invitedBy: inviter.id
+  });
+  
+  await sendMail(invitationEmail({
+    to: invite.inviteEmail!,
+    organizationName: organization.name,
+    inviterName: inviter.name,
+    role: invite.role,
+    acceptUrl: `${baseUrl}/invite/${encodeURIComponent(token)}`,
+    expiresAt
+  }));
+  
+  return updated!;
+}
+
+/**
+ * Cria o convite de owner de uma organização que acabou de ser criada. O token é
+ * devolvido a quem criou a organização e consumido pelo cadastro do owner (POST /api/users).
+ */
+export async function createOwnerInvitation(organizationId: number): Promise<string> {
+  const token = generateSignedToken();
+  await storage.addOrganizationMember({
+    organizationId,
+    userId: null,
+    role: 'owner',
+    inviteStatus: 'pending',
+    inviteToken: hashToken(token),
+    inviteExpiresAt: new Date(Date.now() + OWNER_INVITE_TTL_MS)
+  });
+  return token;
+}
+
+// Convite pendente e dentro do prazo a partir do token recebido
+async function findPendingInvite(token: string): Promise<OrganizationMember | undefined> {
+  if (!isTokenSignatureValid(token)) {
+    return undefined;
+  }
+  
+  const invite = await storage.getOrganizationMemberByInviteToken(hashToken(token));
+  if (!invite || invite.inviteStatus !== 'pending') {
+    return undefined;
+  }
+  
+  if (!invite.inviteExpiresAt || invite.inviteExpiresAt.getTime() < Date.now()) {
+    return undefined;
+  }
+  
+  return invite;
+}
+
+/**
+ * Localiza um convite por email pendente e válido a partir do token recebido.
+ */
+export async function findPendingInvitation(token: string): Promise<OrganizationMember | undefined> {
+  const invite = await findPendingInvite(token);
+  return invite?.inviteEmail ? invite : undefined;
+}
+
+/**
+ * Localiza o convite de owner de uma organização recém-criada (sem email).
+ */
+export async function findOwnerInvitation(token: string): Promise<OrganizationMember | undefined> {
+  const invite = await findPendingInvite(token);
+  return invite && !invite.inviteEmail && invite.role === 'owner' ? invite : undefined;
+}
+
+// Remove dados de token antes de devolver o convite ao cliente
+export function toPublicInvitation(invite: OrganizationMember) {
+  const { inviteToken: _, ...rest } = invite;
+  return {
+    ...rest,
+    expired: !!invite.inviteExpiresAt && invite.inviteExpiresAt.getTime() < Date.now()
+  };
+}
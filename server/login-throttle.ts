@@ -0,0 +1,194 @@
+/**
+ * Proteção contra tentativas de login repetidas (site e chatbot do WhatsApp).
+ * As falhas são contadas por conta, por IP e por telefone. Após algumas falhas,
+ * cada nova tentativa precisa aguardar um intervalo crescente; no limite, a chave
+ * fica bloqueada por um período que dobra a cada novo bloqueio.
+ */
+import { storage } from './storage';
+import { sendMail } from './mail/transport';
+import { loginLockoutEmail } from './mail/templates';
+import { LoginThrottle } from '@shared/schema';
+
+export type LoginThrottleScope = 'account' | 'ip' | 'phone';
+
+// Falhas consecutivas que bloqueiam cada tipo de chave
+const MAX_FAILURES: Record<LoginThrottleScope, number> = {
+  account: 10,
+  ip: 30,
+  phone: 5,
+};
+
+// Falhas permitidas antes de começar a exigir espera entre tentativas
+const FREE_ATTEMPTS = 3;
+const MAX_DELAY_MS = 60 * 1000;
+const BASE_LOCKOUT_MS = 15 * 60 * 1000;
+const MAX_LOCKOUT_MS = 24 * 60 * 60 * 1000;
+// Falhas mais antigas que isso são esquecidas
+const FAILURE_WINDOW_MS = 60 * 60 * 1000;
+// Bloqueios mais antigos que isso deixam de aumentar a duração do próximo
+const LOCKOUT_MEMORY_MS = 24 * 60 * 60 * 1000;
+
+export interface LoginAttempt {
+  username: string;
+  ip?: string;
+  phone?: string;
+}
+
+export interface LoginThrottleStatus {
+  allowed: boolean;
+  locked: boolean;
+  retryAfterSeconds: number;
+}
+
+function getThrottleKeys(attempt: LoginAttempt) {
+  const keys: { key: string; scope: LoginThrottleScope; identifier: string }[] = [];
+  const username = attempt.username.trim().toLowerCase();
+
+  if (username) keys.push({ key: `account:${username}`, scope: 'account', identifier: username });
+  if (attempt.ip) keys.push({ key: `ip:${attempt.ip}`, scope: 'ip', identifier: attempt.ip });
+  if (attempt.phone) {
+    const phone = attempt.phone.replace(/\D/g, '');
+    keys.push({ key: `phone:${phone}`, scope: 'phone', identifier: phone });
+  }
+  return keys;
+}
+
+function getDelayMs(failures: number): number {
+  if (failures < FREE_ATTEMPTS) return 0;
+  return Math.min(1000 * 2 ** (failures - FREE_ATTEMPTS), MAX_DELAY_MS);
+}
+
+function getLockoutMs(lockouts: number): number {
+  return Math.min(BASE_LOCKOUT_MS * 2 ** Math.max(lockouts - 1, 0), MAX_LOCKOUT_MS);
+}
+
+function isRecent(date: Date | null, windowMs: number, now: number): boolean {
+  return !!date && now - date.getTime() < windowMs;
+}
+
+/**
+ * Verifica se uma nova tentativa pode ser feita agora para a conta, o IP e o telefone.
+ */
+export async function checkLoginAttempt(attempt: LoginAttempt): Promise<LoginThrottleStatus> {
+  const now = Date.now();
+  let waitMs = 0;
+  let locked = false;
+
+  for (const { key } of getThrottleKeys(attempt)) {
+    const record = await storage.getLoginThrottle(key);
+    if (!record) continue;
+
+    if (record.lockedUntil && record.lockedUntil.getTime() > now) {
+      locked = true;
+      waitMs = Math.max(waitMs, record.lockedUntil.getTime() - now);
+    } else if (record.lastFailureAt && isRecent(record.lastFailureAt, FAILURE_WINDOW_MS, now)) {
+      waitMs = Math.max(waitMs, record.lastFailureAt.getTime() + getDelayMs(record.failures) - now);
+    }
+  }
+
+  return {
+    allowed: waitMs <= 0,
+    locked,
+    retryAfterSeconds: Math.max(Math.ceil(waitMs / 1000), 0),
+  };
+}
+
+/**
+ * Mensagem exibida quando a tentativa é recusada pela proteção.
+ */
+export function getLoginThrottleMessage(status: LoginThrottleStatus): string {
+  if (status.locked) {
+    const minutes = Math.ceil(status.retryAfterSeconds / 60);
+    return `Muitas tentativas sem sucesso. O login está bloqueado por ${minutes} minuto${minutes === 1 ? '' : 's'}.`;
+  }
+  return `Aguarde ${status.retryAfterSeconds} segundo${status.retryAfterSeconds === 1 ? '' : 's'} antes de tentar novamente.`;
+}
+
+// Avisa o dono da conta sobre o bloqueio, sugerindo a redefinição de senha
+async function notifyAccountLockout(username: string, lockedUntil: Date, source: string, baseUrl?: string) {
+  const user = await storage.getUserByUsername(username);
+  if (!user) return;
+
+  await sendMail(loginLockoutEmail({
+    to: user.email,
+    name: user.name,
+    lockedUntil,
+    source,
+    resetUrl: baseUrl ? `${baseUrl}/forgot-password` : undefined,
+  }));
+}
+
+/**
+ * Registra uma tentativa malsucedida e aplica o bloqueio quando o limite é atingido.
+ * `source` descreve a origem da tentativa no aviso enviado ao dono da conta.
+ */
+export async function registerLoginFailure(
+  attempt: LoginAttempt,
+  context: { source: string; baseUrl?: string }
+): Promise<void> {
+  const now = Date.now();
+
+  for (const { key, scope, identifier } of getThrottleKeys(attempt)) {
+    const record = await storage.getLoginThrottle(key);
+    const lastFailureAt = record?.lastFailureAt ?? null;
+
+    let failures = record && isRecent(lastFailureAt, FAILURE_WINDOW_MS, now) ? record.failures + 1 : 1;
+    let lockouts = record && isRecent(lastFailureAt, LOCKOUT_MEMORY_MS, now) ? record.lockouts : 0;
+    let lockedUntil: Date | null = record?.lockedUntil ?? null;
+
+    if (failures >= MAX_FAILURES[scope]) {
+      lockouts += 1;
+      failures = 0;
+      lockedUntil = new Date(now + getLockoutMs(lockouts));
+
+      if (scope === 'account') {
+        notifyAccountLockout(attempt.username.trim(), lockedUntil, context.source, context.baseUrl).catch(error => {
+          console.error("Erro ao enviar aviso de bloqueio de login:", error);
+        });
+      }
+    }
+
+    await storage.saveLoginThrottle({
+      key,
+      scope,
+      identifier,
+      failures,
+      lockouts,
+      lastFailureAt: new Date(now),
+      lockedUntil,
+    });
+  }
+}
+
+/**
+ * Após um login bem-sucedido, zera as falhas da conta e do telefone.
+ * As falhas do IP são mantidas para não permitir que uma conta válida
+ * "limpe" o histórico de tentativas contra outras contas.
+ */
+export async function registerLoginSuccess(attempt: LoginAttempt): Promise<void> {
+  for (const { key, scope } of getThrottleKeys(attempt)) {
+    if (scope === 'ip') continue;
+
+    const record = await storage.getLoginThrottle(key);
+    if (record) {
+      await storage.deleteLoginThrottle(record.id);
+    }
+  }
+}
+
+/**
+ * Chaves com bloqueio ativo ou falhas recentes, para a tela de administração.
+ */
+export async function getActiveLoginThrottles() {
+  const now = Date.now();
+  const records = await storage.getLoginThrottles();
+
+  return records
+    .filter(record =>
+      (record.lockedUntil && record.lockedUntil.getTime() > now) ||
+      (record.failures > 0 && isRecent(record.lastFailureAt, FAILURE_WINDOW_MS, now)))
+    .map((record: LoginThrottle) => ({
+      ...record,
+      locked: !!record.lockedUntil && record.lockedUntil.getTime() > now,
+    }));
+}
@@ -0,0 +1,92 @@
+import { MailMessage } from './transport';
+
+function escapeHtml(value: string): string {
+  return value
+    .replace(/&/g, '&amp;')
+    .replace(/</g, '&lt;')
+    .replace(/>/g, '&gt;')
+    .replace(/"/g, '&quot;');
+}
+
+const orgRoleLabels: Record<string, string> = {
+  owner: 'Proprietário',
+  admin: 'Administrador',
+  member: 'Membro',
+};
+
+export function invitationEmail(params: {
+  to: string;
+  organizationName: string;
+  inviterName: string;
+  role: string;
+  acceptUrl: string;
+  expiresAt: Date;
+}): MailMessage {
+  const role = orgRoleLabels[params.role] || params.role;
+  const expiresAt = params.expiresAt.toLocaleDateString('pt-BR');
+
+  return {
+    to: params.to,
+    subject: `Convite para ${params.organizationName} no LaunchRocket`,
+    text:
+      `${params.inviterName} convidou você para participar de ${params.organizationName} como ${role}.\n\n` +
+      `Para aceitar ou recusar o convite, acesse:\n${params.acceptUrl}\n\n` +
+      `Este convite expira em ${expiresAt}.`,
+    html:
+      `<p><strong>${escapeHtml(params.inviterName)}</strong> convidou você para participar de ` +
+      `<strong>${escapeHtml(params.organizationName)}</strong> como ${role}.</p>` +
+      `<p><a href="${escapeHtml(params.acceptUrl)}">Aceitar ou recusar o convite</a></p>` +
+      `<p>Este convite expira em ${expiresAt}.</p>`,
+  };
+}
+
+export function passwordResetEmail(params: {
+  to: string;
+  name: string;
+  resetUrl: string;
+  expiresInMinutes: number;
+}): MailMessage {
+  return {
+    to: params.to,
+    subject: 'Redefinição de senha do LaunchRocket',
+    text:
+      `Olá, ${params.name}.\n\n` +
+      `Recebemos um pedido para redefinir a sua senha. Para escolher uma nova senha, acesse:\n${params.resetUrl}\n\n` +
+      `O link expira em ${params.expiresInMinutes} minutos e só pode ser usado uma vez. ` +
+      `Se você não fez esse pedido, ignore este email.`,
+    html:
+      `<p>Olá, ${escapeHtml(params.name)}.</p>` +
+      `<p>Recebemos um pedido para redefinir a sua senha.</p>` +
+      `<p><a href="${escapeHtml(params.resetUrl)}">Escolher uma nova senha</a></p>` +
+      `<p>O link expira em ${params.expiresInMinutes} minutos e só pode ser usado uma vez. ` +
+      `Se você não fez esse pedido, ignore este email.</p>`,
+  };
+}
+
+export function loginLockoutEmail(params: {
+  to: string;
+  name: string;
+  lockedUntil: Date;
+  source: string;
+  resetUrl?: string;
+}): MailMessage {
+  const lockedUntil = params.lockedUntil.toLocaleString('pt-BR');
+  const resetText = params.resetUrl ? ` Se não foi você, redefina sua senha em:\n${params.resetUrl}` : '';
+
+  return {
+    to: params.to,
+    subject: 'Acesso à sua conta do LaunchRocket bloqueado temporariamente',
+    text:
+      `Olá, ${params.name}.\n\n` +
+      `Detectamos várias tentativas de login sem sucesso na sua conta (${params.source}). ` +
+      `Por segurança, novos logins ficarão bloqueados até ${lockedUntil}.` +
+      `${resetText}`,
+    html:
+      `<p>Olá, ${escapeHtml(params.name)}.</p>` +
+      `<p>Detectamos várias tentativas de login sem sucesso na sua conta (${escapeHtml(params.source)}). ` +
+      `Por segurança, novos logins ficarão bloqueados até ${lockedUntil}.</p>` +
+      (params.resetUrl
+        ? `<p>Se não foi você, <a href="${escapeHtml(params.resetUrl)}">redefina sua senha</a>.</p>`
+        : ''),
+  };
+}
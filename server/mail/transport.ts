@@ -0,0 +1,122 @@
+/**
+ * Transporte de emails plugável, escolhido por MAIL_TRANSPORT:
+ * - smtp: envio pelo servidor SMTP (SMTP_HOST, SMTP_PORT, SMTP_USER, SMTP_PASS, SMTP_SECURE e MAIL_FROM);
+ *   é o padrão quando SMTP_HOST está definido
+ * - file: grava os emails em disco (MAIL_OUTBOX_DIR)
+ * - console: registra os emails no console (desenvolvimento e testes)
+ * Em produção o console não mostra o conteúdo, pois os emails levam links com tokens.
+ */
+import fs from 'fs';
+import path from 'path';
+import nodemailer, { type Transporter } from 'nodemailer';
+
+export interface MailMessage {
+  to: string;
+  subject: string;
+  text: string;
+  html?: string;
+}
+
+export interface MailTransport {
+  send(message: MailMessage): Promise<void>;
+}
+
+// Registra os emails no console; com redact, apenas o destinatário e o assunto
+export class ConsoleMailTransport implements MailTransport {
+  constructor(private readonly redact = false) {}
+
+  async send(message: MailMessage): Promise<void> {
+    const content = this.redact ? '(conteúdo omitido; configure o envio por SMTP)' : message.text;
+    console.log(`[EMAIL] Para: ${message.to} | Assunto: ${message.subject}\n${content}`);
+  }
+}
+
+export interface SmtpMailOptions {
+  host: string;
+  port: number;
+  secure: boolean;
+  user?: string;
+  pass?: string;
+  from: string;
+}
+
+// Envia pelo servidor SMTP configurado
+export class SmtpMailTransport implements MailTransport {
+  private readonly transporter: Transporter;
+
+  constructor(private readonly options: SmtpMailOptions) {
+    this.transporter = nodemailer.createTransport({
+      host: options.host,
+      port: options.port,
+      secure: options.secure,
+      auth: options.user ? { user: options.user, pass: options.pass } : undefined,
+    });
+  }
+
+  async send(message: MailMessage): Promise<void> {
+    await this.transporter.sendMail({
+      from: this.options.from,
+      to: message.to,
+      subject: message.subject,
+      text: message.text,
+      html: message.html,
+    });
+  }
+}
+
+// Grava cada email como um arquivo JSON (caixa de saída local para testes)
+export class FileMailTransport implements MailTransport {
+  constructor(private readonly directory: string) {}
+
+  async send(message: MailMessage): Promise<void> {
+    await fs.promises.mkdir(this.directory, { recursive: true });
+    const fileName = `${Date.now()}-${Math.random().toString(36).slice(2, 8)}.json`;
+    await fs.promises.writeFile(
+      path.join(this.directory, fileName),
+      JSON.stringify({ ...message, sentAt: new Date().toISOString() }, null, 2)
+    );
+  }
+}
+
+function createSmtpTransport(): SmtpMailTransport {
+  const { SMTP_HOST, SMTP_PORT, SMTP_SECURE, SMTP_USER, SMTP_PASS, MAIL_FROM } = process.env;
+  if (!SMTP_HOST || !MAIL_FROM) {
+    throw new Error('O envio por SMTP exige SMTP_HOST e MAIL_FROM');
+  }
+  const secure = SMTP_SECURE === 'true';
+  return new SmtpMailTransport({
+    host: SMTP_HOST,
+    port: SMTP_PORT ? parseInt(SMTP_PORT) : secure ? 465 : 587,
+    secure,
+    user: SMTP_USER,
+    pass: SMTP_PASS,
+    from: MAIL_FROM,
+  });
+}
+
+export function createDefaultTransport(): MailTransport {
+  const kind = process.env.MAIL_TRANSPORT || (process.env.SMTP_HOST ? 'smtp' : 'console');
+  if (kind === 'smtp') {
+    return createSmtpTransport();
+  }
+  if (kind === 'file') {
+    return new FileMailTransport(process.env.MAIL_OUTBOX_DIR || path.join(process.cwd(), 'outbox'));
+  }
+
+  if (process.env.NODE_ENV === 'production') {
+    console.warn('Nenhum envio de emails configurado (MAIL_TRANSPORT/SMTP_HOST): os emails não serão entregues');
+    return new ConsoleMailTransport(true);
+  }
+  return new ConsoleMailTransport();
+}
+
+let transport: MailTransport = createDefaultTransport();
+
+// Substituir o transporte (ex: outro provedor ou um stub em testes)
+export function setMailTransport(newTransport: MailTransport): void {
+  transport = newTransport;
+}
+
+export async function sendMail(message: MailMessage): Promise<void> {
+  await transport.send(message);
+}
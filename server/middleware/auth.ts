@@ -1,53 +1,182 @@
 import { Request, Response, NextFunction } from 'express';
 import { storage } from '../storage';
-import { User } from '@shared/schema';
+import { ApiToken, Organization, User } from '@shared/schema';
+import { resolveOrganizationId } from './tenant';
+import { isTwoFactorRequired } from '../two-factor';
+import { PendingSsoLogin } from '../sso';
+import { ImpersonationSession } from '../impersonation';
+import { findActiveApiToken, getBearerToken, getRequiredScope, hasApiTokenScope } from '../api-tokens';
+import {
+  getOrganizationRole,
+  getProjectAccess,
+  getProjectRole,
+  hasOrganizationPermission,
+  hasProjectPermission,
+  isPlatformAdmin
+} from '../permissions';
+import { isOrganizationPermission, Permission, ProjectPermission } from '@shared/permissions';
 
 declare module 'express-session' {
   interface SessionData {
     userId: number;
+    organizationId?: number;
+    // Navegador e IP de origem, exibidos na lista de sessões ativas
+    client?: {
+      userAgent?: string;
+      ip?: string;
+    };
+    // Login aguardando o código do segundo fator (senha já validada)
+    pendingTwoFactor?: {
+      userId: number;
+      organizationId?: number;
+      expiresAt: number;
+      attempts: number;
+    };
+    // Login único (OIDC) aguardando o retorno do provedor de identidade
+    pendingSso?: PendingSsoLogin;
+    // Super Admin acessando a conta de outro usuário
+    impersonator?: ImpersonationSession;
   }
 }
 
-export const isAuthenticated = async (req: Request, res: Response, next: NextFunction) => {
-  if (!req.session.userId) {
-    return res.status(401).json({ message: 'Não autenticado' });
+/**
+ * Bloqueia o acesso de quem ainda não ativou a verificação em duas etapas
+ * quando a organização a exige. As rotas /api/auth/* continuam liberadas
+ * para permitir o cadastro do autenticador, a troca de organização e o logout.
+ */
+async function enforceTwoFactorPolicy(req: Request, res: Response, userId: number, organizationId: number): Promise<boolean> {
+  // O acesso do suporte como outro usuário não passa pelo login dele
+  if (req.session?.impersonator || (req.baseUrl + req.path).startsWith('/api/auth/') || !(await isTwoFactorRequired(organizationId))) {
+    return true;
   }
   
-  const user = await storage.getUser(req.session.userId);
-  if (!user) {
-    req.session.destroy(() => {});
-    return res.status(401).json({ message: 'Usuário não encontrado' });
+  const twoFactor = await storage.getUserTwoFactor(userId);
+  if (twoFactor?.enabledAt) {
+    return true;
   }
   
-  req.user = user;
-  res.locals.user = user; // Mantendo res.locals por compatibilidade com código existente
-  next();
-};
+  res.status(403).json({
+    message: 'Sua organização exige a verificação em duas etapas. Ative-a para continuar.',
+    code: 'TWO_FACTOR_SETUP_REQUIRED'
+  });
+  return false;
+}
 
-export const isAdmin = async (req: Request, res: Response, next: NextFunction) => {
-  if (!req.session.userId) {
-    return res.status(401).json({ message: 'Não autenticado' });
+/**
+ * Autentica pelo token de acesso pessoal (Authorization: Bearer).
+ * O token vale apenas para a organização em que foi criado e para os escopos concedidos;
+ * as rotas /api/auth/* (senha, 2FA, tokens) exigem uma sessão, exceto /api/auth/me.
+ */
+async function authenticateApiToken(req: Request, res: Response, rawToken: string): Promise<{ user: User; organizationId: number; apiToken: ApiToken } | undefined> {
+  const apiToken = await findActiveApiToken(rawToken, req.ip);
+  if (!apiToken) {
+    res.status(401).json({ message: 'Token de API inválido, expirado ou revogado' });
+    return undefined;
+  }
+  
+  const path = req.baseUrl + req.path;
+  if (path.startsWith('/api/auth/') && path !== '/api/auth/me') {
+    res.status(403).json({ message: 'Esta operação não pode ser feita com um token de API' });
+    return undefined;
   }
   
-  const user = await storage.getUser(req.session.userId);
+  const requiredScope = getRequiredScope(req.method);
+  if (!hasApiTokenScope(apiToken, requiredScope)) {
+    res.status(403).json({ message: `O token de API não possui o escopo "${requiredScope}"` });
+    return undefined;
+  }
+  
+  const user = await storage.getUser(apiToken.userId);
   if (!user) {
-    req.session.destroy(() => {});
-    return res.status(401).json({ message: 'Usuário não encontrado' });
+    res.status(401).json({ message: 'Usuário não encontrado' });
+    return undefined;
   }
   
-  if (user.role !== 'admin') {
-    return res.status(403).json({ message: 'Permissão negada' });
+  // O usuário precisa continuar sendo membro da organização do token
+  const organizationId = await resolveOrganizationId(user.id, apiToken.organizationId);
+  const tenant: Organization | undefined = res.locals.tenant;
+  if (organizationId !== apiToken.organizationId || (tenant && tenant.id !== organizationId)) {
+    res.status(401).json({ message: 'Token de API inválido para esta organização' });
+    return undefined;
+  }
+  
+  return { user, organizationId, apiToken };
+}
+
+/**
+ * Identifica o usuário da requisição pela sessão ou por um token de acesso pessoal.
+ * Em caso de falha, a resposta de erro já é enviada e o retorno é undefined.
+ */
+async function authenticateRequest(req: Request, res: Response): Promise<{ user: User; organizationId: number } | undefined> {
+  const rawToken = getBearerToken(req.headers.authorization);
+  let user: User | undefined;
+  let organizationId: number | undefined;
+  
+  if (rawToken) {
+    const result = await authenticateApiToken(req, res, rawToken);
+    if (!result) return undefined;
+    
+    ({ user, organizationId } = result);
+    res.locals.apiToken = result.apiToken;
+  } else {
+    if (!req.session.userId) {
+      res.status(401).json({ message: 'Não autenticado' });
+      return undefined;
+    }
+    
+    user = await storage.getUser(req.session.userId);
+    if (!user) {
+      req.session.destroy(() => {});
+      res.status(401).json({ message: 'Usuário não encontrado' });
+      return undefined;
+    }
+    
+    organizationId = await resolveOrganizationId(user.id, req.session.organizationId);
+    if (!organizationId) {
+      res.status(403).json({ message: 'Usuário não pertence a nenhuma organização' });
+      return undefined;
+    }
+  }
+  
+  if (!(await enforceTwoFactorPolicy(req, res, user.id, organizationId))) {
+    return undefined;
   }
   
   req.user = user;
   res.locals.user = user; // Mantendo res.locals por compatibilidade com código existente
+  res.locals.organizationId = organizationId;
+  return { user, organizationId };
+}
+
+/**
+ * Operações administrativas feitas com token exigem o escopo "admin".
+ */
+function hasAdminTokenScope(res: Response): boolean {
+  const apiToken: ApiToken | undefined = res.locals.apiToken;
+  return !apiToken || hasApiTokenScope(apiToken, 'admin');
+}
+
+export const isAuthenticated = async (req: Request, res: Response, next: NextFunction) => {
+  if (await authenticateRequest(req, res)) {
+    next();
+  }
+};
+
+export const isAdmin = async (req: Request, res: Response, next: NextFunction) => {
+  const auth = await authenticateRequest(req, res);
+  if (!auth) return;
+  
+  if (!isPlatformAdmin(auth.user) || !hasAdminTokenScope(res)) {
+    return res.status(403).json({ message: 'Permissão negada' });
+  }
+  
   next();
 };
 
 export const isProjectMember = async (req: Request, res: Response, next: NextFunction) => {
-  if (!req.session.userId) {
-    return res.status(401).json({ message: 'Não autenticado' });
-  }
+  const auth = await authenticateRequest(req, res);
+  if (!auth) return;
+  const { user, organizationId } = auth;
   
   // Verificar para parâmetros projectId ou id (para suportar diferentes rotas)
   const projectIdParam = req.params.projectId || req.params.id;
@@ -57,49 +186,67 @@ export const isProjectMember = async (req: Request, res: Response, next: NextFun
     return res.status(400).json({ message: 'ID de projeto inválido' });
   }
   
-  const user = await storage.getUser(req.session.userId);
-  if (!user) {
-    req.session.destroy(() => {});
-    return res.status(401).json({ message: 'Usuário não encontrado' });
+  // Projetos de outra organização se comportam como inexistentes
+  const project = await storage.getProject(organizationId, projectId);
+  if (!project) {
+    return res.status(404).json({ message: 'Projeto não encontrado' });
   }
   
-  // Admin users can access all projects
-  if (user.role === 'admin') {
-    req.user = user;
-    res.locals.user = user;
-    res.locals.projectRole = 'admin';
-    return next();
-  }
-  
-  // Check if user is the project creator
-  const project = await storage.getProject(projectId);
-  if (project && project.createdBy === user.id) {
-    req.user = user;
-    res.locals.user = user;
-    res.locals.projectRole = 'admin';
-    return next();
-  }
-  
-  // Check if user is a member of the project
-  const members = await storage.getProjectMembers(projectId);
-  const member = members.find(m => m.userId === user.id);
-  
-  if (!member) {
+  const role = await getProjectRole(organizationId, user, projectId);
+  if (!role) {
     return res.status(403).json({ message: 'Você não é membro deste projeto' });
   }
   
-  req.user = user;
-  res.locals.user = user;
-  res.locals.projectRole = member.role;
+  res.locals.projectRole = role;
   next();
 };
 
-export const hasProjectRole = (roles: string[]) => {
-  return (req: Request, res: Response, next: NextFunction) => {
-    const projectRole = res.locals.projectRole;
-    if (!projectRole || !roles.includes(projectRole)) {
+/**
+ * Indica se o usuário da requisição participa do projeto e, quando informada, se o
+ * papel dele no projeto tem a permissão. Para rotas de recursos de projeto (tarefas,
+ * despesas etc.), usado após isAuthenticated; não envia resposta.
+ */
+export async function canAccessProject(res: Response, projectId: number, permission?: ProjectPermission): Promise<boolean> {
+  const access = await getProjectAccess(res.locals.organizationId, res.locals.user, projectId);
+  return !!access && (!permission || access.can(permission));
+}
+
+// Rotas com :id de organização só operam sobre a organização ativa.
+// Deve ser usado após isAuthenticated.
+export const isActiveOrganization = (req: Request, res: Response, next: NextFunction) => {
+  if (parseInt(req.params.id) !== res.locals.organizationId) {
+    return res.status(403).json({ message: 'Permissão negada' });
+  }
+  next();
+};
+
+/**
+ * Exige uma permissão da matriz da organização. Permissões de projeto usam o papel
+ * definido por isProjectMember; permissões de organização, o papel na organização ativa.
+ * Deve ser usado após isAuthenticated ou isProjectMember.
+ */
+export const requirePermission = (permission: Permission) => {
+  return async (req: Request, res: Response, next: NextFunction) => {
+    const organizationId: number = res.locals.organizationId;
+    
+    if (!isOrganizationPermission(permission)) {
+      if (!(await hasProjectPermission(organizationId, res.locals.projectRole, permission))) {
+        return res.status(403).json({ message: 'Permissão insuficiente para esta operação' });
+      }
+      return next();
+    }
+    
+    const role = await getOrganizationRole(organizationId, res.locals.user.id);
+    if (!(await hasOrganizationPermission(organizationId, role, permission))) {
       return res.status(403).json({ message: 'Permissão insuficiente para esta operação' });
     }
+    
+    // Administração da organização feita com token exige o escopo "admin"
+    if (permission !== 'project.create' && !hasAdminTokenScope(res)) {
+      return res.status(403).json({ message: 'O token de API não possui o escopo "admin"' });
+    }
+    
+    res.locals.organizationRole = role;
     next();
   };
-};
\ No newline at end of file
+};
@@ -0,0 +1,182 @@
+import { Request, Response, NextFunction } from "express";
+import { storage } from "../storage";
+import { deleteFile } from "./upload";
+
+export type QuotaResource = "projects" | "users" | "storage";
+
+// Limites usados quando a organização ainda não possui organizationSettings
+// (mesmos valores padrão das colunas em shared/schema.ts)
+const DEFAULT_LIMITS = {
+  maxProjects: 10,
+  maxUsers: 5,
+  maxStorageGb: 5,
+};
+
+const BYTES_PER_GB = 1024 * 1024 * 1024;
+
+// Assinaturas nesses estados não podem criar novos recursos
+const INACTIVE_SUBSCRIPTION_STATUSES = ["canceled", "unpaid"];
+
+export interface QuotaUsage {
+  used: number;
+  limit: number | null; // null = ilimitado
+}
+
+export interface OrganizationUsage {
+  organizationId: number;
+  plan: string;
+  subscriptionStatus: string;
+  projects: QuotaUsage;
+  users: QuotaUsage;
+  storage: QuotaUsage; // em bytes
+}
+
+/**
+ * Erro estruturado devolvido ao cliente para exibir o convite de upgrade.
+ * 402 quando o limite do plano foi atingido, 403 quando a assinatura está inativa.
+ */
+export interface QuotaError {
+  status: 402 | 403;
+  code: "PLAN_LIMIT_REACHED" | "SUBSCRIPTION_INACTIVE";
+  message: string;
+  resource: QuotaResource;
+  plan: string;
+  used: number;
+  limit: number | null;
+  upgradeUrl: string;
+}
+
+const resourceLabels: Record<QuotaResource, string> = {
+  projects: "projetos",
+  users: "usuários",
+  storage: "armazenamento",
+};
+
+// Valores nulos ou não positivos significam "sem limite"
+function normalizeLimit(value: number | null | undefined, fallback: number): number | null {
+  const limit = value === undefined ? fallback : value;
+  return limit === null || limit <= 0 ? null : limit;
+}
+
+/**
+ * Calcula o uso atual da organização em relação aos limites do plano.
+ */
+export async function getOrganizationUsage(organizationId: number): Promise<OrganizationUsage> {
+  const [settings, subscription, projects, members, storageBytes] = await Promise.all([
+    storage.getOrganizationSettings(organizationId),
+    storage.getSubscription(organizationId),
+    storage.getAllProjects(organizationId),
+    storage.getOrganizationMembers(organizationId),
+    storage.getStorageUsage(organizationId),
+  ]);
+
+  // Convites pendentes já reservam uma vaga de usuário
+  const seats = members.filter(m => m.inviteStatus !== "declined").length;
+  const maxStorageGb = normalizeLimit(settings?.maxStorageGb, DEFAULT_LIMITS.maxStorageGb);
+
+  return {
+    organizationId,
+    plan: subscription?.plan || "free",
+    subscriptionStatus: subscription?.status || "active",
+    projects: {
+      used: projects.length,
+      limit: normalizeLimit(settings?.maxProjects, DEFAULT_LIMITS.maxProjects),
+    },
+    users: {
+      used: seats,
+      limit: normalizeLimit(settings?.maxUsers, DEFAULT_LIMITS.maxUsers),
+    },
+    storage: {
+      used: storageBytes,
+      limit: maxStorageGb === null ? null : maxStorageGb * BYTES_PER_GB,
+    },
+  };
+}
+
+/**
+ * Verifica se a organização pode consumir `amount` unidades do recurso.
+ * Retorna o erro estruturado quando a operação deve ser bloqueada.
+ */
+export async function checkQuota(
+  organizationId: number,
+  resource: QuotaResource,
+  amount: number = 1
+): Promise<QuotaError | null> {
+  const usage = await getOrganizationUsage(organizationId);
+  const { used, limit } = usage[resource];
+
+  const base = {
+    resource,
+    plan: usage.plan,
+    used,
+    limit,
+    upgradeUrl: "/checkout",
+  };
+
+  if (INACTIVE_SUBSCRIPTION_STATUSES.includes(usage.subscriptionStatus)) {
+    return {
+      ...base,
+      status: 403,
+      code: "SUBSCRIPTION_INACTIVE",
+      message: "A assinatura da organização está inativa. Regularize o pagamento para continuar.",
+    };
+  }
+
+  if (limit !== null && used + amount > limit) {
+    return {
+      ...base,
+      status: 402,
+      code: "PLAN_LIMIT_REACHED",
+      message: `Limite de ${resourceLabels[resource]} do plano atingido. Faça upgrade do seu plano para continuar.`,
+    };
+  }
+
+  return null;
+}
+
+export function sendQuotaError(res: Response, error: QuotaError) {
+  const { status, ...body } = error;
+  return res.status(status).json(body);
+}
+
+/**
+ * Middleware que bloqueia a criação de um recurso quando o limite do plano foi atingido.
+ * Deve ser usado após isAuthenticated/isProjectMember (depende de res.locals.organizationId).
+ */
+export const enforceQuota = (resource: Exclude<QuotaResource, "storage">) => {
+  return async (req: Request, res: Response, next: NextFunction) => {
+    try {
+      const error = await checkQuota(res.locals.organizationId, resource);
+      if (error) {
+        return sendQuotaError(res, error);
+      }
+      next();
+    } catch (error) {
+      console.error("Erro ao verificar limites do plano:", error);
+      return res.status(500).json({ message: "Erro ao verificar limites do plano" });
+    }
+  };
+};
+
+/**
+ * Middleware de cota de armazenamento. Deve ser usado após o upload (multer):
+ * o arquivo recebido é removido do disco quando ultrapassa o limite do plano.
+ */
+export const enforceStorageQuota = async (req: Request, res: Response, next: NextFunction) => {
+  const file = (req as Request & { file?: { size: number; path: string } }).file;
+  if (!file) {
+    return next();
+  }
+
+  try {
+    const error = await checkQuota(res.locals.organizationId, "storage", file.size);
+    if (error) {
+      await deleteFile(file.path).catch(err => console.error("Erro ao remover arquivo:", err));
+      return sendQuotaError(res, error);
+    }
+    next();
+  } catch (error) {
+    console.error("Erro ao verificar limite de armazenamento:", error);
+    return res.status(500).json({ message: "Erro ao verificar limites do plano" });
+  }
+};
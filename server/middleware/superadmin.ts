@@ -1,10 +1,10 @@
-
 import { Request, Response, NextFunction } from "express";
 import { storage } from "../storage";
 
-// Lista de usuários que possuem acesso ao SuperAdmin (adicione aqui apenas o seu usuário)
-const SUPER_ADMIN_USERS = ["admin"]; // Use o nome de usuário do administrador principal
-
+/**
+ * Restringe a rota aos usuários com acesso Super Admin (users.isSuperAdmin).
+ * Durante o acesso como outro usuário vale a conta acessada, e não a do Super Admin.
+ */
 export const isSuperAdmin = async (req: Request, res: Response, next: NextFunction) => {
   if (!req.session.userId) {
     return res.status(401).json({ message: "Não autenticado" });
@@ -17,13 +17,13 @@ export const isSuperAdmin = async (req: Request, res: Response, next: NextFuncti
       return res.status(403).json({ message: "Usuário não encontrado" });
     }
     
-    // Verificar se o usuário é admin E se está na lista de super admins
-    if (user.role !== "admin" || !SUPER_ADMIN_USERS.includes(user.username)) {
+    if (!user.isSuperAdmin) {
       return res.status(403).json({ 
-        message: "Acesso restrito: apenas o administrador principal tem permissão para acessar esta área" 
+        message: "Acesso restrito: apenas Super Admins têm permissão para acessar esta área" 
       });
     }
     
+    res.locals.user = user;
     next();
   } catch (error) {
     console.error("Erro ao verificar permissões de SuperAdmin:", error);
@@ -0,0 +1,111 @@
+import { Request, Response, NextFunction } from 'express';
+import { storage } from '../storage';
+import { Organization, OrganizationMember } from '@shared/schema';
+
+/**
+ * Lista os vínculos aceitos de um usuário com organizações.
+ */
+export async function getAcceptedMemberships(userId: number): Promise<OrganizationMember[]> {
+  return (await storage.getOrganizationsByUser(userId))
+    .filter(m => !m.inviteStatus || m.inviteStatus === 'accepted');
+}
+
+/**
+ * Resolve a organização ativa (tenant) de um usuário.
+ * A organização escolhida na sessão tem prioridade; depois, a marcada como ativa.
+ */
+export async function resolveOrganizationId(
+  userId: number,
+  preferredOrganizationId?: number
+): Promise<number | undefined> {
+  const memberships = await getAcceptedMemberships(userId);
+  
+  const preferred = preferredOrganizationId
+    ? memberships.find(m => m.organizationId === preferredOrganizationId)
+    : undefined;
+  const active = preferred || memberships.find(m => m.activeOrganization) || memberships[0];
+  return active?.organizationId;
+}
+
+// Domínio base para subdomínios de organizações (ex.: acme.ourhost.com)
+const TENANT_BASE_DOMAIN = process.env.TENANT_BASE_DOMAIN?.toLowerCase();
+
+// Prefixo de caminho que seleciona a organização: /o/<slug>/...
+const TENANT_PATH_PREFIX = /^\/o\/([a-z0-9-]+)(?=\/|\?|$)/;
+
+// Rotas que continuam acessíveis mesmo com uma sessão de outra organização,
+// para permitir um novo login neste endereço
+function isAllowedWithForeignSession(req: Request): boolean {
+  return req.path === '/api/auth/login' ||
+    req.path === '/api/auth/logout' ||
+    req.path === '/api/auth/impersonation/end' ||
+    req.path === '/api/auth/forgot-password' ||
+    req.path.startsWith('/api/auth/reset-password') ||
+    req.path.startsWith('/api/auth/sso/') ||
+    (req.method === 'GET' && req.path === '/api/settings') ||
+    req.path.startsWith('/api/invites/');
+}
+
+/**
+ * Resolve a organização (tenant) pelo prefixo /o/:slug, pelo subdomínio
+ * ou pelo domínio personalizado e a disponibiliza em res.locals.tenant.
+ * O prefixo é removido da URL para que as rotas existentes continuem valendo.
+ */
+export async function resolveTenant(req: Request, res: Response, next: NextFunction) {
+  try {
+    const prefix = req.url.match(TENANT_PATH_PREFIX);
+    let tenant: Organization | undefined;
+
+    if (prefix) {
+      tenant = await storage.getOrganizationBySlug(prefix[1]);
+      if (!tenant || !tenant.active) {
+        return res.status(404).json({ message: "Organização não encontrada" });
+      }
+
+      const rest = req.url.slice(prefix[0].length);
+      req.url = rest.startsWith('/') ? rest : `/${rest}`;
+    } else {
+      const hostname = req.hostname?.toLowerCase();
+
+      if (hostname && TENANT_BASE_DOMAIN && hostname.endsWith(`.${TENANT_BASE_DOMAIN}`)) {
+        const subdomain = hostname.slice(0, -(TENANT_BASE_DOMAIN.length + 1));
+        if (subdomain !== 'www') {
+          tenant = await storage.getOrganizationBySlug(subdomain);
+          if (!tenant || !tenant.active) {
+            return res.status(404).json({ message: "Organização não encontrada" });
+          }
+        }
+      } else if (hostname && hostname !== TENANT_BASE_DOMAIN) {
+        const byDomain = await storage.getOrganizationByDomain(hostname);
+        tenant = byDomain?.active ? byDomain : undefined;
+      }
+    }
+
+    res.locals.tenant = tenant;
+    next();
+  } catch (error) {
+    console.error("Erro ao resolver organização da requisição:", error);
+    return res.status(500).json({ message: "Erro interno ao resolver organização" });
+  }
+}
+
+/**
+ * Rejeita sessões emitidas para outra organização quando a requisição
+ * chega pelo endereço de um tenant. Deve ser registrado após o middleware de sessão.
+ */
+export function enforceTenantSession(req: Request, res: Response, next: NextFunction) {
+  const tenant: Organization | undefined = res.locals.tenant;
+
+  if (!tenant || !req.session.userId || req.session.organizationId === tenant.id) {
+    return next();
+  }
+
+  if (!req.path.startsWith('/api/') || isAllowedWithForeignSession(req)) {
+    return next();
+  }
+
+  return res.status(401).json({
+    message: "Sua sessão pertence a outra organização. Faça login novamente.",
+    code: "TENANT_MISMATCH"
+  });
+}
@@ -81,6 +81,60 @@ export const upload = multer({
   fileFilter: fileFilter
 });
 
+// Logos das organizações ficam em um diretório próprio, servido publicamente
+// (são exibidos em páginas não autenticadas, como o Login)
+export const brandingDir = path.join(uploadsDir, 'branding');
+if (!fs.existsSync(brandingDir)) {
+  fs.mkdirSync(brandingDir, { recursive: true });
+}
+
+// Tipagem mínima dos callbacks do multer usados abaixo
+type LogoFile = { originalname: string; mimetype: string };
+
+const logoStorage = multer.diskStorage({
+  destination: function (req: Request, file: LogoFile, cb: (error: Error | null, destination: string) => void) {
+    cb(null, brandingDir);
+  },
+  filename: function (req: Request, file: LogoFile, cb: (error: Error | null, filename: string) => void) {
+    const extension = path.extname(file.originalname).toLowerCase();
+    cb(null, `logo-${nanoid(12)}${extension}`);
+  }
+});
+
+const logoFileFilter = (req: Request, file: LogoFile, cb: (error: Error | null, accept?: boolean) => void) => {
+  const allowedTypes = ['image/jpeg', 'image/png', 'image/gif', 'image/svg+xml', 'image/webp'];
+  
+  if (allowedTypes.includes(file.mimetype)) {
+    cb(null, true);
+  } else {
+    cb(new Error('O logo deve ser uma imagem'));
+  }
+};
+
+// Upload de logo com limite de 2MB
+export const logoUpload = multer({
+  storage: logoStorage,
+  limits: {
+    fileSize: 2 * 1024 * 1024 // 2MB
+  },
+  fileFilter: logoFileFilter
+});
+
+// Snapshot do armazenamento em memória (importação pela área Super Admin), mantido em memória
+export const snapshotUpload = multer({
+  storage: multer.memoryStorage(),
+  limits: {
+    fileSize: 100 * 1024 * 1024 // 100MB
+  },
+  fileFilter: (req: Request, file: LogoFile, cb: (error: Error | null, accept?: boolean) => void) => {
+    if (file.mimetype === 'application/json' || file.originalname.toLowerCase().endsWith('.json')) {
+      cb(null, true);
+    } else {
+      cb(new Error('O snapshot deve ser um arquivo JSON'));
+    }
+  }
+});
+
 // Helper function to delete a file
 export const deleteFile = (filePath: string): Promise<void> => {
   return new Promise((resolve, reject) => {
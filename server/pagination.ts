@@ -0,0 +1,216 @@
+/**
+ * Paginação por cursor (keyset) das rotas de listagem.
+ * O cursor é opaco para o cliente: guarda o valor do campo de ordenação e o id do último
+ * item da página, de modo que inclusões e exclusões não repetem nem pulam registros.
+ * Valores nulos ficam sempre no fim, em qualquer direção.
+ */
+import { z } from 'zod';
+import { and, or, eq, gt, lt, isNull, sql, type SQL, type AnyColumn } from 'drizzle-orm';
+import { taskStatusEnum, taskPriorityEnum, roleEnum } from '@shared/schema';
+import {
+  DEFAULT_PAGE_LIMIT,
+  MAX_PAGE_LIMIT,
+  TASK_SORT_FIELDS,
+  ACTIVITY_SORT_FIELDS,
+  FILE_SORT_FIELDS,
+  USER_SORT_FIELDS,
+  type Page,
+} from '@shared/pagination';
+import { DATE_RANGES } from '@shared/views';
+
+export type SortDirection = 'asc' | 'desc';
+export type SortValue = Date | string | number | null;
+
+// Posição do último item entregue
+export interface Cursor {
+  value: SortValue;
+  id: number;
+}
+
+export interface ListQuery<TSort extends string = string, TFilter = unknown> {
+  limit: number;
+  sort: TSort;
+  direction: SortDirection;
+  after: Cursor | null;
+  filter: TFilter;
+}
+
+function encodeCursor({ value, id }: Cursor): string {
+  const payload = value instanceof Date ? { d: value.toISOString(), id } : { v: value, id };
+  return Buffer.from(JSON.stringify(payload)).toString('base64url');
+}
+
+function decodeCursor(cursor: string): Cursor | null {
+  try {
+    const payload = JSON.parse(Buffer.from(cursor, 'base64url').toString('utf-8'));
+    if (!payload || typeof payload.id !== 'number') return null;
+    if (typeof payload.d === 'string') {
+      const date = new Date(payload.d);
+      return isNaN(date.getTime()) ? null : { value: date, id: payload.id };
+    }
+    const value = payload.v ?? null;
+    return value === null || typeof value === 'string' || typeof value === 'number' ? { value, id: payload.id } : null;
+  } catch {
+    return null;
+  }
+}
+
+// "todo,review" -> ["todo", "review"]
+export function listOf<T extends [string, ...string[]]>(values: T) {
+  return z.string().transform(value => value.split(',').map(item => item.trim()).filter(Boolean)).pipe(z.array(z.enum(values)).min(1));
+}
+
+/**
+ * Esquema dos parâmetros de uma rota de listagem.
+ */
+function listQuerySchema<TSort extends string, TFilter extends z.ZodRawShape>(options: {
+  sortFields: readonly TSort[];
+  defaultSort: string;
+  filter: TFilter;
+}) {
+  return z.object({
+    cursor: z.string().optional(),
+    limit: z.coerce.number().int().min(1).max(MAX_PAGE_LIMIT).default(DEFAULT_PAGE_LIMIT),
+    sort: z.string().default(options.defaultSort),
+    filter: z.preprocess(value => value ?? {}, z.object(options.filter)),
+  }).transform((query, ctx) => {
+    const direction: SortDirection = query.sort.startsWith('-') ? 'desc' : 'asc';
+    const sort = query.sort.replace(/^-/, '') as TSort;
+    if (!options.sortFields.includes(sort)) {
+      ctx.addIssue({ code: z.ZodIssueCode.custom, path: ['sort'], message: `Ordenação inválida; use ${options.sortFields.join(', ')}` });
+      return z.NEVER;
+    }
+
+    const after = query.cursor ? decodeCursor(query.cursor) : null;
+    if (query.cursor && !after) {
+      ctx.addIssue({ code: z.ZodIssueCode.custom, path: ['cursor'], message: 'Cursor inválido' });
+      return z.NEVER;
+    }
+
+    return { limit: query.limit, sort, direction, after, filter: query.filter };
+  });
+}
+
+const id = z.coerce.number().int().positive();
+const search = z.string().trim().min(1).max(200);
+
+// Lista de ids separados por vírgula (ex: filter[tagIds]=3,7)
+export const idList = z.string().transform(value => value.split(',').map(item => item.trim()).filter(Boolean)).pipe(z.array(id).min(1));
+
+export const taskListQuerySchema = listQuerySchema({
+  sortFields: TASK_SORT_FIELDS,
+  defaultSort: '-createdAt',
+  filter: {
+    projectId: id.optional(),
+    assignedTo: z.union([z.literal('me'), id]).optional(),
+    status: listOf(taskStatusEnum.enumValues).optional(),
+    priority: listOf(taskPriorityEnum.enumValues).optional(),
+    search: search.optional(),
+    due: z.enum(DATE_RANGES).optional(), // Período relativo da entrega (shared/views.ts)
+    tagIds: idList.optional(), // Com alguma das tags
+  },
+});
+
+export const activityListQuerySchema = listQuerySchema({
+  sortFields: ACTIVITY_SORT_FIELDS,
+  defaultSort: '-createdAt',
+  filter: {
+    projectId: id.optional(),
+    userId: id.optional(),
+    taskId: id.optional(),
+  },
+});
+
+export const fileListQuerySchema = listQuerySchema({
+  sortFields: FILE_SORT_FIELDS,
+  defaultSort: '-uploadedAt',
+  filter: {
+    taskId: id.optional(),
+    uploadedBy: id.optional(),
+    search: search.optional(),
+  },
+});
+
+export const userListQuerySchema = listQuerySchema({
+  sortFields: USER_SORT_FIELDS,
+  defaultSort: 'name',
+  filter: {
+    role: listOf(roleEnum.enumValues).optional(),
+    search: search.optional(),
+  },
+});
+
+function compareValues(a: SortValue, b: SortValue): number {
+  const left = a instanceof Date ? a.getTime() : a;
+  const right = b instanceof Date ? b.getTime() : b;
+  if (left === right) return 0;
+  // Nulos por último
+  if (left === null) return 1;
+  if (right === null) return -1;
+  return left < right ? -1 : 1;
+}
+
+function comparePositions(a: Cursor, b: Cursor, direction: SortDirection): number {
+  const byValue = compareValues(a.value, b.value);
+  const sign = direction === 'asc' ? 1 : -1;
+  if (byValue !== 0) return a.value === null || b.value === null ? byValue : byValue * sign;
+  return (a.id - b.id) * sign;
+}
+
+/**
+ * Monta a página a partir de até `limit + 1` registros já ordenados;
+ * o registro excedente indica que há uma próxima página.
+ */
+export function toPage<T extends { id: number }>(rows: T[], query: ListQuery, sortValue: (record: T) => SortValue): Page<T> {
+  const items = rows.slice(0, query.limit);
+  const last = items[items.length - 1];
+  return {
+    items,
+    nextCursor: rows.length > query.limit && last ? encodeCursor({ value: sortValue(last), id: last.id }) : null,
+  };
+}
+
+/**
+ * Ordena e pagina em memória (MemStorage), com a mesma ordem da consulta ao banco.
+ */
+export function paginate<T extends { id: number }>(records: T[], query: ListQuery, sortValue: (record: T) => SortValue): Page<T> {
+  const position = (record: T): Cursor => ({ value: sortValue(record), id: record.id });
+  const sorted = records
+    .filter(record => !query.after || comparePositions(position(record), query.after, query.direction) > 0)
+    .sort((a, b) => comparePositions(position(a), position(b), query.direction));
+  return toPage(sorted.slice(0, query.limit + 1), query, sortValue);
+}
+
+/**
+ * Condição (WHERE) para começar depois do cursor, no banco.
+ */
+export function afterCursor(expression: AnyColumn | SQL, idColumn: AnyColumn, query: ListQuery): SQL | undefined {
+  if (!query.after) return undefined;
+  const { value, id } = query.after;
+  const beyond = query.direction === 'asc' ? gt : lt;
+  // Os operadores aceitam coluna ou SQL, mas não a união; com a coluna, o valor é convertido pelo tipo dela
+  const sortKey = expression as AnyColumn;
+
+  if (value === null) {
+    return and(isNull(sortKey), beyond(idColumn, id));
+  }
+  return or(
+    beyond(sortKey, value),
+    and(eq(sortKey, value), beyond(idColumn, id)),
+    isNull(sortKey),
+  );
+}
+
+/**
+ * Ordenação (ORDER BY) correspondente ao cursor, no banco.
+ */
+export function cursorOrder(expression: AnyColumn | SQL, idColumn: AnyColumn, direction: SortDirection): SQL[] {
+  return direction === 'asc'
+    ? [sql`${expression} asc nulls last`, sql`${idColumn} asc`]
+    : [sql`${expression} desc nulls last`, sql`${idColumn} desc`];
+}
+
+// Escapa os curingas do LIKE em termos de busca
+export function likePattern(term: string): string {
+  return `%${term.replace(/[\\%_]/g, match => `\\${match}`)}%`;
+}
@@ -0,0 +1,87 @@
+/**
+ * Redefinição de senha por email.
+ * O token enviado é assinado, expira em pouco tempo e só pode ser usado uma vez;
+ * apenas seu hash fica armazenado.
+ */
+import { storage } from './storage';
+import { generateSignedToken, hashPassword, hashToken, isTokenSignatureValid } from './auth-utils';
+import { sendMail } from './mail/transport';
+import { passwordResetEmail } from './mail/templates';
+import { destroyUserSessions } from './sessions';
+import { PasswordResetToken, User } from '@shared/schema';
+
+// Links de redefinição expiram em 1 hora
+export const PASSWORD_RESET_TTL_MS = 60 * 60 * 1000;
+
+/**
+ * Envia o link de redefinição para o email informado, se houver uma conta.
+ * Tokens anteriores ainda não usados são invalidados.
+ */
+export async function requestPasswordReset(email: string, baseUrl: string, requestedIp?: string): Promise<void> {
+  const normalizedEmail = email.trim();
+  const user = await storage.getUserByEmail(normalizedEmail) ||
+    await storage.getUserByEmail(normalizedEmail.toLowerCase());
+  if (!user) {
+    return;
+  }
+  
+  await storage.invalidatePasswordResetTokens(user.id);
+  
+  const token = generateSignedToken();
+  await storage.createPasswordResetToken({
+    userId: user.id,
+    tokenHash: hashToken(token),
+    expiresAt: new Date(Date.now() + PASSWORD_RESET_TTL_MS),
+    requestedIp: requestedIp || null
+  });
+  
+  await sendMail(passwordResetEmail({
+    to: user.email,
+    name: user.name,
+    resetUrl: `${baseUrl}/reset-password/${encodeURIComponent(token)}`,
+    expiresInMinutes: PASSWORD_RESET_TTL_MS / 60000
+  }));
+}
+
+/**
+ * Localiza um token de redefinição válido (assinatura, validade e uso único).
+ */
+export async function findValidPasswordReset(token: string): Promise<PasswordResetToken | undefined> {
+  if (!isTokenSignatureValid(token)) {
+    return undefined;
+  }
+  
+  const reset = await storage.getPasswordResetTokenByHash(hashToken(token));
+  if (!reset || reset.usedAt || reset.expiresAt.getTime() < Date.now()) {
+    return undefined;
+  }
+  
+  return reset;
+}
+
+/**
+ * Define a nova senha e encerra as demais sessões do usuário.
+ * Retorna undefined quando o token é inválido, expirou ou já foi usado.
+ */
+export async function resetPassword(
+  token: string,
+  newPassword: string,
+  currentSessionId?: string
+): Promise<User | undefined> {
+  const reset = await findValidPasswordReset(token);
+  if (!reset || !(await storage.consumePasswordResetToken(reset.id))) {
+    return undefined;
+  }
+  
+  const user = await storage.updateUser(reset.userId, {
+    password: await hashPassword(newPassword)
+  });
+  if (!user) {
+    return undefined;
+  }
+  
+  await storage.invalidatePasswordResetTokens(user.id);
+  await destroyUserSessions(user.id, currentSessionId);
+  
+  return user;
+}
@@ -0,0 +1,165 @@
+/**
+ * Avaliação das permissões a partir dos papéis do usuário e da matriz da organização.
+ * O catálogo e a matriz padrão ficam em shared/permissions.ts.
+ */
+import { z } from 'zod';
+import { storage } from './storage';
+import { User } from '@shared/schema';
+import {
+  DEFAULT_PERMISSION_MATRIX,
+  FIXED_OWNER_PERMISSIONS,
+  ORGANIZATION_PERMISSIONS,
+  PROJECT_PERMISSIONS,
+  PROJECT_ROLES,
+  OrganizationPermission,
+  OrganizationRole,
+  PermissionMatrix,
+  ProjectPermission,
+  ProjectRole,
+} from '@shared/permissions';
+
+const organizationPermissionSchema = z.enum(
+  Object.keys(ORGANIZATION_PERMISSIONS) as [OrganizationPermission, ...OrganizationPermission[]]
+);
+const projectPermissionSchema = z.enum(
+  Object.keys(PROJECT_PERMISSIONS) as [ProjectPermission, ...ProjectPermission[]]
+);
+
+export const permissionMatrixSchema = z.object({
+  organization: z.object({
+    admin: z.array(organizationPermissionSchema),
+    member: z.array(organizationPermissionSchema),
+  }),
+  project: z.object({
+    admin: z.array(projectPermissionSchema),
+    manager: z.array(projectPermissionSchema),
+    member: z.array(projectPermissionSchema),
+  }),
+});
+
+/**
+ * Administrador global da plataforma (users.role), que atua como admin em todos os projetos.
+ */
+export function isPlatformAdmin(user: User): boolean {
+  return user.role === 'admin';
+}
+
+/**
+ * Matriz em vigor na organização: a personalizada, quando houver, sobre a padrão.
+ */
+export async function getPermissionMatrix(organizationId: number): Promise<PermissionMatrix> {
+  const settings = await storage.getOrganizationSettings(organizationId);
+  const custom = settings?.permissions as Partial<z.infer<typeof permissionMatrixSchema>> | null;
+  if (!custom) return DEFAULT_PERMISSION_MATRIX;
+
+  return {
+    organization: {
+      ...DEFAULT_PERMISSION_MATRIX.organization,
+      ...custom.organization,
+      owner: FIXED_OWNER_PERMISSIONS,
+    },
+    project: { ...DEFAULT_PERMISSION_MATRIX.project, ...custom.project },
+  };
+}
+
+/**
+ * Salva a matriz personalizada da organização.
+ */
+export async function savePermissionMatrix(
+  organizationId: number,
+  data: z.infer<typeof permissionMatrixSchema>
+): Promise<PermissionMatrix> {
+  // "Alterar a matriz" é exclusivo do owner
+  const matrix = {
+    organization: {
+      admin: data.organization.admin.filter(permission => permission !== 'permission.manage'),
+      member: data.organization.member.filter(permission => permission !== 'permission.manage'),
+    },
+    project: data.project,
+  };
+
+  const settings = await storage.getOrganizationSettings(organizationId);
+  if (settings) {
+    await storage.updateOrganizationSettings(organizationId, { permissions: matrix });
+  } else {
+    await storage.createOrganizationSettings({ organizationId, permissions: matrix });
+  }
+
+  return getPermissionMatrix(organizationId);
+}
+
+/**
+ * Volta a organização para a matriz padrão.
+ */
+export async function resetPermissionMatrix(organizationId: number): Promise<PermissionMatrix> {
+  await storage.updateOrganizationSettings(organizationId, { permissions: null });
+  return DEFAULT_PERMISSION_MATRIX;
+}
+
+export async function getOrganizationRole(organizationId: number, userId: number): Promise<OrganizationRole | undefined> {
+  const members = await storage.getOrganizationMembers(organizationId);
+  return members.find(m => m.userId === userId)?.role;
+}
+
+/**
+ * Papel do usuário no projeto; o criador do projeto e o administrador global atuam como admin.
+ * Retorna undefined quando o usuário não participa do projeto.
+ */
+export async function getProjectRole(organizationId: number, user: User, projectId: number): Promise<ProjectRole | undefined> {
+  const project = await storage.getProject(organizationId, projectId);
+  if (!project) return undefined;
+  if (isPlatformAdmin(user) || project.createdBy === user.id) return 'admin';
+
+  const members = await storage.getProjectMembers(organizationId, projectId);
+  const member = members.find(m => m.userId === user.id);
+  return member && (PROJECT_ROLES as readonly string[]).includes(member.role) ? member.role as ProjectRole : undefined;
+}
+
+export async function hasOrganizationPermission(
+  organizationId: number,
+  role: OrganizationRole | undefined,
+  permission: OrganizationPermission
+): Promise<boolean> {
+  if (!role) return false;
+  const matrix = await getPermissionMatrix(organizationId);
+  return matrix.organization[role].includes(permission);
+}
+
+/**
+ * Permissões de organização do papel informado (enviadas ao cliente em /api/auth/me).
+ */
+export async function getOrganizationPermissions(
+  organizationId: number,
+  role: OrganizationRole | undefined
+): Promise<OrganizationPermission[]> {
+  if (!role) return [];
+  const matrix = await getPermissionMatrix(organizationId);
+  return matrix.organization[role];
+}
+
+export async function hasProjectPermission(
+  organizationId: number,
+  role: ProjectRole | undefined,
+  permission: ProjectPermission
+): Promise<boolean> {
+  if (!role) return false;
+  const matrix = await getPermissionMatrix(organizationId);
+  return matrix.project[role].includes(permission);
+}
+
+export interface ProjectAccess {
+  role: ProjectRole;
+  can: (permission: ProjectPermission) => boolean;
+}
+
+/**
+ * Acesso do usuário a um projeto, com as permissões do papel já resolvidas.
+ * Retorna undefined quando o usuário não participa do projeto.
+ */
+export async function getProjectAccess(organizationId: number, user: User, projectId: number): Promise<ProjectAccess | undefined> {
+  const role = await getProjectRole(organizationId, user, projectId);
+  if (!role) return undefined;
+
+  const permissions = (await getPermissionMatrix(organizationId)).project[role];
+  return { role, can: (permission) => permissions.includes(permission) };
+}
@@ -1,6 +1,6 @@
-import type { Express, Request, Response, NextFunction } from "express";
+import express, { type Express, type Request, type Response, type NextFunction } from "express";
 import { createServer, type Server } from "http";
-import { User } from "@shared/schema";
+import { User, AuditLog, SavedView } from "@shared/schema";
 
 // Estender a definição Request para incluir o objeto user
 declare global {
@@ -19,11 +19,95 @@ if (!process.env.STRIPE_SECRET_KEY) {
 const stripe = new Stripe(process.env.STRIPE_SECRET_KEY, {
   apiVersion: '2023-10-16',
 });
-import { storage } from "./storage";
+import { storage, storageDriver, initializeStorage, initializeAdmin, MemStorage } from "./storage";
+import { createSnapshot, parseSnapshot, importSnapshot, getSnapshotStatus, SNAPSHOT_VERSION, type StorageSnapshot } from "./snapshot";
 import session from "express-session";
-import { isAuthenticated, isAdmin, isProjectMember, hasProjectRole } from "./middleware/auth";
-import { upload, deleteFile } from "./middleware/upload";
+import { isAuthenticated, isProjectMember, isActiveOrganization, requirePermission, canAccessProject } from "./middleware/auth";
+import { upload, logoUpload, snapshotUpload, brandingDir, deleteFile } from "./middleware/upload";
+import { enforceQuota, enforceStorageQuota, checkQuota, sendQuotaError, getOrganizationUsage } from "./middleware/quota";
 import { isSuperAdmin } from "./middleware/superadmin";
+import { resolveOrganizationId, getAcceptedMemberships, resolveTenant, enforceTenantSession } from "./middleware/tenant";
+import { issueInvitation, findPendingInvitation, findOwnerInvitation, createOwnerInvitation, toPublicInvitation } from "./invitations";
+import { requestPasswordReset, findValidPasswordReset, resetPassword } from "./password-reset";
+import {
+  beginTwoFactorEnrollment,
+  confirmTwoFactorEnrollment,
+  disableTwoFactor,
+  getTwoFactorStatus,
+  isTwoFactorEnabled,
+  isTwoFactorRequired,
+  regenerateRecoveryCodes,
+  verifyTwoFactorCode
+} from "./two-factor";
+import { createApiTokenSchema, issueApiToken, serializeApiToken } from "./api-tokens";
+import {
+  recordAuditLog,
+  diffChanges,
+  auditLogQuerySchema,
+  toAuditLogFilter,
+  auditLogsToCsv,
+  auditRetentionSchema,
+  getAuditRetention,
+  saveAuditRetention,
+  getOrganizationAuditRetentionDays,
+  scheduleAuditLogPurge,
+  MAX_EXPORT_ROWS,
+  type AuditEntry
+} from "./audit";
+import { startImpersonation, endImpersonation, getImpersonator } from "./impersonation";
+import { checkIfMatch, sendVersionConflict, setEtag } from "./concurrency";
+import { purgeTrashItem, getTrashRetentionDays, trashItemTypeSchema, trashRetentionSchema, scheduleTrashPurge } from "./trash";
+import { TRASH_ITEM_LABELS } from "@shared/trash";
+import { searchQuerySchema, searchTerms, toSearchDocuments, rankSearchResults, SEARCH_CANDIDATE_LIMIT } from "./search";
+import { SEARCH_RESULT_TYPES, type SearchResponse } from "@shared/search";
+import { createSavedViewSchema, updateSavedViewSchema, viewFiltersSchema, resolveTaskFilter } from "./views";
+import { matchesProjectView, type ProjectViewFilters, type SavedViewSummary, type SavedViewTarget, type TaskViewFilters } from "@shared/views";
+import { createTagSchema, updateTagSchema, mergeTagsSchema, taskTagsSchema, toTagSummary, findTagByName, withTagIds } from "./tags";
+import { createDependencySchema, createsCycle, findOpenBlockers, getDependencyLinks, toLink } from "./dependencies";
+import { taskParentSchema, validateParentTask, withRollups } from "./subtasks";
+import { nextTagColor } from "@shared/tags";
+import { taskListQuerySchema, activityListQuerySchema, fileListQuerySchema, userListQuerySchema } from "./pagination";
+import {
+  addOrganizationDomain,
+  beginSsoLogin,
+  completeSsoLogin,
+  getVerifiedDomains,
+  isIssuerReachable,
+  organizationDomainSchema,
+  removeOrganizationDomain,
+  saveSsoSettings,
+  serializeOrganizationDomain,
+  serializeSsoSettings,
+  ssoSettingsSchema,
+  verifyOrganizationDomain
+} from "./sso";
+import {
+  checkLoginAttempt,
+  getActiveLoginThrottles,
+  getLoginThrottleMessage,
+  registerLoginFailure,
+  registerLoginSuccess
+} from "./login-throttle";
+import {
+  getOrganizationPermissions,
+  getOrganizationRole,
+  getPermissionMatrix,
+  getProjectAccess,
+  hasOrganizationPermission,
+  isPlatformAdmin,
+  permissionMatrixSchema,
+  resetPermissionMatrix,
+  savePermissionMatrix
+} from "./permissions";
+import {
+  brandingSchema,
+  DEFAULT_THEME,
+  getOrganizationBranding,
+  resolveBrandingOrganizationId,
+  isSelfRegistrationAllowed,
+  setOrganizationLogo,
+  updateOrganizationBranding
+} from "./branding";
 import { z } from "zod";
 import fs from "fs";
 import path from "path";
@@ -39,21 +123,38 @@ import {
   insertBudgetCategorySchema,
   insertExpenseSchema,
   insertBudgetForecastSchema,
-  integrations
+  integrations,
+  type Organization
 } from "@shared/schema";
 import chatbotRoutes from "./chatbot/routes";
 import whatsappWebRoutes from "./chatbot/whatsapp-web-routes";
 import { setupNotificationScheduler } from "./chatbot/notifications";
 import { initWhatsAppWebClient } from "./chatbot/whatsapp-web";
-
-import MemoryStore from "memorystore";
-
-const MemoryStoreSession = MemoryStore(session);
+import {
+  sessionStore,
+  recordSessionClient,
+  regenerateSession,
+  trackSessionClient,
+  getSessionPublicId,
+  serializeSession,
+  destroyUserSession,
+  destroyUserSessions
+} from "./sessions";
 
 export async function registerRoutes(app: Express): Promise<Server> {
+  await initializeStorage();
+  
+  // Identificar a organização pelo endereço (domínio, subdomínio ou /o/:slug)
+  app.use(resolveTenant);
+
   // Rota para criar uma nova organização
   app.post("/api/organizations", async (req: Request, res: Response) => {
     try {
+      // Endereços de uma organização não podem criar outras organizações
+      if (res.locals.tenant) {
+        return res.status(403).json({ message: "Não é possível criar organizações a partir do endereço de outra organização" });
+      }
+      
       const {
         name
       } = req.body;
@@ -62,26 +163,30 @@ export async function registerRoutes(app: Express): Promise<Server> {
         return res.status(400).json({ message: "Nome da organização é obrigatório" });
       }
 
+      // Gerar um slug único a partir do nome
+      const baseSlug = name
+        .normalize("NFD")
+        .replace(/[\u0300-\u036f]/g, "")
+        .toLowerCase()
+        .replace(/[^a-z0-9]+/g, "-")
+        .replace(/^-+|-+$/g, "") || "org";
+
       const organization = await storage.createOrganization({
         name,
-        createdAt: new Date(),
+        slug: `${baseSlug}-${Date.now().toString(36)}`,
       });
 
       // Criar configurações para a organização
       await storage.createOrganizationSettings({
         organizationId: organization.id,
-        theme: {
-          primary: "#0ea5e9",
-          variant: "professional",
-          appearance: "light",
-          radius: 0.5
-        },
-        logo: null,
-        features: {
-          taskComments: true,
-          fileUploads: true,
-          chatbot: true,
-          reports: true
+        settings: {
+          theme: DEFAULT_THEME,
+          features: {
+            taskComments: true,
+            fileUploads: true,
+            chatbot: true,
+            reports: true
+          }
         }
       });
 
@@ -96,48 +201,54 @@ export async function registerRoutes(app: Express): Promise<Server> {
         paymentId: null
       });
 
-      return res.status(201).json(organization);
+      // Quem criou a organização recebe o token para cadastrar o owner em seguida
+      const ownerToken = await createOwnerInvitation(organization.id);
+
+      return res.status(201).json({ ...organization, ownerToken });
     } catch (error) {
       console.error("Erro ao criar organização:", error);
       return res.status(500).json({ message: "Erro ao criar organização" });
     }
   });
 
-  // Rota para adicionar um membro à organização
-  app.post("/api/organizations/:id/members", async (req: Request, res: Response) => {
-    try {
-      const { id } = req.params;
-      const { userId, role } = req.body;
-
-      if (!userId || !role) {
-        return res.status(400).json({ message: "ID do usuário e cargo são obrigatórios" });
-      }
-
-      const result = await storage.addOrganizationMember({
-        organizationId: parseInt(id),
-        userId,
-        role,
-        joinedAt: new Date()
-      });
-
-      return res.status(201).json(result);
-    } catch (error) {
-      console.error("Erro ao adicionar membro:", error);
-      return res.status(500).json({ message: "Erro ao adicionar membro à organização" });
-    }
-  });
   // Set up session middleware
   app.use(
     session({
-      store: new MemoryStoreSession({
-        checkPeriod: 86400000, // prune expired entries every 24h
-      }),
+      store: sessionStore,
       secret: process.env.SESSION_SECRET || "launchpro-secret-key",
       resave: false,
       saveUninitialized: false,
       cookie: { secure: process.env.NODE_ENV === "production", maxAge: 86400000 }, // 24 hours
     })
   );
+  app.use(enforceTenantSession);
+  app.use(trackSessionClient);
+
+  // Tempo e tentativas disponíveis para informar o código do segundo fator
+  const TWO_FACTOR_LOGIN_TTL_MS = 5 * 60 * 1000;
+  const TWO_FACTOR_MAX_ATTEMPTS = 5;
+
+  // URL pública usada nos links enviados por email
+  const getBaseUrl = (req: Request) => process.env.APP_URL || `${req.protocol}://${req.get("host")}`;
+
+  // Auditoria de uma ação do usuário autenticado, na organização ativa
+  const auditUserAction = (req: Request, res: Response, entry: Omit<AuditEntry, "organizationId" | "actorId">) =>
+    recordAuditLog(req, { organizationId: res.locals.organizationId, actorId: res.locals.user.id, ...entry });
+
+  // Auditoria de uma ação da área Super Admin (sem organização)
+  const auditAdminAction = (req: Request, res: Response, entry: Omit<AuditEntry, "organizationId" | "actorId">) =>
+    recordAuditLog(req, { organizationId: null, actorId: res.locals.user.id, ...entry });
+
+  // Exportação do registro de auditoria (?format=csv|json)
+  const sendAuditExport = (req: Request, res: Response, records: AuditLog[], filename: string) => {
+    if (req.query.format === "json") {
+      res.setHeader("Content-Disposition", `attachment; filename="${filename}.json"`);
+      return res.json(records);
+    }
+    res.setHeader("Content-Type", "text/csv; charset=utf-8");
+    res.setHeader("Content-Disposition", `attachment; filename="${filename}.csv"`);
+    res.send(auditLogsToCsv(records));
+  };
 
   // Auth Routes
   app.post("/api/auth/login", async (req: Request, res: Response) => {
@@ -148,22 +259,71 @@ export async function registerRoutes(app: Express): Promise<Server> {
     }
 
     try {
-      const user = await storage.getUserByUsername(username);
-
-      if (!user) {
-        return res.status(401).json({ message: "Credenciais inválidas" });
+      // Tentativas repetidas são atrasadas e, no limite, bloqueadas por conta e por IP
+      const attempt = { username: String(username), ip: req.ip };
+      const throttle = await checkLoginAttempt(attempt);
+      if (!throttle.allowed) {
+        res.set("Retry-After", String(throttle.retryAfterSeconds));
+        return res.status(429).json({
+          message: getLoginThrottleMessage(throttle),
+          code: "LOGIN_THROTTLED",
+          retryAfter: throttle.retryAfterSeconds
+        });
       }
 
+      const user = await storage.getUserByUsername(username);
+
       // Importando as funções de verificação de senha
       const { verifyPassword } = await import('./auth-utils');
       
       // Verifica a senha usando o método seguro
-      const passwordMatches = await verifyPassword(password, user.password);
-      if (!passwordMatches) {
+      if (!user || !(await verifyPassword(password, user.password))) {
+        await registerLoginFailure(attempt, { source: `login pelo site, IP ${req.ip}`, baseUrl: getBaseUrl(req) });
+        await recordAuditLog(req, {
+          organizationId: res.locals.tenant?.id ?? null,
+          actorId: user?.id ?? null,
+          actorName: String(username),
+          action: "auth.login_failed",
+          details: { method: "password" }
+        });
         return res.status(401).json({ message: "Credenciais inválidas" });
       }
 
+      // No endereço de uma organização, apenas seus membros podem entrar
+      const tenant: Organization | undefined = res.locals.tenant;
+      if (tenant) {
+        const memberships = await getAcceptedMemberships(user.id);
+        if (!memberships.some(m => m.organizationId === tenant.id)) {
+          return res.status(401).json({ message: "Credenciais inválidas" });
+        }
+      }
+
+      const organizationId = tenant ? tenant.id : await resolveOrganizationId(user.id);
+
+      // Com a verificação em duas etapas ativa, o login só é concluído após o código;
+      // até lá as tentativas continuam contando para o bloqueio de login
+      if (isTwoFactorEnabled(await storage.getUserTwoFactor(user.id))) {
+        const previous = req.session.pendingTwoFactor;
+        delete req.session.userId;
+        delete req.session.organizationId;
+        req.session.pendingTwoFactor = {
+          userId: user.id,
+          organizationId,
+          expiresAt: Date.now() + TWO_FACTOR_LOGIN_TTL_MS,
+          // Repetir a senha não zera os códigos já errados nesta sessão
+          attempts: previous && previous.userId === user.id ? previous.attempts : 0
+        };
+        return res.json({ twoFactorRequired: true });
+      }
+
+      await registerLoginSuccess(attempt);
+
+      // Nova sessão no login; também encerra o acesso como outro usuário que estivesse nela
+      await regenerateSession(req);
       req.session.userId = user.id;
+      req.session.organizationId = organizationId;
+      recordSessionClient(req);
+      await recordAuditLog(req, { organizationId, actorId: user.id, action: "auth.login", details: { method: "password" } });
 
       // Don't send the password back to the client
       const { password: _, ...userWithoutPassword } = user;
@@ -174,157 +334,1444 @@ export async function registerRoutes(app: Express): Promise<Server> {
     }
   });
 
-  app.post("/api/auth/logout", (req: Request, res: Response) => {
+  // Segunda etapa do login: código do autenticador ou código de recuperação
+  app.post("/api/auth/login/2fa", async (req: Request, res: Response) => {
+    const pending = req.session.pendingTwoFactor;
+    const code = typeof req.body.code === "string" ? req.body.code : "";
+
+    if (!pending || pending.expiresAt < Date.now()) {
+      delete req.session.pendingTwoFactor;
+      return res.status(401).json({ message: "A verificação expirou. Faça login novamente." });
+    }
+
+    if (!code.trim()) {
+      return res.status(400).json({ message: "Informe o código de verificação" });
+    }
+
+    try {
+      const user = await storage.getUser(pending.userId);
+      if (!user) {
+        delete req.session.pendingTwoFactor;
+        return res.status(401).json({ message: "Usuário não encontrado" });
+      }
+
+      // Códigos errados contam no mesmo bloqueio por conta e por IP do login com senha
+      const attempt = { username: user.username, ip: req.ip };
+      const throttle = await checkLoginAttempt(attempt);
+      if (!throttle.allowed) {
+        res.set("Retry-After", String(throttle.retryAfterSeconds));
+        return res.status(429).json({
+          message: getLoginThrottleMessage(throttle),
+          code: "LOGIN_THROTTLED",
+          retryAfter: throttle.retryAfterSeconds
+        });
+      }
+
+      const valid = await verifyTwoFactorCode(user.id, code);
+
+      if (!valid) {
+        pending.attempts += 1;
+        await registerLoginFailure(attempt, {
+          source: `verificação em duas etapas pelo site, IP ${req.ip}`,
+          baseUrl: getBaseUrl(req)
+        });
+        await recordAuditLog(req, {
+          organizationId: pending.organizationId ?? null,
+          actorId: pending.userId,
+          action: "auth.login_failed",
+          details: { method: "two_factor" }
+        });
+        if (pending.attempts >= TWO_FACTOR_MAX_ATTEMPTS) {
+          delete req.session.pendingTwoFactor;
+          return res.status(401).json({ message: "Muitas tentativas inválidas. Faça login novamente." });
+        }
+        return res.status(401).json({ message: "Código de verificação inválido" });
+      }
+
+      await registerLoginSuccess(attempt);
+
+      await regenerateSession(req);
+      req.session.userId = user.id;
+      req.session.organizationId = pending.organizationId;
+      recordSessionClient(req);
+      await recordAuditLog(req, {
+        organizationId: pending.organizationId ?? null,
+        actorId: user.id,
+        action: "auth.login",
+        details: { method: "two_factor" }
+      });
+
+      const { password: _, ...userWithoutPassword } = user;
+      res.json(userWithoutPassword);
+    } catch (error) {
+      console.error("Erro na verificação em duas etapas:", error);
+      res.status(500).json({ message: "Erro interno no servidor durante autenticação" });
+    }
+  });
+
+  app.post("/api/auth/logout", async (req: Request, res: Response) => {
+    try {
+      // Sair durante o acesso como outro usuário também encerra o acesso na auditoria
+      if (req.session.impersonator) {
+        await endImpersonation(req, "logout");
+      } else if (req.session.userId) {
+        await recordAuditLog(req, {
+          organizationId: req.session.organizationId ?? null,
+          actorId: req.session.userId,
+          action: "auth.logout"
+        });
+      }
+    } catch (error) {
+      console.error("Erro ao registrar o logout na auditoria:", error);
+    }
+    
     req.session.destroy(() => {
       res.json({ message: "Logout efetuado com sucesso" });
     });
   });
 
-  app.get("/api/auth/me", isAuthenticated, (req: Request, res: Response) => {
-    const { password: _, ...userWithoutPassword } = res.locals.user;
-    res.json(userWithoutPassword);
-  });
+  // Fim do acesso como outro usuário: a sessão volta para o Super Admin
+  app.post("/api/auth/impersonation/end", async (req: Request, res: Response) => {
+    if (!req.session.impersonator) {
+      return res.status(400).json({ message: "Nenhum acesso como outro usuário em andamento" });
+    }
 
-  // User Routes
-  app.get("/api/users", isAuthenticated, async (req: Request, res: Response) => {
-    const users = await storage.getAllUsers();
-    // Remove passwords from the response
-    const usersWithoutPasswords = users.map(({ password: _, ...user }) => user);
-    res.json(usersWithoutPasswords);
+    try {
+      const admin = await endImpersonation(req, "manual");
+      if (!admin) {
+        return req.session.destroy(() => res.status(401).json({ message: "Usuário não encontrado" }));
+      }
+
+      const organizationId = await resolveOrganizationId(admin.id, req.session.organizationId);
+      const organization = organizationId ? await storage.getOrganization(organizationId) : undefined;
+      req.session.save(() => res.json({
+        message: "Você voltou para a sua conta",
+        organization: organization ? { id: organization.id, name: organization.name, slug: organization.slug } : null
+      }));
+    } catch (error) {
+      console.error("Erro ao encerrar acesso como usuário:", error);
+      res.status(500).json({ message: "Erro ao encerrar o acesso" });
+    }
   });
 
-  app.post("/api/users", async (req: Request, res: Response) => {
+  // Redefinição de senha
+  app.post("/api/auth/forgot-password", async (req: Request, res: Response) => {
     try {
-      // Verificar se é o primeiro usuário do sistema
-      const allUsers = await storage.getAllUsers();
-      const isFirstUser = allUsers.length === 0;
+      const { email } = z.object({
+        email: z.string().email("Email inválido")
+      }).parse(req.body);
       
-      console.log("Criando usuário. É o primeiro? ", isFirstUser);
+      // A resposta é a mesma com ou sem conta para não revelar emails cadastrados
+      await requestPasswordReset(email, getBaseUrl(req), req.ip)
+        .catch(error => console.error("Erro ao enviar email de redefinição de senha:", error));
       
-      // Verificar se este é um registro inicial de uma organização 
-      // (usuário admin sendo criado logo após a criação de uma organização)
-      const isOrgRegistration = req.body.orgRole === 'owner' && req.body.organizationId;
-      
-      // Se for o primeiro usuário ou se for o registro de uma organização, permitir admin
-      // Caso contrário, verifica permissões
-      if (!isFirstUser && !isOrgRegistration && req.body.role === 'admin') {
-        // Só permitir criar admin se o usuário estiver autenticado como admin
-        if (!req.user || req.user.role !== 'admin') {
-          console.log("Tentativa de criar usuário admin sem permissão");
-          return res.status(403).json({ message: "Permissão negada" });
-        }
+      res.json({ message: "Se houver uma conta com este email, enviaremos um link para redefinir a senha" });
+    } catch (error) {
+      if (error instanceof z.ZodError) {
+        return res.status(400).json({ message: "Dados inválidos", errors: error.errors });
+      }
+      console.error("Erro ao solicitar redefinição de senha:", error);
+      res.status(500).json({ message: "Erro ao solicitar redefinição de senha" });
+    }
+  });
+
+  app.get("/api/auth/reset-password/:token", async (req: Request, res: Response) => {
+    try {
+      const reset = await findValidPasswordReset(req.params.token);
+      if (!reset) {
+        return res.status(404).json({ message: "Link de redefinição inválido ou expirado" });
       }
       
-      // Validar dados de entrada
-      const validatedData = insertUserSchema.parse(req.body);
+      res.json({ expiresAt: reset.expiresAt });
+    } catch (error) {
+      console.error("Erro ao validar link de redefinição:", error);
+      res.status(500).json({ message: "Erro ao validar link de redefinição" });
+    }
+  });
+
+  app.post("/api/auth/reset-password", async (req: Request, res: Response) => {
+    try {
+      const { token, password } = z.object({
+        token: z.string().min(1),
+        password: z.string().min(6, "Senha deve ter pelo menos 6 caracteres")
+      }).parse(req.body);
       
-      // Se for o primeiro usuário, forçar como admin
-      if (isFirstUser) {
-        validatedData.role = 'admin';
-        console.log("Criando usuário SuperAdmin inicial:", validatedData.username);
+      const user = await resetPassword(token, password, req.sessionID);
+      if (!user) {
+        return res.status(400).json({ message: "Link de redefinição inválido ou expirado" });
       }
       
-      // Check if username or email already exists
-      const existingUsername = await storage.getUserByUsername(validatedData.username);
-      if (existingUsername) {
-        return res.status(400).json({ message: "Nome de usuário já existe" });
+      res.json({ message: "Senha redefinida com sucesso" });
+    } catch (error) {
+      if (error instanceof z.ZodError) {
+        return res.status(400).json({ message: "Dados inválidos", errors: error.errors });
       }
-      
-      const existingEmail = await storage.getUserByEmail(validatedData.email);
-      if (existingEmail) {
-        return res.status(400).json({ message: "Email já está em uso" });
+      console.error("Erro ao redefinir senha:", error);
+      res.status(500).json({ message: "Erro ao redefinir senha" });
+    }
+  });
+
+  // Login único (OpenID Connect) da organização
+  // O retorno do provedor usa sempre o mesmo endereço, sem o prefixo /o/:slug
+  const getSsoRedirectUri = (req: Request) => `${req.protocol}://${req.get("host")}/api/auth/sso/callback`;
+
+  app.get("/api/auth/sso/start", async (req: Request, res: Response) => {
+    // Prefixo /o/:slug da requisição, para voltar ao mesmo endereço após o login
+    const basePath = req.originalUrl.match(/^\/o\/[a-z0-9-]+/)?.[0] || "";
+
+    try {
+      const tenant: Organization | undefined = res.locals.tenant;
+      const organization = tenant || (typeof req.query.organization === "string"
+        ? await storage.getOrganizationBySlug(req.query.organization.trim().toLowerCase())
+        : undefined);
+      const config = organization?.active ? await storage.getOrganizationSso(organization.id) : undefined;
+
+      if (!config?.enabled) {
+        return res.redirect(`${basePath}/login?sso_error=sso_unavailable`);
       }
-      
-      // Hash da senha antes de salvar
-      try {
-        const { hashPassword } = await import('./auth-utils');
-        validatedData.password = await hashPassword(validatedData.password);
-      } catch (error) {
-        console.error("Erro ao realizar hash da senha:", error);
-        return res.status(500).json({ message: "Erro interno ao processar senha" });
+
+      const { authorizationUrl, pending } = await beginSsoLogin(config, getSsoRedirectUri(req), basePath);
+      req.session.pendingSso = pending;
+      req.session.save(() => res.redirect(authorizationUrl));
+    } catch (error) {
+      console.error("Erro ao iniciar login único:", error);
+      res.redirect(`${basePath}/login?sso_error=sso_failed`);
+    }
+  });
+
+  app.get("/api/auth/sso/callback", async (req: Request, res: Response) => {
+    const pending = req.session.pendingSso;
+    delete req.session.pendingSso;
+    const basePath = pending?.returnTo || "";
+
+    try {
+      if (!pending || pending.expiresAt < Date.now() || req.query.state !== pending.state) {
+        return res.redirect(`${basePath}/login?sso_error=sso_expired`);
       }
-      
-      const user = await storage.createUser(validatedData);
-      
-      // Remove password from response
-      const { password: _, ...userWithoutPassword } = user;
-      res.status(201).json(userWithoutPassword);
+
+      if (typeof req.query.code !== "string") {
+        console.error("Login único recusado pelo provedor:", req.query.error, req.query.error_description);
+        return res.redirect(`${basePath}/login?sso_error=sso_denied`);
+      }
+
+      const config = await storage.getOrganizationSso(pending.organizationId);
+      if (!config?.enabled) {
+        return res.redirect(`${basePath}/login?sso_error=sso_unavailable`);
+      }
+
+      const result = await completeSsoLogin(config, pending, req.query.code);
+      if (typeof result === "string") {
+        return res.redirect(`${basePath}/login?sso_error=${result}`);
+      }
+
+      // A verificação em duas etapas da conta continua valendo no login único
+      if (isTwoFactorEnabled(await storage.getUserTwoFactor(result.id))) {
+        delete req.session.userId;
+        delete req.session.organizationId;
+        req.session.pendingTwoFactor = {
+          userId: result.id,
+          organizationId: pending.organizationId,
+          expiresAt: Date.now() + TWO_FACTOR_LOGIN_TTL_MS,
+          attempts: 0
+        };
+        return req.session.save(() => res.redirect(`${basePath}/login?two_factor=1`));
+      }
+
+      await regenerateSession(req);
+      req.session.userId = result.id;
+      req.session.organizationId = pending.organizationId;
+      recordSessionClient(req);
+      await recordAuditLog(req, {
+        organizationId: pending.organizationId,
+        actorId: result.id,
+        action: "auth.login",
+        details: { method: "sso" }
+      });
+      req.session.save(() => res.redirect(`${basePath}/dashboard`));
+    } catch (error) {
+      console.error("Erro ao concluir login único:", error);
+      res.redirect(`${basePath}/login?sso_error=sso_failed`);
+    }
+  });
+
+  app.get("/api/auth/me", isAuthenticated, async (req: Request, res: Response) => {
+    const { password: _, ...userWithoutPassword } = res.locals.user;
+    
+    // Incluir o contexto da organização ativa
+    const organization = await storage.getOrganization(res.locals.organizationId);
+    const memberships = await getAcceptedMemberships(res.locals.user.id);
+    const membership = memberships.find(m => m.organizationId === res.locals.organizationId);
+    const twoFactor = await getTwoFactorStatus(res.locals.user.id, res.locals.organizationId);
+    
+    res.json({
+      ...userWithoutPassword,
+      twoFactorEnabled: twoFactor.enabled,
+      // O suporte acessando a conta não precisa cadastrar o segundo fator do usuário
+      twoFactorSetupRequired: twoFactor.requiredByOrganization && !twoFactor.enabled && !req.session.impersonator,
+      organization: organization ? {
+        id: organization.id,
+        name: organization.name,
+        slug: organization.slug,
+        logo: organization.logo,
+        primaryColor: organization.primaryColor
+      } : null,
+      organizationRole: membership?.role || null,
+      permissions: await getOrganizationPermissions(res.locals.organizationId, membership?.role),
+      impersonator: await getImpersonator(req)
+    });
+  });
+
+  // Verificação em duas etapas do usuário autenticado
+  app.get("/api/auth/2fa", isAuthenticated, async (req: Request, res: Response) => {
+    try {
+      res.json(await getTwoFactorStatus(res.locals.user.id, res.locals.organizationId));
+    } catch (error) {
+      console.error("Erro ao consultar verificação em duas etapas:", error);
+      res.status(500).json({ message: "Erro ao consultar verificação em duas etapas" });
+    }
+  });
+
+  app.post("/api/auth/2fa/setup", isAuthenticated, async (req: Request, res: Response) => {
+    try {
+      if (isTwoFactorEnabled(await storage.getUserTwoFactor(res.locals.user.id))) {
+        return res.status(400).json({ message: "A verificação em duas etapas já está ativa" });
+      }
+
+      res.json(await beginTwoFactorEnrollment(res.locals.user));
+    } catch (error) {
+      console.error("Erro ao iniciar verificação em duas etapas:", error);
+      res.status(500).json({ message: "Erro ao iniciar verificação em duas etapas" });
+    }
+  });
+
+  app.post("/api/auth/2fa/enable", isAuthenticated, async (req: Request, res: Response) => {
+    try {
+      const { code } = z.object({ code: z.string().min(1, "Informe o código de verificação") }).parse(req.body);
+
+      const recoveryCodes = await confirmTwoFactorEnrollment(res.locals.user.id, code);
+      if (!recoveryCodes) {
+        return res.status(400).json({ message: "Código de verificação inválido" });
+      }
+      await auditUserAction(req, res, { action: "auth.two_factor_enabled" });
+
+      res.json({ recoveryCodes });
     } catch (error) {
       if (error instanceof z.ZodError) {
         return res.status(400).json({ message: "Dados inválidos", errors: error.errors });
       }
-      console.error("Erro ao criar usuário:", error);
-      res.status(500).json({ message: "Erro ao criar usuário" });
+      console.error("Erro ao ativar verificação em duas etapas:", error);
+      res.status(500).json({ message: "Erro ao ativar verificação em duas etapas" });
     }
   });
 
-  app.put("/api/users/:id", isAuthenticated, async (req: Request, res: Response) => {
-    const userId = parseInt(req.params.id);
-    
-    // Only admins can update other users
-    if (userId !== res.locals.user.id && res.locals.user.role !== 'admin') {
-      return res.status(403).json({ message: "Permissão negada" });
+  app.post("/api/auth/2fa/recovery-codes", isAuthenticated, async (req: Request, res: Response) => {
+    try {
+      const { code } = z.object({ code: z.string().min(1, "Informe o código de verificação") }).parse(req.body);
+
+      if (!(await verifyTwoFactorCode(res.locals.user.id, code))) {
+        return res.status(400).json({ message: "Código de verificação inválido" });
+      }
+
+      res.json({ recoveryCodes: await regenerateRecoveryCodes(res.locals.user.id) });
+    } catch (error) {
+      if (error instanceof z.ZodError) {
+        return res.status(400).json({ message: "Dados inválidos", errors: error.errors });
+      }
+      console.error("Erro ao gerar códigos de recuperação:", error);
+      res.status(500).json({ message: "Erro ao gerar códigos de recuperação" });
     }
-    
+  });
+
+  app.post("/api/auth/2fa/disable", isAuthenticated, async (req: Request, res: Response) => {
     try {
-      // For security, don't allow role changes through this endpoint except for admins
-      let updateData = req.body;
-      if (res.locals.user.role !== 'admin') {
-        const { role, ...safeData } = updateData;
-        updateData = safeData;
+      const { password, code } = z.object({
+        password: z.string().min(1, "Informe sua senha"),
+        code: z.string().min(1, "Informe o código de verificação")
+      }).parse(req.body);
+
+      if (await isTwoFactorRequired(res.locals.organizationId)) {
+        return res.status(403).json({ message: "Sua organização exige a verificação em duas etapas" });
       }
-      
-      // Se a senha estiver sendo atualizada, fazer o hash
-      if (updateData.password) {
-        try {
-          const { hashPassword } = await import('./auth-utils');
-          updateData.password = await hashPassword(updateData.password);
-        } catch (error) {
-          console.error("Erro ao realizar hash da senha:", error);
-          return res.status(500).json({ message: "Erro interno ao processar senha" });
-        }
+
+      const { verifyPassword } = await import('./auth-utils');
+      if (!(await verifyPassword(password, res.locals.user.password)) ||
+          !(await verifyTwoFactorCode(res.locals.user.id, code))) {
+        return res.status(400).json({ message: "Senha ou código de verificação inválidos" });
       }
-      
-      const updatedUser = await storage.updateUser(userId, updateData);
-      
-      if (!updatedUser) {
-        return res.status(404).json({ message: "Usuário não encontrado" });
+
+      await disableTwoFactor(res.locals.user.id);
+      await auditUserAction(req, res, { action: "auth.two_factor_disabled" });
+      res.json({ message: "Verificação em duas etapas desativada" });
+    } catch (error) {
+      if (error instanceof z.ZodError) {
+        return res.status(400).json({ message: "Dados inválidos", errors: error.errors });
       }
-      
-      // Remove password from response
-      const { password: _, ...userWithoutPassword } = updatedUser;
-      res.json(userWithoutPassword);
+      console.error("Erro ao desativar verificação em duas etapas:", error);
+      res.status(500).json({ message: "Erro ao desativar verificação em duas etapas" });
+    }
+  });
+
+  // Tokens de acesso pessoal da API do usuário autenticado
+  app.get("/api/auth/tokens", isAuthenticated, async (req: Request, res: Response) => {
+    try {
+      const tokens = await storage.getApiTokensByUser(res.locals.user.id);
+      res.json(tokens.map(serializeApiToken));
+    } catch (error) {
+      console.error("Erro ao listar tokens de API:", error);
+      res.status(500).json({ message: "Erro ao listar tokens de API" });
+    }
+  });
+
+  app.post("/api/auth/tokens", isAuthenticated, async (req: Request, res: Response) => {
+    try {
+      const data = createApiTokenSchema.parse(req.body);
+      const { token, record } = await issueApiToken(res.locals.user.id, res.locals.organizationId, data);
+      await auditUserAction(req, res, {
+        action: "auth.token_created",
+        targetType: "api_token",
+        targetId: record.id,
+        targetLabel: record.name,
+        details: { scopes: record.scopes, expiresAt: record.expiresAt }
+      });
+
+      // O valor do token só é devolvido nesta resposta
+      res.status(201).json({ ...serializeApiToken(record), token });
     } catch (error) {
       if (error instanceof z.ZodError) {
         return res.status(400).json({ message: "Dados inválidos", errors: error.errors });
       }
-      res.status(500).json({ message: "Erro ao atualizar usuário" });
+      console.error("Erro ao criar token de API:", error);
+      res.status(500).json({ message: "Erro ao criar token de API" });
+    }
+  });
+
+  app.delete("/api/auth/tokens/:id", isAuthenticated, async (req: Request, res: Response) => {
+    try {
+      const revoked = await storage.revokeApiToken(res.locals.user.id, parseInt(req.params.id));
+      if (!revoked) {
+        return res.status(404).json({ message: "Token não encontrado" });
+      }
+      await auditUserAction(req, res, { action: "auth.token_revoked", targetType: "api_token", targetId: parseInt(req.params.id) });
+
+      res.json({ message: "Token revogado" });
+    } catch (error) {
+      console.error("Erro ao revogar token de API:", error);
+      res.status(500).json({ message: "Erro ao revogar token de API" });
+    }
+  });
+
+  // Sessões ativas (dispositivos conectados) do usuário autenticado
+  app.get("/api/auth/sessions", isAuthenticated, async (req: Request, res: Response) => {
+    try {
+      const sessions = await storage.getUserSessionsByUser(res.locals.user.id);
+      res.json(sessions.map(record => serializeSession(record, req.sessionID)));
+    } catch (error) {
+      console.error("Erro ao listar sessões:", error);
+      res.status(500).json({ message: "Erro ao listar sessões" });
+    }
+  });
+
+  // Encerra todas as outras sessões, mantendo a atual
+  app.delete("/api/auth/sessions", isAuthenticated, async (req: Request, res: Response) => {
+    try {
+      const revoked = await destroyUserSessions(res.locals.user.id, req.sessionID);
+      await auditUserAction(req, res, { action: "auth.sessions_revoked", details: { revoked } });
+      res.json({ message: "Sessões encerradas", revoked });
+    } catch (error) {
+      console.error("Erro ao encerrar sessões:", error);
+      res.status(500).json({ message: "Erro ao encerrar sessões" });
+    }
+  });
+
+  app.delete("/api/auth/sessions/:sessionId", isAuthenticated, async (req: Request, res: Response) => {
+    try {
+      if (getSessionPublicId(req.sessionID) === req.params.sessionId) {
+        return res.status(400).json({ message: "Use a opção Sair para encerrar a sessão atual" });
+      }
+
+      if (!(await destroyUserSession(res.locals.user.id, req.params.sessionId))) {
+        return res.status(404).json({ message: "Sessão não encontrada" });
+      }
+      await auditUserAction(req, res, { action: "auth.sessions_revoked", details: { revoked: 1 } });
+
+      res.json({ message: "Sessão encerrada" });
+    } catch (error) {
+      console.error("Erro ao encerrar sessão:", error);
+      res.status(500).json({ message: "Erro ao encerrar sessão" });
+    }
+  });
+
+  // Listar as organizações das quais o usuário participa
+  app.get("/api/auth/organizations", isAuthenticated, async (req: Request, res: Response) => {
+    try {
+      const memberships = await getAcceptedMemberships(res.locals.user.id);
+      
+      const organizations = await Promise.all(memberships.map(async (membership) => {
+        const organization = await storage.getOrganization(membership.organizationId);
+        if (!organization || !organization.active) return null;
+        
+        return {
+          id: organization.id,
+          name: organization.name,
+          slug: organization.slug,
+          logo: organization.logo,
+          primaryColor: organization.primaryColor,
+          role: membership.role,
+          active: organization.id === res.locals.organizationId
+        };
+      }));
+      
+      res.json(organizations.filter(Boolean));
+    } catch (error) {
+      console.error("Erro ao listar organizações do usuário:", error);
+      res.status(500).json({ message: "Erro ao listar organizações" });
+    }
+  });
+
+  // Alternar a organização ativa do usuário
+  app.post("/api/auth/organizations/switch", isAuthenticated, async (req: Request, res: Response) => {
+    try {
+      const organizationId = parseInt(req.body.organizationId);
+      
+      if (isNaN(organizationId)) {
+        return res.status(400).json({ message: "ID da organização é obrigatório" });
+      }
+      
+      // No endereço de uma organização não é possível alternar para outra
+      if (res.locals.tenant && res.locals.tenant.id !== organizationId) {
+        return res.status(403).json({ message: "Acesse o endereço da outra organização para alternar" });
+      }
+      
+      const memberships = await getAcceptedMemberships(res.locals.user.id);
+      const organization = await storage.getOrganization(organizationId);
+      
+      if (!organization || !organization.active || !memberships.some(m => m.organizationId === organizationId)) {
+        return res.status(403).json({ message: "Você não pertence a esta organização" });
+      }
+      
+      await storage.setActiveOrganization(res.locals.user.id, organizationId);
+      req.session.organizationId = organizationId;
+      
+      res.json({
+        message: "Organização alterada com sucesso",
+        organization: {
+          id: organization.id,
+          name: organization.name,
+          slug: organization.slug,
+          logo: organization.logo,
+          primaryColor: organization.primaryColor
+        }
+      });
+    } catch (error) {
+      console.error("Erro ao alternar organização:", error);
+      res.status(500).json({ message: "Erro ao alternar organização" });
+    }
+  });
+
+  // User Routes
+  app.get("/api/users", isAuthenticated, async (req: Request, res: Response) => {
+    try {
+      const query = userListQuerySchema.parse(req.query);
+      const page = await storage.listUsersByOrganization(res.locals.organizationId, { ...query, filter: query.filter ?? {} });
+      // Remove passwords from the response
+      const usersWithoutPasswords = page.items.map(({ password: _, ...user }) => user);
+      res.json({ ...page, items: usersWithoutPasswords });
+    } catch (error) {
+      if (error instanceof z.ZodError) {
+        return res.status(400).json({ message: "Parâmetros de listagem inválidos", errors: error.errors });
+      }
+      console.error("Erro ao listar usuários:", error);
+      res.status(500).json({ message: "Erro ao listar usuários" });
+    }
+  });
+
+  app.post("/api/users", async (req: Request, res: Response) => {
+    try {
+      // Verificar se é o primeiro usuário do sistema
+      const allUsers = await storage.getAllUsers();
+      const isFirstUser = allUsers.length === 0;
+      
+      console.log("Criando usuário. É o primeiro? ", isFirstUser);
+      
+      // Verificar se este é um registro inicial de uma organização 
+      // (owner cadastrado com o token devolvido na criação da organização)
+      const tenant: Organization | undefined = res.locals.tenant;
+      const ownerInvite = !tenant && typeof req.body.ownerToken === 'string'
+        ? await findOwnerInvitation(req.body.ownerToken)
+        : undefined;
+      if (!tenant && req.body.ownerToken !== undefined && !ownerInvite) {
+        return res.status(400).json({ message: "Token de cadastro da organização inválido ou expirado" });
+      }
+      const isOrgRegistration = !!ownerInvite;
+      
+      // Cadastro feito pelo endereço de uma organização (domínio ou /o/:slug)
+      const isTenantSignup = !!tenant && !req.session.userId;
+      if (isTenantSignup && !await isSelfRegistrationAllowed(tenant.id)) {
+        return res.status(403).json({ message: "O cadastro nesta organização é feito apenas por convite" });
+      }
+      
+      // O papel global (users.role) só é escolhido por um administrador da plataforma autenticado;
+      // cadastros, inclusive o do owner de uma nova organização, entram como membro
+      const sessionUser = req.session.userId ? await storage.getUser(req.session.userId) : undefined;
+      const role = sessionUser && isPlatformAdmin(sessionUser) && req.body.role ? req.body.role : 'member';
+      
+      // Validar dados de entrada
+      const validatedData = insertUserSchema.parse({ ...req.body, role });
+      
+      // Se for o primeiro usuário, forçar como admin
+      if (isFirstUser) {
+        validatedData.role = 'admin';
+        console.log("Criando usuário SuperAdmin inicial:", validatedData.username);
+      }
+      
+      // Check if username or email already exists
+      const existingUsername = await storage.getUserByUsername(validatedData.username);
+      if (existingUsername) {
+        return res.status(400).json({ message: "Nome de usuário já existe" });
+      }
+      
+      const existingEmail = await storage.getUserByEmail(validatedData.email);
+      if (existingEmail) {
+        return res.status(400).json({ message: "Email já está em uso" });
+      }
+      
+      // Usuário criado por um membro autenticado entra na organização ativa dele
+      // (ou no tenant do endereço), respeitando o limite de usuários do plano
+      const creatorOrganizationId = isTenantSignup
+        ? tenant!.id
+        : !isOrgRegistration && req.session.userId
+          ? await resolveOrganizationId(req.session.userId, req.session.organizationId)
+          : undefined;
+      // Membros só criam contas com a mesma permissão exigida para convidar
+      if (sessionUser && !isTenantSignup && !isOrgRegistration && !isPlatformAdmin(sessionUser)) {
+        const creatorRole = creatorOrganizationId
+          ? await getOrganizationRole(creatorOrganizationId, sessionUser.id)
+          : undefined;
+        if (!creatorOrganizationId || !(await hasOrganizationPermission(creatorOrganizationId, creatorRole, "member.invite"))) {
+          return res.status(403).json({ message: "Permissão insuficiente para esta operação" });
+        }
+      }
+      if (creatorOrganizationId) {
+        const quotaError = await checkQuota(creatorOrganizationId, "users");
+        if (quotaError) {
+          return sendQuotaError(res, quotaError);
+        }
+      }
+      
+      // Hash da senha antes de salvar
+      try {
+        const { hashPassword } = await import('./auth-utils');
+        validatedData.password = await hashPassword(validatedData.password);
+      } catch (error) {
+        console.error("Erro ao realizar hash da senha:", error);
+        return res.status(500).json({ message: "Erro interno ao processar senha" });
+      }
+      
+      const user = await storage.createUser(validatedData);
+      
+      // Vincular o novo usuário a uma organização
+      if (ownerInvite) {
+        // O convite de owner é de uso único
+        await storage.updateOrganizationMember(ownerInvite.organizationId, ownerInvite.id, {
+          userId: user.id,
+          inviteStatus: 'accepted',
+          inviteToken: null,
+          inviteExpiresAt: null
+        });
+      } else if (creatorOrganizationId) {
+        await storage.addOrganizationMember({
+          organizationId: creatorOrganizationId,
+          userId: user.id,
+          role: "member"
+        });
+      }
+      
+      // Remove password from response
+      const { password: _, ...userWithoutPassword } = user;
+      res.status(201).json(userWithoutPassword);
+    } catch (error) {
+      if (error instanceof z.ZodError) {
+        return res.status(400).json({ message: "Dados inválidos", errors: error.errors });
+      }
+      console.error("Erro ao criar usuário:", error);
+      res.status(500).json({ message: "Erro ao criar usuário" });
+    }
+  });
+
+  // Campos do perfil que um administrador da organização pode alterar em outro membro
+  const MEMBER_PROFILE_FIELDS = ["name", "profession", "avatar"] as const;
+
+  app.put("/api/users/:id", isAuthenticated, async (req: Request, res: Response) => {
+    const userId = parseInt(req.params.id);
+    const isSelf = userId === res.locals.user.id;
+    
+    // Além do próprio usuário, apenas owners e admins da organização ativa (ou o administrador
+    // da plataforma) alteram um usuário, e somente se ele for membro dessa organização
+    if (!isSelf) {
+      const organizationRole = await getOrganizationRole(res.locals.organizationId, res.locals.user.id);
+      const canManageMembers = isPlatformAdmin(res.locals.user) || organizationRole === "owner" || organizationRole === "admin";
+      const targetMemberships = await getAcceptedMemberships(userId);
+      if (!canManageMembers || !targetMemberships.some(m => m.organizationId === res.locals.organizationId)) {
+        return res.status(403).json({ message: "Permissão negada" });
+      }
+    }
+    
+    try {
+      // Em outro membro, apenas os campos do perfil; login, email e senha são do próprio usuário
+      let updateData: Record<string, any> = isSelf
+        ? { ...req.body }
+        : Object.fromEntries(Object.entries(req.body).filter(([field]) => (MEMBER_PROFILE_FIELDS as readonly string[]).includes(field) || field === "role"));
+      // O acesso Super Admin é concedido apenas pelas rotas /api/admin/super-admins
+      delete updateData.isSuperAdmin;
+      // O papel global só é alterado pelo administrador da plataforma
+      if (!isPlatformAdmin(res.locals.user)) {
+        const { role, ...safeData } = updateData;
+        updateData = safeData;
+      }
+      
+      // Se a senha estiver sendo atualizada, fazer o hash
+      if (updateData.password) {
+        try {
+          const { hashPassword } = await import('./auth-utils');
+          updateData.password = await hashPassword(updateData.password);
+        } catch (error) {
+          console.error("Erro ao realizar hash da senha:", error);
+          return res.status(500).json({ message: "Erro interno ao processar senha" });
+        }
+      }
+      
+      const previousUser = await storage.getUser(userId);
+      const updatedUser = await storage.updateUser(userId, updateData);
+      
+      if (!updatedUser) {
+        return res.status(404).json({ message: "Usuário não encontrado" });
+      }
+      
+      if (previousUser && previousUser.role !== updatedUser.role) {
+        await auditUserAction(req, res, {
+          action: "user.role_changed",
+          targetType: "user",
+          targetId: updatedUser.id,
+          targetLabel: updatedUser.username,
+          changes: { role: { from: previousUser.role, to: updatedUser.role } }
+        });
+      }
+      
+      // Remove password from response
+      const { password: _, ...userWithoutPassword } = updatedUser;
+      res.json(userWithoutPassword);
+    } catch (error) {
+      if (error instanceof z.ZodError) {
+        return res.status(400).json({ message: "Dados inválidos", errors: error.errors });
+      }
+      res.status(500).json({ message: "Erro ao atualizar usuário" });
+    }
+  });
+
+  // Uso do plano da organização ativa
+  app.get("/api/organizations/:id/usage", isAuthenticated, isActiveOrganization, requirePermission("organization.manage"), async (req: Request, res: Response) => {
+    try {
+      const usage = await getOrganizationUsage(res.locals.organizationId);
+      res.json(usage);
+    } catch (error) {
+      console.error("Erro ao buscar uso da organização:", error);
+      res.status(500).json({ message: "Erro ao buscar uso da organização" });
+    }
+  });
+
+  // Política de segurança da organização (verificação em duas etapas obrigatória)
+  app.get("/api/organizations/:id/security", isAuthenticated, isActiveOrganization, requirePermission("security.manage"), async (req: Request, res: Response) => {
+    try {
+      const organizationId = res.locals.organizationId;
+      const members = await storage.getUsersByOrganization(organizationId);
+      
+      const membersStatus = await Promise.all(members.map(async (member) => ({
+        id: member.id,
+        name: member.name,
+        email: member.email,
+        twoFactorEnabled: isTwoFactorEnabled(await storage.getUserTwoFactor(member.id)),
+        activeSessions: (await storage.getUserSessionsByUser(member.id)).length
+      })));
+      
+      res.json({
+        requireTwoFactor: await isTwoFactorRequired(organizationId),
+        members: membersStatus
+      });
+    } catch (error) {
+      console.error("Erro ao buscar política de segurança:", error);
+      res.status(500).json({ message: "Erro ao buscar política de segurança" });
+    }
+  });
+
+  app.put("/api/organizations/:id/security", isAuthenticated, isActiveOrganization, requirePermission("security.manage"), async (req: Request, res: Response) => {
+    try {
+      const { requireTwoFactor } = z.object({ requireTwoFactor: z.boolean() }).parse(req.body);
+      const organizationId = res.locals.organizationId;
+      
+      // Quem ativa a exigência precisa ter a verificação ativa para não perder o acesso
+      if (requireTwoFactor && !isTwoFactorEnabled(await storage.getUserTwoFactor(res.locals.user.id))) {
+        return res.status(400).json({ message: "Ative a verificação em duas etapas na sua conta antes de exigi-la da organização" });
+      }
+      
+      const settings = await storage.getOrganizationSettings(organizationId);
+      if (settings) {
+        await storage.updateOrganizationSettings(organizationId, { requireTwoFactor });
+      } else {
+        await storage.createOrganizationSettings({ organizationId, requireTwoFactor });
+      }
+      
+      const previous = !!settings?.requireTwoFactor;
+      if (previous !== requireTwoFactor) {
+        await auditUserAction(req, res, {
+          action: "security.policy_updated",
+          targetType: "organization",
+          targetId: organizationId,
+          changes: { requireTwoFactor: { from: previous, to: requireTwoFactor } }
+        });
+      }
+      
+      res.json({ requireTwoFactor });
+    } catch (error) {
+      if (error instanceof z.ZodError) {
+        return res.status(400).json({ message: "Dados inválidos", errors: error.errors });
+      }
+      console.error("Erro ao atualizar política de segurança:", error);
+      res.status(500).json({ message: "Erro ao atualizar política de segurança" });
+    }
+  });
+
+  // Encerra todas as sessões de um membro da organização (logout forçado)
+  app.delete("/api/organizations/:id/members/:userId/sessions", isAuthenticated, isActiveOrganization, requirePermission("security.manage"), async (req: Request, res: Response) => {
+    try {
+      const userId = parseInt(req.params.userId);
+      const members = await storage.getOrganizationMembers(res.locals.organizationId);
+      const membership = members.find(m => m.userId === userId);
+      
+      if (!membership) {
+        return res.status(404).json({ message: "Membro não encontrado" });
+      }
+      
+      if (membership.role === 'owner' && res.locals.organizationRole !== 'owner') {
+        return res.status(403).json({ message: "Apenas o proprietário pode encerrar as sessões de outro proprietário" });
+      }
+      
+      // Ao encerrar as próprias sessões, a sessão atual é mantida
+      const revoked = await destroyUserSessions(userId, userId === res.locals.user.id ? req.sessionID : undefined);
+      await auditUserAction(req, res, {
+        action: "member.sessions_revoked",
+        targetType: "user",
+        targetId: userId,
+        targetLabel: (await storage.getUser(userId))?.username,
+        details: { revoked }
+      });
+      res.json({ message: "Sessões encerradas", revoked });
+    } catch (error) {
+      console.error("Erro ao encerrar sessões do membro:", error);
+      res.status(500).json({ message: "Erro ao encerrar sessões do membro" });
+    }
+  });
+
+  // Configuração do login único (OpenID Connect) da organização
+  app.get("/api/organizations/:id/sso", isAuthenticated, isActiveOrganization, requirePermission("security.manage"), async (req: Request, res: Response) => {
+    try {
+      const config = await storage.getOrganizationSso(res.locals.organizationId);
+      res.json(serializeSsoSettings(config, getSsoRedirectUri(req)));
+    } catch (error) {
+      console.error("Erro ao buscar configuração de login único:", error);
+      res.status(500).json({ message: "Erro ao buscar configuração de login único" });
+    }
+  });
+
+  app.put("/api/organizations/:id/sso", isAuthenticated, isActiveOrganization, requirePermission("security.manage"), async (req: Request, res: Response) => {
+    try {
+      const data = ssoSettingsSchema.parse(req.body);
+
+      // Só domínios cuja posse a organização comprovou podem entrar pelo login único
+      const verifiedDomains = await getVerifiedDomains(res.locals.organizationId);
+      const unverifiedDomains = data.allowedDomains.filter(domain => !verifiedDomains.includes(domain));
+      if (unverifiedDomains.length > 0) {
+        return res.status(400).json({ message: `Verifique os domínios antes de permiti-los: ${unverifiedDomains.join(", ")}` });
+      }
+
+      if (data.enabled && !(await isIssuerReachable(data.issuer))) {
+        return res.status(400).json({ message: "Não foi possível carregar a configuração do emissor. Verifique a URL." });
+      }
+
+      const previous = await storage.getOrganizationSso(res.locals.organizationId);
+      const config = await saveSsoSettings(res.locals.organizationId, data);
+      await auditUserAction(req, res, {
+        action: "security.sso_updated",
+        targetType: "organization",
+        targetId: res.locals.organizationId,
+        changes: diffChanges(previous, config)
+      });
+      res.json(serializeSsoSettings(config, getSsoRedirectUri(req)));
+    } catch (error) {
+      if (error instanceof z.ZodError) {
+        return res.status(400).json({ message: error.errors[0]?.message || "Dados inválidos", errors: error.errors });
+      }
+      console.error("Erro ao salvar configuração de login único:", error);
+      res.status(500).json({ message: "Erro ao salvar configuração de login único" });
+    }
+  });
+
+  // Domínios de email da organização (verificados por registro TXT no DNS)
+  app.get("/api/organizations/:id/domains", isAuthenticated, isActiveOrganization, requirePermission("security.manage"), async (req: Request, res: Response) => {
+    try {
+      const domains = await storage.getOrganizationDomains(res.locals.organizationId);
+      res.json(domains.map(serializeOrganizationDomain));
+    } catch (error) {
+      console.error("Erro ao listar domínios:", error);
+      res.status(500).json({ message: "Erro ao listar domínios" });
+    }
+  });
+
+  app.post("/api/organizations/:id/domains", isAuthenticated, isActiveOrganization, requirePermission("security.manage"), async (req: Request, res: Response) => {
+    try {
+      const { domain } = organizationDomainSchema.parse(req.body);
+      const existing = await storage.getOrganizationDomains(res.locals.organizationId);
+      if (existing.some(record => record.domain === domain)) {
+        return res.status(409).json({ message: "Este domínio já está cadastrado" });
+      }
+
+      const record = await addOrganizationDomain(res.locals.organizationId, domain);
+      await auditUserAction(req, res, {
+        action: "security.domain_added",
+        targetType: "domain",
+        targetId: record.id,
+        targetLabel: record.domain
+      });
+      res.status(201).json(serializeOrganizationDomain(record));
+    } catch (error) {
+      if (error instanceof z.ZodError) {
+        return res.status(400).json({ message: error.errors[0]?.message || "Dados inválidos", errors: error.errors });
+      }
+      console.error("Erro ao cadastrar domínio:", error);
+      res.status(500).json({ message: "Erro ao cadastrar domínio" });
+    }
+  });
+
+  app.post("/api/organizations/:id/domains/:domainId/verify", isAuthenticated, isActiveOrganization, requirePermission("security.manage"), async (req: Request, res: Response) => {
+    try {
+      const domains = await storage.getOrganizationDomains(res.locals.organizationId);
+      const domain = domains.find(record => record.id === parseInt(req.params.domainId));
+      if (!domain) {
+        return res.status(404).json({ message: "Domínio não encontrado" });
+      }
+
+      const verified = await verifyOrganizationDomain(domain);
+      if (!verified) {
+        return res.status(400).json({ message: "O registro TXT do domínio não foi encontrado. A propagação do DNS pode levar alguns minutos." });
+      }
+
+      if (!domain.verifiedAt) {
+        await auditUserAction(req, res, {
+          action: "security.domain_verified",
+          targetType: "domain",
+          targetId: verified.id,
+          targetLabel: verified.domain
+        });
+      }
+      res.json(serializeOrganizationDomain(verified));
+    } catch (error) {
+      console.error("Erro ao verificar domínio:", error);
+      res.status(500).json({ message: "Erro ao verificar domínio" });
+    }
+  });
+
+  app.delete("/api/organizations/:id/domains/:domainId", isAuthenticated, isActiveOrganization, requirePermission("security.manage"), async (req: Request, res: Response) => {
+    try {
+      const domains = await storage.getOrganizationDomains(res.locals.organizationId);
+      const domain = domains.find(record => record.id === parseInt(req.params.domainId));
+      if (!domain) {
+        return res.status(404).json({ message: "Domínio não encontrado" });
+      }
+
+      await removeOrganizationDomain(domain);
+      await auditUserAction(req, res, {
+        action: "security.domain_removed",
+        targetType: "domain",
+        targetId: domain.id,
+        targetLabel: domain.domain
+      });
+      res.status(204).send();
+    } catch (error) {
+      console.error("Erro ao remover domínio:", error);
+      res.status(500).json({ message: "Erro ao remover domínio" });
+    }
+  });
+
+  // Matriz de permissões da organização (papéis x permissões)
+  app.get("/api/organizations/:id/permissions", isAuthenticated, isActiveOrganization, requirePermission("permission.manage"), async (req: Request, res: Response) => {
+    try {
+      const settings = await storage.getOrganizationSettings(res.locals.organizationId);
+      res.json({
+        matrix: await getPermissionMatrix(res.locals.organizationId),
+        customized: !!settings?.permissions
+      });
+    } catch (error) {
+      console.error("Erro ao carregar matriz de permissões:", error);
+      res.status(500).json({ message: "Erro ao carregar matriz de permissões" });
+    }
+  });
+
+  app.put("/api/organizations/:id/permissions", isAuthenticated, isActiveOrganization, requirePermission("permission.manage"), async (req: Request, res: Response) => {
+    try {
+      const data = permissionMatrixSchema.parse(req.body);
+      const previous = await getPermissionMatrix(res.locals.organizationId);
+      const matrix = await savePermissionMatrix(res.locals.organizationId, data);
+      await auditUserAction(req, res, {
+        action: "permissions.updated",
+        targetType: "organization",
+        targetId: res.locals.organizationId,
+        changes: diffChanges(previous, matrix)
+      });
+      res.json({ matrix, customized: true });
+    } catch (error) {
+      if (error instanceof z.ZodError) {
+        return res.status(400).json({ message: "Matriz de permissões inválida", errors: error.errors });
+      }
+      console.error("Erro ao salvar matriz de permissões:", error);
+      res.status(500).json({ message: "Erro ao salvar matriz de permissões" });
+    }
+  });
+
+  app.delete("/api/organizations/:id/permissions", isAuthenticated, isActiveOrganization, requirePermission("permission.manage"), async (req: Request, res: Response) => {
+    try {
+      const previous = await getPermissionMatrix(res.locals.organizationId);
+      const matrix = await resetPermissionMatrix(res.locals.organizationId);
+      await auditUserAction(req, res, {
+        action: "permissions.reset",
+        targetType: "organization",
+        targetId: res.locals.organizationId,
+        changes: diffChanges(previous, matrix)
+      });
+      res.json({ matrix, customized: false });
+    } catch (error) {
+      console.error("Erro ao restaurar matriz de permissões:", error);
+      res.status(500).json({ message: "Erro ao restaurar matriz de permissões" });
+    }
+  });
+
+  // Registro de auditoria da organização
+  app.get("/api/organizations/:id/audit-logs", isAuthenticated, isActiveOrganization, requirePermission("audit.view"), async (req: Request, res: Response) => {
+    try {
+      const query = auditLogQuerySchema.parse(req.query);
+      const [logs, retentionDays] = await Promise.all([
+        storage.getAuditLogs(toAuditLogFilter(query, res.locals.organizationId)),
+        getOrganizationAuditRetentionDays(res.locals.organizationId)
+      ]);
+      res.json({ logs, retentionDays });
+    } catch (error) {
+      if (error instanceof z.ZodError) {
+        return res.status(400).json({ message: "Filtros inválidos", errors: error.errors });
+      }
+      console.error("Erro ao buscar registro de auditoria:", error);
+      res.status(500).json({ message: "Erro ao buscar registro de auditoria" });
+    }
+  });
+
+  app.get("/api/organizations/:id/audit-logs/export", isAuthenticated, isActiveOrganization, requirePermission("audit.view"), async (req: Request, res: Response) => {
+    try {
+      const query = auditLogQuerySchema.parse({ ...req.query, limit: undefined, offset: undefined });
+      const logs = await storage.getAuditLogs({
+        ...toAuditLogFilter(query, res.locals.organizationId),
+        limit: MAX_EXPORT_ROWS,
+        offset: 0
+      });
+      sendAuditExport(req, res, logs, `auditoria-${res.locals.tenant?.slug || res.locals.organizationId}`);
+    } catch (error) {
+      if (error instanceof z.ZodError) {
+        return res.status(400).json({ message: "Filtros inválidos", errors: error.errors });
+      }
+      console.error("Erro ao exportar registro de auditoria:", error);
+      res.status(500).json({ message: "Erro ao exportar registro de auditoria" });
+    }
+  });
+
+  // Lixeira da organização
+  app.get("/api/organizations/:id/trash", isAuthenticated, isActiveOrganization, requirePermission("trash.manage"), async (req: Request, res: Response) => {
+    try {
+      const organizationId = res.locals.organizationId;
+      const [items, retentionDays, activeProjects] = await Promise.all([
+        storage.getTrash(organizationId),
+        getTrashRetentionDays(organizationId),
+        storage.getAllProjects(organizationId)
+      ]);
+
+      const projectNames = new Map<number, string>(activeProjects.map(project => [project.id, project.name]));
+      items.filter(item => item.type === "project").forEach(item => projectNames.set(item.id, item.name));
+      const userNames = new Map<number, string>();
+      for (const userId of Array.from(new Set(items.map(item => item.deletedBy)))) {
+        const user = userId ? await storage.getUser(userId) : undefined;
+        if (user) userNames.set(user.id, user.name);
+      }
+
+      res.json({
+        items: items.map(item => ({
+          ...item,
+          projectName: item.projectId ? projectNames.get(item.projectId) ?? null : null,
+          deletedByName: item.deletedBy ? userNames.get(item.deletedBy) ?? null : null,
+          purgeAt: new Date(item.deletedAt.getTime() + retentionDays * 86400000)
+        })),
+        retentionDays
+      });
+    } catch (error) {
+      console.error("Erro ao buscar itens da lixeira:", error);
+      res.status(500).json({ message: "Erro ao buscar itens da lixeira" });
+    }
+  });
+
+  app.put("/api/organizations/:id/trash/settings", isAuthenticated, isActiveOrganization, requirePermission("trash.manage"), async (req: Request, res: Response) => {
+    try {
+      const { retentionDays } = trashRetentionSchema.parse(req.body);
+      const previous = await getTrashRetentionDays(res.locals.organizationId);
+      await storage.updateOrganizationSettings(res.locals.organizationId, { trashRetentionDays: retentionDays });
+      await auditUserAction(req, res, {
+        action: "trash.retention_updated",
+        targetType: "organization",
+        targetId: res.locals.organizationId,
+        changes: diffChanges({ retentionDays: previous }, { retentionDays })
+      });
+      res.json({ retentionDays });
+    } catch (error) {
+      if (error instanceof z.ZodError) {
+        return res.status(400).json({ message: error.errors[0]?.message || "Dados inválidos", errors: error.errors });
+      }
+      console.error("Erro ao salvar retenção da lixeira:", error);
+      res.status(500).json({ message: "Erro ao salvar retenção da lixeira" });
+    }
+  });
+
+  app.post("/api/organizations/:id/trash/:type/:itemId/restore", isAuthenticated, isActiveOrganization, requirePermission("trash.manage"), async (req: Request, res: Response) => {
+    try {
+      const organizationId = res.locals.organizationId;
+      const type = trashItemTypeSchema.parse(req.params.type);
+      const item = await storage.getTrashItem(organizationId, type, parseInt(req.params.itemId));
+      if (!item) {
+        return res.status(404).json({ message: "Item não encontrado na lixeira" });
+      }
+
+      // Um item não volta para dentro de um projeto ou tarefa que continua na lixeira
+      if (item.projectId && !(await storage.getProject(organizationId, item.projectId))) {
+        return res.status(409).json({ message: "Restaure primeiro o projeto deste item" });
+      }
+      if (item.taskId && !(await storage.getTask(organizationId, item.taskId))) {
+        return res.status(409).json({ message: "Restaure primeiro a tarefa deste item" });
+      }
+
+      // Projetos na lixeira não contam no limite do plano; restaurar volta a contar
+      if (type === "project") {
+        const quotaError = await checkQuota(organizationId, "projects");
+        if (quotaError) {
+          return sendQuotaError(res, quotaError);
+        }
+      }
+
+      await storage.restoreFromTrash(organizationId, type, item.id);
+      if (item.projectId || type === "project") {
+        await storage.createActivity(organizationId, {
+          userId: res.locals.user.id,
+          projectId: item.projectId ?? item.id,
+          taskId: type === "task" ? item.id : item.taskId,
+          action: "restaurou",
+          subject: "um item da lixeira",
+          details: `${TRASH_ITEM_LABELS[type]}: ${item.name}`
+        });
+      }
+      await auditUserAction(req, res, {
+        action: "trash.restored",
+        targetType: type,
+        targetId: item.id,
+        targetLabel: item.name
+      });
+
+      res.json({ message: "Item restaurado com sucesso" });
+    } catch (error) {
+      if (error instanceof z.ZodError) {
+        return res.status(400).json({ message: "Tipo de item inválido", errors: error.errors });
+      }
+      console.error("Erro ao restaurar item da lixeira:", error);
+      res.status(500).json({ message: "Erro ao restaurar item da lixeira" });
+    }
+  });
+
+  app.delete("/api/organizations/:id/trash/:type/:itemId", isAuthenticated, isActiveOrganization, requirePermission("trash.manage"), async (req: Request, res: Response) => {
+    try {
+      const organizationId = res.locals.organizationId;
+      const type = trashItemTypeSchema.parse(req.params.type);
+      const item = await storage.getTrashItem(organizationId, type, parseInt(req.params.itemId));
+      if (!item || !(await purgeTrashItem(organizationId, type, item.id))) {
+        return res.status(404).json({ message: "Item não encontrado na lixeira" });
+      }
+
+      await auditUserAction(req, res, {
+        action: "trash.purged",
+        targetType: type,
+        targetId: item.id,
+        targetLabel: item.name
+      });
+
+      res.json({ message: "Item excluído definitivamente" });
+    } catch (error) {
+      if (error instanceof z.ZodError) {
+        return res.status(400).json({ message: "Tipo de item inválido", errors: error.errors });
+      }
+      console.error("Erro ao excluir item da lixeira:", error);
+      res.status(500).json({ message: "Erro ao excluir item da lixeira" });
+    }
+  });
+
+  // Organization Invitation Routes
+  app.get("/api/organizations/:id/invites", isAuthenticated, isActiveOrganization, requirePermission("member.invite"), async (req: Request, res: Response) => {
+    try {
+      const members = await storage.getOrganizationMembers(res.locals.organizationId);
+      const invites = members
+        .filter(m => m.inviteStatus === 'pending')
+        .map(toPublicInvitation);
+      
+      res.json(invites);
+    } catch (error) {
+      console.error("Erro ao listar convites:", error);
+      res.status(500).json({ message: "Erro ao listar convites" });
+    }
+  });
+
+  app.post("/api/organizations/:id/invites", isAuthenticated, isActiveOrganization, requirePermission("member.invite"), enforceQuota("users"), async (req: Request, res: Response) => {
+    try {
+      const inviteSchema = z.object({
+        email: z.string().email("Email inválido"),
+        role: z.enum(["admin", "member"])
+      });
+      const { email, role } = inviteSchema.parse(req.body);
+      
+      // Membros com permissão de convite não podem conceder um papel acima do seu
+      if (role === "admin" && res.locals.organizationRole === "member") {
+        return res.status(403).json({ message: "Apenas administradores podem convidar administradores" });
+      }
+      const normalizedEmail = email.trim().toLowerCase();
+      
+      // Verificar se já existe vínculo ou convite para este email
+      const members = await storage.getOrganizationMembers(res.locals.organizationId);
+      const existingUser = await storage.getUserByEmail(normalizedEmail);
+      const matches = members.filter(m =>
+        (existingUser && m.userId === existingUser.id) ||
+        m.inviteEmail?.toLowerCase() === normalizedEmail
+      );
+      const duplicate = matches.find(m => m.inviteStatus !== 'declined');
+      
+      if (duplicate) {
+        return res.status(400).json({
+          message: duplicate.inviteStatus === 'pending'
+            ? "Já existe um convite pendente para este email"
+            : "Este usuário já pertence à organização"
+        });
+      }
+      
+      // Convites recusados anteriormente são substituídos pelo novo
+      for (const declined of matches) {
+        await storage.deleteOrganizationMember(res.locals.organizationId, declined.id);
+      }
+      
+      const invite = await storage.addOrganizationMember({
+        organizationId: res.locals.organizationId,
+        userId: existingUser?.id ?? null,
+        role,
+        inviteEmail: normalizedEmail,
+        inviteStatus: 'pending',
+        invitedBy: res.locals.user.id,
+        activeOrganization: false
+      });
+      
+      const issued = await issueInvitation(invite, res.locals.user, getBaseUrl(req));
+      await auditUserAction(req, res, {
+        action: "member.invited",
+        targetType: "invite",
+        targetId: invite.id,
+        targetLabel: normalizedEmail,
+        details: { role }
+      });
+      res.status(201).json(toPublicInvitation(issued));
+    } catch (error) {
+      if (error instanceof z.ZodError) {
+        return res.status(400).json({ message: "Dados inválidos", errors: error.errors });
+      }
+      console.error("Erro ao criar convite:", error);
+      res.status(500).json({ message: "Erro ao criar convite" });
+    }
+  });
+
+  app.post("/api/organizations/:id/invites/:inviteId/resend", isAuthenticated, isActiveOrganization, requirePermission("member.invite"), async (req: Request, res: Response) => {
+    try {
+      const invite = await storage.getOrganizationMember(res.locals.organizationId, parseInt(req.params.inviteId));
+      
+      if (!invite || invite.inviteStatus !== 'pending') {
+        return res.status(404).json({ message: "Convite não encontrado" });
+      }
+      
+      const issued = await issueInvitation(invite, res.locals.user, getBaseUrl(req));
+      res.json(toPublicInvitation(issued));
+    } catch (error) {
+      console.error("Erro ao reenviar convite:", error);
+      res.status(500).json({ message: "Erro ao reenviar convite" });
+    }
+  });
+
+  app.delete("/api/organizations/:id/invites/:inviteId", isAuthenticated, isActiveOrganization, requirePermission("member.invite"), async (req: Request, res: Response) => {
+    try {
+      const invite = await storage.getOrganizationMember(res.locals.organizationId, parseInt(req.params.inviteId));
+      
+      if (!invite || invite.inviteStatus !== 'pending') {
+        return res.status(404).json({ message: "Convite não encontrado" });
+      }
+      
+      await storage.deleteOrganizationMember(res.locals.organizationId, invite.id);
+      await auditUserAction(req, res, {
+        action: "member.invite_canceled",
+        targetType: "invite",
+        targetId: invite.id,
+        targetLabel: invite.inviteEmail
+      });
+      res.json({ message: "Convite revogado com sucesso" });
+    } catch (error) {
+      console.error("Erro ao revogar convite:", error);
+      res.status(500).json({ message: "Erro ao revogar convite" });
+    }
+  });
+
+  // Consultar um convite a partir do token (rota pública)
+  app.get("/api/invites/:token", async (req: Request, res: Response) => {
+    try {
+      const invite = await findPendingInvitation(req.params.token);
+      if (!invite) {
+        return res.status(404).json({ message: "Convite inválido ou expirado" });
+      }
+      
+      const organization = await storage.getOrganization(invite.organizationId);
+      const existingUser = await storage.getUserByEmail(invite.inviteEmail!);
+      
+      res.json({
+        email: invite.inviteEmail,
+        role: invite.role,
+        organizationName: organization?.name,
+        expiresAt: invite.inviteExpiresAt,
+        hasAccount: !!existingUser
+      });
+    } catch (error) {
+      console.error("Erro ao consultar convite:", error);
+      res.status(500).json({ message: "Erro ao consultar convite" });
+    }
+  });
+
+  // Aceitar um convite, vinculando uma conta existente ou criando uma nova
+  app.post("/api/invites/:token/accept", async (req: Request, res: Response) => {
+    try {
+      const invite = await findPendingInvitation(req.params.token);
+      if (!invite) {
+        return res.status(404).json({ message: "Convite inválido ou expirado" });
+      }
+      
+      const inviteEmail = invite.inviteEmail!.toLowerCase();
+      const existingUser = await storage.getUserByEmail(inviteEmail);
+      let user: User | undefined;
+      
+      if (existingUser) {
+        // Conta existente: o usuário precisa estar autenticado com o mesmo email
+        if (req.session.userId !== existingUser.id) {
+          return res.status(401).json({ message: "Faça login com a conta convidada para aceitar o convite" });
+        }
+        user = existingUser;
+      } else {
+        const accountSchema = z.object({
+          name: z.string().min(2, "Nome deve ter pelo menos 2 caracteres"),
+          username: z.string().min(3, "Username deve ter pelo menos 3 caracteres"),
+          password: z.string().min(6, "Senha deve ter pelo menos 6 caracteres")
+        });
+        const account = accountSchema.parse(req.body);
+        
+        if (await storage.getUserByUsername(account.username)) {
+          return res.status(400).json({ message: "Nome de usuário já existe" });
+        }
+        
+        const { hashPassword } = await import('./auth-utils');
+        user = await storage.createUser({
+          name: account.name,
+          username: account.username,
+          email: inviteEmail,
+          password: await hashPassword(account.password),
+          role: "member"
+        });
+      }
+      
+      await storage.updateOrganizationMember(invite.organizationId, invite.id, {
+        userId: user.id,
+        inviteStatus: 'accepted',
+        inviteToken: null,
+        inviteExpiresAt: null
+      });
+      
+      // A organização do convite passa a ser a ativa
+      await storage.setActiveOrganization(user.id, invite.organizationId);
+      await regenerateSession(req);
+      req.session.userId = user.id;
+      req.session.organizationId = invite.organizationId;
+      recordSessionClient(req);
+      
+      const { password: _, ...userWithoutPassword } = user;
+      res.json(userWithoutPassword);
+    } catch (error) {
+      if (error instanceof z.ZodError) {
+        return res.status(400).json({ message: "Dados inválidos", errors: error.errors });
+      }
+      console.error("Erro ao aceitar convite:", error);
+      res.status(500).json({ message: "Erro ao aceitar convite" });
+    }
+  });
+
+  app.post("/api/invites/:token/decline", async (req: Request, res: Response) => {
+    try {
+      const invite = await findPendingInvitation(req.params.token);
+      if (!invite) {
+        return res.status(404).json({ message: "Convite inválido ou expirado" });
+      }
+      
+      await storage.updateOrganizationMember(invite.organizationId, invite.id, {
+        inviteStatus: 'declined',
+        inviteToken: null,
+        inviteExpiresAt: null
+      });
+      
+      res.json({ message: "Convite recusado" });
+    } catch (error) {
+      console.error("Erro ao recusar convite:", error);
+      res.status(500).json({ message: "Erro ao recusar convite" });
     }
   });
 
   // Project Routes
   app.get("/api/projects", isAuthenticated, async (req: Request, res: Response) => {
-    if (res.locals.user.role === 'admin') {
-      const projects = await storage.getAllProjects();
+    if (isPlatformAdmin(res.locals.user)) {
+      const projects = await storage.getAllProjects(res.locals.organizationId);
       return res.json(projects);
     } else {
-      const projects = await storage.getProjectsByUser(res.locals.user.id);
+      const projects = await storage.getProjectsByUser(res.locals.organizationId, res.locals.user.id);
       return res.json(projects);
     }
   });
 
   app.get("/api/projects/:id", isProjectMember, async (req: Request, res: Response) => {
     const projectId = parseInt(req.params.id);
-    const project = await storage.getProject(projectId);
+    const project = await storage.getProject(res.locals.organizationId, projectId);
     
     if (!project) {
       return res.status(404).json({ message: "Projeto não encontrado" });
     }
     
+    setEtag(res, project);
     res.json(project);
   });
 
-  app.post("/api/projects", isAuthenticated, async (req: Request, res: Response) => {
+  app.post("/api/projects", isAuthenticated, requirePermission("project.create"), enforceQuota("projects"), async (req: Request, res: Response) => {
     console.log("Corpo da requisição:", req.body);
     try {
       // Converter strings de data para objetos Date
@@ -342,10 +1789,10 @@ export async function registerRoutes(app: Express): Promise<Server> {
       });
       
       console.log("Dados validados:", validatedData);
-      const project = await storage.createProject(validatedData);
+      const project = await storage.createProject(res.locals.organizationId, validatedData);
       
       // Create activity
-      await storage.createActivity({
+      await storage.createActivity(res.locals.organizationId, {
         userId: res.locals.user.id,
         projectId: project.id,
         action: "criou",
@@ -363,10 +1810,18 @@ export async function registerRoutes(app: Express): Promise<Server> {
     }
   });
 
-  app.put("/api/projects/:id", isProjectMember, hasProjectRole(['admin', 'manager']), async (req: Request, res: Response) => {
+  app.put("/api/projects/:id", isProjectMember, requirePermission("project.update"), async (req: Request, res: Response) => {
     const projectId = parseInt(req.params.id);
     
     try {
+      const project = await storage.getProject(res.locals.organizationId, projectId);
+      if (!project) {
+        return res.status(404).json({ message: "Projeto não encontrado" });
+      }
+      
+      const expectedVersion = checkIfMatch(req, res, project);
+      if (expectedVersion === false) return;
+      
       // Converter strings de data para objetos Date
       const body = {...req.body};
       if (body.startDate && typeof body.startDate === 'string') {
@@ -376,14 +1831,17 @@ export async function registerRoutes(app: Express): Promise<Server> {
         body.deadline = new Date(body.deadline);
       }
       
-      const updatedProject = await storage.updateProject(projectId, body);
+      const validatedData = insertProjectSchema.omit({ createdBy: true }).partial().parse(body);
+      const updatedProject = await storage.updateProject(res.locals.organizationId, projectId, validatedData, expectedVersion);
       
       if (!updatedProject) {
-        return res.status(404).json({ message: "Projeto não encontrado" });
+        // Alterado entre a leitura e a gravação
+        const current = await storage.getProject(res.locals.organizationId, projectId);
+        return current ? sendVersionConflict(res, current) : res.status(404).json({ message: "Projeto não encontrado" });
       }
       
       // Create activity
-      await storage.createActivity({
+      await storage.createActivity(res.locals.organizationId, {
         userId: res.locals.user.id,
         projectId: projectId,
         action: "atualizou",
@@ -391,6 +1849,7 @@ export async function registerRoutes(app: Express): Promise<Server> {
         details: updatedProject.name
       });
       
+      setEtag(res, updatedProject);
       res.json(updatedProject);
     } catch (error) {
       console.error("Erro ao atualizar projeto:", error);
@@ -401,23 +1860,24 @@ export async function registerRoutes(app: Express): Promise<Server> {
     }
   });
 
-  app.delete("/api/projects/:id", isProjectMember, hasProjectRole(['admin']), async (req: Request, res: Response) => {
+  app.delete("/api/projects/:id", isProjectMember, requirePermission("project.delete"), async (req: Request, res: Response) => {
     const projectId = parseInt(req.params.id);
     
-    const deleted = await storage.deleteProject(projectId);
+    // Vai para a lixeira com as tarefas, arquivos e comentários
+    const deleted = await storage.moveToTrash(res.locals.organizationId, "project", projectId, res.locals.user.id);
     
     if (!deleted) {
       return res.status(404).json({ message: "Projeto não encontrado" });
     }
     
-    res.json({ message: "Projeto excluído com sucesso" });
+    res.json({ message: "Projeto movido para a lixeira" });
   });
 
   // Project Members Routes
   app.get("/api/projects/:projectId/members", isProjectMember, async (req: Request, res: Response) => {
     const projectId = parseInt(req.params.projectId);
     
-    const members = await storage.getProjectMembers(projectId);
+    const members = await storage.getProjectMembers(res.locals.organizationId, projectId);
     
     // Get user details for each member
     const usersPromises = members.map(async (member) => {
@@ -436,7 +1896,7 @@ export async function registerRoutes(app: Express): Promise<Server> {
     res.json(memberDetails);
   });
 
-  app.post("/api/projects/:projectId/members", isProjectMember, hasProjectRole(['admin', 'manager']), async (req: Request, res: Response) => {
+  app.post("/api/projects/:projectId/members", isProjectMember, requirePermission("project.members.manage"), async (req: Request, res: Response) => {
     try {
       const projectId = parseInt(req.params.projectId);
       
@@ -452,8 +1912,14 @@ export async function registerRoutes(app: Express): Promise<Server> {
         return res.status(404).json({ message: "Usuário não encontrado" });
       }
       
+      // Somente membros da mesma organização podem participar do projeto
+      const orgMembers = await storage.getOrganizationMembers(res.locals.organizationId);
+      if (!orgMembers.some(m => m.userId === user.id)) {
+        return res.status(404).json({ message: "Usuário não encontrado" });
+      }
+      
       // Check if user is already a member
-      const members = await storage.getProjectMembers(projectId);
+      const members = await storage.getProjectMembers(res.locals.organizationId, projectId);
       const existingMember = members.find(m => m.userId === validatedData.userId);
       
       if (existingMember) {
@@ -467,10 +1933,10 @@ export async function registerRoutes(app: Express): Promise<Server> {
         });
       }
       
-      const member = await storage.addProjectMember(validatedData);
+      const member = await storage.addProjectMember(res.locals.organizationId, validatedData);
       
       // Create activity
-      await storage.createActivity({
+      await storage.createActivity(res.locals.organizationId, {
         userId: res.locals.user.id,
         projectId,
         action: "adicionou",
@@ -478,6 +1944,14 @@ export async function registerRoutes(app: Express): Promise<Server> {
         details: `${user.name} como ${validatedData.role}`
       });
       
+      await auditUserAction(req, res, {
+        action: "project_member.added",
+        targetType: "user",
+        targetId: user.id,
+        targetLabel: user.username,
+        details: { projectId, role: validatedData.role }
+      });
+      
       res.status(201).json(member);
     } catch (error) {
       if (error instanceof z.ZodError) {
@@ -491,13 +1965,13 @@ export async function registerRoutes(app: Express): Promise<Server> {
     }
   });
 
-  app.delete("/api/projects/:projectId/members/:userId", isProjectMember, hasProjectRole(['admin', 'manager']), async (req: Request, res: Response) => {
+  app.delete("/api/projects/:projectId/members/:userId", isProjectMember, requirePermission("project.members.manage"), async (req: Request, res: Response) => {
     const projectId = parseInt(req.params.projectId);
     const userId = parseInt(req.params.userId);
     
     // Prevent removing the last admin
     if (res.locals.projectRole === 'admin') {
-      const members = await storage.getProjectMembers(projectId);
+      const members = await storage.getProjectMembers(res.locals.organizationId, projectId);
       const admins = members.filter(m => m.role === 'admin');
       
       if (admins.length === 1 && admins[0].userId === userId) {
@@ -505,7 +1979,7 @@ export async function registerRoutes(app: Express): Promise<Server> {
       }
     }
     
-    const removed = await storage.removeProjectMember(projectId, userId);
+    const removed = await storage.removeProjectMember(res.locals.organizationId, projectId, userId);
     
     if (!removed) {
       return res.status(404).json({ message: "Membro não encontrado" });
@@ -515,7 +1989,7 @@ export async function registerRoutes(app: Express): Promise<Server> {
     const user = await storage.getUser(userId);
     
     // Create activity
-    await storage.createActivity({
+    await storage.createActivity(res.locals.organizationId, {
       userId: res.locals.user.id,
       projectId,
       action: "removeu",
@@ -523,10 +1997,18 @@ export async function registerRoutes(app: Express): Promise<Server> {
       details: user ? user.name : `ID: ${userId}`
     });
     
+    await auditUserAction(req, res, {
+      action: "project_member.removed",
+      targetType: "user",
+      targetId: userId,
+      targetLabel: user?.username,
+      details: { projectId }
+    });
+    
     res.json({ message: "Membro removido com sucesso" });
   });
 
-  app.put("/api/projects/:projectId/members/:userId/role", isProjectMember, hasProjectRole(['admin']), async (req: Request, res: Response) => {
+  app.put("/api/projects/:projectId/members/:userId/role", isProjectMember, requirePermission("project.roles.manage"), async (req: Request, res: Response) => {
     try {
       const projectId = parseInt(req.params.projectId);
       const userId = parseInt(req.params.userId);
@@ -546,7 +2028,7 @@ export async function registerRoutes(app: Express): Promise<Server> {
       
       // Prevent changing the last admin
       if (role !== 'admin') {
-        const members = await storage.getProjectMembers(projectId);
+        const members = await storage.getProjectMembers(res.locals.organizationId, projectId);
         const admins = members.filter(m => m.role === 'admin');
         
         if (admins.length === 1 && admins[0].userId === userId) {
@@ -561,21 +2043,21 @@ export async function registerRoutes(app: Express): Promise<Server> {
       }
       
       // Verificar se o usuário é um membro do projeto
-      const members = await storage.getProjectMembers(projectId);
+      const members = await storage.getProjectMembers(res.locals.organizationId, projectId);
       const existingMember = members.find(m => m.userId === userId);
       
       if (!existingMember) {
         return res.status(404).json({ message: "Usuário não é membro deste projeto" });
       }
       
-      const updated = await storage.updateProjectMemberRole(projectId, userId, role);
+      const updated = await storage.updateProjectMemberRole(res.locals.organizationId, projectId, userId, role);
       
       if (!updated) {
         return res.status(404).json({ message: "Falha ao atualizar papel do membro" });
       }
       
       // Create activity
-      await storage.createActivity({
+      await storage.createActivity(res.locals.organizationId, {
         userId: res.locals.user.id,
         projectId,
         action: "atualizou",
@@ -583,6 +2065,15 @@ export async function registerRoutes(app: Express): Promise<Server> {
         details: `${userToUpdate.name} para ${role}`
       });
       
+      await auditUserAction(req, res, {
+        action: "project_member.role_changed",
+        targetType: "user",
+        targetId: userId,
+        targetLabel: userToUpdate.username,
+        changes: existingMember.role !== role ? { role: { from: existingMember.role, to: role } } : null,
+        details: { projectId }
+      });
+      
       res.json({ 
         message: "Função atualizada com sucesso",
         member: {
@@ -600,11 +2091,11 @@ export async function registerRoutes(app: Express): Promise<Server> {
   // Phases Routes
   app.get("/api/projects/:projectId/phases", isProjectMember, async (req: Request, res: Response) => {
     const projectId = parseInt(req.params.projectId);
-    const phases = await storage.getPhases(projectId);
+    const phases = await storage.getPhases(res.locals.organizationId, projectId);
     res.json(phases);
   });
 
-  app.post("/api/projects/:projectId/phases", isProjectMember, hasProjectRole(['admin', 'manager']), async (req: Request, res: Response) => {
+  app.post("/api/projects/:projectId/phases", isProjectMember, requirePermission("phase.manage"), async (req: Request, res: Response) => {
     const projectId = parseInt(req.params.projectId);
     
     try {
@@ -613,10 +2104,10 @@ export async function registerRoutes(app: Express): Promise<Server> {
         projectId
       });
       
-      const phase = await storage.createPhase(validatedData);
+      const phase = await storage.createPhase(res.locals.organizationId, validatedData);
       
       // Create activity
-      await storage.createActivity({
+      await storage.createActivity(res.locals.organizationId, {
         userId: res.locals.user.id,
         projectId,
         action: "criou",
@@ -637,28 +2128,32 @@ export async function registerRoutes(app: Express): Promise<Server> {
     const phaseId = parseInt(req.params.id);
     
     // Get phase to check project permissions
-    const phase = await storage.getPhases(phaseId);
+    const phase = await storage.getPhase(res.locals.organizationId, phaseId);
     if (!phase) {
       return res.status(404).json({ message: "Fase não encontrada" });
     }
     
     // Check if user is a member of the project with proper role
-    const members = await storage.getProjectMembers(phase.projectId);
-    const member = members.find(m => m.userId === res.locals.user.id);
-    
-    if (!member || (member.role !== 'admin' && member.role !== 'manager')) {
+    if (!(await canAccessProject(res, phase.projectId, "phase.manage"))) {
       return res.status(403).json({ message: "Permissão negada" });
     }
     
+    const expectedVersion = checkIfMatch(req, res, phase);
+    if (expectedVersion === false) return;
+    
     try {
-      const updatedPhase = await storage.updatePhase(phaseId, req.body);
+      // A fase continua no mesmo projeto
+      const validatedData = insertPhaseSchema.omit({ projectId: true }).partial().parse(req.body);
+      const updatedPhase = await storage.updatePhase(res.locals.organizationId, phaseId, validatedData, expectedVersion);
       
       if (!updatedPhase) {
-        return res.status(404).json({ message: "Fase não encontrada" });
+        // Alterada entre a leitura e a gravação
+        const current = await storage.getPhase(res.locals.organizationId, phaseId);
+        return current ? sendVersionConflict(res, current) : res.status(404).json({ message: "Fase não encontrada" });
       }
       
       // Create activity
-      await storage.createActivity({
+      await storage.createActivity(res.locals.organizationId, {
         userId: res.locals.user.id,
         projectId: updatedPhase.projectId,
         action: "atualizou",
@@ -666,6 +2161,7 @@ export async function registerRoutes(app: Express): Promise<Server> {
         details: updatedPhase.name
       });
       
+      setEtag(res, updatedPhase);
       res.json(updatedPhase);
     } catch (error) {
       if (error instanceof z.ZodError) {
@@ -679,27 +2175,24 @@ export async function registerRoutes(app: Express): Promise<Server> {
     const phaseId = parseInt(req.params.id);
     
     // Get phase to check project permissions
-    const phase = await storage.getPhases(phaseId);
+    const phase = await storage.getPhase(res.locals.organizationId, phaseId);
     if (!phase) {
       return res.status(404).json({ message: "Fase não encontrada" });
     }
     
     // Check if user is a member of the project with proper role
-    const members = await storage.getProjectMembers(phase.projectId);
-    const member = members.find(m => m.userId === res.locals.user.id);
-    
-    if (!member || (member.role !== 'admin' && member.role !== 'manager')) {
+    if (!(await canAccessProject(res, phase.projectId, "phase.manage"))) {
       return res.status(403).json({ message: "Permissão negada" });
     }
     
-    const deleted = await storage.deletePhase(phaseId);
+    const deleted = await storage.deletePhase(res.locals.organizationId, phaseId);
     
     if (!deleted) {
       return res.status(404).json({ message: "Fase não encontrada" });
     }
     
     // Create activity
-    await storage.createActivity({
+    await storage.createActivity(res.locals.organizationId, {
       userId: res.locals.user.id,
       projectId: phase.projectId,
       action: "removeu",
@@ -713,127 +2206,131 @@ export async function registerRoutes(app: Express): Promise<Server> {
   // Tasks Routes
   app.get("/api/projects/:projectId/tasks", isProjectMember, async (req: Request, res: Response) => {
     const projectId = parseInt(req.params.projectId);
-    const tasks = await storage.getTasksByProject(projectId);
-    res.json(tasks);
+    const tasks = await storage.getTasksByProject(res.locals.organizationId, projectId);
+    res.json(await withTagIds(res.locals.organizationId, await withRollups(res.locals.organizationId, tasks)));
   });
 
   app.get("/api/phases/:phaseId/tasks", isAuthenticated, async (req: Request, res: Response) => {
     const phaseId = parseInt(req.params.phaseId);
     
     // Get phase to check project permissions
-    const phase = await storage.getPhases(phaseId);
+    const phase = await storage.getPhase(res.locals.organizationId, phaseId);
     if (!phase) {
       return res.status(404).json({ message: "Fase não encontrada" });
     }
     
     // Check if user is a member of the project
-    const members = await storage.getProjectMembers(phase.projectId);
-    const member = members.find(m => m.userId === res.locals.user.id);
-    
-    if (!member && res.locals.user.role !== 'admin') {
+    if (!(await canAccessProject(res, phase.projectId))) {
       return res.status(403).json({ message: "Permissão negada" });
     }
     
-    const tasks = await storage.getTasksByPhase(phaseId);
+    const tasks = await storage.getTasksByPhase(res.locals.organizationId, phaseId);
     res.json(tasks);
   });
 
   app.get("/api/tasks/:id", isAuthenticated, async (req: Request, res: Response) => {
     const taskId = parseInt(req.params.id);
-    const task = await storage.getTask(taskId);
+    const task = await storage.getTask(res.locals.organizationId, taskId);
     
     if (!task) {
       return res.status(404).json({ message: "Tarefa não encontrada" });
     }
     
     // Check if user is a member of the project
-    const members = await storage.getProjectMembers(task.projectId);
-    const member = members.find(m => m.userId === res.locals.user.id);
+    if (!(await canAccessProject(res, task.projectId))) {
+      return res.status(403).json({ message: "Permissão negada" });
+    }
+    
+    setEtag(res, task);
+    const [taskWithTags] = await withTagIds(res.locals.organizationId, await withRollups(res.locals.organizationId, [task]));
+    res.json(taskWithTags);
+  });
+
+  // Subtarefas diretas da tarefa, cada uma com o consolidado das suas
+  app.get("/api/tasks/:id/subtasks", isAuthenticated, async (req: Request, res: Response) => {
+    const task = await storage.getTask(res.locals.organizationId, parseInt(req.params.id));
+    if (!task) {
+      return res.status(404).json({ message: "Tarefa não encontrada" });
+    }
     
-    if (!member && res.locals.user.role !== 'admin') {
+    if (!(await canAccessProject(res, task.projectId))) {
       return res.status(403).json({ message: "Permissão negada" });
     }
     
-    res.json(task);
+    const subtasks = (await storage.getSubtasks(res.locals.organizationId, [task.id]))
+      .sort((a, b) => (a.createdAt?.getTime() ?? 0) - (b.createdAt?.getTime() ?? 0));
+    res.json(await withTagIds(res.locals.organizationId, await withRollups(res.locals.organizationId, subtasks)));
   });
 
   app.get("/api/tasks", isAuthenticated, async (req: Request, res: Response) => {
     try {
+      const query = taskListQuerySchema.parse(req.query);
       const userId = res.locals.user.id;
-      // Buscar tarefas do usuário
-      const userTasks = await storage.getTasksByUser(userId);
-      
-      // Buscar projetos do usuário
-      const userProjects = await storage.getProjectsByUser(userId);
-      
-      // Buscar todas as tarefas em todos os projetos do usuário
-      const projectTasks = [];
-      for (const project of userProjects) {
-        const tasks = await storage.getTasksByProject(project.id);
-        projectTasks.push(...tasks);
-      }
-      
-      // Combinar tarefas e remover duplicatas
-      const allTaskIds = new Set();
-      const allTasks = [];
       
-      [...userTasks, ...projectTasks].forEach(task => {
-        if (!allTaskIds.has(task.id)) {
-          allTaskIds.add(task.id);
-          allTasks.push(task);
-        }
+      // Tarefas atribuídas ao usuário e todas as tarefas dos projetos dele
+      const userProjects = await storage.getProjectsByUser(res.locals.organizationId, userId);
+      const page = await storage.listTasks(res.locals.organizationId, {
+        ...query,
+        filter: { ...resolveTaskFilter(query.filter ?? {}, userId), visibleTo: { userId, projectIds: userProjects.map(project => project.id) } }
       });
       
-      res.json(allTasks);
+      res.json({ ...page, items: await withTagIds(res.locals.organizationId, await withRollups(res.locals.organizationId, page.items)) });
     } catch (error) {
+      if (error instanceof z.ZodError) {
+        return res.status(400).json({ message: "Parâmetros de listagem inválidos", errors: error.errors });
+      }
       console.error("Error fetching all tasks:", error);
       res.status(500).json({ message: "Erro ao buscar todas as tarefas" });
     }
   });
 
   app.get("/api/tasks/user/me", isAuthenticated, async (req: Request, res: Response) => {
-    const tasks = await storage.getTasksByUser(res.locals.user.id);
+    const tasks = await storage.getTasksByUser(res.locals.organizationId, res.locals.user.id);
     res.json(tasks);
   });
 
-  app.post("/api/projects/:projectId/tasks", isProjectMember, async (req: Request, res: Response) => {
+  app.post("/api/projects/:projectId/tasks", isProjectMember, requirePermission("task.create"), async (req: Request, res: Response) => {
     const projectId = parseInt(req.params.projectId);
     
     try {
-      // Obter o projeto para associar à organização correta
-      const project = await storage.getProject(projectId);
-      if (!project) {
-        return res.status(404).json({ message: "Projeto não encontrado" });
-      }
-      
       // Converter strings de data para objetos Date
-      const body = {...req.body};
+      const { tagIds: rawTagIds, ...body } = req.body;
       if (body.dueDate && typeof body.dueDate === 'string') {
         body.dueDate = new Date(body.dueDate);
       }
       
+      const { tagIds } = taskTagsSchema.parse({ tagIds: rawTagIds });
       const validatedData = insertTaskSchema.parse({
         ...body,
         projectId,
-        organizationId: project.organizationId || 1, // Usa a organização do projeto ou default
         createdBy: res.locals.user.id // Certifica que o criador é registrado
       });
       
       console.log("Dados de tarefa validados:", validatedData);
       
-      const task = await storage.createTask(validatedData);
+      if (validatedData.parentTaskId) {
+        const parentError = await validateParentTask(res.locals.organizationId, projectId, validatedData.parentTaskId);
+        if (parentError) {
+          return res.status(400).json({ message: parentError });
+        }
+      }
+      
+      const task = await storage.createTask(res.locals.organizationId, validatedData);
+      if (tagIds) {
+        await storage.setTaskTags(res.locals.organizationId, task.id, tagIds);
+      }
       
       // Create activity
-      await storage.createActivity({
+      await storage.createActivity(res.locals.organizationId, {
         userId: res.locals.user.id,
         projectId,
         action: "criou",
         subject: "uma nova tarefa",
-        details: task.name,
-        organizationId: project.organizationId || 1
+        details: task.name
       });
       
-      res.status(201).json(task);
+      const [taskWithTags] = await withTagIds(res.locals.organizationId, [task]);
+      res.status(201).json(taskWithTags);
     } catch (error) {
       console.error("Erro ao criar tarefa:", error);
       if (error instanceof z.ZodError) {
@@ -847,34 +2344,60 @@ export async function registerRoutes(app: Express): Promise<Server> {
     const taskId = parseInt(req.params.id);
     
     // Get task to check project permissions
-    const task = await storage.getTask(taskId);
+    const task = await storage.getTask(res.locals.organizationId, taskId);
     if (!task) {
       return res.status(404).json({ message: "Tarefa não encontrada" });
     }
     
     // Check if user is a member of the project
-    const members = await storage.getProjectMembers(task.projectId);
-    const member = members.find(m => m.userId === res.locals.user.id);
-    
-    if (!member && res.locals.user.role !== 'admin') {
+    if (!(await canAccessProject(res, task.projectId, "task.update"))) {
       return res.status(403).json({ message: "Permissão negada" });
     }
     
+    const expectedVersion = checkIfMatch(req, res, task);
+    if (expectedVersion === false) return;
+    
     try {
       // Converter strings de data para objetos Date
-      const body = {...req.body};
+      const { tagIds: rawTagIds, overrideDependencies, ...body } = req.body;
       if (body.dueDate && typeof body.dueDate === 'string') {
         body.dueDate = new Date(body.dueDate);
       }
       
-      const updatedTask = await storage.updateTask(taskId, body);
+      const { tagIds } = taskTagsSchema.parse({ tagIds: rawTagIds });
+      const { parentTaskId } = taskParentSchema.parse({ parentTaskId: body.parentTaskId });
+      if (parentTaskId) {
+        const parentError = await validateParentTask(res.locals.organizationId, task.projectId, parentTaskId, task.id);
+        if (parentError) {
+          return res.status(400).json({ message: parentError });
+        }
+      }
+      
+      // Dependências abertas impedem a mudança de status, a não ser que o usuário confirme
+      const blockers = body.status && body.status !== task.status
+        ? await findOpenBlockers(res.locals.organizationId, task, body.status)
+        : [];
+      if (blockers.length > 0 && overrideDependencies !== true) {
+        return res.status(409).json({
+          message: "A tarefa depende de tarefas que ainda não foram concluídas ou iniciadas",
+          blockers
+        });
+      }
+      
+      const validatedData = insertTaskSchema.omit({ projectId: true }).partial().parse(body);
+      const updatedTask = await storage.updateTask(res.locals.organizationId, taskId, validatedData, expectedVersion);
       
       if (!updatedTask) {
-        return res.status(404).json({ message: "Tarefa não encontrada" });
+        // Alterada entre a leitura e a gravação
+        const current = await storage.getTask(res.locals.organizationId, taskId);
+        return current ? sendVersionConflict(res, current) : res.status(404).json({ message: "Tarefa não encontrada" });
+      }
+      if (tagIds) {
+        await storage.setTaskTags(res.locals.organizationId, taskId, tagIds);
       }
       
       // Create activity
-      await storage.createActivity({
+      await storage.createActivity(res.locals.organizationId, {
         userId: res.locals.user.id,
         projectId: task.projectId,
         taskId: task.id,
@@ -883,7 +2406,20 @@ export async function registerRoutes(app: Express): Promise<Server> {
         details: updatedTask.name
       });
       
-      res.json(updatedTask);
+      if (blockers.length > 0) {
+        await storage.createActivity(res.locals.organizationId, {
+          userId: res.locals.user.id,
+          projectId: task.projectId,
+          taskId: task.id,
+          action: "ignorou as dependências de",
+          subject: "uma tarefa",
+          details: blockers.map(link => link.task.name).join(", ")
+        });
+      }
+      
+      setEtag(res, updatedTask);
+      const [taskWithTags] = await withTagIds(res.locals.organizationId, [updatedTask]);
+      res.json(taskWithTags);
     } catch (error) {
       console.error("Erro ao atualizar tarefa:", error);
       if (error instanceof z.ZodError) {
@@ -897,35 +2433,113 @@ export async function registerRoutes(app: Express): Promise<Server> {
     const taskId = parseInt(req.params.id);
     
     // Get task to check project permissions
-    const task = await storage.getTask(taskId);
+    const task = await storage.getTask(res.locals.organizationId, taskId);
     if (!task) {
       return res.status(404).json({ message: "Tarefa não encontrada" });
     }
     
     // Check if user is a member of the project with proper role
-    const members = await storage.getProjectMembers(task.projectId);
-    const member = members.find(m => m.userId === res.locals.user.id);
-    
-    if (!member || (member.role !== 'admin' && member.role !== 'manager')) {
+    if (!(await canAccessProject(res, task.projectId, "task.delete"))) {
       return res.status(403).json({ message: "Permissão negada" });
     }
     
-    const deleted = await storage.deleteTask(taskId);
+    const deleted = await storage.moveToTrash(res.locals.organizationId, "task", taskId, res.locals.user.id);
     
     if (!deleted) {
       return res.status(404).json({ message: "Tarefa não encontrada" });
     }
     
     // Create activity
-    await storage.createActivity({
+    await storage.createActivity(res.locals.organizationId, {
       userId: res.locals.user.id,
       projectId: task.projectId,
-      action: "removeu",
+      action: "moveu para a lixeira",
       subject: "uma tarefa",
       details: task.name
     });
     
-    res.json({ message: "Tarefa excluída com sucesso" });
+    res.json({ message: "Tarefa movida para a lixeira" });
+  });
+
+  // Dependências entre tarefas (shared/dependencies.ts)
+  app.get("/api/tasks/:id/dependencies", isAuthenticated, async (req: Request, res: Response) => {
+    const task = await storage.getTask(res.locals.organizationId, parseInt(req.params.id));
+    if (!task) {
+      return res.status(404).json({ message: "Tarefa não encontrada" });
+    }
+    
+    if (!(await canAccessProject(res, task.projectId))) {
+      return res.status(403).json({ message: "Permissão negada" });
+    }
+    
+    res.json(await getDependencyLinks(res.locals.organizationId, task));
+  });
+
+  app.post("/api/tasks/:id/dependencies", isAuthenticated, async (req: Request, res: Response) => {
+    const task = await storage.getTask(res.locals.organizationId, parseInt(req.params.id));
+    if (!task) {
+      return res.status(404).json({ message: "Tarefa não encontrada" });
+    }
+    
+    if (!(await canAccessProject(res, task.projectId, "task.update"))) {
+      return res.status(403).json({ message: "Permissão negada" });
+    }
+    
+    try {
+      const { blockerTaskId, type } = createDependencySchema.parse(req.body);
+      if (blockerTaskId === task.id) {
+        return res.status(400).json({ message: "Uma tarefa não pode depender de si mesma" });
+      }
+      
+      const blocker = await storage.getTask(res.locals.organizationId, blockerTaskId);
+      if (!blocker) {
+        return res.status(404).json({ message: "Tarefa bloqueadora não encontrada" });
+      }
+      if (blocker.projectId !== task.projectId) {
+        return res.status(400).json({ message: "As dependências só podem ligar tarefas do mesmo projeto" });
+      }
+      
+      const links = await storage.getProjectDependencies(res.locals.organizationId, task.projectId);
+      if (links.some(link => link.blockerTaskId === blocker.id && link.blockedTaskId === task.id)) {
+        return res.status(409).json({ message: "Esta dependência já existe" });
+      }
+      if (createsCycle(links, blocker.id, task.id)) {
+        return res.status(409).json({ message: `"${blocker.name}" já depende desta tarefa; a dependência criaria um ciclo` });
+      }
+      
+      const dependency = await storage.createTaskDependency(res.locals.organizationId, {
+        blockerTaskId: blocker.id,
+        blockedTaskId: task.id,
+        type,
+        createdBy: res.locals.user.id
+      });
+      res.status(201).json(toLink(dependency, blocker));
+    } catch (error) {
+      if (error instanceof z.ZodError) {
+        return res.status(400).json({ message: "Dados inválidos", errors: error.errors });
+      }
+      console.error("Erro ao criar dependência:", error);
+      res.status(500).json({ message: "Erro ao criar dependência" });
+    }
+  });
+
+  app.delete("/api/tasks/:id/dependencies/:dependencyId", isAuthenticated, async (req: Request, res: Response) => {
+    const task = await storage.getTask(res.locals.organizationId, parseInt(req.params.id));
+    if (!task) {
+      return res.status(404).json({ message: "Tarefa não encontrada" });
+    }
+    
+    if (!(await canAccessProject(res, task.projectId, "task.update"))) {
+      return res.status(403).json({ message: "Permissão negada" });
+    }
+    
+    const dependency = await storage.getTaskDependency(res.locals.organizationId, parseInt(req.params.dependencyId));
+    if (!dependency || (dependency.blockerTaskId !== task.id && dependency.blockedTaskId !== task.id)) {
+      return res.status(404).json({ message: "Dependência não encontrada" });
+    }
+    
+    await storage.deleteTaskDependency(res.locals.organizationId, dependency.id);
+    res.status(204).end();
   });
 
   // Checklist Items Routes
@@ -933,20 +2547,17 @@ export async function registerRoutes(app: Express): Promise<Server> {
     const taskId = parseInt(req.params.taskId);
     
     // Get task to check project permissions
-    const task = await storage.getTask(taskId);
+    const task = await storage.getTask(res.locals.organizationId, taskId);
     if (!task) {
       return res.status(404).json({ message: "Tarefa não encontrada" });
     }
     
     // Check if user is a member of the project
-    const members = await storage.getProjectMembers(task.projectId);
-    const member = members.find(m => m.userId === res.locals.user.id);
-    
-    if (!member && res.locals.user.role !== 'admin') {
+    if (!(await canAccessProject(res, task.projectId))) {
       return res.status(403).json({ message: "Permissão negada" });
     }
     
-    const items = await storage.getChecklistItems(taskId);
+    const items = await storage.getChecklistItems(res.locals.organizationId, taskId);
     res.json(items);
   });
 
@@ -954,16 +2565,13 @@ export async function registerRoutes(app: Express): Promise<Server> {
     const taskId = parseInt(req.params.taskId);
     
     // Get task to check project permissions
-    const task = await storage.getTask(taskId);
+    const task = await storage.getTask(res.locals.organizationId, taskId);
     if (!task) {
       return res.status(404).json({ message: "Tarefa não encontrada" });
     }
     
     // Check if user is a member of the project
-    const members = await storage.getProjectMembers(task.projectId);
-    const member = members.find(m => m.userId === res.locals.user.id);
-    
-    if (!member && res.locals.user.role !== 'admin') {
+    if (!(await canAccessProject(res, task.projectId, "task.update"))) {
       return res.status(403).json({ message: "Permissão negada" });
     }
     
@@ -973,7 +2581,7 @@ export async function registerRoutes(app: Express): Promise<Server> {
         taskId
       });
       
-      const item = await storage.createChecklistItem(validatedData);
+      const item = await storage.createChecklistItem(res.locals.organizationId, validatedData);
       res.status(201).json(item);
     } catch (error) {
       if (error instanceof z.ZodError) {
@@ -987,26 +2595,25 @@ export async function registerRoutes(app: Express): Promise<Server> {
     const itemId = parseInt(req.params.id);
     
     // We need to get the task, then check project permissions
-    const checklistItems = await storage.getChecklistItems(itemId);
-    if (!checklistItems || checklistItems.length === 0) {
+    const checklistItem = await storage.getChecklistItem(res.locals.organizationId, itemId);
+    if (!checklistItem) {
       return res.status(404).json({ message: "Item de checklist não encontrado" });
     }
     
-    const task = await storage.getTask(checklistItems[0].taskId);
+    const task = await storage.getTask(res.locals.organizationId, checklistItem.taskId);
     if (!task) {
       return res.status(404).json({ message: "Tarefa associada não encontrada" });
     }
     
     // Check if user is a member of the project
-    const members = await storage.getProjectMembers(task.projectId);
-    const member = members.find(m => m.userId === res.locals.user.id);
-    
-    if (!member && res.locals.user.role !== 'admin') {
+    if (!(await canAccessProject(res, task.projectId, "task.update"))) {
       return res.status(403).json({ message: "Permissão negada" });
     }
     
     try {
-      const updatedItem = await storage.updateChecklistItem(itemId, req.body);
+      // O item continua na mesma tarefa
+      const validatedData = insertChecklistItemSchema.omit({ taskId: true }).partial().parse(req.body);
+      const updatedItem = await storage.updateChecklistItem(res.locals.organizationId, itemId, validatedData);
       
       if (!updatedItem) {
         return res.status(404).json({ message: "Item de checklist não encontrado" });
@@ -1025,25 +2632,22 @@ export async function registerRoutes(app: Express): Promise<Server> {
     const itemId = parseInt(req.params.id);
     
     // Similar logic to put method to check permissions
-    const checklistItems = await storage.getChecklistItems(itemId);
-    if (!checklistItems || checklistItems.length === 0) {
+    const checklistItem = await storage.getChecklistItem(res.locals.organizationId, itemId);
+    if (!checklistItem) {
       return res.status(404).json({ message: "Item de checklist não encontrado" });
     }
     
-    const task = await storage.getTask(checklistItems[0].taskId);
+    const task = await storage.getTask(res.locals.organizationId, checklistItem.taskId);
     if (!task) {
       return res.status(404).json({ message: "Tarefa associada não encontrada" });
     }
     
     // Check if user is a member of the project
-    const members = await storage.getProjectMembers(task.projectId);
-    const member = members.find(m => m.userId === res.locals.user.id);
-    
-    if (!member && res.locals.user.role !== 'admin') {
+    if (!(await canAccessProject(res, task.projectId, "task.update"))) {
       return res.status(403).json({ message: "Permissão negada" });
     }
     
-    const deleted = await storage.deleteChecklistItem(itemId);
+    const deleted = await storage.deleteChecklistItem(res.locals.organizationId, itemId);
     
     if (!deleted) {
       return res.status(404).json({ message: "Item de checklist não encontrado" });
@@ -1052,35 +2656,85 @@ export async function registerRoutes(app: Express): Promise<Server> {
     res.json({ message: "Item de checklist excluído com sucesso" });
   });
 
+  // Converte o item em subtarefa da tarefa dele; o item sai da checklist
+  app.post("/api/checklist/:id/subtask", isAuthenticated, async (req: Request, res: Response) => {
+    const itemId = parseInt(req.params.id);
+    
+    const checklistItem = await storage.getChecklistItem(res.locals.organizationId, itemId);
+    if (!checklistItem) {
+      return res.status(404).json({ message: "Item de checklist não encontrado" });
+    }
+    
+    const task = await storage.getTask(res.locals.organizationId, checklistItem.taskId);
+    if (!task) {
+      return res.status(404).json({ message: "Tarefa associada não encontrada" });
+    }
+    
+    // Check if user is a member of the project
+    if (!(await canAccessProject(res, task.projectId, "task.create"))) {
+      return res.status(403).json({ message: "Permissão negada" });
+    }
+    
+    try {
+      const subtask = await storage.convertChecklistItemToSubtask(res.locals.organizationId, itemId, res.locals.user.id);
+      if (!subtask) {
+        return res.status(404).json({ message: "Item de checklist não encontrado" });
+      }
+      
+      await storage.createActivity(res.locals.organizationId, {
+        userId: res.locals.user.id,
+        projectId: task.projectId,
+        taskId: subtask.id,
+        action: "converteu em subtarefa",
+        subject: `um item da checklist de "${task.name}"`,
+        details: subtask.name
+      });
+      
+      res.status(201).json(subtask);
+    } catch (error) {
+      console.error("Erro ao converter item de checklist:", error);
+      res.status(500).json({ message: "Erro ao converter item de checklist em subtarefa" });
+    }
+  });
+
   // Files Routes
   app.get("/api/projects/:projectId/files", isProjectMember, async (req: Request, res: Response) => {
-    const projectId = parseInt(req.params.projectId);
-    const files = await storage.getFilesByProject(projectId);
-    res.json(files);
+    try {
+      const projectId = parseInt(req.params.projectId);
+      const query = fileListQuerySchema.parse(req.query);
+      const page = await storage.listFiles(res.locals.organizationId, {
+        ...query,
+        filter: { ...query.filter, projectId }
+      });
+      res.json(page);
+    } catch (error) {
+      if (error instanceof z.ZodError) {
+        return res.status(400).json({ message: "Parâmetros de listagem inválidos", errors: error.errors });
+      }
+      console.error("Erro ao listar arquivos:", error);
+      res.status(500).json({ message: "Erro ao listar arquivos" });
+    }
   });
 
   app.get("/api/tasks/:taskId/files", isAuthenticated, async (req: Request, res: Response) => {
     const taskId = parseInt(req.params.taskId);
     
     // Get task to check project permissions
-    const task = await storage.getTask(taskId);
+    const task = await storage.getTask(res.locals.organizationId, taskId);
     if (!task) {
       return res.status(404).json({ message: "Tarefa não encontrada" });
     }
     
     // Check if user is a member of the project
-    const members = await storage.getProjectMembers(task.projectId);
-    const member = members.find(m => m.userId === res.locals.user.id);
-    
-    if (!member && res.locals.user.role !== 'admin') {
+    if (!(await canAccessProject(res, task.projectId))) {
       return res.status(403).json({ message: "Permissão negada" });
     }
     
-    const files = await storage.getFilesByTask(taskId);
+    const files = await storage.getFilesByTask(res.locals.organizationId, taskId);
     res.json(files);
   });
 
-  app.post("/api/projects/:projectId/files", isProjectMember, upload.single('file'), async (req: Request, res: Response) => {
+  app.post("/api/projects/:projectId/files", isProjectMember, requirePermission("file.upload"), upload.single('file'), enforceStorageQuota, async (req: Request, res: Response) => {
     const projectId = parseInt(req.params.projectId);
     const { taskId } = req.body;
     
@@ -1090,7 +2744,7 @@ export async function registerRoutes(app: Express): Promise<Server> {
     
     // If taskId is provided, check if it belongs to the project
     if (taskId) {
-      const task = await storage.getTask(parseInt(taskId));
+      const task = await storage.getTask(res.locals.organizationId, parseInt(taskId));
       if (!task || task.projectId !== projectId) {
         return res.status(400).json({ message: "Tarefa não pertence a este projeto" });
       }
@@ -1107,10 +2761,10 @@ export async function registerRoutes(app: Express): Promise<Server> {
         uploadedBy: res.locals.user.id
       };
       
-      const file = await storage.createFile(fileData);
+      const file = await storage.createFile(res.locals.organizationId, fileData);
       
       // Create activity
-      await storage.createActivity({
+      await storage.createActivity(res.locals.organizationId, {
         userId: res.locals.user.id,
         projectId,
         taskId: taskId ? parseInt(taskId) : null,
@@ -1132,17 +2786,14 @@ export async function registerRoutes(app: Express): Promise<Server> {
 
   app.get("/api/files/:id/download", isAuthenticated, async (req: Request, res: Response) => {
     const fileId = parseInt(req.params.id);
-    const file = await storage.getFile(fileId);
+    const file = await storage.getFile(res.locals.organizationId, fileId);
     
     if (!file) {
       return res.status(404).json({ message: "Arquivo não encontrado" });
     }
     
     // Check if user is a member of the project
-    const members = await storage.getProjectMembers(file.projectId);
-    const member = members.find(m => m.userId === res.locals.user.id);
-    
-    if (!member && res.locals.user.role !== 'admin') {
+    if (!(await canAccessProject(res, file.projectId))) {
       return res.status(403).json({ message: "Permissão negada" });
     }
     
@@ -1150,94 +2801,371 @@ export async function registerRoutes(app: Express): Promise<Server> {
     if (!fs.existsSync(file.path)) {
       return res.status(404).json({ message: "Arquivo físico não encontrado" });
     }
-    
-    res.download(file.path, file.name);
+    
+    res.download(file.path, file.name);
+  });
+
+  app.delete("/api/files/:id", isAuthenticated, async (req: Request, res: Response) => {
+    const fileId = parseInt(req.params.id);
+    const file = await storage.getFile(res.locals.organizationId, fileId);
+    
+    if (!file) {
+      return res.status(404).json({ message: "Arquivo não encontrado" });
+    }
+    
+    // The user who uploaded the file can delete it; other members need "file.delete"
+    const isUploader = file.uploadedBy === res.locals.user.id;
+    if (!(await canAccessProject(res, file.projectId, isUploader ? undefined : "file.delete"))) {
+      return res.status(403).json({ message: "Permissão negada" });
+    }
+    
+    try {
+      // O arquivo físico só é apagado quando o item sai da lixeira definitivamente
+      const deleted = await storage.moveToTrash(res.locals.organizationId, "file", fileId, res.locals.user.id);
+      
+      if (!deleted) {
+        return res.status(404).json({ message: "Arquivo não encontrado" });
+      }
+      
+      // Create activity
+      await storage.createActivity(res.locals.organizationId, {
+        userId: res.locals.user.id,
+        projectId: file.projectId,
+        taskId: file.taskId,
+        action: "moveu para a lixeira",
+        subject: "um arquivo",
+        details: file.name
+      });
+      
+      res.json({ message: "Arquivo movido para a lixeira" });
+    } catch (error) {
+      res.status(500).json({ message: "Erro ao excluir arquivo" });
+    }
+  });
+
+  // Activities Routes
+  app.get("/api/activities", isAuthenticated, async (req: Request, res: Response) => {
+    try {
+      const query = activityListQuerySchema.parse(req.query);
+      
+      // Atividades de todos os projetos em que o usuário é membro
+      const userProjects = await storage.getProjectsByUser(res.locals.organizationId, res.locals.user.id);
+      const page = await storage.listActivities(res.locals.organizationId, {
+        ...query,
+        filter: { ...query.filter, projectIds: userProjects.map(project => project.id) }
+      });
+      
+      // Get user details for each activity
+      const activitiesWithUsers = await Promise.all(page.items.map(async (activity) => {
+        const user = await storage.getUser(activity.userId);
+        if (!user) return activity;
+        
+        const { password: _, ...userWithoutPassword } = user;
+        return {
+          ...activity,
+          user: userWithoutPassword
+        };
+      }));
+      
+      return res.json({ ...page, items: activitiesWithUsers });
+    } catch (error) {
+      if (error instanceof z.ZodError) {
+        return res.status(400).json({ message: "Parâmetros de listagem inválidos", errors: error.errors });
+      }
+      return res.status(500).json({ message: "Erro ao buscar atividades", error });
+    }
+  });
+
+  // Busca unificada em projetos, tarefas, comentários, arquivos e fases (contrato em shared/search.ts)
+  app.get("/api/search", isAuthenticated, async (req: Request, res: Response) => {
+    try {
+      const { q, limit, filter } = searchQuerySchema.parse(req.query);
+      const organizationId = res.locals.organizationId;
+      const userId = res.locals.user.id;
+      
+      // Somente projetos em que o usuário é membro, como nas listagens
+      const visibleProjects = isPlatformAdmin(res.locals.user)
+        ? await storage.getAllProjects(organizationId)
+        : await storage.getProjectsByUser(organizationId, userId);
+      
+      // Status existe só em projetos e tarefas; responsável e tags, só em tarefas
+      const types = (filter.type ?? [...SEARCH_RESULT_TYPES]).filter(type =>
+        (!filter.status || type === 'project' || type === 'task') &&
+        ((filter.assignedTo === undefined && !filter.tagIds) || type === 'task'));
+      
+      const terms = searchTerms(q);
+      const candidates = await storage.searchRecords(organizationId, {
+        ...filter,
+        terms,
+        types,
+        visibleTo: { userId, projectIds: visibleProjects.map(project => project.id) },
+        limit: SEARCH_CANDIDATE_LIMIT,
+      });
+      
+      // Nomes de projeto e tarefa exibidos junto aos resultados
+      const projectNames = new Map(visibleProjects.map(project => [project.id, project.name]));
+      const taskNames = new Map(candidates.tasks.map(task => [task.id, task.name]));
+      const missingProjectIds = Array.from(new Set(candidates.tasks.map(task => task.projectId))).filter(id => !projectNames.has(id));
+      const missingTaskIds = Array.from(new Set([...candidates.comments, ...candidates.files].map(record => record.taskId)))
+        .filter((id): id is number => id !== null && !taskNames.has(id));
+      await Promise.all([
+        ...missingProjectIds.map(async (id) => {
+          const project = await storage.getProject(organizationId, id);
+          if (project) projectNames.set(id, project.name);
+        }),
+        ...missingTaskIds.map(async (id) => {
+          const task = await storage.getTask(organizationId, id);
+          if (task) taskNames.set(id, task.name);
+        }),
+      ]);
+      
+      const response: SearchResponse = {
+        results: rankSearchResults(toSearchDocuments(candidates), terms, limit, { projects: projectNames, tasks: taskNames }),
+        counts: {
+          project: candidates.projects.length,
+          task: candidates.tasks.length,
+          comment: candidates.comments.length,
+          file: candidates.files.length,
+          phase: candidates.phases.length,
+        },
+      };
+      res.json(response);
+    } catch (error) {
+      if (error instanceof z.ZodError) {
+        return res.status(400).json({ message: "Parâmetros de busca inválidos", errors: error.errors });
+      }
+      console.error("Erro na busca:", error);
+      res.status(500).json({ message: "Erro ao realizar a busca" });
+    }
+  });
+
+  // Tags de tarefas da organização (shared/tags.ts). Qualquer membro cria tags ao
+  // classificar tarefas; renomear, mesclar e excluir alteram todas as tarefas da organização.
+  app.get("/api/tags", isAuthenticated, async (req: Request, res: Response) => {
+    try {
+      const tags = await storage.getTags(res.locals.organizationId);
+      res.json(tags.map(toTagSummary));
+    } catch (error) {
+      console.error("Erro ao buscar tags:", error);
+      res.status(500).json({ message: "Erro ao buscar tags" });
+    }
+  });
+
+  app.post("/api/tags", isAuthenticated, async (req: Request, res: Response) => {
+    try {
+      const organizationId = res.locals.organizationId;
+      const data = createTagSchema.parse(req.body);
+      
+      const existing = await findTagByName(organizationId, data.name);
+      if (existing) {
+        return res.status(409).json({ message: "Já existe uma tag com este nome", tag: toTagSummary(existing) });
+      }
+      
+      const color = data.color ?? nextTagColor((await storage.getTags(organizationId)).length);
+      const tag = await storage.createTag(organizationId, { name: data.name, color });
+      res.status(201).json(toTagSummary({ ...tag, taskCount: 0 }));
+    } catch (error) {
+      if (error instanceof z.ZodError) {
+        return res.status(400).json({ message: "Dados da tag inválidos", errors: error.errors });
+      }
+      console.error("Erro ao criar tag:", error);
+      res.status(500).json({ message: "Erro ao criar tag" });
+    }
+  });
+
+  app.put("/api/tags/:id", isAuthenticated, requirePermission("tag.manage"), async (req: Request, res: Response) => {
+    try {
+      const organizationId = res.locals.organizationId;
+      const tagId = parseInt(req.params.id);
+      const data = updateTagSchema.parse(req.body);
+      
+      if (data.name && await findTagByName(organizationId, data.name, tagId)) {
+        return res.status(409).json({ message: "Já existe uma tag com este nome. Mescle as duas para juntar as tarefas." });
+      }
+      
+      const tag = await storage.updateTag(organizationId, tagId, data);
+      if (!tag) {
+        return res.status(404).json({ message: "Tag não encontrada" });
+      }
+      
+      const tags = await storage.getTags(organizationId);
+      res.json(toTagSummary(tags.find(summary => summary.id === tag.id) ?? { ...tag, taskCount: 0 }));
+    } catch (error) {
+      if (error instanceof z.ZodError) {
+        return res.status(400).json({ message: "Dados da tag inválidos", errors: error.errors });
+      }
+      console.error("Erro ao atualizar tag:", error);
+      res.status(500).json({ message: "Erro ao atualizar tag" });
+    }
+  });
+
+  // Junta duas tags: as tarefas da tag do endereço passam para targetId, que permanece
+  app.post("/api/tags/:id/merge", isAuthenticated, requirePermission("tag.manage"), async (req: Request, res: Response) => {
+    try {
+      const organizationId = res.locals.organizationId;
+      const sourceId = parseInt(req.params.id);
+      const { targetId } = mergeTagsSchema.parse(req.body);
+      
+      if (sourceId === targetId) {
+        return res.status(400).json({ message: "Escolha outra tag para mesclar" });
+      }
+      
+      const target = await storage.mergeTags(organizationId, sourceId, targetId);
+      if (!target) {
+        return res.status(404).json({ message: "Tag não encontrada" });
+      }
+      
+      const tags = await storage.getTags(organizationId);
+      res.json(toTagSummary(tags.find(summary => summary.id === target.id) ?? { ...target, taskCount: 0 }));
+    } catch (error) {
+      if (error instanceof z.ZodError) {
+        return res.status(400).json({ message: "Dados inválidos", errors: error.errors });
+      }
+      console.error("Erro ao mesclar tags:", error);
+      res.status(500).json({ message: "Erro ao mesclar tags" });
+    }
+  });
+
+  app.delete("/api/tags/:id", isAuthenticated, requirePermission("tag.manage"), async (req: Request, res: Response) => {
+    const deleted = await storage.deleteTag(res.locals.organizationId, parseInt(req.params.id));
+    if (!deleted) {
+      return res.status(404).json({ message: "Tag não encontrada" });
+    }
+    res.status(204).end();
   });
 
-  app.delete("/api/files/:id", isAuthenticated, async (req: Request, res: Response) => {
-    const fileId = parseInt(req.params.id);
-    const file = await storage.getFile(fileId);
-    
-    if (!file) {
-      return res.status(404).json({ message: "Arquivo não encontrado" });
+  // Visões salvas: filtros nomeados de tarefas e projetos (shared/views.ts)
+  const toSavedViewSummary = async (view: SavedView): Promise<SavedViewSummary> => {
+    const owner = await storage.getUser(view.userId);
+    return {
+      id: view.id,
+      name: view.name,
+      target: view.target as SavedViewTarget,
+      filters: view.filters as SavedViewSummary["filters"],
+      shared: view.shared,
+      pinned: view.pinned,
+      onDashboard: view.onDashboard,
+      userId: view.userId,
+      ownerName: owner?.name ?? null,
+    };
+  };
+  
+  // Visão do usuário ou compartilhada com a organização
+  const getVisibleSavedView = async (res: Response, id: number) => {
+    const view = await storage.getSavedView(res.locals.organizationId, id);
+    return view && (view.userId === res.locals.user.id || view.shared) ? view : undefined;
+  };
+
+  app.get("/api/views", isAuthenticated, async (req: Request, res: Response) => {
+    try {
+      const views = await storage.getSavedViews(res.locals.organizationId, res.locals.user.id);
+      res.json(await Promise.all(views.map(toSavedViewSummary)));
+    } catch (error) {
+      console.error("Erro ao buscar visões salvas:", error);
+      res.status(500).json({ message: "Erro ao buscar visões salvas" });
     }
-    
-    // Check if user is a member of the project with proper permissions
-    const members = await storage.getProjectMembers(file.projectId);
-    const member = members.find(m => m.userId === res.locals.user.id);
-    
-    // Only admin, manager, or the user who uploaded the file can delete it
-    if ((!member || (member.role !== 'admin' && member.role !== 'manager' && file.uploadedBy !== res.locals.user.id)) && res.locals.user.role !== 'admin') {
-      return res.status(403).json({ message: "Permissão negada" });
+  });
+
+  app.get("/api/views/:id", isAuthenticated, async (req: Request, res: Response) => {
+    const view = await getVisibleSavedView(res, parseInt(req.params.id));
+    if (!view) {
+      return res.status(404).json({ message: "Visão não encontrada" });
     }
-    
+    res.json(await toSavedViewSummary(view));
+  });
+
+  app.post("/api/views", isAuthenticated, async (req: Request, res: Response) => {
     try {
-      // First try to delete the physical file
-      if (fs.existsSync(file.path)) {
-        await deleteFile(file.path);
+      const data = createSavedViewSchema.parse(req.body);
+      const view = await storage.createSavedView(res.locals.organizationId, { ...data, userId: res.locals.user.id });
+      res.status(201).json(await toSavedViewSummary(view));
+    } catch (error) {
+      if (error instanceof z.ZodError) {
+        return res.status(400).json({ message: "Dados da visão inválidos", errors: error.errors });
       }
-      
-      // Then remove from storage
-      const deleted = await storage.deleteFile(fileId);
-      
-      if (!deleted) {
-        return res.status(404).json({ message: "Arquivo não encontrado" });
+      console.error("Erro ao salvar visão:", error);
+      res.status(500).json({ message: "Erro ao salvar visão" });
+    }
+  });
+
+  // Somente o autor altera ou exclui; as compartilhadas ficam disponíveis aos demais como leitura
+  app.put("/api/views/:id", isAuthenticated, async (req: Request, res: Response) => {
+    try {
+      const view = await getVisibleSavedView(res, parseInt(req.params.id));
+      if (!view) {
+        return res.status(404).json({ message: "Visão não encontrada" });
+      }
+      if (view.userId !== res.locals.user.id) {
+        return res.status(403).json({ message: "Somente o autor pode alterar esta visão" });
       }
       
-      // Create activity
-      await storage.createActivity({
-        userId: res.locals.user.id,
-        projectId: file.projectId,
-        taskId: file.taskId,
-        action: "removeu",
-        subject: "um arquivo",
-        details: file.name
+      const { filters, ...data } = updateSavedViewSchema.parse(req.body);
+      const updatedView = await storage.updateSavedView(res.locals.organizationId, view.id, {
+        ...data,
+        ...(filters !== undefined ? { filters: viewFiltersSchema(view.target as SavedViewTarget).parse(filters) } : {}),
       });
-      
-      res.json({ message: "Arquivo excluído com sucesso" });
+      if (!updatedView) {
+        return res.status(404).json({ message: "Visão não encontrada" });
+      }
+      res.json(await toSavedViewSummary(updatedView));
     } catch (error) {
-      res.status(500).json({ message: "Erro ao excluir arquivo" });
+      if (error instanceof z.ZodError) {
+        return res.status(400).json({ message: "Dados da visão inválidos", errors: error.errors });
+      }
+      console.error("Erro ao atualizar visão:", error);
+      res.status(500).json({ message: "Erro ao atualizar visão" });
     }
   });
 
-  // Activities Routes
-  app.get("/api/activities", isAuthenticated, async (req: Request, res: Response) => {
+  app.delete("/api/views/:id", isAuthenticated, async (req: Request, res: Response) => {
+    const view = await getVisibleSavedView(res, parseInt(req.params.id));
+    if (!view) {
+      return res.status(404).json({ message: "Visão não encontrada" });
+    }
+    if (view.userId !== res.locals.user.id) {
+      return res.status(403).json({ message: "Somente o autor pode excluir esta visão" });
+    }
+    
+    await storage.deleteSavedView(res.locals.organizationId, view.id);
+    res.status(204).end();
+  });
+
+  // Resultado atual da visão para quem a abre (atalhos, widgets e relatórios).
+  // Tarefas seguem o contrato das listagens paginadas (?cursor=&limit=&sort=); projetos vêm em lista.
+  app.get("/api/views/:id/results", isAuthenticated, async (req: Request, res: Response) => {
     try {
-      // Obter todos os projetos que o usuário é membro
-      const userProjects = await storage.getProjectsByUser(res.locals.user.id);
-      const projectIds = userProjects.map(project => project.id);
-      
-      // Obter atividades para todos esses projetos
-      let allActivities: any[] = [];
-      for (const projectId of projectIds) {
-        const projectActivities = await storage.getActivitiesByProject(projectId);
-        allActivities.push(...projectActivities);
-      }
-      
-      // Ordenar por data decrescente
-      allActivities.sort((a, b) => new Date(b.createdAt).getTime() - new Date(a.createdAt).getTime());
-      
-      // Limitar o número de resultados (opcional)
-      const limit = req.query.limit ? parseInt(req.query.limit as string) : undefined;
-      if (limit) {
-        allActivities = allActivities.slice(0, limit);
+      const view = await getVisibleSavedView(res, parseInt(req.params.id));
+      if (!view) {
+        return res.status(404).json({ message: "Visão não encontrada" });
       }
       
-      // Get user details for each activity
-      const activitiesWithUsers = await Promise.all(allActivities.map(async (activity) => {
-        const user = await storage.getUser(activity.userId);
-        if (!user) return activity;
-        
-        const { password: _, ...userWithoutPassword } = user;
-        return {
-          ...activity,
-          user: userWithoutPassword
-        };
-      }));
-      
-      return res.json(activitiesWithUsers);
+      const organizationId = res.locals.organizationId;
+      const userId = res.locals.user.id;
+      const userProjects = isPlatformAdmin(res.locals.user)
+        ? await storage.getAllProjects(organizationId)
+        : await storage.getProjectsByUser(organizationId, userId);
+      
+      if (view.target === 'projects') {
+        const filters = view.filters as ProjectViewFilters;
+        return res.json(userProjects.filter(project => matchesProjectView(project, filters)));
+      }
+      
+      const { cursor, limit, sort } = req.query;
+      const query = taskListQuerySchema.parse({ cursor, limit, sort });
+      const page = await storage.listTasks(organizationId, {
+        ...query,
+        filter: {
+          ...resolveTaskFilter(view.filters as TaskViewFilters, userId),
+          visibleTo: { userId, projectIds: userProjects.map(project => project.id) },
+        },
+      });
+      res.json({ ...page, items: await withTagIds(organizationId, page.items) });
     } catch (error) {
-      return res.status(500).json({ message: "Erro ao buscar atividades", error });
+      if (error instanceof z.ZodError) {
+        return res.status(400).json({ message: "Parâmetros de listagem inválidos", errors: error.errors });
+      }
+      console.error("Erro ao abrir visão:", error);
+      res.status(500).json({ message: "Erro ao abrir visão" });
     }
   });
 
@@ -1245,7 +3173,7 @@ export async function registerRoutes(app: Express): Promise<Server> {
     const projectId = parseInt(req.params.projectId);
     const limit = req.query.limit ? parseInt(req.query.limit as string) : undefined;
     
-    const activities = await storage.getActivitiesByProject(projectId, limit);
+    const activities = await storage.getActivitiesByProject(res.locals.organizationId, projectId, limit);
     
     // Get user details for each activity
     const activitiesWithUsers = await Promise.all(activities.map(async (activity) => {
@@ -1265,7 +3193,7 @@ export async function registerRoutes(app: Express): Promise<Server> {
   // Comments Routes
   app.get("/api/projects/:projectId/comments", isProjectMember, async (req: Request, res: Response) => {
     const projectId = parseInt(req.params.projectId);
-    const comments = await storage.getCommentsByProject(projectId);
+    const comments = await storage.getCommentsByProject(res.locals.organizationId, projectId);
     
     // Get user details for each comment
     const commentsWithUsers = await Promise.all(comments.map(async (comment) => {
@@ -1286,20 +3214,17 @@ export async function registerRoutes(app: Express): Promise<Server> {
     const taskId = parseInt(req.params.taskId);
     
     // Get task to check project permissions
-    const task = await storage.getTask(taskId);
+    const task = await storage.getTask(res.locals.organizationId, taskId);
     if (!task) {
       return res.status(404).json({ message: "Tarefa não encontrada" });
     }
     
     // Check if user is a member of the project
-    const members = await storage.getProjectMembers(task.projectId);
-    const member = members.find(m => m.userId === res.locals.user.id);
-    
-    if (!member && res.locals.user.role !== 'admin') {
+    if (!(await canAccessProject(res, task.projectId))) {
       return res.status(403).json({ message: "Permissão negada" });
     }
     
-    const comments = await storage.getCommentsByTask(taskId);
+    const comments = await storage.getCommentsByTask(res.locals.organizationId, taskId);
     
     // Get user details for each comment
     const commentsWithUsers = await Promise.all(comments.map(async (comment) => {
@@ -1316,7 +3241,7 @@ export async function registerRoutes(app: Express): Promise<Server> {
     res.json(commentsWithUsers);
   });
 
-  app.post("/api/projects/:projectId/comments", isProjectMember, async (req: Request, res: Response) => {
+  app.post("/api/projects/:projectId/comments", isProjectMember, requirePermission("comment.create"), async (req: Request, res: Response) => {
     const projectId = parseInt(req.params.projectId);
     const { taskId, content } = req.body;
     
@@ -1326,14 +3251,14 @@ export async function registerRoutes(app: Express): Promise<Server> {
     
     // If taskId is provided, check if it belongs to the project
     if (taskId) {
-      const task = await storage.getTask(parseInt(taskId));
+      const task = await storage.getTask(res.locals.organizationId, parseInt(taskId));
       if (!task || task.projectId !== projectId) {
         return res.status(400).json({ message: "Tarefa não pertence a este projeto" });
       }
     }
     
     try {
-      const comment = await storage.createComment({
+      const comment = await storage.createComment(res.locals.organizationId, {
         projectId,
         taskId: taskId ? parseInt(taskId) : null,
         userId: res.locals.user.id,
@@ -1361,99 +3286,101 @@ export async function registerRoutes(app: Express): Promise<Server> {
 
   app.delete("/api/comments/:id", isAuthenticated, async (req: Request, res: Response) => {
     const commentId = parseInt(req.params.id);
-    const comment = await storage.getCommentsByProject(commentId);
+    const comment = await storage.getComment(res.locals.organizationId, commentId);
     
     if (!comment) {
       return res.status(404).json({ message: "Comentário não encontrado" });
     }
     
-    // Only the comment author or admin can delete
-    if (comment[0].userId !== res.locals.user.id && res.locals.user.role !== 'admin') {
+    // The comment author can delete it; other members need "comment.delete"
+    const isAuthor = comment.userId === res.locals.user.id;
+    if (!isAuthor && !(comment.projectId && await canAccessProject(res, comment.projectId, "comment.delete"))) {
       return res.status(403).json({ message: "Permissão negada" });
     }
     
-    const deleted = await storage.deleteComment(commentId);
+    const deleted = await storage.moveToTrash(res.locals.organizationId, "comment", commentId, res.locals.user.id);
     
     if (!deleted) {
       return res.status(404).json({ message: "Comentário não encontrado" });
     }
     
-    res.json({ message: "Comentário excluído com sucesso" });
+    res.json({ message: "Comentário movido para a lixeira" });
   });
 
   // Validação de requisições movida para middleware/validation.ts
   
   // API para configurações
+  // Logos das organizações são públicos (exibidos no Login de domínios personalizados)
+  app.use("/uploads/branding", express.static(brandingDir));
+
+  // Identidade visual da organização; disponível sem autenticação
   app.get("/api/settings", async (req: Request, res: Response) => {
     try {
-      // Configurações padrão
-      const defaultSettings = {
-        theme: {
-          primary: "#0ea5e9",
-          variant: "professional",
-          appearance: "light",
-          radius: "0.5",
-        },
-        organization: {
-          name: "LaunchRocket",
-          logo: null,
-        }
-      };
-      
-      res.json(defaultSettings);
+      const organizationId = await resolveBrandingOrganizationId(req, res.locals.tenant);
+      const branding = await getOrganizationBranding(organizationId);
+      res.json(branding);
     } catch (error) {
       console.error("Erro ao buscar configurações:", error);
       res.status(500).json({ message: "Erro ao buscar configurações" });
     }
   });
   
-  app.put("/api/settings", isAuthenticated, async (req: Request, res: Response) => {
+  app.put("/api/settings", isAuthenticated, requirePermission("organization.manage"), async (req: Request, res: Response) => {
     try {
-      // Verificar se o usuário é administrador
-      if (res.locals.user.role !== 'admin') {
-        return res.status(403).json({ message: "Apenas administradores podem alterar as configurações" });
-      }
-      
-      const settings = req.body;
-      // Aqui seria implementada a lógica para salvar as configurações em um banco de dados
-      // Por enquanto, apenas retornamos as configurações recebidas
-      res.json(settings);
+      const data = brandingSchema.parse(req.body);
+      const branding = await updateOrganizationBranding(res.locals.organizationId, data);
+      res.json(branding);
     } catch (error) {
+      if (error instanceof z.ZodError) {
+        return res.status(400).json({ message: "Dados inválidos", errors: error.errors });
+      }
       console.error("Erro ao salvar configurações:", error);
       res.status(500).json({ message: "Erro ao salvar configurações" });
     }
   });
   
-  app.post("/api/settings/logo", isAuthenticated, upload.single('logo'), async (req: Request, res: Response) => {
+  app.post("/api/settings/logo", isAuthenticated, requirePermission("organization.manage"), logoUpload.single('logo'), async (req: Request, res: Response) => {
     try {
-      // Verificar se o usuário é administrador
-      if (res.locals.user.role !== 'admin') {
-        return res.status(403).json({ message: "Apenas administradores podem alterar o logo" });
-      }
-      
       if (!req.file) {
         return res.status(400).json({ message: "Nenhum arquivo enviado" });
       }
       
-      // Retorna o caminho do arquivo
-      res.status(201).json({ 
-        logo: `/uploads/${req.file.filename}` 
-      });
+      const logo = `/uploads/branding/${req.file.filename}`;
+      const previousLogo = await setOrganizationLogo(res.locals.organizationId, logo);
+      
+      // Remover o arquivo do logo anterior
+      if (previousLogo?.startsWith("/uploads/branding/")) {
+        await deleteFile(path.join(brandingDir, path.basename(previousLogo)))
+          .catch(err => console.error("Erro ao remover logo anterior:", err));
+      }
+      
+      res.status(201).json({ logo });
     } catch (error) {
       console.error("Erro ao enviar logo:", error);
       res.status(500).json({ message: "Erro ao enviar logo" });
     }
   });
-
-  // Rotas para Integrações
-  app.get("/api/integrations", isAuthenticated, async (req: Request, res: Response) => {
+  
+  app.delete("/api/settings/logo", isAuthenticated, requirePermission("organization.manage"), async (req: Request, res: Response) => {
     try {
-      // Verificar se o usuário é administrador
-      if (res.locals.user.role !== 'admin') {
-        return res.status(403).json({ message: "Apenas administradores podem visualizar integrações" });
+      const previousLogo = await setOrganizationLogo(res.locals.organizationId, null);
+      
+      if (previousLogo?.startsWith("/uploads/branding/")) {
+        await deleteFile(path.join(brandingDir, path.basename(previousLogo)))
+          .catch(err => console.error("Erro ao remover logo:", err));
       }
       
-      const integrations = await storage.getAllIntegrations();
+      res.json({ message: "Logo removido com sucesso" });
+    } catch (error) {
+      console.error("Erro ao remover logo:", error);
+      res.status(500).json({ message: "Erro ao remover logo" });
+    }
+  });
+
+  // Rotas para Integrações
+  app.get("/api/integrations", isAuthenticated, requirePermission("integration.manage"), async (req: Request, res: Response) => {
+    try {
+      const integrations = await storage.getAllIntegrations(res.locals.organizationId);
       return res.json(integrations);
     } catch (error) {
       console.error("Erro ao obter integrações:", error);
@@ -1461,14 +3388,9 @@ export async function registerRoutes(app: Express): Promise<Server> {
     }
   });
   
-  app.get("/api/integrations/:id", isAuthenticated, async (req: Request, res: Response) => {
+  app.get("/api/integrations/:id", isAuthenticated, requirePermission("integration.manage"), async (req: Request, res: Response) => {
     try {
-      // Verificar se o usuário é administrador
-      if (res.locals.user.role !== 'admin') {
-        return res.status(403).json({ message: "Apenas administradores podem visualizar integrações" });
-      }
-      
-      const integration = await storage.getIntegration(parseInt(req.params.id));
+      const integration = await storage.getIntegration(res.locals.organizationId, parseInt(req.params.id));
       
       if (!integration) {
         return res.status(404).json({ message: "Integração não encontrada" });
@@ -1481,22 +3403,17 @@ export async function registerRoutes(app: Express): Promise<Server> {
     }
   });
   
-  app.post("/api/integrations", isAuthenticated, async (req: Request, res: Response) => {
+  app.post("/api/integrations", isAuthenticated, requirePermission("integration.manage"), async (req: Request, res: Response) => {
     try {
-      // Verificar se o usuário é administrador
-      if (res.locals.user.role !== 'admin') {
-        return res.status(403).json({ message: "Apenas administradores podem criar integrações" });
-      }
-      
       const { type, name, enabled, credentials } = req.body;
       
       // Verificar se já existe uma integração do mesmo tipo
-      const existingIntegration = await storage.getIntegrationByType(type);
+      const existingIntegration = await storage.getIntegrationByType(res.locals.organizationId, type);
       if (existingIntegration) {
         return res.status(400).json({ message: `Já existe uma integração do tipo ${type}` });
       }
       
-      const integration = await storage.createIntegration({
+      const integration = await storage.createIntegration(res.locals.organizationId, {
         type,
         name,
         enabled,
@@ -1504,6 +3421,14 @@ export async function registerRoutes(app: Express): Promise<Server> {
         configuredBy: res.locals.user.id
       });
       
+      await auditUserAction(req, res, {
+        action: "integration.created",
+        targetType: "integration",
+        targetId: integration.id,
+        targetLabel: integration.name || integration.type,
+        changes: diffChanges(null, { type, name, enabled, credentials })
+      });
+      
       return res.status(201).json(integration);
     } catch (error) {
       console.error("Erro ao criar integração:", error);
@@ -1511,15 +3436,10 @@ export async function registerRoutes(app: Express): Promise<Server> {
     }
   });
   
-  app.put("/api/integrations/:id", isAuthenticated, async (req: Request, res: Response) => {
+  app.put("/api/integrations/:id", isAuthenticated, requirePermission("integration.manage"), async (req: Request, res: Response) => {
     try {
-      // Verificar se o usuário é administrador
-      if (res.locals.user.role !== 'admin') {
-        return res.status(403).json({ message: "Apenas administradores podem atualizar integrações" });
-      }
-      
       const id = parseInt(req.params.id);
-      const integration = await storage.getIntegration(id);
+      const integration = await storage.getIntegration(res.locals.organizationId, id);
       
       if (!integration) {
         return res.status(404).json({ message: "Integração não encontrada" });
@@ -1527,7 +3447,7 @@ export async function registerRoutes(app: Express): Promise<Server> {
       
       const { type, name, enabled, credentials } = req.body;
       
-      const updatedIntegration = await storage.updateIntegration(id, {
+      const updatedIntegration = await storage.updateIntegration(res.locals.organizationId, id, {
         type,
         name,
         enabled,
@@ -1535,6 +3455,17 @@ export async function registerRoutes(app: Express): Promise<Server> {
         configuredBy: res.locals.user.id
       });
       
+      await auditUserAction(req, res, {
+        action: "integration.updated",
+        targetType: "integration",
+        targetId: id,
+        targetLabel: integration.name || integration.type,
+        changes: diffChanges(
+          { type: integration.type, name: integration.name, enabled: integration.enabled, credentials: integration.credentials },
+          { type: updatedIntegration?.type, name: updatedIntegration?.name, enabled: updatedIntegration?.enabled, credentials: updatedIntegration?.credentials }
+        )
+      });
+      
       return res.json(updatedIntegration);
     } catch (error) {
       console.error("Erro ao atualizar integração:", error);
@@ -1542,21 +3473,22 @@ export async function registerRoutes(app: Express): Promise<Server> {
     }
   });
   
-  app.delete("/api/integrations/:id", isAuthenticated, async (req: Request, res: Response) => {
+  app.delete("/api/integrations/:id", isAuthenticated, requirePermission("integration.manage"), async (req: Request, res: Response) => {
     try {
-      // Verificar se o usuário é administrador
-      if (res.locals.user.role !== 'admin') {
-        return res.status(403).json({ message: "Apenas administradores podem excluir integrações" });
-      }
-      
       const id = parseInt(req.params.id);
-      const integration = await storage.getIntegration(id);
+      const integration = await storage.getIntegration(res.locals.organizationId, id);
       
       if (!integration) {
         return res.status(404).json({ message: "Integração não encontrada" });
       }
       
-      await storage.deleteIntegration(id);
+      await storage.deleteIntegration(res.locals.organizationId, id);
+      await auditUserAction(req, res, {
+        action: "integration.deleted",
+        targetType: "integration",
+        targetId: id,
+        targetLabel: integration.name || integration.type
+      });
       
       return res.json({ message: "Integração excluída com sucesso" });
     } catch (error) {
@@ -1565,14 +3497,9 @@ export async function registerRoutes(app: Express): Promise<Server> {
     }
   });
   
-  app.post("/api/integrations/whatsapp/test", isAuthenticated, async (req: Request, res: Response) => {
+  app.post("/api/integrations/whatsapp/test", isAuthenticated, requirePermission("integration.manage"), async (req: Request, res: Response) => {
     try {
-      // Verificar se o usuário é administrador
-      if (res.locals.user.role !== 'admin') {
-        return res.status(403).json({ message: "Apenas administradores podem testar integrações" });
-      }
-      
-      const whatsappIntegration = await storage.getIntegrationByType('whatsapp');
+      const whatsappIntegration = await storage.getIntegrationByType(res.locals.organizationId, 'whatsapp');
       
       if (!whatsappIntegration) {
         return res.status(404).json({ message: "Integração WhatsApp não configurada" });
@@ -1634,7 +3561,16 @@ export async function registerRoutes(app: Express): Promise<Server> {
   app.put("/api/admin/settings", isSuperAdmin, async (req: Request, res: Response) => {
     try {
       const settingsData = req.body;
+      const previous = await storage.getAdminSettings() || {};
       const settings = await storage.updateAdminSettings(settingsData);
+      await auditAdminAction(req, res, {
+        action: "admin.settings_updated",
+        targetType: "settings",
+        changes: diffChanges(
+          Object.fromEntries(Object.keys(settingsData).map(key => [key, previous[key] ?? null])),
+          settingsData
+        )
+      });
       return res.json(settings);
     } catch (error) {
       console.error("Erro ao atualizar configurações admin:", error);
@@ -1685,6 +3621,19 @@ export async function registerRoutes(app: Express): Promise<Server> {
   app.put("/api/admin/settings/pricing", isSuperAdmin, async (req: Request, res: Response) => {
     try {
       const { freePlan, starterPlan, proPlan, enterprisePlan } = req.body;
+      const pricingKeys = {
+        freePlan: 'pricing_free_plan',
+        starterPlan: 'pricing_starter_plan',
+        proPlan: 'pricing_pro_plan',
+        enterprisePlan: 'pricing_enterprise_plan'
+      };
+      const previous: Record<string, unknown> = {};
+      const updated: Record<string, unknown> = {};
+      for (const [plan, key] of Object.entries(pricingKeys)) {
+        if (!req.body[plan]) continue;
+        previous[plan] = (await storage.getAdminSetting(key))?.settingValue ?? null;
+        updated[plan] = req.body[plan];
+      }
       
       // Atualizar cada plano no banco de dados
       if (freePlan) {
@@ -1703,6 +3652,12 @@ export async function registerRoutes(app: Express): Promise<Server> {
         await storage.updateAdminSetting('pricing_enterprise_plan', enterprisePlan);
       }
       
+      await auditAdminAction(req, res, {
+        action: "admin.pricing_updated",
+        targetType: "settings",
+        changes: diffChanges(previous, updated)
+      });
+      
       return res.json({
         success: true,
         message: "Configurações de preços atualizadas com sucesso",
@@ -1714,6 +3669,290 @@ export async function registerRoutes(app: Express): Promise<Server> {
     }
   });
 
+  // Resumo de uso por organização
+  app.get("/api/admin/organizations/usage", isSuperAdmin, async (req: Request, res: Response) => {
+    try {
+      const organizations = await storage.getAllOrganizations();
+      const summary = await Promise.all(organizations.map(async (org) => ({
+        id: org.id,
+        name: org.name,
+        slug: org.slug,
+        active: org.active,
+        ...await getOrganizationUsage(org.id)
+      })));
+      
+      return res.json(summary);
+    } catch (error) {
+      console.error("Erro ao buscar uso das organizações:", error);
+      return res.status(500).json({ message: "Erro ao buscar uso das organizações" });
+    }
+  });
+
+  // Bloqueios de login por tentativas repetidas
+  app.get("/api/admin/login-throttles", isSuperAdmin, async (req: Request, res: Response) => {
+    try {
+      res.json(await getActiveLoginThrottles());
+    } catch (error) {
+      console.error("Erro ao listar bloqueios de login:", error);
+      res.status(500).json({ message: "Erro ao listar bloqueios de login" });
+    }
+  });
+
+  app.delete("/api/admin/login-throttles/:id", isSuperAdmin, async (req: Request, res: Response) => {
+    try {
+      const id = parseInt(req.params.id);
+      const throttle = (await storage.getLoginThrottles()).find(record => record.id === id);
+      if (!throttle || !(await storage.deleteLoginThrottle(id))) {
+        return res.status(404).json({ message: "Bloqueio não encontrado" });
+      }
+      await auditAdminAction(req, res, {
+        action: "admin.login_lock_cleared",
+        targetType: "login_throttle",
+        targetId: id,
+        targetLabel: throttle.key,
+        details: { failures: throttle.failures, lockouts: throttle.lockouts }
+      });
+      res.json({ message: "Bloqueio removido" });
+    } catch (error) {
+      console.error("Erro ao remover bloqueio de login:", error);
+      res.status(500).json({ message: "Erro ao remover bloqueio de login" });
+    }
+  });
+
+  // Usuários da plataforma e acesso Super Admin
+  const serializeAdminUser = (user: User) => ({
+    id: user.id,
+    username: user.username,
+    name: user.name,
+    email: user.email,
+    role: user.role,
+    isSuperAdmin: user.isSuperAdmin,
+    createdAt: user.createdAt
+  });
+
+  app.get("/api/admin/users", isSuperAdmin, async (req: Request, res: Response) => {
+    try {
+      const users = await storage.getAllUsers();
+      res.json(users.sort((a, b) => a.name.localeCompare(b.name)).map(serializeAdminUser));
+    } catch (error) {
+      console.error("Erro ao listar usuários:", error);
+      res.status(500).json({ message: "Erro ao listar usuários" });
+    }
+  });
+
+  app.post("/api/admin/super-admins/:userId", isSuperAdmin, async (req: Request, res: Response) => {
+    try {
+      const target = await storage.getUser(parseInt(req.params.userId));
+      if (!target) {
+        return res.status(404).json({ message: "Usuário não encontrado" });
+      }
+      if (target.isSuperAdmin) {
+        return res.json(serializeAdminUser(target));
+      }
+
+      await auditAdminAction(req, res, {
+        action: "superadmin.grant",
+        targetType: "user",
+        targetId: target.id,
+        targetLabel: target.username
+      });
+      const updated = await storage.setUserSuperAdmin(target.id, true);
+      res.json(serializeAdminUser(updated!));
+    } catch (error) {
+      console.error("Erro ao conceder acesso Super Admin:", error);
+      res.status(500).json({ message: "Erro ao conceder acesso Super Admin" });
+    }
+  });
+
+  app.delete("/api/admin/super-admins/:userId", isSuperAdmin, async (req: Request, res: Response) => {
+    try {
+      const target = await storage.getUser(parseInt(req.params.userId));
+      if (!target) {
+        return res.status(404).json({ message: "Usuário não encontrado" });
+      }
+      // Impede também que a plataforma fique sem nenhum Super Admin
+      if (target.id === res.locals.user.id) {
+        return res.status(400).json({ message: "Você não pode remover o seu próprio acesso Super Admin. Peça a outro Super Admin." });
+      }
+      if (!target.isSuperAdmin) {
+        return res.json(serializeAdminUser(target));
+      }
+
+      await auditAdminAction(req, res, {
+        action: "superadmin.revoke",
+        targetType: "user",
+        targetId: target.id,
+        targetLabel: target.username
+      });
+      const updated = await storage.setUserSuperAdmin(target.id, false);
+      res.json(serializeAdminUser(updated!));
+    } catch (error) {
+      console.error("Erro ao remover acesso Super Admin:", error);
+      res.status(500).json({ message: "Erro ao remover acesso Super Admin" });
+    }
+  });
+
+  // Acesso como outro usuário (suporte)
+  app.post("/api/admin/users/:userId/impersonate", isSuperAdmin, async (req: Request, res: Response) => {
+    try {
+      const target = await storage.getUser(parseInt(req.params.userId));
+      if (!target) {
+        return res.status(404).json({ message: "Usuário não encontrado" });
+      }
+      if (target.id === res.locals.user.id) {
+        return res.status(400).json({ message: "Você já está usando esta conta" });
+      }
+      if (target.isSuperAdmin) {
+        return res.status(403).json({ message: "Não é possível acessar a conta de outro Super Admin" });
+      }
+
+      const organizationId = await startImpersonation(req, res.locals.user, target);
+      if (!organizationId) {
+        return res.status(400).json({ message: "O usuário não pertence a nenhuma organização" });
+      }
+
+      // O cliente recarrega no endereço da organização do usuário acessado
+      const organization = await storage.getOrganization(organizationId);
+      req.session.save(() => res.json({
+        message: `Você está acessando a conta de ${target.name}`,
+        organization: organization ? { id: organization.id, name: organization.name, slug: organization.slug } : null
+      }));
+    } catch (error) {
+      console.error("Erro ao iniciar acesso como usuário:", error);
+      res.status(500).json({ message: "Erro ao acessar a conta do usuário" });
+    }
+  });
+
+  // Registro de auditoria de toda a plataforma
+  app.get("/api/admin/audit-logs", isSuperAdmin, async (req: Request, res: Response) => {
+    try {
+      const query = auditLogQuerySchema.parse(req.query);
+      const [logs, organizations] = await Promise.all([
+        storage.getAuditLogs(toAuditLogFilter(query)),
+        storage.getAllOrganizations()
+      ]);
+      const organizationNames = new Map(organizations.map(org => [org.id, org.name]));
+      res.json({
+        logs: logs.map(log => ({
+          ...log,
+          organizationName: log.organizationId ? organizationNames.get(log.organizationId) ?? null : null
+        }))
+      });
+    } catch (error) {
+      if (error instanceof z.ZodError) {
+        return res.status(400).json({ message: "Filtros inválidos", errors: error.errors });
+      }
+      console.error("Erro ao buscar registro de auditoria:", error);
+      res.status(500).json({ message: "Erro ao buscar registro de auditoria" });
+    }
+  });
+
+  app.get("/api/admin/audit-logs/export", isSuperAdmin, async (req: Request, res: Response) => {
+    try {
+      const query = auditLogQuerySchema.parse({ ...req.query, limit: undefined, offset: undefined });
+      const logs = await storage.getAuditLogs({ ...toAuditLogFilter(query), limit: MAX_EXPORT_ROWS, offset: 0 });
+      sendAuditExport(req, res, logs, "auditoria-plataforma");
+    } catch (error) {
+      if (error instanceof z.ZodError) {
+        return res.status(400).json({ message: "Filtros inválidos", errors: error.errors });
+      }
+      console.error("Erro ao exportar registro de auditoria:", error);
+      res.status(500).json({ message: "Erro ao exportar registro de auditoria" });
+    }
+  });
+
+  // Retenção do registro de auditoria por plano (em dias)
+  app.get("/api/admin/audit-retention", isSuperAdmin, async (req: Request, res: Response) => {
+    try {
+      res.json(await getAuditRetention());
+    } catch (error) {
+      console.error("Erro ao buscar retenção da auditoria:", error);
+      res.status(500).json({ message: "Erro ao buscar retenção da auditoria" });
+    }
+  });
+
+  app.put("/api/admin/audit-retention", isSuperAdmin, async (req: Request, res: Response) => {
+    try {
+      const data = auditRetentionSchema.parse(req.body);
+      const previous = await getAuditRetention();
+      const retention = await saveAuditRetention(data);
+      await auditAdminAction(req, res, {
+        action: "admin.audit_retention_updated",
+        targetType: "settings",
+        changes: diffChanges(previous, retention)
+      });
+      res.json(retention);
+    } catch (error) {
+      if (error instanceof z.ZodError) {
+        return res.status(400).json({ message: error.errors[0]?.message || "Dados inválidos", errors: error.errors });
+      }
+      console.error("Erro ao salvar retenção da auditoria:", error);
+      res.status(500).json({ message: "Erro ao salvar retenção da auditoria" });
+    }
+  });
+
+  // Snapshot dos dados em memória (desenvolvimento e demonstrações)
+  const requireMemoryStorage = (req: Request, res: Response, next: NextFunction) => {
+    if (storageDriver !== "memory") {
+      return res.status(400).json({ message: "O snapshot está disponível apenas com o armazenamento em memória (STORAGE_DRIVER=memory)" });
+    }
+    next();
+  };
+
+  app.get("/api/admin/snapshot/status", isSuperAdmin, (req: Request, res: Response) => {
+    res.json({ driver: storageDriver, version: SNAPSHOT_VERSION, ...getSnapshotStatus() });
+  });
+
+  app.get("/api/admin/snapshot", isSuperAdmin, requireMemoryStorage, async (req: Request, res: Response) => {
+    try {
+      await auditAdminAction(req, res, { action: "admin.snapshot_exported", targetType: "snapshot" });
+      const snapshot = createSnapshot(storage as MemStorage);
+      res.setHeader("Content-Disposition", `attachment; filename="snapshot-${snapshot.savedAt.slice(0, 10)}.json"`);
+      res.json(snapshot);
+    } catch (error) {
+      console.error("Erro ao exportar snapshot:", error);
+      res.status(500).json({ message: "Erro ao exportar snapshot" });
+    }
+  });
+
+  // Substitui todos os dados; todas as sessões são encerradas, inclusive a atual
+  app.post("/api/admin/snapshot", isSuperAdmin, requireMemoryStorage, snapshotUpload.single("snapshot"), async (req: Request, res: Response) => {
+    const { file } = req as Request & { file?: { buffer: Buffer } };
+    if (!file) {
+      return res.status(400).json({ message: "Nenhum arquivo enviado" });
+    }
+    
+    let snapshot: StorageSnapshot;
+    try {
+      snapshot = parseSnapshot(JSON.parse(file.buffer.toString("utf-8")));
+    } catch (error) {
+      const message = error instanceof SyntaxError ? "O arquivo não contém um JSON válido" : (error as Error).message;
+      return res.status(400).json({ message });
+    }
+    
+    try {
+      const admin = res.locals.user as User;
+      importSnapshot(storage as MemStorage, snapshot);
+      // O snapshot pode não ter a organização padrão ou um Super Admin
+      await initializeAdmin();
+      await recordAuditLog(req, {
+        organizationId: null,
+        actorId: admin.id,
+        actorName: admin.username,
+        action: "admin.snapshot_imported",
+        targetType: "snapshot",
+        details: { savedAt: snapshot.savedAt }
+      });
+      
+      req.session.destroy(() => {
+        res.json({ message: "Snapshot importado. Entre novamente para continuar.", savedAt: snapshot.savedAt });
+      });
+    } catch (error) {
+      console.error("Erro ao importar snapshot:", error);
+      res.status(500).json({ message: "Erro ao importar snapshot" });
+    }
+  });
+
   // Agências parceiras
   app.get("/api/admin/partner-agencies", isSuperAdmin, async (req: Request, res: Response) => {
     try {
@@ -1823,6 +4062,14 @@ export async function registerRoutes(app: Express): Promise<Server> {
         });
       }
       
+      await auditAdminAction(req, res, {
+        action: "partner_agency.created",
+        targetType: "partner_agency",
+        targetId: agency.id,
+        targetLabel: agency.name,
+        changes: diffChanges(null, mappedData)
+      });
+      
       return res.status(201).json(agency);
     } catch (error) {
       console.error("Erro ao criar agência parceira:", error, (error as any).stack);
@@ -1880,6 +4127,7 @@ export async function registerRoutes(app: Express): Promise<Server> {
       
       console.log("Dados mapeados para atualização de agência:", mappedData);
       
+      const previousAgency = await storage.getPartnerAgency(agencyId);
       const agency = await storage.updatePartnerAgency(agencyId, mappedData);
       if (!agency) {
         return res.status(404).json({ message: "Agência parceira não encontrada" });
@@ -1951,6 +4199,14 @@ export async function registerRoutes(app: Express): Promise<Server> {
       }
       
       console.log("Agência atualizada com sucesso:", agency);
+      await auditAdminAction(req, res, {
+        action: "partner_agency.updated",
+        targetType: "partner_agency",
+        targetId: agency.id,
+        targetLabel: agency.name,
+        changes: diffChanges(previousAgency, agency),
+        details: body.password ? { passwordChanged: true } : null
+      });
       return res.json(agency);
     } catch (error) {
       console.error("Erro ao atualizar agência parceira:", error, (error as any).stack);
@@ -1961,10 +4217,17 @@ export async function registerRoutes(app: Express): Promise<Server> {
   app.delete("/api/admin/partner-agencies/:id", isSuperAdmin, async (req: Request, res: Response) => {
     try {
       const agencyId = parseInt(req.params.id);
+      const agency = await storage.getPartnerAgency(agencyId);
       const success = await storage.deletePartnerAgency(agencyId);
       if (!success) {
         return res.status(404).json({ message: "Agência parceira não encontrada" });
       }
+      await auditAdminAction(req, res, {
+        action: "partner_agency.deleted",
+        targetType: "partner_agency",
+        targetId: agencyId,
+        targetLabel: agency?.name
+      });
       return res.json({ success: true });
     } catch (error) {
       console.error("Erro ao excluir agência parceira:", error);
@@ -2035,6 +4298,21 @@ export async function registerRoutes(app: Express): Promise<Server> {
         integration = await storage.createPaymentIntegration(integrationData);
       }
 
+      await auditAdminAction(req, res, {
+        action: "admin.payment_updated",
+        targetType: "payment_integration",
+        targetId: integration?.id,
+        targetLabel: "Mercado Pago",
+        changes: diffChanges(
+          existingIntegration && {
+            enabled: existingIntegration.enabled,
+            credentials: existingIntegration.credentials,
+            settings: existingIntegration.settings
+          },
+          { enabled, credentials: integrationData.credentials, settings: integrationData.settings }
+        )
+      });
+
       return res.json({
         success: true,
         message: "Configuração salva com sucesso"
@@ -2113,6 +4391,21 @@ export async function registerRoutes(app: Express): Promise<Server> {
         integration = await storage.createPaymentIntegration(integrationData);
       }
 
+      await auditAdminAction(req, res, {
+        action: "admin.payment_updated",
+        targetType: "payment_integration",
+        targetId: integration?.id,
+        targetLabel: "Stripe",
+        changes: diffChanges(
+          existingIntegration && {
+            enabled: existingIntegration.enabled,
+            credentials: existingIntegration.credentials,
+            settings: existingIntegration.settings
+          },
+          { enabled, credentials: integrationData.credentials, settings: integrationData.settings }
+        )
+      });
+
       return res.json({
         success: true,
         message: "Configuração salva com sucesso"
@@ -2132,9 +4425,18 @@ export async function registerRoutes(app: Express): Promise<Server> {
   // Inicializar o sistema de notificações do chatbot
   setupNotificationScheduler();
   
-  // Inicializar WhatsApp Web (se configurado e ativo)
+  // Remover diariamente os registros de auditoria fora da retenção
+  scheduleAuditLogPurge();
+  
+  // Excluir diariamente os itens da lixeira fora da retenção
+  scheduleTrashPurge();
+  
+  // Inicializar WhatsApp Web (se configurado e ativo em alguma organização)
   try {
-    await initWhatsAppWebClient();
+    const [whatsappWebOrganizationId] = await storage.getOrganizationIdsWithIntegration('whatsapp_web');
+    if (whatsappWebOrganizationId) {
+      await initWhatsAppWebClient(whatsappWebOrganizationId);
+    }
     console.log("Sistema de WhatsApp Web inicializado");
   } catch (error) {
     console.error("Erro ao inicializar WhatsApp Web:", error);
@@ -2321,7 +4623,7 @@ export async function registerRoutes(app: Express): Promise<Server> {
   app.get("/api/projects/:projectId/budget-categories", isProjectMember, async (req: Request, res: Response) => {
     try {
       const { projectId } = req.params;
-      const categories = await storage.getBudgetCategoriesByProject(Number(projectId));
+      const categories = await storage.getBudgetCategoriesByProject(res.locals.organizationId, Number(projectId));
       res.json(categories);
     } catch (error: any) {
       res.status(500).json({ message: error.message });
@@ -2332,24 +4634,22 @@ export async function registerRoutes(app: Express): Promise<Server> {
   app.get("/api/budget-categories/:id", isAuthenticated, async (req: Request, res: Response) => {
     try {
       const { id } = req.params;
-      const category = await storage.getBudgetCategory(Number(id));
+      const category = await storage.getBudgetCategory(res.locals.organizationId, Number(id));
       if (!category) {
         return res.status(404).json({ message: "Categoria de orçamento não encontrada" });
       }
       
       // Verificar se o usuário tem acesso ao projeto desta categoria
-      const project = await storage.getProject(category.projectId);
+      const project = await storage.getProject(res.locals.organizationId, category.projectId);
       if (!project) {
         return res.status(404).json({ message: "Projeto não encontrado" });
       }
       
-      const projectMembers = await storage.getProjectMembers(project.id);
-      const isMember = projectMembers.some(member => member.userId === req.user!.id);
-      
-      if (!isMember && req.user!.role !== "admin") {
+      if (!(await canAccessProject(res, project.id))) {
         return res.status(403).json({ message: "Acesso negado a esta categoria de orçamento" });
       }
       
+      setEtag(res, category);
       res.json(category);
     } catch (error: any) {
       res.status(500).json({ message: error.message });
@@ -2357,29 +4657,22 @@ export async function registerRoutes(app: Express): Promise<Server> {
   });
 
   // Criar uma nova categoria de orçamento
-  app.post("/api/projects/:projectId/budget-categories", isProjectMember, hasProjectRole(['admin', 'manager']), async (req: Request, res: Response) => {
+  app.post("/api/projects/:projectId/budget-categories", isProjectMember, requirePermission("budget.manage"), async (req: Request, res: Response) => {
     try {
       const { projectId } = req.params;
       const projectIdNum = Number(projectId);
       
-      // Obter o projeto para associar à organização correta
-      const project = await storage.getProject(projectIdNum);
-      if (!project) {
-        return res.status(404).json({ message: "Projeto não encontrado" });
-      }
-      
       // Validar dados com o schema e incluir campos obrigatórios
       const categoryData = insertBudgetCategorySchema.parse({
         ...req.body,
         projectId: projectIdNum,
-        organizationId: project.organizationId || 1, // Usa o ID da organização do projeto ou default para 1
         createdBy: req.user!.id // Usa o ID do usuário autenticado
       });
       
-      const newCategory = await storage.createBudgetCategory(categoryData);
+      const newCategory = await storage.createBudgetCategory(res.locals.organizationId, categoryData);
       
       // Registrar atividade
-      await storage.createActivity({
+      await storage.createActivity(res.locals.organizationId, {
         userId: req.user!.id,
         action: "create",
         subject: "budget_category",
@@ -2403,31 +4696,38 @@ export async function registerRoutes(app: Express): Promise<Server> {
       const categoryId = Number(id);
       
       // Verificar se a categoria existe
-      const category = await storage.getBudgetCategory(categoryId);
+      const category = await storage.getBudgetCategory(res.locals.organizationId, categoryId);
       if (!category) {
         return res.status(404).json({ message: "Categoria de orçamento não encontrada" });
       }
       
       // Verificar permissões no projeto
-      const projectMembers = await storage.getProjectMembers(category.projectId);
-      const userMember = projectMembers.find(member => member.userId === req.user!.id);
+      const access = await getProjectAccess(res.locals.organizationId, req.user!, category.projectId);
       
-      if (!userMember && req.user!.role !== "admin") {
+      if (!access) {
         return res.status(403).json({ message: "Acesso negado a esta categoria de orçamento" });
       }
       
-      if (userMember && !["admin", "manager"].includes(userMember.role) && req.user!.role !== "admin") {
+      if (!access.can("budget.manage")) {
         return res.status(403).json({ message: "Você não tem permissão para editar categorias de orçamento" });
       }
       
+      const expectedVersion = checkIfMatch(req, res, category);
+      if (expectedVersion === false) return;
+      
       // Validar dados com o schema
       const categoryData = insertBudgetCategorySchema.partial().parse(req.body);
       
       // Atualizar categoria
-      const updatedCategory = await storage.updateBudgetCategory(categoryId, categoryData);
+      const updatedCategory = await storage.updateBudgetCategory(res.locals.organizationId, categoryId, categoryData, expectedVersion);
+      if (!updatedCategory) {
+        // Alterada entre a leitura e a gravação
+        const current = await storage.getBudgetCategory(res.locals.organizationId, categoryId);
+        return current ? sendVersionConflict(res, current) : res.status(404).json({ message: "Categoria de orçamento não encontrada" });
+      }
       
       // Registrar atividade
-      await storage.createActivity({
+      await storage.createActivity(res.locals.organizationId, {
         userId: req.user!.id,
         action: "update",
         subject: "budget_category",
@@ -2435,6 +4735,7 @@ export async function registerRoutes(app: Express): Promise<Server> {
         details: `Atualizou categoria de orçamento: ${category.name}`
       });
       
+      setEtag(res, updatedCategory);
       res.json(updatedCategory);
     } catch (error: any) {
       if (error.name === "ZodError") {
@@ -2451,25 +4752,24 @@ export async function registerRoutes(app: Express): Promise<Server> {
       const categoryId = Number(id);
       
       // Verificar se a categoria existe
-      const category = await storage.getBudgetCategory(categoryId);
+      const category = await storage.getBudgetCategory(res.locals.organizationId, categoryId);
       if (!category) {
         return res.status(404).json({ message: "Categoria de orçamento não encontrada" });
       }
       
       // Verificar permissões no projeto
-      const projectMembers = await storage.getProjectMembers(category.projectId);
-      const userMember = projectMembers.find(member => member.userId === req.user!.id);
+      const access = await getProjectAccess(res.locals.organizationId, req.user!, category.projectId);
       
-      if (!userMember && req.user!.role !== "admin") {
+      if (!access) {
         return res.status(403).json({ message: "Acesso negado a esta categoria de orçamento" });
       }
       
-      if (userMember && !["admin"].includes(userMember.role) && req.user!.role !== "admin") {
+      if (!access.can("budget.delete")) {
         return res.status(403).json({ message: "Você não tem permissão para excluir categorias de orçamento" });
       }
       
       // Verificar se existem despesas associadas
-      const expenses = await storage.getExpensesByCategory(categoryId);
+      const expenses = await storage.getExpensesByCategory(res.locals.organizationId, categoryId);
       if (expenses.length > 0) {
         return res.status(400).json({ 
           message: "Não é possível excluir esta categoria pois existem despesas associadas a ela" 
@@ -2477,10 +4777,10 @@ export async function registerRoutes(app: Express): Promise<Server> {
       }
       
       // Excluir categoria
-      await storage.deleteBudgetCategory(categoryId);
+      await storage.deleteBudgetCategory(res.locals.organizationId, categoryId);
       
       // Registrar atividade
-      await storage.createActivity({
+      await storage.createActivity(res.locals.organizationId, {
         userId: req.user!.id,
         action: "delete",
         subject: "budget_category",
@@ -2502,7 +4802,7 @@ export async function registerRoutes(app: Express): Promise<Server> {
       const { projectId } = req.params;
       const { status, categoryId } = req.query;
       
-      let expenses = await storage.getExpensesByProject(Number(projectId));
+      let expenses = await storage.getExpensesByProject(res.locals.organizationId, Number(projectId));
       
       // Filtrar por status se fornecido
       if (status) {
@@ -2524,20 +4824,18 @@ export async function registerRoutes(app: Express): Promise<Server> {
   app.get("/api/expenses/:id", isAuthenticated, async (req: Request, res: Response) => {
     try {
       const { id } = req.params;
-      const expense = await storage.getExpense(Number(id));
+      const expense = await storage.getExpense(res.locals.organizationId, Number(id));
       
       if (!expense) {
         return res.status(404).json({ message: "Despesa não encontrada" });
       }
       
       // Verificar se o usuário tem acesso ao projeto desta despesa
-      const projectMembers = await storage.getProjectMembers(expense.projectId);
-      const isMember = projectMembers.some(member => member.userId === req.user!.id);
-      
-      if (!isMember && req.user!.role !== "admin") {
+      if (!(await canAccessProject(res, expense.projectId))) {
         return res.status(403).json({ message: "Acesso negado a esta despesa" });
       }
       
+      setEtag(res, expense);
       res.json(expense);
     } catch (error: any) {
       res.status(500).json({ message: error.message });
@@ -2545,7 +4843,7 @@ export async function registerRoutes(app: Express): Promise<Server> {
   });
 
   // Criar uma nova despesa
-  app.post("/api/projects/:projectId/expenses", isProjectMember, async (req: Request, res: Response) => {
+  app.post("/api/projects/:projectId/expenses", isProjectMember, requirePermission("expense.create"), async (req: Request, res: Response) => {
     try {
       const { projectId } = req.params;
       const projectIdNum = Number(projectId);
@@ -2559,7 +4857,7 @@ export async function registerRoutes(app: Express): Promise<Server> {
       
       // Verificar se a categoria existe e pertence ao projeto
       if (expenseData.categoryId) {
-        const category = await storage.getBudgetCategory(expenseData.categoryId);
+        const category = await storage.getBudgetCategory(res.locals.organizationId, expenseData.categoryId);
         if (!category) {
           return res.status(404).json({ message: "Categoria de orçamento não encontrada" });
         }
@@ -2571,10 +4869,10 @@ export async function registerRoutes(app: Express): Promise<Server> {
         }
       }
       
-      const newExpense = await storage.createExpense(expenseData);
+      const newExpense = await storage.createExpense(res.locals.organizationId, expenseData);
       
       // Registrar atividade
-      await storage.createActivity({
+      await storage.createActivity(res.locals.organizationId, {
         userId: req.user!.id,
         action: "create",
         subject: "expense",
@@ -2598,35 +4896,43 @@ export async function registerRoutes(app: Express): Promise<Server> {
       const expenseId = Number(id);
       
       // Verificar se a despesa existe
-      const expense = await storage.getExpense(expenseId);
+      const expense = await storage.getExpense(res.locals.organizationId, expenseId);
       if (!expense) {
         return res.status(404).json({ message: "Despesa não encontrada" });
       }
       
       // Verificar permissões no projeto
-      const projectMembers = await storage.getProjectMembers(expense.projectId);
-      const userMember = projectMembers.find(member => member.userId === req.user!.id);
+      const access = await getProjectAccess(res.locals.organizationId, req.user!, expense.projectId);
       
-      if (!userMember && req.user!.role !== "admin") {
+      if (!access) {
         return res.status(403).json({ message: "Acesso negado a esta despesa" });
       }
       
       // Verificar se o usuário tem permissão para editar despesas
       // - Criador da despesa pode editar
-      // - Admin/Manager do projeto pode editar qualquer despesa
+      // - Quem tem "expense.update" no projeto pode editar qualquer despesa
       const isCreator = expense.createdBy === req.user!.id;
-      const hasEditAccess = userMember && ["admin", "manager"].includes(userMember.role);
       
-      if (!isCreator && !hasEditAccess && req.user!.role !== "admin") {
+      if (!isCreator && !access.can("expense.update")) {
         return res.status(403).json({ message: "Você não tem permissão para editar esta despesa" });
       }
       
+      const expectedVersion = checkIfMatch(req, res, expense);
+      if (expectedVersion === false) return;
+      
       // Validar dados com o schema
       const expenseData = insertExpenseSchema.partial().parse(req.body);
       
+      // Aprovar, rejeitar ou marcar como paga exige "expense.approve"
+      const reviewStatuses = ["approved", "rejected", "paid"];
+      if (expenseData.status && expenseData.status !== expense.status &&
+          reviewStatuses.includes(expenseData.status) && !access.can("expense.approve")) {
+        return res.status(403).json({ message: "Você não tem permissão para alterar o status desta despesa" });
+      }
+      
       // Verificar se a categoria existe e pertence ao projeto se estiver sendo atualizada
       if (expenseData.categoryId) {
-        const category = await storage.getBudgetCategory(expenseData.categoryId);
+        const category = await storage.getBudgetCategory(res.locals.organizationId, expenseData.categoryId);
         if (!category) {
           return res.status(404).json({ message: "Categoria de orçamento não encontrada" });
         }
@@ -2639,10 +4945,15 @@ export async function registerRoutes(app: Express): Promise<Server> {
       }
       
       // Atualizar despesa
-      const updatedExpense = await storage.updateExpense(expenseId, expenseData);
+      const updatedExpense = await storage.updateExpense(res.locals.organizationId, expenseId, expenseData, expectedVersion);
+      if (!updatedExpense) {
+        // Alterada entre a leitura e a gravação
+        const current = await storage.getExpense(res.locals.organizationId, expenseId);
+        return current ? sendVersionConflict(res, current) : res.status(404).json({ message: "Despesa não encontrada" });
+      }
       
       // Registrar atividade
-      await storage.createActivity({
+      await storage.createActivity(res.locals.organizationId, {
         userId: req.user!.id,
         action: "update",
         subject: "expense",
@@ -2650,6 +4961,7 @@ export async function registerRoutes(app: Express): Promise<Server> {
         details: `Atualizou despesa: ${expense.description}`
       });
       
+      setEtag(res, updatedExpense);
       res.json(updatedExpense);
     } catch (error: any) {
       if (error.name === "ZodError") {
@@ -2666,7 +4978,7 @@ export async function registerRoutes(app: Express): Promise<Server> {
       const expenseId = Number(id);
       
       // Verificar se a despesa existe
-      const expense = await storage.getExpense(expenseId);
+      const expense = await storage.getExpense(res.locals.organizationId, expenseId);
       if (!expense) {
         return res.status(404).json({ message: "Despesa não encontrada" });
       }
@@ -2679,21 +4991,17 @@ export async function registerRoutes(app: Express): Promise<Server> {
       }
       
       // Verificar permissões no projeto
-      const projectMembers = await storage.getProjectMembers(expense.projectId);
-      const userMember = projectMembers.find(member => member.userId === req.user!.id);
-      
-      // Somente admin/manager do projeto ou admin do sistema podem aprovar despesas
-      if ((!userMember || !["admin", "manager"].includes(userMember.role)) && req.user!.role !== "admin") {
+      if (!(await canAccessProject(res, expense.projectId, "expense.approve"))) {
         return res.status(403).json({ 
           message: "Você não tem permissão para aprovar despesas neste projeto" 
         });
       }
       
       // Aprovar despesa
-      const approvedExpense = await storage.approveExpense(expenseId, req.user!.id);
+      const approvedExpense = await storage.approveExpense(res.locals.organizationId, expenseId, req.user!.id);
       
       // Registrar atividade
-      await storage.createActivity({
+      await storage.createActivity(res.locals.organizationId, {
         userId: req.user!.id,
         action: "approve",
         subject: "expense",
@@ -2714,24 +5022,23 @@ export async function registerRoutes(app: Express): Promise<Server> {
       const expenseId = Number(id);
       
       // Verificar se a despesa existe
-      const expense = await storage.getExpense(expenseId);
+      const expense = await storage.getExpense(res.locals.organizationId, expenseId);
       if (!expense) {
         return res.status(404).json({ message: "Despesa não encontrada" });
       }
       
       // Verificar permissões no projeto
-      const projectMembers = await storage.getProjectMembers(expense.projectId);
-      const userMember = projectMembers.find(member => member.userId === req.user!.id);
+      const access = await getProjectAccess(res.locals.organizationId, req.user!, expense.projectId);
       
-      if (!userMember && req.user!.role !== "admin") {
+      if (!access) {
         return res.status(403).json({ message: "Acesso negado a esta despesa" });
       }
       
       // Verificar se o usuário tem permissão para excluir despesas
       // - Criador da despesa pode excluir se ainda estiver com status "planned"
-      // - Admin do projeto pode excluir qualquer despesa que não esteja "paid"
+      // - Quem tem "expense.delete" no projeto pode excluir qualquer despesa que não esteja "paid"
       const isCreator = expense.createdBy === req.user!.id;
-      const isAdmin = userMember && userMember.role === "admin";
+      const canDeleteAny = access.can("expense.delete");
       
       if (expense.status === "paid") {
         return res.status(400).json({ 
@@ -2739,23 +5046,23 @@ export async function registerRoutes(app: Express): Promise<Server> {
         });
       }
       
-      if (!isCreator && !isAdmin && req.user!.role !== "admin") {
+      if (!isCreator && !canDeleteAny) {
         return res.status(403).json({ 
           message: "Você não tem permissão para excluir esta despesa" 
         });
       }
       
-      if (isCreator && !isAdmin && expense.status !== "planned" && req.user!.role !== "admin") {
+      if (isCreator && !canDeleteAny && expense.status !== "planned") {
         return res.status(400).json({ 
           message: "Você só pode excluir despesas com status 'planned'" 
         });
       }
       
       // Excluir despesa
-      await storage.deleteExpense(expenseId);
+      await storage.deleteExpense(res.locals.organizationId, expenseId);
       
       // Registrar atividade
-      await storage.createActivity({
+      await storage.createActivity(res.locals.organizationId, {
         userId: req.user!.id,
         action: "delete",
         subject: "expense",
@@ -2775,7 +5082,7 @@ export async function registerRoutes(app: Express): Promise<Server> {
   app.get("/api/projects/:projectId/budget-forecasts", isProjectMember, async (req: Request, res: Response) => {
     try {
       const { projectId } = req.params;
-      const forecasts = await storage.getBudgetForecastsByProject(Number(projectId));
+      const forecasts = await storage.getBudgetForecastsByProject(res.locals.organizationId, Number(projectId));
       res.json(forecasts);
     } catch (error: any) {
       res.status(500).json({ message: error.message });
@@ -2786,17 +5093,14 @@ export async function registerRoutes(app: Express): Promise<Server> {
   app.get("/api/budget-forecasts/:id", isAuthenticated, async (req: Request, res: Response) => {
     try {
       const { id } = req.params;
-      const forecast = await storage.getBudgetForecast(Number(id));
+      const forecast = await storage.getBudgetForecast(res.locals.organizationId, Number(id));
       
       if (!forecast) {
         return res.status(404).json({ message: "Previsão orçamentária não encontrada" });
       }
       
       // Verificar se o usuário tem acesso ao projeto desta previsão
-      const projectMembers = await storage.getProjectMembers(forecast.projectId);
-      const isMember = projectMembers.some(member => member.userId === req.user!.id);
-      
-      if (!isMember && req.user!.role !== "admin") {
+      if (!(await canAccessProject(res, forecast.projectId))) {
         return res.status(403).json({ message: "Acesso negado a esta previsão orçamentária" });
       }
       
@@ -2807,7 +5111,7 @@ export async function registerRoutes(app: Express): Promise<Server> {
   });
 
   // Criar uma nova previsão orçamentária
-  app.post("/api/projects/:projectId/budget-forecasts", isProjectMember, hasProjectRole(['admin', 'manager']), async (req: Request, res: Response) => {
+  app.post("/api/projects/:projectId/budget-forecasts", isProjectMember, requirePermission("budget.manage"), async (req: Request, res: Response) => {
     try {
       const { projectId } = req.params;
       const projectIdNum = Number(projectId);
@@ -2821,7 +5125,7 @@ export async function registerRoutes(app: Express): Promise<Server> {
       
       // Verificar se a categoria existe e pertence ao projeto, se fornecida
       if (forecastData.categoryId) {
-        const category = await storage.getBudgetCategory(forecastData.categoryId);
+        const category = await storage.getBudgetCategory(res.locals.organizationId, forecastData.categoryId);
         if (!category) {
           return res.status(404).json({ message: "Categoria de orçamento não encontrada" });
         }
@@ -2833,10 +5137,10 @@ export async function registerRoutes(app: Express): Promise<Server> {
         }
       }
       
-      const newForecast = await storage.createBudgetForecast(forecastData);
+      const newForecast = await storage.createBudgetForecast(res.locals.organizationId, forecastData);
       
       // Registrar atividade
-      await storage.createActivity({
+      await storage.createActivity(res.locals.organizationId, {
         userId: req.user!.id,
         action: "create",
         subject: "budget_forecast",
@@ -2860,20 +5164,19 @@ export async function registerRoutes(app: Express): Promise<Server> {
       const forecastId = Number(id);
       
       // Verificar se a previsão existe
-      const forecast = await storage.getBudgetForecast(forecastId);
+      const forecast = await storage.getBudgetForecast(res.locals.organizationId, forecastId);
       if (!forecast) {
         return res.status(404).json({ message: "Previsão orçamentária não encontrada" });
       }
       
       // Verificar permissões no projeto
-      const projectMembers = await storage.getProjectMembers(forecast.projectId);
-      const userMember = projectMembers.find(member => member.userId === req.user!.id);
+      const access = await getProjectAccess(res.locals.organizationId, req.user!, forecast.projectId);
       
-      if (!userMember && req.user!.role !== "admin") {
+      if (!access) {
         return res.status(403).json({ message: "Acesso negado a esta previsão orçamentária" });
       }
       
-      if (userMember && !["admin", "manager"].includes(userMember.role) && req.user!.role !== "admin") {
+      if (!access.can("budget.manage")) {
         return res.status(403).json({ 
           message: "Você não tem permissão para editar previsões orçamentárias" 
         });
@@ -2884,7 +5187,7 @@ export async function registerRoutes(app: Express): Promise<Server> {
       
       // Verificar se a categoria existe e pertence ao projeto se estiver sendo atualizada
       if (forecastData.categoryId) {
-        const category = await storage.getBudgetCategory(forecastData.categoryId);
+        const category = await storage.getBudgetCategory(res.locals.organizationId, forecastData.categoryId);
         if (!category) {
           return res.status(404).json({ message: "Categoria de orçamento não encontrada" });
         }
@@ -2897,10 +5200,10 @@ export async function registerRoutes(app: Express): Promise<Server> {
       }
       
       // Atualizar previsão
-      const updatedForecast = await storage.updateBudgetForecast(forecastId, forecastData);
+      const updatedForecast = await storage.updateBudgetForecast(res.locals.organizationId, forecastId, forecastData);
       
       // Registrar atividade
-      await storage.createActivity({
+      await storage.createActivity(res.locals.organizationId, {
         userId: req.user!.id,
         action: "update",
         subject: "budget_forecast",
@@ -2924,30 +5227,29 @@ export async function registerRoutes(app: Express): Promise<Server> {
       const forecastId = Number(id);
       
       // Verificar se a previsão existe
-      const forecast = await storage.getBudgetForecast(forecastId);
+      const forecast = await storage.getBudgetForecast(res.locals.organizationId, forecastId);
       if (!forecast) {
         return res.status(404).json({ message: "Previsão orçamentária não encontrada" });
       }
       
       // Verificar permissões no projeto
-      const projectMembers = await storage.getProjectMembers(forecast.projectId);
-      const userMember = projectMembers.find(member => member.userId === req.user!.id);
+      const access = await getProjectAccess(res.locals.organizationId, req.user!, forecast.projectId);
       
-      if (!userMember && req.user!.role !== "admin") {
+      if (!access) {
         return res.status(403).json({ message: "Acesso negado a esta previsão orçamentária" });
       }
       
-      if (userMember && !["admin"].includes(userMember.role) && req.user!.role !== "admin") {
+      if (!access.can("budget.delete")) {
         return res.status(403).json({ 
           message: "Você não tem permissão para excluir previsões orçamentárias" 
         });
       }
       
       // Excluir previsão
-      await storage.deleteBudgetForecast(forecastId);
+      await storage.deleteBudgetForecast(res.locals.organizationId, forecastId);
       
       // Registrar atividade
-      await storage.createActivity({
+      await storage.createActivity(res.locals.organizationId, {
         userId: req.user!.id,
         action: "delete",
         subject: "budget_forecast",
@@ -2965,7 +5267,7 @@ export async function registerRoutes(app: Express): Promise<Server> {
   app.get("/api/projects/:projectId/budget-summary", isProjectMember, async (req: Request, res: Response) => {
     try {
       const { projectId } = req.params;
-      const summary = await storage.getProjectBudgetSummary(Number(projectId));
+      const summary = await storage.getProjectBudgetSummary(res.locals.organizationId, Number(projectId));
       res.json(summary);
     } catch (error: any) {
       res.status(500).json({ message: error.message });
@@ -0,0 +1,212 @@
+/**
+ * Busca unificada (GET /api/search): normalização dos termos, ranking e destaques.
+ * O storage seleciona os candidatos (todos os termos presentes, sem acentos);
+ * aqui eles são pontuados e ordenados, com os trechos encontrados marcados.
+ */
+import { z } from 'zod';
+import { sql, type AnyColumn, type SQL } from 'drizzle-orm';
+import { projectStatusEnum, taskStatusEnum } from '@shared/schema';
+import {
+  DEFAULT_SEARCH_LIMIT,
+  MAX_SEARCH_LIMIT,
+  SEARCH_RESULT_TYPES,
+  type SearchHighlight,
+  type SearchResult,
+  type SearchResultType,
+} from '@shared/search';
+import { idList, listOf } from './pagination';
+import type { SearchCandidates } from './storage';
+
+// Candidatos por tipo antes do ranking
+export const SEARCH_CANDIDATE_LIMIT = 200;
+const MAX_SEARCH_TERMS = 10;
+const SNIPPET_LENGTH = 180;
+const SNIPPET_CONTEXT = 50;
+
+// Mesma conversão de normalizeSearchText, para o translate() do Postgres
+const ACCENTED = 'áàâãäåéèêëíìîïóòôõöúùûüçñý';
+const UNACCENTED = 'aaaaaaeeeeiiiiooooouuuucny';
+
+const id = z.coerce.number().int().positive();
+
+export const searchQuerySchema = z.object({
+  q: z.string().trim().min(2, 'Digite ao menos 2 caracteres').max(200),
+  limit: z.coerce.number().int().min(1).max(MAX_SEARCH_LIMIT).default(DEFAULT_SEARCH_LIMIT),
+  filter: z.preprocess(value => value ?? {}, z.object({
+    type: listOf([...SEARCH_RESULT_TYPES]).optional(),
+    status: listOf(Array.from(new Set([...projectStatusEnum.enumValues, ...taskStatusEnum.enumValues])) as [string, ...string[]]).optional(),
+    projectId: id.optional(),
+    assignedTo: id.optional(),
+    tagIds: idList.optional(), // Só tarefas com alguma das tags
+    from: z.coerce.date().optional(),
+    to: z.coerce.date().optional(),
+  })),
+});
+
+// Minúsculas e sem acentos ("Revisão" -> "revisao")
+export function normalizeSearchText(text: string): string {
+  return text.normalize('NFD').replace(/[\u0300-\u036f]/g, '').toLowerCase();
+}
+
+// Termos distintos da consulta, já normalizados
+export function searchTerms(query: string): string[] {
+  const terms = normalizeSearchText(query).split(/\s+/).filter(Boolean);
+  return Array.from(new Set(terms)).slice(0, MAX_SEARCH_TERMS);
+}
+
+// Todos os termos aparecem em algum dos textos (MemStorage)
+export function matchesAllTerms(texts: (string | null | undefined)[], terms: string[]): boolean {
+  const haystack = normalizeSearchText(texts.filter(Boolean).join('\n'));
+  return terms.every(term => haystack.includes(term));
+}
+
+// Coluna em minúsculas e sem acentos, para comparar com os termos no banco
+export function unaccented(column: AnyColumn): SQL {
+  return sql`translate(lower(${column}), ${ACCENTED}, ${UNACCENTED})`;
+}
+
+// Registro candidato em formato comum, antes da pontuação
+interface SearchDocument {
+  type: SearchResultType;
+  id: number;
+  title: string;
+  body: string | null;
+  projectId: number | null;
+  taskId: number | null;
+  status: string | null;
+  date: Date | null;
+}
+
+const COMMENT_TITLE_LENGTH = 80;
+
+// Comentários não têm título: a primeira linha faz esse papel
+function commentTitle(content: string): string {
+  const line = content.trim().split('\n')[0];
+  return line.length > COMMENT_TITLE_LENGTH ? `${line.slice(0, COMMENT_TITLE_LENGTH).trim()}…` : line;
+}
+
+export function toSearchDocuments(candidates: SearchCandidates): SearchDocument[] {
+  return [
+    ...candidates.projects.map(project => ({
+      type: 'project' as const, id: project.id, title: project.name, body: project.description,
+      projectId: project.id, taskId: null, status: project.status, date: project.createdAt,
+    })),
+    ...candidates.tasks.map(task => ({
+      type: 'task' as const, id: task.id, title: task.name, body: task.description,
+      projectId: task.projectId, taskId: task.id, status: task.status, date: task.createdAt,
+    })),
+    ...candidates.comments.map(comment => {
+      const title = commentTitle(comment.content);
+      return {
+        type: 'comment' as const, id: comment.id, title, body: title === comment.content.trim() ? null : comment.content,
+        projectId: comment.projectId, taskId: comment.taskId, status: null, date: comment.createdAt,
+      };
+    }),
+    ...candidates.files.map(file => ({
+      type: 'file' as const, id: file.id, title: file.name, body: null,
+      projectId: file.projectId, taskId: file.taskId, status: null, date: file.uploadedAt,
+    })),
+    ...candidates.phases.map(phase => ({
+      type: 'phase' as const, id: phase.id, title: phase.name, body: phase.description,
+      projectId: phase.projectId, taskId: null, status: null, date: phase.createdAt,
+    })),
+  ];
+}
+
+/**
+ * Posições dos termos no texto original. A normalização é feita caractere a caractere
+ * para que as posições no texto sem acentos correspondam às do original.
+ */
+function findHighlights(text: string, terms: string[]): SearchHighlight[] {
+  let normalized = '';
+  const origin: number[] = [];
+  let index = 0;
+  for (const char of text) {
+    const folded = normalizeSearchText(char);
+    for (let i = 0; i < folded.length; i++) origin.push(index);
+    normalized += folded;
+    index += char.length;
+  }
+
+  const ranges: SearchHighlight[] = [];
+  for (const term of terms) {
+    let position = normalized.indexOf(term);
+    while (position !== -1) {
+      ranges.push([origin[position], origin[position + term.length - 1] + 1]);
+      position = normalized.indexOf(term, position + term.length);
+    }
+  }
+
+  // Une trechos sobrepostos
+  ranges.sort((a, b) => a[0] - b[0]);
+  return ranges.reduce<SearchHighlight[]>((merged, range) => {
+    const last = merged[merged.length - 1];
+    if (last && range[0] <= last[1]) last[1] = Math.max(last[1], range[1]);
+    else merged.push([range[0], range[1]]);
+    return merged;
+  }, []);
+}
+
+// Trecho do texto em torno da primeira ocorrência
+function buildSnippet(body: string, terms: string[]): string {
+  const first = findHighlights(body, terms)[0];
+  const start = first && body.length > SNIPPET_LENGTH ? Math.max(0, first[0] - SNIPPET_CONTEXT) : 0;
+  const end = Math.min(body.length, start + SNIPPET_LENGTH);
+  return `${start > 0 ? '…' : ''}${body.slice(start, end).trim()}${end < body.length ? '…' : ''}`;
+}
+
+/**
+ * Pontuação: ocorrências no título valem mais que no conteúdo, com bônus para início de
+ * palavra, para a frase completa e para o título idêntico à busca.
+ */
+function scoreDocument(document: SearchDocument, terms: string[]): number {
+  const title = normalizeSearchText(document.title);
+  const body = normalizeSearchText(document.body || '');
+  const phrase = terms.join(' ');
+  let score = 0;
+
+  for (const term of terms) {
+    if (title.includes(term)) score += 3;
+    if (title.startsWith(term) || title.includes(` ${term}`)) score += 2;
+    if (body.includes(term)) score += 1;
+  }
+  if (terms.length > 1 && title.includes(phrase)) score += 4;
+  if (terms.length > 1 && body.includes(phrase)) score += 2;
+  if (title === phrase) score += 5;
+  return score;
+}
+
+/**
+ * Ordena os candidatos por relevância (empates pelos mais recentes) e aplica o limite.
+ */
+export function rankSearchResults(
+  documents: SearchDocument[],
+  terms: string[],
+  limit: number,
+  names: { projects: Map<number, string>; tasks: Map<number, string> }
+): SearchResult[] {
+  return documents
+    .map(document => ({ document, score: scoreDocument(document, terms) }))
+    .sort((a, b) => b.score - a.score || (b.document.date?.getTime() ?? 0) - (a.document.date?.getTime() ?? 0))
+    .slice(0, limit)
+    .map(({ document, score }) => {
+      const snippet = document.body ? buildSnippet(document.body, terms) : null;
+      return {
+        type: document.type,
+        id: document.id,
+        title: document.title,
+        snippet,
+        highlights: {
+          title: findHighlights(document.title, terms),
+          snippet: snippet ? findHighlights(snippet, terms) : [],
+        },
+        projectId: document.projectId,
+        projectName: document.projectId ? names.projects.get(document.projectId) ?? null : null,
+        taskId: document.taskId,
+        taskName: document.taskId ? names.tasks.get(document.taskId) ?? null : null,
+        status: document.status,
+        date: document.date,
+        score,
+      };
+    });
+}
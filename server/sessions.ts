@@ -0,0 +1,158 @@
+/**
+ * Armazenamento das sessões de login.
+ * As sessões ficam no storage selecionado (memória ou PostgreSQL), o que permite
+ * listar os dispositivos conectados de cada usuário e encerrar sessões
+ * (ex: após a redefinição de senha ou por um administrador).
+ */
+import { Request, Response, NextFunction } from 'express';
+import session from 'express-session';
+import { storage } from './storage';
+import { hashToken } from './auth-utils';
+import { endUserChatSessions } from './chatbot/whatsapp';
+import { UserSession } from '@shared/schema';
+
+// Validade usada quando o cookie da sessão não informa a expiração
+const DEFAULT_SESSION_TTL_MS = 86400000; // 24 hours
+// Intervalo de remoção das sessões expiradas
+const PRUNE_INTERVAL_MS = 86400000;
+
+type SessionCallback = (err?: any) => void;
+
+/**
+ * Store do express-session que delega a persistência ao IStorage.
+ */
+class StorageSessionStore extends session.Store {
+  constructor() {
+    super();
+    setInterval(() => {
+      storage.deleteExpiredUserSessions().catch(error => {
+        console.error("Erro ao remover sessões expiradas:", error);
+      });
+    }, PRUNE_INTERVAL_MS).unref();
+  }
+
+  private getExpiration(sess: session.SessionData): Date {
+    const expires = sess.cookie?.expires;
+    return expires ? new Date(expires) : new Date(Date.now() + DEFAULT_SESSION_TTL_MS);
+  }
+
+  get(sid: string, callback: (err: any, session?: session.SessionData | null) => void): void {
+    storage.getUserSession(sid)
+      .then(async record => {
+        if (!record) return callback(null, null);
+
+        if (record.expiresAt.getTime() <= Date.now()) {
+          await storage.deleteUserSession(sid);
+          return callback(null, null);
+        }
+
+        callback(null, record.data as session.SessionData);
+      })
+      .catch(error => callback(error));
+  }
+
+  set(sid: string, sess: session.SessionData, callback?: SessionCallback): void {
+    storage.saveUserSession({
+      sid,
+      userId: sess.userId ?? null,
+      // Cópia serializada para que alterações posteriores no objeto não vazem para o storage
+      data: JSON.parse(JSON.stringify(sess)),
+      expiresAt: this.getExpiration(sess),
+      userAgent: sess.client?.userAgent ?? null,
+      ipAddress: sess.client?.ip ?? null
+    })
+      .then(() => callback?.())
+      .catch(error => callback?.(error));
+  }
+
+  touch(sid: string, sess: session.SessionData, callback?: SessionCallback): void {
+    storage.touchUserSession(sid, this.getExpiration(sess))
+      .then(() => callback?.())
+      .catch(error => callback?.(error));
+  }
+
+  destroy(sid: string, callback?: SessionCallback): void {
+    storage.deleteUserSession(sid)
+      .then(() => callback?.())
+      .catch(error => callback?.(error));
+  }
+}
+
+export const sessionStore = new StorageSessionStore();
+
+/**
+ * Registra na sessão o navegador e o IP da requisição, exibidos em "Sessões ativas".
+ * Deve ser chamado também no login, logo após definir o userId da sessão.
+ */
+export function recordSessionClient(req: Request) {
+  const userAgent = req.get('user-agent') || undefined;
+  const ip = req.ip;
+
+  if (req.session.client?.userAgent !== userAgent || req.session.client?.ip !== ip) {
+    req.session.client = { userAgent, ip };
+  }
+}
+
+/**
+ * Troca o ID da sessão ao concluir o login, para que um ID obtido antes da
+ * autenticação (fixação de sessão) não dê acesso à conta. Os dados da sessão são descartados.
+ */
+export function regenerateSession(req: Request): Promise<void> {
+  return new Promise((resolve, reject) => {
+    req.session.regenerate(error => error ? reject(error) : resolve());
+  });
+}
+
+/**
+ * Mantém o navegador e o IP das sessões autenticadas atualizados.
+ * Deve ser registrado após o middleware de sessão.
+ */
+export function trackSessionClient(req: Request, res: Response, next: NextFunction) {
+  if (req.session?.userId) {
+    recordSessionClient(req);
+  }
+  next();
+}
+
+/**
+ * Identificador público da sessão: o ID real funciona como credencial e não é exposto.
+ */
+export function getSessionPublicId(sid: string): string {
+  return hashToken(sid).slice(0, 24);
+}
+
+export function serializeSession(record: UserSession, currentSessionId?: string) {
+  return {
+    id: getSessionPublicId(record.sid),
+    userAgent: record.userAgent,
+    ipAddress: record.ipAddress,
+    createdAt: record.createdAt,
+    lastSeenAt: record.lastSeenAt,
+    expiresAt: record.expiresAt,
+    current: record.sid === currentSessionId
+  };
+}
+
+/**
+ * Encerra a sessão do usuário com o identificador público informado.
+ */
+export async function destroyUserSession(userId: number, publicId: string): Promise<boolean> {
+  const sessions = await storage.getUserSessionsByUser(userId);
+  const target = sessions.find(record => getSessionPublicId(record.sid) === publicId);
+  return target ? storage.deleteUserSession(target.sid) : false;
+}
+
+/**
+ * Encerra todas as sessões do usuário, exceto a informada em `exceptSessionId`,
+ * e as conversas autenticadas no chatbot do WhatsApp.
+ * Retorna a quantidade de sessões removidas.
+ */
+export async function destroyUserSessions(userId: number, exceptSessionId?: string): Promise<number> {
+  const sessions = await storage.getUserSessionsByUser(userId);
+  const sessionIds = sessions
+    .map(record => record.sid)
+    .filter(sid => sid !== exceptSessionId);
+
+  await Promise.all(sessionIds.map(sid => storage.deleteUserSession(sid)));
+  return sessionIds.length + endUserChatSessions(userId);
+}
@@ -0,0 +1,275 @@
+/**
+ * Snapshot em disco do MemStorage, para desenvolvimento e demonstrações sem PostgreSQL.
+ * Com STORAGE_SNAPSHOT_FILE definido, os dados são carregados na inicialização e
+ * gravados (de forma atômica) pouco depois de cada alteração.
+ */
+import fs from 'fs';
+import path from 'path';
+import type { IStorage } from './storage';
+
+export const SNAPSHOT_FORMAT = 'launchrocket-memstorage';
+// Incrementar ao mudar o formato dos registros, com a conversão correspondente em SNAPSHOT_UPGRADES
+export const SNAPSHOT_VERSION = 5;
+
+// Coleções (Map serializado como lista de pares) e contadores de id do MemStorage
+export type SnapshotData = Record<string, unknown>;
+
+// Implementado pelo MemStorage
+export interface SnapshotSource {
+  exportSnapshotData(): SnapshotData;
+  importSnapshotData(data: SnapshotData): void;
+}
+
+export interface StorageSnapshot {
+  format: typeof SNAPSHOT_FORMAT;
+  version: number;
+  savedAt: string;
+  data: SnapshotData;
+}
+
+// Acrescenta campos novos, com o valor padrão, aos registros de uma coleção
+function addFields(data: SnapshotData, collection: string, defaults: Record<string, unknown>): unknown {
+  const entries = data[collection];
+  if (!Array.isArray(entries)) return entries;
+  return (entries as [unknown, Record<string, unknown>][]).map(([key, record]) => [key, { ...defaults, ...record }]);
+}
+
+// Conversões de uma versão para a seguinte (chave: versão de origem)
+const SNAPSHOT_UPGRADES: Record<number, (data: SnapshotData) => SnapshotData> = {
+  // Lixeira: exclusão lógica e retenção por organização
+  1: data => ({
+    ...data,
+    projects: addFields(data, 'projects', { deletedAt: null, deletedBy: null }),
+    tasks: addFields(data, 'tasks', { deletedAt: null, deletedBy: null }),
+    files: addFields(data, 'files', { deletedAt: null, deletedBy: null }),
+    comments: addFields(data, 'comments', { deletedAt: null, deletedBy: null }),
+    organizationSettings: addFields(data, 'organizationSettings', { trashRetentionDays: 30 }),
+  }),
+  // Versão dos registros para controle de concorrência (If-Match)
+  2: data => ({
+    ...data,
+    projects: addFields(data, 'projects', { version: 1 }),
+    phases: addFields(data, 'phases', { version: 1 }),
+    tasks: addFields(data, 'tasks', { version: 1 }),
+    budgetCategories: addFields(data, 'budgetCategories', { version: 1 }),
+    expenses: addFields(data, 'expenses', { version: 1 }),
+  }),
+  // Subtarefas: tarefa pai
+  3: data => ({
+    ...data,
+    tasks: addFields(data, 'tasks', { parentTaskId: null }),
+  }),
+  // Visões salvas como widgets do dashboard
+  4: data => ({
+    ...data,
+    savedViews: addFields(data, 'savedViews', { onDashboard: false }),
+  }),
+};
+
+// Intervalo entre a última alteração e a gravação
+const SAVE_DEBOUNCE_MS = 1000;
+
+const ISO_DATE = /^\d{4}-\d{2}-\d{2}T\d{2}:\d{2}:\d{2}(\.\d+)?Z$/;
+
+// Datas viram texto no JSON; na leitura voltam a ser Date
+function reviveDates(value: unknown): unknown {
+  if (typeof value === 'string') {
+    return ISO_DATE.test(value) ? new Date(value) : value;
+  }
+  if (Array.isArray(value)) {
+    return value.map(reviveDates);
+  }
+  if (value && typeof value === 'object') {
+    return Object.fromEntries(Object.entries(value).map(([key, nested]) => [key, reviveDates(nested)]));
+  }
+  return value;
+}
+
+/**
+ * Valida um snapshot (lido do disco ou enviado pelo Super Admin) e o converte para a versão atual.
+ */
+export function parseSnapshot(raw: unknown): StorageSnapshot {
+  const snapshot = raw as Partial<StorageSnapshot> | null;
+  if (!snapshot || snapshot.format !== SNAPSHOT_FORMAT || typeof snapshot.version !== 'number' || !snapshot.data) {
+    throw new Error('Arquivo de snapshot inválido');
+  }
+  if (snapshot.version > SNAPSHOT_VERSION) {
+    throw new Error(`O snapshot é da versão ${snapshot.version}, mais nova que a suportada (${SNAPSHOT_VERSION})`);
+  }
+
+  let data = reviveDates(snapshot.data) as SnapshotData;
+  for (let version = snapshot.version; version < SNAPSHOT_VERSION; version++) {
+    const upgrade = SNAPSHOT_UPGRADES[version];
+    if (upgrade) data = upgrade(data);
+  }
+
+  return {
+    format: SNAPSHOT_FORMAT,
+    version: SNAPSHOT_VERSION,
+    savedAt: snapshot.savedAt || new Date().toISOString(),
+    data,
+  };
+}
+
+/**
+ * Substitui todos os dados do storage pelos do snapshot (já validado por parseSnapshot).
+ */
+export function importSnapshot(storage: SnapshotSource, snapshot: StorageSnapshot) {
+  storage.importSnapshotData(snapshot.data);
+  scheduleSave?.();
+}
+
+export function createSnapshot(storage: SnapshotSource, options: { includeSessions?: boolean } = {}): StorageSnapshot {
+  const data = storage.exportSnapshotData();
+  // Sessões ativas só ficam no arquivo local, nunca na exportação
+  if (!options.includeSessions) delete data.userSessions;
+  return { format: SNAPSHOT_FORMAT, version: SNAPSHOT_VERSION, savedAt: new Date().toISOString(), data };
+}
+
+/**
+ * Grava o arquivo por substituição: escreve em um temporário e renomeia,
+ * para que uma interrupção não deixe um snapshot pela metade.
+ */
+async function writeSnapshotFile(file: string, snapshot: StorageSnapshot) {
+  await fs.promises.mkdir(path.dirname(file), { recursive: true });
+  const temporary = `${file}.${process.pid}.tmp`;
+  await fs.promises.writeFile(temporary, JSON.stringify(snapshot));
+  await fs.promises.rename(temporary, file);
+}
+
+function writeSnapshotFileSync(file: string, snapshot: StorageSnapshot) {
+  fs.mkdirSync(path.dirname(file), { recursive: true });
+  const temporary = `${file}.${process.pid}.tmp`;
+  fs.writeFileSync(temporary, JSON.stringify(snapshot));
+  fs.renameSync(temporary, file);
+}
+
+// Métodos do storage que alteram dados; cada chamada agenda a gravação do snapshot.
+// Métodos novos que gravam dados precisam entrar aqui (ou em TOUCH_METHODS).
+const WRITE_METHODS: (keyof IStorage)[] = [
+  'createUser', 'updateUser', 'setUserSuperAdmin',
+  'createOrganization', 'updateOrganization', 'setActiveOrganization',
+  'createOrganizationSettings', 'updateOrganizationSettings',
+  'addOrganizationMember', 'updateOrganizationMember', 'updateOrganizationMemberRole',
+  'removeOrganizationMember', 'deleteOrganizationMember',
+  'createOrganizationDomain', 'markOrganizationDomainVerified', 'deleteOrganizationDomain',
+  'saveOrganizationSso', 'createSsoIdentity',
+  'createSubscription', 'updateSubscription',
+  'createPasswordResetToken', 'consumePasswordResetToken', 'invalidatePasswordResetTokens',
+  'saveUserTwoFactor', 'updateUserTwoFactor', 'deleteUserTwoFactor',
+  'createApiToken', 'revokeApiToken',
+  'saveUserSession', 'deleteUserSession', 'deleteExpiredUserSessions',
+  'saveLoginThrottle', 'deleteLoginThrottle',
+  'createAuditLog', 'deleteAuditLogsBefore',
+  'createProject', 'updateProject', 'deleteProject',
+  'addProjectMember', 'updateProjectMemberRole', 'removeProjectMember',
+  'createPhase', 'updatePhase', 'deletePhase',
+  'createTask', 'updateTask', 'deleteTask',
+  'createTaskDependency', 'deleteTaskDependency',
+  'createChecklistItem', 'updateChecklistItem', 'deleteChecklistItem', 'convertChecklistItemToSubtask',
+  'createTag', 'updateTag', 'deleteTag', 'mergeTags', 'setTaskTags',
+  'createSavedView', 'updateSavedView', 'deleteSavedView',
+  'createFile', 'deleteFile',
+  'createComment', 'deleteComment',
+  'createActivity',
+  'moveToTrash', 'restoreFromTrash', 'purgeFromTrash',
+  'createIntegration', 'updateIntegration', 'deleteIntegration',
+  'createPaymentIntegration', 'updatePaymentIntegration', 'deletePaymentIntegration',
+  'createAdminSetting', 'updateAdminSetting', 'updateAdminSettings', 'deleteAdminSetting',
+  'createPartnerAgency', 'updatePartnerAgency', 'deletePartnerAgency',
+  'createBudgetCategory', 'updateBudgetCategory', 'deleteBudgetCategory',
+  'createExpense', 'updateExpense', 'approveExpense', 'deleteExpense',
+  'createBudgetForecast', 'updateBudgetForecast', 'deleteBudgetForecast',
+];
+
+// Último acesso de sessões, tokens e identidades SSO, atualizado a cada requisição:
+// vai para o disco com a próxima alteração ou ao encerrar o processo, sem agendar gravação
+const TOUCH_METHODS: (keyof IStorage)[] = ['touchUserSession', 'touchApiToken', 'touchSsoIdentity'];
+
+/**
+ * Chama `onChange` ao fim de cada método do storage que altera dados e `onTouch`
+ * ao fim dos que só registram acesso.
+ */
+function watchChanges(storage: SnapshotSource, onChange: () => void, onTouch: () => void) {
+  const target = storage as unknown as Record<string, (...args: unknown[]) => Promise<unknown>>;
+  const wrap = (name: string, callback: () => void) => {
+    const method = target[name];
+    if (typeof method !== 'function') return;
+    target[name] = async (...args: unknown[]) => {
+      const result = await method.apply(storage, args);
+      callback();
+      return result;
+    };
+  };
+  WRITE_METHODS.forEach(name => wrap(name, onChange));
+  TOUCH_METHODS.forEach(name => wrap(name, onTouch));
+}
+
+export interface SnapshotStatus {
+  file: string | null;
+  lastSavedAt: string | null;
+}
+
+let snapshotFile: string | null = null;
+let lastSavedAt: Date | null = null;
+let scheduleSave: (() => void) | null = null;
+
+export function getSnapshotStatus(): SnapshotStatus {
+  return { file: snapshotFile, lastSavedAt: lastSavedAt?.toISOString() ?? null };
+}
+
+/**
+ * Carrega o snapshot do disco (quando existir) e passa a gravar as alterações.
+ */
+export async function enableSnapshotPersistence(storage: SnapshotSource, file: string) {
+  snapshotFile = path.resolve(file);
+
+  if (fs.existsSync(snapshotFile)) {
+    const snapshot = parseSnapshot(JSON.parse(await fs.promises.readFile(snapshotFile, 'utf-8')));
+    importSnapshot(storage, snapshot);
+    console.log(`Snapshot carregado de ${snapshotFile} (salvo em ${snapshot.savedAt})`);
+  }
+
+  let timer: NodeJS.Timeout | null = null;
+  let writing: Promise<void> | null = null;
+  let pending = false;
+  let touched = false;
+
+  const save = async () => {
+    timer = null;
+    // Uma gravação por vez; alterações feitas durante a escrita geram uma nova gravação
+    if (writing) {
+      pending = true;
+      return;
+    }
+    touched = false;
+    writing = writeSnapshotFile(snapshotFile!, createSnapshot(storage, { includeSessions: true }))
+      .then(() => { lastSavedAt = new Date(); })
+      .catch(error => console.error("Erro ao gravar o snapshot do armazenamento:", error))
+      .finally(() => {
+        writing = null;
+        if (pending) {
+          pending = false;
+          save();
+        }
+      });
+  };
+
+  scheduleSave = () => {
+    if (timer) clearTimeout(timer);
+    timer = setTimeout(save, SAVE_DEBOUNCE_MS);
+    timer.unref();
+  };
+  watchChanges(storage, scheduleSave, () => { touched = true; });
+
+  // Grava as alterações ainda no intervalo (e os acessos não gravados) antes de encerrar o processo
+  const flush = () => {
+    if (timer || touched) {
+      if (timer) clearTimeout(timer);
+      writeSnapshotFileSync(snapshotFile!, createSnapshot(storage, { includeSessions: true }));
+    }
+    process.exit(0);
+  };
+  process.once('SIGINT', flush);
+  process.once('SIGTERM', flush);
+}
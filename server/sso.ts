@@ -0,0 +1,568 @@
+/**
+ * Login único por organização via OpenID Connect (authorization code com PKCE).
+ * O usuário é identificado pelo par emissor/subject; no primeiro acesso ele é
+ * vinculado à conta com o mesmo email, se ela já for membro da organização, ou
+ * criado e adicionado à organização com o papel padrão configurado
+ * (provisionamento just-in-time). Só domínios de email verificados pela
+ * organização (registro TXT no DNS) podem ser liberados.
+ */
+import crypto from 'crypto';
+import dns from 'dns';
+import net from 'net';
+import { z } from 'zod';
+import { storage } from './storage';
+import { decryptSecret, encryptSecret, hashPassword } from './auth-utils';
+import { checkQuota } from './middleware/quota';
+import { getAcceptedMemberships } from './middleware/tenant';
+import { isPlatformAdmin } from './permissions';
+import { OrganizationDomain, OrganizationSso, User } from '@shared/schema';
+
+// Tempo para concluir o login no provedor de identidade
+export const SSO_LOGIN_TTL_MS = 10 * 60 * 1000;
+// Tempo de cache da configuração (discovery) e das chaves públicas do emissor
+const METADATA_TTL_MS = 60 * 60 * 1000;
+// Tolerância de relógio na validação do id_token
+const CLOCK_SKEW_SECONDS = 60;
+
+const DOMAIN_PATTERN = /^[a-z0-9-]+(\.[a-z0-9-]+)+$/;
+
+export const ssoSettingsSchema = z.object({
+  enabled: z.boolean(),
+  issuer: z.string().trim().url("URL do emissor inválida"),
+  clientId: z.string().trim().min(1, "Client ID é obrigatório"),
+  // Em branco mantém o segredo já salvo
+  clientSecret: z.string().optional(),
+  allowedDomains: z.array(
+    z.string().trim().toLowerCase().regex(DOMAIN_PATTERN, "Domínio inválido")
+  ).default([]),
+  defaultRole: z.enum(['admin', 'member']).default('member'),
+}).refine(data => !data.enabled || data.allowedDomains.length > 0, {
+  message: "Informe ao menos um domínio de email permitido",
+  path: ['allowedDomains'],
+});
+
+export const organizationDomainSchema = z.object({
+  domain: z.string().trim().toLowerCase().regex(DOMAIN_PATTERN, "Domínio inválido"),
+});
+
+export type SsoErrorCode =
+  | 'sso_failed'
+  | 'email_missing'
+  | 'email_not_verified'
+  | 'domain_not_allowed'
+  | 'account_exists'
+  | 'user_limit_reached';
+
+// Login em andamento, guardado na sessão até o retorno do provedor
+export interface PendingSsoLogin {
+  organizationId: number;
+  state: string;
+  nonce: string;
+  codeVerifier: string;
+  redirectUri: string;
+  returnTo: string;
+  expiresAt: number;
+}
+
+interface ProviderMetadata {
+  issuer: string;
+  authorization_endpoint: string;
+  token_endpoint: string;
+  jwks_uri: string;
+  userinfo_endpoint?: string;
+  token_endpoint_auth_methods_supported?: string[];
+}
+
+interface IdTokenClaims {
+  iss: string;
+  sub: string;
+  aud: string | string[];
+  azp?: string;
+  exp: number;
+  nonce?: string;
+  email?: string;
+  email_verified?: boolean;
+  name?: string;
+  preferred_username?: string;
+}
+
+const metadataCache = new Map<string, { metadata: ProviderMetadata; expiresAt: number }>();
+const jwksCache = new Map<string, { keys: JsonWebKey[]; expiresAt: number }>();
+
+function normalizeIssuer(issuer: string): string {
+  return issuer.replace(/\/+$/, '');
+}
+
+// Faixas internas (loopback, rede privada, link-local, metadados de nuvem) que o servidor não consulta
+const BLOCKED_ADDRESSES = new net.BlockList();
+([
+  ['0.0.0.0', 8], ['10.0.0.0', 8], ['100.64.0.0', 10], ['127.0.0.0', 8], ['169.254.0.0', 16],
+  ['172.16.0.0', 12], ['192.0.0.0', 24], ['192.168.0.0', 16], ['198.18.0.0', 15], ['224.0.0.0', 3],
+] as const).forEach(([network, prefix]) => BLOCKED_ADDRESSES.addSubnet(network, prefix, 'ipv4'));
+([
+  ['::', 127], ['fc00::', 7], ['fe80::', 10], ['ff00::', 8],
+] as const).forEach(([network, prefix]) => BLOCKED_ADDRESSES.addSubnet(network, prefix, 'ipv6'));
+
+function isBlockedAddress(address: string): boolean {
+  const mapped = address.match(/^::ffff:(\d+\.\d+\.\d+\.\d+)$/i);
+  if (mapped) return BLOCKED_ADDRESSES.check(mapped[1], 'ipv4');
+  return BLOCKED_ADDRESSES.check(address, net.isIPv6(address) ? 'ipv6' : 'ipv4');
+}
+
+// Hosts internos liberados para o provedor de identidade (ex: Keycloak na rede da empresa)
+function getAllowedPrivateHosts(): string[] {
+  return (process.env.SSO_ALLOWED_PRIVATE_HOSTS || '')
+    .split(',')
+    .map(host => host.trim().toLowerCase())
+    .filter(Boolean);
+}
+
+/**
+ * Recusa URLs do emissor que apontem para a rede interna do servidor (SSRF).
+ * Fora da lista SSO_ALLOWED_PRIVATE_HOSTS, exige HTTPS e endereços públicos.
+ */
+async function assertPublicUrl(url: string): Promise<void> {
+  const parsed = new URL(url);
+  const hostname = parsed.hostname.replace(/^\[|\]$/g, '').toLowerCase();
+  if (getAllowedPrivateHosts().includes(hostname)) return;
+
+  if (parsed.protocol !== 'https:') {
+    throw new Error(`O emissor precisa usar HTTPS: ${url}`);
+  }
+  const addresses = net.isIP(hostname)
+    ? [{ address: hostname }]
+    : await dns.promises.lookup(hostname, { all: true });
+  if (addresses.length === 0 || addresses.some(({ address }) => isBlockedAddress(address))) {
+    throw new Error(`Endereço interno não permitido: ${parsed.hostname}`);
+  }
+}
+
+async function fetchJson<T>(url: string, init?: RequestInit): Promise<T> {
+  await assertPublicUrl(url);
+  // Redirecionamentos não são seguidos, para não escapar da verificação do endereço
+  const response = await fetch(url, { ...init, redirect: 'manual' });
+  if (!response.ok) {
+    throw new Error(`Resposta ${response.status} de ${url}: ${await response.text()}`);
+  }
+  return response.json() as Promise<T>;
+}
+
+/**
+ * Carrega a configuração do emissor (/.well-known/openid-configuration).
+ */
+export async function discoverProvider(issuer: string): Promise<ProviderMetadata> {
+  const normalized = normalizeIssuer(issuer);
+  const cached = metadataCache.get(normalized);
+  if (cached && cached.expiresAt > Date.now()) return cached.metadata;
+
+  const metadata = await fetchJson<ProviderMetadata>(`${normalized}/.well-known/openid-configuration`);
+  if (normalizeIssuer(metadata.issuer || '') !== normalized) {
+    throw new Error(`Emissor divergente na configuração: ${metadata.issuer}`);
+  }
+  if (!metadata.authorization_endpoint || !metadata.token_endpoint || !metadata.jwks_uri) {
+    throw new Error('Configuração do emissor incompleta');
+  }
+
+  metadataCache.set(normalized, { metadata, expiresAt: Date.now() + METADATA_TTL_MS });
+  return metadata;
+}
+
+async function getSigningKey(jwksUri: string, kid?: string): Promise<crypto.KeyObject> {
+  const findKey = (keys: JsonWebKey[]) =>
+    keys.find(key => (kid ? (key as { kid?: string }).kid === kid : true) && (key as { use?: string }).use !== 'enc');
+
+  const cached = jwksCache.get(jwksUri);
+  let jwk = cached && cached.expiresAt > Date.now() ? findKey(cached.keys) : undefined;
+
+  // Chave desconhecida: o emissor pode ter feito rotação, então recarregamos
+  if (!jwk) {
+    const { keys } = await fetchJson<{ keys: JsonWebKey[] }>(jwksUri);
+    jwksCache.set(jwksUri, { keys, expiresAt: Date.now() + METADATA_TTL_MS });
+    jwk = findKey(keys);
+  }
+  if (!jwk) {
+    throw new Error('Chave de assinatura do id_token não encontrada');
+  }
+
+  return crypto.createPublicKey({ key: jwk, format: 'jwk' } as crypto.JsonWebKeyInput);
+}
+
+// Algoritmos de assinatura aceitos no id_token
+const JWT_ALGORITHMS: Record<string, { hash: string; ec: boolean }> = {
+  RS256: { hash: 'sha256', ec: false },
+  RS384: { hash: 'sha384', ec: false },
+  RS512: { hash: 'sha512', ec: false },
+  ES256: { hash: 'sha256', ec: true },
+  ES384: { hash: 'sha384', ec: true },
+  ES512: { hash: 'sha512', ec: true },
+};
+
+function decodeJwtSegment<T>(segment: string): T {
+  return JSON.parse(Buffer.from(segment, 'base64url').toString('utf8'));
+}
+
+/**
+ * Valida assinatura, emissor, audiência, expiração e nonce do id_token.
+ */
+async function verifyIdToken(
+  idToken: string,
+  metadata: ProviderMetadata,
+  clientId: string,
+  nonce: string
+): Promise<IdTokenClaims> {
+  const [encodedHeader, encodedPayload, signature] = idToken.split('.');
+  if (!encodedHeader || !encodedPayload || !signature) {
+    throw new Error('id_token malformado');
+  }
+
+  const header = decodeJwtSegment<{ alg: string; kid?: string }>(encodedHeader);
+  const algorithm = JWT_ALGORITHMS[header.alg];
+  if (!algorithm) {
+    throw new Error(`Algoritmo de assinatura não suportado: ${header.alg}`);
+  }
+
+  const key = await getSigningKey(metadata.jwks_uri, header.kid);
+  const valid = crypto.verify(
+    algorithm.hash,
+    Buffer.from(`${encodedHeader}.${encodedPayload}`),
+    algorithm.ec ? { key, dsaEncoding: 'ieee-p1363' } : key,
+    Buffer.from(signature, 'base64url')
+  );
+  if (!valid) {
+    throw new Error('Assinatura do id_token inválida');
+  }
+
+  const claims = decodeJwtSegment<IdTokenClaims>(encodedPayload);
+  const audiences = Array.isArray(claims.aud) ? claims.aud : [claims.aud];
+  const now = Math.floor(Date.now() / 1000);
+
+  if (normalizeIssuer(claims.iss || '') !== normalizeIssuer(metadata.issuer)) {
+    throw new Error('Emissor do id_token inválido');
+  }
+  if (!audiences.includes(clientId) || (audiences.length > 1 && claims.azp !== clientId)) {
+    throw new Error('Audiência do id_token inválida');
+  }
+  if (!claims.exp || claims.exp + CLOCK_SKEW_SECONDS < now) {
+    throw new Error('id_token expirado');
+  }
+  if (claims.nonce !== nonce) {
+    throw new Error('Nonce do id_token inválido');
+  }
+  if (!claims.sub) {
+    throw new Error('id_token sem subject');
+  }
+
+  return claims;
+}
+
+/**
+ * Gera a URL de autorização no provedor e o estado a ser guardado na sessão.
+ */
+export async function beginSsoLogin(
+  config: OrganizationSso,
+  redirectUri: string,
+  returnTo: string
+): Promise<{ authorizationUrl: string; pending: PendingSsoLogin }> {
+  const metadata = await discoverProvider(config.issuer);
+
+  const pending: PendingSsoLogin = {
+    organizationId: config.organizationId,
+    state: crypto.randomBytes(16).toString('base64url'),
+    nonce: crypto.randomBytes(16).toString('base64url'),
+    codeVerifier: crypto.randomBytes(32).toString('base64url'),
+    redirectUri,
+    returnTo,
+    expiresAt: Date.now() + SSO_LOGIN_TTL_MS,
+  };
+  const codeChallenge = crypto.createHash('sha256').update(pending.codeVerifier).digest('base64url');
+
+  const url = new URL(metadata.authorization_endpoint);
+  url.search = new URLSearchParams({
+    response_type: 'code',
+    client_id: config.clientId,
+    redirect_uri: redirectUri,
+    scope: 'openid email profile',
+    state: pending.state,
+    nonce: pending.nonce,
+    code_challenge: codeChallenge,
+    code_challenge_method: 'S256',
+  }).toString();
+
+  return { authorizationUrl: url.toString(), pending };
+}
+
+async function exchangeCode(
+  config: OrganizationSso,
+  metadata: ProviderMetadata,
+  pending: PendingSsoLogin,
+  code: string
+): Promise<{ id_token?: string; access_token?: string }> {
+  const body = new URLSearchParams({
+    grant_type: 'authorization_code',
+    code,
+    redirect_uri: pending.redirectUri,
+    code_verifier: pending.codeVerifier,
+    client_id: config.clientId,
+  });
+  const headers: Record<string, string> = {
+    'Content-Type': 'application/x-www-form-urlencoded',
+    Accept: 'application/json',
+  };
+
+  if (config.clientSecret) {
+    const clientSecret = decryptSecret(config.clientSecret);
+    const methods = metadata.token_endpoint_auth_methods_supported;
+    // client_secret_basic é o padrão da especificação quando o emissor não informa os métodos
+    if (!methods || methods.includes('client_secret_basic')) {
+      const credentials = `${encodeURIComponent(config.clientId)}:${encodeURIComponent(clientSecret)}`;
+      headers.Authorization = `Basic ${Buffer.from(credentials).toString('base64')}`;
+    } else {
+      body.set('client_secret', clientSecret);
+    }
+  }
+
+  return fetchJson(metadata.token_endpoint, { method: 'POST', headers, body });
+}
+
+// Gera um nome de usuário livre a partir do email (ex: maria.silva, maria.silva2)
+async function generateUsername(email: string): Promise<string> {
+  const base = email.split('@')[0].toLowerCase().replace(/[^a-z0-9._-]/g, '').slice(0, 30) || 'usuario';
+  let candidate = base;
+  for (let suffix = 2; await storage.getUserByUsername(candidate); suffix++) {
+    candidate = `${base}${suffix}`;
+  }
+  return candidate;
+}
+
+/**
+ * Vincula a identidade externa a um usuário (existente ou novo) e garante
+ * que ele seja membro da organização. Uma conta já existente só é vinculada pelo
+ * email se for membro aceito da organização e não tiver acesso de administração
+ * da plataforma; nos demais casos o usuário entra com a senha.
+ */
+async function provisionSsoUser(
+  config: OrganizationSso,
+  issuer: string,
+  claims: IdTokenClaims & { email: string }
+): Promise<User | SsoErrorCode> {
+  const organizationId = config.organizationId;
+  const email = claims.email.toLowerCase();
+
+  const identity = await storage.getSsoIdentity(issuer, claims.sub);
+  let user = identity ? await storage.getUser(identity.userId) : undefined;
+  if (!user) {
+    const existing = await storage.getUserByEmail(email);
+    if (existing) {
+      const isMember = (await getAcceptedMemberships(existing.id)).some(m => m.organizationId === organizationId);
+      if (!isMember || existing.isSuperAdmin || isPlatformAdmin(existing)) return 'account_exists';
+      user = existing;
+    }
+  }
+
+  const membership = user
+    ? (await storage.getOrganizationsByUser(user.id)).find(m => m.organizationId === organizationId)
+    : undefined;
+
+  if (!membership && await checkQuota(organizationId, 'users')) {
+    return 'user_limit_reached';
+  }
+
+  if (!user) {
+    user = await storage.createUser({
+      name: claims.name || email,
+      username: await generateUsername(email),
+      email,
+      // Senha aleatória: o acesso acontece pelo provedor até o usuário redefini-la
+      password: await hashPassword(crypto.randomBytes(32).toString('base64url')),
+      role: 'member'
+    });
+  }
+
+  if (identity) {
+    await storage.touchSsoIdentity(identity.id);
+  } else {
+    await storage.createSsoIdentity({ userId: user.id, organizationId, issuer, subject: claims.sub, email });
+  }
+
+  if (!membership) {
+    await storage.addOrganizationMember({
+      organizationId,
+      userId: user.id,
+      role: config.defaultRole,
+      inviteStatus: 'accepted'
+    });
+  } else if (membership.inviteStatus && membership.inviteStatus !== 'accepted') {
+    await storage.updateOrganizationMember(organizationId, membership.id, { inviteStatus: 'accepted' });
+  }
+
+  await storage.setActiveOrganization(user.id, organizationId);
+  return user;
+}
+
+/**
+ * Conclui o login após o retorno do provedor: troca o código, valida o id_token,
+ * confere o domínio do email e provisiona o usuário.
+ */
+export async function completeSsoLogin(
+  config: OrganizationSso,
+  pending: PendingSsoLogin,
+  code: string
+): Promise<User | SsoErrorCode> {
+  const metadata = await discoverProvider(config.issuer);
+  const tokens = await exchangeCode(config, metadata, pending, code);
+  if (!tokens.id_token) {
+    throw new Error('Resposta do emissor sem id_token');
+  }
+
+  const claims = await verifyIdToken(tokens.id_token, metadata, config.clientId, pending.nonce);
+
+  // Alguns provedores só informam o email no endpoint userinfo
+  if (!claims.email && metadata.userinfo_endpoint && tokens.access_token) {
+    const userinfo = await fetchJson<Partial<IdTokenClaims>>(metadata.userinfo_endpoint, {
+      headers: { Authorization: `Bearer ${tokens.access_token}` }
+    });
+    if (userinfo.sub === claims.sub) {
+      claims.email = userinfo.email;
+      claims.email_verified = userinfo.email_verified;
+      claims.name = claims.name || userinfo.name;
+    }
+  }
+
+  if (!claims.email) return 'email_missing';
+  if (claims.email_verified === false) return 'email_not_verified';
+
+  // Domínio liberado na configuração e ainda verificado pela organização
+  const domain = claims.email.split('@')[1]?.toLowerCase();
+  const allowedDomains = (config.allowedDomains as string[] | null) || [];
+  const verifiedDomains = await getVerifiedDomains(config.organizationId);
+  if (!domain || !allowedDomains.includes(domain) || !verifiedDomains.includes(domain)) return 'domain_not_allowed';
+
+  return provisionSsoUser(config, metadata.issuer, { ...claims, email: claims.email });
+}
+
+/**
+ * Configuração exibida aos administradores (sem o segredo).
+ */
+export function serializeSsoSettings(config: OrganizationSso | undefined, redirectUri: string) {
+  return {
+    enabled: config?.enabled ?? false,
+    issuer: config?.issuer ?? '',
+    clientId: config?.clientId ?? '',
+    hasClientSecret: !!config?.clientSecret,
+    allowedDomains: (config?.allowedDomains as string[] | null) || [],
+    defaultRole: config?.defaultRole ?? 'member',
+    redirectUri,
+  };
+}
+
+/**
+ * Confere se o emissor responde ao discovery (usado ao ativar o login único).
+ */
+export async function isIssuerReachable(issuer: string): Promise<boolean> {
+  try {
+    await discoverProvider(issuer);
+    return true;
+  } catch (error) {
+    console.error("Erro ao carregar configuração do emissor:", error);
+    return false;
+  }
+}
+
+/**
+ * Registro TXT que comprova o controle do domínio pela organização.
+ */
+export function getDomainVerificationRecord(domain: OrganizationDomain) {
+  return {
+    name: `_launchrocket-verification.${domain.domain}`,
+    value: `launchrocket-verification=${domain.verificationToken}`,
+  };
+}
+
+/**
+ * Domínio exibido aos administradores, com o registro TXT a ser criado.
+ */
+export function serializeOrganizationDomain(domain: OrganizationDomain) {
+  return {
+    id: domain.id,
+    domain: domain.domain,
+    verified: !!domain.verifiedAt,
+    verifiedAt: domain.verifiedAt,
+    record: getDomainVerificationRecord(domain),
+  };
+}
+
+export async function getVerifiedDomains(organizationId: number): Promise<string[]> {
+  const domains = await storage.getOrganizationDomains(organizationId);
+  return domains.filter(domain => domain.verifiedAt).map(domain => domain.domain);
+}
+
+/**
+ * Cadastra um domínio da organização, pendente até a verificação no DNS.
+ */
+export async function addOrganizationDomain(organizationId: number, domain: string): Promise<OrganizationDomain> {
+  return storage.createOrganizationDomain({
+    organizationId,
+    domain,
+    verificationToken: crypto.randomBytes(16).toString('hex'),
+  });
+}
+
+/**
+ * Consulta o registro TXT do domínio e, se ele tiver o valor esperado, marca o domínio como verificado.
+ */
+export async function verifyOrganizationDomain(domain: OrganizationDomain): Promise<OrganizationDomain | undefined> {
+  if (domain.verifiedAt) return domain;
+
+  const record = getDomainVerificationRecord(domain);
+  let values: string[][];
+  try {
+    values = await dns.promises.resolveTxt(record.name);
+  } catch (error) {
+    console.error(`Registro TXT não encontrado para ${record.name}:`, error);
+    return undefined;
+  }
+
+  // Registros TXT longos chegam divididos em partes
+  if (!values.some(chunks => chunks.join('').trim() === record.value)) return undefined;
+  return storage.markOrganizationDomainVerified(domain.organizationId, domain.id);
+}
+
+/**
+ * Remove o domínio e deixa de aceitá-lo no login único.
+ */
+export async function removeOrganizationDomain(domain: OrganizationDomain): Promise<void> {
+  await storage.deleteOrganizationDomain(domain.organizationId, domain.id);
+  const config = await storage.getOrganizationSso(domain.organizationId);
+  const allowedDomains = (config?.allowedDomains as string[] | null) || [];
+  if (config && allowedDomains.includes(domain.domain)) {
+    const { id: _, createdAt: __, updatedAt: ___, ...values } = config;
+    await storage.saveOrganizationSso({ ...values, allowedDomains: allowedDomains.filter(allowed => allowed !== domain.domain) });
+  }
+}
+
+/**
+ * Salva a configuração; com o segredo em branco, mantém o segredo atual.
+ */
+export async function saveSsoSettings(
+  organizationId: number,
+  data: z.infer<typeof ssoSettingsSchema>
+): Promise<OrganizationSso> {
+  const current = await storage.getOrganizationSso(organizationId);
+  return storage.saveOrganizationSso({
+    organizationId,
+    enabled: data.enabled,
+    issuer: normalizeIssuer(data.issuer),
+    clientId: data.clientId,
+    clientSecret: data.clientSecret ? encryptSecret(data.clientSecret) : current?.clientSecret ?? null,
+    allowedDomains: data.allowedDomains,
+    defaultRole: data.defaultRole,
+  });
+}
+
+/**
+ * Indica se a organização aceita login pelo provedor de identidade.
+ */
+export async function isSsoEnabled(organizationId: number): Promise<boolean> {
+  const config = await storage.getOrganizationSso(organizationId);
+  return !!config?.enabled;
+}
@@ -2,7 +2,7 @@ import {
   users, projects, projectMembers, phases, 
   tasks, checklistItems, files, activities, comments, integrations,
   organizations, organizationSettings, subscriptions, organizationMembers,
-  paymentIntegrations, adminSettings, partnerAgencies,
+  paymentIntegrations, adminSettings, partnerAgencies, passwordResetTokens, userTwoFactor, apiTokens, userSessions, loginThrottles, auditLogs, organizationSso, organizationDomains, ssoIdentities,
   budgetCategories, expenses, budgetForecasts,
   type User, type InsertUser, type Project, type InsertProject,
   type ProjectMember, type InsertProjectMember, type Phase, type InsertPhase,
@@ -13,20 +13,147 @@ import {
   type OrganizationSettings, type InsertOrganizationSettings,
   type Subscription, type InsertSubscription,
   type OrganizationMember, type InsertOrganizationMember,
+  type PasswordResetToken, type InsertPasswordResetToken,
+  type ApiToken, type InsertApiToken,
+  type UserSession, type InsertUserSession,
+  type LoginThrottle, type InsertLoginThrottle,
+  type AuditLog, type InsertAuditLog,
+  type OrganizationSso, type InsertOrganizationSso,
+  type OrganizationDomain, type InsertOrganizationDomain,
+  type SsoIdentity, type InsertSsoIdentity,
+  type UserTwoFactor, type InsertUserTwoFactor,
   type PaymentIntegration, type InsertPaymentIntegration,
   type AdminSetting, type InsertAdminSetting,
   type PartnerAgency, type InsertPartnerAgency,
   type BudgetCategory, type InsertBudgetCategory,
   type Expense, type InsertExpense,
-  type BudgetForecast, type InsertBudgetForecast
+  type BudgetForecast, type InsertBudgetForecast,
+  savedViews, type SavedView, type InsertSavedView,
+  tags, taskTags, type Tag, type InsertTag, type TaskTag,
+  taskDependencies, type TaskDependency, type InsertTaskDependency
 } from "@shared/schema";
-import { db } from "./db";
-import { eq, and, desc, inArray } from "drizzle-orm";
+import { db, runMigrations } from "./db";
+import { enableSnapshotPersistence, type SnapshotData } from "./snapshot";
+import { paginate, toPage, afterCursor, cursorOrder, likePattern, type ListQuery } from "./pagination";
+import type { Page, TaskSortField, ActivitySortField, FileSortField, UserSortField } from "@shared/pagination";
+import type { TrashItem, TrashItemType } from "@shared/trash";
+import type { SearchResultType } from "@shared/search";
+import { matchesAllTerms, unaccented } from "./search";
+import { hashPassword } from "./auth-utils";
+import { eq, and, or, asc, desc, gt, gte, lt, lte, like, ilike, inArray, isNull, isNotNull, sql, type SQL, type AnyColumn } from "drizzle-orm";
+
+// Filtros da consulta à auditoria; organizationId null busca apenas as ações da plataforma
+export interface AuditLogFilter {
+  organizationId?: number | null;
+  actorId?: number;
+  action?: string; // Ação exata ou prefixo terminado em "." (ex: "auth.")
+  targetType?: string;
+  targetId?: number;
+  from?: Date;
+  to?: Date;
+  limit?: number;
+  offset?: number;
+}
+
+// Filtros das listagens paginadas (parâmetros em server/pagination.ts)
+export interface TaskListFilter {
+  visibleTo?: { userId: number; projectIds: number[] }; // Atribuídas ao usuário ou dos seus projetos
+  projectId?: number;
+  assignedTo?: number;
+  status?: string[];
+  priority?: string[];
+  search?: string; // Nome ou descrição
+  dueFrom?: Date;
+  dueTo?: Date;
+  tagIds?: number[]; // Com alguma das tags
+}
+
+export interface ActivityListFilter {
+  projectIds: number[]; // Projetos visíveis para o usuário
+  projectId?: number;
+  userId?: number;
+  taskId?: number;
+}
+
+export interface FileListFilter {
+  projectId: number;
+  taskId?: number;
+  uploadedBy?: number;
+  search?: string;
+}
+
+export interface UserListFilter {
+  role?: string[];
+  search?: string; // Nome, email ou usuário
+}
+
+// Busca unificada (ranking em server/search.ts); os termos chegam normalizados
+export interface SearchFilter {
+  terms: string[];
+  types: SearchResultType[];
+  visibleTo: { userId: number; projectIds: number[] }; // Tarefas também aparecem quando atribuídas ao usuário
+  projectId?: number;
+  status?: string[]; // Projetos e tarefas
+  assignedTo?: number;
+  tagIds?: number[]; // Tarefas com alguma das tags
+  from?: Date;
+  to?: Date;
+  limit: number; // Mais recentes por tipo
+}
+
+export interface SearchCandidates {
+  projects: Project[];
+  tasks: Task[];
+  comments: Comment[];
+  files: File[];
+  phases: Phase[];
+}
+
+// Sem versão esperada, qualquer versão é aceita
+function isExpectedVersion(record: { version: number }, expectedVersion?: number): boolean {
+  return expectedVersion === undefined || record.version === expectedVersion;
+}
+
+// O mesmo, como condição da atualização no banco
+function versionMatches(column: AnyColumn, expectedVersion?: number): SQL | undefined {
+  return expectedVersion === undefined ? undefined : eq(column, expectedVersion);
+}
+
+// Colunas que uma atualização nunca troca: identidade, organização, autoria e lixeira
+const PROTECTED_COLUMNS = ['id', 'organizationId', 'createdBy', 'createdAt', 'version', 'deletedAt', 'deletedBy'];
+
+// Dados da atualização sem as colunas protegidas (e as extras informadas, ex: projectId da tarefa)
+function updatableFields<T extends object>(data: T, ...extraColumns: string[]): T {
+  const fields = { ...data } as Record<string, unknown>;
+  [...PROTECTED_COLUMNS, ...extraColumns].forEach(column => delete fields[column]);
+  return fields as T;
+}
+
+// Tarefas com alguma das tags (DatabaseStorage)
+function taggedWith(tagIds: number[]): SQL {
+  return inArray(tasks.id, db.select({ taskId: taskTags.taskId }).from(taskTags).where(inArray(taskTags.tagId, tagIds)));
+}
+
+// Item da lixeira a partir do registro excluído (comentários aparecem pelo início do texto)
+function toTrashItem(type: TrashItemType, record: Project | Task | File | Comment): TrashItem {
+  return {
+    type,
+    id: record.id,
+    name: 'content' in record ? record.content.slice(0, 80) : record.name,
+    projectId: 'projectId' in record ? record.projectId : null,
+    taskId: 'taskId' in record ? record.taskId : null,
+    deletedAt: record.deletedAt ?? new Date(),
+    deletedBy: record.deletedBy,
+  };
+}
 
 export interface IStorage {
   // Organizações
   createOrganization(org: InsertOrganization): Promise<Organization>;
   getOrganization(id: number): Promise<Organization | undefined>;
+  getOrganizationBySlug(slug: string): Promise<Organization | undefined>;
+  getOrganizationByDomain(domain: string): Promise<Organization | undefined>;
+  getAllOrganizations(): Promise<Organization[]>;
   updateOrganization(id: number, data: Partial<InsertOrganization>): Promise<Organization | undefined>;
   
   // Configurações de Organização
@@ -44,74 +171,191 @@ export interface IStorage {
   getOrganizationMembers(organizationId: number): Promise<OrganizationMember[]>;
   removeOrganizationMember(organizationId: number, userId: number): Promise<boolean>;
   updateOrganizationMemberRole(organizationId: number, userId: number, role: string): Promise<boolean>;
+  setActiveOrganization(userId: number, organizationId: number): Promise<boolean>;
+  getOrganizationMember(organizationId: number, id: number): Promise<OrganizationMember | undefined>;
+  getOrganizationMemberByInviteToken(inviteToken: string): Promise<OrganizationMember | undefined>;
+  updateOrganizationMember(organizationId: number, id: number, data: Partial<InsertOrganizationMember>): Promise<OrganizationMember | undefined>;
+  deleteOrganizationMember(organizationId: number, id: number): Promise<boolean>;
   
   // Users
   getUser(id: number): Promise<User | undefined>;
   getUserByUsername(username: string): Promise<User | undefined>;
   getUserByEmail(email: string): Promise<User | undefined>;
   getAllUsers(): Promise<User[]>;
+  getUsersByOrganization(organizationId: number): Promise<User[]>;
+  listUsersByOrganization(organizationId: number, query: ListQuery<UserSortField, UserListFilter>): Promise<Page<User>>;
+  getOrganizationsByUser(userId: number): Promise<OrganizationMember[]>;
   createUser(user: InsertUser): Promise<User>;
   updateUser(id: number, data: Partial<InsertUser>): Promise<User | undefined>;
+  getSuperAdmins(): Promise<User[]>;
+  setUserSuperAdmin(id: number, isSuperAdmin: boolean): Promise<User | undefined>;
+  
+  // Tokens de redefinição de senha
+  createPasswordResetToken(token: InsertPasswordResetToken): Promise<PasswordResetToken>;
+  getPasswordResetTokenByHash(tokenHash: string): Promise<PasswordResetToken | undefined>;
+  // Marca o token como usado; retorna false se ele já havia sido usado
+  consumePasswordResetToken(id: number): Promise<boolean>;
+  invalidatePasswordResetTokens(userId: number): Promise<void>;
+  
+  // Verificação em duas etapas
+  getUserTwoFactor(userId: number): Promise<UserTwoFactor | undefined>;
+  saveUserTwoFactor(data: InsertUserTwoFactor): Promise<UserTwoFactor>;
+  updateUserTwoFactor(userId: number, data: Partial<InsertUserTwoFactor>): Promise<UserTwoFactor | undefined>;
+  deleteUserTwoFactor(userId: number): Promise<boolean>;
+  
+  // Tokens de acesso pessoal da API
+  createApiToken(token: InsertApiToken): Promise<ApiToken>;
+  getApiTokensByUser(userId: number): Promise<ApiToken[]>;
+  getApiTokenByHash(tokenHash: string): Promise<ApiToken | undefined>;
+  revokeApiToken(userId: number, id: number): Promise<boolean>;
+  touchApiToken(id: number, ip: string | null): Promise<void>;
+  
+  // Sessões de login
+  getUserSession(sid: string): Promise<UserSession | undefined>;
+  // Cria ou substitui a sessão, preservando a data de criação
+  saveUserSession(session: InsertUserSession): Promise<UserSession>;
+  touchUserSession(sid: string, expiresAt: Date): Promise<void>;
+  getUserSessionsByUser(userId: number): Promise<UserSession[]>;
+  deleteUserSession(sid: string): Promise<boolean>;
+  deleteExpiredUserSessions(): Promise<number>;
+  
+  // Proteção contra tentativas de login repetidas
+  getLoginThrottle(key: string): Promise<LoginThrottle | undefined>;
+  getLoginThrottles(): Promise<LoginThrottle[]>;
+  // Cria ou substitui o registro da chave
+  saveLoginThrottle(data: InsertLoginThrottle): Promise<LoginThrottle>;
+  deleteLoginThrottle(id: number): Promise<boolean>;
+  
+  // Auditoria (somente inclusão: registros saem apenas pela retenção)
+  createAuditLog(data: InsertAuditLog): Promise<AuditLog>;
+  getAuditLogs(filter: AuditLogFilter): Promise<AuditLog[]>;
+  // Remove os registros da organização (ou da plataforma, com null) anteriores à data
+  deleteAuditLogsBefore(organizationId: number | null, before: Date): Promise<number>;
+  
+  // Login único (OpenID Connect)
+  getOrganizationSso(organizationId: number): Promise<OrganizationSso | undefined>;
+  // Cria ou substitui a configuração da organização
+  saveOrganizationSso(data: InsertOrganizationSso): Promise<OrganizationSso>;
+  getSsoIdentity(issuer: string, subject: string): Promise<SsoIdentity | undefined>;
+  createSsoIdentity(identity: InsertSsoIdentity): Promise<SsoIdentity>;
+  touchSsoIdentity(id: number): Promise<void>;
+  getOrganizationDomains(organizationId: number): Promise<OrganizationDomain[]>;
+  createOrganizationDomain(domain: InsertOrganizationDomain): Promise<OrganizationDomain>;
+  markOrganizationDomainVerified(organizationId: number, id: number): Promise<OrganizationDomain | undefined>;
+  deleteOrganizationDomain(organizationId: number, id: number): Promise<boolean>;
+  
+  // Os métodos abaixo são sempre escopados pela organização ativa do usuário (tenant).
+  // Registros de outra organização se comportam como inexistentes.
+  // Nas atualizações com `expectedVersion`, um registro em outra versão também retorna undefined
+  // (conflito de edição, ver server/concurrency.ts).
   
   // Projects
-  getProject(id: number): Promise<Project | undefined>;
-  getAllProjects(): Promise<Project[]>;
-  getProjectsByUser(userId: number): Promise<Project[]>;
-  createProject(project: InsertProject): Promise<Project>;
-  updateProject(id: number, data: Partial<InsertProject>): Promise<Project | undefined>;
-  deleteProject(id: number): Promise<boolean>;
+  getProject(organizationId: number, id: number): Promise<Project | undefined>;
+  getAllProjects(organizationId: number): Promise<Project[]>;
+  getProjectsByUser(organizationId: number, userId: number): Promise<Project[]>;
+  createProject(organizationId: number, project: InsertProject): Promise<Project>;
+  updateProject(organizationId: number, id: number, data: Partial<InsertProject>, expectedVersion?: number): Promise<Project | undefined>;
+  deleteProject(organizationId: number, id: number): Promise<boolean>;
   
   // Project Members
-  getProjectMembers(projectId: number): Promise<ProjectMember[]>;
-  addProjectMember(member: InsertProjectMember): Promise<ProjectMember>;
-  removeProjectMember(projectId: number, userId: number): Promise<boolean>;
-  updateProjectMemberRole(projectId: number, userId: number, role: string): Promise<boolean>;
+  getProjectMembers(organizationId: number, projectId: number): Promise<ProjectMember[]>;
+  addProjectMember(organizationId: number, member: InsertProjectMember): Promise<ProjectMember>;
+  removeProjectMember(organizationId: number, projectId: number, userId: number): Promise<boolean>;
+  updateProjectMemberRole(organizationId: number, projectId: number, userId: number, role: string): Promise<boolean>;
   
   // Phases
-  getPhases(projectId: number): Promise<Phase[]>;
-  createPhase(phase: InsertPhase): Promise<Phase>;
-  updatePhase(id: number, data: Partial<InsertPhase>): Promise<Phase | undefined>;
-  deletePhase(id: number): Promise<boolean>;
+  getPhase(organizationId: number, id: number): Promise<Phase | undefined>;
+  getPhases(organizationId: number, projectId: number): Promise<Phase[]>;
+  createPhase(organizationId: number, phase: InsertPhase): Promise<Phase>;
+  updatePhase(organizationId: number, id: number, data: Partial<InsertPhase>, expectedVersion?: number): Promise<Phase | undefined>;
+  deletePhase(organizationId: number, id: number): Promise<boolean>;
   
   // Tasks
-  getTask(id: number): Promise<Task | undefined>;
-  getTasksByProject(projectId: number): Promise<Task[]>;
-  getTasksByPhase(phaseId: number): Promise<Task[]>;
-  getTasksByUser(userId: number): Promise<Task[]>;
-  createTask(task: InsertTask): Promise<Task>;
-  updateTask(id: number, data: Partial<InsertTask>): Promise<Task | undefined>;
-  deleteTask(id: number): Promise<boolean>;
+  getTask(organizationId: number, id: number): Promise<Task | undefined>;
+  getTasksByProject(organizationId: number, projectId: number): Promise<Task[]>;
+  getTasksByPhase(organizationId: number, phaseId: number): Promise<Task[]>;
+  getTasksByUser(organizationId: number, userId: number): Promise<Task[]>;
+  getSubtasks(organizationId: number, parentTaskIds: number[]): Promise<Task[]>; // Subtarefas diretas das tarefas informadas
+  listTasks(organizationId: number, query: ListQuery<TaskSortField, TaskListFilter>): Promise<Page<Task>>;
+  createTask(organizationId: number, task: InsertTask): Promise<Task>;
+  updateTask(organizationId: number, id: number, data: Partial<InsertTask>, expectedVersion?: number): Promise<Task | undefined>;
+  deleteTask(organizationId: number, id: number): Promise<boolean>;
   
   // Checklist Items
-  getChecklistItems(taskId: number): Promise<ChecklistItem[]>;
-  createChecklistItem(item: InsertChecklistItem): Promise<ChecklistItem>;
-  updateChecklistItem(id: number, data: Partial<InsertChecklistItem>): Promise<ChecklistItem | undefined>;
-  deleteChecklistItem(id: number): Promise<boolean>;
+  getChecklistItem(organizationId: number, id: number): Promise<ChecklistItem | undefined>;
+  getChecklistItems(organizationId: number, taskId: number): Promise<ChecklistItem[]>;
+  createChecklistItem(organizationId: number, item: InsertChecklistItem): Promise<ChecklistItem>;
+  updateChecklistItem(organizationId: number, id: number, data: Partial<InsertChecklistItem>): Promise<ChecklistItem | undefined>;
+  deleteChecklistItem(organizationId: number, id: number): Promise<boolean>;
+  // Troca o item por uma subtarefa da tarefa dele, com a data de criação e a conclusão do item
+  convertChecklistItemToSubtask(organizationId: number, id: number, userId: number): Promise<Task | undefined>;
   
   // Files
-  getFile(id: number): Promise<File | undefined>;
-  getFilesByProject(projectId: number): Promise<File[]>;
-  getFilesByTask(taskId: number): Promise<File[]>;
-  createFile(file: InsertFile): Promise<File>;
-  deleteFile(id: number): Promise<boolean>;
+  getFile(organizationId: number, id: number): Promise<File | undefined>;
+  getFilesByProject(organizationId: number, projectId: number): Promise<File[]>;
+  getFilesByTask(organizationId: number, taskId: number): Promise<File[]>;
+  listFiles(organizationId: number, query: ListQuery<FileSortField, FileListFilter>): Promise<Page<File>>;
+  createFile(organizationId: number, file: InsertFile): Promise<File>;
+  deleteFile(organizationId: number, id: number): Promise<boolean>;
+  getStorageUsage(organizationId: number): Promise<number>; // Total em bytes dos arquivos da organização
   
   // Activities
-  getActivitiesByProject(projectId: number, limit?: number): Promise<Activity[]>;
-  createActivity(activity: InsertActivity): Promise<Activity>;
+  getActivitiesByProject(organizationId: number, projectId: number, limit?: number): Promise<Activity[]>;
+  listActivities(organizationId: number, query: ListQuery<ActivitySortField, ActivityListFilter>): Promise<Page<Activity>>;
+  createActivity(organizationId: number, activity: InsertActivity): Promise<Activity>;
   
   // Comments
-  getCommentsByProject(projectId: number): Promise<Comment[]>;
-  getCommentsByTask(taskId: number): Promise<Comment[]>;
-  createComment(comment: InsertComment): Promise<Comment>;
-  deleteComment(id: number): Promise<boolean>;
+  getComment(organizationId: number, id: number): Promise<Comment | undefined>;
+  getCommentsByProject(organizationId: number, projectId: number): Promise<Comment[]>;
+  getCommentsByTask(organizationId: number, taskId: number): Promise<Comment[]>;
+  createComment(organizationId: number, comment: InsertComment): Promise<Comment>;
+  deleteComment(organizationId: number, id: number): Promise<boolean>;
+  
+  // Lixeira (shared/trash.ts); os métodos delete* acima excluem definitivamente
+  moveToTrash(organizationId: number, type: TrashItemType, id: number, userId: number): Promise<boolean>;
+  getTrash(organizationId: number): Promise<TrashItem[]>; // Sem os itens que foram junto com um projeto ou tarefa
+  getTrashItem(organizationId: number, type: TrashItemType, id: number): Promise<TrashItem | undefined>;
+  restoreFromTrash(organizationId: number, type: TrashItemType, id: number): Promise<boolean>;
+  // Exclui definitivamente o item e seus filhos; retorna os arquivos removidos, para apagar os uploads
+  purgeFromTrash(organizationId: number, type: TrashItemType, id: number): Promise<File[] | undefined>;
+  
+  // Busca unificada: registros em que todos os termos aparecem, sem diferenciar acentos
+  searchRecords(organizationId: number, filter: SearchFilter): Promise<SearchCandidates>;
+  
+  // Tags de tarefas (shared/tags.ts)
+  getTag(organizationId: number, id: number): Promise<Tag | undefined>;
+  getTags(organizationId: number): Promise<(Tag & { taskCount: number })[]>; // Ordenadas pelo nome
+  createTag(organizationId: number, tag: InsertTag): Promise<Tag>;
+  updateTag(organizationId: number, id: number, data: Partial<InsertTag>): Promise<Tag | undefined>;
+  deleteTag(organizationId: number, id: number): Promise<boolean>;
+  // Passa as tarefas da tag de origem para a de destino e exclui a de origem
+  mergeTags(organizationId: number, sourceId: number, targetId: number): Promise<Tag | undefined>;
+  getTaskTagIds(organizationId: number, taskIds: number[]): Promise<Map<number, number[]>>;
+  setTaskTags(organizationId: number, taskId: number, tagIds: number[]): Promise<void>; // Substitui as tags da tarefa
+  
+  // Dependências entre tarefas (shared/dependencies.ts)
+  getTaskDependency(organizationId: number, id: number): Promise<TaskDependency | undefined>;
+  getTaskDependencies(organizationId: number, taskId: number): Promise<TaskDependency[]>; // Em que a tarefa bloqueia ou é bloqueada
+  getProjectDependencies(organizationId: number, projectId: number): Promise<TaskDependency[]>;
+  createTaskDependency(organizationId: number, dependency: InsertTaskDependency): Promise<TaskDependency>;
+  deleteTaskDependency(organizationId: number, id: number): Promise<boolean>;
+  
+  // Visões salvas (shared/views.ts)
+  getSavedView(organizationId: number, id: number): Promise<SavedView | undefined>;
+  getSavedViews(organizationId: number, userId: number): Promise<SavedView[]>; // Do usuário e as compartilhadas
+  createSavedView(organizationId: number, view: InsertSavedView): Promise<SavedView>;
+  updateSavedView(organizationId: number, id: number, data: Partial<InsertSavedView>): Promise<SavedView | undefined>;
+  deleteSavedView(organizationId: number, id: number): Promise<boolean>;
   
   // Integrations
-  getIntegration(id: number): Promise<Integration | undefined>;
-  getIntegrationByType(type: string): Promise<Integration | undefined>;
-  getAllIntegrations(): Promise<Integration[]>;
-  createIntegration(integration: InsertIntegration): Promise<Integration>;
-  updateIntegration(id: number, data: Partial<InsertIntegration>): Promise<Integration | undefined>;
-  deleteIntegration(id: number): Promise<boolean>;
+  getIntegration(organizationId: number, id: number): Promise<Integration | undefined>;
+  getIntegrationByType(organizationId: number, type: string): Promise<Integration | undefined>;
+  getAllIntegrations(organizationId: number): Promise<Integration[]>;
+  createIntegration(organizationId: number, integration: InsertIntegration): Promise<Integration>;
+  updateIntegration(organizationId: number, id: number, data: Partial<InsertIntegration>): Promise<Integration | undefined>;
+  deleteIntegration(organizationId: number, id: number): Promise<boolean>;
+  // Uso exclusivo de processos de sistema (inicialização), fora do contexto de uma requisição
+  getOrganizationIdsWithIntegration(type: string): Promise<number[]>;
   
   // Payment Integrations
   getPaymentIntegration(id: number): Promise<PaymentIntegration | undefined>;
@@ -138,30 +382,30 @@ export interface IStorage {
   deletePartnerAgency(id: number): Promise<boolean>;
 
   // Budget Categories
-  getBudgetCategory(id: number): Promise<BudgetCategory | undefined>;
-  getBudgetCategoriesByProject(projectId: number): Promise<BudgetCategory[]>;
-  createBudgetCategory(category: InsertBudgetCategory): Promise<BudgetCategory>;
-  updateBudgetCategory(id: number, data: Partial<InsertBudgetCategory>): Promise<BudgetCategory | undefined>;
-  deleteBudgetCategory(id: number): Promise<boolean>;
+  getBudgetCategory(organizationId: number, id: number): Promise<BudgetCategory | undefined>;
+  getBudgetCategoriesByProject(organizationId: number, projectId: number): Promise<BudgetCategory[]>;
+  createBudgetCategory(organizationId: number, category: InsertBudgetCategory): Promise<BudgetCategory>;
+  updateBudgetCategory(organizationId: number, id: number, data: Partial<InsertBudgetCategory>, expectedVersion?: number): Promise<BudgetCategory | undefined>;
+  deleteBudgetCategory(organizationId: number, id: number): Promise<boolean>;
   
   // Expenses
-  getExpense(id: number): Promise<Expense | undefined>;
-  getExpensesByProject(projectId: number): Promise<Expense[]>;
-  getExpensesByCategory(categoryId: number): Promise<Expense[]>;
-  createExpense(expense: InsertExpense): Promise<Expense>;
-  updateExpense(id: number, data: Partial<InsertExpense>): Promise<Expense | undefined>;
-  deleteExpense(id: number): Promise<boolean>;
-  approveExpense(id: number, userId: number): Promise<Expense | undefined>;
+  getExpense(organizationId: number, id: number): Promise<Expense | undefined>;
+  getExpensesByProject(organizationId: number, projectId: number): Promise<Expense[]>;
+  getExpensesByCategory(organizationId: number, categoryId: number): Promise<Expense[]>;
+  createExpense(organizationId: number, expense: InsertExpense): Promise<Expense>;
+  updateExpense(organizationId: number, id: number, data: Partial<InsertExpense>, expectedVersion?: number): Promise<Expense | undefined>;
+  deleteExpense(organizationId: number, id: number): Promise<boolean>;
+  approveExpense(organizationId: number, id: number, userId: number): Promise<Expense | undefined>;
   
   // Budget Forecasts
-  getBudgetForecast(id: number): Promise<BudgetForecast | undefined>;
-  getBudgetForecastsByProject(projectId: number): Promise<BudgetForecast[]>;
-  createBudgetForecast(forecast: InsertBudgetForecast): Promise<BudgetForecast>;
-  updateBudgetForecast(id: number, data: Partial<InsertBudgetForecast>): Promise<BudgetForecast | undefined>;
-  deleteBudgetForecast(id: number): Promise<boolean>;
+  getBudgetForecast(organizationId: number, id: number): Promise<BudgetForecast | undefined>;
+  getBudgetForecastsByProject(organizationId: number, projectId: number): Promise<BudgetForecast[]>;
+  createBudgetForecast(organizationId: number, forecast: InsertBudgetForecast): Promise<BudgetForecast>;
+  updateBudgetForecast(organizationId: number, id: number, data: Partial<InsertBudgetForecast>): Promise<BudgetForecast | undefined>;
+  deleteBudgetForecast(organizationId: number, id: number): Promise<boolean>;
   
   // Budget Analysis
-  getProjectBudgetSummary(projectId: number): Promise<{
+  getProjectBudgetSummary(organizationId: number, projectId: number): Promise<{
     totalBudget: number;
     plannedAmount: number;
     actualAmount: number;
@@ -264,11 +508,38 @@ export class MemStorage implements IStorage {
     */
   }
   
+  // Snapshot methods (persistência em disco, ver server/snapshot.ts)
+  exportSnapshotData(): SnapshotData {
+    const data: SnapshotData = {};
+    Object.entries(this as unknown as Record<string, unknown>).forEach(([key, value]) => {
+      if (value instanceof Map) data[key] = Array.from(value.entries());
+      else if (typeof value === 'number') data[key] = value;
+    });
+    return data;
+  }
+  
+  // Substitui as coleções e contadores presentes no snapshot; os ausentes voltam a ficar vazios
+  importSnapshotData(data: SnapshotData): void {
+    const fields = this as unknown as Record<string, unknown>;
+    Object.keys(fields).forEach(key => {
+      const value = data[key];
+      if (fields[key] instanceof Map) {
+        fields[key] = new Map(Array.isArray(value) ? value as [unknown, unknown][] : []);
+      } else if (typeof fields[key] === 'number') {
+        fields[key] = typeof value === 'number' ? value : 1;
+      }
+    });
+  }
+  
   // Organization methods
   async createOrganization(insertOrg: InsertOrganization): Promise<Organization> {
     const now = new Date();
     const id = this.organizationIdCounter++;
     const org: Organization = { 
+      domain: null,
+      logo: null,
+      primaryColor: '#0EA5E9',
+      active: true,
       ...insertOrg, 
       id, 
       createdAt: now,
@@ -282,6 +553,20 @@ export class MemStorage implements IStorage {
     return this.organizations.get(id);
   }
   
+  async getOrganizationBySlug(slug: string): Promise<Organization | undefined> {
+    return Array.from(this.organizations.values()).find(org => org.slug === slug);
+  }
+  
+  async getOrganizationByDomain(domain: string): Promise<Organization | undefined> {
+    const normalized = domain.toLowerCase();
+    return Array.from(this.organizations.values())
+      .find(org => org.domain?.toLowerCase() === normalized);
+  }
+  
+  async getAllOrganizations(): Promise<Organization[]> {
+    return Array.from(this.organizations.values());
+  }
+  
   async updateOrganization(id: number, data: Partial<InsertOrganization>): Promise<Organization | undefined> {
     const org = this.organizations.get(id);
     if (!org) return undefined;
@@ -299,6 +584,19 @@ export class MemStorage implements IStorage {
   async createOrganizationSettings(insertSettings: InsertOrganizationSettings): Promise<OrganizationSettings> {
     const id = this.organizationSettingsIdCounter++;
     const settings: OrganizationSettings = { 
+      defaultTimeZone: 'UTC',
+      dateFormat: 'DD/MM/YYYY',
+      timeFormat: 'HH:mm',
+      logoUrl: null,
+      whatsappEnabled: false,
+      emailNotificationsEnabled: true,
+      maxStorageGb: 5,
+      maxUsers: 5,
+      maxProjects: 10,
+      requireTwoFactor: false,
+      trashRetentionDays: 30,
+      permissions: null,
+      settings: {},
       ...insertSettings, 
       id,
       updatedAt: new Date()
@@ -324,7 +622,7 @@ export class MemStorage implements IStorage {
       ...data, 
       updatedAt: new Date() 
     };
-    this.organizationSettings.set(settings.id, updatedSettings);
+    this.organizationSettings.set(organizationId, updatedSettings);
     return updatedSettings;
   }
   
@@ -333,6 +631,18 @@ export class MemStorage implements IStorage {
     const now = new Date();
     const id = this.subscriptionIdCounter++;
     const subscription: Subscription = { 
+      plan: 'free',
+      status: 'active',
+      endDate: null,
+      trialEndsAt: null,
+      paymentProvider: null,
+      paymentProviderId: null,
+      quantity: 1,
+      pricePerUnit: null,
+      billingCycle: 'monthly',
+      canceledAt: null,
+      cancelReason: null,
+      metadata: null,
       ...insertSubscription, 
       id, 
       createdAt: now, 
@@ -348,7 +658,8 @@ export class MemStorage implements IStorage {
   }
   
   async updateSubscription(id: number, data: Partial<InsertSubscription>): Promise<Subscription | undefined> {
-    const subscription = this.subscriptions.get(id);
+    // As assinaturas ficam indexadas pela organização
+    const subscription = Array.from(this.subscriptions.values()).find(sub => sub.id === id);
     if (!subscription) return undefined;
     
     const updatedSubscription = { 
@@ -356,7 +667,7 @@ export class MemStorage implements IStorage {
       ...data, 
       updatedAt: new Date() 
     };
-    this.subscriptions.set(id, updatedSubscription);
+    this.subscriptions.set(updatedSubscription.organizationId, updatedSubscription);
     return updatedSubscription;
   }
   
@@ -365,9 +676,18 @@ export class MemStorage implements IStorage {
     const now = new Date();
     const id = this.organizationMemberIdCounter++;
     const member: OrganizationMember = { 
+      userId: null,
+      role: 'member',
+      invitedBy: null,
+      inviteEmail: null,
+      inviteStatus: 'accepted',
+      inviteToken: null,
+      inviteExpiresAt: null,
+      activeOrganization: true,
       ...insertMember, 
       id, 
-      addedAt: now 
+      joinedAt: now,
+      updatedAt: now
     };
     this.organizationMembers.set(id, member);
     return member;
@@ -396,6 +716,54 @@ export class MemStorage implements IStorage {
     this.organizationMembers.set(id, { ...member, role: role as any });
     return true;
   }
+  
+  async setActiveOrganization(userId: number, organizationId: number): Promise<boolean> {
+    const memberships = Array.from(this.organizationMembers.entries())
+      .filter(([_, member]) => member.userId === userId);
+    
+    if (!memberships.some(([_, member]) => member.organizationId === organizationId)) {
+      return false;
+    }
+    
+    const now = new Date();
+    memberships.forEach(([id, member]) => {
+      this.organizationMembers.set(id, {
+        ...member,
+        activeOrganization: member.organizationId === organizationId,
+        updatedAt: now
+      });
+    });
+    return true;
+  }
+  
+  async getOrganizationMember(organizationId: number, id: number): Promise<OrganizationMember | undefined> {
+    const member = this.organizationMembers.get(id);
+    return member?.organizationId === organizationId ? member : undefined;
+  }
+  
+  async getOrganizationMemberByInviteToken(inviteToken: string): Promise<OrganizationMember | undefined> {
+    return Array.from(this.organizationMembers.values())
+      .find(member => member.inviteToken === inviteToken);
+  }
+  
+  async updateOrganizationMember(organizationId: number, id: number, data: Partial<InsertOrganizationMember>): Promise<OrganizationMember | undefined> {
+    const member = await this.getOrganizationMember(organizationId, id);
+    if (!member) return undefined;
+    
+    const updatedMember = {
+      ...member,
+      ...data,
+      organizationId,
+      updatedAt: new Date()
+    };
+    this.organizationMembers.set(id, updatedMember);
+    return updatedMember;
+  }
+  
+  async deleteOrganizationMember(organizationId: number, id: number): Promise<boolean> {
+    if (!await this.getOrganizationMember(organizationId, id)) return false;
+    return this.organizationMembers.delete(id);
+  }
 
   // User methods
   async getUser(id: number): Promise<User | undefined> {
@@ -417,11 +785,48 @@ export class MemStorage implements IStorage {
   async getAllUsers(): Promise<User[]> {
     return Array.from(this.users.values());
   }
+  
+  async getUsersByOrganization(organizationId: number): Promise<User[]> {
+    const memberIds = (await this.getOrganizationMembers(organizationId))
+      .filter(member => !member.inviteStatus || member.inviteStatus === 'accepted')
+      .map(member => member.userId);
+    
+    return Array.from(this.users.values())
+      .filter(user => memberIds.includes(user.id));
+  }
+  
+  async listUsersByOrganization(organizationId: number, query: ListQuery<UserSortField, UserListFilter>): Promise<Page<User>> {
+    const { role, search } = query.filter;
+    const term = search?.toLowerCase();
+    const users = (await this.getUsersByOrganization(organizationId)).filter(user =>
+      (!role || role.includes(user.role)) &&
+      (!term || [user.name, user.email, user.username].some(value => value.toLowerCase().includes(term)))
+    );
+    
+    return paginate(users, query, user =>
+      query.sort === 'createdAt' ? user.createdAt : user[query.sort].toLowerCase());
+  }
+  
+  async getOrganizationsByUser(userId: number): Promise<OrganizationMember[]> {
+    return Array.from(this.organizationMembers.values())
+      .filter(member => member.userId === userId);
+  }
 
   async createUser(insertUser: InsertUser): Promise<User> {
     const now = new Date();
     const id = this.userIdCounter++;
-    const user: User = { ...insertUser, id, createdAt: now };
+    const user: User = {
+      role: 'member',
+      profession: 'other',
+      avatar: null,
+      partnerAgencyId: null,
+      stripeCustomerId: null,
+      stripeSubscriptionId: null,
+      ...insertUser,
+      id,
+      isSuperAdmin: false,
+      createdAt: now,
+    };
     this.users.set(id, user);
     return user;
   }
@@ -434,17 +839,375 @@ export class MemStorage implements IStorage {
     this.users.set(id, updatedUser);
     return updatedUser;
   }
+  
+  async getSuperAdmins(): Promise<User[]> {
+    return Array.from(this.users.values()).filter(user => user.isSuperAdmin);
+  }
+  
+  async setUserSuperAdmin(id: number, isSuperAdmin: boolean): Promise<User | undefined> {
+    const user = this.users.get(id);
+    if (!user) return undefined;
+    
+    const updatedUser = { ...user, isSuperAdmin };
+    this.users.set(id, updatedUser);
+    return updatedUser;
+  }
+
+  // Password reset token methods
+  private passwordResetTokens: Map<number, PasswordResetToken> = new Map();
+  private passwordResetTokenIdCounter: number = 1;
+  
+  async createPasswordResetToken(insertToken: InsertPasswordResetToken): Promise<PasswordResetToken> {
+    const id = this.passwordResetTokenIdCounter++;
+    const token: PasswordResetToken = {
+      requestedIp: null,
+      ...insertToken,
+      id,
+      usedAt: null,
+      createdAt: new Date()
+    };
+    this.passwordResetTokens.set(id, token);
+    return token;
+  }
+  
+  async getPasswordResetTokenByHash(tokenHash: string): Promise<PasswordResetToken | undefined> {
+    return Array.from(this.passwordResetTokens.values())
+      .find(token => token.tokenHash === tokenHash);
+  }
+  
+  async consumePasswordResetToken(id: number): Promise<boolean> {
+    const token = this.passwordResetTokens.get(id);
+    if (!token || token.usedAt) return false;
+    
+    this.passwordResetTokens.set(id, { ...token, usedAt: new Date() });
+    return true;
+  }
+  
+  async invalidatePasswordResetTokens(userId: number): Promise<void> {
+    const now = new Date();
+    this.passwordResetTokens.forEach((token, id) => {
+      if (token.userId === userId && !token.usedAt) {
+        this.passwordResetTokens.set(id, { ...token, usedAt: now });
+      }
+    });
+  }
+
+  // Two-factor methods
+  private userTwoFactor: Map<number, UserTwoFactor> = new Map();
+  private userTwoFactorIdCounter: number = 1;
+  
+  async getUserTwoFactor(userId: number): Promise<UserTwoFactor | undefined> {
+    return this.userTwoFactor.get(userId);
+  }
+  
+  // Substitui o cadastro anterior do usuário, se houver
+  async saveUserTwoFactor(data: InsertUserTwoFactor): Promise<UserTwoFactor> {
+    const now = new Date();
+    const existing = this.userTwoFactor.get(data.userId);
+    const record: UserTwoFactor = {
+      enabledAt: null,
+      recoveryCodes: [],
+      lastUsedStep: null,
+      ...data,
+      id: existing?.id ?? this.userTwoFactorIdCounter++,
+      createdAt: now,
+      updatedAt: now
+    };
+    this.userTwoFactor.set(data.userId, record);
+    return record;
+  }
+  
+  async updateUserTwoFactor(userId: number, data: Partial<InsertUserTwoFactor>): Promise<UserTwoFactor | undefined> {
+    const record = this.userTwoFactor.get(userId);
+    if (!record) return undefined;
+    
+    const updated = { ...record, ...data, userId, updatedAt: new Date() };
+    this.userTwoFactor.set(userId, updated);
+    return updated;
+  }
+  
+  async deleteUserTwoFactor(userId: number): Promise<boolean> {
+    return this.userTwoFactor.delete(userId);
+  }
+
+  // API token methods
+  private apiTokens: Map<number, ApiToken> = new Map();
+  private apiTokenIdCounter: number = 1;
+  
+  async createApiToken(insertToken: InsertApiToken): Promise<ApiToken> {
+    const id = this.apiTokenIdCounter++;
+    const token: ApiToken = {
+      scopes: [],
+      expiresAt: null,
+      ...insertToken,
+      id,
+      revokedAt: null,
+      lastUsedAt: null,
+      lastUsedIp: null,
+      createdAt: new Date()
+    };
+    this.apiTokens.set(id, token);
+    return token;
+  }
+  
+  async getApiTokensByUser(userId: number): Promise<ApiToken[]> {
+    return Array.from(this.apiTokens.values())
+      .filter(token => token.userId === userId)
+      .sort((a, b) => b.id - a.id);
+  }
+  
+  async getApiTokenByHash(tokenHash: string): Promise<ApiToken | undefined> {
+    return Array.from(this.apiTokens.values())
+      .find(token => token.tokenHash === tokenHash);
+  }
+  
+  async revokeApiToken(userId: number, id: number): Promise<boolean> {
+    const token = this.apiTokens.get(id);
+    if (!token || token.userId !== userId || token.revokedAt) return false;
+    
+    this.apiTokens.set(id, { ...token, revokedAt: new Date() });
+    return true;
+  }
+  
+  async touchApiToken(id: number, ip: string | null): Promise<void> {
+    const token = this.apiTokens.get(id);
+    if (token) {
+      this.apiTokens.set(id, { ...token, lastUsedAt: new Date(), lastUsedIp: ip });
+    }
+  }
+
+  // Session methods
+  private userSessions: Map<string, UserSession> = new Map();
+  
+  async getUserSession(sid: string): Promise<UserSession | undefined> {
+    return this.userSessions.get(sid);
+  }
+  
+  async saveUserSession(data: InsertUserSession): Promise<UserSession> {
+    const now = new Date();
+    const record: UserSession = {
+      userId: null,
+      userAgent: null,
+      ipAddress: null,
+      ...data,
+      createdAt: this.userSessions.get(data.sid)?.createdAt ?? now,
+      lastSeenAt: now
+    };
+    this.userSessions.set(data.sid, record);
+    return record;
+  }
+  
+  async touchUserSession(sid: string, expiresAt: Date): Promise<void> {
+    const record = this.userSessions.get(sid);
+    if (record) {
+      this.userSessions.set(sid, { ...record, expiresAt, lastSeenAt: new Date() });
+    }
+  }
+  
+  async getUserSessionsByUser(userId: number): Promise<UserSession[]> {
+    const now = Date.now();
+    return Array.from(this.userSessions.values())
+      .filter(record => record.userId === userId && record.expiresAt.getTime() > now)
+      .sort((a, b) => (b.lastSeenAt?.getTime() ?? 0) - (a.lastSeenAt?.getTime() ?? 0));
+  }
+  
+  async deleteUserSession(sid: string): Promise<boolean> {
+    return this.userSessions.delete(sid);
+  }
+  
+  async deleteExpiredUserSessions(): Promise<number> {
+    const now = Date.now();
+    let removed = 0;
+    this.userSessions.forEach((record, sid) => {
+      if (record.expiresAt.getTime() <= now) {
+        this.userSessions.delete(sid);
+        removed++;
+      }
+    });
+    return removed;
+  }
+  // Login throttle methods
+  private loginThrottles: Map<string, LoginThrottle> = new Map();
+  private loginThrottleIdCounter: number = 1;
+  
+  async getLoginThrottle(key: string): Promise<LoginThrottle | undefined> {
+    return this.loginThrottles.get(key);
+  }
+  
+  async getLoginThrottles(): Promise<LoginThrottle[]> {
+    return Array.from(this.loginThrottles.values())
+      .sort((a, b) => (b.updatedAt?.getTime() ?? 0) - (a.updatedAt?.getTime() ?? 0));
+  }
+  
+  async saveLoginThrottle(data: InsertLoginThrottle): Promise<LoginThrottle> {
+    const record: LoginThrottle = {
+      failures: 0,
+      lockouts: 0,
+      lastFailureAt: null,
+      lockedUntil: null,
+      ...data,
+      id: this.loginThrottles.get(data.key)?.id ?? this.loginThrottleIdCounter++,
+      updatedAt: new Date()
+    };
+    this.loginThrottles.set(data.key, record);
+    return record;
+  }
+  
+  async deleteLoginThrottle(id: number): Promise<boolean> {
+    const record = Array.from(this.loginThrottles.values()).find(r => r.id === id);
+    return record ? this.loginThrottles.delete(record.key) : false;
+  }
+  // Audit log methods
+  private auditLogs: Map<number, AuditLog> = new Map();
+  private auditLogIdCounter: number = 1;
+  
+  async createAuditLog(data: InsertAuditLog): Promise<AuditLog> {
+    const id = this.auditLogIdCounter++;
+    const record: AuditLog = {
+      organizationId: null,
+      actorId: null,
+      actorName: null,
+      targetType: null,
+      targetId: null,
+      targetLabel: null,
+      changes: null,
+      details: null,
+      ipAddress: null,
+      ...data,
+      id,
+      createdAt: new Date()
+    };
+    this.auditLogs.set(id, record);
+    return record;
+  }
+  
+  async getAuditLogs(filter: AuditLogFilter): Promise<AuditLog[]> {
+    const offset = filter.offset ?? 0;
+    const records = Array.from(this.auditLogs.values())
+      .filter(record =>
+        (filter.organizationId === undefined || record.organizationId === filter.organizationId) &&
+        (filter.actorId === undefined || record.actorId === filter.actorId) &&
+        (!filter.action || (filter.action.endsWith('.') ? record.action.startsWith(filter.action) : record.action === filter.action)) &&
+        (!filter.targetType || record.targetType === filter.targetType) &&
+        (filter.targetId === undefined || record.targetId === filter.targetId) &&
+        (!filter.from || record.createdAt >= filter.from) &&
+        (!filter.to || record.createdAt <= filter.to)
+      )
+      .sort((a, b) => b.id - a.id);
+    return filter.limit === undefined ? records.slice(offset) : records.slice(offset, offset + filter.limit);
+  }
+  
+  async deleteAuditLogsBefore(organizationId: number | null, before: Date): Promise<number> {
+    let removed = 0;
+    this.auditLogs.forEach((record, id) => {
+      if (record.organizationId === organizationId && record.createdAt < before) {
+        this.auditLogs.delete(id);
+        removed++;
+      }
+    });
+    return removed;
+  }
+  // SSO methods
+  private organizationSso: Map<number, OrganizationSso> = new Map();
+  private organizationSsoIdCounter: number = 1;
+  private ssoIdentities: Map<number, SsoIdentity> = new Map();
+  private ssoIdentityIdCounter: number = 1;
+  private organizationDomains: Map<number, OrganizationDomain> = new Map();
+  private organizationDomainIdCounter: number = 1;
+  
+  async getOrganizationSso(organizationId: number): Promise<OrganizationSso | undefined> {
+    return this.organizationSso.get(organizationId);
+  }
+  
+  async saveOrganizationSso(data: InsertOrganizationSso): Promise<OrganizationSso> {
+    const now = new Date();
+    const existing = this.organizationSso.get(data.organizationId);
+    const record: OrganizationSso = {
+      enabled: false,
+      clientSecret: null,
+      allowedDomains: [],
+      defaultRole: 'member',
+      ...data,
+      id: existing?.id ?? this.organizationSsoIdCounter++,
+      createdAt: existing?.createdAt ?? now,
+      updatedAt: now
+    };
+    this.organizationSso.set(data.organizationId, record);
+    return record;
+  }
+  
+  async getSsoIdentity(issuer: string, subject: string): Promise<SsoIdentity | undefined> {
+    return Array.from(this.ssoIdentities.values())
+      .find(identity => identity.issuer === issuer && identity.subject === subject);
+  }
+  
+  async createSsoIdentity(insertIdentity: InsertSsoIdentity): Promise<SsoIdentity> {
+    const id = this.ssoIdentityIdCounter++;
+    const now = new Date();
+    const identity: SsoIdentity = {
+      email: null,
+      ...insertIdentity,
+      id,
+      createdAt: now,
+      lastLoginAt: now
+    };
+    this.ssoIdentities.set(id, identity);
+    return identity;
+  }
+  
+  async touchSsoIdentity(id: number): Promise<void> {
+    const identity = this.ssoIdentities.get(id);
+    if (identity) {
+      this.ssoIdentities.set(id, { ...identity, lastLoginAt: new Date() });
+    }
+  }
+  
+  async getOrganizationDomains(organizationId: number): Promise<OrganizationDomain[]> {
+    return Array.from(this.organizationDomains.values())
+      .filter(domain => domain.organizationId === organizationId)
+      .sort((a, b) => a.domain.localeCompare(b.domain));
+  }
+  
+  async createOrganizationDomain(insertDomain: InsertOrganizationDomain): Promise<OrganizationDomain> {
+    const id = this.organizationDomainIdCounter++;
+    const domain: OrganizationDomain = {
+      ...insertDomain,
+      id,
+      verifiedAt: null,
+      createdAt: new Date()
+    };
+    this.organizationDomains.set(id, domain);
+    return domain;
+  }
+  
+  async markOrganizationDomainVerified(organizationId: number, id: number): Promise<OrganizationDomain | undefined> {
+    const domain = this.organizationDomains.get(id);
+    if (!domain || domain.organizationId !== organizationId) return undefined;
+    const verified = { ...domain, verifiedAt: domain.verifiedAt ?? new Date() };
+    this.organizationDomains.set(id, verified);
+    return verified;
+  }
+  
+  async deleteOrganizationDomain(organizationId: number, id: number): Promise<boolean> {
+    const domain = this.organizationDomains.get(id);
+    if (!domain || domain.organizationId !== organizationId) return false;
+    return this.organizationDomains.delete(id);
+  }
+
+
 
   // Project methods
-  async getProject(id: number): Promise<Project | undefined> {
-    return this.projects.get(id);
+  async getProject(organizationId: number, id: number): Promise<Project | undefined> {
+    const project = this.projects.get(id);
+    return project?.organizationId === organizationId && !project.deletedAt ? project : undefined;
   }
   
-  async getAllProjects(): Promise<Project[]> {
-    return Array.from(this.projects.values());
+  async getAllProjects(organizationId: number): Promise<Project[]> {
+    return Array.from(this.projects.values())
+      .filter(project => project.organizationId === organizationId && !project.deletedAt);
   }
   
-  async getProjectsByUser(userId: number): Promise<Project[]> {
+  async getProjectsByUser(organizationId: number, userId: number): Promise<Project[]> {
     const memberProjects = Array.from(this.projectMembers.values())
       .filter(member => member.userId === userId)
       .map(member => member.projectId);
@@ -453,20 +1216,35 @@ export class MemStorage implements IStorage {
       .filter(project => project.createdBy === userId)
       .map(project => project.id);
     
-    const projectIds = [...new Set([...memberProjects, ...createdProjects])];
+    const projectIds = Array.from(new Set([...memberProjects, ...createdProjects]));
     
     return Array.from(this.projects.values())
-      .filter(project => projectIds.includes(project.id));
+      .filter(project => project.organizationId === organizationId && !project.deletedAt && projectIds.includes(project.id));
   }
 
-  async createProject(insertProject: InsertProject): Promise<Project> {
+  async createProject(organizationId: number, insertProject: InsertProject): Promise<Project> {
     const now = new Date();
     const id = this.projectIdCounter++;
-    const project: Project = { ...insertProject, id, createdAt: now };
+    const project: Project = {
+      description: null,
+      status: 'planning',
+      progress: 0,
+      startDate: null,
+      deadline: null,
+      budget: null,
+      ...insertProject,
+      organizationId,
+      id,
+      createdAt: now,
+      updatedAt: now,
+      version: 1,
+      deletedAt: null,
+      deletedBy: null
+    };
     this.projects.set(id, project);
     
     // Add creator as project member with admin role
-    await this.addProjectMember({
+    await this.addProjectMember(organizationId, {
       projectId: id,
       userId: insertProject.createdBy,
       role: "admin"
@@ -475,33 +1253,60 @@ export class MemStorage implements IStorage {
     return project;
   }
   
-  async updateProject(id: number, data: Partial<InsertProject>): Promise<Project | undefined> {
-    const project = this.projects.get(id);
-    if (!project) return undefined;
+  async updateProject(organizationId: number, id: number, data: Partial<InsertProject>, expectedVersion?: number): Promise<Project | undefined> {
+    const project = await this.getProject(organizationId, id);
+    if (!project || !isExpectedVersion(project, expectedVersion)) return undefined;
     
-    const updatedProject = { ...project, ...data };
+    const updatedProject = { ...project, ...updatableFields(data), updatedAt: new Date(), version: project.version + 1 };
     this.projects.set(id, updatedProject);
     return updatedProject;
   }
   
-  async deleteProject(id: number): Promise<boolean> {
+  async deleteProject(organizationId: number, id: number): Promise<boolean> {
+    if (!await this.getProject(organizationId, id)) return false;
     return this.projects.delete(id);
   }
+  
+  // Garante que o projeto referenciado pertence à organização antes de gravar registros filhos
+  private async assertProjectInOrganization(organizationId: number, projectId: number): Promise<void> {
+    if (!await this.getProject(organizationId, projectId)) {
+      throw new Error("Project not found");
+    }
+  }
+  
+  private async assertTaskInOrganization(organizationId: number, taskId: number): Promise<void> {
+    if (!await this.getTask(organizationId, taskId)) {
+      throw new Error("Task not found");
+    }
+  }
 
   // Project Members methods
-  async getProjectMembers(projectId: number): Promise<ProjectMember[]> {
+  async getProjectMembers(organizationId: number, projectId: number): Promise<ProjectMember[]> {
+    if (!await this.getProject(organizationId, projectId)) return [];
+    
     return Array.from(this.projectMembers.values())
       .filter(member => member.projectId === projectId);
   }
   
-  async addProjectMember(insertMember: InsertProjectMember): Promise<ProjectMember> {
+  async addProjectMember(organizationId: number, insertMember: InsertProjectMember): Promise<ProjectMember> {
+    await this.assertProjectInOrganization(organizationId, insertMember.projectId);
+    
     const id = this.memberIdCounter++;
-    const member: ProjectMember = { ...insertMember, id };
+    const member: ProjectMember = {
+      role: 'member',
+      profession: 'other',
+      addedBy: null,
+      ...insertMember,
+      id,
+      addedAt: new Date()
+    };
     this.projectMembers.set(id, member);
     return member;
   }
   
-  async removeProjectMember(projectId: number, userId: number): Promise<boolean> {
+  async removeProjectMember(organizationId: number, projectId: number, userId: number): Promise<boolean> {
+    if (!await this.getProject(organizationId, projectId)) return false;
+    
     const memberEntry = Array.from(this.projectMembers.entries())
       .find(([_, member]) => member.projectId === projectId && member.userId === userId);
     
@@ -509,7 +1314,9 @@ export class MemStorage implements IStorage {
     return this.projectMembers.delete(memberEntry[0]);
   }
   
-  async updateProjectMemberRole(projectId: number, userId: number, role: string): Promise<boolean> {
+  async updateProjectMemberRole(organizationId: number, projectId: number, userId: number, role: string): Promise<boolean> {
+    if (!await this.getProject(organizationId, projectId)) return false;
+    
     const memberEntry = Array.from(this.projectMembers.entries())
       .find(([_, member]) => member.projectId === projectId && member.userId === userId);
     
@@ -521,188 +1328,761 @@ export class MemStorage implements IStorage {
   }
 
   // Phase methods
-  async getPhases(projectId: number): Promise<Phase[]> {
+  async getPhase(organizationId: number, id: number): Promise<Phase | undefined> {
+    const phase = this.phases.get(id);
+    if (!phase || !await this.getProject(organizationId, phase.projectId)) return undefined;
+    return phase;
+  }
+  
+  async getPhases(organizationId: number, projectId: number): Promise<Phase[]> {
+    if (!await this.getProject(organizationId, projectId)) return [];
+    
     return Array.from(this.phases.values())
       .filter(phase => phase.projectId === projectId)
       .sort((a, b) => a.order - b.order);
   }
   
-  async createPhase(insertPhase: InsertPhase): Promise<Phase> {
+  async createPhase(organizationId: number, insertPhase: InsertPhase): Promise<Phase> {
+    await this.assertProjectInOrganization(organizationId, insertPhase.projectId);
+    
     const id = this.phaseIdCounter++;
-    const phase: Phase = { ...insertPhase, id };
+    const now = new Date();
+    const phase: Phase = { description: null, ...insertPhase, id, createdAt: now, updatedAt: now, version: 1 };
     this.phases.set(id, phase);
     return phase;
   }
   
-  async updatePhase(id: number, data: Partial<InsertPhase>): Promise<Phase | undefined> {
-    const phase = this.phases.get(id);
-    if (!phase) return undefined;
+  async updatePhase(organizationId: number, id: number, data: Partial<InsertPhase>, expectedVersion?: number): Promise<Phase | undefined> {
+    const phase = await this.getPhase(organizationId, id);
+    if (!phase || !isExpectedVersion(phase, expectedVersion)) return undefined;
     
-    const updatedPhase = { ...phase, ...data };
+    const updatedPhase = { ...phase, ...data, projectId: phase.projectId, updatedAt: new Date(), version: phase.version + 1 };
     this.phases.set(id, updatedPhase);
     return updatedPhase;
   }
   
-  async deletePhase(id: number): Promise<boolean> {
+  async deletePhase(organizationId: number, id: number): Promise<boolean> {
+    if (!await this.getPhase(organizationId, id)) return false;
     return this.phases.delete(id);
   }
 
   // Task methods
-  async getTask(id: number): Promise<Task | undefined> {
-    return this.tasks.get(id);
+  async getTask(organizationId: number, id: number): Promise<Task | undefined> {
+    const task = this.tasks.get(id);
+    return task?.organizationId === organizationId && !task.deletedAt ? task : undefined;
+  }
+  
+  async getTasksByProject(organizationId: number, projectId: number): Promise<Task[]> {
+    return Array.from(this.tasks.values())
+      .filter(task => task.organizationId === organizationId && !task.deletedAt && task.projectId === projectId);
   }
   
-  async getTasksByProject(projectId: number): Promise<Task[]> {
+  async getTasksByPhase(organizationId: number, phaseId: number): Promise<Task[]> {
     return Array.from(this.tasks.values())
-      .filter(task => task.projectId === projectId);
+      .filter(task => task.organizationId === organizationId && !task.deletedAt && task.phaseId === phaseId);
   }
   
-  async getTasksByPhase(phaseId: number): Promise<Task[]> {
+  async getTasksByUser(organizationId: number, userId: number): Promise<Task[]> {
     return Array.from(this.tasks.values())
-      .filter(task => task.phaseId === phaseId);
+      .filter(task => task.organizationId === organizationId && !task.deletedAt && task.assignedTo === userId);
   }
   
-  async getTasksByUser(userId: number): Promise<Task[]> {
+  async getSubtasks(organizationId: number, parentTaskIds: number[]): Promise<Task[]> {
+    const parents = new Set(parentTaskIds);
     return Array.from(this.tasks.values())
-      .filter(task => task.assignedTo === userId);
+      .filter(task => task.organizationId === organizationId && !task.deletedAt && task.parentTaskId !== null && parents.has(task.parentTaskId));
+  }
+  
+  async listTasks(organizationId: number, query: ListQuery<TaskSortField, TaskListFilter>): Promise<Page<Task>> {
+    const { visibleTo, projectId, assignedTo, status, priority, search, dueFrom, dueTo, tagIds } = query.filter;
+    const term = search?.toLowerCase();
+    const tasks = Array.from(this.tasks.values()).filter(task =>
+      task.organizationId === organizationId && !task.deletedAt &&
+      (!visibleTo || task.assignedTo === visibleTo.userId || visibleTo.projectIds.includes(task.projectId)) &&
+      (projectId === undefined || task.projectId === projectId) &&
+      (assignedTo === undefined || task.assignedTo === assignedTo) &&
+      (!status || status.includes(task.status)) &&
+      (!priority || priority.includes(task.priority)) &&
+      (!term || task.name.toLowerCase().includes(term) || !!task.description?.toLowerCase().includes(term)) &&
+      (!dueFrom || (!!task.dueDate && task.dueDate >= dueFrom)) &&
+      (!dueTo || (!!task.dueDate && task.dueDate <= dueTo)) &&
+      (!tagIds || this.hasAnyTag(task.id, tagIds))
+    );
+    
+    return paginate(tasks, query, task =>
+      query.sort === 'name' ? task.name.toLowerCase() : task[query.sort]);
   }
   
-  async createTask(insertTask: InsertTask): Promise<Task> {
+  async createTask(organizationId: number, insertTask: InsertTask): Promise<Task> {
+    await this.assertProjectInOrganization(organizationId, insertTask.projectId);
+    
     const now = new Date();
     const id = this.taskIdCounter++;
-    const task: Task = { ...insertTask, id, createdAt: now };
+    const task: Task = {
+      phaseId: null,
+      parentTaskId: null,
+      description: null,
+      assignedTo: null,
+      priority: 'medium',
+      status: 'todo',
+      dueDate: null,
+      estimatedHours: null,
+      completedAt: null,
+      createdBy: null,
+      ...insertTask,
+      organizationId,
+      id,
+      createdAt: now,
+      updatedAt: now,
+      version: 1,
+      deletedAt: null,
+      deletedBy: null
+    };
     this.tasks.set(id, task);
     return task;
   }
   
-  async updateTask(id: number, data: Partial<InsertTask>): Promise<Task | undefined> {
-    const task = this.tasks.get(id);
-    if (!task) return undefined;
+  async updateTask(organizationId: number, id: number, data: Partial<InsertTask>, expectedVersion?: number): Promise<Task | undefined> {
+    const task = await this.getTask(organizationId, id);
+    if (!task || !isExpectedVersion(task, expectedVersion)) return undefined;
     
-    const updatedTask = { ...task, ...data };
+    const updatedTask = { ...task, ...updatableFields(data, 'projectId'), updatedAt: new Date(), version: task.version + 1 };
     this.tasks.set(id, updatedTask);
     return updatedTask;
   }
   
-  async deleteTask(id: number): Promise<boolean> {
+  async deleteTask(organizationId: number, id: number): Promise<boolean> {
+    if (!await this.getTask(organizationId, id)) return false;
     return this.tasks.delete(id);
   }
 
   // Checklist Items methods
-  async getChecklistItems(taskId: number): Promise<ChecklistItem[]> {
+  async getChecklistItem(organizationId: number, id: number): Promise<ChecklistItem | undefined> {
+    const item = this.checklistItems.get(id);
+    if (!item || !await this.getTask(organizationId, item.taskId)) return undefined;
+    return item;
+  }
+  
+  async getChecklistItems(organizationId: number, taskId: number): Promise<ChecklistItem[]> {
+    if (!await this.getTask(organizationId, taskId)) return [];
+    
     return Array.from(this.checklistItems.values())
       .filter(item => item.taskId === taskId)
       .sort((a, b) => a.order - b.order);
   }
   
-  async createChecklistItem(insertItem: InsertChecklistItem): Promise<ChecklistItem> {
+  async createChecklistItem(organizationId: number, insertItem: InsertChecklistItem): Promise<ChecklistItem> {
+    await this.assertTaskInOrganization(organizationId, insertItem.taskId);
+    
     const id = this.checklistIdCounter++;
-    const item: ChecklistItem = { ...insertItem, id };
+    const now = new Date();
+    const item: ChecklistItem = {
+      isCompleted: false,
+      completedBy: null,
+      completedAt: null,
+      ...insertItem,
+      id,
+      createdAt: now,
+      updatedAt: now
+    };
     this.checklistItems.set(id, item);
     return item;
   }
   
-  async updateChecklistItem(id: number, data: Partial<InsertChecklistItem>): Promise<ChecklistItem | undefined> {
-    const item = this.checklistItems.get(id);
+  async updateChecklistItem(organizationId: number, id: number, data: Partial<InsertChecklistItem>): Promise<ChecklistItem | undefined> {
+    const item = await this.getChecklistItem(organizationId, id);
     if (!item) return undefined;
     
-    const updatedItem = { ...item, ...data };
+    const updatedItem = { ...item, ...data, taskId: item.taskId, updatedAt: new Date() };
     this.checklistItems.set(id, updatedItem);
     return updatedItem;
   }
   
-  async deleteChecklistItem(id: number): Promise<boolean> {
+  async deleteChecklistItem(organizationId: number, id: number): Promise<boolean> {
+    if (!await this.getChecklistItem(organizationId, id)) return false;
     return this.checklistItems.delete(id);
   }
+  
+  async convertChecklistItemToSubtask(organizationId: number, id: number, userId: number): Promise<Task | undefined> {
+    const item = await this.getChecklistItem(organizationId, id);
+    const parent = item && await this.getTask(organizationId, item.taskId);
+    if (!item || !parent) return undefined;
+    
+    const subtask = await this.createTask(organizationId, {
+      projectId: parent.projectId,
+      phaseId: parent.phaseId,
+      parentTaskId: parent.id,
+      name: item.text,
+      status: item.isCompleted ? 'completed' : 'todo',
+    });
+    const convertedTask: Task = {
+      ...subtask,
+      createdBy: userId,
+      completedAt: item.isCompleted ? item.completedAt ?? item.updatedAt : null,
+      createdAt: item.createdAt,
+    };
+    this.tasks.set(subtask.id, convertedTask);
+    this.checklistItems.delete(id);
+    return convertedTask;
+  }
 
   // Files methods
-  async getFile(id: number): Promise<File | undefined> {
-    return this.files.get(id);
+  async getFile(organizationId: number, id: number): Promise<File | undefined> {
+    const file = this.files.get(id);
+    return file?.organizationId === organizationId && !file.deletedAt ? file : undefined;
   }
   
-  async getFilesByProject(projectId: number): Promise<File[]> {
+  async getFilesByProject(organizationId: number, projectId: number): Promise<File[]> {
     return Array.from(this.files.values())
-      .filter(file => file.projectId === projectId);
+      .filter(file => file.organizationId === organizationId && !file.deletedAt && file.projectId === projectId);
   }
   
-  async getFilesByTask(taskId: number): Promise<File[]> {
+  async getFilesByTask(organizationId: number, taskId: number): Promise<File[]> {
     return Array.from(this.files.values())
-      .filter(file => file.taskId === taskId);
+      .filter(file => file.organizationId === organizationId && !file.deletedAt && file.taskId === taskId);
+  }
+  
+  async listFiles(organizationId: number, query: ListQuery<FileSortField, FileListFilter>): Promise<Page<File>> {
+    const { projectId, taskId, uploadedBy, search } = query.filter;
+    const term = search?.toLowerCase();
+    const files = Array.from(this.files.values()).filter(file =>
+      file.organizationId === organizationId && !file.deletedAt &&
+      file.projectId === projectId &&
+      (taskId === undefined || file.taskId === taskId) &&
+      (uploadedBy === undefined || file.uploadedBy === uploadedBy) &&
+      (!term || file.name.toLowerCase().includes(term))
+    );
+    
+    return paginate(files, query, file =>
+      query.sort === 'name' ? file.name.toLowerCase() : file[query.sort]);
   }
   
-  async createFile(insertFile: InsertFile): Promise<File> {
+  async createFile(organizationId: number, insertFile: InsertFile): Promise<File> {
+    await this.assertProjectInOrganization(organizationId, insertFile.projectId);
+    
     const now = new Date();
     const id = this.fileIdCounter++;
-    const file: File = { ...insertFile, id, uploadedAt: now };
+    const file: File = { taskId: null, ...insertFile, organizationId, id, uploadedAt: now, updatedAt: now, deletedAt: null, deletedBy: null };
     this.files.set(id, file);
     return file;
   }
   
-  async deleteFile(id: number): Promise<boolean> {
+  async deleteFile(organizationId: number, id: number): Promise<boolean> {
+    if (!await this.getFile(organizationId, id)) return false;
     return this.files.delete(id);
   }
+  
+  // Arquivos na lixeira continuam ocupando espaço até serem excluídos definitivamente
+  async getStorageUsage(organizationId: number): Promise<number> {
+    return Array.from(this.files.values())
+      .filter(file => file.organizationId === organizationId)
+      .reduce((total, file) => total + file.size, 0);
+  }
 
   // Activities methods
-  async getActivitiesByProject(projectId: number, limit?: number): Promise<Activity[]> {
+  async getActivitiesByProject(organizationId: number, projectId: number, limit?: number): Promise<Activity[]> {
     const activities = Array.from(this.activities.values())
-      .filter(activity => activity.projectId === projectId)
+      .filter(activity => activity.organizationId === organizationId && activity.projectId === projectId)
       .sort((a, b) => b.createdAt.getTime() - a.createdAt.getTime());
     
     return limit ? activities.slice(0, limit) : activities;
   }
   
-  async createActivity(insertActivity: InsertActivity): Promise<Activity> {
+  async listActivities(organizationId: number, query: ListQuery<ActivitySortField, ActivityListFilter>): Promise<Page<Activity>> {
+    const { projectIds, projectId, userId, taskId } = query.filter;
+    const activities = Array.from(this.activities.values()).filter(activity =>
+      activity.organizationId === organizationId &&
+      activity.projectId !== null && projectIds.includes(activity.projectId) &&
+      (projectId === undefined || activity.projectId === projectId) &&
+      (userId === undefined || activity.userId === userId) &&
+      (taskId === undefined || activity.taskId === taskId)
+    );
+    
+    return paginate(activities, query, activity => activity[query.sort]);
+  }
+  
+  async createActivity(organizationId: number, insertActivity: InsertActivity): Promise<Activity> {
     const now = new Date();
     const id = this.activityIdCounter++;
-    const activity: Activity = { ...insertActivity, id, createdAt: now };
+    const activity: Activity = {
+      projectId: null,
+      taskId: null,
+      details: null,
+      ...insertActivity,
+      organizationId,
+      id,
+      createdAt: now
+    };
     this.activities.set(id, activity);
     return activity;
   }
 
   // Comments methods
-  async getCommentsByProject(projectId: number): Promise<Comment[]> {
+  async getComment(organizationId: number, id: number): Promise<Comment | undefined> {
+    const comment = this.comments.get(id);
+    return comment?.organizationId === organizationId && !comment.deletedAt ? comment : undefined;
+  }
+  
+  async getCommentsByProject(organizationId: number, projectId: number): Promise<Comment[]> {
     return Array.from(this.comments.values())
-      .filter(comment => comment.projectId === projectId)
+      .filter(comment => comment.organizationId === organizationId && !comment.deletedAt && comment.projectId === projectId)
       .sort((a, b) => b.createdAt.getTime() - a.createdAt.getTime());
   }
   
-  async getCommentsByTask(taskId: number): Promise<Comment[]> {
+  async getCommentsByTask(organizationId: number, taskId: number): Promise<Comment[]> {
     return Array.from(this.comments.values())
-      .filter(comment => comment.taskId === taskId)
+      .filter(comment => comment.organizationId === organizationId && !comment.deletedAt && comment.taskId === taskId)
       .sort((a, b) => b.createdAt.getTime() - a.createdAt.getTime());
   }
   
-  async createComment(insertComment: InsertComment): Promise<Comment> {
+  async createComment(organizationId: number, insertComment: InsertComment): Promise<Comment> {
+    if (insertComment.projectId) {
+      await this.assertProjectInOrganization(organizationId, insertComment.projectId);
+    }
+    if (insertComment.taskId) {
+      await this.assertTaskInOrganization(organizationId, insertComment.taskId);
+    }
+    
     const now = new Date();
     const id = this.commentIdCounter++;
-    const comment: Comment = { ...insertComment, id, createdAt: now };
+    const comment: Comment = {
+      projectId: null,
+      taskId: null,
+      parentId: null,
+      ...insertComment,
+      organizationId,
+      id,
+      createdAt: now,
+      updatedAt: now,
+      deletedAt: null,
+      deletedBy: null
+    };
     this.comments.set(id, comment);
     return comment;
   }
   
-  async deleteComment(id: number): Promise<boolean> {
+  async deleteComment(organizationId: number, id: number): Promise<boolean> {
+    if (!await this.getComment(organizationId, id)) return false;
     return this.comments.delete(id);
   }
 
+  // Trash methods
+  // Marca o registro como excluído, se ainda estiver ativo
+  private trashRecord<T extends { id: number; deletedAt: Date | null; deletedBy: number | null }>(records: Map<number, T>, record: T, deletedAt: Date, userId: number) {
+    if (!record.deletedAt) records.set(record.id, { ...record, deletedAt, deletedBy: userId });
+  }
+  
+  // Reativa o registro, se foi para a lixeira na data informada
+  private restoreRecord<T extends { id: number; deletedAt: Date | null; deletedBy: number | null }>(records: Map<number, T>, record: T, deletedAt: Date) {
+    if (record.deletedAt?.getTime() === deletedAt.getTime()) records.set(record.id, { ...record, deletedAt: null, deletedBy: null });
+  }
+  
+  private findTrashed(organizationId: number, type: TrashItemType, id: number): Project | Task | File | Comment | undefined {
+    const records: Map<number, Project | Task | File | Comment> = {
+      project: this.projects,
+      task: this.tasks,
+      file: this.files,
+      comment: this.comments,
+    }[type];
+    const record = records.get(id);
+    return record?.organizationId === organizationId && record.deletedAt ? record : undefined;
+  }
+  
+  // Tarefas, arquivos e comentários que pertencem ao projeto ou à tarefa
+  private trashChildren(type: TrashItemType, id: number) {
+    const taskIds = type === 'project'
+      ? Array.from(this.tasks.values()).filter(task => task.projectId === id).map(task => task.id)
+      : type === 'task' ? [id] : [];
+    const belongs = (record: { projectId: number | null; taskId: number | null }) =>
+      (type === 'project' && record.projectId === id) || (record.taskId !== null && taskIds.includes(record.taskId));
+    return {
+      tasks: Array.from(this.tasks.values()).filter(task => taskIds.includes(task.id)),
+      files: Array.from(this.files.values()).filter(belongs),
+      comments: Array.from(this.comments.values()).filter(belongs),
+    };
+  }
+  
+  async moveToTrash(organizationId: number, type: TrashItemType, id: number, userId: number): Promise<boolean> {
+    const deletedAt = new Date();
+    switch (type) {
+      case 'project': {
+        const project = await this.getProject(organizationId, id);
+        if (!project) return false;
+        this.trashRecord(this.projects, project, deletedAt, userId);
+        break;
+      }
+      case 'task': {
+        const task = await this.getTask(organizationId, id);
+        if (!task) return false;
+        this.trashRecord(this.tasks, task, deletedAt, userId);
+        break;
+      }
+      case 'file': {
+        const file = await this.getFile(organizationId, id);
+        if (!file) return false;
+        this.trashRecord(this.files, file, deletedAt, userId);
+        return true;
+      }
+      case 'comment': {
+        const comment = await this.getComment(organizationId, id);
+        if (!comment) return false;
+        this.trashRecord(this.comments, comment, deletedAt, userId);
+        return true;
+      }
+    }
+    
+    const children = this.trashChildren(type, id);
+    children.tasks.forEach(task => this.trashRecord(this.tasks, task, deletedAt, userId));
+    children.files.forEach(file => this.trashRecord(this.files, file, deletedAt, userId));
+    children.comments.forEach(comment => this.trashRecord(this.comments, comment, deletedAt, userId));
+    return true;
+  }
+  
+  async getTrash(organizationId: number): Promise<TrashItem[]> {
+    // Itens que foram para a lixeira junto com o projeto ou a tarefa ficam dentro deles
+    const withParent = (deletedAt: Date, projectId: number | null, taskId: number | null) =>
+      (projectId !== null && this.projects.get(projectId)?.deletedAt?.getTime() === deletedAt.getTime()) ||
+      (taskId !== null && this.tasks.get(taskId)?.deletedAt?.getTime() === deletedAt.getTime());
+    const inTrash = <T extends { organizationId: number; deletedAt: Date | null }>(records: Map<number, T>) =>
+      Array.from(records.values()).filter((record): record is T & { deletedAt: Date } =>
+        record.organizationId === organizationId && record.deletedAt !== null);
+    
+    const items: TrashItem[] = [
+      ...inTrash(this.projects).map(project => toTrashItem('project', project)),
+      ...inTrash(this.tasks)
+        .filter(task => !withParent(task.deletedAt, task.projectId, null))
+        .map(task => toTrashItem('task', task)),
+      ...inTrash(this.files)
+        .filter(file => !withParent(file.deletedAt, file.projectId, file.taskId))
+        .map(file => toTrashItem('file', file)),
+      ...inTrash(this.comments)
+        .filter(comment => !withParent(comment.deletedAt, comment.projectId, comment.taskId))
+        .map(comment => toTrashItem('comment', comment)),
+    ];
+    return items.sort((a, b) => b.deletedAt.getTime() - a.deletedAt.getTime());
+  }
+  
+  async getTrashItem(organizationId: number, type: TrashItemType, id: number): Promise<TrashItem | undefined> {
+    const record = this.findTrashed(organizationId, type, id);
+    return record ? toTrashItem(type, record) : undefined;
+  }
+  
+  async restoreFromTrash(organizationId: number, type: TrashItemType, id: number): Promise<boolean> {
+    const record = this.findTrashed(organizationId, type, id);
+    if (!record?.deletedAt) return false;
+    const deletedAt = record.deletedAt;
+    
+    const children = this.trashChildren(type, id);
+    children.tasks.forEach(task => this.restoreRecord(this.tasks, task, deletedAt));
+    children.files.forEach(file => this.restoreRecord(this.files, file, deletedAt));
+    children.comments.forEach(comment => this.restoreRecord(this.comments, comment, deletedAt));
+    
+    const records = { project: this.projects, task: this.tasks, file: this.files, comment: this.comments }[type] as Map<number, typeof record>;
+    this.restoreRecord(records, record, deletedAt);
+    return true;
+  }
+  
+  async purgeFromTrash(organizationId: number, type: TrashItemType, id: number): Promise<File[] | undefined> {
+    if (!this.findTrashed(organizationId, type, id)) return undefined;
+    
+    // Mesmo efeito das chaves estrangeiras do banco: os filhos saem junto
+    const children = this.trashChildren(type, id);
+    const taskIds = children.tasks.map(task => task.id);
+    const removedFiles = type === 'file' ? [this.files.get(id)!] : children.files;
+    
+    const removeWhere = <T>(records: Map<number, T>, matches: (record: T) => boolean) => {
+      Array.from(records.entries()).forEach(([key, record]) => {
+        if (matches(record)) records.delete(key);
+      });
+    };
+    removedFiles.forEach(file => this.files.delete(file.id));
+    children.comments.forEach(comment => this.comments.delete(comment.id));
+    removeWhere(this.checklistItems, item => taskIds.includes(item.taskId));
+    removeWhere(this.taskTags, link => taskIds.includes(link.taskId));
+    removeWhere(this.taskDependencies, dependency =>
+      taskIds.includes(dependency.blockerTaskId) || taskIds.includes(dependency.blockedTaskId));
+    children.tasks.forEach(task => this.tasks.delete(task.id));
+    Array.from(this.tasks.values())
+      .filter(task => task.parentTaskId !== null && taskIds.includes(task.parentTaskId))
+      .forEach(task => this.tasks.set(task.id, { ...task, parentTaskId: null }));
+    Array.from(this.activities.values())
+      .filter(activity => activity.taskId !== null && taskIds.includes(activity.taskId))
+      .forEach(activity => this.activities.set(activity.id, { ...activity, taskId: null }));
+    Array.from(this.expenses.values())
+      .filter(expense => expense.taskId !== null && taskIds.includes(expense.taskId))
+      .forEach(expense => this.expenses.set(expense.id, { ...expense, taskId: null }));
+    
+    if (type === 'project') {
+      removeWhere(this.phases, phase => phase.projectId === id);
+      removeWhere(this.projectMembers, member => member.projectId === id);
+      removeWhere(this.activities, activity => activity.projectId === id);
+      removeWhere(this.budgetCategories, category => category.projectId === id);
+      removeWhere(this.expenses, expense => expense.projectId === id);
+      removeWhere(this.budgetForecasts, forecast => forecast.projectId === id);
+      this.projects.delete(id);
+    } else if (type === 'comment') {
+      this.comments.delete(id);
+    }
+    return removedFiles;
+  }
+
+  // Search methods
+  async searchRecords(organizationId: number, filter: SearchFilter): Promise<SearchCandidates> {
+    const { terms, types, visibleTo, projectId, status, assignedTo, tagIds, from, to, limit } = filter;
+    const inProjects = (id: number | null) =>
+      id !== null && visibleTo.projectIds.includes(id) && (projectId === undefined || id === projectId);
+    const inPeriod = (date: Date | null) => (!from || (!!date && date >= from)) && (!to || (!!date && date <= to));
+    const mostRecent = <T>(type: SearchResultType, records: T[], date: (record: T) => Date | null) =>
+      types.includes(type)
+        ? records.sort((a, b) => (date(b)?.getTime() ?? 0) - (date(a)?.getTime() ?? 0)).slice(0, limit)
+        : [];
+    
+    return {
+      projects: mostRecent('project', Array.from(this.projects.values()).filter(project =>
+        project.organizationId === organizationId && !project.deletedAt && inProjects(project.id) &&
+        (!status || status.includes(project.status)) && inPeriod(project.createdAt) &&
+        matchesAllTerms([project.name, project.description], terms)
+      ), project => project.createdAt),
+      tasks: mostRecent('task', Array.from(this.tasks.values()).filter(task =>
+        task.organizationId === organizationId && !task.deletedAt &&
+        (inProjects(task.projectId) || (task.assignedTo === visibleTo.userId && (projectId === undefined || task.projectId === projectId))) &&
+        (!status || status.includes(task.status)) && (assignedTo === undefined || task.assignedTo === assignedTo) &&
+        (!tagIds || this.hasAnyTag(task.id, tagIds)) &&
+        inPeriod(task.createdAt) && matchesAllTerms([task.name, task.description], terms)
+      ), task => task.createdAt),
+      comments: mostRecent('comment', Array.from(this.comments.values()).filter(comment =>
+        comment.organizationId === organizationId && !comment.deletedAt && inProjects(comment.projectId) &&
+        inPeriod(comment.createdAt) && matchesAllTerms([comment.content], terms)
+      ), comment => comment.createdAt),
+      files: mostRecent('file', Array.from(this.files.values()).filter(file =>
+        file.organizationId === organizationId && !file.deletedAt && inProjects(file.projectId) &&
+        inPeriod(file.uploadedAt) && matchesAllTerms([file.name], terms)
+      ), file => file.uploadedAt),
+      phases: mostRecent('phase', Array.from(this.phases.values()).filter(phase =>
+        inProjects(phase.projectId) && inPeriod(phase.createdAt) && matchesAllTerms([phase.name, phase.description], terms)
+      ), phase => phase.createdAt),
+    };
+  }
+
+  // Tag methods
+  private tags: Map<number, Tag> = new Map();
+  private tagIdCounter: number = 1;
+  private taskTags: Map<number, TaskTag> = new Map();
+  private taskTagIdCounter: number = 1;
+  
+  private hasAnyTag(taskId: number, tagIds: number[]): boolean {
+    return Array.from(this.taskTags.values()).some(link => link.taskId === taskId && tagIds.includes(link.tagId));
+  }
+  
+  async getTag(organizationId: number, id: number): Promise<Tag | undefined> {
+    const tag = this.tags.get(id);
+    return tag?.organizationId === organizationId ? tag : undefined;
+  }
+  
+  async getTags(organizationId: number): Promise<(Tag & { taskCount: number })[]> {
+    const links = Array.from(this.taskTags.values()).filter(link => {
+      const task = this.tasks.get(link.taskId);
+      return !!task && !task.deletedAt;
+    });
+    return Array.from(this.tags.values())
+      .filter(tag => tag.organizationId === organizationId)
+      .sort((a, b) => a.name.localeCompare(b.name))
+      .map(tag => ({ ...tag, taskCount: links.filter(link => link.tagId === tag.id).length }));
+  }
+  
+  async createTag(organizationId: number, insertTag: InsertTag): Promise<Tag> {
+    const now = new Date();
+    const id = this.tagIdCounter++;
+    const tag: Tag = {
+      color: 'blue',
+      ...insertTag,
+      organizationId,
+      id,
+      createdAt: now,
+      updatedAt: now
+    };
+    this.tags.set(id, tag);
+    return tag;
+  }
+  
+  async updateTag(organizationId: number, id: number, data: Partial<InsertTag>): Promise<Tag | undefined> {
+    const tag = await this.getTag(organizationId, id);
+    if (!tag) return undefined;
+    
+    const updatedTag: Tag = { ...tag, ...data, updatedAt: new Date() };
+    this.tags.set(id, updatedTag);
+    return updatedTag;
+  }
+  
+  async deleteTag(organizationId: number, id: number): Promise<boolean> {
+    if (!await this.getTag(organizationId, id)) return false;
+    
+    Array.from(this.taskTags.entries())
+      .filter(([, link]) => link.tagId === id)
+      .forEach(([linkId]) => this.taskTags.delete(linkId));
+    return this.tags.delete(id);
+  }
+  
+  async mergeTags(organizationId: number, sourceId: number, targetId: number): Promise<Tag | undefined> {
+    const target = await this.getTag(organizationId, targetId);
+    if (!target || !await this.getTag(organizationId, sourceId)) return undefined;
+    
+    const links = Array.from(this.taskTags.values());
+    links.filter(link => link.tagId === sourceId).forEach(link => {
+      if (links.some(other => other.taskId === link.taskId && other.tagId === targetId)) {
+        this.taskTags.delete(link.id);
+      } else {
+        this.taskTags.set(link.id, { ...link, tagId: targetId });
+      }
+    });
+    this.tags.delete(sourceId);
+    return target;
+  }
+  
+  async getTaskTagIds(organizationId: number, taskIds: number[]): Promise<Map<number, number[]>> {
+    const result = new Map<number, number[]>(taskIds.map(taskId => [taskId, []]));
+    Array.from(this.taskTags.values()).forEach(link => {
+      if (this.tags.get(link.tagId)?.organizationId === organizationId) result.get(link.taskId)?.push(link.tagId);
+    });
+    return result;
+  }
+  
+  async setTaskTags(organizationId: number, taskId: number, tagIds: number[]): Promise<void> {
+    Array.from(this.taskTags.entries())
+      .filter(([, link]) => link.taskId === taskId)
+      .forEach(([linkId]) => this.taskTags.delete(linkId));
+    
+    const now = new Date();
+    Array.from(new Set(tagIds))
+      .filter(tagId => this.tags.get(tagId)?.organizationId === organizationId)
+      .forEach(tagId => {
+        const id = this.taskTagIdCounter++;
+        this.taskTags.set(id, { id, taskId, tagId, createdAt: now });
+      });
+  }
+
+  // Task dependency methods
+  private taskDependencies: Map<number, TaskDependency> = new Map();
+  private taskDependencyIdCounter: number = 1;
+  
+  async getTaskDependency(organizationId: number, id: number): Promise<TaskDependency | undefined> {
+    const dependency = this.taskDependencies.get(id);
+    return dependency?.organizationId === organizationId ? dependency : undefined;
+  }
+  
+  async getTaskDependencies(organizationId: number, taskId: number): Promise<TaskDependency[]> {
+    return Array.from(this.taskDependencies.values())
+      .filter(dependency => dependency.organizationId === organizationId &&
+        (dependency.blockerTaskId === taskId || dependency.blockedTaskId === taskId))
+      .sort((a, b) => a.id - b.id);
+  }
+  
+  async getProjectDependencies(organizationId: number, projectId: number): Promise<TaskDependency[]> {
+    return Array.from(this.taskDependencies.values())
+      .filter(dependency => dependency.organizationId === organizationId &&
+        this.tasks.get(dependency.blockedTaskId)?.projectId === projectId);
+  }
+  
+  async createTaskDependency(organizationId: number, insertDependency: InsertTaskDependency): Promise<TaskDependency> {
+    await this.assertTaskInOrganization(organizationId, insertDependency.blockerTaskId);
+    await this.assertTaskInOrganization(organizationId, insertDependency.blockedTaskId);
+    
+    const id = this.taskDependencyIdCounter++;
+    const dependency: TaskDependency = {
+      type: 'finish_to_start',
+      createdBy: null,
+      ...insertDependency,
+      id,
+      organizationId,
+      createdAt: new Date(),
+    };
+    this.taskDependencies.set(id, dependency);
+    return dependency;
+  }
+  
+  async deleteTaskDependency(organizationId: number, id: number): Promise<boolean> {
+    if (!await this.getTaskDependency(organizationId, id)) return false;
+    return this.taskDependencies.delete(id);
+  }
+
+  // Saved view methods
+  private savedViews: Map<number, SavedView> = new Map();
+  private savedViewIdCounter: number = 1;
+  
+  async getSavedView(organizationId: number, id: number): Promise<SavedView | undefined> {
+    const view = this.savedViews.get(id);
+    return view?.organizationId === organizationId ? view : undefined;
+  }
+  
+  async getSavedViews(organizationId: number, userId: number): Promise<SavedView[]> {
+    return Array.from(this.savedViews.values())
+      .filter(view => view.organizationId === organizationId && (view.userId === userId || view.shared))
+      .sort((a, b) => a.name.localeCompare(b.name));
+  }
+  
+  async createSavedView(organizationId: number, insertView: InsertSavedView): Promise<SavedView> {
+    const now = new Date();
+    const id = this.savedViewIdCounter++;
+    const view: SavedView = {
+      filters: {},
+      shared: false,
+      pinned: false,
+      onDashboard: false,
+      ...insertView,
+      organizationId,
+      id,
+      createdAt: now,
+      updatedAt: now
+    };
+    this.savedViews.set(id, view);
+    return view;
+  }
+  
+  async updateSavedView(organizationId: number, id: number, data: Partial<InsertSavedView>): Promise<SavedView | undefined> {
+    const view = await this.getSavedView(organizationId, id);
+    if (!view) return undefined;
+    
+    const { userId: _, target: __, ...safeData } = data;
+    const updatedView: SavedView = { ...view, ...safeData, updatedAt: new Date() };
+    this.savedViews.set(id, updatedView);
+    return updatedView;
+  }
+  
+  async deleteSavedView(organizationId: number, id: number): Promise<boolean> {
+    if (!await this.getSavedView(organizationId, id)) return false;
+    return this.savedViews.delete(id);
+  }
+
   // Integrations methods
-  async getIntegration(id: number): Promise<Integration | undefined> {
-    return this.integrations.get(id);
+  async getIntegration(organizationId: number, id: number): Promise<Integration | undefined> {
+    const integration = this.integrations.get(id);
+    return integration?.organizationId === organizationId ? integration : undefined;
+  }
+  
+  async getIntegrationByType(organizationId: number, type: string): Promise<Integration | undefined> {
+    return Array.from(this.integrations.values())
+      .find(integration => integration.organizationId === organizationId && integration.type === type);
   }
   
-  async getIntegrationByType(type: string): Promise<Integration | undefined> {
+  async getAllIntegrations(organizationId: number): Promise<Integration[]> {
     return Array.from(this.integrations.values())
-      .find(integration => integration.type === type);
+      .filter(integration => integration.organizationId === organizationId);
   }
   
-  async getAllIntegrations(): Promise<Integration[]> {
-    return Array.from(this.integrations.values());
+  async getOrganizationIdsWithIntegration(type: string): Promise<number[]> {
+    return Array.from(this.integrations.values())
+      .filter(integration => integration.type === type && integration.enabled)
+      .map(integration => integration.organizationId);
   }
   
-  async createIntegration(insertIntegration: InsertIntegration): Promise<Integration> {
+  async createIntegration(organizationId: number, insertIntegration: InsertIntegration): Promise<Integration> {
     const now = new Date();
     const id = this.integrationIdCounter++;
     const integration: Integration = { 
+      enabled: false,
+      credentials: null,
       ...insertIntegration, 
+      organizationId,
       id, 
       createdAt: now, 
       updatedAt: now 
@@ -711,20 +2091,22 @@ export class MemStorage implements IStorage {
     return integration;
   }
   
-  async updateIntegration(id: number, data: Partial<InsertIntegration>): Promise<Integration | undefined> {
-    const integration = this.integrations.get(id);
+  async updateIntegration(organizationId: number, id: number, data: Partial<InsertIntegration>): Promise<Integration | undefined> {
+    const integration = await this.getIntegration(organizationId, id);
     if (!integration) return undefined;
     
     const updatedIntegration = { 
       ...integration, 
       ...data, 
+      organizationId,
       updatedAt: new Date() 
     };
     this.integrations.set(id, updatedIntegration);
     return updatedIntegration;
   }
   
-  async deleteIntegration(id: number): Promise<boolean> {
+  async deleteIntegration(organizationId: number, id: number): Promise<boolean> {
+    if (!await this.getIntegration(organizationId, id)) return false;
     return this.integrations.delete(id);
   }
 
@@ -750,6 +2132,13 @@ export class MemStorage implements IStorage {
     const now = new Date();
     const id = this.paymentIntegrationIdCounter++;
     const integration: PaymentIntegration = { 
+      enabled: false,
+      isDefault: false,
+      credentials: null,
+      webhook_url: null,
+      webhook_secret: null,
+      settings: {},
+      testMode: true,
       ...insertIntegration, 
       id, 
       createdAt: now, 
@@ -801,6 +2190,10 @@ export class MemStorage implements IStorage {
   async createAdminSetting(insertSetting: InsertAdminSetting): Promise<AdminSetting> {
     const id = this.adminSettingIdCounter++;
     const setting: AdminSetting = { 
+      settingValue: null,
+      description: null,
+      category: 'general',
+      updatedBy: null,
       ...insertSetting, 
       id, 
       updatedAt: new Date() 
@@ -894,125 +2287,163 @@ export class MemStorage implements IStorage {
   }
   
   // Budget Categories methods
-  async getBudgetCategory(id: number): Promise<BudgetCategory | undefined> {
-    return this.budgetCategories.get(id);
+  async getBudgetCategory(organizationId: number, id: number): Promise<BudgetCategory | undefined> {
+    const category = this.budgetCategories.get(id);
+    return category?.organizationId === organizationId ? category : undefined;
   }
   
-  async getBudgetCategoriesByProject(projectId: number): Promise<BudgetCategory[]> {
+  async getBudgetCategoriesByProject(organizationId: number, projectId: number): Promise<BudgetCategory[]> {
     return Array.from(this.budgetCategories.values())
-      .filter(category => category.projectId === projectId)
+      .filter(category => category.organizationId === organizationId && category.projectId === projectId)
       .sort((a, b) => a.name.localeCompare(b.name));
   }
   
-  async createBudgetCategory(insertCategory: InsertBudgetCategory): Promise<BudgetCategory> {
+  async createBudgetCategory(organizationId: number, insertCategory: InsertBudgetCategory): Promise<BudgetCategory> {
+    await this.assertProjectInOrganization(organizationId, insertCategory.projectId);
+    
     const now = new Date();
     const id = this.budgetCategoryIdCounter++;
     const category: BudgetCategory = { 
+      category: 'other',
+      description: null,
+      plannedAmount: 0,
+      actualAmount: 0,
       ...insertCategory, 
+      organizationId,
       id, 
       createdAt: now,
-      updatedAt: now
+      updatedAt: now,
+      version: 1
     };
     this.budgetCategories.set(id, category);
     return category;
   }
   
-  async updateBudgetCategory(id: number, data: Partial<InsertBudgetCategory>): Promise<BudgetCategory | undefined> {
-    const category = this.budgetCategories.get(id);
-    if (!category) return undefined;
+  async updateBudgetCategory(organizationId: number, id: number, data: Partial<InsertBudgetCategory>, expectedVersion?: number): Promise<BudgetCategory | undefined> {
+    const category = await this.getBudgetCategory(organizationId, id);
+    if (!category || !isExpectedVersion(category, expectedVersion)) return undefined;
     
     const updatedCategory = { 
       ...category, 
       ...data, 
-      updatedAt: new Date() 
+      organizationId,
+      projectId: category.projectId,
+      updatedAt: new Date(),
+      version: category.version + 1
     };
     this.budgetCategories.set(id, updatedCategory);
     return updatedCategory;
   }
   
-  async deleteBudgetCategory(id: number): Promise<boolean> {
+  async deleteBudgetCategory(organizationId: number, id: number): Promise<boolean> {
+    if (!await this.getBudgetCategory(organizationId, id)) return false;
     return this.budgetCategories.delete(id);
   }
   
   // Expenses methods
-  async getExpense(id: number): Promise<Expense | undefined> {
-    return this.expenses.get(id);
+  async getExpense(organizationId: number, id: number): Promise<Expense | undefined> {
+    const expense = this.expenses.get(id);
+    return expense?.organizationId === organizationId ? expense : undefined;
   }
   
-  async getExpensesByProject(projectId: number): Promise<Expense[]> {
+  async getExpensesByProject(organizationId: number, projectId: number): Promise<Expense[]> {
     return Array.from(this.expenses.values())
-      .filter(expense => expense.projectId === projectId)
+      .filter(expense => expense.organizationId === organizationId && expense.projectId === projectId)
       .sort((a, b) => b.createdAt.getTime() - a.createdAt.getTime());
   }
   
-  async getExpensesByCategory(categoryId: number): Promise<Expense[]> {
+  async getExpensesByCategory(organizationId: number, categoryId: number): Promise<Expense[]> {
     return Array.from(this.expenses.values())
-      .filter(expense => expense.categoryId === categoryId)
+      .filter(expense => expense.organizationId === organizationId && expense.categoryId === categoryId)
       .sort((a, b) => b.createdAt.getTime() - a.createdAt.getTime());
   }
   
-  async createExpense(insertExpense: InsertExpense): Promise<Expense> {
+  async createExpense(organizationId: number, insertExpense: InsertExpense): Promise<Expense> {
+    await this.assertProjectInOrganization(organizationId, insertExpense.projectId);
+    
     const now = new Date();
     const id = this.expenseIdCounter++;
     const expense: Expense = { 
+      categoryId: null,
+      description: null,
+      receiptUrl: null,
+      vendorName: null,
+      approvedBy: null,
+      approvedAt: null,
+      taskId: null,
+      metadata: null,
       ...insertExpense, 
+      organizationId,
       id, 
       createdAt: now,
       updatedAt: now,
+      version: 1,
       status: insertExpense.status || "planned"
     };
     this.expenses.set(id, expense);
     return expense;
   }
   
-  async updateExpense(id: number, data: Partial<InsertExpense>): Promise<Expense | undefined> {
-    const expense = this.expenses.get(id);
-    if (!expense) return undefined;
+  async updateExpense(organizationId: number, id: number, data: Partial<InsertExpense>, expectedVersion?: number): Promise<Expense | undefined> {
+    const expense = await this.getExpense(organizationId, id);
+    if (!expense || !isExpectedVersion(expense, expectedVersion)) return undefined;
     
     const updatedExpense = { 
       ...expense, 
       ...data, 
-      updatedAt: new Date() 
+      organizationId,
+      projectId: expense.projectId,
+      updatedAt: new Date(),
+      version: expense.version + 1
     };
     this.expenses.set(id, updatedExpense);
     return updatedExpense;
   }
   
-  async deleteExpense(id: number): Promise<boolean> {
+  async deleteExpense(organizationId: number, id: number): Promise<boolean> {
+    if (!await this.getExpense(organizationId, id)) return false;
     return this.expenses.delete(id);
   }
   
-  async approveExpense(id: number, userId: number): Promise<Expense | undefined> {
-    const expense = this.expenses.get(id);
+  async approveExpense(organizationId: number, id: number, userId: number): Promise<Expense | undefined> {
+    const expense = await this.getExpense(organizationId, id);
     if (!expense) return undefined;
     
-    const updatedExpense = { 
+    const updatedExpense: Expense = { 
       ...expense, 
       status: "approved", 
       approvedBy: userId,
       approvedAt: new Date(),
-      updatedAt: new Date() 
+      updatedAt: new Date(),
+      version: expense.version + 1
     };
     this.expenses.set(id, updatedExpense);
     return updatedExpense;
   }
   
   // Budget Forecasts methods
-  async getBudgetForecast(id: number): Promise<BudgetForecast | undefined> {
-    return this.budgetForecasts.get(id);
+  async getBudgetForecast(organizationId: number, id: number): Promise<BudgetForecast | undefined> {
+    const forecast = this.budgetForecasts.get(id);
+    return forecast?.organizationId === organizationId ? forecast : undefined;
   }
   
-  async getBudgetForecastsByProject(projectId: number): Promise<BudgetForecast[]> {
+  async getBudgetForecastsByProject(organizationId: number, projectId: number): Promise<BudgetForecast[]> {
     return Array.from(this.budgetForecasts.values())
-      .filter(forecast => forecast.projectId === projectId)
-      .sort((a, b) => a.period.localeCompare(b.period));
+      .filter(forecast => forecast.organizationId === organizationId && forecast.projectId === projectId)
+      .sort((a, b) => a.startDate.getTime() - b.startDate.getTime());
   }
   
-  async createBudgetForecast(insertForecast: InsertBudgetForecast): Promise<BudgetForecast> {
+  async createBudgetForecast(organizationId: number, insertForecast: InsertBudgetForecast): Promise<BudgetForecast> {
+    await this.assertProjectInOrganization(organizationId, insertForecast.projectId);
+    
     const now = new Date();
     const id = this.budgetForecastIdCounter++;
     const forecast: BudgetForecast = { 
+      description: null,
+      actualAmount: 0,
+      variance: 0,
       ...insertForecast, 
+      organizationId,
       id, 
       createdAt: now,
       updatedAt: now
@@ -1021,25 +2452,28 @@ export class MemStorage implements IStorage {
     return forecast;
   }
   
-  async updateBudgetForecast(id: number, data: Partial<InsertBudgetForecast>): Promise<BudgetForecast | undefined> {
-    const forecast = this.budgetForecasts.get(id);
+  async updateBudgetForecast(organizationId: number, id: number, data: Partial<InsertBudgetForecast>): Promise<BudgetForecast | undefined> {
+    const forecast = await this.getBudgetForecast(organizationId, id);
     if (!forecast) return undefined;
     
     const updatedForecast = { 
       ...forecast, 
       ...data, 
+      organizationId,
+      projectId: forecast.projectId,
       updatedAt: new Date() 
     };
     this.budgetForecasts.set(id, updatedForecast);
     return updatedForecast;
   }
   
-  async deleteBudgetForecast(id: number): Promise<boolean> {
+  async deleteBudgetForecast(organizationId: number, id: number): Promise<boolean> {
+    if (!await this.getBudgetForecast(organizationId, id)) return false;
     return this.budgetForecasts.delete(id);
   }
   
   // Budget Analysis
-  async getProjectBudgetSummary(projectId: number): Promise<{
+  async getProjectBudgetSummary(organizationId: number, projectId: number): Promise<{
     totalBudget: number;
     plannedAmount: number;
     actualAmount: number;
@@ -1052,15 +2486,15 @@ export class MemStorage implements IStorage {
       variance: number;
     }[];
   }> {
-    const project = await this.getProject(projectId);
+    const project = await this.getProject(organizationId, projectId);
     if (!project) {
       throw new Error("Project not found");
     }
     
     const totalBudget = project.budget || 0;
     
-    const expenses = await this.getExpensesByProject(projectId);
-    const categories = await this.getBudgetCategoriesByProject(projectId);
+    const expenses = await this.getExpensesByProject(organizationId, projectId);
+    const categories = await this.getBudgetCategoriesByProject(organizationId, projectId);
     
     // Calculate planned and actual expenses
     const plannedExpenses = expenses.filter(e => e.status === "planned" || e.status === "approved");
@@ -1111,6 +2545,23 @@ export class DatabaseStorage implements IStorage {
     return org;
   }
   
+  async getOrganizationBySlug(slug: string): Promise<Organization | undefined> {
+    const [org] = await db.select().from(organizations).where(eq(organizations.slug, slug));
+    return org;
+  }
+  
+  async getOrganizationByDomain(domain: string): Promise<Organization | undefined> {
+    const [org] = await db
+      .select()
+      .from(organizations)
+      .where(eq(sql`lower(${organizations.domain})`, domain.toLowerCase()));
+    return org;
+  }
+  
+  async getAllOrganizations(): Promise<Organization[]> {
+    return db.select().from(organizations);
+  }
+  
   async updateOrganization(id: number, data: Partial<InsertOrganization>): Promise<Organization | undefined> {
     const [updatedOrg] = await db
       .update(organizations)
@@ -1187,80 +2638,526 @@ export class DatabaseStorage implements IStorage {
   async getOrganizationMembers(organizationId: number): Promise<OrganizationMember[]> {
     return db
       .select()
-      .from(organizationMembers)
-      .where(eq(organizationMembers.organizationId, organizationId));
+      .from(organizationMembers)
+      .where(eq(organizationMembers.organizationId, organizationId));
+  }
+  
+  async removeOrganizationMember(organizationId: number, userId: number): Promise<boolean> {
+    await db
+      .delete(organizationMembers)
+      .where(
+        and(
+          eq(organizationMembers.organizationId, organizationId),
+          eq(organizationMembers.userId, userId)
+        )
+      );
+    return true;
+  }
+  
+  async updateOrganizationMemberRole(organizationId: number, userId: number, role: string): Promise<boolean> {
+    await db
+      .update(organizationMembers)
+      .set({ role: role as any })
+      .where(
+        and(
+          eq(organizationMembers.organizationId, organizationId),
+          eq(organizationMembers.userId, userId)
+        )
+      );
+    return true;
+  }
+  
+  async setActiveOrganization(userId: number, organizationId: number): Promise<boolean> {
+    const [membership] = await db
+      .select()
+      .from(organizationMembers)
+      .where(
+        and(
+          eq(organizationMembers.organizationId, organizationId),
+          eq(organizationMembers.userId, userId)
+        )
+      );
+    
+    if (!membership) return false;
+    
+    await db
+      .update(organizationMembers)
+      .set({ activeOrganization: false, updatedAt: new Date() })
+      .where(eq(organizationMembers.userId, userId));
+    
+    await db
+      .update(organizationMembers)
+      .set({ activeOrganization: true, updatedAt: new Date() })
+      .where(eq(organizationMembers.id, membership.id));
+    return true;
+  }
+  
+  async getOrganizationMember(organizationId: number, id: number): Promise<OrganizationMember | undefined> {
+    const [member] = await db
+      .select()
+      .from(organizationMembers)
+      .where(and(eq(organizationMembers.id, id), eq(organizationMembers.organizationId, organizationId)));
+    return member;
+  }
+  
+  async getOrganizationMemberByInviteToken(inviteToken: string): Promise<OrganizationMember | undefined> {
+    const [member] = await db
+      .select()
+      .from(organizationMembers)
+      .where(eq(organizationMembers.inviteToken, inviteToken));
+    return member;
+  }
+  
+  async updateOrganizationMember(organizationId: number, id: number, data: Partial<InsertOrganizationMember>): Promise<OrganizationMember | undefined> {
+    const { organizationId: _, ...safeData } = data;
+    const [updatedMember] = await db
+      .update(organizationMembers)
+      .set({ ...safeData, updatedAt: new Date() })
+      .where(and(eq(organizationMembers.id, id), eq(organizationMembers.organizationId, organizationId)))
+      .returning();
+    return updatedMember;
+  }
+  
+  async deleteOrganizationMember(organizationId: number, id: number): Promise<boolean> {
+    const deleted = await db
+      .delete(organizationMembers)
+      .where(and(eq(organizationMembers.id, id), eq(organizationMembers.organizationId, organizationId)))
+      .returning({ id: organizationMembers.id });
+    return deleted.length > 0;
+  }
+
+  // User methods
+  async getUser(id: number): Promise<User | undefined> {
+    const [user] = await db.select().from(users).where(eq(users.id, id));
+    return user;
+  }
+
+  async getUserByUsername(username: string): Promise<User | undefined> {
+    const [user] = await db.select().from(users).where(eq(users.username, username));
+    return user;
+  }
+  
+  async getUserByEmail(email: string): Promise<User | undefined> {
+    const [user] = await db.select().from(users).where(eq(users.email, email));
+    return user;
+  }
+  
+  async getAllUsers(): Promise<User[]> {
+    return db.select().from(users);
+  }
+  
+  async getUsersByOrganization(organizationId: number): Promise<User[]> {
+    const rows = await db
+      .select({ user: users })
+      .from(users)
+      .innerJoin(organizationMembers, eq(organizationMembers.userId, users.id))
+      .where(
+        and(
+          eq(organizationMembers.organizationId, organizationId),
+          or(isNull(organizationMembers.inviteStatus), eq(organizationMembers.inviteStatus, 'accepted'))
+        )
+      );
+    return rows.map(row => row.user);
+  }
+  
+  async listUsersByOrganization(organizationId: number, query: ListQuery<UserSortField, UserListFilter>): Promise<Page<User>> {
+    const { role, search } = query.filter;
+    const sortColumn = query.sort === 'createdAt' ? users.createdAt : sql`lower(${users[query.sort]})`;
+    const rows = await db
+      .select({ user: users })
+      .from(users)
+      .innerJoin(organizationMembers, eq(organizationMembers.userId, users.id))
+      .where(
+        and(
+          eq(organizationMembers.organizationId, organizationId),
+          or(isNull(organizationMembers.inviteStatus), eq(organizationMembers.inviteStatus, 'accepted')),
+          role ? inArray(users.role, role as User['role'][]) : undefined,
+          search
+            ? or(ilike(users.name, likePattern(search)), ilike(users.email, likePattern(search)), ilike(users.username, likePattern(search)))
+            : undefined,
+          afterCursor(sortColumn, users.id, query)
+        )
+      )
+      .orderBy(...cursorOrder(sortColumn, users.id, query.direction))
+      .limit(query.limit + 1);
+    
+    return toPage(rows.map(row => row.user), query, user =>
+      query.sort === 'createdAt' ? user.createdAt : user[query.sort].toLowerCase());
+  }
+  
+  async getOrganizationsByUser(userId: number): Promise<OrganizationMember[]> {
+    return db
+      .select()
+      .from(organizationMembers)
+      .where(eq(organizationMembers.userId, userId));
+  }
+
+  async createUser(insertUser: InsertUser): Promise<User> {
+    const [user] = await db.insert(users).values(insertUser).returning();
+    return user;
+  }
+  
+  async updateUser(id: number, data: Partial<InsertUser>): Promise<User | undefined> {
+    const [updatedUser] = await db
+      .update(users)
+      .set(data)
+      .where(eq(users.id, id))
+      .returning();
+    return updatedUser;
+  }
+  
+  async getSuperAdmins(): Promise<User[]> {
+    return db.select().from(users).where(eq(users.isSuperAdmin, true));
+  }
+  
+  async setUserSuperAdmin(id: number, isSuperAdmin: boolean): Promise<User | undefined> {
+    const [updatedUser] = await db
+      .update(users)
+      .set({ isSuperAdmin })
+      .where(eq(users.id, id))
+      .returning();
+    return updatedUser;
+  }
+
+  // Password reset token methods
+  async createPasswordResetToken(insertToken: InsertPasswordResetToken): Promise<PasswordResetToken> {
+    const [token] = await db.insert(passwordResetTokens).values(insertToken).returning();
+    return token;
+  }
+  
+  async getPasswordResetTokenByHash(tokenHash: string): Promise<PasswordResetToken | undefined> {
+    const [token] = await db
+      .select()
+      .from(passwordResetTokens)
+      .where(eq(passwordResetTokens.tokenHash, tokenHash));
+    return token;
+  }
+  
+  async consumePasswordResetToken(id: number): Promise<boolean> {
+    // A condição em usedAt garante uso único mesmo com requisições concorrentes
+    const consumed = await db
+      .update(passwordResetTokens)
+      .set({ usedAt: new Date() })
+      .where(and(eq(passwordResetTokens.id, id), isNull(passwordResetTokens.usedAt)))
+      .returning({ id: passwordResetTokens.id });
+    return consumed.length > 0;
+  }
+  
+  async invalidatePasswordResetTokens(userId: number): Promise<void> {
+    await db
+      .update(passwordResetTokens)
+      .set({ usedAt: new Date() })
+      .where(and(eq(passwordResetTokens.userId, userId), isNull(passwordResetTokens.usedAt)));
+  }
+
+  // Two-factor methods
+  async getUserTwoFactor(userId: number): Promise<UserTwoFactor | undefined> {
+    const [record] = await db
+      .select()
+      .from(userTwoFactor)
+      .where(eq(userTwoFactor.userId, userId));
+    return record;
+  }
+  
+  // Substitui o cadastro anterior do usuário, se houver
+  async saveUserTwoFactor(data: InsertUserTwoFactor): Promise<UserTwoFactor> {
+    const now = new Date();
+    const values = { enabledAt: null, recoveryCodes: [], lastUsedStep: null, ...data };
+    const [record] = await db
+      .insert(userTwoFactor)
+      .values({ ...values, createdAt: now, updatedAt: now })
+      .onConflictDoUpdate({
+        target: userTwoFactor.userId,
+        set: { ...values, createdAt: now, updatedAt: now }
+      })
+      .returning();
+    return record;
+  }
+  
+  async updateUserTwoFactor(userId: number, data: Partial<InsertUserTwoFactor>): Promise<UserTwoFactor | undefined> {
+    const { userId: _, ...safeData } = data;
+    const [record] = await db
+      .update(userTwoFactor)
+      .set({ ...safeData, updatedAt: new Date() })
+      .where(eq(userTwoFactor.userId, userId))
+      .returning();
+    return record;
+  }
+  
+  async deleteUserTwoFactor(userId: number): Promise<boolean> {
+    const deleted = await db
+      .delete(userTwoFactor)
+      .where(eq(userTwoFactor.userId, userId))
+      .returning({ id: userTwoFactor.id });
+    return deleted.length > 0;
+  }
+
+  // API token methods
+  async createApiToken(insertToken: InsertApiToken): Promise<ApiToken> {
+    const [token] = await db.insert(apiTokens).values(insertToken).returning();
+    return token;
+  }
+  
+  async getApiTokensByUser(userId: number): Promise<ApiToken[]> {
+    return db
+      .select()
+      .from(apiTokens)
+      .where(eq(apiTokens.userId, userId))
+      .orderBy(desc(apiTokens.createdAt));
+  }
+  
+  async getApiTokenByHash(tokenHash: string): Promise<ApiToken | undefined> {
+    const [token] = await db
+      .select()
+      .from(apiTokens)
+      .where(eq(apiTokens.tokenHash, tokenHash));
+    return token;
+  }
+  
+  async revokeApiToken(userId: number, id: number): Promise<boolean> {
+    const revoked = await db
+      .update(apiTokens)
+      .set({ revokedAt: new Date() })
+      .where(and(eq(apiTokens.id, id), eq(apiTokens.userId, userId), isNull(apiTokens.revokedAt)))
+      .returning({ id: apiTokens.id });
+    return revoked.length > 0;
+  }
+  
+  async touchApiToken(id: number, ip: string | null): Promise<void> {
+    await db
+      .update(apiTokens)
+      .set({ lastUsedAt: new Date(), lastUsedIp: ip })
+      .where(eq(apiTokens.id, id));
+  }
+
+  // Session methods
+  async getUserSession(sid: string): Promise<UserSession | undefined> {
+    const [record] = await db
+      .select()
+      .from(userSessions)
+      .where(eq(userSessions.sid, sid));
+    return record;
+  }
+  
+  async saveUserSession(data: InsertUserSession): Promise<UserSession> {
+    const now = new Date();
+    const { sid: _, ...values } = data;
+    const [record] = await db
+      .insert(userSessions)
+      .values({ ...data, createdAt: now, lastSeenAt: now })
+      .onConflictDoUpdate({
+        target: userSessions.sid,
+        set: { ...values, lastSeenAt: now }
+      })
+      .returning();
+    return record;
+  }
+  
+  async touchUserSession(sid: string, expiresAt: Date): Promise<void> {
+    await db
+      .update(userSessions)
+      .set({ expiresAt, lastSeenAt: new Date() })
+      .where(eq(userSessions.sid, sid));
+  }
+  
+  async getUserSessionsByUser(userId: number): Promise<UserSession[]> {
+    return db
+      .select()
+      .from(userSessions)
+      .where(and(eq(userSessions.userId, userId), gt(userSessions.expiresAt, new Date())))
+      .orderBy(desc(userSessions.lastSeenAt));
+  }
+  
+  async deleteUserSession(sid: string): Promise<boolean> {
+    const deleted = await db
+      .delete(userSessions)
+      .where(eq(userSessions.sid, sid))
+      .returning({ sid: userSessions.sid });
+    return deleted.length > 0;
+  }
+  
+  async deleteExpiredUserSessions(): Promise<number> {
+    const deleted = await db
+      .delete(userSessions)
+      .where(lte(userSessions.expiresAt, new Date()))
+      .returning({ sid: userSessions.sid });
+    return deleted.length;
+  }
+  // Login throttle methods
+  async getLoginThrottle(key: string): Promise<LoginThrottle | undefined> {
+    const [record] = await db
+      .select()
+      .from(loginThrottles)
+      .where(eq(loginThrottles.key, key));
+    return record;
+  }
+  
+  async getLoginThrottles(): Promise<LoginThrottle[]> {
+    return db
+      .select()
+      .from(loginThrottles)
+      .orderBy(desc(loginThrottles.updatedAt));
+  }
+  
+  async saveLoginThrottle(data: InsertLoginThrottle): Promise<LoginThrottle> {
+    const now = new Date();
+    const values = { failures: 0, lockouts: 0, lastFailureAt: null, lockedUntil: null, ...data };
+    const [record] = await db
+      .insert(loginThrottles)
+      .values({ ...values, updatedAt: now })
+      .onConflictDoUpdate({
+        target: loginThrottles.key,
+        set: { ...values, updatedAt: now }
+      })
+      .returning();
+    return record;
+  }
+  
+  async deleteLoginThrottle(id: number): Promise<boolean> {
+    const deleted = await db
+      .delete(loginThrottles)
+      .where(eq(loginThrottles.id, id))
+      .returning({ id: loginThrottles.id });
+    return deleted.length > 0;
+  }
+  // Audit log methods
+  async createAuditLog(data: InsertAuditLog): Promise<AuditLog> {
+    const [record] = await db.insert(auditLogs).values(data).returning();
+    return record;
+  }
+  
+  async getAuditLogs(filter: AuditLogFilter): Promise<AuditLog[]> {
+    const conditions: SQL[] = [];
+    if (filter.organizationId !== undefined) {
+      conditions.push(filter.organizationId === null
+        ? isNull(auditLogs.organizationId)
+        : eq(auditLogs.organizationId, filter.organizationId));
+    }
+    if (filter.actorId !== undefined) conditions.push(eq(auditLogs.actorId, filter.actorId));
+    if (filter.action) {
+      conditions.push(filter.action.endsWith('.')
+        ? like(auditLogs.action, `${filter.action}%`)
+        : eq(auditLogs.action, filter.action));
+    }
+    if (filter.targetType) conditions.push(eq(auditLogs.targetType, filter.targetType));
+    if (filter.targetId !== undefined) conditions.push(eq(auditLogs.targetId, filter.targetId));
+    if (filter.from) conditions.push(gte(auditLogs.createdAt, filter.from));
+    if (filter.to) conditions.push(lte(auditLogs.createdAt, filter.to));
+    
+    const query = db
+      .select()
+      .from(auditLogs)
+      .where(and(...conditions))
+      .orderBy(desc(auditLogs.id))
+      .offset(filter.offset ?? 0);
+    return filter.limit === undefined ? query : query.limit(filter.limit);
+  }
+  
+  async deleteAuditLogsBefore(organizationId: number | null, before: Date): Promise<number> {
+    const deleted = await db
+      .delete(auditLogs)
+      .where(and(
+        organizationId === null ? isNull(auditLogs.organizationId) : eq(auditLogs.organizationId, organizationId),
+        lt(auditLogs.createdAt, before)
+      ))
+      .returning({ id: auditLogs.id });
+    return deleted.length;
+  }
+  // SSO methods
+  async getOrganizationSso(organizationId: number): Promise<OrganizationSso | undefined> {
+    const [record] = await db
+      .select()
+      .from(organizationSso)
+      .where(eq(organizationSso.organizationId, organizationId));
+    return record;
+  }
+  
+  async saveOrganizationSso(data: InsertOrganizationSso): Promise<OrganizationSso> {
+    const now = new Date();
+    const { organizationId: _, ...values } = data;
+    const [record] = await db
+      .insert(organizationSso)
+      .values({ ...data, createdAt: now, updatedAt: now })
+      .onConflictDoUpdate({
+        target: organizationSso.organizationId,
+        set: { ...values, updatedAt: now }
+      })
+      .returning();
+    return record;
+  }
+  
+  async getSsoIdentity(issuer: string, subject: string): Promise<SsoIdentity | undefined> {
+    const [identity] = await db
+      .select()
+      .from(ssoIdentities)
+      .where(and(eq(ssoIdentities.issuer, issuer), eq(ssoIdentities.subject, subject)));
+    return identity;
   }
   
-  async removeOrganizationMember(organizationId: number, userId: number): Promise<boolean> {
-    await db
-      .delete(organizationMembers)
-      .where(
-        and(
-          eq(organizationMembers.organizationId, organizationId),
-          eq(organizationMembers.userId, userId)
-        )
-      );
-    return true;
+  async createSsoIdentity(insertIdentity: InsertSsoIdentity): Promise<SsoIdentity> {
+    const [identity] = await db
+      .insert(ssoIdentities)
+      .values({ ...insertIdentity, lastLoginAt: new Date() })
+      .returning();
+    return identity;
   }
   
-  async updateOrganizationMemberRole(organizationId: number, userId: number, role: string): Promise<boolean> {
+  async touchSsoIdentity(id: number): Promise<void> {
     await db
-      .update(organizationMembers)
-      .set({ role: role as any })
-      .where(
-        and(
-          eq(organizationMembers.organizationId, organizationId),
-          eq(organizationMembers.userId, userId)
-        )
-      );
-    return true;
-  }
-
-  // User methods
-  async getUser(id: number): Promise<User | undefined> {
-    const [user] = await db.select().from(users).where(eq(users.id, id));
-    return user;
-  }
-
-  async getUserByUsername(username: string): Promise<User | undefined> {
-    const [user] = await db.select().from(users).where(eq(users.username, username));
-    return user;
+      .update(ssoIdentities)
+      .set({ lastLoginAt: new Date() })
+      .where(eq(ssoIdentities.id, id));
   }
   
-  async getUserByEmail(email: string): Promise<User | undefined> {
-    const [user] = await db.select().from(users).where(eq(users.email, email));
-    return user;
+  async getOrganizationDomains(organizationId: number): Promise<OrganizationDomain[]> {
+    return db
+      .select()
+      .from(organizationDomains)
+      .where(eq(organizationDomains.organizationId, organizationId))
+      .orderBy(asc(organizationDomains.domain));
   }
   
-  async getAllUsers(): Promise<User[]> {
-    return db.select().from(users);
-  }
-
-  async createUser(insertUser: InsertUser): Promise<User> {
-    const [user] = await db.insert(users).values(insertUser).returning();
-    return user;
+  async createOrganizationDomain(insertDomain: InsertOrganizationDomain): Promise<OrganizationDomain> {
+    const [domain] = await db
+      .insert(organizationDomains)
+      .values(insertDomain)
+      .returning();
+    return domain;
   }
   
-  async updateUser(id: number, data: Partial<InsertUser>): Promise<User | undefined> {
-    const [updatedUser] = await db
-      .update(users)
-      .set(data)
-      .where(eq(users.id, id))
+  async markOrganizationDomainVerified(organizationId: number, id: number): Promise<OrganizationDomain | undefined> {
+    const [domain] = await db
+      .update(organizationDomains)
+      .set({ verifiedAt: sql`coalesce(${organizationDomains.verifiedAt}, now())` })
+      .where(and(eq(organizationDomains.id, id), eq(organizationDomains.organizationId, organizationId)))
       .returning();
-    return updatedUser;
+    return domain;
+  }
+  
+  async deleteOrganizationDomain(organizationId: number, id: number): Promise<boolean> {
+    const deleted = await db
+      .delete(organizationDomains)
+      .where(and(eq(organizationDomains.id, id), eq(organizationDomains.organizationId, organizationId)))
+      .returning({ id: organizationDomains.id });
+    return deleted.length > 0;
   }
 
+
+
   // Project methods
-  async getProject(id: number): Promise<Project | undefined> {
-    const [project] = await db.select().from(projects).where(eq(projects.id, id));
+  async getProject(organizationId: number, id: number): Promise<Project | undefined> {
+    const [project] = await db
+      .select()
+      .from(projects)
+      .where(and(eq(projects.id, id), eq(projects.organizationId, organizationId), isNull(projects.deletedAt)));
     return project;
   }
   
-  async getAllProjects(): Promise<Project[]> {
-    return db.select().from(projects);
+  async getAllProjects(organizationId: number): Promise<Project[]> {
+    return db.select().from(projects).where(and(eq(projects.organizationId, organizationId), isNull(projects.deletedAt)));
   }
   
-  async getProjectsByUser(userId: number): Promise<Project[]> {
+  async getProjectsByUser(organizationId: number, userId: number): Promise<Project[]> {
     // Obter projetos em que o usuário é membro
     const memberProjects = await db
       .select({ projectId: projectMembers.projectId })
@@ -1273,22 +3170,22 @@ export class DatabaseStorage implements IStorage {
     const userProjects = await db
       .select()
       .from(projects)
-      .where(eq(projects.createdBy, userId));
+      .where(and(eq(projects.createdBy, userId), eq(projects.organizationId, organizationId), isNull(projects.deletedAt)));
     
     // Combinar resultados, removendo duplicatas
     if (memberProjectIds.length === 0) {
       return userProjects;
     }
     
-    // Use o operador 'in' da forma correta com o drizzle-orm
     const memberProjectsList = await db
       .select()
       .from(projects)
       .where(
-        // Uso correto do operador 'in' no drizzle
-        memberProjectIds.length > 0 ? 
-          inArray(projects.id, memberProjectIds) : 
-          undefined
+        and(
+          inArray(projects.id, memberProjectIds),
+          eq(projects.organizationId, organizationId),
+          isNull(projects.deletedAt)
+        )
       );
     
     // Remover duplicatas (projetos que o usuário criou e também é membro)
@@ -1300,11 +3197,14 @@ export class DatabaseStorage implements IStorage {
     return Array.from(projectMap.values());
   }
 
-  async createProject(insertProject: InsertProject): Promise<Project> {
-    const [project] = await db.insert(projects).values(insertProject).returning();
+  async createProject(organizationId: number, insertProject: InsertProject): Promise<Project> {
+    const [project] = await db
+      .insert(projects)
+      .values({ ...insertProject, organizationId })
+      .returning();
     
     // Adicionar criador como membro do projeto com função de administrador
-    await this.addProjectMember({
+    await this.addProjectMember(organizationId, {
       projectId: project.id,
       userId: insertProject.createdBy,
       role: "admin"
@@ -1313,29 +3213,54 @@ export class DatabaseStorage implements IStorage {
     return project;
   }
   
-  async updateProject(id: number, data: Partial<InsertProject>): Promise<Project | undefined> {
+  async updateProject(organizationId: number, id: number, data: Partial<InsertProject>, expectedVersion?: number): Promise<Project | undefined> {
     const [updatedProject] = await db
       .update(projects)
-      .set(data)
-      .where(eq(projects.id, id))
+      .set({ ...updatableFields(data), updatedAt: new Date(), version: sql`${projects.version} + 1` })
+      .where(and(
+        eq(projects.id, id),
+        eq(projects.organizationId, organizationId),
+        isNull(projects.deletedAt),
+        versionMatches(projects.version, expectedVersion)
+      ))
       .returning();
     return updatedProject;
   }
   
-  async deleteProject(id: number): Promise<boolean> {
-    await db.delete(projects).where(eq(projects.id, id));
-    return true;
+  async deleteProject(organizationId: number, id: number): Promise<boolean> {
+    const deleted = await db
+      .delete(projects)
+      .where(and(eq(projects.id, id), eq(projects.organizationId, organizationId)))
+      .returning({ id: projects.id });
+    return deleted.length > 0;
+  }
+  
+  // Garante que o projeto referenciado pertence à organização antes de gravar registros filhos
+  private async assertProjectInOrganization(organizationId: number, projectId: number): Promise<void> {
+    if (!await this.getProject(organizationId, projectId)) {
+      throw new Error("Project not found");
+    }
+  }
+  
+  private async assertTaskInOrganization(organizationId: number, taskId: number): Promise<void> {
+    if (!await this.getTask(organizationId, taskId)) {
+      throw new Error("Task not found");
+    }
   }
 
   // Project Members methods
-  async getProjectMembers(projectId: number): Promise<ProjectMember[]> {
-    return db
-      .select()
+  async getProjectMembers(organizationId: number, projectId: number): Promise<ProjectMember[]> {
+    const rows = await db
+      .select({ member: projectMembers })
       .from(projectMembers)
-      .where(eq(projectMembers.projectId, projectId));
+      .innerJoin(projects, eq(projects.id, projectMembers.projectId))
+      .where(and(eq(projectMembers.projectId, projectId), eq(projects.organizationId, organizationId)));
+    return rows.map(row => row.member);
   }
   
-  async addProjectMember(insertMember: InsertProjectMember): Promise<ProjectMember> {
+  async addProjectMember(organizationId: number, insertMember: InsertProjectMember): Promise<ProjectMember> {
+    await this.assertProjectInOrganization(organizationId, insertMember.projectId);
+    
     const [member] = await db
       .insert(projectMembers)
       .values(insertMember)
@@ -1343,20 +3268,25 @@ export class DatabaseStorage implements IStorage {
     return member;
   }
   
-  async removeProjectMember(projectId: number, userId: number): Promise<boolean> {
-    await db
+  async removeProjectMember(organizationId: number, projectId: number, userId: number): Promise<boolean> {
+    if (!await this.getProject(organizationId, projectId)) return false;
+    
+    const deleted = await db
       .delete(projectMembers)
       .where(
         and(
           eq(projectMembers.projectId, projectId),
           eq(projectMembers.userId, userId)
         )
-      );
-    return true;
+      )
+      .returning({ id: projectMembers.id });
+    return deleted.length > 0;
   }
   
-  async updateProjectMemberRole(projectId: number, userId: number, role: string): Promise<boolean> {
-    await db
+  async updateProjectMemberRole(organizationId: number, projectId: number, userId: number, role: string): Promise<boolean> {
+    if (!await this.getProject(organizationId, projectId)) return false;
+    
+    const updated = await db
       .update(projectMembers)
       .set({ role: role as any })
       .where(
@@ -1364,20 +3294,34 @@ export class DatabaseStorage implements IStorage {
           eq(projectMembers.projectId, projectId),
           eq(projectMembers.userId, userId)
         )
-      );
-    return true;
+      )
+      .returning({ id: projectMembers.id });
+    return updated.length > 0;
   }
 
   // Phase methods
-  async getPhases(projectId: number): Promise<Phase[]> {
-    return db
-      .select()
+  async getPhase(organizationId: number, id: number): Promise<Phase | undefined> {
+    const [row] = await db
+      .select({ phase: phases })
       .from(phases)
-      .where(eq(phases.projectId, projectId))
+      .innerJoin(projects, eq(projects.id, phases.projectId))
+      .where(and(eq(phases.id, id), eq(projects.organizationId, organizationId)));
+    return row?.phase;
+  }
+  
+  async getPhases(organizationId: number, projectId: number): Promise<Phase[]> {
+    const rows = await db
+      .select({ phase: phases })
+      .from(phases)
+      .innerJoin(projects, eq(projects.id, phases.projectId))
+      .where(and(eq(phases.projectId, projectId), eq(projects.organizationId, organizationId)))
       .orderBy(phases.order);
+    return rows.map(row => row.phase);
   }
   
-  async createPhase(insertPhase: InsertPhase): Promise<Phase> {
+  async createPhase(organizationId: number, insertPhase: InsertPhase): Promise<Phase> {
+    await this.assertProjectInOrganization(organizationId, insertPhase.projectId);
+    
     const [phase] = await db
       .insert(phases)
       .values(insertPhase)
@@ -1385,82 +3329,153 @@ export class DatabaseStorage implements IStorage {
     return phase;
   }
   
-  async updatePhase(id: number, data: Partial<InsertPhase>): Promise<Phase | undefined> {
+  async updatePhase(organizationId: number, id: number, data: Partial<InsertPhase>, expectedVersion?: number): Promise<Phase | undefined> {
+    const phase = await this.getPhase(organizationId, id);
+    if (!phase) return undefined;
+    
+    const { projectId: _, ...safeData } = data;
     const [updatedPhase] = await db
       .update(phases)
-      .set(data)
-      .where(eq(phases.id, id))
+      .set({ ...safeData, updatedAt: new Date(), version: sql`${phases.version} + 1` })
+      .where(and(eq(phases.id, id), versionMatches(phases.version, expectedVersion)))
       .returning();
     return updatedPhase;
   }
   
-  async deletePhase(id: number): Promise<boolean> {
+  async deletePhase(organizationId: number, id: number): Promise<boolean> {
+    if (!await this.getPhase(organizationId, id)) return false;
+    
     await db.delete(phases).where(eq(phases.id, id));
     return true;
   }
 
   // Task methods
-  async getTask(id: number): Promise<Task | undefined> {
+  async getTask(organizationId: number, id: number): Promise<Task | undefined> {
     const [task] = await db
       .select()
       .from(tasks)
-      .where(eq(tasks.id, id));
+      .where(and(eq(tasks.id, id), eq(tasks.organizationId, organizationId), isNull(tasks.deletedAt)));
     return task;
   }
   
-  async getTasksByProject(projectId: number): Promise<Task[]> {
+  async getTasksByProject(organizationId: number, projectId: number): Promise<Task[]> {
+    return db
+      .select()
+      .from(tasks)
+      .where(and(eq(tasks.projectId, projectId), eq(tasks.organizationId, organizationId), isNull(tasks.deletedAt)));
+  }
+  
+  async getTasksByPhase(organizationId: number, phaseId: number): Promise<Task[]> {
     return db
       .select()
       .from(tasks)
-      .where(eq(tasks.projectId, projectId));
+      .where(and(eq(tasks.phaseId, phaseId), eq(tasks.organizationId, organizationId), isNull(tasks.deletedAt)));
   }
   
-  async getTasksByPhase(phaseId: number): Promise<Task[]> {
+  async getTasksByUser(organizationId: number, userId: number): Promise<Task[]> {
     return db
       .select()
       .from(tasks)
-      .where(eq(tasks.phaseId, phaseId));
+      .where(and(eq(tasks.assignedTo, userId), eq(tasks.organizationId, organizationId), isNull(tasks.deletedAt)));
   }
   
-  async getTasksByUser(userId: number): Promise<Task[]> {
+  async getSubtasks(organizationId: number, parentTaskIds: number[]): Promise<Task[]> {
+    if (parentTaskIds.length === 0) return [];
     return db
       .select()
       .from(tasks)
-      .where(eq(tasks.assignedTo, userId));
+      .where(and(inArray(tasks.parentTaskId, parentTaskIds), eq(tasks.organizationId, organizationId), isNull(tasks.deletedAt)));
+  }
+  
+  async listTasks(organizationId: number, query: ListQuery<TaskSortField, TaskListFilter>): Promise<Page<Task>> {
+    const { visibleTo, projectId, assignedTo, status, priority, search, dueFrom, dueTo, tagIds } = query.filter;
+    const sortColumn = query.sort === 'name' ? sql`lower(${tasks.name})` : tasks[query.sort];
+    const rows = await db
+      .select()
+      .from(tasks)
+      .where(
+        and(
+          eq(tasks.organizationId, organizationId),
+          isNull(tasks.deletedAt),
+          visibleTo
+            ? or(
+                eq(tasks.assignedTo, visibleTo.userId),
+                visibleTo.projectIds.length > 0 ? inArray(tasks.projectId, visibleTo.projectIds) : undefined
+              )
+            : undefined,
+          projectId !== undefined ? eq(tasks.projectId, projectId) : undefined,
+          assignedTo !== undefined ? eq(tasks.assignedTo, assignedTo) : undefined,
+          status ? inArray(tasks.status, status as Task['status'][]) : undefined,
+          priority ? inArray(tasks.priority, priority as Task['priority'][]) : undefined,
+          search ? or(ilike(tasks.name, likePattern(search)), ilike(tasks.description, likePattern(search))) : undefined,
+          dueFrom ? gte(tasks.dueDate, dueFrom) : undefined,
+          dueTo ? lte(tasks.dueDate, dueTo) : undefined,
+          tagIds ? taggedWith(tagIds) : undefined,
+          afterCursor(sortColumn, tasks.id, query)
+        )
+      )
+      .orderBy(...cursorOrder(sortColumn, tasks.id, query.direction))
+      .limit(query.limit + 1);
+    
+    return toPage(rows, query, task =>
+      query.sort === 'name' ? task.name.toLowerCase() : task[query.sort]);
   }
   
-  async createTask(insertTask: InsertTask): Promise<Task> {
+  async createTask(organizationId: number, insertTask: InsertTask): Promise<Task> {
+    await this.assertProjectInOrganization(organizationId, insertTask.projectId);
+    
     const [task] = await db
       .insert(tasks)
-      .values(insertTask)
+      .values({ ...insertTask, organizationId })
       .returning();
     return task;
   }
   
-  async updateTask(id: number, data: Partial<InsertTask>): Promise<Task | undefined> {
+  async updateTask(organizationId: number, id: number, data: Partial<InsertTask>, expectedVersion?: number): Promise<Task | undefined> {
     const [updatedTask] = await db
       .update(tasks)
-      .set(data)
-      .where(eq(tasks.id, id))
+      .set({ ...updatableFields(data, 'projectId'), updatedAt: new Date(), version: sql`${tasks.version} + 1` })
+      .where(and(
+        eq(tasks.id, id),
+        eq(tasks.organizationId, organizationId),
+        isNull(tasks.deletedAt),
+        versionMatches(tasks.version, expectedVersion)
+      ))
       .returning();
     return updatedTask;
   }
   
-  async deleteTask(id: number): Promise<boolean> {
-    await db.delete(tasks).where(eq(tasks.id, id));
-    return true;
+  async deleteTask(organizationId: number, id: number): Promise<boolean> {
+    const deleted = await db
+      .delete(tasks)
+      .where(and(eq(tasks.id, id), eq(tasks.organizationId, organizationId)))
+      .returning({ id: tasks.id });
+    return deleted.length > 0;
   }
 
   // Checklist Items methods
-  async getChecklistItems(taskId: number): Promise<ChecklistItem[]> {
-    return db
-      .select()
+  async getChecklistItem(organizationId: number, id: number): Promise<ChecklistItem | undefined> {
+    const [row] = await db
+      .select({ item: checklistItems })
+      .from(checklistItems)
+      .innerJoin(tasks, eq(tasks.id, checklistItems.taskId))
+      .where(and(eq(checklistItems.id, id), eq(tasks.organizationId, organizationId)));
+    return row?.item;
+  }
+  
+  async getChecklistItems(organizationId: number, taskId: number): Promise<ChecklistItem[]> {
+    const rows = await db
+      .select({ item: checklistItems })
       .from(checklistItems)
-      .where(eq(checklistItems.taskId, taskId))
+      .innerJoin(tasks, eq(tasks.id, checklistItems.taskId))
+      .where(and(eq(checklistItems.taskId, taskId), eq(tasks.organizationId, organizationId)))
       .orderBy(checklistItems.order);
+    return rows.map(row => row.item);
   }
   
-  async createChecklistItem(insertItem: InsertChecklistItem): Promise<ChecklistItem> {
+  async createChecklistItem(organizationId: number, insertItem: InsertChecklistItem): Promise<ChecklistItem> {
+    await this.assertTaskInOrganization(organizationId, insertItem.taskId);
+    
     const [item] = await db
       .insert(checklistItems)
       .values(insertItem)
@@ -1468,62 +3483,130 @@ export class DatabaseStorage implements IStorage {
     return item;
   }
   
-  async updateChecklistItem(id: number, data: Partial<InsertChecklistItem>): Promise<ChecklistItem | undefined> {
+  async updateChecklistItem(organizationId: number, id: number, data: Partial<InsertChecklistItem>): Promise<ChecklistItem | undefined> {
+    if (!await this.getChecklistItem(organizationId, id)) return undefined;
+    
+    const { taskId: _, ...safeData } = data;
     const [updatedItem] = await db
       .update(checklistItems)
-      .set(data)
+      .set({ ...safeData, updatedAt: new Date() })
       .where(eq(checklistItems.id, id))
       .returning();
     return updatedItem;
   }
   
-  async deleteChecklistItem(id: number): Promise<boolean> {
+  async deleteChecklistItem(organizationId: number, id: number): Promise<boolean> {
+    if (!await this.getChecklistItem(organizationId, id)) return false;
+    
     await db.delete(checklistItems).where(eq(checklistItems.id, id));
     return true;
   }
+  
+  async convertChecklistItemToSubtask(organizationId: number, id: number, userId: number): Promise<Task | undefined> {
+    const item = await this.getChecklistItem(organizationId, id);
+    const parent = item && await this.getTask(organizationId, item.taskId);
+    if (!item || !parent) return undefined;
+    
+    return db.transaction(async (tx) => {
+      const [subtask] = await tx
+        .insert(tasks)
+        .values({
+          organizationId,
+          projectId: parent.projectId,
+          phaseId: parent.phaseId,
+          parentTaskId: parent.id,
+          name: item.text,
+          status: item.isCompleted ? 'completed' : 'todo',
+          completedAt: item.isCompleted ? item.completedAt ?? item.updatedAt : null,
+          createdBy: userId,
+          createdAt: item.createdAt ?? undefined,
+        })
+        .returning();
+      await tx.delete(checklistItems).where(eq(checklistItems.id, id));
+      return subtask;
+    });
+  }
 
   // Files methods
-  async getFile(id: number): Promise<File | undefined> {
+  async getFile(organizationId: number, id: number): Promise<File | undefined> {
     const [file] = await db
       .select()
       .from(files)
-      .where(eq(files.id, id));
+      .where(and(eq(files.id, id), eq(files.organizationId, organizationId), isNull(files.deletedAt)));
     return file;
   }
   
-  async getFilesByProject(projectId: number): Promise<File[]> {
+  async getFilesByProject(organizationId: number, projectId: number): Promise<File[]> {
     return db
       .select()
       .from(files)
-      .where(eq(files.projectId, projectId));
+      .where(and(eq(files.projectId, projectId), eq(files.organizationId, organizationId), isNull(files.deletedAt)));
   }
   
-  async getFilesByTask(taskId: number): Promise<File[]> {
+  async getFilesByTask(organizationId: number, taskId: number): Promise<File[]> {
     return db
       .select()
       .from(files)
-      .where(eq(files.taskId, taskId));
+      .where(and(eq(files.taskId, taskId), eq(files.organizationId, organizationId), isNull(files.deletedAt)));
+  }
+  
+  async listFiles(organizationId: number, query: ListQuery<FileSortField, FileListFilter>): Promise<Page<File>> {
+    const { projectId, taskId, uploadedBy, search } = query.filter;
+    const sortColumn = query.sort === 'name' ? sql`lower(${files.name})` : files[query.sort];
+    const rows = await db
+      .select()
+      .from(files)
+      .where(
+        and(
+          eq(files.organizationId, organizationId),
+          isNull(files.deletedAt),
+          eq(files.projectId, projectId),
+          taskId !== undefined ? eq(files.taskId, taskId) : undefined,
+          uploadedBy !== undefined ? eq(files.uploadedBy, uploadedBy) : undefined,
+          search ? ilike(files.name, likePattern(search)) : undefined,
+          afterCursor(sortColumn, files.id, query)
+        )
+      )
+      .orderBy(...cursorOrder(sortColumn, files.id, query.direction))
+      .limit(query.limit + 1);
+    
+    return toPage(rows, query, file =>
+      query.sort === 'name' ? file.name.toLowerCase() : file[query.sort]);
   }
   
-  async createFile(insertFile: InsertFile): Promise<File> {
+  async createFile(organizationId: number, insertFile: InsertFile): Promise<File> {
+    await this.assertProjectInOrganization(organizationId, insertFile.projectId);
+    
     const [file] = await db
       .insert(files)
-      .values(insertFile)
+      .values({ ...insertFile, organizationId })
       .returning();
     return file;
   }
   
-  async deleteFile(id: number): Promise<boolean> {
-    await db.delete(files).where(eq(files.id, id));
-    return true;
+  async deleteFile(organizationId: number, id: number): Promise<boolean> {
+    const deleted = await db
+      .delete(files)
+      .where(and(eq(files.id, id), eq(files.organizationId, organizationId)))
+      .returning({ id: files.id });
+    return deleted.length > 0;
+  }
+  
+  // Arquivos na lixeira continuam ocupando espaço até serem excluídos definitivamente
+  async getStorageUsage(organizationId: number): Promise<number> {
+    const [result] = await db
+      .select({ total: sql<number>`coalesce(sum(${files.size}), 0)` })
+      .from(files)
+      .where(eq(files.organizationId, organizationId));
+    return Number(result?.total ?? 0);
   }
 
   // Activities methods
-  async getActivitiesByProject(projectId: number, limit?: number): Promise<Activity[]> {
+  async getActivitiesByProject(organizationId: number, projectId: number, limit?: number): Promise<Activity[]> {
     const query = db
       .select()
       .from(activities)
-      .where(eq(activities.projectId, projectId))
+      .where(and(eq(activities.projectId, projectId), eq(activities.organizationId, organizationId)))
       .orderBy(desc(activities.createdAt));
     
     if (limit) {
@@ -1533,88 +3616,570 @@ export class DatabaseStorage implements IStorage {
     return query;
   }
   
-  async createActivity(insertActivity: InsertActivity): Promise<Activity> {
+  async listActivities(organizationId: number, query: ListQuery<ActivitySortField, ActivityListFilter>): Promise<Page<Activity>> {
+    const { projectIds, projectId, userId, taskId } = query.filter;
+    if (projectIds.length === 0) return { items: [], nextCursor: null };
+    
+    const sortColumn = activities[query.sort];
+    const rows = await db
+      .select()
+      .from(activities)
+      .where(
+        and(
+          eq(activities.organizationId, organizationId),
+          inArray(activities.projectId, projectIds),
+          projectId !== undefined ? eq(activities.projectId, projectId) : undefined,
+          userId !== undefined ? eq(activities.userId, userId) : undefined,
+          taskId !== undefined ? eq(activities.taskId, taskId) : undefined,
+          afterCursor(sortColumn, activities.id, query)
+        )
+      )
+      .orderBy(...cursorOrder(sortColumn, activities.id, query.direction))
+      .limit(query.limit + 1);
+    
+    return toPage(rows, query, activity => activity[query.sort]);
+  }
+  
+  async createActivity(organizationId: number, insertActivity: InsertActivity): Promise<Activity> {
     const [activity] = await db
       .insert(activities)
-      .values(insertActivity)
+      .values({ ...insertActivity, organizationId })
       .returning();
     return activity;
   }
 
   // Comments methods
-  async getCommentsByProject(projectId: number): Promise<Comment[]> {
+  async getComment(organizationId: number, id: number): Promise<Comment | undefined> {
+    const [comment] = await db
+      .select()
+      .from(comments)
+      .where(and(eq(comments.id, id), eq(comments.organizationId, organizationId), isNull(comments.deletedAt)));
+    return comment;
+  }
+  
+  async getCommentsByProject(organizationId: number, projectId: number): Promise<Comment[]> {
     return db
       .select()
       .from(comments)
-      .where(eq(comments.projectId, projectId))
+      .where(and(eq(comments.projectId, projectId), eq(comments.organizationId, organizationId), isNull(comments.deletedAt)))
       .orderBy(desc(comments.createdAt));
   }
   
-  async getCommentsByTask(taskId: number): Promise<Comment[]> {
+  async getCommentsByTask(organizationId: number, taskId: number): Promise<Comment[]> {
     return db
       .select()
       .from(comments)
-      .where(eq(comments.taskId, taskId))
+      .where(and(eq(comments.taskId, taskId), eq(comments.organizationId, organizationId), isNull(comments.deletedAt)))
       .orderBy(desc(comments.createdAt));
   }
   
-  async createComment(insertComment: InsertComment): Promise<Comment> {
+  async createComment(organizationId: number, insertComment: InsertComment): Promise<Comment> {
+    if (insertComment.projectId) {
+      await this.assertProjectInOrganization(organizationId, insertComment.projectId);
+    }
+    if (insertComment.taskId) {
+      await this.assertTaskInOrganization(organizationId, insertComment.taskId);
+    }
+    
     const [comment] = await db
       .insert(comments)
-      .values(insertComment)
+      .values({ ...insertComment, organizationId })
       .returning();
     return comment;
   }
   
-  async deleteComment(id: number): Promise<boolean> {
-    await db.delete(comments).where(eq(comments.id, id));
+  async deleteComment(organizationId: number, id: number): Promise<boolean> {
+    const deleted = await db
+      .delete(comments)
+      .where(and(eq(comments.id, id), eq(comments.organizationId, organizationId)))
+      .returning({ id: comments.id });
+    return deleted.length > 0;
+  }
+
+  // Trash methods
+  async moveToTrash(organizationId: number, type: TrashItemType, id: number, userId: number): Promise<boolean> {
+    // Os filhos recebem a mesma data do item, para voltarem junto na restauração
+    const trashed = { deletedAt: new Date(), deletedBy: userId };
+    
+    return db.transaction(async (tx) => {
+      switch (type) {
+        case 'project': {
+          const [project] = await tx
+            .update(projects)
+            .set(trashed)
+            .where(and(eq(projects.id, id), eq(projects.organizationId, organizationId), isNull(projects.deletedAt)))
+            .returning({ id: projects.id });
+          if (!project) return false;
+          
+          const projectTasks = tx.select({ id: tasks.id }).from(tasks).where(eq(tasks.projectId, id));
+          await tx.update(comments).set(trashed)
+            .where(and(or(eq(comments.projectId, id), inArray(comments.taskId, projectTasks)), isNull(comments.deletedAt)));
+          await tx.update(files).set(trashed).where(and(eq(files.projectId, id), isNull(files.deletedAt)));
+          await tx.update(tasks).set(trashed).where(and(eq(tasks.projectId, id), isNull(tasks.deletedAt)));
+          return true;
+        }
+        case 'task': {
+          const [task] = await tx
+            .update(tasks)
+            .set(trashed)
+            .where(and(eq(tasks.id, id), eq(tasks.organizationId, organizationId), isNull(tasks.deletedAt)))
+            .returning({ id: tasks.id });
+          if (!task) return false;
+          
+          await tx.update(comments).set(trashed).where(and(eq(comments.taskId, id), isNull(comments.deletedAt)));
+          await tx.update(files).set(trashed).where(and(eq(files.taskId, id), isNull(files.deletedAt)));
+          return true;
+        }
+        case 'file': {
+          const trashedFiles = await tx
+            .update(files)
+            .set(trashed)
+            .where(and(eq(files.id, id), eq(files.organizationId, organizationId), isNull(files.deletedAt)))
+            .returning({ id: files.id });
+          return trashedFiles.length > 0;
+        }
+        case 'comment': {
+          const trashedComments = await tx
+            .update(comments)
+            .set(trashed)
+            .where(and(eq(comments.id, id), eq(comments.organizationId, organizationId), isNull(comments.deletedAt)))
+            .returning({ id: comments.id });
+          return trashedComments.length > 0;
+        }
+      }
+    });
+  }
+  
+  async getTrash(organizationId: number): Promise<TrashItem[]> {
+    // Itens que foram para a lixeira junto com o projeto ou a tarefa ficam dentro deles
+    const notWith = (parent: AnyColumn, child: AnyColumn) =>
+      sql`${parent} is distinct from ${child}`;
+    
+    const [trashedProjects, trashedTasks, trashedFiles, trashedComments] = await Promise.all([
+      db.select().from(projects)
+        .where(and(eq(projects.organizationId, organizationId), isNotNull(projects.deletedAt))),
+      db.select({ task: tasks }).from(tasks)
+        .leftJoin(projects, eq(projects.id, tasks.projectId))
+        .where(and(eq(tasks.organizationId, organizationId), isNotNull(tasks.deletedAt), notWith(projects.deletedAt, tasks.deletedAt))),
+      db.select({ file: files }).from(files)
+        .leftJoin(projects, eq(projects.id, files.projectId))
+        .leftJoin(tasks, eq(tasks.id, files.taskId))
+        .where(and(
+          eq(files.organizationId, organizationId),
+          isNotNull(files.deletedAt),
+          notWith(projects.deletedAt, files.deletedAt),
+          notWith(tasks.deletedAt, files.deletedAt)
+        )),
+      db.select({ comment: comments }).from(comments)
+        .leftJoin(projects, eq(projects.id, comments.projectId))
+        .leftJoin(tasks, eq(tasks.id, comments.taskId))
+        .where(and(
+          eq(comments.organizationId, organizationId),
+          isNotNull(comments.deletedAt),
+          notWith(projects.deletedAt, comments.deletedAt),
+          notWith(tasks.deletedAt, comments.deletedAt)
+        )),
+    ]);
+    
+    const items: TrashItem[] = [
+      ...trashedProjects.map(project => toTrashItem('project', project)),
+      ...trashedTasks.map(row => toTrashItem('task', row.task)),
+      ...trashedFiles.map(row => toTrashItem('file', row.file)),
+      ...trashedComments.map(row => toTrashItem('comment', row.comment)),
+    ];
+    return items.sort((a, b) => b.deletedAt.getTime() - a.deletedAt.getTime());
+  }
+  
+  async getTrashItem(organizationId: number, type: TrashItemType, id: number): Promise<TrashItem | undefined> {
+    let record: Project | Task | File | Comment | undefined;
+    switch (type) {
+      case 'project':
+        [record] = await db.select().from(projects)
+          .where(and(eq(projects.id, id), eq(projects.organizationId, organizationId), isNotNull(projects.deletedAt)));
+        break;
+      case 'task':
+        [record] = await db.select().from(tasks)
+          .where(and(eq(tasks.id, id), eq(tasks.organizationId, organizationId), isNotNull(tasks.deletedAt)));
+        break;
+      case 'file':
+        [record] = await db.select().from(files)
+          .where(and(eq(files.id, id), eq(files.organizationId, organizationId), isNotNull(files.deletedAt)));
+        break;
+      case 'comment':
+        [record] = await db.select().from(comments)
+          .where(and(eq(comments.id, id), eq(comments.organizationId, organizationId), isNotNull(comments.deletedAt)));
+        break;
+    }
+    return record ? toTrashItem(type, record) : undefined;
+  }
+  
+  async restoreFromTrash(organizationId: number, type: TrashItemType, id: number): Promise<boolean> {
+    const item = await this.getTrashItem(organizationId, type, id);
+    if (!item) return false;
+    const active = { deletedAt: null, deletedBy: null };
+    
+    await db.transaction(async (tx) => {
+      switch (type) {
+        case 'project': {
+          const projectTasks = tx.select({ id: tasks.id }).from(tasks).where(eq(tasks.projectId, id));
+          await tx.update(comments).set(active)
+            .where(and(or(eq(comments.projectId, id), inArray(comments.taskId, projectTasks)), eq(comments.deletedAt, item.deletedAt)));
+          await tx.update(files).set(active).where(and(eq(files.projectId, id), eq(files.deletedAt, item.deletedAt)));
+          await tx.update(tasks).set(active).where(and(eq(tasks.projectId, id), eq(tasks.deletedAt, item.deletedAt)));
+          await tx.update(projects).set(active).where(eq(projects.id, id));
+          break;
+        }
+        case 'task':
+          await tx.update(comments).set(active).where(and(eq(comments.taskId, id), eq(comments.deletedAt, item.deletedAt)));
+          await tx.update(files).set(active).where(and(eq(files.taskId, id), eq(files.deletedAt, item.deletedAt)));
+          await tx.update(tasks).set(active).where(eq(tasks.id, id));
+          break;
+        case 'file':
+          await tx.update(files).set(active).where(eq(files.id, id));
+          break;
+        case 'comment':
+          await tx.update(comments).set(active).where(eq(comments.id, id));
+          break;
+      }
+    });
     return true;
   }
+  
+  async purgeFromTrash(organizationId: number, type: TrashItemType, id: number): Promise<File[] | undefined> {
+    if (!await this.getTrashItem(organizationId, type, id)) return undefined;
+    
+    // Fases, checklists, membros, atividades e orçamento saem pelas chaves estrangeiras (cascade);
+    // arquivos e comentários de tarefas são removidos aqui porque a chave da tarefa é "set null"
+    return db.transaction(async (tx) => {
+      switch (type) {
+        case 'project': {
+          const projectTasks = tx.select({ id: tasks.id }).from(tasks).where(eq(tasks.projectId, id));
+          await tx.delete(comments).where(inArray(comments.taskId, projectTasks));
+          const removedFiles = await tx.delete(files).where(eq(files.projectId, id)).returning();
+          await tx.delete(projects).where(eq(projects.id, id));
+          return removedFiles;
+        }
+        case 'task': {
+          await tx.delete(comments).where(eq(comments.taskId, id));
+          const removedFiles = await tx.delete(files).where(eq(files.taskId, id)).returning();
+          await tx.delete(tasks).where(eq(tasks.id, id));
+          return removedFiles;
+        }
+        case 'file':
+          return tx.delete(files).where(eq(files.id, id)).returning();
+        case 'comment':
+          await tx.delete(comments).where(eq(comments.id, id));
+          return [];
+      }
+    });
+  }
+
+  // Search methods
+  async searchRecords(organizationId: number, filter: SearchFilter): Promise<SearchCandidates> {
+    const { terms, types, visibleTo, projectId, status, assignedTo, tagIds, from, to, limit } = filter;
+    const projectIds = visibleTo.projectIds.filter(id => projectId === undefined || id === projectId);
+    const inProjects = (column: AnyColumn) => projectIds.length > 0 ? inArray(column, projectIds) : sql`false`;
+    const inPeriod = (column: AnyColumn) => and(from ? gte(column, from) : undefined, to ? lte(column, to) : undefined);
+    // Cada termo precisa aparecer em alguma das colunas
+    const matches = (...columns: AnyColumn[]) => and(...terms.map(term =>
+      or(...columns.map(column => sql`${unaccented(column)} like ${likePattern(term)}`))
+    ));
+    
+    const [projectRows, taskRows, commentRows, fileRows, phaseRows] = await Promise.all([
+      types.includes('project')
+        ? db.select().from(projects).where(and(
+            eq(projects.organizationId, organizationId),
+            isNull(projects.deletedAt),
+            inProjects(projects.id),
+            status ? inArray(projects.status, status as Project['status'][]) : undefined,
+            inPeriod(projects.createdAt),
+            matches(projects.name, projects.description)
+          )).orderBy(desc(projects.createdAt)).limit(limit)
+        : [],
+      types.includes('task')
+        ? db.select().from(tasks).where(and(
+            eq(tasks.organizationId, organizationId),
+            isNull(tasks.deletedAt),
+            or(
+              inProjects(tasks.projectId),
+              and(eq(tasks.assignedTo, visibleTo.userId), projectId !== undefined ? eq(tasks.projectId, projectId) : undefined)
+            ),
+            status ? inArray(tasks.status, status as Task['status'][]) : undefined,
+            assignedTo !== undefined ? eq(tasks.assignedTo, assignedTo) : undefined,
+            tagIds ? taggedWith(tagIds) : undefined,
+            inPeriod(tasks.createdAt),
+            matches(tasks.name, tasks.description)
+          )).orderBy(desc(tasks.createdAt)).limit(limit)
+        : [],
+      types.includes('comment')
+        ? db.select().from(comments).where(and(
+            eq(comments.organizationId, organizationId),
+            isNull(comments.deletedAt),
+            inProjects(comments.projectId),
+            inPeriod(comments.createdAt),
+            matches(comments.content)
+          )).orderBy(desc(comments.createdAt)).limit(limit)
+        : [],
+      types.includes('file')
+        ? db.select().from(files).where(and(
+            eq(files.organizationId, organizationId),
+            isNull(files.deletedAt),
+            inProjects(files.projectId),
+            inPeriod(files.uploadedAt),
+            matches(files.name)
+          )).orderBy(desc(files.uploadedAt)).limit(limit)
+        : [],
+      types.includes('phase')
+        ? db.select().from(phases).where(and(
+            inProjects(phases.projectId),
+            inPeriod(phases.createdAt),
+            matches(phases.name, phases.description)
+          )).orderBy(desc(phases.createdAt)).limit(limit)
+        : [],
+    ]);
+    
+    return { projects: projectRows, tasks: taskRows, comments: commentRows, files: fileRows, phases: phaseRows };
+  }
+
+  // Tag methods
+  async getTag(organizationId: number, id: number): Promise<Tag | undefined> {
+    const [tag] = await db
+      .select()
+      .from(tags)
+      .where(and(eq(tags.id, id), eq(tags.organizationId, organizationId)));
+    return tag;
+  }
+  
+  async getTags(organizationId: number): Promise<(Tag & { taskCount: number })[]> {
+    const rows = await db
+      .select({ tag: tags, taskCount: sql<number>`count(${tasks.id})::int` })
+      .from(tags)
+      .leftJoin(taskTags, eq(taskTags.tagId, tags.id))
+      .leftJoin(tasks, and(eq(tasks.id, taskTags.taskId), isNull(tasks.deletedAt)))
+      .where(eq(tags.organizationId, organizationId))
+      .groupBy(tags.id)
+      .orderBy(sql`lower(${tags.name})`);
+    return rows.map(({ tag, taskCount }) => ({ ...tag, taskCount }));
+  }
+  
+  async createTag(organizationId: number, insertTag: InsertTag): Promise<Tag> {
+    const [tag] = await db
+      .insert(tags)
+      .values({ ...insertTag, organizationId })
+      .returning();
+    return tag;
+  }
+  
+  async updateTag(organizationId: number, id: number, data: Partial<InsertTag>): Promise<Tag | undefined> {
+    const [tag] = await db
+      .update(tags)
+      .set({ ...data, updatedAt: new Date() })
+      .where(and(eq(tags.id, id), eq(tags.organizationId, organizationId)))
+      .returning();
+    return tag;
+  }
+  
+  async deleteTag(organizationId: number, id: number): Promise<boolean> {
+    // As ligações com as tarefas saem pela chave estrangeira (cascade)
+    const deleted = await db
+      .delete(tags)
+      .where(and(eq(tags.id, id), eq(tags.organizationId, organizationId)))
+      .returning({ id: tags.id });
+    return deleted.length > 0;
+  }
+  
+  async mergeTags(organizationId: number, sourceId: number, targetId: number): Promise<Tag | undefined> {
+    const target = await this.getTag(organizationId, targetId);
+    if (!target || !await this.getTag(organizationId, sourceId)) return undefined;
+    
+    await db.transaction(async (tx) => {
+      const targetTasks = tx.select({ taskId: taskTags.taskId }).from(taskTags).where(eq(taskTags.tagId, targetId));
+      await tx.update(taskTags).set({ tagId: targetId })
+        .where(and(eq(taskTags.tagId, sourceId), sql`${taskTags.taskId} not in ${targetTasks}`));
+      await tx.delete(tags).where(eq(tags.id, sourceId));
+    });
+    return target;
+  }
+  
+  async getTaskTagIds(organizationId: number, taskIds: number[]): Promise<Map<number, number[]>> {
+    const result = new Map<number, number[]>(taskIds.map(taskId => [taskId, []]));
+    if (taskIds.length === 0) return result;
+    
+    const links = await db
+      .select({ taskId: taskTags.taskId, tagId: taskTags.tagId })
+      .from(taskTags)
+      .innerJoin(tags, eq(tags.id, taskTags.tagId))
+      .where(and(inArray(taskTags.taskId, taskIds), eq(tags.organizationId, organizationId)))
+      .orderBy(taskTags.id);
+    links.forEach(link => result.get(link.taskId)?.push(link.tagId));
+    return result;
+  }
+  
+  async setTaskTags(organizationId: number, taskId: number, tagIds: number[]): Promise<void> {
+    await db.transaction(async (tx) => {
+      await tx.delete(taskTags).where(eq(taskTags.taskId, taskId));
+      if (tagIds.length === 0) return;
+      
+      const validTags = await tx
+        .select({ id: tags.id })
+        .from(tags)
+        .where(and(inArray(tags.id, tagIds), eq(tags.organizationId, organizationId)));
+      if (validTags.length > 0) {
+        await tx.insert(taskTags).values(validTags.map(tag => ({ taskId, tagId: tag.id })));
+      }
+    });
+  }
+
+  // Task dependency methods
+  async getTaskDependency(organizationId: number, id: number): Promise<TaskDependency | undefined> {
+    const [dependency] = await db
+      .select()
+      .from(taskDependencies)
+      .where(and(eq(taskDependencies.id, id), eq(taskDependencies.organizationId, organizationId)));
+    return dependency;
+  }
+  
+  async getTaskDependencies(organizationId: number, taskId: number): Promise<TaskDependency[]> {
+    return db
+      .select()
+      .from(taskDependencies)
+      .where(and(
+        eq(taskDependencies.organizationId, organizationId),
+        or(eq(taskDependencies.blockerTaskId, taskId), eq(taskDependencies.blockedTaskId, taskId))
+      ))
+      .orderBy(taskDependencies.id);
+  }
+  
+  async getProjectDependencies(organizationId: number, projectId: number): Promise<TaskDependency[]> {
+    return db
+      .select()
+      .from(taskDependencies)
+      .where(and(
+        eq(taskDependencies.organizationId, organizationId),
+        inArray(taskDependencies.blockedTaskId, db.select({ id: tasks.id }).from(tasks).where(eq(tasks.projectId, projectId)))
+      ));
+  }
+  
+  async createTaskDependency(organizationId: number, insertDependency: InsertTaskDependency): Promise<TaskDependency> {
+    await this.assertTaskInOrganization(organizationId, insertDependency.blockerTaskId);
+    await this.assertTaskInOrganization(organizationId, insertDependency.blockedTaskId);
+    
+    const [dependency] = await db
+      .insert(taskDependencies)
+      .values({ ...insertDependency, organizationId })
+      .returning();
+    return dependency;
+  }
+  
+  async deleteTaskDependency(organizationId: number, id: number): Promise<boolean> {
+    const deleted = await db
+      .delete(taskDependencies)
+      .where(and(eq(taskDependencies.id, id), eq(taskDependencies.organizationId, organizationId)))
+      .returning({ id: taskDependencies.id });
+    return deleted.length > 0;
+  }
+
+  // Saved view methods
+  async getSavedView(organizationId: number, id: number): Promise<SavedView | undefined> {
+    const [view] = await db
+      .select()
+      .from(savedViews)
+      .where(and(eq(savedViews.id, id), eq(savedViews.organizationId, organizationId)));
+    return view;
+  }
+  
+  async getSavedViews(organizationId: number, userId: number): Promise<SavedView[]> {
+    return db
+      .select()
+      .from(savedViews)
+      .where(and(
+        eq(savedViews.organizationId, organizationId),
+        or(eq(savedViews.userId, userId), eq(savedViews.shared, true))
+      ))
+      .orderBy(savedViews.name);
+  }
+  
+  async createSavedView(organizationId: number, insertView: InsertSavedView): Promise<SavedView> {
+    const [view] = await db
+      .insert(savedViews)
+      .values({ ...insertView, organizationId })
+      .returning();
+    return view;
+  }
+  
+  async updateSavedView(organizationId: number, id: number, data: Partial<InsertSavedView>): Promise<SavedView | undefined> {
+    const { userId: _, target: __, ...safeData } = data;
+    const [view] = await db
+      .update(savedViews)
+      .set({ ...safeData, updatedAt: new Date() })
+      .where(and(eq(savedViews.id, id), eq(savedViews.organizationId, organizationId)))
+      .returning();
+    return view;
+  }
+  
+  async deleteSavedView(organizationId: number, id: number): Promise<boolean> {
+    const deleted = await db
+      .delete(savedViews)
+      .where(and(eq(savedViews.id, id), eq(savedViews.organizationId, organizationId)))
+      .returning({ id: savedViews.id });
+    return deleted.length > 0;
+  }
 
   // Integrations methods
-  async getIntegration(id: number): Promise<Integration | undefined> {
+  async getIntegration(organizationId: number, id: number): Promise<Integration | undefined> {
     const [integration] = await db
       .select()
       .from(integrations)
-      .where(eq(integrations.id, id));
+      .where(and(eq(integrations.id, id), eq(integrations.organizationId, organizationId)));
     return integration;
   }
   
-  async getIntegrationByType(type: string): Promise<Integration | undefined> {
+  async getIntegrationByType(organizationId: number, type: string): Promise<Integration | undefined> {
     const [integration] = await db
       .select()
       .from(integrations)
-      .where(eq(integrations.type, type));
+      .where(and(eq(integrations.type, type as Integration["type"]), eq(integrations.organizationId, organizationId)));
     return integration;
   }
   
-  async getAllIntegrations(): Promise<Integration[]> {
-    return db.select().from(integrations);
+  async getAllIntegrations(organizationId: number): Promise<Integration[]> {
+    return db.select().from(integrations).where(eq(integrations.organizationId, organizationId));
+  }
+  
+  async getOrganizationIdsWithIntegration(type: string): Promise<number[]> {
+    const rows = await db
+      .select({ organizationId: integrations.organizationId })
+      .from(integrations)
+      .where(and(eq(integrations.type, type as Integration["type"]), eq(integrations.enabled, true)));
+    return rows.map(row => row.organizationId);
   }
   
-  async createIntegration(insertIntegration: InsertIntegration): Promise<Integration> {
+  async createIntegration(organizationId: number, insertIntegration: InsertIntegration): Promise<Integration> {
     const [integration] = await db
       .insert(integrations)
-      .values(insertIntegration)
+      .values({ ...insertIntegration, organizationId })
       .returning();
     return integration;
   }
   
-  async updateIntegration(id: number, data: Partial<InsertIntegration>): Promise<Integration | undefined> {
+  async updateIntegration(organizationId: number, id: number, data: Partial<InsertIntegration>): Promise<Integration | undefined> {
     const [updatedIntegration] = await db
       .update(integrations)
       .set({
         ...data,
         updatedAt: new Date()
       })
-      .where(eq(integrations.id, id))
+      .where(and(eq(integrations.id, id), eq(integrations.organizationId, organizationId)))
       .returning();
     return updatedIntegration;
   }
   
-  async deleteIntegration(id: number): Promise<boolean> {
-    await db.delete(integrations).where(eq(integrations.id, id));
-    return true;
+  async deleteIntegration(organizationId: number, id: number): Promise<boolean> {
+    const deleted = await db
+      .delete(integrations)
+      .where(and(eq(integrations.id, id), eq(integrations.organizationId, organizationId)))
+      .returning({ id: integrations.id });
+    return deleted.length > 0;
   }
 
   // Payment Integrations methods
@@ -1777,142 +4342,170 @@ export class DatabaseStorage implements IStorage {
   }
 
   // Budget Categories methods
-  async getBudgetCategory(id: number): Promise<BudgetCategory | undefined> {
+  async getBudgetCategory(organizationId: number, id: number): Promise<BudgetCategory | undefined> {
     const [category] = await db.select()
       .from(budgetCategories)
-      .where(eq(budgetCategories.id, id));
+      .where(and(eq(budgetCategories.id, id), eq(budgetCategories.organizationId, organizationId)));
     return category;
   }
   
-  async getBudgetCategoriesByProject(projectId: number): Promise<BudgetCategory[]> {
+  async getBudgetCategoriesByProject(organizationId: number, projectId: number): Promise<BudgetCategory[]> {
     return db.select()
       .from(budgetCategories)
-      .where(eq(budgetCategories.projectId, projectId))
+      .where(and(eq(budgetCategories.projectId, projectId), eq(budgetCategories.organizationId, organizationId)))
       .orderBy(budgetCategories.name);
   }
   
-  async createBudgetCategory(insertCategory: InsertBudgetCategory): Promise<BudgetCategory> {
+  async createBudgetCategory(organizationId: number, insertCategory: InsertBudgetCategory): Promise<BudgetCategory> {
+    await this.assertProjectInOrganization(organizationId, insertCategory.projectId);
+    
     const [category] = await db
       .insert(budgetCategories)
-      .values(insertCategory)
+      .values({ ...insertCategory, organizationId })
       .returning();
     return category;
   }
   
-  async updateBudgetCategory(id: number, data: Partial<InsertBudgetCategory>): Promise<BudgetCategory | undefined> {
+  async updateBudgetCategory(organizationId: number, id: number, data: Partial<InsertBudgetCategory>, expectedVersion?: number): Promise<BudgetCategory | undefined> {
+    const { projectId: _, ...safeData } = data;
     const [updatedCategory] = await db
       .update(budgetCategories)
-      .set({ ...data, updatedAt: new Date() })
-      .where(eq(budgetCategories.id, id))
+      .set({ ...safeData, updatedAt: new Date(), version: sql`${budgetCategories.version} + 1` })
+      .where(and(
+        eq(budgetCategories.id, id),
+        eq(budgetCategories.organizationId, organizationId),
+        versionMatches(budgetCategories.version, expectedVersion)
+      ))
       .returning();
     return updatedCategory;
   }
   
-  async deleteBudgetCategory(id: number): Promise<boolean> {
-    await db.delete(budgetCategories).where(eq(budgetCategories.id, id));
-    return true;
+  async deleteBudgetCategory(organizationId: number, id: number): Promise<boolean> {
+    const deleted = await db
+      .delete(budgetCategories)
+      .where(and(eq(budgetCategories.id, id), eq(budgetCategories.organizationId, organizationId)))
+      .returning({ id: budgetCategories.id });
+    return deleted.length > 0;
   }
   
   // Expenses methods
-  async getExpense(id: number): Promise<Expense | undefined> {
+  async getExpense(organizationId: number, id: number): Promise<Expense | undefined> {
     const [expense] = await db.select()
       .from(expenses)
-      .where(eq(expenses.id, id));
+      .where(and(eq(expenses.id, id), eq(expenses.organizationId, organizationId)));
     return expense;
   }
   
-  async getExpensesByProject(projectId: number): Promise<Expense[]> {
+  async getExpensesByProject(organizationId: number, projectId: number): Promise<Expense[]> {
     return db.select()
       .from(expenses)
-      .where(eq(expenses.projectId, projectId))
+      .where(and(eq(expenses.projectId, projectId), eq(expenses.organizationId, organizationId)))
       .orderBy(desc(expenses.createdAt));
   }
   
-  async getExpensesByCategory(categoryId: number): Promise<Expense[]> {
+  async getExpensesByCategory(organizationId: number, categoryId: number): Promise<Expense[]> {
     return db.select()
       .from(expenses)
-      .where(eq(expenses.categoryId, categoryId))
+      .where(and(eq(expenses.categoryId, categoryId), eq(expenses.organizationId, organizationId)))
       .orderBy(desc(expenses.createdAt));
   }
   
-  async createExpense(insertExpense: InsertExpense): Promise<Expense> {
+  async createExpense(organizationId: number, insertExpense: InsertExpense): Promise<Expense> {
+    await this.assertProjectInOrganization(organizationId, insertExpense.projectId);
+    
     const [expense] = await db
       .insert(expenses)
       .values({
         ...insertExpense,
+        organizationId,
         status: insertExpense.status || "planned"
       })
       .returning();
     return expense;
   }
   
-  async updateExpense(id: number, data: Partial<InsertExpense>): Promise<Expense | undefined> {
+  async updateExpense(organizationId: number, id: number, data: Partial<InsertExpense>, expectedVersion?: number): Promise<Expense | undefined> {
+    const { projectId: _, ...safeData } = data;
     const [updatedExpense] = await db
       .update(expenses)
-      .set({ ...data, updatedAt: new Date() })
-      .where(eq(expenses.id, id))
+      .set({ ...safeData, updatedAt: new Date(), version: sql`${expenses.version} + 1` })
+      .where(and(
+        eq(expenses.id, id),
+        eq(expenses.organizationId, organizationId),
+        versionMatches(expenses.version, expectedVersion)
+      ))
       .returning();
     return updatedExpense;
   }
   
-  async deleteExpense(id: number): Promise<boolean> {
-    await db.delete(expenses).where(eq(expenses.id, id));
-    return true;
+  async deleteExpense(organizationId: number, id: number): Promise<boolean> {
+    const deleted = await db
+      .delete(expenses)
+      .where(and(eq(expenses.id, id), eq(expenses.organizationId, organizationId)))
+      .returning({ id: expenses.id });
+    return deleted.length > 0;
   }
   
-  async approveExpense(id: number, userId: number): Promise<Expense | undefined> {
+  async approveExpense(organizationId: number, id: number, userId: number): Promise<Expense | undefined> {
     const [updatedExpense] = await db
       .update(expenses)
       .set({ 
         status: "approved", 
         approvedBy: userId,
         approvedAt: new Date(),
-        updatedAt: new Date() 
+        updatedAt: new Date(),
+        version: sql`${expenses.version} + 1`
       })
-      .where(eq(expenses.id, id))
+      .where(and(eq(expenses.id, id), eq(expenses.organizationId, organizationId)))
       .returning();
     return updatedExpense;
   }
   
   // Budget Forecasts methods
-  async getBudgetForecast(id: number): Promise<BudgetForecast | undefined> {
+  async getBudgetForecast(organizationId: number, id: number): Promise<BudgetForecast | undefined> {
     const [forecast] = await db.select()
       .from(budgetForecasts)
-      .where(eq(budgetForecasts.id, id));
+      .where(and(eq(budgetForecasts.id, id), eq(budgetForecasts.organizationId, organizationId)));
     return forecast;
   }
   
-  async getBudgetForecastsByProject(projectId: number): Promise<BudgetForecast[]> {
+  async getBudgetForecastsByProject(organizationId: number, projectId: number): Promise<BudgetForecast[]> {
     return db.select()
       .from(budgetForecasts)
-      .where(eq(budgetForecasts.projectId, projectId))
-      .orderBy(budgetForecasts.period);
+      .where(and(eq(budgetForecasts.projectId, projectId), eq(budgetForecasts.organizationId, organizationId)))
+      .orderBy(budgetForecasts.startDate);
   }
   
-  async createBudgetForecast(insertForecast: InsertBudgetForecast): Promise<BudgetForecast> {
+  async createBudgetForecast(organizationId: number, insertForecast: InsertBudgetForecast): Promise<BudgetForecast> {
+    await this.assertProjectInOrganization(organizationId, insertForecast.projectId);
+    
     const [forecast] = await db
       .insert(budgetForecasts)
-      .values(insertForecast)
+      .values({ ...insertForecast, organizationId })
       .returning();
     return forecast;
   }
   
-  async updateBudgetForecast(id: number, data: Partial<InsertBudgetForecast>): Promise<BudgetForecast | undefined> {
+  async updateBudgetForecast(organizationId: number, id: number, data: Partial<InsertBudgetForecast>): Promise<BudgetForecast | undefined> {
+    const { projectId: _, ...safeData } = data;
     const [updatedForecast] = await db
       .update(budgetForecasts)
-      .set({ ...data, updatedAt: new Date() })
-      .where(eq(budgetForecasts.id, id))
+      .set({ ...safeData, updatedAt: new Date() })
+      .where(and(eq(budgetForecasts.id, id), eq(budgetForecasts.organizationId, organizationId)))
       .returning();
     return updatedForecast;
   }
   
-  async deleteBudgetForecast(id: number): Promise<boolean> {
-    await db.delete(budgetForecasts).where(eq(budgetForecasts.id, id));
-    return true;
+  async deleteBudgetForecast(organizationId: number, id: number): Promise<boolean> {
+    const deleted = await db
+      .delete(budgetForecasts)
+      .where(and(eq(budgetForecasts.id, id), eq(budgetForecasts.organizationId, organizationId)))
+      .returning({ id: budgetForecasts.id });
+    return deleted.length > 0;
   }
   
   // Budget Analysis
-  async getProjectBudgetSummary(projectId: number): Promise<{
+  async getProjectBudgetSummary(organizationId: number, projectId: number): Promise<{
     totalBudget: number;
     plannedAmount: number;
     actualAmount: number;
@@ -1926,9 +4519,7 @@ export class DatabaseStorage implements IStorage {
     }[];
   }> {
     // Obter projeto
-    const [project] = await db.select()
-      .from(projects)
-      .where(eq(projects.id, projectId));
+    const project = await this.getProject(organizationId, projectId);
     
     if (!project) {
       throw new Error("Project not found");
@@ -1937,8 +4528,8 @@ export class DatabaseStorage implements IStorage {
     const totalBudget = project.budget || 0;
     
     // Obter despesas e categorias
-    const projectExpenses = await this.getExpensesByProject(projectId);
-    const projectCategories = await this.getBudgetCategoriesByProject(projectId);
+    const projectExpenses = await this.getExpensesByProject(organizationId, projectId);
+    const projectCategories = await this.getBudgetCategoriesByProject(organizationId, projectId);
     
     // Calcular despesas planejadas e reais
     const plannedExpenses = projectExpenses.filter(e => e.status === "planned" || e.status === "approved");
@@ -1976,21 +4567,47 @@ export class DatabaseStorage implements IStorage {
   }
 }
 
-// Para desenvolvimento, é possível alternar entre armazenamento em memória ou banco de dados
-// Usar MemStorage para desenvolvimento sem banco de dados
-export const storage = new MemStorage();
+export type StorageDriver = 'database' | 'memory';
+
+// STORAGE_DRIVER escolhe o armazenamento; sem ele, PostgreSQL em produção e memória no desenvolvimento
+export const storageDriver: StorageDriver = (() => {
+  const driver = process.env.STORAGE_DRIVER || (process.env.NODE_ENV === 'production' ? 'database' : 'memory');
+  if (driver !== 'database' && driver !== 'memory') {
+    throw new Error(`STORAGE_DRIVER inválido: "${driver}" (use "database" ou "memory")`);
+  }
+  if (driver === 'database' && !process.env.DATABASE_URL) {
+    throw new Error("DATABASE_URL must be set. Did you forget to provision a database?");
+  }
+  return driver;
+})();
+
+export const storage: IStorage = storageDriver === 'database' ? new DatabaseStorage() : new MemStorage();
 
-// Usar DatabaseStorage para produção com banco de dados PostgreSQL
-// export const storage = new DatabaseStorage();
+// Garante a organização padrão do sistema, à qual o Super Admin pertence
+async function ensureDefaultOrganization(): Promise<number> {
+  const existing = await storage.getOrganization(1);
+  if (existing) return existing.id;
+  
+  const organization = await storage.createOrganization({
+    name: "LaunchRocket",
+    slug: "launchrocket"
+  });
+  await storage.createOrganizationSettings({ organizationId: organization.id });
+  return organization.id;
+}
 
-// Inicializar o usuário admin se não existir
-async function initializeAdmin() {
+// Garante ao menos um Super Admin. Na primeira inicialização o usuário "admin" é criado
+// com a senha de ADMIN_PASSWORD (ou "admin123"); a senha não é alterada depois disso.
+export async function initializeAdmin() {
   try {
-    const adminUser = await storage.getUserByUsername("admin");
+    const organizationId = await ensureDefaultOrganization();
+    if ((await storage.getSuperAdmins()).length > 0) return;
+    
+    let adminUser = await storage.getUserByUsername("admin");
     if (!adminUser) {
-      await storage.createUser({
+      adminUser = await storage.createUser({
         username: "admin",
-        password: "admin123",
+        password: await hashPassword(process.env.ADMIN_PASSWORD || "admin123"),
         name: "Super Administrador",
         email: "admin@launchrocket.com",
         role: "admin",
@@ -1999,19 +4616,33 @@ async function initializeAdmin() {
         active: true
       });
       console.log("Usuário Super Admin criado com sucesso");
-    } else {
-      // Atualizar a senha do admin se necessário
-      if (adminUser.password !== "admin123") {
-        await storage.updateUser(adminUser.id, {
-          password: "admin123"
-        });
-        console.log("Senha do usuário Super Admin atualizada");
-      }
+    }
+    
+    await storage.setUserSuperAdmin(adminUser.id, true);
+    
+    const memberships = await storage.getOrganizationsByUser(adminUser.id);
+    if (!memberships.some(m => m.organizationId === organizationId)) {
+      await storage.addOrganizationMember({
+        organizationId,
+        userId: adminUser.id,
+        role: "owner"
+      });
     }
   } catch (error) {
     console.error("Erro ao inicializar usuário Super Admin:", error);
   }
 }
 
-// Inicializar o admin na inicialização
-initializeAdmin();
+/**
+ * Prepara o armazenamento antes de atender requisições: aplica as migrações
+ * pendentes (PostgreSQL) e garante a organização padrão e o Super Admin.
+ */
+export async function initializeStorage() {
+  if (storageDriver === 'database') {
+    await runMigrations();
+    console.log("Migrações do banco de dados aplicadas");
+  } else if (process.env.STORAGE_SNAPSHOT_FILE) {
+    await enableSnapshotPersistence(storage as MemStorage, process.env.STORAGE_SNAPSHOT_FILE);
+  }
+  await initializeAdmin();
+}
@@ -0,0 +1,48 @@
+/**
+ * Subtarefas (shared/subtasks.ts): validação da tarefa pai e o consolidado das
+ * subtarefas incluído nas tarefas devolvidas ao cliente.
+ */
+import { z } from 'zod';
+import type { Task } from '@shared/schema';
+import { buildRollups, type TaskRollup } from '@shared/subtasks';
+import { storage } from './storage';
+
+// Tarefa pai enviada ao editar uma tarefa; null a torna uma tarefa sem pai
+export const taskParentSchema = z.object({
+  parentTaskId: z.number().int().positive().nullable().optional(),
+});
+
+/**
+ * Confere a tarefa pai de uma tarefa nova (sem taskId) ou existente.
+ * Retorna a mensagem de erro, ou null se a tarefa pai é válida.
+ */
+export async function validateParentTask(organizationId: number, projectId: number, parentTaskId: number, taskId?: number): Promise<string | null> {
+  if (parentTaskId === taskId) return "Uma tarefa não pode ser subtarefa de si mesma";
+
+  const projectTasks = await storage.getTasksByProject(organizationId, projectId);
+  const tasksById = new Map(projectTasks.map(task => [task.id, task]));
+  if (!tasksById.has(parentTaskId)) return "A tarefa pai precisa ser uma tarefa ativa do mesmo projeto";
+
+  // A tarefa pai não pode estar abaixo da própria tarefa
+  const visited = new Set<number>();
+  for (let ancestor = tasksById.get(parentTaskId); ancestor && !visited.has(ancestor.id); ancestor = tasksById.get(ancestor.parentTaskId ?? 0)) {
+    if (ancestor.id === taskId) return "A tarefa pai escolhida é uma subtarefa desta tarefa";
+    visited.add(ancestor.id);
+  }
+  return null;
+}
+
+// Tarefas com o consolidado das suas subtarefas, como enviadas ao cliente.
+// Carrega apenas as subtarefas das tarefas informadas, um nível por consulta.
+export async function withRollups<T extends Task>(organizationId: number, tasks: T[]): Promise<(T & { rollup: TaskRollup })[]> {
+  const loaded = new Map<number, Task>(tasks.map(task => [task.id, task]));
+  let parentIds = Array.from(loaded.keys());
+  while (parentIds.length > 0) {
+    const subtasks = (await storage.getSubtasks(organizationId, parentIds)).filter(subtask => !loaded.has(subtask.id));
+    subtasks.forEach(subtask => loaded.set(subtask.id, subtask));
+    parentIds = subtasks.map(subtask => subtask.id);
+  }
+
+  const rollups = buildRollups(Array.from(loaded.values()));
+  return tasks.map(task => ({ ...task, rollup: rollups.get(task.id)! }));
+}
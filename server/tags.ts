@@ -0,0 +1,51 @@
+/**
+ * Tags de tarefas (shared/tags.ts): validação do cadastro e das tags enviadas com as
+ * tarefas, e os ids das tags incluídos nas tarefas devolvidas ao cliente.
+ */
+import { z } from 'zod';
+import type { Tag, Task } from '@shared/schema';
+import { MAX_TAG_NAME_LENGTH, MAX_TASK_TAGS, TAG_COLORS, tagNameKey, type TagColor, type TagSummary } from '@shared/tags';
+import { storage } from './storage';
+
+const id = z.number().int().positive();
+
+const tagName = z.string().trim()
+  .min(1, 'Informe o nome da tag')
+  .max(MAX_TAG_NAME_LENGTH, `O nome da tag pode ter até ${MAX_TAG_NAME_LENGTH} caracteres`)
+  .transform(name => name.replace(/\s+/g, ' '));
+
+export const createTagSchema = z.object({
+  name: tagName,
+  color: z.enum(TAG_COLORS).optional(), // Sem cor, a próxima da paleta
+});
+
+export const updateTagSchema = z.object({
+  name: tagName.optional(),
+  color: z.enum(TAG_COLORS).optional(),
+});
+
+export const mergeTagsSchema = z.object({
+  targetId: id, // Tag que fica; a do endereço é excluída
+});
+
+// Tags enviadas ao criar ou editar uma tarefa; substituem as atuais
+export const taskTagsSchema = z.object({
+  tagIds: z.array(id).max(MAX_TASK_TAGS, `Uma tarefa pode ter até ${MAX_TASK_TAGS} tags`).optional(),
+});
+
+export function toTagSummary(tag: Tag & { taskCount: number }): TagSummary {
+  return { id: tag.id, name: tag.name, color: tag.color as TagColor, taskCount: tag.taskCount };
+}
+
+// Tag da organização com o mesmo nome, sem diferenciar maiúsculas (exceto a própria, ao renomear)
+export async function findTagByName(organizationId: number, name: string, exceptId?: number) {
+  const key = tagNameKey(name);
+  const tags = await storage.getTags(organizationId);
+  return tags.find(tag => tag.id !== exceptId && tagNameKey(tag.name) === key);
+}
+
+// Tarefas com os ids das suas tags, como enviadas ao cliente
+export async function withTagIds<T extends Task>(organizationId: number, tasks: T[]): Promise<(T & { tagIds: number[] })[]> {
+  const tagIds = await storage.getTaskTagIds(organizationId, tasks.map(task => task.id));
+  return tasks.map(task => ({ ...task, tagIds: tagIds.get(task.id) ?? [] }));
+}
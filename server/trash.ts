@@ -0,0 +1,77 @@
+/**
+ * Lixeira: exclusão definitiva dos itens (manual ou pela retenção da organização).
+ * Os uploads só são apagados do disco aqui; até lá o item pode ser restaurado intacto.
+ */
+import fs from 'fs';
+import { z } from 'zod';
+import { storage } from './storage';
+import { deleteFile } from './middleware/upload';
+import { DEFAULT_TRASH_RETENTION_DAYS, MAX_TRASH_RETENTION_DAYS, TRASH_ITEM_TYPES, TrashItemType } from '@shared/trash';
+
+// Intervalo da exclusão dos itens fora da retenção
+const PURGE_INTERVAL_MS = 86400000;
+
+export const trashItemTypeSchema = z.enum(TRASH_ITEM_TYPES);
+
+export const trashRetentionSchema = z.object({
+  retentionDays: z.coerce.number().int()
+    .min(1, 'A retenção mínima é de 1 dia')
+    .max(MAX_TRASH_RETENTION_DAYS, `A retenção máxima é de ${MAX_TRASH_RETENTION_DAYS} dias`),
+});
+
+export async function getTrashRetentionDays(organizationId: number): Promise<number> {
+  const settings = await storage.getOrganizationSettings(organizationId);
+  return settings?.trashRetentionDays ?? DEFAULT_TRASH_RETENTION_DAYS;
+}
+
+/**
+ * Exclui o item definitivamente, junto com os arquivos enviados.
+ * Retorna false se o item não estiver na lixeira.
+ */
+export async function purgeTrashItem(organizationId: number, type: TrashItemType, id: number): Promise<boolean> {
+  const removedFiles = await storage.purgeFromTrash(organizationId, type, id);
+  if (!removedFiles) return false;
+
+  for (const file of removedFiles) {
+    // O registro já foi removido; uma falha aqui deixa apenas o arquivo órfão no disco
+    if (fs.existsSync(file.path)) {
+      await deleteFile(file.path).catch(error => console.error(`Erro ao excluir o arquivo ${file.path}:`, error));
+    }
+  }
+  return true;
+}
+
+/**
+ * Exclui os itens que estão na lixeira há mais tempo que a retenção de cada organização.
+ * Retorna a quantidade de itens excluídos.
+ */
+export async function purgeExpiredTrash(): Promise<number> {
+  let removed = 0;
+
+  const organizations = await storage.getAllOrganizations();
+  for (const organization of organizations) {
+    const days = await getTrashRetentionDays(organization.id);
+    const before = new Date(Date.now() - days * 86400000);
+    const expired = (await storage.getTrash(organization.id)).filter(item => item.deletedAt < before);
+    for (const item of expired) {
+      if (await purgeTrashItem(organization.id, item.type, item.id)) removed++;
+    }
+  }
+  return removed;
+}
+
+/**
+ * Agenda a exclusão diária dos itens fora da retenção.
+ */
+export function scheduleTrashPurge() {
+  const purge = () => {
+    purgeExpiredTrash()
+      .then(removed => {
+        if (removed > 0) console.log(`Lixeira: ${removed} itens fora da retenção excluídos definitivamente`);
+      })
+      .catch(error => console.error("Erro ao esvaziar a lixeira:", error));
+  };
+
+  purge();
+  setInterval(purge, PURGE_INTERVAL_MS).unref();
+}
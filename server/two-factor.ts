@@ -0,0 +1,245 @@
+/**
+ * Verificação em duas etapas (TOTP, RFC 6238) com códigos de recuperação.
+ * O segredo é guardado criptografado e os códigos de recuperação apenas como hash.
+ */
+import crypto from 'crypto';
+import { createRequire } from 'module';
+import { storage } from './storage';
+import { decryptSecret, encryptSecret, hashToken } from './auth-utils';
+import { User, UserTwoFactor } from '@shared/schema';
+
+const TOTP_PERIOD_SECONDS = 30;
+const TOTP_DIGITS = 6;
+// Intervalos aceitos antes e depois do atual (tolerância de relógio)
+const TOTP_WINDOW = 1;
+const RECOVERY_CODE_COUNT = 10;
+const ISSUER = 'LaunchRocket';
+
+const BASE32_ALPHABET = 'ABCDEFGHIJKLMNOPQRSTUVWXYZ234567';
+
+function base32Encode(buffer: Buffer): string {
+  let bits = 0;
+  let value = 0;
+  let output = '';
+
+  for (let i = 0; i < buffer.length; i++) {
+    value = (value << 8) | buffer[i];
+    bits += 8;
+    while (bits >= 5) {
+      output += BASE32_ALPHABET[(value >>> (bits - 5)) & 31];
+      bits -= 5;
+    }
+  }
+  if (bits > 0) {
+    output += BASE32_ALPHABET[(value << (5 - bits)) & 31];
+  }
+  return output;
+}
+
+function base32Decode(input: string): Buffer {
+  const clean = input.toUpperCase().replace(/=+$/, '').replace(/\s/g, '');
+  let bits = 0;
+  let value = 0;
+  const bytes: number[] = [];
+
+  for (const char of clean) {
+    const index = BASE32_ALPHABET.indexOf(char);
+    if (index === -1) throw new Error('Segredo base32 inválido');
+    value = (value << 5) | index;
+    bits += 5;
+    if (bits >= 8) {
+      bytes.push((value >>> (bits - 8)) & 255);
+      bits -= 8;
+    }
+  }
+  return Buffer.from(bytes);
+}
+
+function generateTotp(secret: string, step: number): string {
+  const counter = Buffer.alloc(8);
+  counter.writeBigUInt64BE(BigInt(step));
+
+  const hmac = crypto.createHmac('sha1', base32Decode(secret)).update(counter).digest();
+  const offset = hmac[hmac.length - 1] & 0xf;
+  const binary = hmac.readUInt32BE(offset) & 0x7fffffff;
+  return (binary % 10 ** TOTP_DIGITS).toString().padStart(TOTP_DIGITS, '0');
+}
+
+/**
+ * Verifica um código TOTP e devolve o intervalo correspondente, ou null.
+ * Códigos de intervalos já usados (lastUsedStep) são recusados.
+ */
+function verifyTotp(secret: string, code: string, lastUsedStep?: number | null): number | null {
+  if (!/^\d{6}$/.test(code)) return null;
+
+  const currentStep = Math.floor(Date.now() / 1000 / TOTP_PERIOD_SECONDS);
+  for (let delta = -TOTP_WINDOW; delta <= TOTP_WINDOW; delta++) {
+    const step = currentStep + delta;
+    if (lastUsedStep !== null && lastUsedStep !== undefined && step <= lastUsedStep) continue;
+
+    const expected = Buffer.from(generateTotp(secret, step));
+    if (crypto.timingSafeEqual(expected, Buffer.from(code))) {
+      return step;
+    }
+  }
+  return null;
+}
+
+// Códigos de recuperação no formato xxxxx-xxxxx; o hash ignora hífens e maiúsculas
+function normalizeRecoveryCode(code: string): string {
+  return code.trim().toLowerCase().replace(/[^a-z0-9]/g, '');
+}
+
+function generateRecoveryCodes(): string[] {
+  return Array.from({ length: RECOVERY_CODE_COUNT }, () => {
+    const value = crypto.randomBytes(5).toString('hex');
+    return `${value.slice(0, 5)}-${value.slice(5)}`;
+  });
+}
+
+// Codificador de QR Code do pacote qrcode-terminal (já usado pelo WhatsApp Web)
+const require = createRequire(import.meta.url);
+
+/**
+ * Gera a imagem SVG (data URL) do QR Code para o texto informado.
+ */
+function buildQrCodeDataUrl(text: string): string {
+  const QRCode = require('qrcode-terminal/vendor/QRCode');
+  const QRErrorCorrectLevel = require('qrcode-terminal/vendor/QRCode/QRErrorCorrectLevel');
+
+  const qr = new QRCode(-1, QRErrorCorrectLevel.M);
+  qr.addData(text);
+  qr.make();
+
+  const size: number = qr.getModuleCount();
+  const margin = 4;
+  let path = '';
+  for (let row = 0; row < size; row++) {
+    for (let col = 0; col < size; col++) {
+      if (qr.isDark(row, col)) {
+        path += `M${col + margin} ${row + margin}h1v1h-1z`;
+      }
+    }
+  }
+
+  const dimension = size + margin * 2;
+  const svg =
+    `<svg xmlns="http://www.w3.org/2000/svg" viewBox="0 0 ${dimension} ${dimension}" shape-rendering="crispEdges">` +
+    `<rect width="100%" height="100%" fill="#fff"/><path d="${path}" fill="#000"/></svg>`;
+  return `data:image/svg+xml;base64,${Buffer.from(svg).toString('base64')}`;
+}
+
+function getRecoveryCodeHashes(record: UserTwoFactor): string[] {
+  return (record.recoveryCodes as string[] | null) || [];
+}
+
+export interface TwoFactorStatus {
+  enabled: boolean;
+  pending: boolean;
+  recoveryCodesRemaining: number;
+  requiredByOrganization: boolean;
+}
+
+export function isTwoFactorEnabled(record?: UserTwoFactor): boolean {
+  return !!record?.enabledAt;
+}
+
+/**
+ * Indica se a organização exige verificação em duas etapas dos membros.
+ */
+export async function isTwoFactorRequired(organizationId?: number): Promise<boolean> {
+  if (!organizationId) return false;
+  const settings = await storage.getOrganizationSettings(organizationId);
+  return !!settings?.requireTwoFactor;
+}
+
+export async function getTwoFactorStatus(userId: number, organizationId?: number): Promise<TwoFactorStatus> {
+  const record = await storage.getUserTwoFactor(userId);
+  return {
+    enabled: isTwoFactorEnabled(record),
+    pending: !!record && !record.enabledAt,
+    recoveryCodesRemaining: record?.enabledAt ? getRecoveryCodeHashes(record).length : 0,
+    requiredByOrganization: await isTwoFactorRequired(organizationId),
+  };
+}
+
+/**
+ * Inicia o cadastro: gera um novo segredo (ainda não ativo) e o QR Code de provisionamento.
+ */
+export async function beginTwoFactorEnrollment(user: User) {
+  const secret = base32Encode(crypto.randomBytes(20));
+  await storage.saveUserTwoFactor({
+    userId: user.id,
+    secret: encryptSecret(secret),
+    enabledAt: null,
+    recoveryCodes: [],
+    lastUsedStep: null
+  });
+
+  const label = encodeURIComponent(`${ISSUER}:${user.email}`);
+  const otpauthUrl =
+    `otpauth://totp/${label}?secret=${secret}&issuer=${encodeURIComponent(ISSUER)}` +
+    `&algorithm=SHA1&digits=${TOTP_DIGITS}&period=${TOTP_PERIOD_SECONDS}`;
+
+  return { secret, otpauthUrl, qrCode: buildQrCodeDataUrl(otpauthUrl) };
+}
+
+/**
+ * Confirma o cadastro com o primeiro código do aplicativo autenticador.
+ * Retorna os códigos de recuperação (exibidos uma única vez) ou null se o código for inválido.
+ */
+export async function confirmTwoFactorEnrollment(userId: number, code: string): Promise<string[] | null> {
+  const record = await storage.getUserTwoFactor(userId);
+  if (!record || record.enabledAt) return null;
+
+  const step = verifyTotp(decryptSecret(record.secret), code.trim());
+  if (step === null) return null;
+
+  const recoveryCodes = generateRecoveryCodes();
+  await storage.updateUserTwoFactor(userId, {
+    enabledAt: new Date(),
+    lastUsedStep: step,
+    recoveryCodes: recoveryCodes.map(c => hashToken(normalizeRecoveryCode(c)))
+  });
+  return recoveryCodes;
+}
+
+/**
+ * Valida um código do autenticador ou um código de recuperação (que é consumido).
+ */
+export async function verifyTwoFactorCode(userId: number, code: string): Promise<boolean> {
+  const record = await storage.getUserTwoFactor(userId);
+  if (!record || !record.enabledAt) return false;
+
+  const step = verifyTotp(decryptSecret(record.secret), code.trim(), record.lastUsedStep);
+  if (step !== null) {
+    await storage.updateUserTwoFactor(userId, { lastUsedStep: step });
+    return true;
+  }
+
+  const hashed = hashToken(normalizeRecoveryCode(code));
+  const remaining = getRecoveryCodeHashes(record);
+  if (normalizeRecoveryCode(code).length > 0 && remaining.includes(hashed)) {
+    await storage.updateUserTwoFactor(userId, {
+      recoveryCodes: remaining.filter(c => c !== hashed)
+    });
+    return true;
+  }
+
+  return false;
+}
+
+/**
+ * Gera novos códigos de recuperação, invalidando os anteriores.
+ */
+export async function regenerateRecoveryCodes(userId: number): Promise<string[]> {
+  const recoveryCodes = generateRecoveryCodes();
+  await storage.updateUserTwoFactor(userId, {
+    recoveryCodes: recoveryCodes.map(c => hashToken(normalizeRecoveryCode(c)))
+  });
+  return recoveryCodes;
+}
+
+export async function disableTwoFactor(userId: number): Promise<void> {
+  await storage.deleteUserTwoFactor(userId);
+}
@@ -0,0 +1,76 @@
+/**
+ * Visões salvas (shared/views.ts): validação das definições e conversão dos filtros
+ * relativos (período e "me") nos filtros das listagens, no momento em que a visão é aberta.
+ */
+import { z } from 'zod';
+import { projectStatusEnum, taskPriorityEnum, taskStatusEnum } from '@shared/schema';
+import {
+  DATE_RANGES,
+  MAX_SAVED_VIEW_NAME_LENGTH,
+  dateRangeBounds,
+  type SavedViewTarget,
+  type TaskViewFilters,
+} from '@shared/views';
+import { MAX_TASK_TAGS } from '@shared/tags';
+import type { TaskListFilter } from './storage';
+
+const search = z.string().trim().max(200).optional();
+
+const taskViewFiltersSchema = z.object({
+  search,
+  status: z.array(z.enum(taskStatusEnum.enumValues)).optional(),
+  priority: z.array(z.enum(taskPriorityEnum.enumValues)).optional(),
+  projectId: z.number().int().positive().optional(),
+  assignedTo: z.union([z.literal('me'), z.number().int().positive()]).optional(),
+  due: z.enum(DATE_RANGES).optional(),
+  tagIds: z.array(z.number().int().positive()).min(1).max(MAX_TASK_TAGS).optional(),
+}).strict();
+
+const projectViewFiltersSchema = z.object({
+  search,
+  status: z.array(z.enum(projectStatusEnum.enumValues)).optional(),
+  deadline: z.enum(DATE_RANGES).optional(),
+}).strict();
+
+export function viewFiltersSchema(target: SavedViewTarget) {
+  return target === 'tasks' ? taskViewFiltersSchema : projectViewFiltersSchema;
+}
+
+const savedViewFields = {
+  name: z.string().trim().min(1, 'Informe o nome da visão').max(MAX_SAVED_VIEW_NAME_LENGTH),
+  shared: z.boolean().default(false),
+  pinned: z.boolean().default(false),
+  onDashboard: z.boolean().default(false),
+};
+
+export const createSavedViewSchema = z.discriminatedUnion('target', [
+  z.object({ ...savedViewFields, target: z.literal('tasks'), filters: taskViewFiltersSchema }),
+  z.object({ ...savedViewFields, target: z.literal('projects'), filters: projectViewFiltersSchema }),
+]);
+
+// O alvo não muda; os filtros são validados conforme o alvo da visão existente
+export const updateSavedViewSchema = z.object({
+  name: savedViewFields.name.optional(),
+  shared: z.boolean().optional(),
+  pinned: z.boolean().optional(),
+  onDashboard: z.boolean().optional(),
+  filters: z.unknown().optional(),
+});
+
+/**
+ * Filtros de tarefa prontos para listTasks: "me" vira o usuário e o período vira datas.
+ * "Atrasadas" exclui as concluídas.
+ */
+export function resolveTaskFilter(filters: TaskViewFilters, userId: number, now = new Date()): Omit<TaskListFilter, 'visibleTo'> {
+  const { due, assignedTo, ...rest } = filters;
+  const resolved = { ...rest, assignedTo: assignedTo === 'me' ? userId : assignedTo };
+  if (!due) return resolved;
+
+  const { from, to, openOnly } = dateRangeBounds(due, now);
+  return {
+    ...resolved,
+    dueFrom: from,
+    dueTo: to,
+    status: openOnly ? (rest.status ?? taskStatusEnum.enumValues).filter(status => status !== 'completed') : rest.status,
+  };
+}
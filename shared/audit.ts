@@ -0,0 +1,76 @@
+/**
+ * Catálogo das ações registradas na auditoria e retenção padrão por plano.
+ * A auditoria é separada das atividades dos projetos (tabela activities):
+ * os registros são apenas incluídos e só saem pela política de retenção.
+ */
+
+export const AUDIT_ACTIONS = {
+  'auth.login': 'Login',
+  'auth.login_failed': 'Login recusado',
+  'auth.logout': 'Logout',
+  'auth.two_factor_enabled': 'Verificação em duas etapas ativada',
+  'auth.two_factor_disabled': 'Verificação em duas etapas desativada',
+  'auth.token_created': 'Token de API criado',
+  'auth.token_revoked': 'Token de API revogado',
+  'auth.sessions_revoked': 'Sessões encerradas',
+  'user.role_changed': 'Papel global alterado',
+  'member.invited': 'Membro convidado',
+  'member.invite_canceled': 'Convite cancelado',
+  'member.sessions_revoked': 'Sessões de membro encerradas',
+  'project_member.added': 'Membro adicionado ao projeto',
+  'project_member.removed': 'Membro removido do projeto',
+  'project_member.role_changed': 'Papel no projeto alterado',
+  'security.policy_updated': 'Política de segurança alterada',
+  'security.sso_updated': 'Login único alterado',
+  'security.domain_added': 'Domínio cadastrado',
+  'security.domain_verified': 'Domínio verificado',
+  'security.domain_removed': 'Domínio removido',
+  'permissions.updated': 'Matriz de permissões alterada',
+  'permissions.reset': 'Matriz de permissões restaurada',
+  'integration.created': 'Integração criada',
+  'integration.updated': 'Integração alterada',
+  'integration.deleted': 'Integração excluída',
+  'integration.connected': 'Integração conectada',
+  'integration.disconnected': 'Integração desconectada',
+  'admin.settings_updated': 'Configurações do sistema alteradas',
+  'admin.pricing_updated': 'Preços dos planos alterados',
+  'admin.payment_updated': 'Integração de pagamento alterada',
+  'admin.login_lock_cleared': 'Bloqueio de login removido',
+  'admin.audit_retention_updated': 'Retenção da auditoria alterada',
+  'admin.snapshot_exported': 'Snapshot dos dados exportado',
+  'admin.snapshot_imported': 'Snapshot dos dados importado',
+  'trash.restored': 'Item restaurado da lixeira',
+  'trash.purged': 'Item excluído definitivamente da lixeira',
+  'trash.retention_updated': 'Retenção da lixeira alterada',
+  'partner_agency.created': 'Agência parceira criada',
+  'partner_agency.updated': 'Agência parceira alterada',
+  'partner_agency.deleted': 'Agência parceira excluída',
+  'superadmin.grant': 'Acesso Super Admin concedido',
+  'superadmin.revoke': 'Acesso Super Admin removido',
+  'impersonation.start': 'Acesso como usuário iniciado',
+  'impersonation.end': 'Acesso como usuário encerrado',
+} as const;
+
+export type AuditAction = keyof typeof AUDIT_ACTIONS;
+
+// Alterações registradas: valor anterior e novo de cada campo alterado
+export type AuditChanges = Record<string, { from: unknown; to: unknown }>;
+
+// Dias de retenção por plano (subscriptions.plan); "platform" vale para os
+// registros sem organização (ações da área Super Admin)
+export const AUDIT_RETENTION_KEYS = [
+  'free', 'starter', 'professional', 'enterprise', 'custom', 'partner_trial', 'platform',
+] as const;
+
+export type AuditRetentionKey = typeof AUDIT_RETENTION_KEYS[number];
+export type AuditRetention = Record<AuditRetentionKey, number>;
+
+export const DEFAULT_AUDIT_RETENTION: AuditRetention = {
+  free: 30,
+  starter: 90,
+  professional: 365,
+  enterprise: 730,
+  custom: 730,
+  partner_trial: 30,
+  platform: 730,
+};
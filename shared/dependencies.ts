@@ -0,0 +1,52 @@
+/**
+ * Dependências entre tarefas do mesmo projeto (task_dependencies): a tarefa bloqueadora
+ * condiciona o início ou a conclusão da tarefa bloqueada, conforme o tipo.
+ */
+import type { Task } from './schema';
+
+export const DEPENDENCY_TYPES = ['finish_to_start', 'start_to_start', 'finish_to_finish'] as const;
+export type DependencyType = typeof DEPENDENCY_TYPES[number];
+
+export const dependencyTypeLabels: Record<DependencyType, string> = {
+  finish_to_start: 'Término → início',
+  start_to_start: 'Início → início',
+  finish_to_finish: 'Término → término',
+};
+
+type TaskStatus = Task['status'];
+
+// Tarefa do outro lado da dependência, como listada em GET /api/tasks/:id/dependencies
+export interface DependencyTask {
+  id: number;
+  name: string;
+  status: TaskStatus;
+  phaseId: number | null;
+}
+
+export interface DependencyLink {
+  id: number;
+  type: DependencyType;
+  task: DependencyTask;
+}
+
+export interface TaskDependencies {
+  blockers: DependencyLink[]; // Tarefas de que esta depende
+  blocking: DependencyLink[]; // Tarefas que dependem desta
+}
+
+/**
+ * Se a dependência ainda impede a tarefa bloqueada de passar para o status.
+ * Término → início: só começa depois que a bloqueadora for concluída.
+ * Início → início: só começa depois que a bloqueadora tiver começado.
+ * Término → término: só é concluída depois que a bloqueadora for concluída.
+ */
+export function isDependencyBlocking(type: DependencyType, blockerStatus: TaskStatus, nextStatus: TaskStatus): boolean {
+  switch (type) {
+    case 'finish_to_start':
+      return nextStatus !== 'todo' && blockerStatus !== 'completed';
+    case 'start_to_start':
+      return nextStatus !== 'todo' && blockerStatus === 'todo';
+    case 'finish_to_finish':
+      return nextStatus === 'completed' && blockerStatus !== 'completed';
+  }
+}
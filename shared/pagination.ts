@@ -0,0 +1,25 @@
+/**
+ * Contrato das rotas de listagem: ?cursor=&limit=&sort=&filter[campo]=
+ * `sort` recebe o nome do campo, com "-" na frente para ordem decrescente (ex: "-createdAt").
+ * Filtros com vários valores são separados por vírgula (ex: filter[status]=todo,review).
+ * A resposta traz `nextCursor`, que deve ser enviado em `cursor` para buscar a página seguinte
+ * (null na última página).
+ */
+
+export const DEFAULT_PAGE_LIMIT = 50;
+export const MAX_PAGE_LIMIT = 100;
+
+export interface Page<T> {
+  items: T[];
+  nextCursor: string | null;
+}
+
+export const TASK_SORT_FIELDS = ['createdAt', 'updatedAt', 'dueDate', 'name'] as const;
+export const ACTIVITY_SORT_FIELDS = ['createdAt'] as const;
+export const FILE_SORT_FIELDS = ['uploadedAt', 'name', 'size'] as const;
+export const USER_SORT_FIELDS = ['name', 'username', 'createdAt'] as const;
+
+export type TaskSortField = typeof TASK_SORT_FIELDS[number];
+export type ActivitySortField = typeof ACTIVITY_SORT_FIELDS[number];
+export type FileSortField = typeof FILE_SORT_FIELDS[number];
+export type UserSortField = typeof USER_SORT_FIELDS[number];
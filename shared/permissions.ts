@@ -0,0 +1,82 @@
+/**
+ * Catálogo de permissões e matriz padrão de papéis.
+ * Permissões de organização são avaliadas pelo papel na organização (orgRoleEnum);
+ * permissões de projeto, pelo papel no projeto. O owner da organização pode
+ * personalizar a matriz, exceto as permissões fixas do owner.
+ */
+
+export const ORGANIZATION_ROLES = ['owner', 'admin', 'member'] as const;
+export const PROJECT_ROLES = ['admin', 'manager', 'member'] as const;
+
+export type OrganizationRole = typeof ORGANIZATION_ROLES[number];
+export type ProjectRole = typeof PROJECT_ROLES[number];
+
+export const ORGANIZATION_PERMISSIONS = {
+  'organization.manage': 'Alterar identidade visual, configurações e ver o uso do plano',
+  'member.invite': 'Convidar membros e gerenciar convites',
+  'security.manage': 'Gerenciar segurança, sessões dos membros e login único',
+  'integration.manage': 'Gerenciar integrações (WhatsApp, email, SMS)',
+  'audit.view': 'Ver e exportar o registro de auditoria',
+  'trash.manage': 'Restaurar e excluir definitivamente itens da lixeira',
+  'tag.manage': 'Renomear, mesclar e excluir as tags da organização',
+  'project.create': 'Criar projetos',
+  'permission.manage': 'Alterar a matriz de permissões',
+} as const;
+
+export const PROJECT_PERMISSIONS = {
+  'project.update': 'Editar o projeto',
+  'project.delete': 'Excluir o projeto',
+  'project.members.manage': 'Adicionar e remover membros do projeto',
+  'project.roles.manage': 'Alterar o papel dos membros do projeto',
+  'phase.manage': 'Criar, editar e excluir fases',
+  'task.create': 'Criar tarefas',
+  'task.update': 'Editar tarefas e checklists',
+  'task.delete': 'Excluir tarefas',
+  'file.upload': 'Enviar arquivos',
+  'file.delete': 'Excluir arquivos enviados por outros membros',
+  'comment.create': 'Comentar',
+  'comment.delete': 'Excluir comentários de outros membros',
+  'budget.manage': 'Criar e editar categorias e previsões de orçamento',
+  'budget.delete': 'Excluir categorias e previsões de orçamento',
+  'expense.create': 'Registrar despesas',
+  'expense.update': 'Editar despesas de outros membros',
+  'expense.approve': 'Aprovar e rejeitar despesas',
+  'expense.delete': 'Excluir despesas de outros membros',
+} as const;
+
+export type OrganizationPermission = keyof typeof ORGANIZATION_PERMISSIONS;
+export type ProjectPermission = keyof typeof PROJECT_PERMISSIONS;
+export type Permission = OrganizationPermission | ProjectPermission;
+
+export interface PermissionMatrix {
+  organization: Record<OrganizationRole, OrganizationPermission[]>;
+  project: Record<ProjectRole, ProjectPermission[]>;
+}
+
+const allOrganizationPermissions = Object.keys(ORGANIZATION_PERMISSIONS) as OrganizationPermission[];
+const allProjectPermissions = Object.keys(PROJECT_PERMISSIONS) as ProjectPermission[];
+
+// O owner mantém todas as permissões de organização para não perder o acesso à matriz
+export const FIXED_OWNER_PERMISSIONS: OrganizationPermission[] = allOrganizationPermissions;
+
+export const DEFAULT_PERMISSION_MATRIX: PermissionMatrix = {
+  organization: {
+    owner: allOrganizationPermissions,
+    admin: ['organization.manage', 'member.invite', 'security.manage', 'integration.manage', 'audit.view', 'trash.manage', 'tag.manage', 'project.create'],
+    member: ['project.create'],
+  },
+  project: {
+    admin: allProjectPermissions,
+    manager: [
+      'project.update', 'project.members.manage', 'phase.manage',
+      'task.create', 'task.update', 'task.delete',
+      'file.upload', 'file.delete', 'comment.create',
+      'budget.manage', 'expense.create', 'expense.update', 'expense.approve',
+    ],
+    member: ['task.create', 'task.update', 'file.upload', 'comment.create', 'expense.create'],
+  },
+};
+
+export function isOrganizationPermission(permission: Permission): permission is OrganizationPermission {
+  return permission in ORGANIZATION_PERMISSIONS;
+}
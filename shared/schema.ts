@@ -1,4 +1,4 @@
-import { pgTable, text, serial, integer, boolean, timestamp, pgEnum, jsonb, uuid, varchar, date, unique } from "drizzle-orm/pg-core";
+import { pgTable, text, serial, integer, boolean, timestamp, pgEnum, jsonb, uuid, varchar, date, unique, type AnyPgColumn } from "drizzle-orm/pg-core";
 import { createInsertSchema } from "drizzle-zod";
 import { z } from "zod";
 
@@ -42,10 +42,57 @@ export const organizationSettings = pgTable("organization_settings", {
   maxStorageGb: integer("max_storage_gb").default(5),
   maxUsers: integer("max_users").default(5),
   maxProjects: integer("max_projects").default(10),
+  requireTwoFactor: boolean("require_two_factor").default(false), // Exige verificação em duas etapas de todos os membros
+  trashRetentionDays: integer("trash_retention_days").notNull().default(30), // Itens da lixeira são excluídos definitivamente após este prazo
+  permissions: jsonb("permissions"), // Matriz de permissões personalizada (null usa a matriz padrão)
   settings: jsonb("settings").default({}), // Configurações adicionais em formato JSON
   updatedAt: timestamp("updated_at").defaultNow(),
 });
 
+// Login único (OpenID Connect) por organização
+export const organizationSso = pgTable("organization_sso", {
+  id: serial("id").primaryKey(),
+  organizationId: integer("organization_id").notNull().unique().references(() => organizations.id, { onDelete: 'cascade' }),
+  enabled: boolean("enabled").notNull().default(false),
+  issuer: text("issuer").notNull(), // URL do emissor (provedor de identidade)
+  clientId: text("client_id").notNull(),
+  clientSecret: text("client_secret"), // Criptografado
+  allowedDomains: jsonb("allowed_domains").default([]), // Domínios de email aceitos
+  defaultRole: orgRoleEnum("default_role").notNull().default('member'), // Papel dos membros criados no primeiro acesso
+  createdAt: timestamp("created_at").defaultNow(),
+  updatedAt: timestamp("updated_at").defaultNow(),
+});
+
+// Domínios de email da organização; só domínios verificados (registro TXT no DNS) entram no login único
+export const organizationDomains = pgTable("organization_domains", {
+  id: serial("id").primaryKey(),
+  organizationId: integer("organization_id").notNull().references(() => organizations.id, { onDelete: 'cascade' }),
+  domain: text("domain").notNull(),
+  verificationToken: text("verification_token").notNull(), // Valor esperado no registro TXT
+  verifiedAt: timestamp("verified_at"),
+  createdAt: timestamp("created_at").defaultNow(),
+}, (table) => {
+  return {
+    uniqueDomain: unique("unique_organization_domain").on(table.organizationId, table.domain),
+  }
+});
+
+// Identidades externas (emissor + subject) vinculadas aos usuários pelo SSO
+export const ssoIdentities = pgTable("sso_identities", {
+  id: serial("id").primaryKey(),
+  userId: integer("user_id").notNull().references(() => users.id, { onDelete: 'cascade' }),
+  organizationId: integer("organization_id").notNull().references(() => organizations.id, { onDelete: 'cascade' }),
+  issuer: text("issuer").notNull(),
+  subject: text("subject").notNull(),
+  email: text("email"),
+  createdAt: timestamp("created_at").defaultNow(),
+  lastLoginAt: timestamp("last_login_at"),
+}, (table) => {
+  return {
+    uniqueIdentity: unique("unique_sso_identity").on(table.issuer, table.subject),
+  }
+});
+
 // Subscription plans for SaaS model
 export const subscriptions = pgTable("subscriptions", {
   id: serial("id").primaryKey(),
@@ -78,6 +125,7 @@ export const users = pgTable("users", {
   profession: professionEnum("profession").default('other'),
   avatar: text("avatar"),
   partnerAgencyId: integer("partner_agency_id").references(() => partnerAgencies.id),
+  isSuperAdmin: boolean("is_super_admin").notNull().default(false), // Acesso à área Super Admin (concedido por outro super admin)
   
   // Campos do Stripe
   stripeCustomerId: text("stripe_customer_id"),
@@ -86,16 +134,98 @@ export const users = pgTable("users", {
   createdAt: timestamp("created_at").defaultNow(),
 });
 
+// Password reset tokens table (apenas o hash do token é armazenado)
+export const passwordResetTokens = pgTable("password_reset_tokens", {
+  id: serial("id").primaryKey(),
+  userId: integer("user_id").notNull().references(() => users.id, { onDelete: 'cascade' }),
+  tokenHash: text("token_hash").notNull().unique(), // Hash SHA-256 do token enviado por email
+  expiresAt: timestamp("expires_at").notNull(),
+  usedAt: timestamp("used_at"), // Preenchido quando o token é usado ou invalidado
+  requestedIp: text("requested_ip"),
+  createdAt: timestamp("created_at").defaultNow(),
+});
+
+// Two-factor authentication table (TOTP por usuário)
+export const userTwoFactor = pgTable("user_two_factor", {
+  id: serial("id").primaryKey(),
+  userId: integer("user_id").notNull().unique().references(() => users.id, { onDelete: 'cascade' }),
+  secret: text("secret").notNull(), // Segredo TOTP criptografado
+  enabledAt: timestamp("enabled_at"), // Nulo enquanto o cadastro não for confirmado com um código
+  recoveryCodes: jsonb("recovery_codes").default([]), // Hashes SHA-256 dos códigos ainda não usados
+  lastUsedStep: integer("last_used_step"), // Último intervalo TOTP aceito (impede reutilizar o mesmo código)
+  createdAt: timestamp("created_at").defaultNow(),
+  updatedAt: timestamp("updated_at").defaultNow(),
+});
+
+// Personal access tokens para a API REST (apenas o hash do token é armazenado)
+export const apiTokens = pgTable("api_tokens", {
+  id: serial("id").primaryKey(),
+  userId: integer("user_id").notNull().references(() => users.id, { onDelete: 'cascade' }),
+  organizationId: integer("organization_id").notNull().references(() => organizations.id, { onDelete: 'cascade' }),
+  name: text("name").notNull(),
+  tokenHash: text("token_hash").notNull().unique(), // Hash SHA-256 do token
+  tokenPrefix: text("token_prefix").notNull(), // Início do token, para identificação na interface
+  scopes: jsonb("scopes").default([]), // read, write, admin
+  expiresAt: timestamp("expires_at"), // Nulo quando o token não expira
+  revokedAt: timestamp("revoked_at"),
+  lastUsedAt: timestamp("last_used_at"),
+  lastUsedIp: text("last_used_ip"),
+  createdAt: timestamp("created_at").defaultNow(),
+});
+
+// Sessões de login (armazenamento persistente do express-session)
+export const userSessions = pgTable("user_sessions", {
+  sid: varchar("sid", { length: 255 }).primaryKey(),
+  userId: integer("user_id").references(() => users.id, { onDelete: 'cascade' }), // Nulo enquanto a sessão não tiver login
+  data: jsonb("data").notNull(), // Conteúdo serializado da sessão
+  expiresAt: timestamp("expires_at").notNull(),
+  userAgent: text("user_agent"),
+  ipAddress: text("ip_address"),
+  createdAt: timestamp("created_at").defaultNow(),
+  lastSeenAt: timestamp("last_seen_at").defaultNow(),
+});
+
+// Tentativas de login malsucedidas e bloqueios temporários (por conta, IP ou telefone)
+export const loginThrottles = pgTable("login_throttles", {
+  id: serial("id").primaryKey(),
+  key: text("key").notNull().unique(), // Ex: account:joao, ip:203.0.113.5, phone:5511999999999
+  scope: text("scope").notNull(), // account, ip, phone
+  identifier: text("identifier").notNull(),
+  failures: integer("failures").notNull().default(0), // Falhas consecutivas desde o último sucesso ou bloqueio
+  lockouts: integer("lockouts").notNull().default(0), // Bloqueios recentes (aumentam a duração do próximo)
+  lastFailureAt: timestamp("last_failure_at"),
+  lockedUntil: timestamp("locked_until"),
+  updatedAt: timestamp("updated_at").defaultNow(),
+});
+
+// Registro de auditoria (somente inclusão): eventos de segurança e administrativos.
+// Sem chaves estrangeiras para que os registros permaneçam intactos após exclusões.
+export const auditLogs = pgTable("audit_logs", {
+  id: serial("id").primaryKey(),
+  organizationId: integer("organization_id"), // Nulo nas ações da área Super Admin
+  actorId: integer("actor_id"), // Quem executou a ação (nulo em logins recusados)
+  actorName: text("actor_name"), // Username do autor na data do registro
+  action: text("action").notNull(), // Ver AUDIT_ACTIONS em shared/audit.ts
+  targetType: text("target_type"), // Ex: user, integration, partner_agency
+  targetId: integer("target_id"),
+  targetLabel: text("target_label"), // Descrição do alvo na data do registro
+  changes: jsonb("changes"), // { campo: { from, to } }, com segredos mascarados
+  details: jsonb("details"),
+  ipAddress: text("ip_address"),
+  createdAt: timestamp("created_at").notNull().defaultNow(),
+});
+
 // Organization members table (junction entre users e organizations)
 export const organizationMembers = pgTable("organization_members", {
   id: serial("id").primaryKey(),
   organizationId: integer("organization_id").notNull().references(() => organizations.id, { onDelete: 'cascade' }),
-  userId: integer("user_id").notNull().references(() => users.id, { onDelete: 'cascade' }),
+  userId: integer("user_id").references(() => users.id, { onDelete: 'cascade' }), // Nulo enquanto o convite não for aceito por um email sem conta
   role: orgRoleEnum("role").notNull().default('member'),
   joinedAt: timestamp("joined_at").defaultNow(),
   invitedBy: integer("invited_by").references(() => users.id),
+  inviteEmail: text("invite_email"), // Email convidado
   inviteStatus: text("invite_status").default('accepted'), // pending, accepted, declined
-  inviteToken: text("invite_token"),
+  inviteToken: text("invite_token"), // Hash SHA-256 do token enviado por email
   inviteExpiresAt: timestamp("invite_expires_at"),
   activeOrganization: boolean("active_organization").default(true), // Indica se essa é a organização atualmente ativa para o usuário
   updatedAt: timestamp("updated_at").defaultNow(),
@@ -119,6 +249,9 @@ export const projects = pgTable("projects", {
   createdAt: timestamp("created_at").defaultNow(),
   createdBy: integer("created_by").notNull().references(() => users.id),
   updatedAt: timestamp("updated_at").defaultNow(),
+  version: integer("version").notNull().default(1), // Incrementada a cada alteração (ETag das atualizações)
+  deletedAt: timestamp("deleted_at"), // Na lixeira desde (null = ativo)
+  deletedBy: integer("deleted_by").references(() => users.id, { onDelete: 'set null' }),
 });
 
 // Project members table (junction table)
@@ -145,6 +278,7 @@ export const phases = pgTable("phases", {
   order: integer("order").notNull(),
   createdAt: timestamp("created_at").defaultNow(),
   updatedAt: timestamp("updated_at").defaultNow(),
+  version: integer("version").notNull().default(1), // Incrementada a cada alteração (ETag das atualizações)
 });
 
 // Tasks table
@@ -153,6 +287,7 @@ export const tasks = pgTable("tasks", {
   organizationId: integer("organization_id").notNull().references(() => organizations.id, { onDelete: 'cascade' }),
   projectId: integer("project_id").notNull().references(() => projects.id, { onDelete: 'cascade' }),
   phaseId: integer("phase_id").references(() => phases.id, { onDelete: 'set null' }),
+  parentTaskId: integer("parent_task_id").references((): AnyPgColumn => tasks.id, { onDelete: 'set null' }), // Subtarefa de (shared/subtasks.ts)
   name: text("name").notNull(),
   description: text("description"),
   assignedTo: integer("assigned_to").references(() => users.id, { onDelete: 'set null' }),
@@ -164,6 +299,9 @@ export const tasks = pgTable("tasks", {
   createdAt: timestamp("created_at").defaultNow(),
   createdBy: integer("created_by").references(() => users.id),
   updatedAt: timestamp("updated_at").defaultNow(),
+  version: integer("version").notNull().default(1), // Incrementada a cada alteração (ETag das atualizações)
+  deletedAt: timestamp("deleted_at"), // Na lixeira desde (null = ativo)
+  deletedBy: integer("deleted_by").references(() => users.id, { onDelete: 'set null' }),
 });
 
 // Checklist items table
@@ -192,6 +330,8 @@ export const files = pgTable("files", {
   uploadedBy: integer("uploaded_by").notNull().references(() => users.id),
   uploadedAt: timestamp("uploaded_at").defaultNow(),
   updatedAt: timestamp("updated_at").defaultNow(),
+  deletedAt: timestamp("deleted_at"), // Na lixeira desde (null = ativo)
+  deletedBy: integer("deleted_by").references(() => users.id, { onDelete: 'set null' }),
 });
 
 // Activities table
@@ -218,6 +358,64 @@ export const comments = pgTable("comments", {
   parentId: integer("parent_id"),
   createdAt: timestamp("created_at").defaultNow(),
   updatedAt: timestamp("updated_at").defaultNow(),
+  deletedAt: timestamp("deleted_at"), // Na lixeira desde (null = ativo)
+  deletedBy: integer("deleted_by").references(() => users.id, { onDelete: 'set null' }),
+});
+
+// Tags de tarefas da organização (shared/tags.ts)
+export const tags = pgTable("tags", {
+  id: serial("id").primaryKey(),
+  organizationId: integer("organization_id").notNull().references(() => organizations.id, { onDelete: 'cascade' }),
+  name: text("name").notNull(),
+  color: text("color").notNull().default('blue'), // Uma de TAG_COLORS
+  createdAt: timestamp("created_at").defaultNow(),
+  updatedAt: timestamp("updated_at").defaultNow(),
+}, (table) => {
+  return {
+    uniqueName: unique("unique_tag_name").on(table.organizationId, table.name),
+  }
+});
+
+// Task tags table (junction entre tasks e tags)
+export const taskTags = pgTable("task_tags", {
+  id: serial("id").primaryKey(),
+  taskId: integer("task_id").notNull().references(() => tasks.id, { onDelete: 'cascade' }),
+  tagId: integer("tag_id").notNull().references(() => tags.id, { onDelete: 'cascade' }),
+  createdAt: timestamp("created_at").defaultNow(),
+}, (table) => {
+  return {
+    uniqueTaskTag: unique("unique_task_tag").on(table.taskId, table.tagId),
+  }
+});
+
+// Dependências entre tarefas do mesmo projeto (shared/dependencies.ts)
+export const taskDependencies = pgTable("task_dependencies", {
+  id: serial("id").primaryKey(),
+  organizationId: integer("organization_id").notNull().references(() => organizations.id, { onDelete: 'cascade' }),
+  blockerTaskId: integer("blocker_task_id").notNull().references(() => tasks.id, { onDelete: 'cascade' }),
+  blockedTaskId: integer("blocked_task_id").notNull().references(() => tasks.id, { onDelete: 'cascade' }),
+  type: text("type").notNull().default('finish_to_start'), // finish_to_start, start_to_start, finish_to_finish
+  createdBy: integer("created_by").references(() => users.id, { onDelete: 'set null' }),
+  createdAt: timestamp("created_at").defaultNow(),
+}, (table) => {
+  return {
+    uniqueDependency: unique("unique_task_dependency").on(table.blockerTaskId, table.blockedTaskId),
+  }
+});
+
+// Visões salvas: filtros nomeados de tarefas ou projetos (formato em shared/views.ts)
+export const savedViews = pgTable("saved_views", {
+  id: serial("id").primaryKey(),
+  organizationId: integer("organization_id").notNull().references(() => organizations.id, { onDelete: 'cascade' }),
+  userId: integer("user_id").notNull().references(() => users.id, { onDelete: 'cascade' }), // Autor
+  name: text("name").notNull(),
+  target: text("target").notNull(), // tasks, projects
+  filters: jsonb("filters").notNull().default({}),
+  shared: boolean("shared").notNull().default(false), // Visível para toda a organização
+  pinned: boolean("pinned").notNull().default(false), // Atalho na barra lateral
+  onDashboard: boolean("on_dashboard").notNull().default(false), // Widget no dashboard do autor
+  createdAt: timestamp("created_at").defaultNow(),
+  updatedAt: timestamp("updated_at").defaultNow(),
 });
 
 // System Integrations table (com referência à organização)
@@ -315,6 +513,7 @@ export const budgetCategories = pgTable("budget_categories", {
   createdBy: integer("created_by").notNull().references(() => users.id),
   createdAt: timestamp("created_at").defaultNow(),
   updatedAt: timestamp("updated_at").defaultNow(),
+  version: integer("version").notNull().default(1), // Incrementada a cada alteração (ETag das atualizações)
 }, (table) => {
   return {
     uniqueCategoryInProject: unique("unique_budget_category").on(table.projectId, table.name),
@@ -340,6 +539,7 @@ export const expenses = pgTable("expenses", {
   taskId: integer("task_id").references(() => tasks.id, { onDelete: 'set null' }),
   createdAt: timestamp("created_at").defaultNow(),
   updatedAt: timestamp("updated_at").defaultNow(),
+  version: integer("version").notNull().default(1), // Incrementada a cada alteração (ETag das atualizações)
   metadata: jsonb("metadata"),
 });
 
@@ -408,6 +608,9 @@ export const insertOrganizationSettingsSchema = createInsertSchema(organizationS
   maxStorageGb: true,
   maxUsers: true,
   maxProjects: true,
+  requireTwoFactor: true,
+  trashRetentionDays: true,
+  permissions: true,
   settings: true,
 });
 
@@ -437,11 +640,115 @@ export const insertUserSchema = createInsertSchema(users).pick({
   partnerAgencyId: true,
 });
 
+export const insertPasswordResetTokenSchema = createInsertSchema(passwordResetTokens).pick({
+  userId: true,
+  tokenHash: true,
+  expiresAt: true,
+  requestedIp: true,
+});
+
+export const insertUserTwoFactorSchema = createInsertSchema(userTwoFactor).pick({
+  userId: true,
+  secret: true,
+  enabledAt: true,
+  recoveryCodes: true,
+  lastUsedStep: true,
+});
+
+export const insertApiTokenSchema = createInsertSchema(apiTokens).pick({
+  userId: true,
+  organizationId: true,
+  name: true,
+  tokenHash: true,
+  tokenPrefix: true,
+  scopes: true,
+  expiresAt: true,
+});
+
+export const insertUserSessionSchema = createInsertSchema(userSessions).pick({
+  sid: true,
+  userId: true,
+  data: true,
+  expiresAt: true,
+  userAgent: true,
+  ipAddress: true,
+});
+
+export const insertLoginThrottleSchema = createInsertSchema(loginThrottles).pick({
+  key: true,
+  scope: true,
+  identifier: true,
+  failures: true,
+  lockouts: true,
+  lastFailureAt: true,
+  lockedUntil: true,
+});
+
+export const insertTagSchema = createInsertSchema(tags).pick({
+  name: true,
+  color: true,
+});
+
+export const insertTaskDependencySchema = createInsertSchema(taskDependencies).pick({
+  blockerTaskId: true,
+  blockedTaskId: true,
+  type: true,
+  createdBy: true,
+});
+
+export const insertSavedViewSchema = createInsertSchema(savedViews).pick({
+  userId: true,
+  name: true,
+  target: true,
+  filters: true,
+  shared: true,
+  pinned: true,
+  onDashboard: true,
+});
+
+export const insertAuditLogSchema = createInsertSchema(auditLogs).pick({
+  organizationId: true,
+  actorId: true,
+  actorName: true,
+  action: true,
+  targetType: true,
+  targetId: true,
+  targetLabel: true,
+  changes: true,
+  details: true,
+  ipAddress: true,
+});
+
+export const insertOrganizationSsoSchema = createInsertSchema(organizationSso).pick({
+  organizationId: true,
+  enabled: true,
+  issuer: true,
+  clientId: true,
+  clientSecret: true,
+  allowedDomains: true,
+  defaultRole: true,
+});
+
+export const insertOrganizationDomainSchema = createInsertSchema(organizationDomains).pick({
+  organizationId: true,
+  domain: true,
+  verificationToken: true,
+});
+
+export const insertSsoIdentitySchema = createInsertSchema(ssoIdentities).pick({
+  userId: true,
+  organizationId: true,
+  issuer: true,
+  subject: true,
+  email: true,
+});
+
 export const insertOrganizationMemberSchema = createInsertSchema(organizationMembers).pick({
   organizationId: true,
   userId: true,
   role: true,
   invitedBy: true,
+  inviteEmail: true,
   inviteStatus: true,
   inviteToken: true,
   inviteExpiresAt: true,
@@ -476,12 +783,14 @@ export const insertPhaseSchema = createInsertSchema(phases).pick({
 export const insertTaskSchema = createInsertSchema(tasks).pick({
   projectId: true,
   phaseId: true,
+  parentTaskId: true,
   name: true,
   description: true,
   assignedTo: true,
   priority: true,
   status: true,
   dueDate: true,
+  estimatedHours: true,
 });
 
 export const insertChecklistItemSchema = createInsertSchema(checklistItems).pick({
@@ -578,7 +887,6 @@ export const insertAdminSettingSchema = createInsertSchema(adminSettings).pick({
 });
 
 export const insertBudgetCategorySchema = createInsertSchema(budgetCategories).pick({
-  organizationId: true,
   projectId: true,
   name: true,
   category: true,
@@ -589,7 +897,6 @@ export const insertBudgetCategorySchema = createInsertSchema(budgetCategories).p
 });
 
 export const insertExpenseSchema = createInsertSchema(expenses).pick({
-  organizationId: true,
   projectId: true,
   categoryId: true,
   name: true,
@@ -605,7 +912,6 @@ export const insertExpenseSchema = createInsertSchema(expenses).pick({
 });
 
 export const insertBudgetForecastSchema = createInsertSchema(budgetForecasts).pick({
-  organizationId: true,
   projectId: true,
   name: true,
   description: true,
@@ -651,6 +957,33 @@ export type OrganizationMember = typeof organizationMembers.$inferSelect;
 export type InsertUser = z.infer<typeof insertUserSchema>;
 export type User = typeof users.$inferSelect;
 
+export type InsertPasswordResetToken = z.infer<typeof insertPasswordResetTokenSchema>;
+export type PasswordResetToken = typeof passwordResetTokens.$inferSelect;
+
+export type InsertUserTwoFactor = z.infer<typeof insertUserTwoFactorSchema>;
+export type UserTwoFactor = typeof userTwoFactor.$inferSelect;
+
+export type InsertApiToken = z.infer<typeof insertApiTokenSchema>;
+export type ApiToken = typeof apiTokens.$inferSelect;
+
+export type InsertUserSession = z.infer<typeof insertUserSessionSchema>;
+export type UserSession = typeof userSessions.$inferSelect;
+
+export type InsertLoginThrottle = z.infer<typeof insertLoginThrottleSchema>;
+export type LoginThrottle = typeof loginThrottles.$inferSelect;
+
+export type InsertAuditLog = z.infer<typeof insertAuditLogSchema>;
+export type AuditLog = typeof auditLogs.$inferSelect;
+
+export type InsertOrganizationSso = z.infer<typeof insertOrganizationSsoSchema>;
+export type OrganizationSso = typeof organizationSso.$inferSelect;
+
+export type InsertOrganizationDomain = z.infer<typeof insertOrganizationDomainSchema>;
+export type OrganizationDomain = typeof organizationDomains.$inferSelect;
+
+export type InsertSsoIdentity = z.infer<typeof insertSsoIdentitySchema>;
+export type SsoIdentity = typeof ssoIdentities.$inferSelect;
+
 export type InsertProject = z.infer<typeof insertProjectSchema>;
 export type Project = typeof projects.$inferSelect;
 
@@ -675,6 +1008,16 @@ export type Activity = typeof activities.$inferSelect;
 export type InsertComment = z.infer<typeof insertCommentSchema>;
 export type Comment = typeof comments.$inferSelect;
 
+export type InsertTag = z.infer<typeof insertTagSchema>;
+export type Tag = typeof tags.$inferSelect;
+export type TaskTag = typeof taskTags.$inferSelect;
+
+export type InsertTaskDependency = z.infer<typeof insertTaskDependencySchema>;
+export type TaskDependency = typeof taskDependencies.$inferSelect;
+
+export type InsertSavedView = z.infer<typeof insertSavedViewSchema>;
+export type SavedView = typeof savedViews.$inferSelect;
+
 export type InsertIntegration = z.infer<typeof insertIntegrationSchema>;
 export type Integration = typeof integrations.$inferSelect;
 
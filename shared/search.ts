@@ -0,0 +1,43 @@
+/**
+ * Contrato da busca unificada: GET /api/search?q=&limit=&filter[campo]=
+ * Filtros: type, status e projectId/assignedTo (ids), from/to (datas ISO, pela data de criação).
+ * Listas são separadas por vírgula (ex: filter[type]=task,comment).
+ * A comparação ignora maiúsculas e acentos; todos os termos de `q` precisam aparecer no item.
+ */
+
+export const SEARCH_RESULT_TYPES = ['project', 'task', 'comment', 'file', 'phase'] as const;
+export type SearchResultType = typeof SEARCH_RESULT_TYPES[number];
+
+export const SEARCH_RESULT_LABELS: Record<SearchResultType, string> = {
+  project: 'Projeto',
+  task: 'Tarefa',
+  comment: 'Comentário',
+  file: 'Arquivo',
+  phase: 'Fase',
+};
+
+export const DEFAULT_SEARCH_LIMIT = 20;
+export const MAX_SEARCH_LIMIT = 50;
+
+// Trecho destacado: [início, fim) no texto original
+export type SearchHighlight = [number, number];
+
+export interface SearchResult {
+  type: SearchResultType;
+  id: number;
+  title: string;
+  snippet: string | null; // Trecho da descrição ou do conteúdo em torno da primeira ocorrência
+  highlights: { title: SearchHighlight[]; snippet: SearchHighlight[] };
+  projectId: number | null;
+  projectName: string | null;
+  taskId: number | null;
+  taskName: string | null;
+  status: string | null;
+  date: Date | null;
+  score: number;
+}
+
+export interface SearchResponse {
+  results: SearchResult[];
+  counts: Record<SearchResultType, number>; // Itens encontrados por tipo, antes do limite
+}
@@ -0,0 +1,59 @@
+/**
+ * Subtarefas: tarefas com uma tarefa pai (tasks.parent_task_id) no mesmo projeto, em
+ * qualquer profundidade. O status e as horas estimadas das subtarefas sobem para as tarefas pai.
+ */
+import type { Task } from './schema';
+
+type TaskStatus = Task['status'];
+type RollupTask = Pick<Task, 'id' | 'parentTaskId' | 'status' | 'estimatedHours'>;
+
+// Consolidado das subtarefas (de todos os níveis) de uma tarefa
+export interface TaskRollup {
+  subtaskCount: number;
+  completedSubtasks: number;
+  estimatedHours: number | null; // Soma das subtarefas finais (sem subtarefas); sem subtarefas, a da própria tarefa
+  status: TaskStatus; // Derivado das subtarefas; sem subtarefas, o da própria tarefa
+}
+
+// Status das subtarefas em conjunto: concluído ou em revisão só quando todas estão
+export function rollupStatus(statuses: TaskStatus[]): TaskStatus {
+  if (statuses.every(status => status === 'completed')) return 'completed';
+  if (statuses.every(status => status === 'completed' || status === 'review')) return 'review';
+  if (statuses.every(status => status === 'todo')) return 'todo';
+  return 'in_progress';
+}
+
+// Consolidado de cada tarefa a partir dela e de todas as suas subtarefas (as demais são ignoradas)
+export function buildRollups(tasks: RollupTask[]): Map<number, TaskRollup> {
+  const children = new Map<number, RollupTask[]>();
+  tasks.forEach(task => {
+    if (task.parentTaskId) children.set(task.parentTaskId, [...(children.get(task.parentTaskId) ?? []), task]);
+  });
+
+  const rollups = new Map<number, TaskRollup>();
+  tasks.forEach(task => {
+    const descendants: RollupTask[] = [];
+    const visited = new Set([task.id]);
+    const pending = [...(children.get(task.id) ?? [])];
+    while (pending.length > 0) {
+      const subtask = pending.pop()!;
+      if (visited.has(subtask.id)) continue;
+      visited.add(subtask.id);
+      descendants.push(subtask);
+      pending.push(...(children.get(subtask.id) ?? []));
+    }
+
+    // A estimativa de uma tarefa com subtarefas é a soma das delas, não um valor a mais
+    const estimated = descendants.length > 0 ? descendants.filter(subtask => !children.has(subtask.id)) : [task];
+    const hours = estimated
+      .map(subtask => subtask.estimatedHours)
+      .filter((value): value is number => value !== null);
+    rollups.set(task.id, {
+      subtaskCount: descendants.length,
+      completedSubtasks: descendants.filter(subtask => subtask.status === 'completed').length,
+      estimatedHours: hours.length > 0 ? hours.reduce((sum, value) => sum + value, 0) : null,
+      status: descendants.length > 0 ? rollupStatus(descendants.map(subtask => subtask.status)) : task.status,
+    });
+  });
+  return rollups;
+}
@@ -0,0 +1,28 @@
+/**
+ * Tags de tarefas: cadastro único por organização, ligadas às tarefas (task_tags).
+ * A cor é escolhida ao criar a tag e fica salva, então não muda se a tag for renomeada.
+ */
+
+export const TAG_COLORS = ['blue', 'green', 'yellow', 'purple', 'pink', 'indigo', 'red', 'orange'] as const;
+export type TagColor = typeof TAG_COLORS[number];
+
+export const MAX_TAG_NAME_LENGTH = 40;
+export const MAX_TASK_TAGS = 10;
+
+// Tag como listada em GET /api/tags
+export interface TagSummary {
+  id: number;
+  name: string;
+  color: TagColor;
+  taskCount: number; // Tarefas ativas com a tag
+}
+
+// Cor de uma tag nova: a próxima da paleta, para tags vizinhas não repetirem a cor
+export function nextTagColor(existingTags: number): TagColor {
+  return TAG_COLORS[existingTags % TAG_COLORS.length];
+}
+
+// Nome comparável: tags que diferem só em maiúsculas ou espaços são a mesma tag
+export function tagNameKey(name: string): string {
+  return name.trim().replace(/\s+/g, ' ').toLowerCase();
+}
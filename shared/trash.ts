@@ -0,0 +1,30 @@
+/**
+ * Lixeira: projetos, tarefas, arquivos e comentários excluídos ficam marcados (deletedAt)
+ * até serem restaurados ou excluídos definitivamente, manualmente ou após a retenção.
+ * Ao excluir um item, os itens filhos vão junto para a lixeira (com a mesma data)
+ * e voltam junto na restauração.
+ */
+
+export const TRASH_ITEM_TYPES = ['project', 'task', 'file', 'comment'] as const;
+
+export type TrashItemType = typeof TRASH_ITEM_TYPES[number];
+
+export const TRASH_ITEM_LABELS: Record<TrashItemType, string> = {
+  project: 'Projeto',
+  task: 'Tarefa',
+  file: 'Arquivo',
+  comment: 'Comentário',
+};
+
+export const DEFAULT_TRASH_RETENTION_DAYS = 30;
+export const MAX_TRASH_RETENTION_DAYS = 365;
+
+export interface TrashItem {
+  type: TrashItemType;
+  id: number;
+  name: string; // Nome do item (ou trecho do comentário)
+  projectId: number | null;
+  taskId: number | null;
+  deletedAt: Date;
+  deletedBy: number | null;
+}
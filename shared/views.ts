@@ -0,0 +1,89 @@
+/**
+ * Visões salvas: filtros nomeados de tarefas e projetos, de cada usuário e opcionalmente
+ * compartilhados com a organização. Períodos são relativos à data em que a visão é aberta
+ * (ex: "prazo este mês"), e "me" no responsável é o usuário que a abre.
+ */
+import { addDays, endOfDay, endOfMonth, endOfWeek, startOfDay, startOfMonth, startOfWeek } from 'date-fns';
+
+export const SAVED_VIEW_TARGETS = ['tasks', 'projects'] as const;
+export type SavedViewTarget = typeof SAVED_VIEW_TARGETS[number];
+
+export const DATE_RANGES = ['overdue', 'today', 'this_week', 'this_month', 'next_7_days'] as const;
+export type DateRange = typeof DATE_RANGES[number];
+
+export const DATE_RANGE_LABELS: Record<DateRange, string> = {
+  overdue: 'Atrasados',
+  today: 'Hoje',
+  this_week: 'Esta semana',
+  this_month: 'Este mês',
+  next_7_days: 'Próximos 7 dias',
+};
+
+export const MAX_SAVED_VIEW_NAME_LENGTH = 80;
+
+export interface TaskViewFilters {
+  search?: string;
+  status?: string[];
+  priority?: string[];
+  projectId?: number;
+  assignedTo?: number | 'me';
+  due?: DateRange; // Pela data de entrega
+  tagIds?: number[]; // Com alguma das tags
+}
+
+export interface ProjectViewFilters {
+  search?: string;
+  status?: string[];
+  deadline?: DateRange; // Pelo prazo do projeto
+}
+
+export type SavedViewFilters = TaskViewFilters | ProjectViewFilters;
+
+// Visão como enviada ao cliente
+export interface SavedViewSummary {
+  id: number;
+  name: string;
+  target: SavedViewTarget;
+  filters: SavedViewFilters;
+  shared: boolean;
+  pinned: boolean;
+  onDashboard: boolean;
+  userId: number;
+  ownerName: string | null;
+}
+
+/**
+ * Intervalo de datas de um período relativo. "Atrasados" vale só para o que não foi concluído.
+ */
+export function dateRangeBounds(range: DateRange, now = new Date()): { from?: Date; to: Date; openOnly: boolean } {
+  switch (range) {
+    case 'overdue':
+      return { to: now, openOnly: true };
+    case 'today':
+      return { from: startOfDay(now), to: endOfDay(now), openOnly: false };
+    case 'this_week':
+      return { from: startOfWeek(now), to: endOfWeek(now), openOnly: false };
+    case 'this_month':
+      return { from: startOfMonth(now), to: endOfMonth(now), openOnly: false };
+    case 'next_7_days':
+      return { from: now, to: endOfDay(addDays(now, 7)), openOnly: false };
+  }
+}
+
+// Projeto atende aos filtros de uma visão (a lista de projetos é filtrada em memória)
+export function matchesProjectView(
+  project: { name: string; description: string | null; status: string; deadline: Date | string | null },
+  filters: ProjectViewFilters,
+  now = new Date()
+): boolean {
+  const term = filters.search?.trim().toLowerCase();
+  if (term && !project.name.toLowerCase().includes(term) && !project.description?.toLowerCase().includes(term)) return false;
+  if (filters.status?.length && !filters.status.includes(project.status)) return false;
+  if (filters.deadline) {
+    const { from, to, openOnly } = dateRangeBounds(filters.deadline, now);
+    const deadline = project.deadline ? new Date(project.deadline) : null;
+    if (!deadline || deadline > to || (from && deadline < from)) return false;
+    if (openOnly && project.status === 'completed') return false;
+  }
+  return true;
+}
@@ -0,0 +1,25 @@
+import { defineConfig } from "vitest/config";
+import path from "path";
+
+export default defineConfig({
+  resolve: {
+    alias: {
+      "@": path.resolve(import.meta.dirname, "client", "src"),
+      "@shared": path.resolve(import.meta.dirname, "shared"),
+    },
+  },
+  test: {
+    include: ["server/**/*.test.ts", "shared/**/*.test.ts"],
+    environment: "node",
+    pool: "forks",
+    // Cada arquivo de teste sobe o servidor com o armazenamento em memória
+    env: {
+      NODE_ENV: "test",
+      STORAGE_DRIVER: "memory",
+      STRIPE_SECRET_KEY: "sk_test_vitest",
+      SESSION_SECRET: "vitest-session-secret",
+    },
+    testTimeout: 20000,
+    hookTimeout: 30000,
+  },
+});